@@ -0,0 +1,27 @@
+-- AlterTable
+-- Flag bids placed automatically from a bidder's maximum
+ALTER TABLE "bids" ADD COLUMN "is_proxy" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "max_bids" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "bidder_id" TEXT NOT NULL,
+    "max_amount" DECIMAL(12,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "max_bids_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "max_bids_auction_id_bidder_id_key" ON "max_bids"("auction_id", "bidder_id");
+
+-- CreateIndex
+CREATE INDEX "max_bids_auction_id_idx" ON "max_bids"("auction_id");
+
+-- AddForeignKey
+ALTER TABLE "max_bids" ADD CONSTRAINT "max_bids_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "max_bids" ADD CONSTRAINT "max_bids_bidder_id_fkey" FOREIGN KEY ("bidder_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "bid_increment_table" TEXT NOT NULL DEFAULT 'standard';
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "SecondChanceOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "second_chance_offers" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "bidder_id" TEXT NOT NULL,
+    "bid_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "defaulted_winner_id" TEXT NOT NULL,
+    "status" "SecondChanceOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "responded_at" TIMESTAMP(3),
+    "deposit_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "second_chance_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "second_chance_offers_auction_id_bidder_id_key" ON "second_chance_offers"("auction_id", "bidder_id");
+
+-- CreateIndex
+CREATE INDEX "second_chance_offers_auction_id_idx" ON "second_chance_offers"("auction_id");
+
+-- CreateIndex
+CREATE INDEX "second_chance_offers_status_expires_at_idx" ON "second_chance_offers"("status", "expires_at");
+
+-- AddForeignKey
+ALTER TABLE "second_chance_offers" ADD CONSTRAINT "second_chance_offers_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "second_chance_offers" ADD CONSTRAINT "second_chance_offers_bidder_id_fkey" FOREIGN KEY ("bidder_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
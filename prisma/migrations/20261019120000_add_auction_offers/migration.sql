@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "AuctionOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'COUNTERED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "OfferParty" AS ENUM ('BUYER', 'SELLER');
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "negotiation_ends_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "auction_offers" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "buyer_id" TEXT NOT NULL,
+    "made_by" "OfferParty" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "status" "AuctionOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auction_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_offers_auction_id_status_idx" ON "auction_offers"("auction_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "auction_offers" ADD CONSTRAINT "auction_offers_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_offers" ADD CONSTRAINT "auction_offers_buyer_id_fkey" FOREIGN KEY ("buyer_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
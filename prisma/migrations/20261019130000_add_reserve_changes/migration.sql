@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "reserve_changes" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "changed_by_id" TEXT NOT NULL,
+    "previous_reserve" DECIMAL(12,2) NOT NULL,
+    "new_reserve" DECIMAL(12,2) NOT NULL,
+    "current_bid" DECIMAL(12,2),
+    "reserve_met" BOOLEAN NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reserve_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reserve_changes_auction_id_idx" ON "reserve_changes"("auction_id");
+
+-- AddForeignKey
+ALTER TABLE "reserve_changes" ADD CONSTRAINT "reserve_changes_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reserve_changes" ADD CONSTRAINT "reserve_changes_changed_by_id_fkey" FOREIGN KEY ("changed_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
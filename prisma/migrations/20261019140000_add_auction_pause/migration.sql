@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "AuctionStatus" ADD VALUE 'PAUSED';
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "pause_reason" TEXT,
+ADD COLUMN     "paused_at" TIMESTAMP(3);
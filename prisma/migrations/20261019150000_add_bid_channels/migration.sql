@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "BidChannel" AS ENUM ('ONLINE', 'PHONE', 'ABSENTEE');
+
+-- AlterTable
+ALTER TABLE "bids" ADD COLUMN     "channel" "BidChannel" NOT NULL DEFAULT 'ONLINE',
+ADD COLUMN     "placed_by_id" TEXT,
+ADD COLUMN     "channel_reason" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "bids" ADD CONSTRAINT "bids_placed_by_id_fkey" FOREIGN KEY ("placed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
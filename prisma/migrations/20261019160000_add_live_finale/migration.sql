@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "AuctioneerCall" AS ENUM ('FAIR_WARNING', 'GOING_ONCE', 'GOING_TWICE', 'SOLD');
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "live_finale" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "live_call" "AuctioneerCall";
+
+-- CreateTable
+CREATE TABLE "auction_events" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "call" "AuctioneerCall" NOT NULL,
+    "current_bid" DECIMAL(12,2),
+    "bid_count" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "auction_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "auction_events_auction_id_created_at_idx" ON "auction_events"("auction_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "auction_events" ADD CONSTRAINT "auction_events_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_events" ADD CONSTRAINT "auction_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- Free up "auction_events" for catalogue sales; auctioneer calls move to "auctioneer_events"
+ALTER TABLE "auction_events" RENAME TO "auctioneer_events";
+ALTER TABLE "auctioneer_events" RENAME CONSTRAINT "auction_events_pkey" TO "auctioneer_events_pkey";
+ALTER TABLE "auctioneer_events" RENAME CONSTRAINT "auction_events_auction_id_fkey" TO "auctioneer_events_auction_id_fkey";
+ALTER TABLE "auctioneer_events" RENAME CONSTRAINT "auction_events_actor_id_fkey" TO "auctioneer_events_actor_id_fkey";
+ALTER INDEX "auction_events_auction_id_created_at_idx" RENAME TO "auctioneer_events_auction_id_created_at_idx";
+
+-- CreateEnum
+CREATE TYPE "AuctionEventStatus" AS ENUM ('SCHEDULED', 'LIVE', 'ENDED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "event_id" TEXT,
+ADD COLUMN     "lot_number" INTEGER;
+
+-- CreateTable
+CREATE TABLE "auction_events" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "start_time" TIMESTAMP(3) NOT NULL,
+    "first_lot_end_time" TIMESTAMP(3) NOT NULL,
+    "lot_interval_minutes" INTEGER NOT NULL DEFAULT 2,
+    "status" "AuctionEventStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "auction_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auction_events_slug_key" ON "auction_events"("slug");
+
+-- CreateIndex
+CREATE INDEX "auction_events_status_start_time_idx" ON "auction_events"("status", "start_time");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "auctions_event_id_lot_number_key" ON "auctions"("event_id", "lot_number");
+
+-- AddForeignKey
+ALTER TABLE "auctions" ADD CONSTRAINT "auctions_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "auction_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "auction_events" ADD CONSTRAINT "auction_events_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "AuctionFormat" AS ENUM ('OPEN', 'SEALED_FIRST_PRICE', 'SEALED_SECOND_PRICE');
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN     "format" "AuctionFormat" NOT NULL DEFAULT 'OPEN';
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "BidRetractionStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "bid_retractions" (
+    "id" TEXT NOT NULL,
+    "bid_id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "bidder_id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "BidRetractionStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bid_retractions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bid_retractions_bid_id_key" ON "bid_retractions"("bid_id");
+
+-- CreateIndex
+CREATE INDEX "bid_retractions_status_created_at_idx" ON "bid_retractions"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "bid_retractions_bidder_id_status_idx" ON "bid_retractions"("bidder_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "bid_retractions" ADD CONSTRAINT "bid_retractions_bid_id_fkey" FOREIGN KEY ("bid_id") REFERENCES "bids"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bid_retractions" ADD CONSTRAINT "bid_retractions_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bid_retractions" ADD CONSTRAINT "bid_retractions_bidder_id_fkey" FOREIGN KEY ("bidder_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bid_retractions" ADD CONSTRAINT "bid_retractions_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
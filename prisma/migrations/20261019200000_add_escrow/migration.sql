@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "EscrowStatus" AS ENUM ('AWAITING_FUNDS', 'FUNDED', 'HANDED_OVER', 'DISPUTED', 'RELEASED', 'REFUNDED');
+
+-- CreateTable
+CREATE TABLE "escrows" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "buyer_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "payment_intent_id" TEXT,
+    "status" "EscrowStatus" NOT NULL DEFAULT 'AWAITING_FUNDS',
+    "funded_at" TIMESTAMP(3),
+    "handed_over_at" TIMESTAMP(3),
+    "handover_note" TEXT,
+    "inspection_ends_at" TIMESTAMP(3),
+    "confirmed_at" TIMESTAMP(3),
+    "disputed_at" TIMESTAMP(3),
+    "dispute_reason" TEXT,
+    "released_at" TIMESTAMP(3),
+    "release_reason" TEXT,
+    "refunded_at" TIMESTAMP(3),
+    "refund_id" TEXT,
+    "resolved_by_id" TEXT,
+    "resolution_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "escrows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escrows_auction_id_key" ON "escrows"("auction_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escrows_payment_intent_id_key" ON "escrows"("payment_intent_id");
+
+-- CreateIndex
+CREATE INDEX "escrows_status_inspection_ends_at_idx" ON "escrows"("status", "inspection_ends_at");
+
+-- CreateIndex
+CREATE INDEX "escrows_buyer_id_idx" ON "escrows"("buyer_id");
+
+-- AddForeignKey
+ALTER TABLE "escrows" ADD CONSTRAINT "escrows_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "escrows" ADD CONSTRAINT "escrows_buyer_id_fkey" FOREIGN KEY ("buyer_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "escrows" ADD CONSTRAINT "escrows_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- AlterEnum
+ALTER TYPE "DepositStatus" ADD VALUE 'REFUNDED';
+
+-- CreateEnum
+CREATE TYPE "RefundTarget" AS ENUM ('BUYER_FEE', 'DEPOSIT');
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING_APPROVAL', 'PROCESSING', 'SUCCEEDED', 'FAILED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "bid_deposits" ADD COLUMN "refunded_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "payment_refunds" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "deposit_id" TEXT,
+    "target" "RefundTarget" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "reason" TEXT NOT NULL,
+    "payment_intent_id" TEXT NOT NULL,
+    "stripe_refund_id" TEXT,
+    "status" "RefundStatus" NOT NULL DEFAULT 'PENDING_APPROVAL',
+    "requested_by_id" TEXT NOT NULL,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_note" TEXT,
+    "failure_reason" TEXT,
+    "processed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_refunds_stripe_refund_id_key" ON "payment_refunds"("stripe_refund_id");
+
+-- CreateIndex
+CREATE INDEX "payment_refunds_auction_id_idx" ON "payment_refunds"("auction_id");
+
+-- CreateIndex
+CREATE INDEX "payment_refunds_deposit_id_idx" ON "payment_refunds"("deposit_id");
+
+-- CreateIndex
+CREATE INDEX "payment_refunds_status_idx" ON "payment_refunds"("status");
+
+-- AddForeignKey
+ALTER TABLE "payment_refunds" ADD CONSTRAINT "payment_refunds_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_refunds" ADD CONSTRAINT "payment_refunds_deposit_id_fkey" FOREIGN KEY ("deposit_id") REFERENCES "bid_deposits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_refunds" ADD CONSTRAINT "payment_refunds_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_refunds" ADD CONSTRAINT "payment_refunds_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "DisputeTarget" AS ENUM ('BUYER_FEE', 'DEPOSIT', 'ESCROW');
+
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('NEEDS_RESPONSE', 'UNDER_REVIEW', 'WON', 'LOST', 'INQUIRY_CLOSED');
+
+-- CreateTable
+CREATE TABLE "payment_disputes" (
+    "id" TEXT NOT NULL,
+    "stripe_dispute_id" TEXT NOT NULL,
+    "charge_id" TEXT NOT NULL,
+    "payment_intent_id" TEXT NOT NULL,
+    "target" "DisputeTarget" NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "deposit_id" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "reason" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL DEFAULT 'NEEDS_RESPONSE',
+    "evidence_due_by" TIMESTAMP(3),
+    "evidence_submitted_at" TIMESTAMP(3),
+    "fraud_alert_id" TEXT,
+    "bidding_restricted" BOOLEAN NOT NULL DEFAULT false,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_disputes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_dispute_events" (
+    "id" TEXT NOT NULL,
+    "dispute_id" TEXT NOT NULL,
+    "stripe_event_id" TEXT,
+    "type" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL,
+    "actor_id" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_dispute_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_disputes_stripe_dispute_id_key" ON "payment_disputes"("stripe_dispute_id");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_auction_id_idx" ON "payment_disputes"("auction_id");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_user_id_idx" ON "payment_disputes"("user_id");
+
+-- CreateIndex
+CREATE INDEX "payment_disputes_status_idx" ON "payment_disputes"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_dispute_events_stripe_event_id_key" ON "payment_dispute_events"("stripe_event_id");
+
+-- CreateIndex
+CREATE INDEX "payment_dispute_events_dispute_id_created_at_idx" ON "payment_dispute_events"("dispute_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "payment_disputes" ADD CONSTRAINT "payment_disputes_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_disputes" ADD CONSTRAINT "payment_disputes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_disputes" ADD CONSTRAINT "payment_disputes_deposit_id_fkey" FOREIGN KEY ("deposit_id") REFERENCES "bid_deposits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_dispute_events" ADD CONSTRAINT "payment_dispute_events_dispute_id_fkey" FOREIGN KEY ("dispute_id") REFERENCES "payment_disputes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_dispute_events" ADD CONSTRAINT "payment_dispute_events_actor_id_fkey" FOREIGN KEY ("actor_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
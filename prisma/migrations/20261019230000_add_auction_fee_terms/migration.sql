@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN "fee_terms" JSONB,
+ADD COLUMN "seller_fee_amount" DECIMAL(12,2);
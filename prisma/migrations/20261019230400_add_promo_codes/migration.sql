@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "PromoTarget" AS ENUM ('BUYER_FEE', 'SELLER_COMMISSION');
+
+-- CreateEnum
+CREATE TYPE "PromoDiscountType" AS ENUM ('PERCENT', 'FIXED');
+
+-- CreateTable
+CREATE TABLE "promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "target" "PromoTarget" NOT NULL,
+    "discount_type" "PromoDiscountType" NOT NULL,
+    "discount_value" DECIMAL(12,2) NOT NULL,
+    "starts_at" TIMESTAMP(3),
+    "ends_at" TIMESTAMP(3),
+    "max_redemptions" INTEGER,
+    "per_user_limit" INTEGER NOT NULL DEFAULT 1,
+    "categories" "VehicleCategory"[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promo_redemptions" (
+    "id" TEXT NOT NULL,
+    "promo_code_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "target" "PromoTarget" NOT NULL,
+    "discount_amount" DECIMAL(12,2),
+    "applied_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promo_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "promo_codes"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_redemptions_auction_id_user_id_target_key" ON "promo_redemptions"("auction_id", "user_id", "target");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_promo_code_id_idx" ON "promo_redemptions"("promo_code_id");
+
+-- CreateIndex
+CREATE INDEX "promo_redemptions_user_id_idx" ON "promo_redemptions"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "promo_codes" ADD CONSTRAINT "promo_codes_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_promo_code_id_fkey" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promo_redemptions" ADD CONSTRAINT "promo_redemptions_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "VatTreatment" AS ENUM ('STANDARD', 'REVERSE_CHARGE', 'OUTSIDE_SCOPE');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "billing_company_name" TEXT,
+ADD COLUMN     "billing_vat_number" TEXT,
+ADD COLUMN     "billing_address" TEXT,
+ADD COLUMN     "billing_city" TEXT,
+ADD COLUMN     "billing_region" TEXT;
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "series" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "number" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "net_amount" DECIMAL(12,2) NOT NULL,
+    "vat_treatment" "VatTreatment" NOT NULL,
+    "vat_rate" DECIMAL(5,2) NOT NULL,
+    "vat_amount" DECIMAL(12,2) NOT NULL,
+    "total_amount" DECIMAL(12,2) NOT NULL,
+    "exchange_rate" DECIMAL(12,4),
+    "buyer_name" TEXT NOT NULL,
+    "buyer_email" TEXT NOT NULL,
+    "buyer_country" TEXT NOT NULL,
+    "buyer_vat_number" TEXT,
+    "buyer_address" TEXT,
+    "buyer_city" TEXT,
+    "buyer_region" TEXT,
+    "pdf_key" TEXT,
+    "xml_key" TEXT,
+    "issued_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_sequences" (
+    "series" TEXT NOT NULL,
+    "last_value" INTEGER NOT NULL DEFAULT 0,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoice_sequences_pkey" PRIMARY KEY ("series")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_number_key" ON "invoices"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_auction_id_key" ON "invoices"("auction_id");
+
+-- CreateIndex
+CREATE INDEX "invoices_user_id_idx" ON "invoices"("user_id");
+
+-- CreateIndex
+CREATE INDEX "invoices_issued_at_idx" ON "invoices"("issued_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_series_sequence_key" ON "invoices"("series", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
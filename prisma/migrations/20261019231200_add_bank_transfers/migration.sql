@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "BankTransferStatus" AS ENUM ('AWAITING', 'MATCHED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "BankStatementFormat" AS ENUM ('CAMT053', 'CSV');
+
+-- CreateEnum
+CREATE TYPE "StatementLineStatus" AS ENUM ('MATCHED', 'UNMATCHED', 'RESOLVED', 'IGNORED');
+
+-- CreateTable
+CREATE TABLE "bank_transfers" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "BankTransferStatus" NOT NULL DEFAULT 'AWAITING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "matched_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statements" (
+    "id" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "format" "BankStatementFormat" NOT NULL,
+    "uploaded_by_id" TEXT NOT NULL,
+    "line_count" INTEGER NOT NULL,
+    "matched_count" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "statement_id" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "booking_date" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "remittance_info" TEXT,
+    "counterparty" TEXT,
+    "counterparty_iban" TEXT,
+    "bank_reference" TEXT,
+    "status" "StatementLineStatus" NOT NULL,
+    "match_note" TEXT,
+    "bank_transfer_id" TEXT,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_transfers_auction_id_key" ON "bank_transfers"("auction_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_transfers_reference_key" ON "bank_transfers"("reference");
+
+-- CreateIndex
+CREATE INDEX "bank_transfers_status_expires_at_idx" ON "bank_transfers"("status", "expires_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_fingerprint_key" ON "bank_statement_lines"("fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_bank_transfer_id_key" ON "bank_statement_lines"("bank_transfer_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_statement_id_idx" ON "bank_statement_lines"("statement_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_status_idx" ON "bank_statement_lines"("status");
+
+-- AddForeignKey
+ALTER TABLE "bank_transfers" ADD CONSTRAINT "bank_transfers_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_transfers" ADD CONSTRAINT "bank_transfers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_statement_id_fkey" FOREIGN KEY ("statement_id") REFERENCES "bank_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_bank_transfer_id_fkey" FOREIGN KEY ("bank_transfer_id") REFERENCES "bank_transfers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
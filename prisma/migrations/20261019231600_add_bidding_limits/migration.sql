@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "BiddingLimitBacking" AS ENUM ('CARD_HOLD', 'BANK_GUARANTEE');
+
+-- CreateEnum
+CREATE TYPE "BiddingLimitStatus" AS ENUM ('PENDING', 'ACTIVE', 'REJECTED', 'RELEASED');
+
+-- CreateTable
+CREATE TABLE "bidding_limits" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "backing" "BiddingLimitBacking" NOT NULL,
+    "status" "BiddingLimitStatus" NOT NULL,
+    "limit_amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "expires_at" TIMESTAMP(3),
+    "deposit_id" TEXT,
+    "guarantee_issuer" TEXT,
+    "guarantee_reference" TEXT,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_note" TEXT,
+    "released_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bidding_limits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bid_exposures" (
+    "id" TEXT NOT NULL,
+    "limit_id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "released_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bid_exposures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bidding_limits_user_id_key" ON "bidding_limits"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bidding_limits_deposit_id_key" ON "bidding_limits"("deposit_id");
+
+-- CreateIndex
+CREATE INDEX "bidding_limits_status_idx" ON "bidding_limits"("status");
+
+-- CreateIndex
+CREATE INDEX "bid_exposures_auction_id_released_at_idx" ON "bid_exposures"("auction_id", "released_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bid_exposures_limit_id_auction_id_key" ON "bid_exposures"("limit_id", "auction_id");
+
+-- AddForeignKey
+ALTER TABLE "bidding_limits" ADD CONSTRAINT "bidding_limits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bidding_limits" ADD CONSTRAINT "bidding_limits_deposit_id_fkey" FOREIGN KEY ("deposit_id") REFERENCES "bid_deposits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bidding_limits" ADD CONSTRAINT "bidding_limits_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bid_exposures" ADD CONSTRAINT "bid_exposures_limit_id_fkey" FOREIGN KEY ("limit_id") REFERENCES "bidding_limits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bid_exposures" ADD CONSTRAINT "bid_exposures_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('PROCESSING', 'PROCESSED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "stripe_webhook_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "livemode" BOOLEAN NOT NULL DEFAULT false,
+    "status" "WebhookEventStatus" NOT NULL DEFAULT 'PROCESSING',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "last_error" TEXT,
+    "processed_at" TIMESTAMP(3),
+    "replayed_by_id" TEXT,
+    "replayed_at" TIMESTAMP(3),
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stripe_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stripe_webhook_events_status_received_at_idx" ON "stripe_webhook_events"("status", "received_at");
+
+-- CreateIndex
+CREATE INDEX "stripe_webhook_events_type_idx" ON "stripe_webhook_events"("type");
+
+-- AddForeignKey
+ALTER TABLE "stripe_webhook_events" ADD CONSTRAINT "stripe_webhook_events_replayed_by_id_fkey" FOREIGN KEY ("replayed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
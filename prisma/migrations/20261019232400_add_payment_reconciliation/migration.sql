@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationIssueKind" AS ENUM ('PAYMENT_NOT_RECORDED', 'PAYMENT_CANCELED', 'PAYMENT_NOT_COLLECTED', 'DEPOSIT_NOT_RECORDED', 'DEPOSIT_FAILED', 'DEPOSIT_HOLD_LAPSED', 'DEPOSIT_CAPTURED', 'PAYOUT_REVERSED', 'PAYOUT_STALLED', 'PROVIDER_RECORD_MISSING');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationIssueStatus" AS ENUM ('AUTO_FIXED', 'OPEN', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "reconciliation_runs" (
+    "id" TEXT NOT NULL,
+    "checked_count" INTEGER NOT NULL DEFAULT 0,
+    "auto_fixed_count" INTEGER NOT NULL DEFAULT 0,
+    "open_count" INTEGER NOT NULL DEFAULT 0,
+    "error_count" INTEGER NOT NULL DEFAULT 0,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "reconciliation_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "reconciliation_issues" (
+    "id" TEXT NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "kind" "ReconciliationIssueKind" NOT NULL,
+    "status" "ReconciliationIssueStatus" NOT NULL,
+    "resource_type" TEXT NOT NULL,
+    "resource_id" TEXT NOT NULL,
+    "auction_id" TEXT,
+    "external_id" TEXT,
+    "local_status" TEXT NOT NULL,
+    "remote_status" TEXT,
+    "detail" TEXT,
+    "resolved_by_id" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "resolution_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reconciliation_issues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reconciliation_runs_started_at_idx" ON "reconciliation_runs"("started_at");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_issues_status_created_at_idx" ON "reconciliation_issues"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_issues_resource_type_resource_id_idx" ON "reconciliation_issues"("resource_type", "resource_id");
+
+-- CreateIndex
+CREATE INDEX "reconciliation_issues_run_id_idx" ON "reconciliation_issues"("run_id");
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_issues" ADD CONSTRAINT "reconciliation_issues_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "reconciliation_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_issues" ADD CONSTRAINT "reconciliation_issues_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reconciliation_issues" ADD CONSTRAINT "reconciliation_issues_resolved_by_id_fkey" FOREIGN KEY ("resolved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PayoutHoldReason" AS ENUM ('HOLDING_PERIOD', 'HANDOVER', 'FIRST_SALE', 'FRAUD_ALERT');
+
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN "handover_confirmed_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "payout_holds" (
+    "id" TEXT NOT NULL,
+    "auction_id" TEXT NOT NULL,
+    "reason" "PayoutHoldReason" NOT NULL,
+    "release_at" TIMESTAMP(3),
+    "released_at" TIMESTAMP(3),
+    "released_by_id" TEXT,
+    "release_note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payout_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payout_holds_released_at_idx" ON "payout_holds"("released_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_holds_auction_id_reason_key" ON "payout_holds"("auction_id", "reason");
+
+-- AddForeignKey
+ALTER TABLE "payout_holds" ADD CONSTRAINT "payout_holds_auction_id_fkey" FOREIGN KEY ("auction_id") REFERENCES "auctions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_holds" ADD CONSTRAINT "payout_holds_released_by_id_fkey" FOREIGN KEY ("released_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN "fx_rate" DECIMAL(12,6),
+ADD COLUMN "fx_rate_date" DATE;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "rate" DECIMAL(12,6) NOT NULL,
+    "rate_date" DATE NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'ECB',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_rate_date_idx" ON "exchange_rates"("rate_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_rate_date_key" ON "exchange_rates"("currency", "rate_date");
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ListingRevisionSource" AS ENUM ('SELLER', 'SUBMISSION', 'ADMIN', 'REVERT');
+
+-- CreateTable
+CREATE TABLE "listing_revisions" (
+    "id" TEXT NOT NULL,
+    "listing_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "source" "ListingRevisionSource" NOT NULL,
+    "author_id" TEXT,
+    "snapshot" JSONB NOT NULL,
+    "changed_fields" TEXT[],
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "listing_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "listing_revisions_listing_id_reviewed_by_id_idx" ON "listing_revisions"("listing_id", "reviewed_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "listing_revisions_listing_id_number_key" ON "listing_revisions"("listing_id", "number");
+
+-- AddForeignKey
+ALTER TABLE "listing_revisions" ADD CONSTRAINT "listing_revisions_listing_id_fkey" FOREIGN KEY ("listing_id") REFERENCES "listings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "listing_revisions" ADD CONSTRAINT "listing_revisions_author_id_fkey" FOREIGN KEY ("author_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
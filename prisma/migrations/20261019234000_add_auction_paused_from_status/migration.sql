@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "auctions" ADD COLUMN "paused_from_status" "AuctionStatus";
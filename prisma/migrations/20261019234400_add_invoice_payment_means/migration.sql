@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "InvoicePaymentMeans" AS ENUM ('CARD', 'CREDIT_TRANSFER');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "payment_means" "InvoicePaymentMeans" NOT NULL DEFAULT 'CARD';
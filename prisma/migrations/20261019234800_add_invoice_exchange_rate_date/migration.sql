@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "exchange_rate_date" DATE;
@@ -0,0 +1,371 @@
+#!/usr/bin/env tsx
+/**
+ * Bid Concurrency Harness
+ *
+ * Fires bursts of simultaneous bids at a throwaway auction through placeBid
+ * (via the mock bid generator) and checks that the auction and its bids are
+ * still consistent afterwards. Needs a local Postgres with the schema migrated;
+ * DATABASE_URL is used as-is.
+ *
+ * Usage:
+ *   npx tsx scripts/bid-concurrency-harness.ts [options]
+ *
+ * Options:
+ *   --bids=<n>        Bids per burst (default: 200)
+ *   --bursts=<n>      Number of bursts (default: 3)
+ *   --bidders=<n>     Distinct bidders (default: 25)
+ *   --spread=<n>      Increments above the current price to pick amounts from (default: 3)
+ *   --max-bids=<p>    Share of bids that also set a private maximum, 0-1 (default: 0.2)
+ *   --keep            Keep the auction and users afterwards for inspection
+ *   --allow-remote    Run against a database that is not on localhost
+ *
+ * Examples:
+ *   npx tsx scripts/bid-concurrency-harness.ts
+ *   npx tsx scripts/bid-concurrency-harness.ts --bids=500 --bursts=1 --bidders=100
+ *
+ * Large bursts queue on the auction row lock; raise BID_TRANSACTION_MAX_WAIT_MS
+ * or the connection_limit in DATABASE_URL if bids time out waiting.
+ */
+
+import { prisma } from '../src/lib/db'
+import { calculateMinimumBid, parseBidIncrementTable } from '../src/domain/auction/rules'
+import { ERROR_CODES } from '../src/lib/error-codes'
+import { MockBidGenerator } from '../src/services/mock-bid-generator.service'
+import type { ConcurrentBidConfig, MockBidResult } from '../src/services/contracts/mock-activity.interface'
+
+// Rejections that are expected when bids race for the same price
+const EXPECTED_REJECTIONS: string[] = [ERROR_CODES.BID_TOO_LOW, ERROR_CODES.BID_INVALID_MAXIMUM]
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]']
+
+const STARTING_PRICE = 1000
+const RESERVE_PRICE = 25000
+
+// =============================================================================
+// ARGUMENT PARSING
+// =============================================================================
+
+function parseArgs(): {
+  bids: number
+  bursts: number
+  bidders: number
+  spread: number
+  maxBidProbability: number
+  keep: boolean
+  allowRemote: boolean
+} {
+  const result = {
+    bids: 200,
+    bursts: 3,
+    bidders: 25,
+    spread: 3,
+    maxBidProbability: 0.2,
+    keep: false,
+    allowRemote: false,
+  }
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith('--bids=')) {
+      result.bids = parseInt(arg.replace('--bids=', ''), 10) || result.bids
+    } else if (arg.startsWith('--bursts=')) {
+      result.bursts = parseInt(arg.replace('--bursts=', ''), 10) || result.bursts
+    } else if (arg.startsWith('--bidders=')) {
+      result.bidders = parseInt(arg.replace('--bidders=', ''), 10) || result.bidders
+    } else if (arg.startsWith('--spread=')) {
+      result.spread = parseInt(arg.replace('--spread=', ''), 10) || result.spread
+    } else if (arg.startsWith('--max-bids=')) {
+      const share = parseFloat(arg.replace('--max-bids=', ''))
+      result.maxBidProbability = isNaN(share) ? result.maxBidProbability : Math.min(Math.max(share, 0), 1)
+    } else if (arg === '--keep') {
+      result.keep = true
+    } else if (arg === '--allow-remote') {
+      result.allowRemote = true
+    } else if (arg === '--help' || arg === '-h') {
+      console.log('Usage: npx tsx scripts/bid-concurrency-harness.ts [--bids=200] [--bursts=3] [--bidders=25] [--spread=3] [--max-bids=0.2] [--keep] [--allow-remote]')
+      process.exit(0)
+    }
+  }
+
+  return result
+}
+
+function isLocalDatabase(url: string | undefined): boolean {
+  if (!url) {return false}
+  try {
+    return LOCAL_HOSTS.includes(new URL(url).hostname)
+  } catch {
+    return false
+  }
+}
+
+// =============================================================================
+// FIXTURES
+// =============================================================================
+
+async function createFixtures(runId: string, bidderCount: number) {
+  const seller = await prisma.user.create({
+    data: {
+      email: `harness-seller-${runId}@finds.test`,
+      name: 'Harness Seller',
+      emailVerified: new Date(),
+    },
+  })
+
+  const countries = ['RO', 'DE', 'FR', 'IT', 'NL']
+  await prisma.user.createMany({
+    data: Array.from({ length: bidderCount }, (_, index) => ({
+      email: `harness-bidder-${runId}-${index}@finds.test`,
+      name: `Harness Bidder ${index + 1}`,
+      emailVerified: new Date(),
+      biddingEnabled: true,
+      country: countries[index % countries.length],
+    })),
+  })
+
+  const bidders = await prisma.user.findMany({
+    where: { email: { startsWith: `harness-bidder-${runId}-` } },
+  })
+
+  const listing = await prisma.listing.create({
+    data: {
+      sellerId: seller.id,
+      title: `Concurrency harness ${runId}`,
+      description: 'Throwaway listing created by the bid concurrency harness',
+      category: 'CLASSIC_CAR',
+      make: 'Dacia',
+      model: '1300',
+      year: 1979,
+      locationCity: 'Pitesti',
+      startingPrice: STARTING_PRICE,
+      reservePrice: RESERVE_PRICE,
+      status: 'ACTIVE',
+    },
+  })
+
+  const now = Date.now()
+  const auction = await prisma.auction.create({
+    data: {
+      listingId: listing.id,
+      startTime: new Date(now - 60 * 1000),
+      originalEndTime: new Date(now + 60 * 60 * 1000),
+      currentEndTime: new Date(now + 60 * 60 * 1000),
+      status: 'ACTIVE',
+      // Extensions are covered elsewhere; keep the end time fixed so every burst lands
+      antiSnipingEnabled: false,
+      startingPrice: STARTING_PRICE,
+      reservePrice: RESERVE_PRICE,
+      currency: 'EUR',
+      isMock: true,
+    },
+  })
+
+  return { seller, bidders, listing, auction }
+}
+
+async function removeFixtures(runId: string, auctionId: string, listingId: string) {
+  await prisma.bid.deleteMany({ where: { auctionId } })
+  await prisma.maxBid.deleteMany({ where: { auctionId } })
+  await prisma.auction.delete({ where: { id: auctionId } })
+  await prisma.listing.delete({ where: { id: listingId } })
+  await prisma.user.deleteMany({
+    where: {
+      OR: [
+        { email: `harness-seller-${runId}@finds.test` },
+        { email: { startsWith: `harness-bidder-${runId}-` } },
+      ],
+    },
+  })
+}
+
+// =============================================================================
+// INVARIANTS
+// =============================================================================
+
+/**
+ * Check the auction against its bids. Returns one message per violation.
+ */
+async function checkInvariants(auctionId: string): Promise<string[]> {
+  const violations: string[] = []
+
+  const auction = await prisma.auction.findUniqueOrThrow({ where: { id: auctionId } })
+  const bids = await prisma.bid.findMany({
+    where: { auctionId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+  })
+  const valid = bids.filter((bid) => bid.isValid)
+
+  if (valid.length === 0) {
+    return ['No bids were accepted']
+  }
+
+  const startingPrice = auction.startingPrice.toNumber()
+  const incrementTable = parseBidIncrementTable(auction.bidIncrementTable)
+  const highest = Math.max(...valid.map((bid) => bid.amount.toNumber()))
+  const winning = valid.filter((bid) => bid.isWinning)
+
+  // One leader, and it is the last bid to land at the high price
+  if (winning.length !== 1) {
+    violations.push(`Expected exactly one winning bid, found ${winning.length}`)
+  }
+  const last = valid[valid.length - 1]
+  if (winning.length === 1 && winning[0].id !== last.id) {
+    violations.push(`Winning bid ${winning[0].id} is not the latest valid bid ${last.id}`)
+  }
+  if (last.amount.toNumber() !== highest) {
+    violations.push(`Latest valid bid ${last.amount} is not the highest bid ${highest}`)
+  }
+
+  // The auction row agrees with its bids
+  if (auction.currentBid?.toNumber() !== highest) {
+    violations.push(`currentBid ${auction.currentBid} does not match the highest bid ${highest}`)
+  }
+  if (auction.bidCount !== valid.length) {
+    violations.push(`bidCount ${auction.bidCount} does not match ${valid.length} valid bids`)
+  }
+  if (auction.reserveMet !== highest >= RESERVE_PRICE) {
+    violations.push(`reserveMet is ${auction.reserveMet} at a high bid of ${highest}`)
+  }
+
+  // No lost updates: every bid beat the price committed before it
+  let price: number | null = null
+  for (const bid of valid) {
+    const amount = bid.amount.toNumber()
+    const minimum = bid.isProxy
+      ? price ?? startingPrice
+      : calculateMinimumBid(price, startingPrice, incrementTable)
+
+    if (amount < minimum) {
+      violations.push(
+        `Bid ${bid.id} was accepted at ${amount} although the price was already ${price} (minimum ${minimum})`
+      )
+    }
+    price = price === null ? amount : Math.max(price, amount)
+  }
+
+  // Each bidder keeps one number, and numbers run 1..n without gaps or sharing
+  const numbersByBidder = new Map<string, Set<number>>()
+  for (const bid of bids) {
+    const numbers = numbersByBidder.get(bid.bidderId) ?? new Set<number>()
+    numbers.add(bid.bidderNumber)
+    numbersByBidder.set(bid.bidderId, numbers)
+  }
+
+  const assigned: number[] = []
+  numbersByBidder.forEach((numbers, bidderId) => {
+    if (numbers.size !== 1) {
+      violations.push(`Bidder ${bidderId} has several bidder numbers: ${Array.from(numbers).join(', ')}`)
+    }
+    assigned.push(...Array.from(numbers))
+  })
+
+  const sorted = assigned.sort((a, b) => a - b)
+  if (sorted.some((number, index) => number !== index + 1)) {
+    violations.push(`Bidder numbers are not 1..${sorted.length}: ${sorted.join(', ')}`)
+  }
+  if (auction.nextBidderNumber !== numbersByBidder.size + 1) {
+    violations.push(
+      `nextBidderNumber is ${auction.nextBidderNumber} for ${numbersByBidder.size} bidders`
+    )
+  }
+
+  return violations
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+function summarize(results: MockBidResult[]) {
+  const accepted = results.filter((r) => r.success).length
+  const rejections = new Map<string, number>()
+  const unexpected: string[] = []
+
+  for (const result of results) {
+    if (result.success) {continue}
+    const key = result.errorCode ?? 'UNKNOWN'
+    rejections.set(key, (rejections.get(key) ?? 0) + 1)
+    if (!result.errorCode || !EXPECTED_REJECTIONS.includes(result.errorCode)) {
+      unexpected.push(`${key}: ${result.error}`)
+    }
+  }
+
+  return { accepted, rejections, unexpected }
+}
+
+async function main() {
+  const args = parseArgs()
+
+  if (!args.allowRemote && !isLocalDatabase(process.env.DATABASE_URL)) {
+    console.error('DATABASE_URL does not point at localhost. Pass --allow-remote to run anyway.')
+    process.exit(1)
+  }
+
+  const runId = Date.now().toString(36)
+  const config: ConcurrentBidConfig = {
+    bidCount: args.bids,
+    spreadIncrements: args.spread,
+    maxBidProbability: args.maxBidProbability,
+  }
+
+  console.log('Bid Concurrency Harness')
+  console.log('='.repeat(50))
+  console.log(`Run: ${runId}`)
+  console.log(`Bursts: ${args.bursts} x ${args.bids} bids from ${args.bidders} bidders`)
+  console.log(`Spread: ${args.spread} increments, maximums on ${Math.round(args.maxBidProbability * 100)}% of bids`)
+  console.log('='.repeat(50))
+
+  const { bidders, listing, auction } = await createFixtures(runId, args.bidders)
+  const generator = new MockBidGenerator()
+  const unexpected: string[] = []
+  let violations: string[] = []
+
+  try {
+    for (let burst = 1; burst <= args.bursts; burst++) {
+      const startedAt = Date.now()
+      const results = await generator.generateConcurrentBids(auction.id, bidders, config)
+      const summary = summarize(results)
+      unexpected.push(...summary.unexpected)
+
+      const rejected = Array.from(summary.rejections.entries())
+        .map(([code, count]) => `${code} ${count}`)
+        .join(', ')
+      console.log(
+        `Burst ${burst}: ${summary.accepted} accepted, ${results.length - summary.accepted} rejected` +
+          `${rejected ? ` (${rejected})` : ''} in ${Date.now() - startedAt}ms`
+      )
+    }
+
+    violations = await checkInvariants(auction.id)
+  } finally {
+    if (args.keep) {
+      console.log(`Kept auction ${auction.id}`)
+    } else {
+      await removeFixtures(runId, auction.id, listing.id)
+    }
+  }
+
+  console.log('='.repeat(50))
+
+  if (unexpected.length > 0) {
+    console.log(`${unexpected.length} bids failed unexpectedly:`)
+    Array.from(new Set(unexpected)).slice(0, 10).forEach((message) => console.log(`  ${message}`))
+  }
+
+  if (violations.length > 0) {
+    console.log(`${violations.length} invariant violations:`)
+    violations.forEach((message) => console.log(`  ${message}`))
+  }
+
+  if (unexpected.length > 0 || violations.length > 0) {
+    process.exitCode = 1
+  } else {
+    console.log('All invariants hold')
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Harness failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
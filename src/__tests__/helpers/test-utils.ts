@@ -1,5 +1,5 @@
 import { vi } from 'vitest'
-import { PrismaClient, Prisma, DepositStatus, PaymentStatus, AlertSeverity } from '@prisma/client'
+import { PrismaClient, Prisma, DepositStatus, PaymentStatus, AlertSeverity, AuctionFormat } from '@prisma/client'
 import Stripe from 'stripe'
 import { createTestContainer, ServiceContainer } from '@/lib/container'
 import { IPaymentProcessor } from '@/services/contracts/payment-processor.interface'
@@ -11,6 +11,7 @@ export function createMockPrisma(): PrismaClient {
   return {
     user: {
       findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
@@ -19,6 +20,7 @@ export function createMockPrisma(): PrismaClient {
     },
     auction: {
       findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
       findMany: vi.fn(),
       findFirst: vi.fn(),
       create: vi.fn(),
@@ -43,6 +45,7 @@ export function createMockPrisma(): PrismaClient {
       findFirst: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       delete: vi.fn(),
       count: vi.fn(),
     },
@@ -54,14 +57,156 @@ export function createMockPrisma(): PrismaClient {
       delete: vi.fn(),
       count: vi.fn(),
     },
+    listingRevision: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
     fraudAlert: {
       findUnique: vi.fn(),
       findMany: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
+      count: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    secondChanceOffer: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    escrow: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    paymentRefund: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      aggregate: vi.fn(),
+    },
+    paymentDispute: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    paymentDisputeEvent: {
+      findUnique: vi.fn(),
+    },
+    promoCode: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    promoRedemption: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
       count: vi.fn(),
+      updateMany: vi.fn(),
       groupBy: vi.fn(),
     },
+    invoice: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    invoiceSequence: {
+      upsert: vi.fn(),
+    },
+    bankTransfer: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    bankStatement: {
+      create: vi.fn(),
+      update: vi.fn(),
+      findMany: vi.fn(),
+    },
+    bankStatementLine: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    biddingLimit: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    bidExposure: {
+      aggregate: vi.fn(),
+      count: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    reconciliationRun: {
+      create: vi.fn(),
+      update: vi.fn(),
+      findMany: vi.fn(),
+    },
+    reconciliationIssue: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    stripeWebhookEvent: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    payoutHold: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    exchangeRate: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    conversation: {
+      findUnique: vi.fn(),
+    },
+    auditLog: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
     $transaction: vi.fn((callback: (tx: PrismaClient) => Promise<unknown>) => {
       // Execute the callback with the same mock prisma instance
       return callback(this as unknown as PrismaClient)
@@ -120,6 +265,9 @@ export function createMockPaymentProcessor(): IPaymentProcessor {
     createConnectAccount: vi.fn(),
     createAccountLink: vi.fn(),
     createTransfer: vi.fn(),
+    retrieveTransfer: vi.fn(),
+    refundPayment: vi.fn(),
+    retrieveRefund: vi.fn(),
     constructWebhookEvent: vi.fn(),
   } as unknown as IPaymentProcessor
 }
@@ -178,6 +326,7 @@ export const factories = {
     paymentDeadline: Date | null
     extensionCount: number
     antiSnipingEnabled: boolean
+    format: AuctionFormat
   }>) => ({
     id: 'auction-123',
     listingId: 'listing-123',
@@ -203,6 +352,7 @@ export const factories = {
     sellerPaidAt: null,
     extensionCount: 0,
     antiSnipingEnabled: true,
+    format: 'OPEN' as AuctionFormat,
     createdAt: new Date('2024-01-01'),
     updatedAt: new Date('2024-01-01'),
     ...overrides,
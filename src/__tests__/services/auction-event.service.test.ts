@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { timeUtils } from '../helpers/test-utils'
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    auctionEvent: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    auction: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+    listing: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    exchangeRate: {
+      findFirst: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/services/system-config.service', () => ({
+  getDefaultBidIncrementTable: vi.fn(async () => 'standard'),
+  getFeeSchedule: vi.fn(async () => (await import('@/domain/auction/rules')).DEFAULT_FEE_SCHEDULE),
+}))
+
+// Import after mocking
+import { prisma } from '@/lib/db'
+import { createAuctionEvent, excludeBlockedLots } from '@/services/auction-event.service'
+import { calculateLotEndTime, cascadeLotEndTimes } from '@/domain/auction/rules'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+function approvedListing(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    status: 'APPROVED',
+    startingPrice: 2500,
+    reservePrice: null,
+    currency: 'EUR',
+    auction: null,
+    ...overrides,
+  }
+}
+
+function saleData(overrides: Record<string, unknown> = {}) {
+  const startTime = timeUtils.addDays(new Date(), 1)
+  return {
+    title: 'Dacia & Eastern Bloc weekend',
+    slug: 'dacia-and-eastern-bloc-weekend',
+    startTime,
+    firstLotEndTime: timeUtils.addDays(startTime, 3),
+    lotIntervalMinutes: 2,
+    listingIds: ['dacia-1300', 'trabant-601', 'lada-niva'],
+    ...overrides,
+  }
+}
+
+describe('Auction Event Service', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.$transaction).mockImplementation((fn: any) => fn(prisma))
+    vi.mocked(prisma.auctionEvent.findUnique).mockResolvedValue(null)
+    vi.mocked(prisma.auctionEvent.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'event-1', ...data }) as any
+    )
+    vi.mocked(prisma.auction.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: `lot-${data.lotNumber}`, ...data }) as any
+    )
+  })
+
+  describe('lot scheduling', () => {
+    it('should close lots one interval apart', () => {
+      const firstLotEnd = new Date('2099-06-07T18:00:00Z')
+
+      expect(calculateLotEndTime(firstLotEnd, 0, 2)).toEqual(firstLotEnd)
+      expect(calculateLotEndTime(firstLotEnd, 5, 2)).toEqual(new Date('2099-06-07T18:10:00Z'))
+    })
+
+    it('should cascade an extension only as far as the stagger requires', () => {
+      const later = [
+        { id: 'lot-2', currentEndTime: new Date('2099-06-07T18:02:00Z') },
+        { id: 'lot-3', currentEndTime: new Date('2099-06-07T18:04:00Z') },
+        { id: 'lot-4', currentEndTime: new Date('2099-06-07T18:30:00Z') },
+      ]
+
+      const moved = cascadeLotEndTimes(new Date('2099-06-07T18:03:00Z'), later, 2)
+
+      expect(moved.map((lot) => [lot.id, lot.newEndTime])).toEqual([
+        ['lot-2', new Date('2099-06-07T18:05:00Z')],
+        ['lot-3', new Date('2099-06-07T18:07:00Z')],
+      ])
+    })
+  })
+
+  describe('createAuctionEvent', () => {
+    it('should number lots in the given order with staggered end times', async () => {
+      const data = saleData()
+      vi.mocked(prisma.listing.findMany).mockResolvedValue(
+        data.listingIds.map((id) => approvedListing(id)) as any
+      )
+
+      const event = await createAuctionEvent(data, 'admin-1')
+
+      expect(event).toMatchObject({ slug: data.slug, status: 'SCHEDULED', createdById: 'admin-1' })
+      const lots = vi.mocked(prisma.auction.create).mock.calls.map(([args]: any) => args.data)
+      expect(lots.map((lot) => [lot.listingId, lot.lotNumber])).toEqual([
+        ['dacia-1300', 1],
+        ['trabant-601', 2],
+        ['lada-niva', 3],
+      ])
+      expect(lots.every((lot) => lot.startTime === data.startTime && lot.status === 'SCHEDULED')).toBe(true)
+      expect(lots[2].currentEndTime).toEqual(timeUtils.addMinutes(data.firstLotEndTime, 4))
+      expect(prisma.listing.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: data.listingIds } },
+        data: { status: 'ACTIVE' },
+      })
+    })
+
+    it('should only accept approved listings without an auction', async () => {
+      vi.mocked(prisma.listing.findMany).mockResolvedValue([
+        approvedListing('dacia-1300'),
+        approvedListing('trabant-601', { auction: { id: 'auction-9' } }),
+        approvedListing('lada-niva', { status: 'PENDING_REVIEW' }),
+      ] as any)
+
+      await expect(createAuctionEvent(saleData(), 'admin-1')).rejects.toMatchObject({
+        code: ERROR_CODES.LOT_NOT_AVAILABLE,
+        details: { listingIds: ['trabant-601', 'lada-niva'] },
+      })
+      expect(prisma.auctionEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('should refuse lots in a currency without an exchange rate', async () => {
+      vi.mocked(prisma.listing.findMany).mockResolvedValue([
+        approvedListing('dacia-1300', { currency: 'RON' }),
+        approvedListing('trabant-601'),
+        approvedListing('lada-niva'),
+      ] as any)
+      vi.mocked(prisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      await expect(createAuctionEvent(saleData(), 'admin-1')).rejects.toMatchObject({
+        code: ERROR_CODES.EXCHANGE_RATE_NOT_FOUND,
+        details: { currencies: ['RON'] },
+      })
+      expect(prisma.auctionEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject a slug already used by another sale', async () => {
+      vi.mocked(prisma.auctionEvent.findUnique).mockResolvedValue({ id: 'event-0' } as any)
+
+      await expect(createAuctionEvent(saleData(), 'admin-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: ERROR_CODES.AUCTION_EVENT_SLUG_TAKEN,
+      })
+    })
+  })
+
+  describe('excludeBlockedLots', () => {
+    it('should hold a lot while an earlier lot in its sale is still open', async () => {
+      // Lot 2 is paused, so lot 3 must wait; lot 1 closes in the same run
+      vi.mocked(prisma.auction.findMany).mockResolvedValue([
+        { eventId: 'event-1', lotNumber: 2 },
+      ] as any)
+
+      const ready = await excludeBlockedLots([
+        { id: 'lot-1', eventId: 'event-1', lotNumber: 1 },
+        { id: 'lot-3', eventId: 'event-1', lotNumber: 3 },
+        { id: 'standalone', eventId: null, lotNumber: null },
+      ])
+
+      expect(ready.map((a) => a.id)).toEqual(['lot-1', 'standalone'])
+    })
+
+    it('should count an extended lot as still open', async () => {
+      vi.mocked(prisma.auction.findMany).mockResolvedValue([])
+
+      await excludeBlockedLots([{ id: 'lot-3', eventId: 'event-1', lotNumber: 3 }])
+
+      expect(prisma.auction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: { in: expect.arrayContaining(['EXTENDED', 'PAUSED']) },
+          }),
+        })
+      )
+    })
+  })
+})
@@ -1,7 +1,14 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { Prisma } from '@prisma/client'
 import { createMockPrisma, factories, timeUtils } from '../helpers/test-utils'
-import { AUCTION_RULES } from '@/domain/auction/rules'
+import {
+  AUCTION_RULES,
+  resolveProxyBids,
+  resolveSealedBids,
+  calculateBuyerFee,
+  calculateMinimumBid,
+  validateBidAmount,
+} from '@/domain/auction/rules'
 
 // Mock the prisma module without top-level variables
 vi.mock('@/lib/db', () => ({
@@ -21,6 +28,10 @@ vi.mock('@/lib/db', () => ({
       updateMany: vi.fn(),
       findMany: vi.fn(),
       findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    reserveChange: {
+      create: vi.fn(),
     },
     watchlistItem: {
       findMany: vi.fn(),
@@ -31,6 +42,11 @@ vi.mock('@/lib/db', () => ({
   },
 }))
 
+// Row locks need a real database; the concurrency harness covers them
+vi.mock('@/lib/db-lock', () => ({
+  lockAuctionRow: vi.fn(),
+}))
+
 // Mock notification service to prevent actual notifications during tests
 vi.mock('@/services/notification.service', () => ({
   notifyBidPlaced: vi.fn(),
@@ -40,6 +56,18 @@ vi.mock('@/services/notification.service', () => ({
   notifyAuctionLost: vi.fn(),
   notifyListingApproved: vi.fn(),
   broadcastAuctionLive: vi.fn(),
+  broadcastReserveMet: vi.fn(),
+  broadcastAuctionPaused: vi.fn(),
+  broadcastAuctionResumed: vi.fn(),
+  notifyReserveLowered: vi.fn(),
+  notifyNegotiationOpened: vi.fn(),
+}))
+
+// Mock audit logging
+vi.mock('@/lib/audit', () => ({
+  AuctionAuditLogger: class {
+    logReserveLowered = vi.fn()
+  },
 }))
 
 // Mock bidder number service
@@ -49,12 +77,44 @@ vi.mock('@/services/bidder-number.service', () => ({
   ),
 }))
 
+// Bidders in these tests have no account-level bidding limit
+vi.mock('@/services/bidding-limit.service', () => ({
+  reserveBidExposure: vi.fn(() => Promise.resolve(null)),
+  releaseOutbidExposures: vi.fn(() => Promise.resolve(0)),
+  releaseAuctionExposures: vi.fn(() => Promise.resolve(0)),
+}))
+
+// Mock system config so new auctions get the default increment table
+vi.mock('@/services/system-config.service', () => ({
+  getDefaultBidIncrementTable: vi.fn(() => Promise.resolve('standard')),
+  getFeeTermsForListing: vi.fn(() =>
+    Promise.resolve({
+      buyerPremium: [
+        { upTo: 50000, rate: 0.06 },
+        { upTo: null, rate: 0.04 },
+      ],
+      minBuyerFee: 0,
+      maxBuyerFee: null,
+      sellerCommissionRate: 0.02,
+      sellerListingFee: 0,
+    })
+  ),
+}))
+
 // Import after mocking
 import { prisma } from '@/lib/db'
+import { lockAuctionRow } from '@/lib/db-lock'
+import { auctionStatusValidator } from '@/services/validators/auction-status.validator'
+import { reserveBidExposure } from '@/services/bidding-limit.service'
+import { InsufficientDepositError } from '@/lib/errors'
 import {
   placeBid,
   createAuction,
   endAuction,
+  lowerReserve,
+  pauseAuction,
+  resumeAuction,
+  recalculateAuctionBids,
 } from '@/services/auction.service'
 
 describe('Auction Service', () => {
@@ -95,7 +155,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
             update: vi.fn().mockResolvedValue(updatedAuction),
           },
           bid: {
@@ -108,6 +168,7 @@ describe('Auction Service', () => {
 
       const result = await placeBid('auction-123', 'bidder-123', 1200)
 
+      expect(lockAuctionRow).toHaveBeenCalledWith(expect.anything(), 'auction-123')
       expect(result.bid).toBeDefined()
       expect(result.bid.amount).toEqual(new Prisma.Decimal(1200))
       expect(result.auction.currentBid).toEqual(new Prisma.Decimal(1200))
@@ -128,7 +189,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
           },
         }
         return callback(txPrisma)
@@ -149,7 +210,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
           },
         }
         return callback(txPrisma)
@@ -172,7 +233,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
           },
         }
         return callback(txPrisma)
@@ -200,13 +261,13 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
           },
         }
         return callback(txPrisma)
       })
 
-      // Minimum bid should be 1100 + max(1%, €10) = 1111
+      // Minimum bid should be 1100 + standard tier increment (€100) = 1200
       await expect(
         placeBid('auction-123', 'bidder-123', 1105)
       ).rejects.toThrow(/Bid must be at least/)
@@ -252,7 +313,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
             update: vi.fn().mockResolvedValue(updatedAuction),
           },
           bid: {
@@ -272,6 +333,77 @@ describe('Auction Service', () => {
       vi.useRealTimers()
     })
 
+    it('should push back later lots in the sale when a lot is extended', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2099-01-05T12:00:00Z'))
+
+      const endTime = new Date('2099-01-05T12:01:30Z')
+      const auction = {
+        ...factories.auction({
+          status: 'ACTIVE',
+          startingPrice: 1000,
+          currentBid: new Prisma.Decimal(1100),
+          startTime: new Date('2099-01-01'),
+          currentEndTime: endTime,
+          antiSnipingEnabled: true,
+          extensionCount: 0,
+        }),
+        eventId: 'event-1',
+        lotNumber: 3,
+        event: { lotIntervalMinutes: 2 },
+      }
+
+      const laterLots = [
+        { id: 'lot-4', currentEndTime: new Date('2099-01-05T12:03:30Z'), extensionCount: 0 },
+        { id: 'lot-5', currentEndTime: new Date('2099-01-05T12:05:30Z'), extensionCount: 0 },
+        { id: 'lot-6', currentEndTime: new Date('2099-01-05T12:20:00Z'), extensionCount: 1 },
+      ]
+      const findManyMock = vi.fn().mockResolvedValue(laterLots)
+      const updateMock = vi.fn().mockResolvedValue({ ...auction, extensionCount: 1 })
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
+        const txPrisma = {
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({
+              ...auction,
+              listing: factories.listing({ sellerId: 'seller-123', startingPrice: 1000 }),
+              bids: [],
+              maxBids: [],
+            }),
+            findMany: findManyMock,
+            update: updateMock,
+          },
+          bid: {
+            create: vi.fn().mockResolvedValue(factories.bid({ amount: 1200 })),
+            updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+          },
+        }
+        return callback(txPrisma)
+      })
+
+      const result = await placeBid('auction-123', 'bidder-123', 1200)
+
+      expect(findManyMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ eventId: 'event-1', lotNumber: { gt: 3 } }),
+        })
+      )
+      // Lot 3 now closes at 12:03:30, so lots 4 and 5 keep their two-minute stagger after it
+      expect(result.cascadedLots).toEqual([
+        { id: 'lot-4', currentEndTime: new Date('2099-01-05T12:05:30Z'), extensionCount: 0 },
+        { id: 'lot-5', currentEndTime: new Date('2099-01-05T12:07:30Z'), extensionCount: 0 },
+      ])
+      expect(updateMock).toHaveBeenCalledWith({
+        where: { id: 'lot-5' },
+        data: { currentEndTime: new Date('2099-01-05T12:07:30Z') },
+      })
+      expect(updateMock).not.toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'lot-6' } })
+      )
+
+      vi.useRealTimers()
+    })
+
     it('should not extend after max extensions reached', async () => {
       // Set up fake timers to control the current time
       vi.useFakeTimers()
@@ -308,7 +440,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
             update: vi.fn().mockResolvedValue(updatedAuction),
           },
           bid: {
@@ -353,7 +485,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
             update: vi.fn().mockResolvedValue(updatedAuction),
           },
           bid: {
@@ -405,7 +537,7 @@ describe('Auction Service', () => {
       vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
         const txPrisma = {
           auction: {
-            findUnique: vi.fn().mockResolvedValue({ ...auction, listing }),
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
             update: vi.fn().mockResolvedValue(updatedAuction),
           },
           bid: {
@@ -420,6 +552,445 @@ describe('Auction Service', () => {
 
       expect(result.auction.reserveMet).toBe(true)
     })
+    it('should answer with a proxy bid from a competing maximum', async () => {
+      const auction = factories.auction({
+        status: 'ACTIVE',
+        startingPrice: 1000,
+        currentBid: new Prisma.Decimal(1100),
+        startTime: new Date('2024-01-01'),
+        currentEndTime: new Date('2099-12-31'),
+      })
+
+      const listing = factories.listing({
+        sellerId: 'seller-123',
+        startingPrice: 1000,
+      })
+
+      const maxBids = [
+        {
+          id: 'max-1',
+          auctionId: 'auction-123',
+          bidderId: 'proxy-bidder',
+          maxAmount: new Prisma.Decimal(2000),
+          createdAt: new Date('2024-01-02'),
+          updatedAt: new Date('2024-01-02'),
+        },
+      ]
+
+      const createMock = vi.fn().mockImplementation(async ({ data }: any) => ({
+        id: `bid-${data.bidderId}-${data.amount}`,
+        ...data,
+        amount: new Prisma.Decimal(data.amount),
+      }))
+      const updateMock = vi.fn().mockImplementation(async ({ data }: any) => ({
+        ...auction,
+        currentBid: new Prisma.Decimal(data.currentBid),
+      }))
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
+        const txPrisma = {
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids }),
+            update: updateMock,
+          },
+          bid: {
+            create: createMock,
+            updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+          },
+        }
+        return callback(txPrisma)
+      })
+
+      const result = await placeBid('auction-123', 'bidder-123', 1200)
+
+      expect(result.bid.bidderId).toBe('bidder-123')
+      expect(result.bids).toHaveLength(2)
+      expect(result.bids[1]).toMatchObject({ bidderId: 'proxy-bidder', isProxy: true, isWinning: true })
+      expect(Number(result.bids[1].amount)).toBe(1300) // 1200 + standard tier increment
+      expect(updateMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ currentBid: 1300, bidCount: { increment: 2 } }),
+        })
+      )
+    })
+
+    it('should attribute a staff-entered bid but not the proxy answer', async () => {
+      const auction = factories.auction({
+        status: 'ACTIVE',
+        startingPrice: 1000,
+        currentBid: new Prisma.Decimal(1100),
+        startTime: new Date('2024-01-01'),
+        currentEndTime: new Date('2099-12-31'),
+      })
+
+      const listing = factories.listing({ sellerId: 'seller-123', startingPrice: 1000 })
+
+      const maxBids = [
+        {
+          id: 'max-1',
+          auctionId: 'auction-123',
+          bidderId: 'proxy-bidder',
+          maxAmount: new Prisma.Decimal(2000),
+          createdAt: new Date('2024-01-02'),
+          updatedAt: new Date('2024-01-02'),
+        },
+      ]
+
+      const createMock = vi.fn().mockImplementation(async ({ data }: any) => ({
+        id: `bid-${data.bidderId}-${data.amount}`,
+        ...data,
+        amount: new Prisma.Decimal(data.amount),
+      }))
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
+        const txPrisma = {
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids }),
+            update: vi.fn().mockResolvedValue(auction),
+          },
+          bid: {
+            create: createMock,
+            updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+          },
+        }
+        return callback(txPrisma)
+      })
+
+      const result = await placeBid('auction-123', 'bidder-123', 1200, {
+        channel: 'PHONE',
+        placedById: 'staff-1',
+        channelReason: 'Instructed by phone, call recorded',
+      })
+
+      expect(result.bids[0]).toMatchObject({
+        bidderId: 'bidder-123',
+        channel: 'PHONE',
+        placedById: 'staff-1',
+        channelReason: 'Instructed by phone, call recorded',
+      })
+      expect(result.bids[1]).toMatchObject({ bidderId: 'proxy-bidder', isProxy: true })
+      expect(result.bids[1]).not.toHaveProperty('placedById')
+    })
+
+    it('should keep a live finale open past its timer and restart the calls', async () => {
+      const auction = {
+        ...factories.auction({
+          status: 'ACTIVE',
+          startingPrice: 1000,
+          currentBid: new Prisma.Decimal(1100),
+          startTime: new Date('2024-01-01'),
+          currentEndTime: new Date(Date.now() - 30 * 1000),
+          antiSnipingEnabled: true,
+        }),
+        liveFinale: true,
+        liveCall: 'GOING_TWICE',
+      }
+
+      const listing = factories.listing({ sellerId: 'seller-123', startingPrice: 1000 })
+      const updateMock = vi.fn().mockResolvedValue(auction)
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
+        const txPrisma = {
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
+            update: updateMock,
+          },
+          bid: {
+            create: vi.fn().mockResolvedValue(factories.bid({ amount: 1200 })),
+            updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+          },
+        }
+        return callback(txPrisma)
+      })
+
+      const result = await placeBid('auction-123', 'bidder-123', 1200)
+
+      expect(result.extended).toBe(false)
+      expect(updateMock).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ liveCall: null }) })
+      )
+    })
+
+    it('should reject bids on a live finale once sold is called', async () => {
+      const auction = {
+        ...factories.auction({
+          status: 'ACTIVE',
+          startTime: new Date('2024-01-01'),
+          currentEndTime: new Date('2099-12-31'),
+        }),
+        liveFinale: true,
+        liveCall: 'SOLD',
+      }
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) =>
+        callback({
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({
+              ...auction,
+              listing: factories.listing(),
+              bids: [],
+              maxBids: [],
+            }),
+          },
+        })
+      )
+
+      await expect(placeBid('auction-123', 'bidder-123', 1200)).rejects.toMatchObject({
+        code: 'AUCTION_ENDED',
+      })
+    })
+
+    it('should reject a maximum below the bid amount', async () => {
+      const auction = factories.auction({
+        status: 'ACTIVE',
+        startingPrice: 1000,
+        startTime: new Date('2024-01-01'),
+        currentEndTime: new Date('2099-12-31'),
+      })
+
+      const listing = factories.listing({ sellerId: 'seller-123', startingPrice: 1000 })
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => {
+        const txPrisma = {
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
+          },
+        }
+        return callback(txPrisma)
+      })
+
+      await expect(
+        placeBid('auction-123', 'bidder-123', 1500, { maxAmount: 1200 })
+      ).rejects.toThrow('Maximum bid must be at least your bid amount')
+    })
+
+    it('should commit the maximum against the bidding limit before bidding', async () => {
+      const auction = factories.auction({
+        status: 'ACTIVE',
+        startingPrice: 1000,
+        startTime: new Date('2024-01-01'),
+        currentEndTime: new Date('2099-12-31'),
+      })
+
+      const listing = factories.listing({ sellerId: 'seller-123', startingPrice: 1000 })
+      const bidCreate = vi.fn()
+
+      vi.mocked(reserveBidExposure).mockRejectedValueOnce(
+        new InsufficientDepositError('Over the limit', 'BIDDING_LIMIT_EXCEEDED')
+      )
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) =>
+        callback({
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({ ...auction, listing, bids: [], maxBids: [] }),
+          },
+          maxBid: { upsert: vi.fn() },
+          bid: { create: bidCreate },
+        })
+      )
+
+      await expect(
+        placeBid('auction-123', 'bidder-123', 1200, { maxAmount: 5000 })
+      ).rejects.toMatchObject({ code: 'BIDDING_LIMIT_EXCEEDED' })
+      expect(reserveBidExposure).toHaveBeenCalledWith(
+        'bidder-123',
+        'auction-123',
+        5000,
+        expect.anything()
+      )
+      expect(bidCreate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('sealed bids', () => {
+    function sealedAuction() {
+      return {
+        ...factories.auction({
+          status: 'ACTIVE',
+          startingPrice: 100,
+          startTime: new Date('2024-01-01'),
+          currentEndTime: new Date(Date.now() + 60 * 1000),
+          format: 'SEALED_FIRST_PRICE',
+          bidCount: 1,
+        }),
+        listing: factories.listing({ sellerId: 'seller-123', startingPrice: 100 }),
+        bids: [],
+        maxBids: [],
+      }
+    }
+
+    it('should replace a revised bid without moving the price or the end time', async () => {
+      const auction = sealedAuction()
+      const updateManyMock = vi.fn().mockResolvedValue({ count: 1 })
+      const updateMock = vi.fn()
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) =>
+        callback({
+          auction: { findUnique: vi.fn().mockResolvedValue(auction), update: updateMock },
+          bid: {
+            create: vi.fn().mockResolvedValue(factories.bid({ amount: 450, isWinning: false })),
+            updateMany: updateManyMock,
+          },
+        })
+      )
+
+      const result = await placeBid('auction-123', 'bidder-123', 450)
+
+      expect(updateManyMock).toHaveBeenCalledWith({
+        where: { auctionId: 'auction-123', bidderId: 'bidder-123', isValid: true },
+        data: { isValid: false, invalidatedReason: 'Revised by bidder' },
+      })
+      // A revision is not a new bidder, and nothing about the auction is revealed
+      expect(updateMock).not.toHaveBeenCalled()
+      expect(result.extended).toBe(false)
+      expect(result.auction.currentBid).toBeNull()
+      expect(result.auction.currentEndTime).toEqual(auction.currentEndTime)
+    })
+
+    it('should reject a maximum bid', async () => {
+      const auction = sealedAuction()
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) =>
+        callback({ auction: { findUnique: vi.fn().mockResolvedValue(auction) } })
+      )
+
+      await expect(
+        placeBid('auction-123', 'bidder-123', 450, { maxAmount: 600 })
+      ).rejects.toMatchObject({ code: 'SEALED_BID_NO_MAXIMUM' })
+    })
+
+    function endSealed(format: 'SEALED_FIRST_PRICE' | 'SEALED_SECOND_PRICE', reservePrice: number | null) {
+      const auction = factories.auction({ status: 'ACTIVE', currentBid: null, format })
+
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...auction,
+        listing: factories.listing({
+          startingPrice: 100,
+          reservePrice: reservePrice === null ? null : new Prisma.Decimal(reservePrice),
+        }),
+        bids: [],
+      } as any)
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([
+        factories.bid({ id: 'bid-a', bidderId: 'bidder-a', amount: 300, createdAt: new Date('2024-01-02') }),
+        factories.bid({ id: 'bid-b', bidderId: 'bidder-b', amount: 500, createdAt: new Date('2024-01-03') }),
+        factories.bid({ id: 'bid-c', bidderId: 'bidder-c', amount: 500, createdAt: new Date('2024-01-04') }),
+      ] as any)
+      vi.mocked(prisma.auction.update).mockResolvedValue(auction as any)
+      vi.mocked(prisma.listing.update).mockResolvedValue({} as any)
+
+      return endAuction('auction-123').then(() => vi.mocked(prisma.auction.update).mock.calls[0][0].data)
+    }
+
+    it('should sell to the highest (earliest on a tie) bid at its own amount', async () => {
+      const data = await endSealed('SEALED_FIRST_PRICE', null)
+
+      expect(data).toMatchObject({
+        status: 'SOLD',
+        winnerId: 'bidder-b',
+        winningBidId: 'bid-b',
+        currentBid: 500,
+        finalPrice: 500,
+        buyerFeeAmount: calculateBuyerFee(500),
+      })
+      expect(prisma.bid.update).toHaveBeenCalledWith({
+        where: { id: 'bid-b' },
+        data: { isWinning: true },
+      })
+    })
+
+    it('should charge the runner-up amount in a second-price auction', async () => {
+      const data = await endSealed('SEALED_SECOND_PRICE', null)
+
+      // The tied bid is the runner-up, so the winner pays the full amount
+      expect(data).toMatchObject({ winnerId: 'bidder-b', finalPrice: 500 })
+    })
+
+    it('should raise a second price to the reserve the winner met', () => {
+      const bids = [
+        { id: 'a', amount: 300, placedAt: new Date('2024-01-02') },
+        { id: 'b', amount: 800, placedAt: new Date('2024-01-03') },
+      ]
+
+      expect(
+        resolveSealedBids(bids, { format: 'SEALED_SECOND_PRICE', startingPrice: 100, reservePrice: null })
+      ).toEqual({ winner: bids[1], price: 300 })
+      expect(
+        resolveSealedBids(bids, { format: 'SEALED_SECOND_PRICE', startingPrice: 100, reservePrice: 600 })
+      ).toEqual({ winner: bids[1], price: 600 })
+      expect(
+        resolveSealedBids([bids[1]], { format: 'SEALED_SECOND_PRICE', startingPrice: 100, reservePrice: null })
+      ).toEqual({ winner: bids[1], price: 100 })
+    })
+
+    it('should not sell when the highest sealed bid is below the reserve', async () => {
+      const data = await endSealed('SEALED_SECOND_PRICE', 1000)
+
+      expect(data).toMatchObject({ status: 'NO_SALE', finalPrice: null, currentBid: 500, reserveMet: false })
+    })
+  })
+
+  describe('resolveProxyBids', () => {
+    const placedAt = new Date('2024-01-05T12:00:00Z')
+
+    it('should place only the submitted bid when nobody competes', () => {
+      const steps = resolveProxyBids({
+        bid: { bidderId: 'a', amount: 1000, placedAt },
+        startingPrice: 1000,
+        maximums: [{ bidderId: 'a', maxAmount: 5000, setAt: placedAt }],
+      })
+
+      expect(steps).toEqual([{ bidderId: 'a', amount: 1000, isProxy: false }])
+    })
+
+    it('should let the higher maximum win one increment above the other', () => {
+      const steps = resolveProxyBids({
+        bid: { bidderId: 'b', amount: 1100, placedAt },
+        startingPrice: 1000,
+        maximums: [
+          { bidderId: 'a', maxAmount: 1500, setAt: new Date('2024-01-04') },
+          { bidderId: 'b', maxAmount: 3000, setAt: placedAt },
+        ],
+      })
+
+      // a answers at its ceiling, b answers one increment above it
+      expect(steps).toEqual([
+        { bidderId: 'b', amount: 1100, isProxy: false },
+        { bidderId: 'a', amount: 1500, isProxy: true },
+        { bidderId: 'b', amount: 1600, isProxy: true },
+      ])
+    })
+
+    it('should give a tie between equal maximums to the earlier one', () => {
+      const steps = resolveProxyBids({
+        bid: { bidderId: 'b', amount: 1100, placedAt },
+        startingPrice: 1000,
+        maximums: [
+          { bidderId: 'a', maxAmount: 2000, setAt: new Date('2024-01-04') },
+          { bidderId: 'b', maxAmount: 2000, setAt: placedAt },
+        ],
+      })
+
+      const last = steps[steps.length - 1]
+      expect(last).toEqual({ bidderId: 'a', amount: 2000, isProxy: true })
+    })
+  })
+
+  describe('bid increment tables', () => {
+    it('should enforce the tier increment above the flat minimum', () => {
+      // €120k is in the €100k-€250k tier: €5,000 rather than 1% (€1,200)
+      expect(calculateMinimumBid(120000, 1000)).toBe(125000)
+      expect(validateBidAmount(121200, 120000, 1000).valid).toBe(false)
+      expect(validateBidAmount(125000, 120000, 1000).valid).toBe(true)
+    })
+
+    it('should use the auction-specific table', () => {
+      expect(calculateMinimumBid(120000, 1000, 'fine')).toBe(122500)
+      expect(calculateMinimumBid(120000, 1000, 'coarse')).toBe(130000)
+    })
+
+    it('should keep the 1% floor above the tier increment', () => {
+      // 1% of €600k (€6,000) beats the fine table's €5,000 top tier
+      expect(calculateMinimumBid(600000, 1000, 'fine')).toBe(606000)
+    })
   })
 
   describe('createAuction', () => {
@@ -453,6 +1024,8 @@ describe('Auction Service', () => {
             listingId: 'listing-123',
             startingPrice: 1000,
             antiSnipingEnabled: true,
+            buyerFeeRate: 0.06,
+            feeTerms: expect.objectContaining({ sellerCommissionRate: 0.02 }),
           }),
         })
       )
@@ -610,4 +1183,212 @@ describe('Auction Service', () => {
       await expect(endAuction('auction-123')).rejects.toThrow('Auction cannot be ended in current status')
     })
   })
+
+  describe('recalculateAuctionBids', () => {
+    it('should fall back to the highest remaining valid bid', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...factories.auction({ id: 'auction-123', currentBid: new Prisma.Decimal(90000) }),
+        listing: { reservePrice: new Prisma.Decimal(10000) },
+      } as any)
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([
+        { id: 'bid-2', bidderId: 'bidder-2', amount: new Prisma.Decimal(9500) },
+        { id: 'bid-1', bidderId: 'bidder-3', amount: new Prisma.Decimal(9000) },
+      ] as any)
+      vi.mocked(prisma.auction.update).mockImplementation(
+        ({ data }: any) => Promise.resolve({ ...factories.auction(), ...data }) as any
+      )
+
+      const result = await recalculateAuctionBids('auction-123')
+
+      expect(prisma.bid.update).toHaveBeenCalledWith({
+        where: { id: 'bid-2' },
+        data: { isWinning: true },
+      })
+      expect(result).toMatchObject({ currentBid: 9500, reserveMet: false, bidCount: 2 })
+    })
+
+    it('should clear the high bid when no valid bids remain', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...factories.auction({ id: 'auction-123' }),
+        listing: { reservePrice: null },
+      } as any)
+      vi.mocked(prisma.bid.findMany).mockResolvedValue([])
+      vi.mocked(prisma.auction.update).mockImplementation(
+        ({ data }: any) => Promise.resolve({ ...factories.auction(), ...data }) as any
+      )
+
+      const result = await recalculateAuctionBids('auction-123')
+
+      expect(prisma.bid.update).not.toHaveBeenCalled()
+      expect(result).toMatchObject({ currentBid: null, reserveMet: false, bidCount: 0 })
+    })
+  })
+
+  describe('lowerReserve', () => {
+    function liveAuction(currentBid: number | null) {
+      return {
+        ...factories.auction({
+          status: 'ACTIVE',
+          currentBid: currentBid !== null ? new Prisma.Decimal(currentBid) : null,
+          reservePrice: new Prisma.Decimal(50000),
+        }),
+        listing: factories.listing({
+          sellerId: 'seller-123',
+          reservePrice: new Prisma.Decimal(50000),
+        }),
+      }
+    }
+
+    beforeEach(() => {
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) => callback(prisma))
+      vi.mocked(prisma.auction.update).mockImplementation(
+        ({ data }: any) => Promise.resolve({ ...factories.auction(), ...data }) as any
+      )
+    })
+
+    it('should lower the reserve on both auction and listing and record the change', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(liveAuction(42000) as any)
+
+      const result = await lowerReserve('auction-123', 'seller-123', 45000)
+
+      expect(lockAuctionRow).toHaveBeenCalledWith(expect.anything(), 'auction-123')
+      expect(result.reserveMet).toBe(false)
+      expect(prisma.listing.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { reservePrice: 45000 } })
+      )
+      expect(prisma.reserveChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          previousReserve: 50000,
+          newReserve: 45000,
+          currentBid: 42000,
+          reserveMet: false,
+        }),
+      })
+    })
+
+    it('should mark the reserve met when the current bid beats the new reserve', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(liveAuction(48000) as any)
+
+      const result = await lowerReserve('auction-123', 'seller-123', 47500)
+
+      expect(result.reserveMet).toBe(true)
+      expect(prisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: { reservePrice: 47500, reserveMet: true },
+      })
+    })
+
+    it('should never raise the reserve', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(liveAuction(42000) as any)
+
+      await expect(lowerReserve('auction-123', 'seller-123', 55000)).rejects.toMatchObject({
+        code: 'RESERVE_NOT_LOWER',
+      })
+      expect(prisma.listing.update).not.toHaveBeenCalled()
+    })
+
+    it('should only allow the seller to change the reserve', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(liveAuction(42000) as any)
+
+      await expect(lowerReserve('auction-123', 'someone-else', 45000)).rejects.toMatchObject({
+        statusCode: 403,
+      })
+    })
+
+    it('should reject changes once the auction has ended', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...liveAuction(42000),
+        status: 'NO_SALE',
+      } as any)
+
+      await expect(lowerReserve('auction-123', 'seller-123', 45000)).rejects.toMatchObject({
+        code: 'AUCTION_NOT_ACTIVE',
+      })
+    })
+  })
+
+  describe('pause and resume', () => {
+    beforeEach(() => {
+      vi.mocked(prisma.auction.update).mockImplementation(
+        ({ data }: any) => Promise.resolve({ ...factories.auction(), ...data }) as any
+      )
+    })
+
+    it('should reject bids while the auction is paused', async () => {
+      const auction = factories.auction({
+        status: 'PAUSED',
+        startTime: new Date('2024-01-01'),
+        currentEndTime: new Date('2099-12-31'),
+      })
+
+      vi.mocked(prisma.$transaction).mockImplementation(async (callback: any) =>
+        callback({
+          auction: {
+            findUnique: vi.fn().mockResolvedValue({
+              ...auction,
+              listing: factories.listing(),
+              bids: [],
+              maxBids: [],
+            }),
+          },
+        })
+      )
+
+      await expect(placeBid('auction-123', 'bidder-123', 1200)).rejects.toMatchObject({
+        code: 'AUCTION_PAUSED',
+      })
+    })
+
+    it('should only pause live auctions', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(
+        factories.auction({ status: 'SCHEDULED', currentEndTime: new Date('2099-12-31') }) as any
+      )
+
+      await expect(pauseAuction('auction-123')).rejects.toMatchObject({
+        code: 'AUCTION_NOT_ACTIVE',
+      })
+    })
+
+    it('should shift the end time by the paused duration on resume', async () => {
+      const now = Date.now()
+      const currentEndTime = new Date(now + 30 * 60 * 1000)
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...factories.auction({ status: 'PAUSED', currentEndTime }),
+        pausedAt: new Date(now - 2 * 60 * 60 * 1000),
+      } as any)
+
+      const result = await resumeAuction('auction-123')
+
+      expect(result.status).toBe('ACTIVE')
+      const shiftedBy = result.currentEndTime.getTime() - currentEndTime.getTime()
+      expect(shiftedBy).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000)
+      expect(shiftedBy).toBeLessThan(2 * 60 * 60 * 1000 + 5000)
+    })
+
+    it('should restore the status the auction was paused from', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...factories.auction({ status: 'PAUSED', currentEndTime: new Date(Date.now() + 60 * 1000) }),
+        pausedAt: new Date(),
+        pausedFromStatus: 'EXTENDED',
+      } as any)
+
+      const result = await resumeAuction('auction-123')
+
+      expect(result.status).toBe('EXTENDED')
+      expect(result.pausedFromStatus).toBeNull()
+      expect(auctionStatusValidator.canTransitionTo('PAUSED', 'EXTENDED')).toBe(true)
+    })
+
+    it('should guarantee the minimum remaining time on resume', async () => {
+      const now = Date.now()
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...factories.auction({ status: 'PAUSED', currentEndTime: new Date(now + 60 * 1000) }),
+        pausedAt: new Date(now - 60 * 1000),
+      } as any)
+
+      const result = await resumeAuction('auction-123', { minimumRemainingMinutes: 15 })
+
+      expect(result.currentEndTime.getTime()).toBeGreaterThanOrEqual(now + 15 * 60 * 1000)
+    })
+  })
 })
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { BankTransferService } from '@/services/bank-transfer.service'
+import { ISellerPayoutService } from '@/services/contracts/payment.interface'
+import { buildRfReference, findRfReferences, isValidRfReference } from '@/domain/payment/rules'
+import { parseCamt053, parseStatementCsv } from '@/lib/bank-statement'
+import { ConflictError, ValidationError } from '@/lib/errors'
+import { createMockPrisma } from '../helpers/test-utils'
+
+vi.mock('@/config/invoice.config', () => ({
+  INVOICE_CONFIG: {
+    issuer: { name: 'Finds SRL', iban: 'RO49AAAA1B31007593840000', bic: 'BTRLRO22' },
+  },
+}))
+
+vi.mock('@/lib/audit', () => ({
+  PaymentAuditLogger: class {
+    logBankTransferMatched = vi.fn()
+  },
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notifyPaymentComplete: vi.fn(),
+}))
+
+vi.mock('@/services/invoice.service', () => ({
+  issueBuyerFeeInvoice: vi.fn(),
+}))
+
+const REFERENCE = buildRfReference('FND7K3M9Q2X')
+
+function soldAuction(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'auction-123',
+    status: 'SOLD',
+    winnerId: 'buyer-1',
+    paymentStatus: 'UNPAID',
+    finalPrice: 100000,
+    buyerFeeAmount: 5000,
+    feeTerms: null,
+    currency: 'EUR',
+    paymentDeadline: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+    escrow: null,
+    bankTransfer: null,
+    ...overrides,
+  }
+}
+
+function awaitingTransfer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'transfer-1',
+    auctionId: 'auction-123',
+    userId: 'buyer-1',
+    reference: REFERENCE,
+    amount: 105000,
+    currency: 'EUR',
+    status: 'AWAITING',
+    expiresAt: new Date('2026-10-30'),
+    ...overrides,
+  }
+}
+
+function csvStatement(rows: string[]) {
+  return ['date,amount,currency,reference,counterparty_name,counterparty_iban,bank_reference', ...rows].join('\n')
+}
+
+describe('BankTransferService', () => {
+  let service: BankTransferService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let payouts: ISellerPayoutService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    payouts = {
+      createSellerPayout: vi.fn().mockResolvedValue({ success: true }),
+      getSellerPayoutStatus: vi.fn(),
+      retrySellerPayout: vi.fn(),
+    }
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue(null)
+    vi.mocked(mockPrisma.bankTransfer.upsert).mockImplementation(
+      ({ create }: any) => Promise.resolve({ id: 'transfer-1', ...create }) as any
+    )
+    vi.mocked(mockPrisma.bankStatementLine.findMany).mockResolvedValue([])
+    vi.mocked(mockPrisma.bankStatement.create).mockResolvedValue({ id: 'statement-1' } as any)
+    vi.mocked(mockPrisma.bankStatementLine.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'line-1', ...data }) as any
+    )
+    vi.mocked(mockPrisma.bankTransfer.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(mockPrisma.auction.updateMany).mockResolvedValue({ count: 1 })
+    service = new BankTransferService(mockPrisma, payouts)
+  })
+
+  describe('requestBankTransfer', () => {
+    it('should reserve a reference for the full amount and hold the payment', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(soldAuction() as any)
+
+      const instructions = await service.requestBankTransfer('auction-123', 'buyer-1')
+
+      expect(isValidRfReference(instructions.reference)).toBe(true)
+      expect(instructions).toMatchObject({
+        amount: 105000,
+        currency: 'EUR',
+        iban: 'RO49AAAA1B31007593840000',
+        beneficiary: 'Finds SRL',
+      })
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: { paymentStatus: 'PENDING' },
+      })
+    })
+
+    it('should return the awaiting transfer instead of a new reference', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        soldAuction({ paymentStatus: 'PENDING', bankTransfer: awaitingTransfer() }) as any
+      )
+
+      const instructions = await service.requestBankTransfer('auction-123', 'buyer-1')
+
+      expect(instructions.reference).toBe(REFERENCE)
+      expect(mockPrisma.bankTransfer.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should refuse once the payment deadline has passed', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        soldAuction({ paymentDeadline: new Date('2020-01-01') }) as any
+      )
+
+      await expect(service.requestBankTransfer('auction-123', 'buyer-1')).rejects.toThrow(
+        ValidationError
+      )
+    })
+  })
+
+  describe('importStatement', () => {
+    it('should mark the auction paid when reference and amount match', async () => {
+      vi.mocked(mockPrisma.bankTransfer.findMany).mockResolvedValue([awaitingTransfer()] as any)
+      const spaced = REFERENCE.replace(/(.{4})/g, '$1 ').toLowerCase()
+
+      const result = await service.importStatement(
+        csvStatement([`2026-10-20,"105.000,00",EUR,Plata ${spaced},Ion Popescu,RO12BTRL,TX-1`]),
+        'october.csv',
+        'admin-1'
+      )
+
+      expect(result).toMatchObject({ lineCount: 1, matchedCount: 1, unmatchedCount: 0 })
+      expect(mockPrisma.bankTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'transfer-1', status: 'AWAITING' },
+        data: { status: 'MATCHED', matchedAt: expect.any(Date) },
+      })
+      expect(mockPrisma.auction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auction-123', paymentStatus: { in: ['UNPAID', 'PENDING'] } },
+        data: { paymentStatus: 'PAID', paidAt: new Date('2026-10-20T00:00:00Z') },
+      })
+      expect(payouts.createSellerPayout).toHaveBeenCalledWith('auction-123')
+    })
+
+    it('should queue a short payment for review', async () => {
+      vi.mocked(mockPrisma.bankTransfer.findMany).mockResolvedValue([awaitingTransfer()] as any)
+
+      const result = await service.importStatement(
+        csvStatement([`2026-10-20,100000.00,EUR,${REFERENCE},Ion Popescu,,TX-1`]),
+        'october.csv',
+        'admin-1'
+      )
+
+      expect(result.unmatchedCount).toBe(1)
+      expect(mockPrisma.bankStatementLine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: 'UNMATCHED',
+          matchNote: 'Expected 105000.00 EUR, received 100000.00',
+        }),
+      })
+      expect(mockPrisma.auction.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should skip lines imported from an earlier statement', async () => {
+      const statement = csvStatement(['2026-10-20,250.00,EUR,Refund,Someone,,TX-9'])
+      const [line] = parseStatementCsv(statement)
+      vi.mocked(mockPrisma.bankStatementLine.findMany).mockResolvedValue([
+        { fingerprint: line.fingerprint },
+      ] as any)
+
+      const result = await service.importStatement(statement, 'october.csv', 'admin-1')
+
+      expect(result).toMatchObject({ lineCount: 0, duplicateCount: 1 })
+      expect(mockPrisma.bankStatementLine.create).not.toHaveBeenCalled()
+    })
+
+    it('should count lines stored first by a concurrent import as duplicates', async () => {
+      vi.mocked(mockPrisma.bankStatementLine.create)
+        .mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: '5.22.0',
+          })
+        )
+        .mockImplementation(({ data }: any) => Promise.resolve({ id: 'line-2', ...data }) as any)
+
+      const result = await service.importStatement(
+        csvStatement([
+          '2026-10-20,250.00,EUR,Refund,Someone,,TX-9',
+          '2026-10-21,80.00,EUR,Deposit,Someone else,,TX-10',
+        ]),
+        'october.csv',
+        'admin-1'
+      )
+
+      expect(result).toMatchObject({ lineCount: 1, duplicateCount: 1, unmatchedCount: 1 })
+      expect(mockPrisma.bankStatement.update).toHaveBeenCalledWith({
+        where: { id: 'statement-1' },
+        data: { lineCount: 1, matchedCount: 0 },
+      })
+    })
+  })
+
+  describe('resolveLine', () => {
+    it('should not review a line twice', async () => {
+      vi.mocked(mockPrisma.bankStatementLine.findUnique).mockResolvedValue({
+        id: 'line-1',
+        status: 'RESOLVED',
+      } as any)
+
+      await expect(
+        service.resolveLine('line-1', 'admin-1', { action: 'ignore', note: 'Duplicate' })
+      ).rejects.toThrow(ConflictError)
+    })
+  })
+
+  describe('statement parsing', () => {
+    it('should read credits and skip debits in CAMT.053', () => {
+      const xml = `<?xml version="1.0"?>
+        <Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+          <Ntry>
+            <Amt Ccy="EUR">105000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts>
+            <BookgDt><Dt>2026-10-20</Dt></BookgDt><AcctSvcrRef>BANK-1</AcctSvcrRef>
+            <NtryDtls><TxDtls>
+              <RltdPties><Dbtr><Nm>Ion Popescu</Nm></Dbtr><DbtrAcct><Id><IBAN>RO12BTRL0000</IBAN></Id></DbtrAcct></RltdPties>
+              <RmtInf><Strd><CdtrRefInf><Ref>${REFERENCE}</Ref></CdtrRefInf></Strd></RmtInf>
+            </TxDtls></NtryDtls>
+          </Ntry>
+          <Ntry>
+            <Amt Ccy="EUR">12.50</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+            <BookgDt><Dt>2026-10-20</Dt></BookgDt>
+          </Ntry>
+        </Stmt></BkToCstmrStmt></Document>`
+
+      const lines = parseCamt053(xml)
+
+      expect(lines).toHaveLength(1)
+      expect(lines[0]).toMatchObject({
+        amount: 105000,
+        currency: 'EUR',
+        counterparty: 'Ion Popescu',
+        counterpartyIban: 'RO12BTRL0000',
+        bankReference: 'BANK-1',
+      })
+      expect(findRfReferences(lines[0].remittanceInfo!)).toEqual([REFERENCE])
+    })
+
+    it('should reject a reference with wrong check digits', () => {
+      const tampered = REFERENCE.slice(0, -1) + (REFERENCE.endsWith('2') ? '3' : '2')
+
+      expect(isValidRfReference(tampered)).toBe(false)
+      expect(findRfReferences(`Plata ${tampered}`)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { timeUtils } from '../helpers/test-utils'
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    bid: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    bidRetraction: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    maxBid: {
+      deleteMany: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/db-lock', () => ({
+  lockAuctionRow: vi.fn(),
+}))
+
+vi.mock('@/services/auction.service', () => ({
+  recalculateAuctionBids: vi.fn(async (auctionId: string) => ({ id: auctionId, currentBid: 9000 })),
+}))
+
+vi.mock('@/services/fraud.service', () => ({
+  recordBidRetraction: vi.fn(),
+}))
+
+// Import after mocking
+import { prisma } from '@/lib/db'
+import { recalculateAuctionBids } from '@/services/auction.service'
+import { recordBidRetraction } from '@/services/fraud.service'
+import { requestBidRetraction, reviewBidRetraction } from '@/services/bid-retraction.service'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+function ownBid(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'bid-1',
+    auctionId: 'auction-1',
+    bidderId: 'bidder-1',
+    isValid: true,
+    createdAt: timeUtils.addMinutes(new Date(), -2),
+    auction: { status: 'ACTIVE' },
+    retraction: null,
+    ...overrides,
+  }
+}
+
+function pendingRetraction(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'retraction-1',
+    bidId: 'bid-1',
+    auctionId: 'auction-1',
+    bidderId: 'bidder-1',
+    reason: 'Typed 90000 instead of 9000',
+    status: 'PENDING',
+    auction: { status: 'ACTIVE' },
+    ...overrides,
+  }
+}
+
+describe('Bid Retraction Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(prisma.$transaction).mockImplementation((fn: any) => fn(prisma))
+    vi.mocked(prisma.bidRetraction.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'retraction-1', status: 'PENDING', ...data }) as any
+    )
+    // The review claim is an updateMany; the re-read returns what it wrote
+    let reviewed: Record<string, unknown> = {}
+    vi.mocked(prisma.bidRetraction.updateMany).mockImplementation(({ data }: any) => {
+      reviewed = data
+      return Promise.resolve({ count: 1 }) as any
+    })
+    vi.mocked(prisma.bidRetraction.findUniqueOrThrow).mockImplementation(
+      () => Promise.resolve({ ...pendingRetraction(), ...reviewed }) as any
+    )
+  })
+
+  describe('requestBidRetraction', () => {
+    it('should queue a retraction for a recent bid', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue(ownBid() as any)
+
+      const retraction = await requestBidRetraction('auction-1', 'bid-1', 'bidder-1', 'Typed an extra zero')
+
+      expect(retraction).toMatchObject({ bidId: 'bid-1', auctionId: 'auction-1', status: 'PENDING' })
+    })
+
+    it("should refuse someone else's bid", async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue(ownBid({ bidderId: 'bidder-2' }) as any)
+
+      await expect(
+        requestBidRetraction('auction-1', 'bid-1', 'bidder-1', 'Typed an extra zero')
+      ).rejects.toMatchObject({ statusCode: 403 })
+      expect(prisma.bidRetraction.create).not.toHaveBeenCalled()
+    })
+
+    it('should refuse once the retraction window has passed', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue(
+        ownBid({ createdAt: timeUtils.addMinutes(new Date(), -60) }) as any
+      )
+
+      await expect(
+        requestBidRetraction('auction-1', 'bid-1', 'bidder-1', 'Typed an extra zero')
+      ).rejects.toMatchObject({ code: ERROR_CODES.BID_RETRACTION_WINDOW_CLOSED })
+    })
+
+    it('should only accept one request per bid', async () => {
+      vi.mocked(prisma.bid.findUnique).mockResolvedValue(
+        ownBid({ retraction: { id: 'retraction-0' } }) as any
+      )
+
+      await expect(
+        requestBidRetraction('auction-1', 'bid-1', 'bidder-1', 'Typed an extra zero')
+      ).rejects.toMatchObject({ statusCode: 409, code: ERROR_CODES.BID_RETRACTION_EXISTS })
+    })
+  })
+
+  describe('reviewBidRetraction', () => {
+    it('should invalidate the bid and recompute the auction on approval', async () => {
+      vi.mocked(prisma.bidRetraction.findUnique).mockResolvedValue(pendingRetraction() as any)
+
+      const { retraction, auction } = await reviewBidRetraction('retraction-1', 'admin-1', 'APPROVED')
+
+      expect(retraction.status).toBe('APPROVED')
+      expect(prisma.bid.update).toHaveBeenCalledWith({
+        where: { id: 'bid-1' },
+        data: expect.objectContaining({ isValid: false, isWinning: false }),
+      })
+      expect(prisma.maxBid.deleteMany).toHaveBeenCalledWith({
+        where: { auctionId: 'auction-1', bidderId: 'bidder-1' },
+      })
+      expect(recalculateAuctionBids).toHaveBeenCalledWith('auction-1', prisma)
+      expect(auction).toMatchObject({ currentBid: 9000 })
+      expect(recordBidRetraction).toHaveBeenCalledWith({
+        userId: 'bidder-1',
+        auctionId: 'auction-1',
+        bidId: 'bid-1',
+      })
+    })
+
+    it('should leave the bid standing on rejection', async () => {
+      vi.mocked(prisma.bidRetraction.findUnique).mockResolvedValue(pendingRetraction() as any)
+
+      const { retraction, auction } = await reviewBidRetraction(
+        'retraction-1',
+        'admin-1',
+        'REJECTED',
+        'Bid was placed deliberately'
+      )
+
+      expect(retraction).toMatchObject({ status: 'REJECTED', reviewNote: 'Bid was placed deliberately' })
+      expect(auction).toBeNull()
+      expect(prisma.bid.update).not.toHaveBeenCalled()
+      expect(recordBidRetraction).not.toHaveBeenCalled()
+    })
+
+    it('should not review a request twice', async () => {
+      vi.mocked(prisma.bidRetraction.findUnique).mockResolvedValue(
+        pendingRetraction({ status: 'APPROVED' }) as any
+      )
+
+      await expect(
+        reviewBidRetraction('retraction-1', 'admin-1', 'APPROVED')
+      ).rejects.toMatchObject({ code: ERROR_CODES.BID_RETRACTION_NOT_PENDING })
+    })
+
+    it('should let only one of two concurrent approvals through', async () => {
+      vi.mocked(prisma.bidRetraction.findUnique).mockResolvedValue(pendingRetraction() as any)
+      vi.mocked(prisma.bidRetraction.updateMany).mockResolvedValue({ count: 0 })
+
+      await expect(
+        reviewBidRetraction('retraction-1', 'admin-1', 'APPROVED')
+      ).rejects.toMatchObject({ code: ERROR_CODES.BID_RETRACTION_NOT_PENDING })
+      expect(prisma.bid.update).not.toHaveBeenCalled()
+      expect(recordBidRetraction).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { BiddingLimitService } from '@/services/bidding-limit.service'
+import { IPaymentProcessor } from '@/services/contracts/payment-processor.interface'
+import { IBidDepositService } from '@/services/contracts/payment.interface'
+import { ConflictError, InsufficientDepositError, ValidationError } from '@/lib/errors'
+import { createMockPrisma, createMockPaymentProcessor } from '../helpers/test-utils'
+
+// lockBiddingLimitRow needs Postgres and nothing here or in the bid harness
+// exercises it under contention
+vi.mock('@/lib/db-lock', () => ({
+  lockBiddingLimitRow: vi.fn(),
+}))
+
+function activeLimit(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'limit-1',
+    userId: 'bidder-1',
+    backing: 'CARD_HOLD',
+    status: 'ACTIVE',
+    limitAmount: new Prisma.Decimal(100000),
+    currency: 'EUR',
+    depositId: 'deposit-1',
+    expiresAt: new Date('2099-01-01'),
+    ...overrides,
+  }
+}
+
+describe('BiddingLimitService', () => {
+  let service: BiddingLimitService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let paymentProcessor: IPaymentProcessor
+  let deposits: Pick<IBidDepositService, 'checkBiddingEligibility' | 'releaseBidDeposit'>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    paymentProcessor = createMockPaymentProcessor()
+    deposits = {
+      checkBiddingEligibility: vi.fn().mockResolvedValue({
+        eligible: true,
+        hasPaymentMethod: true,
+        stripeCustomerId: 'cus_123',
+      }),
+      releaseBidDeposit: vi.fn().mockResolvedValue(true),
+    }
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.bidExposure.upsert).mockImplementation(
+      ({ create }: any) => Promise.resolve({ id: 'exposure-1', ...create }) as any
+    )
+    vi.mocked(mockPrisma.auction.findUniqueOrThrow).mockResolvedValue({ currency: 'EUR' } as any)
+    service = new BiddingLimitService(mockPrisma, paymentProcessor, deposits)
+  })
+
+  describe('reserveExposure', () => {
+    it('should commit the bid against what is left of the limit', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findFirst).mockResolvedValue(activeLimit() as any)
+      vi.mocked(mockPrisma.bidExposure.aggregate).mockResolvedValue({
+        _sum: { amount: new Prisma.Decimal(70000) },
+      } as any)
+
+      const exposure = await service.reserveExposure('bidder-1', 'auction-2', 30000, mockPrisma)
+
+      expect(exposure).toMatchObject({ limitId: 'limit-1', auctionId: 'auction-2', amount: 30000 })
+      expect(mockPrisma.bidExposure.aggregate).toHaveBeenCalledWith({
+        where: { limitId: 'limit-1', releasedAt: null, auctionId: { not: 'auction-2' } },
+        _sum: { amount: true },
+      })
+    })
+
+    it('should reject a bid above the remaining limit', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findFirst).mockResolvedValue(activeLimit() as any)
+      vi.mocked(mockPrisma.bidExposure.aggregate).mockResolvedValue({
+        _sum: { amount: new Prisma.Decimal(80000) },
+      } as any)
+
+      const attempt = service.reserveExposure('bidder-1', 'auction-2', 30000, mockPrisma)
+
+      await expect(attempt).rejects.toThrow(InsufficientDepositError)
+      await expect(attempt).rejects.toMatchObject({
+        code: 'BIDDING_LIMIT_EXCEEDED',
+        details: { remaining: 20000, limit: 100000 },
+      })
+      expect(mockPrisma.bidExposure.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should leave bidders without an active limit to per-auction deposits', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findFirst).mockResolvedValue(null)
+
+      const exposure = await service.reserveExposure('bidder-1', 'auction-2', 30000, mockPrisma)
+
+      expect(exposure).toBeNull()
+      expect(mockPrisma.bidExposure.aggregate).not.toHaveBeenCalled()
+    })
+
+    it('should reject a bid it has no rate to convert into the limit currency', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findFirst).mockResolvedValue(activeLimit() as any)
+      vi.mocked(mockPrisma.auction.findUniqueOrThrow).mockResolvedValue({ currency: 'RON' } as any)
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      const attempt = service.reserveExposure('bidder-1', 'auction-2', 30000, mockPrisma)
+
+      await expect(attempt).rejects.toThrow(ValidationError)
+      await expect(attempt).rejects.toMatchObject({ code: 'EXCHANGE_RATE_NOT_FOUND' })
+      expect(mockPrisma.bidExposure.upsert).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('requestLimit', () => {
+    it('should hold a share of the limit on the card and activate it', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findUnique).mockResolvedValue(null)
+      vi.mocked(paymentProcessor.getDefaultPaymentMethod).mockResolvedValue({ id: 'pm_123' } as any)
+      vi.mocked(paymentProcessor.createPaymentIntent).mockResolvedValue({
+        id: 'pi_123',
+        status: 'requires_capture',
+      } as any)
+      vi.mocked(mockPrisma.bidDeposit.create).mockResolvedValue({ id: 'deposit-9' } as any)
+      vi.mocked(mockPrisma.biddingLimit.upsert).mockImplementation(
+        ({ create }: any) => Promise.resolve({ id: 'limit-1', ...create }) as any
+      )
+
+      const result = await service.requestLimit('bidder-1', { backing: 'CARD_HOLD', limitAmount: 150000 })
+
+      expect(result.holdAmount).toBe(15000)
+      expect(result.requiresAction).toBeUndefined()
+      expect(paymentProcessor.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1500000, captureMethod: 'manual' })
+      )
+      expect(result.limit).toMatchObject({ status: 'ACTIVE', depositId: 'deposit-9' })
+    })
+
+    it('should not replace a limit that still covers open bids', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findUnique).mockResolvedValue(activeLimit() as any)
+      vi.mocked(mockPrisma.bidExposure.count).mockResolvedValue(2)
+
+      await expect(
+        service.requestLimit('bidder-1', { backing: 'CARD_HOLD', limitAmount: 150000 })
+      ).rejects.toThrow(ConflictError)
+      expect(deposits.releaseBidDeposit).not.toHaveBeenCalled()
+      expect(paymentProcessor.createPaymentIntent).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('reviewGuarantee', () => {
+    it('should not review a guarantee twice', async () => {
+      vi.mocked(mockPrisma.biddingLimit.findUnique).mockResolvedValue(
+        activeLimit({ backing: 'BANK_GUARANTEE', depositId: null }) as any
+      )
+
+      await expect(
+        service.reviewGuarantee('limit-1', 'admin-1', { approve: true })
+      ).rejects.toThrow(ConflictError)
+    })
+  })
+})
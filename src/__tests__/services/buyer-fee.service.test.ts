@@ -17,8 +17,13 @@ vi.mock('@/lib/stripe', () => ({
   },
 }))
 
+vi.mock('@/services/invoice.service', () => ({
+  issueBuyerFeeInvoice: vi.fn(async () => null),
+}))
+
 // Import after mock setup
 import { getDefaultPaymentMethod } from '@/lib/stripe'
+import { issueBuyerFeeInvoice } from '@/services/invoice.service'
 
 describe('BuyerFeeService', () => {
   let buyerFeeService: BuyerFeeService
@@ -91,6 +96,47 @@ describe('BuyerFeeService', () => {
       })
     })
 
+    it('should work out the fee from the tiered terms snapshotted on the auction', async () => {
+      const auction = factories.auction({
+        status: 'SOLD',
+        winnerId: 'user-123',
+        finalPrice: new Prisma.Decimal(80000),
+        buyerFeeAmount: null,
+        paymentStatus: PaymentStatus.UNPAID,
+        paymentDeadline: new Date('2099-12-31'),
+      })
+
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue({
+        ...auction,
+        feeTerms: {
+          buyerPremium: [
+            { upTo: 50000, rate: 0.06 },
+            { upTo: null, rate: 0.04 },
+          ],
+          minBuyerFee: 0,
+          maxBuyerFee: null,
+          sellerCommissionRate: 0,
+          sellerListingFee: 0,
+        },
+        listing: factories.listing(),
+      } as any)
+      vi.mocked(mockPrisma.user.findUnique).mockResolvedValue(
+        factories.user({ id: 'user-123', stripeCustomerId: 'cus_123' }) as any
+      )
+      vi.mocked(getDefaultPaymentMethod).mockResolvedValue(factories.stripePaymentMethod())
+      vi.mocked(mockStripe.paymentIntents.create).mockResolvedValue(
+        factories.stripePaymentIntent({ status: 'succeeded' }) as any
+      )
+      vi.mocked(mockPrisma.auction.update).mockResolvedValue({} as any)
+
+      await buyerFeeService.chargeBuyerFee('auction-123', 'user-123')
+
+      // 6% of the first 50,000 plus 4% of the remaining 30,000
+      expect(mockStripe.paymentIntents.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 8420000 })
+      )
+    })
+
     it('should fail when auction is not sold', async () => {
       const auction = factories.auction({ status: 'ACTIVE' })
       const listing = factories.listing()
@@ -338,6 +384,27 @@ describe('BuyerFeeService', () => {
       })
     })
 
+    it('should wait for a bank transfer that has not expired', async () => {
+      vi.mocked(mockPrisma.auction.findMany).mockResolvedValue([
+        { id: 'auction-1', winnerId: 'user-1', listing: { title: 'Item 1' } },
+      ] as any)
+      vi.mocked(mockPrisma.auction.update).mockResolvedValue({} as any)
+
+      await buyerFeeService.checkOverduePayments()
+
+      expect(mockPrisma.auction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            NOT: { bankTransfer: { is: { status: 'AWAITING', expiresAt: { gt: expect.any(Date) } } } },
+          }),
+        })
+      )
+      expect(mockPrisma.bankTransfer.updateMany).toHaveBeenCalledWith({
+        where: { auctionId: { in: ['auction-1'] }, status: 'AWAITING' },
+        data: { status: 'EXPIRED' },
+      })
+    })
+
     it('should return empty array when no overdue payments', async () => {
       vi.mocked(mockPrisma.auction.findMany).mockResolvedValue([])
 
@@ -370,6 +437,7 @@ describe('BuyerFeeService', () => {
           paidAt: expect.any(Date),
         },
       })
+      expect(issueBuyerFeeInvoice).toHaveBeenCalledWith('auction-123')
     })
 
     it('should fail when payment requires new payment method', async () => {
@@ -88,6 +88,10 @@ describe('DepositService', () => {
   })
 
   describe('createBidDeposit', () => {
+    beforeEach(() => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue({ currency: 'EUR' } as any)
+    })
+
     it('should create a held deposit when payment succeeds', async () => {
       const user = factories.user({
         emailVerified: new Date(),
@@ -200,6 +204,32 @@ describe('DepositService', () => {
       expect(result.success).toBe(false)
       expect(result.error).toBe('Email not verified')
     })
+
+    it('should fail without a rate to size the deposit in the auction currency', async () => {
+      const user = factories.user({
+        emailVerified: new Date(),
+        stripeCustomerId: 'cus_123',
+      })
+
+      vi.mocked(mockPrisma.user.findUnique).mockResolvedValue(user as any)
+      vi.mocked(mockPaymentProcessor.getDefaultPaymentMethod).mockResolvedValue({
+        id: 'pm_123',
+        type: 'card',
+        customerId: 'cus_123',
+      })
+      vi.mocked(mockPrisma.bidDeposit.findFirst).mockResolvedValue(null)
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue({ currency: 'RON' } as any)
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      const result = await depositService.createBidDeposit({
+        userId: 'user-123',
+        auctionId: 'auction-123',
+        bidAmount: 1000,
+      })
+
+      expect(result).toEqual({ success: false, error: 'No RON exchange rate to size the deposit' })
+      expect(mockPaymentProcessor.createPaymentIntent).not.toHaveBeenCalled()
+    })
   })
 
   describe('releaseBidDeposit', () => {
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DisputeService, DisputeWebhookEvent } from '@/services/dispute.service'
+import { ISellerPayoutService } from '@/services/contracts/payment.interface'
+import { ConflictError } from '@/lib/errors'
+import { createFraudAlert } from '@/services/fraud.service'
+import { createMockPrisma } from '../helpers/test-utils'
+
+vi.mock('@/lib/audit', () => ({
+  PaymentAuditLogger: class {
+    logDisputeEvent = vi.fn()
+  },
+}))
+
+vi.mock('@/services/fraud.service', () => ({
+  createFraudAlert: vi.fn(async () => ({ id: 'alert-1' })),
+}))
+
+function webhookEvent(overrides: Partial<DisputeWebhookEvent> = {}): DisputeWebhookEvent {
+  return {
+    stripeEventId: 'evt_1',
+    type: 'created',
+    stripeDisputeId: 'dp_1',
+    chargeId: 'ch_1',
+    paymentIntentId: 'pi_123',
+    amount: 10500,
+    currency: 'eur',
+    reason: 'product_not_received',
+    status: 'needs_response',
+    evidenceDueBy: new Date('2026-11-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+function dispute(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'dispute-1',
+    stripeDisputeId: 'dp_1',
+    auctionId: 'auction-123',
+    userId: 'buyer-1',
+    target: 'BUYER_FEE',
+    status: 'NEEDS_RESPONSE',
+    fraudAlertId: 'alert-1',
+    biddingRestricted: true,
+    closedAt: null,
+    ...overrides,
+  }
+}
+
+describe('DisputeService', () => {
+  let service: DisputeService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let mockPayouts: ISellerPayoutService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.paymentDisputeEvent.findUnique).mockResolvedValue(null)
+    vi.mocked(mockPrisma.paymentDispute.update).mockImplementation(
+      ({ data }: any) => Promise.resolve(dispute(data.events ? { status: data.status } : data)) as any
+    )
+    mockPayouts = {
+      createSellerPayout: vi.fn().mockResolvedValue({ success: true, transferId: 'tr_1' }),
+      retrySellerPayout: vi.fn(),
+    } as unknown as ISellerPayoutService
+    service = new DisputeService(mockPrisma, mockPayouts)
+  })
+
+  describe('recordWebhookEvent', () => {
+    beforeEach(() => {
+      vi.mocked(mockPrisma.paymentDispute.findUnique).mockResolvedValue(null)
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(null)
+      vi.mocked(mockPrisma.auction.findFirst).mockResolvedValue({
+        id: 'auction-123',
+        winnerId: 'buyer-1',
+      } as any)
+      vi.mocked(mockPrisma.auction.findUniqueOrThrow).mockResolvedValue({
+        sellerPayoutStatus: null,
+      } as any)
+      vi.mocked(mockPrisma.user.findUnique).mockResolvedValue({ biddingEnabled: true } as any)
+      vi.mocked(mockPrisma.paymentDispute.create).mockImplementation(
+        ({ data }: any) => Promise.resolve({ id: 'dispute-1', ...data }) as any
+      )
+    })
+
+    it('should open a dispute, raise a fraud alert and restrict bidding', async () => {
+      const result = await service.recordWebhookEvent(webhookEvent())
+
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'buyer-1' },
+        data: { biddingEnabled: false },
+      })
+      expect(mockPrisma.paymentDispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          target: 'BUYER_FEE',
+          auctionId: 'auction-123',
+          currency: 'EUR',
+          status: 'NEEDS_RESPONSE',
+          biddingRestricted: true,
+          events: {
+            create: expect.objectContaining({ stripeEventId: 'evt_1', type: 'created' }),
+          },
+        }),
+      })
+      expect(createFraudAlert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'buyer-1',
+          auctionId: 'auction-123',
+          alertType: 'CHARGEBACK',
+          severity: 'HIGH',
+        })
+      )
+      expect(result).toMatchObject({ fraudAlertId: 'alert-1' })
+    })
+
+    it('should link a deposit dispute to the deposit', async () => {
+      vi.mocked(mockPrisma.auction.findFirst).mockResolvedValue(null)
+      vi.mocked(mockPrisma.bidDeposit.findFirst).mockResolvedValue({
+        id: 'deposit-1',
+        userId: 'bidder-1',
+        auctionId: 'auction-123',
+      } as any)
+
+      await service.recordWebhookEvent(webhookEvent({ reason: 'fraudulent' }))
+
+      expect(mockPrisma.paymentDispute.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ target: 'DEPOSIT', depositId: 'deposit-1', userId: 'bidder-1' }),
+      })
+      expect(createFraudAlert).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'bidder-1', severity: 'CRITICAL' })
+      )
+    })
+
+    it('should ignore a webhook delivered twice', async () => {
+      vi.mocked(mockPrisma.paymentDisputeEvent.findUnique).mockResolvedValue({
+        disputeId: 'dispute-1',
+      } as any)
+
+      await service.recordWebhookEvent(webhookEvent())
+
+      expect(mockPrisma.paymentDispute.create).not.toHaveBeenCalled()
+      expect(createFraudAlert).not.toHaveBeenCalled()
+    })
+
+    it('should ignore disputes on charges that are not ours', async () => {
+      vi.mocked(mockPrisma.auction.findFirst).mockResolvedValue(null)
+      vi.mocked(mockPrisma.bidDeposit.findFirst).mockResolvedValue(null)
+
+      const result = await service.recordWebhookEvent(webhookEvent())
+
+      expect(result).toBeNull()
+      expect(mockPrisma.paymentDispute.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('closing', () => {
+    beforeEach(() => {
+      vi.mocked(mockPrisma.paymentDispute.findUnique).mockResolvedValue(dispute() as any)
+      vi.mocked(mockPrisma.paymentDispute.count).mockResolvedValue(0)
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue({
+        paymentStatus: 'PAID',
+        sellerPayoutStatus: null,
+      } as any)
+    })
+
+    it('should give bidding back and resume the payout when the dispute is won', async () => {
+      await service.recordWebhookEvent(
+        webhookEvent({ stripeEventId: 'evt_2', type: 'closed', status: 'won' })
+      )
+
+      expect(mockPrisma.paymentDispute.update).toHaveBeenCalledWith({
+        where: { id: 'dispute-1' },
+        data: expect.objectContaining({ status: 'WON', closedAt: expect.any(Date) }),
+      })
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'buyer-1' },
+        data: { biddingEnabled: true },
+      })
+      expect(mockPrisma.fraudAlert.updateMany).toHaveBeenCalledWith({
+        where: { id: 'alert-1', status: { in: ['OPEN', 'INVESTIGATING'] } },
+        data: expect.objectContaining({ status: 'RESOLVED' }),
+      })
+      expect(mockPayouts.createSellerPayout).toHaveBeenCalledWith('auction-123')
+    })
+
+    it('should keep bidding off while another dispute is open', async () => {
+      vi.mocked(mockPrisma.paymentDispute.count).mockResolvedValue(1)
+
+      await service.recordWebhookEvent(
+        webhookEvent({ stripeEventId: 'evt_2', type: 'closed', status: 'won' })
+      )
+
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+    })
+
+    it('should leave bidding off and the alert open when the dispute is lost', async () => {
+      await service.recordWebhookEvent(
+        webhookEvent({ stripeEventId: 'evt_2', type: 'closed', status: 'lost' })
+      )
+
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+      expect(mockPrisma.fraudAlert.updateMany).not.toHaveBeenCalled()
+      expect(mockPayouts.createSellerPayout).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('markEvidenceSubmitted', () => {
+    it('should add the submission to the timeline', async () => {
+      vi.mocked(mockPrisma.paymentDispute.findUnique).mockResolvedValue(dispute() as any)
+
+      await service.markEvidenceSubmitted('dispute-1', 'admin-1', 'Sent via dashboard')
+
+      expect(mockPrisma.paymentDispute.update).toHaveBeenCalledWith({
+        where: { id: 'dispute-1' },
+        data: expect.objectContaining({
+          evidenceSubmittedAt: expect.any(Date),
+          events: {
+            create: {
+              type: 'evidence_submitted',
+              status: 'NEEDS_RESPONSE',
+              actorId: 'admin-1',
+              note: 'Sent via dashboard',
+            },
+          },
+        }),
+      })
+    })
+
+    it('should reject a closed dispute', async () => {
+      vi.mocked(mockPrisma.paymentDispute.findUnique).mockResolvedValue(
+        dispute({ status: 'WON', closedAt: new Date() }) as any
+      )
+
+      await expect(service.markEvidenceSubmitted('dispute-1', 'admin-1')).rejects.toThrow(
+        ConflictError
+      )
+    })
+  })
+
+  describe('getEvidencePack', () => {
+    it('should gather bids, terms acceptance and messages for the buyer', async () => {
+      vi.mocked(mockPrisma.paymentDispute.findUnique).mockResolvedValue({
+        ...dispute(),
+        events: [],
+      } as any)
+      vi.mocked(mockPrisma.user.findUniqueOrThrow).mockResolvedValue({
+        id: 'buyer-1',
+        termsAcceptedAt: new Date('2026-01-05T10:00:00Z'),
+      } as any)
+      vi.mocked(mockPrisma.auction.findUniqueOrThrow).mockResolvedValue({
+        id: 'auction-123',
+        currency: 'EUR',
+        currentEndTime: new Date(),
+        listing: { id: 'listing-1', title: '1967 Porsche 911S', seller: { id: 'seller-1' } },
+      } as any)
+      vi.mocked(mockPrisma.bid.findMany).mockResolvedValue([
+        { id: 'bid-1', ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0' },
+      ] as any)
+      vi.mocked(mockPrisma.conversation.findUnique).mockResolvedValue({
+        messages: [{ id: 'msg-1', senderId: 'buyer-1', content: 'When can I collect it?' }],
+      } as any)
+      vi.mocked(mockPrisma.auditLog.findMany).mockResolvedValue([])
+
+      const pack = await service.getEvidencePack('dispute-1')
+
+      expect(mockPrisma.bid.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { auctionId: 'auction-123', bidderId: 'buyer-1' } })
+      )
+      expect(mockPrisma.conversation.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { listingId_buyerId: { listingId: 'listing-1', buyerId: 'buyer-1' } },
+        })
+      )
+      expect(pack.customer.termsAcceptedAt).toEqual(new Date('2026-01-05T10:00:00Z'))
+      expect(pack.bids[0].ipAddress).toBe('203.0.113.7')
+      expect(pack.messages).toHaveLength(1)
+      expect(pack.auction.title).toBe('1967 Porsche 911S')
+    })
+  })
+})
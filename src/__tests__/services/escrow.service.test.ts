@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { EscrowService } from '@/services/escrow.service'
+import { ISellerPayoutService } from '@/services/contracts/payment.interface'
+import { IPaymentProcessor } from '@/services/contracts/payment-processor.interface'
+import { AuctionStateError, ConflictError, PaymentError } from '@/lib/errors'
+import { createMockPrisma, createMockPaymentProcessor, factories } from '../helpers/test-utils'
+
+vi.mock('@/lib/audit', () => ({
+  PaymentAuditLogger: class {
+    logEscrowTransition = vi.fn()
+  },
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notifyEscrowMilestone: vi.fn(async () => undefined),
+  notifyPaymentComplete: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/services/invoice.service', () => ({
+  issueBuyerFeeInvoice: vi.fn(async () => null),
+}))
+
+function escrow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'escrow-1',
+    auctionId: 'auction-123',
+    buyerId: 'buyer-1',
+    amount: 10500,
+    currency: 'EUR',
+    paymentIntentId: 'pi_123',
+    status: 'FUNDED',
+    handedOverAt: null,
+    inspectionEndsAt: null,
+    auction: { listing: { title: '1967 Porsche 911S', sellerId: 'seller-1' } },
+    ...overrides,
+  }
+}
+
+describe('EscrowService', () => {
+  let service: EscrowService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let mockProcessor: IPaymentProcessor
+  let mockPayouts: ISellerPayoutService
+
+  beforeEach(() => {
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.escrow.updateMany).mockResolvedValue({ count: 1 })
+    mockProcessor = createMockPaymentProcessor()
+    mockPayouts = {
+      createSellerPayout: vi.fn().mockResolvedValue({ success: true, transferId: 'tr_1' }),
+      retrySellerPayout: vi.fn(),
+    } as unknown as ISellerPayoutService
+    service = new EscrowService(mockPrisma, mockProcessor, mockPayouts)
+  })
+
+  describe('fundEscrow', () => {
+    beforeEach(() => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue({
+        ...factories.auction({ status: 'SOLD' }),
+        winnerId: 'buyer-1',
+        finalPrice: 10000,
+        buyerFeeAmount: 500,
+        paymentStatus: 'UNPAID',
+        paymentDeadline: new Date(Date.now() + 60 * 60 * 1000),
+        escrow: null,
+      } as any)
+      vi.mocked(mockPrisma.user.findUnique).mockResolvedValue({ stripeCustomerId: 'cus_1' } as any)
+      vi.mocked(mockProcessor.getDefaultPaymentMethod).mockResolvedValue({ id: 'pm_1' } as any)
+      vi.mocked(mockPrisma.escrow.upsert).mockResolvedValue(
+        escrow({ status: 'AWAITING_FUNDS', paymentIntentId: null }) as any
+      )
+    })
+
+    it('should charge price plus fee and mark the escrow funded', async () => {
+      vi.mocked(mockProcessor.createPaymentIntent).mockResolvedValue({
+        id: 'pi_123',
+        status: 'succeeded',
+      } as any)
+      vi.mocked(mockPrisma.escrow.findUniqueOrThrow).mockResolvedValue(escrow() as any)
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(escrow() as any)
+
+      const result = await service.fundEscrow('auction-123', 'buyer-1')
+
+      expect(mockProcessor.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 1050000,
+          metadata: expect.objectContaining({ type: 'escrow', escrowId: 'escrow-1' }),
+        })
+      )
+      expect(mockPrisma.escrow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'escrow-1', status: { in: ['AWAITING_FUNDS'] } },
+        data: expect.objectContaining({ status: 'FUNDED', paymentIntentId: 'pi_123' }),
+      })
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: expect.objectContaining({ paymentStatus: 'PAID' }),
+      })
+      expect(result.requiresAction).toBe(false)
+      expect(mockPayouts.createSellerPayout).not.toHaveBeenCalled()
+    })
+
+    it('should return the client secret when the card needs authentication', async () => {
+      vi.mocked(mockProcessor.createPaymentIntent).mockResolvedValue({
+        id: 'pi_123',
+        status: 'requires_action',
+        clientSecret: 'pi_123_secret',
+      } as any)
+      vi.mocked(mockPrisma.escrow.update).mockResolvedValue(
+        escrow({ status: 'AWAITING_FUNDS' }) as any
+      )
+
+      const result = await service.fundEscrow('auction-123', 'buyer-1')
+
+      expect(result).toMatchObject({ requiresAction: true, clientSecret: 'pi_123_secret' })
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: { paymentStatus: 'PENDING', paymentIntentId: 'pi_123' },
+      })
+    })
+  })
+
+  describe('milestones', () => {
+    it('should start the inspection window when the seller hands the car over', async () => {
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(escrow() as any)
+      vi.mocked(mockPrisma.escrow.findUniqueOrThrow).mockResolvedValue(
+        escrow({ status: 'HANDED_OVER', inspectionEndsAt: new Date() }) as any
+      )
+
+      await service.markHandedOver('auction-123', 'seller-1', 'Collected from the garage')
+
+      expect(mockPrisma.escrow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'escrow-1', status: { in: ['FUNDED'] } },
+        data: expect.objectContaining({
+          status: 'HANDED_OVER',
+          handoverNote: 'Collected from the garage',
+          inspectionEndsAt: expect.any(Date),
+        }),
+      })
+    })
+
+    it('should pay the seller out when the buyer confirms receipt', async () => {
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(
+        escrow({ status: 'HANDED_OVER' }) as any
+      )
+      vi.mocked(mockPrisma.escrow.findUniqueOrThrow).mockResolvedValue(
+        escrow({ status: 'RELEASED' }) as any
+      )
+
+      const result = await service.confirmReceipt('auction-123', 'buyer-1')
+
+      expect(mockPrisma.escrow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'escrow-1', status: { in: ['FUNDED', 'HANDED_OVER'] } },
+        data: expect.objectContaining({ status: 'RELEASED', releaseReason: 'buyer_confirmed' }),
+      })
+      expect(mockPayouts.createSellerPayout).toHaveBeenCalledWith('auction-123')
+      expect(result.payout.success).toBe(true)
+    })
+
+    it('should refuse to release a disputed escrow to the buyer', async () => {
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(
+        escrow({ status: 'DISPUTED' }) as any
+      )
+
+      await expect(service.confirmReceipt('auction-123', 'buyer-1')).rejects.toThrow(ConflictError)
+      expect(mockPayouts.createSellerPayout).not.toHaveBeenCalled()
+    })
+
+    it('should reject a dispute after the inspection window closed', async () => {
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(
+        escrow({ status: 'HANDED_OVER', inspectionEndsAt: new Date(Date.now() - 1000) }) as any
+      )
+
+      await expect(
+        service.openDispute('auction-123', 'buyer-1', 'Gearbox is not as described')
+      ).rejects.toThrow(AuctionStateError)
+      expect(mockPrisma.escrow.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should not move an escrow another actor already moved', async () => {
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(
+        escrow({ status: 'HANDED_OVER' }) as any
+      )
+      vi.mocked(mockPrisma.escrow.updateMany).mockResolvedValue({ count: 0 })
+
+      await expect(service.confirmReceipt('auction-123', 'buyer-1')).rejects.toThrow(
+        AuctionStateError
+      )
+      expect(mockPayouts.createSellerPayout).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('releaseLapsedInspections', () => {
+    it('should release escrows whose inspection window passed', async () => {
+      vi.mocked(mockPrisma.escrow.findMany).mockResolvedValue([
+        escrow({ status: 'HANDED_OVER', inspectionEndsAt: new Date(Date.now() - 1000) }),
+      ] as any)
+      vi.mocked(mockPrisma.escrow.findUniqueOrThrow).mockResolvedValue(
+        escrow({ status: 'RELEASED' }) as any
+      )
+
+      const released = await service.releaseLapsedInspections()
+
+      expect(released).toEqual(['auction-123'])
+      expect(mockPrisma.escrow.updateMany).toHaveBeenCalledWith({
+        where: { id: 'escrow-1', status: { in: ['HANDED_OVER'] } },
+        data: expect.objectContaining({ releaseReason: 'inspection_lapsed' }),
+      })
+      expect(mockPayouts.createSellerPayout).toHaveBeenCalledWith('auction-123')
+    })
+  })
+
+  describe('adminRefund', () => {
+    beforeEach(() => {
+      vi.mocked(mockPrisma.escrow.findUnique).mockResolvedValue(
+        escrow({ status: 'DISPUTED' }) as any
+      )
+      vi.mocked(mockPrisma.escrow.findUniqueOrThrow).mockResolvedValue(
+        escrow({ status: 'REFUNDED' }) as any
+      )
+    })
+
+    it('should refund the full charge and mark the auction refunded', async () => {
+      vi.mocked(mockProcessor.refundPayment).mockResolvedValue({ id: 're_1' } as any)
+      vi.mocked(mockPrisma.escrow.update).mockResolvedValue(
+        escrow({ status: 'REFUNDED', refundId: 're_1' }) as any
+      )
+
+      const refunded = await service.adminRefund('escrow-1', 'admin-1', 'Car not as described')
+
+      expect(mockProcessor.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentIntentId: 'pi_123' })
+      )
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: { paymentStatus: 'REFUNDED' },
+      })
+      expect(refunded).toMatchObject({ refundId: 're_1' })
+      expect(mockPayouts.createSellerPayout).not.toHaveBeenCalled()
+    })
+
+    it('should put the escrow back when the refund fails', async () => {
+      vi.mocked(mockProcessor.refundPayment).mockRejectedValue(new Error('charge_disputed'))
+
+      await expect(
+        service.adminRefund('escrow-1', 'admin-1', 'Car not as described')
+      ).rejects.toThrow(PaymentError)
+      expect(mockPrisma.escrow.update).toHaveBeenCalledWith({
+        where: { id: 'escrow-1' },
+        data: expect.objectContaining({ status: 'DISPUTED', refundedAt: null }),
+      })
+      expect(mockPrisma.auction.update).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { ExchangeRateService } from '@/services/exchange-rate.service'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { createMockPrisma } from '../helpers/test-utils'
+
+const ECB_FILE = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time="2026-10-16">
+      <Cube currency="USD" rate="1.0842"/>
+      <Cube currency="JPY" rate="162.31"/>
+      <Cube currency="RON" rate="4.9735"/>
+    </Cube>
+    <Cube time="2026-10-15">
+      <Cube currency="USD" rate="1.0851"/>
+      <Cube currency="RON" rate="4.9741"/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`
+
+describe('ExchangeRateService', () => {
+  let service: ExchangeRateService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+
+  beforeEach(() => {
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.exchangeRate.createMany).mockImplementation(
+      ({ data }: any) => Promise.resolve({ count: data.length }) as any
+    )
+    service = new ExchangeRateService(mockPrisma)
+  })
+
+  describe('importEcbRates', () => {
+    it('should store each day of the supported currencies only', async () => {
+      const result = await service.importEcbRates(ECB_FILE)
+
+      expect(result).toEqual({
+        dayCount: 2,
+        importedCount: 4,
+        firstDate: '2026-10-15',
+        lastDate: '2026-10-16',
+        currencies: ['RON', 'USD'],
+      })
+      expect(mockPrisma.exchangeRate.createMany).toHaveBeenCalledWith({
+        data: expect.arrayContaining([
+          {
+            currency: 'RON',
+            rate: 4.9735,
+            rateDate: new Date('2026-10-16T00:00:00Z'),
+            source: 'ECB',
+          },
+        ]),
+        skipDuplicates: true,
+      })
+    })
+
+    it('should reject a file without reference rates', async () => {
+      await expect(service.importEcbRates('<statement/>')).rejects.toThrow(ValidationError)
+      expect(mockPrisma.exchangeRate.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getEurRate', () => {
+    it('should not look up the euro', async () => {
+      const on = new Date('2026-10-19T12:00:00Z')
+
+      await expect(service.getEurRate('EUR', on)).resolves.toEqual({ rate: 1, rateDate: on })
+      expect(mockPrisma.exchangeRate.findFirst).not.toHaveBeenCalled()
+    })
+
+    it('should fail when no rate was imported for the currency', async () => {
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      await expect(service.getEurRate('RON')).rejects.toThrow(NotFoundError)
+    })
+  })
+
+  describe('findEurRate', () => {
+    it('should return null when no rate was imported for the currency', async () => {
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      await expect(service.findEurRate('RON')).resolves.toBeNull()
+    })
+  })
+
+  describe('snapshotSaleRate', () => {
+    it('should record the latest rate on or before the sale', async () => {
+      const rateDate = new Date('2026-10-16T00:00:00Z')
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue({
+        rate: new Prisma.Decimal(4.9735),
+        rateDate,
+      } as any)
+
+      const snapshot = await service.snapshotSaleRate('RON', new Date('2026-10-18T20:00:00Z'))
+
+      expect(snapshot).toEqual({ fxRate: 4.9735, fxRateDate: rateDate })
+      expect(mockPrisma.exchangeRate.findFirst).toHaveBeenCalledWith({
+        where: { currency: 'RON', rateDate: { lte: new Date('2026-10-18T20:00:00Z') } },
+        orderBy: { rateDate: 'desc' },
+      })
+    })
+
+    it('should leave the snapshot empty rather than block the sale', async () => {
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      await expect(service.snapshotSaleRate('RON')).resolves.toEqual({ fxRate: null, fxRateDate: null })
+    })
+  })
+})
@@ -25,6 +25,9 @@ vi.mock('@/lib/db', () => ({
       findMany: vi.fn(),
       groupBy: vi.fn(),
     },
+    bidRetraction: {
+      count: vi.fn(),
+    },
     user: {
       findUnique: vi.fn(),
     },
@@ -40,11 +43,13 @@ import {
   reviewFraudAlert,
   getFraudStats,
   getUserFraudHistory,
+  recordBidRetraction,
 } from '@/services/fraud.service'
 
 describe('Fraud Service', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(prisma.bidRetraction.count).mockResolvedValue(0)
   })
 
   describe('runBidFraudChecks', () => {
@@ -454,6 +459,43 @@ describe('Fraud Service', () => {
     })
   })
 
+  describe('recordBidRetraction', () => {
+    it('should not raise an alert for a first retraction', async () => {
+      vi.mocked(prisma.bidRetraction.count).mockResolvedValue(1)
+
+      const alert = await recordBidRetraction({
+        userId: 'bidder-123',
+        auctionId: 'auction-123',
+        bidId: 'bid-123',
+      })
+
+      expect(alert).toBeNull()
+      expect(prisma.fraudAlert.create).not.toHaveBeenCalled()
+    })
+
+    it('should escalate repeated retractions', async () => {
+      vi.mocked(prisma.bidRetraction.count).mockResolvedValue(FRAUD_THRESHOLDS.RETRACTION_HIGH_COUNT)
+      vi.mocked(prisma.fraudAlert.create).mockImplementation(
+        ({ data }: any) => Promise.resolve(data) as any
+      )
+
+      await recordBidRetraction({
+        userId: 'bidder-123',
+        auctionId: 'auction-123',
+        bidId: 'bid-123',
+      })
+
+      expect(prisma.fraudAlert.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'bidder-123',
+          bidId: 'bid-123',
+          alertType: 'REPEATED_BID_RETRACTION',
+          severity: AlertSeverity.HIGH,
+        }),
+      })
+    })
+  })
+
   describe('getUserFraudHistory', () => {
     it('should return user fraud history', async () => {
       const alerts = [factories.fraudAlert(), factories.fraudAlert()]
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { InvoiceService } from '@/services/invoice.service'
+import { IStorageService } from '@/services/contracts/storage.interface'
+import { ValidationError } from '@/lib/errors'
+import { renderInvoiceUbl, CIUS_RO_CUSTOMIZATION_ID } from '@/lib/invoice-ubl'
+import { renderInvoicePdf } from '@/lib/invoice-pdf'
+import { createMockPrisma } from '../helpers/test-utils'
+
+function paidAuction(overrides: Record<string, unknown> = {}, winner: Record<string, unknown> = {}) {
+  return {
+    currency: 'RON',
+    paymentStatus: 'PAID',
+    buyerFeeAmount: 1210,
+    listing: { title: '1967 Porsche 911S' },
+    winner: {
+      id: 'buyer-1',
+      name: 'Ion Popescu',
+      email: 'ion@example.com',
+      country: 'RO',
+      billingCompanyName: null,
+      billingVatNumber: null,
+      billingAddress: 'Str. Lunga 5',
+      billingCity: 'Cluj-Napoca',
+      billingRegion: 'RO-CJ',
+      ...winner,
+    },
+    ...overrides,
+  }
+}
+
+function createMockStorage(): IStorageService {
+  return {
+    uploadToR2: vi.fn(async (_file: Buffer, key: string) => ({ key, url: `https://r2/${key}`, size: 1 })),
+    deleteFromR2: vi.fn(),
+    getSignedUploadUrl: vi.fn(),
+    getSignedDownloadUrl: vi.fn(async (key: string) => `https://signed/${key}`),
+    generateMediaKey: vi.fn(),
+    generateThumbnailKey: vi.fn(),
+  }
+}
+
+describe('InvoiceService', () => {
+  let service: InvoiceService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let storage: IStorageService
+  const getExchangeRate = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    storage = createMockStorage()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.invoice.findUnique).mockResolvedValue(null)
+    vi.mocked(mockPrisma.invoiceSequence.upsert).mockResolvedValue({ lastValue: 42 } as any)
+    vi.mocked(mockPrisma.invoice.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'invoice-1', issuedAt: new Date('2026-10-19'), pdfKey: null, xmlKey: null, ...data }) as any
+    )
+    vi.mocked(mockPrisma.invoice.update).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'invoice-1', ...data }) as any
+    )
+    service = new InvoiceService(mockPrisma, storage, getExchangeRate)
+  })
+
+  describe('issueBuyerFeeInvoice', () => {
+    it('should number the invoice and back Romanian VAT out of the fee', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(paidAuction() as any)
+
+      await service.issueBuyerFeeInvoice('auction-123')
+
+      expect(mockPrisma.invoiceSequence.upsert).toHaveBeenCalledWith({
+        where: { series: 'FND' },
+        create: { series: 'FND', lastValue: 1 },
+        update: { lastValue: { increment: 1 } },
+      })
+      expect(mockPrisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sequence: 42,
+          number: 'FND-000042',
+          vatTreatment: 'STANDARD',
+          vatRate: 21,
+          netAmount: 1000,
+          vatAmount: 210,
+          totalAmount: 1210,
+          exchangeRate: null,
+        }),
+      })
+      expect(storage.uploadToR2).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'invoices/2026/FND-000042.pdf',
+        'application/pdf'
+      )
+      expect(storage.uploadToR2).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        'invoices/2026/FND-000042.xml',
+        'application/xml'
+      )
+    })
+
+    it('should reverse charge an EU business outside Romania', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        paidAuction(
+          { currency: 'EUR' },
+          { country: 'DE', billingCompanyName: 'Oldtimer GmbH', billingVatNumber: 'DE123456789' }
+        ) as any
+      )
+      getExchangeRate.mockResolvedValue({ rate: 4.97, rateDate: new Date('2026-10-16') })
+
+      await service.issueBuyerFeeInvoice('auction-123')
+
+      expect(mockPrisma.invoice.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          vatTreatment: 'REVERSE_CHARGE',
+          vatRate: 0,
+          netAmount: 1210,
+          vatAmount: 0,
+          exchangeRate: 4.97,
+          exchangeRateDate: new Date('2026-10-16'),
+          buyerName: 'Oldtimer GmbH',
+          buyerVatNumber: 'DE123456789',
+        }),
+      })
+    })
+
+    it('should return the existing invoice instead of numbering a new one', async () => {
+      vi.mocked(mockPrisma.invoice.findUnique).mockResolvedValue({ id: 'invoice-1' } as any)
+
+      const invoice = await service.issueBuyerFeeInvoice('auction-123')
+
+      expect(invoice).toEqual({ id: 'invoice-1' })
+      expect(mockPrisma.invoiceSequence.upsert).not.toHaveBeenCalled()
+    })
+
+    it('should refuse an unpaid fee', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        paidAuction({ paymentStatus: 'PENDING' }) as any
+      )
+
+      await expect(service.issueBuyerFeeInvoice('auction-123')).rejects.toThrow(ValidationError)
+    })
+
+    it('should keep the invoice when storage is down', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(paidAuction() as any)
+      vi.mocked(storage.uploadToR2).mockRejectedValue(new Error('R2 unavailable'))
+
+      const invoice = await service.issueBuyerFeeInvoice('auction-123')
+
+      expect(invoice).toMatchObject({ number: 'FND-000042', pdfKey: null })
+    })
+  })
+
+  describe('getDownloadUrl', () => {
+    it('should hide other buyers\' invoices', async () => {
+      vi.mocked(mockPrisma.invoice.findUnique).mockResolvedValue({
+        id: 'invoice-1',
+        userId: 'buyer-1',
+      } as any)
+
+      await expect(
+        service.getDownloadUrl('invoice-1', 'pdf', { userId: 'buyer-2', isAdmin: false })
+      ).rejects.toThrow('Invoice not found')
+    })
+  })
+
+  describe('renderers', () => {
+    const invoice = {
+      id: 'invoice-1',
+      number: 'FND-000042',
+      issuedAt: new Date('2026-10-19'),
+      description: 'Comision cumparator / Buyer fee: 1967 Porsche 911S (ediție)',
+      currency: 'EUR',
+      netAmount: 1210,
+      vatTreatment: 'REVERSE_CHARGE',
+      vatRate: 0,
+      vatAmount: 0,
+      totalAmount: 1210,
+      exchangeRate: 4.97,
+      paymentMeans: 'CARD',
+      buyerName: 'Oldtimer GmbH',
+      buyerEmail: 'buyer@example.com',
+      buyerCountry: 'DE',
+      buyerVatNumber: 'DE123456789',
+      buyerAddress: 'Hauptstr. 1',
+      buyerCity: 'Berlin',
+      buyerRegion: null,
+    } as any
+
+    it('should produce a CIUS-RO reverse charge invoice', () => {
+      const xml = renderInvoiceUbl(invoice)
+
+      expect(xml).toContain(`<cbc:CustomizationID>${CIUS_RO_CUSTOMIZATION_ID}</cbc:CustomizationID>`)
+      expect(xml).toContain('<cbc:TaxCurrencyCode>RON</cbc:TaxCurrencyCode>')
+      expect(xml).toContain('<cbc:TaxExemptionReasonCode>VATEX-EU-AE</cbc:TaxExemptionReasonCode>')
+      expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">0.00</cbc:PayableAmount>')
+      expect(xml).toContain('<cbc:PaymentMeansCode>48</cbc:PaymentMeansCode>')
+    })
+
+    it('should give bank transfer payments the credit transfer code', () => {
+      const xml = renderInvoiceUbl({ ...invoice, paymentMeans: 'CREDIT_TRANSFER' })
+
+      expect(xml).toContain('<cbc:PaymentMeansCode>58</cbc:PaymentMeansCode>')
+    })
+
+    it('should write a PDF with the invoice number', () => {
+      const pdf = renderInvoicePdf(invoice).toString('latin1')
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+      expect(pdf).toContain('(Nr. / No.: FND-000042) Tj')
+      expect(pdf).toContain('911S \\(editie\\)')
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { ListingRevisionService } from '@/services/listing-revision.service'
+import { snapshotListing } from '@/domain/listing/revisions'
+import { NotFoundError } from '@/lib/errors'
+import { createMockPrisma } from '../helpers/test-utils'
+
+// Revision numbering under concurrent edits relies on lockListingRow, which
+// only a real database can check; it is mocked out and untested
+vi.mock('@/lib/db-lock', () => ({
+  lockListingRow: vi.fn(),
+}))
+
+function photo(id: string, position: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    type: 'PHOTO',
+    publicUrl: `https://cdn.example.com/${id}.jpg`,
+    category: 'exterior_front',
+    caption: null,
+    position,
+    isPrimary: position === 0,
+    ...overrides,
+  }
+}
+
+function listing(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'listing-1',
+    sellerId: 'seller-1',
+    title: '1972 Dacia 1300 in original condition',
+    description: 'Original paint.',
+    category: 'CLASSIC_CAR',
+    make: 'Dacia',
+    model: '1300',
+    year: 1972,
+    mileage: 84000,
+    mileageUnit: 'km',
+    vin: null,
+    registrationCountry: 'RO',
+    conditionRating: 7,
+    conditionNotes: null,
+    knownIssues: null,
+    isRunning: true,
+    conditionOverall: null,
+    conditionOverallNotes: null,
+    conditionPaintBody: null,
+    conditionPaintBodyNotes: null,
+    conditionInterior: null,
+    conditionInteriorNotes: null,
+    conditionFrame: null,
+    conditionFrameNotes: null,
+    conditionMechanical: null,
+    conditionMechanicalNotes: null,
+    locationCountry: 'RO',
+    locationCity: 'Cluj-Napoca',
+    locationRegion: null,
+    startingPrice: new Prisma.Decimal(5000),
+    reservePrice: new Prisma.Decimal(8000),
+    currency: 'EUR',
+    media: [photo('p1', 0), photo('p2', 1), photo('p3', 2)],
+    ...overrides,
+  }
+}
+
+function revision(number: number, snapshotOf: ReturnType<typeof listing>, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `revision-${number}`,
+    listingId: 'listing-1',
+    number,
+    source: 'SUBMISSION',
+    authorId: 'seller-1',
+    author: { id: 'seller-1', name: 'Seller', email: 'seller@example.com' },
+    snapshot: snapshotListing(snapshotOf),
+    changedFields: [],
+    reviewedById: null,
+    reviewedAt: null,
+    createdAt: new Date('2026-10-19T10:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('ListingRevisionService', () => {
+  let service: ListingRevisionService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+
+  beforeEach(() => {
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.listingRevision.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'revision-new', ...data }) as any
+    )
+    service = new ListingRevisionService(mockPrisma)
+  })
+
+  describe('record', () => {
+    it('should number the first revision 1 and credit the seller', async () => {
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(listing() as any)
+      vi.mocked(mockPrisma.listingRevision.findFirst).mockResolvedValue(null)
+
+      const recorded = await service.record('listing-1', 'SUBMISSION')
+
+      expect(recorded).toMatchObject({ number: 1, source: 'SUBMISSION', authorId: 'seller-1' })
+      expect(recorded.changedFields).toContain('media')
+    })
+
+    it('should add no revision when nothing changed', async () => {
+      const latest = revision(3, listing())
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(listing() as any)
+      vi.mocked(mockPrisma.listingRevision.findFirst).mockResolvedValue(latest as any)
+
+      const recorded = await service.record('listing-1', 'SUBMISSION', 'seller-1')
+
+      expect(recorded).toBe(latest)
+      expect(mockPrisma.listingRevision.create).not.toHaveBeenCalled()
+    })
+
+    it('should list the changed fields and photos of a new revision', async () => {
+      vi.mocked(mockPrisma.listing.findUnique).mockResolvedValue(
+        listing({
+          reservePrice: new Prisma.Decimal(7000),
+          media: [photo('p2', 0), photo('p1', 1), photo('p3', 2)],
+        }) as any
+      )
+      vi.mocked(mockPrisma.listingRevision.findFirst).mockResolvedValue(revision(3, listing()) as any)
+
+      const recorded = await service.record('listing-1', 'ADMIN', 'admin-1')
+
+      expect(recorded).toMatchObject({
+        number: 4,
+        source: 'ADMIN',
+        authorId: 'admin-1',
+        changedFields: ['reservePrice', 'media'],
+      })
+    })
+  })
+
+  describe('getReviewDiff', () => {
+    it('should diff against the revision this reviewer last reviewed', async () => {
+      const resubmitted = listing({
+        title: '1972 Dacia 1300, restored',
+        media: [photo('p3', 0), photo('p1', 1), photo('p4', 2)],
+      })
+      vi.mocked(mockPrisma.listingRevision.findMany).mockResolvedValue([
+        revision(5, resubmitted),
+        revision(4, listing({ knownIssues: 'Rust on sills' }), {
+          reviewedById: 'reviewer-2',
+          reviewedAt: new Date(),
+        }),
+        revision(2, listing(), { reviewedById: 'reviewer-1', reviewedAt: new Date() }),
+      ] as any)
+
+      const review = await service.getReviewDiff('listing-1', 'reviewer-1')
+
+      expect(review).toMatchObject({ current: 5, baseline: 2 })
+      expect(review.diff?.fields).toEqual([
+        { field: 'title', before: '1972 Dacia 1300 in original condition', after: '1972 Dacia 1300, restored' },
+      ])
+      expect(review.diff?.media.added.map((m) => m.id)).toEqual(['p4'])
+      expect(review.diff?.media.removed.map((m) => m.id)).toEqual(['p2'])
+      expect(review.diff?.media.reordered).toEqual([
+        expect.objectContaining({ from: 3, to: 1 }),
+        expect.objectContaining({ from: 1, to: 2 }),
+      ])
+      expect(review.revisions[0]).not.toHaveProperty('snapshot')
+    })
+
+    it('should fall back to the last review by anybody', async () => {
+      vi.mocked(mockPrisma.listingRevision.findMany).mockResolvedValue([
+        revision(5, listing({ knownIssues: null })),
+        revision(4, listing({ knownIssues: 'Rust on sills' }), {
+          reviewedById: 'reviewer-2',
+          reviewedAt: new Date(),
+        }),
+      ] as any)
+
+      const review = await service.getReviewDiff('listing-1', 'reviewer-1')
+
+      expect(review.baseline).toBe(4)
+      expect(review.diff?.fields).toEqual([{ field: 'knownIssues', before: 'Rust on sills', after: null }])
+    })
+
+    it('should have nothing to compare on a first submission', async () => {
+      vi.mocked(mockPrisma.listingRevision.findMany).mockResolvedValue([revision(1, listing())] as any)
+
+      const review = await service.getReviewDiff('listing-1', 'reviewer-1')
+
+      expect(review).toMatchObject({ current: 1, baseline: null, diff: null })
+    })
+
+    it('should reject a revision that does not exist', async () => {
+      vi.mocked(mockPrisma.listingRevision.findMany).mockResolvedValue([revision(1, listing())] as any)
+
+      await expect(service.getReviewDiff('listing-1', 'reviewer-1', 7)).rejects.toThrow(NotFoundError)
+    })
+  })
+})
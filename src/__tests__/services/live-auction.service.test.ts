@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    auction: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    auctioneerEvent: {
+      create: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/pusher', () => ({
+  CHANNELS: { auction: (id: string) => `auction-${id}` },
+  getChannelSubscriptionCount: vi.fn(async () => 12),
+}))
+
+vi.mock('@/services/auction.service', () => ({
+  endAuction: vi.fn(),
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  broadcastAuctioneerCall: vi.fn(),
+  broadcastAuctionEnded: vi.fn(),
+}))
+
+// Import after mocking
+import { prisma } from '@/lib/db'
+import { endAuction } from '@/services/auction.service'
+import { broadcastAuctioneerCall, broadcastAuctionEnded } from '@/services/notification.service'
+import { makeAuctioneerCall } from '@/services/live-auction.service'
+import { canMakeAuctioneerCall } from '@/domain/auction/rules'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+function liveAuction(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'auction-123',
+    status: 'ACTIVE',
+    liveFinale: true,
+    liveCall: null,
+    currentBid: 125000,
+    bidCount: 31,
+    currentEndTime: new Date(Date.now() - 60 * 1000),
+    ...overrides,
+  }
+}
+
+describe('Live Auction Service', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.$transaction).mockImplementation((fn: any) => fn(prisma))
+    vi.mocked(prisma.auction.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(prisma.auctioneerEvent.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'event-1', createdAt: new Date(), ...data }) as any
+    )
+  })
+
+  describe('canMakeAuctioneerCall', () => {
+    it('should follow fair warning, going once, going twice, sold', () => {
+      expect(canMakeAuctioneerCall(null, 'FAIR_WARNING')).toBe(true)
+      expect(canMakeAuctioneerCall('FAIR_WARNING', 'GOING_ONCE')).toBe(true)
+      expect(canMakeAuctioneerCall(null, 'GOING_ONCE')).toBe(true)
+      expect(canMakeAuctioneerCall('GOING_ONCE', 'GOING_TWICE')).toBe(true)
+      expect(canMakeAuctioneerCall('GOING_TWICE', 'SOLD')).toBe(true)
+    })
+
+    it('should not skip calls', () => {
+      expect(canMakeAuctioneerCall(null, 'SOLD')).toBe(false)
+      expect(canMakeAuctioneerCall('GOING_ONCE', 'SOLD')).toBe(false)
+      expect(canMakeAuctioneerCall('FAIR_WARNING', 'GOING_TWICE')).toBe(false)
+    })
+  })
+
+  describe('makeAuctioneerCall', () => {
+    it('should record the call as an auction event and broadcast it', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(liveAuction() as any)
+
+      const { event } = await makeAuctioneerCall('auction-123', 'staff-1', 'GOING_ONCE')
+
+      expect(event).toMatchObject({ call: 'GOING_ONCE', actorId: 'staff-1', bidCount: 31 })
+      expect(prisma.auction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auction-123', status: 'ACTIVE', liveCall: null },
+        data: { liveCall: 'GOING_ONCE' },
+      })
+      expect(broadcastAuctioneerCall).toHaveBeenCalledWith(
+        expect.objectContaining({ auctionId: 'auction-123', call: 'GOING_ONCE' })
+      )
+      expect(endAuction).not.toHaveBeenCalled()
+    })
+
+    it('should only run on auctions opted in to a live finale', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(
+        liveAuction({ liveFinale: false }) as any
+      )
+
+      await expect(
+        makeAuctioneerCall('auction-123', 'staff-1', 'FAIR_WARNING')
+      ).rejects.toMatchObject({ code: ERROR_CODES.LIVE_FINALE_NOT_ENABLED })
+    })
+
+    it('should reject calls out of order', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(
+        liveAuction({ liveCall: 'GOING_ONCE' }) as any
+      )
+
+      await expect(makeAuctioneerCall('auction-123', 'staff-1', 'SOLD')).rejects.toMatchObject({
+        code: ERROR_CODES.AUCTIONEER_CALL_OUT_OF_ORDER,
+      })
+    })
+
+    it('should refuse the call when a bid reset the sequence meanwhile', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(
+        liveAuction({ liveCall: 'GOING_ONCE' }) as any
+      )
+      vi.mocked(prisma.auction.updateMany).mockResolvedValue({ count: 0 })
+
+      await expect(
+        makeAuctioneerCall('auction-123', 'staff-1', 'GOING_TWICE')
+      ).rejects.toMatchObject({ statusCode: 409 })
+      expect(prisma.auctioneerEvent.create).not.toHaveBeenCalled()
+    })
+
+    it('should end the auction on sold even though the timer has passed', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(
+        liveAuction({ liveCall: 'GOING_TWICE' }) as any
+      )
+      vi.mocked(endAuction).mockResolvedValue({
+        id: 'auction-123',
+        status: 'SOLD',
+        finalPrice: 125000,
+        winnerId: 'bidder-1',
+      } as any)
+
+      const { auction } = await makeAuctioneerCall('auction-123', 'staff-1', 'SOLD')
+
+      expect(endAuction).toHaveBeenCalledWith('auction-123')
+      expect(auction.status).toBe('SOLD')
+      expect(broadcastAuctionEnded).toHaveBeenCalledWith({
+        auctionId: 'auction-123',
+        status: 'SOLD',
+        finalPrice: 125000,
+        winnerId: 'bidder-1',
+      })
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { timeUtils } from '../helpers/test-utils'
+
+vi.mock('@/lib/db', () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    auction: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    auctionOffer: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    listing: {
+      update: vi.fn(),
+    },
+  },
+}))
+
+vi.mock('@/lib/audit', () => ({
+  AuctionAuditLogger: class {
+    logNegotiationOffer = vi.fn()
+    logNegotiationResolved = vi.fn()
+  },
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notifyNegotiationOffer: vi.fn(),
+  notifyAuctionWon: vi.fn(),
+}))
+
+// Import after mocking
+import { prisma } from '@/lib/db'
+import { makeOffer, respondToOffer } from '@/services/negotiation.service'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+function noSaleAuction(offers: Record<string, unknown>[] = []) {
+  return {
+    id: 'auction-123',
+    listingId: 'listing-123',
+    status: 'NO_SALE',
+    currency: 'EUR',
+    negotiationEndsAt: timeUtils.addHours(new Date(), 24),
+    listing: { sellerId: 'seller-1', title: '1972 Alfa Romeo GTV' },
+    bids: [{ id: 'bid-1', bidderId: 'buyer-1', amount: 47500 }],
+    offers,
+  }
+}
+
+function offer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'offer-1',
+    auctionId: 'auction-123',
+    buyerId: 'buyer-1',
+    madeBy: 'BUYER',
+    amount: 48500,
+    status: 'PENDING',
+    ...overrides,
+  }
+}
+
+describe('Negotiation Service', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.$transaction).mockImplementation((fn: any) => fn(prisma))
+    vi.mocked(prisma.auctionOffer.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'offer-2', status: 'PENDING', ...data }) as any
+    )
+    vi.mocked(prisma.auctionOffer.update).mockImplementation(
+      ({ where, data }: any) => Promise.resolve(offer({ id: where.id, ...data })) as any
+    )
+  })
+
+  describe('makeOffer', () => {
+    it('should reject offers below the high bid', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(noSaleAuction() as any)
+
+      await expect(makeOffer('auction-123', 'buyer-1', 47000)).rejects.toMatchObject({
+        code: ERROR_CODES.OFFER_TOO_LOW,
+      })
+    })
+
+    it('should only let the seller and high bidder negotiate', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(noSaleAuction() as any)
+
+      await expect(makeOffer('auction-123', 'stranger', 50000)).rejects.toMatchObject({
+        statusCode: 403,
+      })
+    })
+
+    it('should reject a second offer while the first awaits a response', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(noSaleAuction([offer()]) as any)
+
+      await expect(makeOffer('auction-123', 'buyer-1', 49000)).rejects.toMatchObject({
+        code: ERROR_CODES.OFFER_AWAITING_RESPONSE,
+      })
+    })
+
+    it('should mark the pending offer as countered', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(noSaleAuction([offer()]) as any)
+
+      const counter = await makeOffer('auction-123', 'seller-1', 49500)
+
+      expect(prisma.auctionOffer.update).toHaveBeenCalledWith({
+        where: { id: 'offer-1' },
+        data: expect.objectContaining({ status: 'COUNTERED' }),
+      })
+      expect(counter).toMatchObject({ madeBy: 'SELLER', amount: 49500, buyerId: 'buyer-1' })
+    })
+
+    it('should reject offers after the window closed', async () => {
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue({
+        ...noSaleAuction(),
+        negotiationEndsAt: timeUtils.addHours(new Date(), -1),
+      } as any)
+
+      await expect(makeOffer('auction-123', 'buyer-1', 48000)).rejects.toMatchObject({
+        code: ERROR_CODES.NEGOTIATION_CLOSED,
+      })
+    })
+  })
+
+  describe('respondToOffer', () => {
+    it('should convert the auction to SOLD when the seller accepts', async () => {
+      vi.mocked(prisma.auctionOffer.findUnique).mockResolvedValue(offer() as any)
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(noSaleAuction([offer()]) as any)
+      vi.mocked(prisma.auction.updateMany).mockResolvedValue({ count: 1 })
+
+      const accepted = await respondToOffer('auction-123', 'offer-1', 'seller-1', 'accept')
+
+      expect(accepted.status).toBe('ACCEPTED')
+      expect(prisma.auction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auction-123', status: 'NO_SALE' },
+        data: expect.objectContaining({
+          status: 'SOLD',
+          winnerId: 'buyer-1',
+          winningBidId: 'bid-1',
+          finalPrice: 48500,
+          buyerFeeAmount: 2425,
+          paymentStatus: 'UNPAID',
+          paymentDeadline: expect.any(Date),
+        }),
+      })
+      expect(prisma.listing.update).toHaveBeenCalledWith({
+        where: { id: 'listing-123' },
+        data: { status: 'SOLD' },
+      })
+    })
+
+    it('should not let a party answer their own offer', async () => {
+      vi.mocked(prisma.auctionOffer.findUnique).mockResolvedValue(offer() as any)
+      vi.mocked(prisma.auction.findUnique).mockResolvedValue(noSaleAuction([offer()]) as any)
+
+      await expect(
+        respondToOffer('auction-123', 'offer-1', 'buyer-1', 'accept')
+      ).rejects.toMatchObject({ statusCode: 403 })
+      expect(prisma.auction.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
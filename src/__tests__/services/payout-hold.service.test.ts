@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PayoutHoldService, HoldSubject } from '@/services/payout-hold.service'
+import { ConflictError, ValidationError } from '@/lib/errors'
+import { createMockPrisma } from '../helpers/test-utils'
+
+const config = vi.hoisted(() => ({
+  AUCTION_CONFIG: {
+    payoutHoldDays: 0,
+    payoutHoldUntilHandover: false,
+    payoutFirstSaleManualRelease: false,
+  },
+}))
+
+vi.mock('@/config/auction.config', () => config)
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+
+function subject(overrides: Partial<HoldSubject> = {}): HoldSubject {
+  return {
+    id: 'auction-123',
+    paidAt: new Date('2026-10-15T12:00:00Z'),
+    handoverConfirmedAt: null,
+    hasEscrow: false,
+    sellerId: 'seller-1',
+    ...overrides,
+  }
+}
+
+describe('PayoutHoldService', () => {
+  let service: PayoutHoldService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    Object.assign(config.AUCTION_CONFIG, {
+      payoutHoldDays: 0,
+      payoutHoldUntilHandover: false,
+      payoutFirstSaleManualRelease: false,
+    })
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.fraudAlert.count).mockResolvedValue(0)
+    vi.mocked(mockPrisma.payoutHold.updateMany).mockResolvedValue({ count: 0 })
+    vi.mocked(mockPrisma.payoutHold.findMany).mockResolvedValue([])
+    service = new PayoutHoldService(mockPrisma)
+  })
+
+  describe('evaluate', () => {
+    it('should hold the payout for the configured days after payment', async () => {
+      config.AUCTION_CONFIG.payoutHoldDays = 7
+
+      await service.evaluate(subject(), NOW)
+
+      expect(mockPrisma.payoutHold.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            auctionId: 'auction-123',
+            reason: 'HOLDING_PERIOD',
+            releaseAt: new Date('2026-10-22T12:00:00Z'),
+          },
+        ],
+        skipDuplicates: true,
+      })
+      expect(mockPrisma.payoutHold.updateMany).toHaveBeenLastCalledWith({
+        where: {
+          auctionId: 'auction-123',
+          releasedAt: null,
+          OR: [{ reason: 'HOLDING_PERIOD', releaseAt: { lte: NOW } }],
+        },
+        data: { releasedAt: NOW },
+      })
+    })
+
+    it('should hold a first-time seller for manual release and skip handover under escrow', async () => {
+      config.AUCTION_CONFIG.payoutHoldUntilHandover = true
+      config.AUCTION_CONFIG.payoutFirstSaleManualRelease = true
+      vi.mocked(mockPrisma.auction.count).mockResolvedValue(0)
+
+      await service.evaluate(subject({ hasEscrow: true }), NOW)
+
+      expect(mockPrisma.payoutHold.createMany).toHaveBeenCalledWith({
+        data: [{ auctionId: 'auction-123', reason: 'FIRST_SALE' }],
+        skipDuplicates: true,
+      })
+    })
+
+    it('should put the payout on hold while the auction has open fraud alerts', async () => {
+      vi.mocked(mockPrisma.fraudAlert.count).mockResolvedValue(1)
+
+      await service.evaluate(subject(), NOW)
+
+      expect(mockPrisma.fraudAlert.count).toHaveBeenCalledWith({
+        where: { auctionId: 'auction-123', status: { in: ['OPEN', 'INVESTIGATING'] } },
+      })
+      expect(mockPrisma.payoutHold.upsert).toHaveBeenCalledWith({
+        where: { auctionId_reason: { auctionId: 'auction-123', reason: 'FRAUD_ALERT' } },
+        create: { auctionId: 'auction-123', reason: 'FRAUD_ALERT' },
+        update: { releasedAt: null, releasedById: null, releaseNote: null },
+      })
+      expect(mockPrisma.payoutHold.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('release', () => {
+    it('should not release a fraud hold by hand', async () => {
+      vi.mocked(mockPrisma.payoutHold.findUnique).mockResolvedValue({
+        id: 'hold-1',
+        auctionId: 'auction-123',
+        reason: 'FRAUD_ALERT',
+        releasedAt: null,
+      } as any)
+
+      await expect(service.release('hold-1', 'admin-1')).rejects.toThrow(ValidationError)
+      expect(mockPrisma.payoutHold.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should not release a hold twice', async () => {
+      vi.mocked(mockPrisma.payoutHold.findUnique).mockResolvedValue({
+        id: 'hold-1',
+        auctionId: 'auction-123',
+        reason: 'FIRST_SALE',
+        releasedAt: NOW,
+      } as any)
+
+      await expect(service.release('hold-1', 'admin-1', 'Verified seller')).rejects.toThrow(ConflictError)
+    })
+  })
+})
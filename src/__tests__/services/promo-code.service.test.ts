@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import { PromoCodeService } from '@/services/promo-code.service'
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/errors'
+import { lockPromoCodeRow } from '@/lib/db-lock'
+import { createMockPrisma } from '../helpers/test-utils'
+
+// The promo code row lock is a raw query with no test against a real database;
+// these tests only check that redeem takes it
+vi.mock('@/lib/db-lock', () => ({
+  lockPromoCodeRow: vi.fn(),
+}))
+
+function promoCode(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'promo-1',
+    code: 'WEEKEND0',
+    target: 'BUYER_FEE',
+    discountType: 'PERCENT',
+    discountValue: 100,
+    startsAt: null,
+    endsAt: null,
+    maxRedemptions: null,
+    perUserLimit: 1,
+    categories: [],
+    active: true,
+    ...overrides,
+  }
+}
+
+function auction(overrides: Record<string, unknown> = {}) {
+  return {
+    status: 'ACTIVE',
+    winnerId: null,
+    paymentStatus: 'UNPAID',
+    sellerPayoutStatus: null,
+    listing: { sellerId: 'seller-1', category: 'CLASSIC_CAR' },
+    ...overrides,
+  }
+}
+
+describe('PromoCodeService', () => {
+  let service: PromoCodeService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue(null)
+    vi.mocked(mockPrisma.promoRedemption.count).mockResolvedValue(0)
+    vi.mocked(mockPrisma.promoRedemption.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'redemption-1', ...data }) as any
+    )
+    service = new PromoCodeService(mockPrisma)
+  })
+
+  describe('redeem', () => {
+    it('should attach a buyer fee code to a bidder on an open auction', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(promoCode() as any)
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(auction() as any)
+
+      await service.redeem(' weekend0 ', 'bidder-1', 'auction-123')
+
+      expect(mockPrisma.promoCode.findUnique).toHaveBeenCalledWith({ where: { code: 'WEEKEND0' } })
+      expect(lockPromoCodeRow).toHaveBeenCalledWith(expect.anything(), 'promo-1')
+      expect(mockPrisma.promoRedemption.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            promoCodeId: 'promo-1',
+            userId: 'bidder-1',
+            auctionId: 'auction-123',
+            target: 'BUYER_FEE',
+          },
+        })
+      )
+    })
+
+    it('should reject an inactive code', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(
+        promoCode({ active: false }) as any
+      )
+
+      await expect(service.redeem('WEEKEND0', 'bidder-1', 'auction-123')).rejects.toThrow(
+        NotFoundError
+      )
+    })
+
+    it('should reject a code outside its validity window', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(
+        promoCode({ endsAt: new Date('2020-01-01') }) as any
+      )
+
+      await expect(service.redeem('WEEKEND0', 'bidder-1', 'auction-123')).rejects.toThrow(
+        ValidationError
+      )
+    })
+
+    it('should reject a category the code does not cover', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(
+        promoCode({ categories: ['MOTORCYCLE'] }) as any
+      )
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(auction() as any)
+
+      await expect(service.redeem('WEEKEND0', 'bidder-1', 'auction-123')).rejects.toThrow(
+        'This promo code does not apply to this category'
+      )
+    })
+
+    it('should not let the seller use a buyer fee code', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(promoCode() as any)
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(auction() as any)
+
+      await expect(service.redeem('WEEKEND0', 'seller-1', 'auction-123')).rejects.toThrow(
+        ValidationError
+      )
+      expect(mockPrisma.promoRedemption.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject a code that reached its usage cap', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(
+        promoCode({ maxRedemptions: 50 }) as any
+      )
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(auction() as any)
+      vi.mocked(mockPrisma.promoRedemption.count).mockResolvedValue(50)
+
+      await expect(service.redeem('WEEKEND0', 'bidder-1', 'auction-123')).rejects.toThrow(
+        'This promo code has been used up'
+      )
+    })
+
+    it('should allow one code per fee', async () => {
+      vi.mocked(mockPrisma.promoCode.findUnique).mockResolvedValue(promoCode() as any)
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(auction() as any)
+      vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue({
+        id: 'redemption-0',
+      } as any)
+
+      await expect(service.redeem('WEEKEND0', 'bidder-1', 'auction-123')).rejects.toThrow(
+        ConflictError
+      )
+    })
+  })
+
+  describe('applyToBuyerFee', () => {
+    it('should take a pending discount off the auction fee once', async () => {
+      vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue({
+        id: 'redemption-1',
+        appliedAt: null,
+        discountAmount: null,
+        promoCode: { code: 'HALFOFF', discountType: 'PERCENT', discountValue: 50 },
+      } as any)
+      vi.mocked(mockPrisma.promoRedemption.updateMany).mockResolvedValue({ count: 1 })
+
+      const result = await service.applyToBuyerFee('auction-123', 'buyer-1', 500)
+
+      expect(result.buyerFee).toBe(250)
+      expect(mockPrisma.promoRedemption.updateMany).toHaveBeenCalledWith({
+        where: { id: 'redemption-1', appliedAt: null },
+        data: { appliedAt: expect.any(Date), discountAmount: 250 },
+      })
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: { buyerFeeAmount: 250 },
+      })
+    })
+
+    it('should leave an already discounted fee alone', async () => {
+      vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue({
+        id: 'redemption-1',
+        appliedAt: new Date(),
+        discountAmount: 250,
+        promoCode: { code: 'HALFOFF', discountType: 'PERCENT', discountValue: 50 },
+      } as any)
+
+      const result = await service.applyToBuyerFee('auction-123', 'buyer-1', 250)
+
+      expect(result.buyerFee).toBe(250)
+      expect(result.promo).toMatchObject({ discount: 250, applied: true })
+      expect(mockPrisma.auction.update).not.toHaveBeenCalled()
+    })
+
+    it('should cap a fixed discount at the fee', async () => {
+      vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue({
+        id: 'redemption-1',
+        appliedAt: null,
+        discountAmount: null,
+        promoCode: { code: 'FLAT1000', discountType: 'FIXED', discountValue: 1000 },
+        auction: { currency: 'EUR', fxRate: null },
+      } as any)
+      vi.mocked(mockPrisma.promoRedemption.updateMany).mockResolvedValue({ count: 1 })
+
+      const result = await service.applyToBuyerFee('auction-123', 'buyer-1', 500)
+
+      expect(result.buyerFee).toBe(0)
+    })
+
+    it('should convert a fixed discount at the sale rate', async () => {
+      vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue({
+        id: 'redemption-1',
+        appliedAt: null,
+        discountAmount: null,
+        promoCode: { code: 'FLAT50', discountType: 'FIXED', discountValue: 50 },
+        auction: { currency: 'HUF', fxRate: new Prisma.Decimal(395.2) },
+      } as any)
+      vi.mocked(mockPrisma.promoRedemption.updateMany).mockResolvedValue({ count: 1 })
+
+      const result = await service.applyToBuyerFee('auction-123', 'buyer-1', 150000)
+
+      expect(result.buyerFee).toBe(130240)
+      expect(mockPrisma.exchangeRate.findFirst).not.toHaveBeenCalled()
+    })
+
+    it('should leave a fixed discount unapplied without a rate to convert it', async () => {
+      vi.mocked(mockPrisma.promoRedemption.findUnique).mockResolvedValue({
+        id: 'redemption-1',
+        appliedAt: null,
+        discountAmount: null,
+        promoCode: { code: 'FLAT50', discountType: 'FIXED', discountValue: 50 },
+        auction: { currency: 'HUF', fxRate: null },
+      } as any)
+      vi.mocked(mockPrisma.exchangeRate.findFirst).mockResolvedValue(null)
+
+      const result = await service.applyToBuyerFee('auction-123', 'buyer-1', 150000)
+
+      expect(result).toEqual({ buyerFee: 150000, promo: null })
+      expect(mockPrisma.promoRedemption.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ReconciliationService } from '@/services/reconciliation.service'
+import { IPaymentProcessor, PaymentIntent } from '@/services/contracts/payment-processor.interface'
+import { ISellerPayoutService } from '@/services/contracts/payment.interface'
+import { ConflictError } from '@/lib/errors'
+import { createMockPrisma, createMockPaymentProcessor } from '../helpers/test-utils'
+
+vi.mock('@/services/invoice.service', () => ({
+  issueBuyerFeeInvoice: vi.fn(),
+}))
+
+vi.mock('@/services/escrow.service', () => ({
+  confirmEscrowFunding: vi.fn(),
+}))
+
+// Fake processor answering from what "Stripe" holds
+function createFakePaymentProcessor(
+  intents: Record<string, PaymentIntent['status']>,
+  transfers: Record<string, 'paid' | 'canceled'> = {}
+): IPaymentProcessor {
+  const processor = createMockPaymentProcessor()
+  vi.mocked(processor.retrievePaymentIntent).mockImplementation(async (id) => {
+    if (!intents[id]) {
+      throw Object.assign(new Error(`No such payment_intent: '${id}'`), { code: 'resource_missing' })
+    }
+    return { id, amount: 0, currency: 'eur', status: intents[id], clientSecret: null, metadata: {} }
+  })
+  vi.mocked(processor.retrieveTransfer).mockImplementation(async (id) => ({
+    id,
+    amount: 0,
+    currency: 'eur',
+    destination: 'acct_seller',
+    status: transfers[id],
+  }))
+  return processor
+}
+
+describe('ReconciliationService', () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let payouts: ISellerPayoutService
+
+  function reconcile(
+    intents: Record<string, PaymentIntent['status']>,
+    transfers?: Record<string, 'paid' | 'canceled'>
+  ) {
+    const service = new ReconciliationService(
+      mockPrisma,
+      createFakePaymentProcessor(intents, transfers),
+      payouts
+    )
+    return service.reconcile(new Date('2026-10-20T03:00:00Z'))
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    payouts = {
+      createSellerPayout: vi.fn().mockResolvedValue({ success: true }),
+      getSellerPayoutStatus: vi.fn(),
+      retrySellerPayout: vi.fn(),
+    }
+    vi.mocked(mockPrisma.reconciliationRun.create).mockResolvedValue({ id: 'run-1' } as any)
+    vi.mocked(mockPrisma.reconciliationRun.update).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'run-1', ...data }) as any
+    )
+    vi.mocked(mockPrisma.reconciliationIssue.findFirst).mockResolvedValue(null)
+    vi.mocked(mockPrisma.auction.findMany).mockResolvedValue([])
+    vi.mocked(mockPrisma.bidDeposit.findMany).mockResolvedValue([])
+    vi.mocked(mockPrisma.auction.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(mockPrisma.bidDeposit.updateMany).mockResolvedValue({ count: 1 })
+  })
+
+  it('should mark an auction paid when Stripe collected the buyer fee', async () => {
+    vi.mocked(mockPrisma.auction.findMany).mockResolvedValueOnce([
+      { id: 'auction-1', paymentStatus: 'PENDING', paymentIntentId: 'pi_fee' },
+    ] as any)
+
+    const run = await reconcile({ pi_fee: 'succeeded' })
+
+    expect(mockPrisma.auction.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: 'auction-1',
+        paymentIntentId: 'pi_fee',
+        paymentStatus: { in: ['UNPAID', 'PENDING', 'FAILED'] },
+      },
+      data: { paymentStatus: 'PAID', paidAt: expect.any(Date) },
+    })
+    expect(payouts.createSellerPayout).toHaveBeenCalledWith('auction-1')
+    expect(mockPrisma.reconciliationIssue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        kind: 'PAYMENT_NOT_RECORDED',
+        status: 'AUTO_FIXED',
+        localStatus: 'PENDING',
+        remoteStatus: 'succeeded',
+      }),
+    })
+    expect(run).toMatchObject({ checkedCount: 1, autoFixedCount: 1, openCount: 0 })
+  })
+
+  it('should release a held deposit whose hold was cancelled', async () => {
+    vi.mocked(mockPrisma.bidDeposit.findMany).mockResolvedValue([
+      { id: 'deposit-1', auctionId: 'auction-1', status: 'HELD', stripePaymentIntentId: 'pi_hold' },
+    ] as any)
+
+    await reconcile({ pi_hold: 'canceled' })
+
+    expect(mockPrisma.bidDeposit.updateMany).toHaveBeenCalledWith({
+      where: { id: 'deposit-1', status: 'HELD' },
+      data: { status: 'RELEASED', releasedAt: expect.any(Date) },
+    })
+  })
+
+  it('should raise a paid auction Stripe never collected for review', async () => {
+    vi.mocked(mockPrisma.auction.findMany).mockResolvedValueOnce([
+      { id: 'auction-1', paymentStatus: 'PAID', paymentIntentId: 'pi_fee' },
+    ] as any)
+
+    const run = await reconcile({ pi_fee: 'requires_payment_method' })
+
+    expect(mockPrisma.auction.updateMany).not.toHaveBeenCalled()
+    expect(mockPrisma.reconciliationIssue.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ kind: 'PAYMENT_NOT_COLLECTED', status: 'OPEN' }),
+    })
+    expect(run.openCount).toBe(1)
+  })
+
+  it('should not raise an issue that is still open from an earlier run', async () => {
+    vi.mocked(mockPrisma.bidDeposit.findMany).mockResolvedValue([
+      { id: 'deposit-1', auctionId: 'auction-1', status: 'HELD', stripePaymentIntentId: 'pi_gone' },
+    ] as any)
+    vi.mocked(mockPrisma.reconciliationIssue.findFirst).mockResolvedValue({ id: 'issue-1' } as any)
+
+    const run = await reconcile({})
+
+    expect(mockPrisma.reconciliationIssue.findFirst).toHaveBeenCalledWith({
+      where: expect.objectContaining({ kind: 'PROVIDER_RECORD_MISSING', status: 'OPEN' }),
+    })
+    expect(mockPrisma.reconciliationIssue.create).not.toHaveBeenCalled()
+    expect(run).toMatchObject({ checkedCount: 1, openCount: 0, errorCount: 0 })
+  })
+
+  it('should mark a reversed payout failed so it can be retried', async () => {
+    vi.mocked(mockPrisma.auction.findMany)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'auction-1', sellerPayoutStatus: 'completed', sellerPayoutId: 'tr_1' },
+      ] as any)
+
+    await reconcile({}, { tr_1: 'canceled' })
+
+    expect(mockPrisma.auction.updateMany).toHaveBeenCalledWith({
+      where: { id: 'auction-1', sellerPayoutStatus: 'completed', sellerPayoutId: 'tr_1' },
+      data: { sellerPayoutStatus: 'failed' },
+    })
+  })
+
+  describe('resolveIssue', () => {
+    it('should not resolve an issue twice', async () => {
+      vi.mocked(mockPrisma.reconciliationIssue.findUnique).mockResolvedValue({ id: 'issue-1' } as any)
+      vi.mocked(mockPrisma.reconciliationIssue.updateMany).mockResolvedValue({ count: 0 })
+      const service = new ReconciliationService(mockPrisma, createMockPaymentProcessor(), payouts)
+
+      await expect(service.resolveIssue('issue-1', 'admin-1', 'Refunded by hand')).rejects.toThrow(
+        ConflictError
+      )
+    })
+  })
+})
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { RefundService } from '@/services/refund.service'
+import { IPaymentProcessor } from '@/services/contracts/payment-processor.interface'
+import { ForbiddenError, PaymentError, ValidationError } from '@/lib/errors'
+import { notifyRefundIssued } from '@/services/notification.service'
+import { createMockPrisma, createMockPaymentProcessor, factories } from '../helpers/test-utils'
+
+vi.mock('@/lib/db-lock', () => ({
+  lockAuctionRow: vi.fn(),
+}))
+
+vi.mock('@/lib/audit', () => ({
+  PaymentAuditLogger: class {
+    logRefundRequested = vi.fn()
+    logRefundReviewed = vi.fn()
+    logRefundSucceeded = vi.fn()
+    logRefundFailed = vi.fn()
+  },
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notifyRefundIssued: vi.fn(async () => undefined),
+}))
+
+function paidAuction(overrides: Record<string, unknown> = {}) {
+  return {
+    ...factories.auction({ status: 'SOLD' }),
+    winnerId: 'buyer-1',
+    finalPrice: 10000,
+    buyerFeeAmount: 500,
+    paymentStatus: 'PAID',
+    paymentIntentId: 'pi_123',
+    sellerPayoutStatus: null,
+    escrow: null,
+    ...overrides,
+  }
+}
+
+function refund(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'refund-1',
+    auctionId: 'auction-123',
+    depositId: null,
+    target: 'BUYER_FEE',
+    amount: 200,
+    currency: 'EUR',
+    reason: 'Fee waived after late delivery',
+    paymentIntentId: 'pi_123',
+    stripeRefundId: null,
+    status: 'PROCESSING',
+    requestedById: 'admin-1',
+    ...overrides,
+  }
+}
+
+describe('RefundService', () => {
+  let service: RefundService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let mockProcessor: IPaymentProcessor
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    vi.mocked(mockPrisma.paymentRefund.aggregate).mockResolvedValue({ _sum: { amount: null } } as any)
+    vi.mocked(mockPrisma.paymentRefund.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(mockPrisma.paymentRefund.create).mockImplementation(
+      ({ data }: any) => Promise.resolve({ id: 'refund-1', ...data }) as any
+    )
+    vi.mocked(mockPrisma.paymentRefund.update).mockImplementation(
+      ({ data }: any) => Promise.resolve(refund(data)) as any
+    )
+    mockProcessor = createMockPaymentProcessor()
+    service = new RefundService(mockPrisma, mockProcessor)
+  })
+
+  describe('requestRefund', () => {
+    it('should refund a small amount straight away and notify the buyer', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(paidAuction() as any)
+      vi.mocked(mockProcessor.refundPayment).mockResolvedValue({
+        id: 're_1',
+        status: 'succeeded',
+      } as any)
+      vi.mocked(mockPrisma.paymentRefund.findUniqueOrThrow).mockResolvedValue({
+        ...refund({ stripeRefundId: 're_1', status: 'SUCCEEDED' }),
+        auction: { winnerId: 'buyer-1', finalPrice: 10000, buyerFeeAmount: 500, listing: { title: '1967 Porsche 911S' } },
+        deposit: null,
+      } as any)
+
+      const result = await service.requestRefund(
+        { auctionId: 'auction-123', target: 'BUYER_FEE', amount: 200, reason: 'Fee waived after late delivery' },
+        'admin-1'
+      )
+
+      expect(mockPrisma.paymentRefund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ amount: 200, status: 'PROCESSING', paymentIntentId: 'pi_123' }),
+      })
+      expect(mockProcessor.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentIntentId: 'pi_123', amount: 20000 })
+      )
+      expect(mockPrisma.paymentRefund.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refund-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'SUCCEEDED' }),
+      })
+      // A partial refund leaves the auction paid
+      expect(mockPrisma.auction.update).not.toHaveBeenCalled()
+      expect(notifyRefundIssued).toHaveBeenCalledWith(
+        'buyer-1',
+        'auction-123',
+        '1967 Porsche 911S',
+        200,
+        'EUR',
+        'BUYER_FEE'
+      )
+      expect(result.status).toBe('SUCCEEDED')
+    })
+
+    it('should hold a refund above the threshold for approval', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(paidAuction() as any)
+
+      const result = await service.requestRefund(
+        { auctionId: 'auction-123', target: 'BUYER_FEE', reason: 'Car not as described' },
+        'admin-1'
+      )
+
+      expect(result).toMatchObject({ amount: 10500, status: 'PENDING_APPROVAL' })
+      expect(mockProcessor.refundPayment).not.toHaveBeenCalled()
+    })
+
+    it('should only allow the buyer fee back once the seller payout started', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        paidAuction({ sellerPayoutStatus: 'completed' }) as any
+      )
+      vi.mocked(mockPrisma.paymentRefund.aggregate).mockResolvedValue({
+        _sum: { amount: 400 },
+      } as any)
+
+      await expect(
+        service.requestRefund(
+          { auctionId: 'auction-123', target: 'BUYER_FEE', amount: 150, reason: 'Goodwill gesture' },
+          'admin-1'
+        )
+      ).rejects.toThrow(ValidationError)
+      expect(mockPrisma.paymentRefund.create).not.toHaveBeenCalled()
+    })
+
+    it('should mark a forfeited deposit refunded once fully returned', async () => {
+      vi.mocked(mockPrisma.bidDeposit.findUnique).mockResolvedValue({
+        id: 'deposit-1',
+        auctionId: 'auction-123',
+        userId: 'bidder-1',
+        amount: 500,
+        currency: 'EUR',
+        status: 'FORFEITED',
+        stripePaymentIntentId: 'pi_dep',
+      } as any)
+      vi.mocked(mockProcessor.refundPayment).mockResolvedValue({
+        id: 're_2',
+        status: 'succeeded',
+      } as any)
+      vi.mocked(mockPrisma.paymentRefund.update).mockResolvedValue(
+        refund({ target: 'DEPOSIT', depositId: 'deposit-1', amount: 500, stripeRefundId: 're_2' }) as any
+      )
+      vi.mocked(mockPrisma.paymentRefund.findUniqueOrThrow).mockResolvedValue({
+        ...refund({ target: 'DEPOSIT', depositId: 'deposit-1', amount: 500, status: 'SUCCEEDED' }),
+        auction: { winnerId: 'buyer-1', finalPrice: 10000, buyerFeeAmount: 500, listing: { title: '1967 Porsche 911S' } },
+        deposit: { userId: 'bidder-1', amount: 500 },
+      } as any)
+      vi.mocked(mockPrisma.paymentRefund.aggregate)
+        .mockResolvedValueOnce({ _sum: { amount: null } } as any)
+        .mockResolvedValueOnce({ _sum: { amount: 500 } } as any)
+
+      await service.requestRefund(
+        { auctionId: 'auction-123', target: 'DEPOSIT', depositId: 'deposit-1', reason: 'Bank error, not a default' },
+        'admin-1'
+      )
+
+      expect(mockProcessor.refundPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentIntentId: 'pi_dep', amount: 50000 })
+      )
+      expect(mockPrisma.bidDeposit.update).toHaveBeenCalledWith({
+        where: { id: 'deposit-1' },
+        data: expect.objectContaining({ status: 'REFUNDED' }),
+      })
+      expect(notifyRefundIssued).toHaveBeenCalledWith(
+        'bidder-1',
+        'auction-123',
+        '1967 Porsche 911S',
+        500,
+        'EUR',
+        'DEPOSIT'
+      )
+    })
+
+    it('should record the failure when Stripe rejects the refund', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(paidAuction() as any)
+      vi.mocked(mockProcessor.refundPayment).mockRejectedValue(new Error('charge_already_refunded'))
+
+      await expect(
+        service.requestRefund(
+          { auctionId: 'auction-123', target: 'BUYER_FEE', amount: 200, reason: 'Fee waived' },
+          'admin-1'
+        )
+      ).rejects.toThrow(PaymentError)
+      expect(mockPrisma.paymentRefund.update).toHaveBeenCalledWith({
+        where: { id: 'refund-1' },
+        data: expect.objectContaining({ status: 'FAILED', failureReason: 'charge_already_refunded' }),
+      })
+    })
+  })
+
+  describe('reviewRefund', () => {
+    it('should not let an admin approve their own refund', async () => {
+      vi.mocked(mockPrisma.paymentRefund.findUnique).mockResolvedValue(
+        refund({ status: 'PENDING_APPROVAL', amount: 10500 }) as any
+      )
+
+      await expect(service.reviewRefund('refund-1', 'admin-1', 'APPROVE')).rejects.toThrow(
+        ForbiddenError
+      )
+      expect(mockProcessor.refundPayment).not.toHaveBeenCalled()
+    })
+
+    it('should refund in full on approval and mark the auction refunded', async () => {
+      vi.mocked(mockPrisma.paymentRefund.findUnique).mockResolvedValue(
+        refund({ status: 'PENDING_APPROVAL', amount: 10500 }) as any
+      )
+      vi.mocked(mockPrisma.paymentRefund.findUniqueOrThrow)
+        .mockResolvedValueOnce(refund({ amount: 10500 }) as any)
+        .mockResolvedValueOnce({
+          ...refund({ amount: 10500, stripeRefundId: 're_3' }),
+          auction: { winnerId: 'buyer-1', finalPrice: 10000, buyerFeeAmount: 500, listing: { title: '1967 Porsche 911S' } },
+          deposit: null,
+        } as any)
+        .mockResolvedValue(refund({ amount: 10500, stripeRefundId: 're_3', status: 'SUCCEEDED' }) as any)
+      vi.mocked(mockProcessor.refundPayment).mockResolvedValue({
+        id: 're_3',
+        status: 'succeeded',
+      } as any)
+      vi.mocked(mockPrisma.paymentRefund.aggregate).mockResolvedValue({
+        _sum: { amount: 10500 },
+      } as any)
+
+      await service.reviewRefund('refund-1', 'admin-2', 'APPROVE', 'Checked the inspection report')
+
+      expect(mockPrisma.paymentRefund.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refund-1', status: { in: ['PENDING_APPROVAL'] } },
+        data: expect.objectContaining({ status: 'PROCESSING', reviewedById: 'admin-2' }),
+      })
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: { paymentStatus: 'REFUNDED' },
+      })
+    })
+  })
+
+  describe('syncRefunds', () => {
+    it('should settle a pending refund once Stripe reports it succeeded', async () => {
+      vi.mocked(mockPrisma.paymentRefund.findMany).mockResolvedValue([
+        refund({ stripeRefundId: 're_4' }),
+      ] as any)
+      vi.mocked(mockProcessor.retrieveRefund).mockResolvedValue({
+        id: 're_4',
+        status: 'succeeded',
+      } as any)
+      vi.mocked(mockPrisma.paymentRefund.findUniqueOrThrow).mockResolvedValue({
+        ...refund({ stripeRefundId: 're_4', status: 'SUCCEEDED' }),
+        auction: { winnerId: 'buyer-1', finalPrice: 10000, buyerFeeAmount: 500, listing: { title: '1967 Porsche 911S' } },
+        deposit: null,
+      } as any)
+
+      const settled = await service.syncRefunds('pi_123')
+
+      expect(settled).toHaveLength(1)
+      expect(mockPrisma.paymentRefund.updateMany).toHaveBeenCalledWith({
+        where: { id: 'refund-1', status: 'PROCESSING' },
+        data: expect.objectContaining({ status: 'SUCCEEDED' }),
+      })
+    })
+  })
+})
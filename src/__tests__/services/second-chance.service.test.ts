@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SecondChanceService } from '@/services/second-chance.service'
+import { DepositService } from '@/services/deposit.service'
+import { AuctionStateError, InsufficientDepositError } from '@/lib/errors'
+import { createMockPrisma, factories } from '../helpers/test-utils'
+
+vi.mock('@/lib/audit', () => ({
+  AuctionAuditLogger: class {
+    logWinnerDefaulted = vi.fn()
+    logSecondChanceOffered = vi.fn()
+    logSecondChanceResolved = vi.fn()
+  },
+}))
+
+// The auction row lock is a raw query; what it guards is the offer claim below
+vi.mock('@/lib/db-lock', () => ({
+  lockAuctionRow: vi.fn(),
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notifySecondChanceOffer: vi.fn(async () => undefined),
+}))
+
+function soldAuction(overrides: Record<string, unknown> = {}) {
+  return {
+    ...factories.auction({ status: 'SOLD' }),
+    winnerId: 'winner-1',
+    listing: { title: '1967 Porsche 911S' },
+    secondChanceOffers: [],
+    ...overrides,
+  }
+}
+
+function pendingOffer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'offer-1',
+    auctionId: 'auction-123',
+    bidderId: 'runner-up',
+    bidId: 'bid-2',
+    amount: 9000,
+    rank: 2,
+    defaultedWinnerId: 'winner-1',
+    status: 'PENDING',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    respondedAt: null,
+    depositId: null,
+    ...overrides,
+  }
+}
+
+describe('SecondChanceService', () => {
+  let service: SecondChanceService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let mockDeposits: DepositService
+
+  beforeEach(() => {
+    mockPrisma = createMockPrisma()
+    vi.mocked(mockPrisma.$transaction).mockImplementation((fn: any) => fn(mockPrisma))
+    mockDeposits = {
+      getWinnerDeposit: vi.fn(),
+      forfeitDeposit: vi.fn(),
+      createBidDeposit: vi.fn(),
+      releaseBidDeposit: vi.fn(async () => true),
+    } as unknown as DepositService
+    service = new SecondChanceService(mockPrisma, mockDeposits)
+  })
+
+  describe('handleWinnerDefault', () => {
+    it('should forfeit the deposit and offer the car to the runner-up at their bid', async () => {
+      vi.mocked(mockPrisma.auction.findUnique)
+        .mockResolvedValueOnce({ winnerId: 'winner-1' } as any)
+        .mockResolvedValueOnce(soldAuction() as any)
+      vi.mocked(mockDeposits.getWinnerDeposit).mockResolvedValue({ id: 'deposit-1' } as any)
+      vi.mocked(mockDeposits.forfeitDeposit).mockResolvedValue({ success: true } as any)
+      vi.mocked(mockPrisma.bid.findFirst).mockResolvedValue(
+        factories.bid({ id: 'bid-2', bidderId: 'runner-up', amount: 9000 }) as any
+      )
+      vi.mocked(mockPrisma.secondChanceOffer.create).mockImplementation(
+        ({ data }: any) => Promise.resolve({ id: 'offer-1', ...data }) as any
+      )
+
+      const offer = await service.handleWinnerDefault('auction-123')
+
+      expect(mockDeposits.forfeitDeposit).toHaveBeenCalledWith('deposit-1', 'payment_deadline_missed')
+      expect(mockPrisma.bid.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ bidderId: { notIn: ['winner-1'] } }),
+        })
+      )
+      expect(offer).toMatchObject({
+        bidderId: 'runner-up',
+        amount: 9000,
+        rank: 2,
+        defaultedWinnerId: 'winner-1',
+      })
+    })
+  })
+
+  describe('offerToNextBidder', () => {
+    it('should stop once the maximum number of offers has been made', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        soldAuction({
+          secondChanceOffers: [
+            pendingOffer({ status: 'DECLINED' }),
+            pendingOffer({ id: 'offer-2', bidderId: 'third', rank: 3, status: 'EXPIRED' }),
+          ],
+        }) as any
+      )
+
+      const offer = await service.offerToNextBidder('auction-123', 'winner-1')
+
+      expect(offer).toBeNull()
+      expect(mockPrisma.secondChanceOffer.create).not.toHaveBeenCalled()
+    })
+
+    it('should not stack offers while one is still pending', async () => {
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        soldAuction({ secondChanceOffers: [pendingOffer()] }) as any
+      )
+
+      const offer = await service.offerToNextBidder('auction-123', 'winner-1')
+
+      expect(offer).toBeNull()
+      expect(mockPrisma.bid.findFirst).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('acceptOffer', () => {
+    it('should make the bidder the winner with a fresh fee and deadline', async () => {
+      vi.mocked(mockPrisma.secondChanceOffer.findUnique).mockResolvedValue(pendingOffer() as any)
+      vi.mocked(mockDeposits.createBidDeposit).mockResolvedValue({
+        success: true,
+        deposit: { id: 'deposit-2' },
+      } as any)
+      vi.mocked(mockPrisma.secondChanceOffer.updateMany).mockResolvedValue({ count: 1 })
+      vi.mocked(mockPrisma.secondChanceOffer.findUniqueOrThrow).mockResolvedValue(
+        pendingOffer({ status: 'ACCEPTED' }) as any
+      )
+
+      const offer = await service.acceptOffer('offer-1', 'runner-up')
+
+      expect(offer.status).toBe('ACCEPTED')
+      expect(mockPrisma.auction.update).toHaveBeenCalledWith({
+        where: { id: 'auction-123' },
+        data: expect.objectContaining({
+          winnerId: 'runner-up',
+          winningBidId: 'bid-2',
+          finalPrice: 9000,
+          buyerFeeAmount: 450,
+          paymentStatus: 'UNPAID',
+          paymentDeadline: expect.any(Date),
+        }),
+      })
+      expect(mockPrisma.secondChanceOffer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'offer-1', status: 'PENDING', expiresAt: { gt: expect.any(Date) } },
+        data: expect.objectContaining({ status: 'ACCEPTED', depositId: 'deposit-2' }),
+      })
+    })
+
+    it('should release the deposit when the offer closed in the meantime', async () => {
+      vi.mocked(mockPrisma.secondChanceOffer.findUnique).mockResolvedValue(pendingOffer() as any)
+      vi.mocked(mockDeposits.createBidDeposit).mockResolvedValue({
+        success: true,
+        deposit: { id: 'deposit-2' },
+      } as any)
+      vi.mocked(mockPrisma.secondChanceOffer.updateMany).mockResolvedValue({ count: 0 })
+      vi.mocked(mockPrisma.secondChanceOffer.findFirst).mockResolvedValue(null)
+
+      await expect(service.acceptOffer('offer-1', 'runner-up')).rejects.toThrow(AuctionStateError)
+      expect(mockPrisma.auction.update).not.toHaveBeenCalled()
+      expect(mockDeposits.releaseBidDeposit).toHaveBeenCalledWith('deposit-2')
+    })
+
+    it('should keep the deposit a repeat accept already holds', async () => {
+      vi.mocked(mockPrisma.secondChanceOffer.findUnique).mockResolvedValue(pendingOffer() as any)
+      vi.mocked(mockDeposits.createBidDeposit).mockResolvedValue({
+        success: true,
+        deposit: { id: 'deposit-2' },
+      } as any)
+      vi.mocked(mockPrisma.secondChanceOffer.updateMany).mockResolvedValue({ count: 0 })
+      vi.mocked(mockPrisma.secondChanceOffer.findFirst).mockResolvedValue({ id: 'offer-1' } as any)
+
+      await expect(service.acceptOffer('offer-1', 'runner-up')).rejects.toThrow(AuctionStateError)
+      expect(mockDeposits.releaseBidDeposit).not.toHaveBeenCalled()
+    })
+
+    it('should require a deposit before accepting', async () => {
+      vi.mocked(mockPrisma.secondChanceOffer.findUnique).mockResolvedValue(pendingOffer() as any)
+      vi.mocked(mockDeposits.createBidDeposit).mockResolvedValue({
+        success: false,
+        error: 'Card declined',
+      } as any)
+
+      await expect(service.acceptOffer('offer-1', 'runner-up')).rejects.toThrow(
+        InsufficientDepositError
+      )
+      expect(mockPrisma.auction.update).not.toHaveBeenCalled()
+    })
+
+    it('should reject expired offers', async () => {
+      vi.mocked(mockPrisma.secondChanceOffer.findUnique).mockResolvedValue(
+        pendingOffer({ expiresAt: new Date(Date.now() - 1000) }) as any
+      )
+
+      await expect(service.acceptOffer('offer-1', 'runner-up')).rejects.toThrow(AuctionStateError)
+    })
+  })
+
+  describe('declineOffer', () => {
+    it('should pass the offer to the next bidder in line', async () => {
+      const declined = pendingOffer({ status: 'DECLINED' })
+      vi.mocked(mockPrisma.secondChanceOffer.findUnique).mockResolvedValue(pendingOffer() as any)
+      vi.mocked(mockPrisma.secondChanceOffer.update).mockResolvedValue(declined as any)
+      vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(
+        soldAuction({ secondChanceOffers: [declined] }) as any
+      )
+      vi.mocked(mockPrisma.bid.findFirst).mockResolvedValue(
+        factories.bid({ id: 'bid-3', bidderId: 'third', amount: 8500 }) as any
+      )
+      vi.mocked(mockPrisma.secondChanceOffer.create).mockImplementation(
+        ({ data }: any) => Promise.resolve({ id: 'offer-2', ...data }) as any
+      )
+
+      await service.declineOffer('offer-1', 'runner-up')
+
+      expect(mockPrisma.bid.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            bidderId: { notIn: expect.arrayContaining(['winner-1', 'runner-up']) },
+          }),
+        })
+      )
+      expect(mockPrisma.secondChanceOffer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ bidderId: 'third', rank: 3, amount: 8500 }),
+      })
+    })
+  })
+})
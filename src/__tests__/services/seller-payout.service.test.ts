@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { SellerPayoutService } from '@/services/seller-payout.service'
+import { PromoCodeService } from '@/services/promo-code.service'
+import { PayoutHoldService } from '@/services/payout-hold.service'
+import { IPaymentProcessor } from '@/services/contracts/payment-processor.interface'
+import { createMockPrisma, createMockPaymentProcessor } from '../helpers/test-utils'
+
+function paidAuction(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'auction-123',
+    listingId: 'listing-1',
+    status: 'SOLD',
+    paymentStatus: 'PAID',
+    paidAt: new Date('2026-10-15T12:00:00Z'),
+    handoverConfirmedAt: null,
+    finalPrice: 100000,
+    feeTerms: null,
+    currency: 'EUR',
+    sellerPayoutStatus: null,
+    sellerPayoutId: null,
+    escrow: null,
+    disputes: [],
+    listing: {
+      seller: {
+        id: 'seller-1',
+        email: 'seller@example.com',
+        name: 'Seller',
+        stripeConnectAccountId: 'acct_1',
+        payoutEnabled: true,
+      },
+    },
+    ...overrides,
+  }
+}
+
+describe('SellerPayoutService', () => {
+  let service: SellerPayoutService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+  let mockProcessor: IPaymentProcessor
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    mockProcessor = createMockPaymentProcessor()
+    vi.mocked(mockPrisma.auction.findUnique).mockResolvedValue(paidAuction() as any)
+    vi.mocked(mockPrisma.auction.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(mockProcessor.createTransfer).mockResolvedValue({ id: 'tr_1' } as any)
+    const promoCodes = {
+      getFeeDiscount: vi.fn().mockResolvedValue(null),
+      markApplied: vi.fn(),
+    } as unknown as PromoCodeService
+    const holds = { evaluate: vi.fn().mockResolvedValue([]) } as unknown as PayoutHoldService
+    service = new SellerPayoutService(mockPrisma, mockProcessor, promoCodes, holds)
+  })
+
+  describe('createSellerPayout', () => {
+    it('should claim the payout before transferring to the seller', async () => {
+      const result = await service.createSellerPayout('auction-123')
+
+      expect(result).toMatchObject({ success: true, payoutId: 'tr_1' })
+      expect(mockPrisma.auction.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'auction-123',
+          OR: [
+            { sellerPayoutStatus: null },
+            { sellerPayoutStatus: { in: ['pending', 'held', 'failed'] } },
+          ],
+        },
+        data: expect.objectContaining({ sellerPayoutStatus: 'processing' }),
+      })
+      expect(mockProcessor.createTransfer).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not transfer when a concurrent trigger claimed the payout first', async () => {
+      vi.mocked(mockPrisma.auction.updateMany).mockResolvedValue({ count: 0 })
+
+      const result = await service.createSellerPayout('auction-123')
+
+      expect(result).toEqual({ success: false, error: 'Payout already in progress' })
+      expect(mockProcessor.createTransfer).not.toHaveBeenCalled()
+    })
+  })
+})
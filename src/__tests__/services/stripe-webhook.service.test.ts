@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Prisma } from '@prisma/client'
+import Stripe from 'stripe'
+import { StripeWebhookService } from '@/services/stripe-webhook.service'
+import { issueBuyerFeeInvoice } from '@/services/invoice.service'
+import { ConflictError } from '@/lib/errors'
+import { createMockPrisma } from '../helpers/test-utils'
+import buyerFeeSucceeded from '../fixtures/stripe-events/payment_intent.succeeded.buyer_fee.json'
+import depositFailed from '../fixtures/stripe-events/payment_intent.payment_failed.bid_deposit.json'
+import invoicePaid from '../fixtures/stripe-events/invoice.paid.json'
+
+const container = vi.hoisted(() => ({
+  prisma: null as unknown,
+  audit: { logAuditEvent: vi.fn() },
+  payouts: { createSellerPayout: vi.fn() },
+}))
+
+vi.mock('@/lib/container', () => ({
+  getContainer: () => container,
+}))
+
+vi.mock('@/services/escrow.service', () => ({
+  confirmEscrowFunding: vi.fn(),
+}))
+
+vi.mock('@/services/refund.service', () => ({
+  syncPaymentRefunds: vi.fn(),
+}))
+
+vi.mock('@/services/dispute.service', () => ({
+  recordDisputeWebhookEvent: vi.fn(),
+}))
+
+vi.mock('@/services/invoice.service', () => ({
+  issueBuyerFeeInvoice: vi.fn(),
+}))
+
+// Recorded Stripe payloads, fed through the real event handler
+function fixture(json: unknown): Stripe.Event {
+  return structuredClone(json) as Stripe.Event
+}
+
+function uniqueViolation() {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: '5.22.0',
+  })
+}
+
+describe('StripeWebhookService', () => {
+  let service: StripeWebhookService
+  let mockPrisma: ReturnType<typeof createMockPrisma>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockPrisma = createMockPrisma()
+    container.prisma = mockPrisma
+    container.payouts.createSellerPayout.mockResolvedValue({ success: true })
+    vi.mocked(issueBuyerFeeInvoice).mockResolvedValue(null as any)
+    vi.mocked(mockPrisma.stripeWebhookEvent.create).mockResolvedValue({} as any)
+    vi.mocked(mockPrisma.auction.updateMany).mockResolvedValue({ count: 1 })
+    vi.mocked(mockPrisma.bidDeposit.updateMany).mockResolvedValue({ count: 1 })
+    service = new StripeWebhookService(mockPrisma)
+  })
+
+  describe('receive', () => {
+    it('should record a buyer fee payment and mark the auction paid', async () => {
+      const receipt = await service.receive(fixture(buyerFeeSucceeded))
+
+      expect(receipt).toEqual({ status: 'processed' })
+      expect(mockPrisma.stripeWebhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          id: 'evt_3QbuyerFee0001',
+          type: 'payment_intent.succeeded',
+          livemode: false,
+        }),
+      })
+      expect(mockPrisma.auction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'auction-123', paymentStatus: { in: ['UNPAID', 'PENDING'] } },
+        data: expect.objectContaining({ paymentStatus: 'PAID', paymentIntentId: 'pi_3QbuyerFee0001' }),
+      })
+      expect(container.payouts.createSellerPayout).toHaveBeenCalledWith('auction-123')
+      expect(mockPrisma.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'evt_3QbuyerFee0001' },
+        data: { status: 'PROCESSED', processedAt: expect.any(Date), lastError: null },
+      })
+    })
+
+    it('should mark a failed deposit authorisation', async () => {
+      await service.receive(fixture(depositFailed))
+
+      expect(mockPrisma.bidDeposit.updateMany).toHaveBeenCalledWith({
+        where: { stripePaymentIntentId: 'pi_3QdepositFail0001', status: 'PENDING' },
+        data: { status: 'FAILED' },
+      })
+      expect(container.audit.logAuditEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'payment.deposit.webhook_failed',
+          errorMessage: 'Your card has insufficient funds.',
+        })
+      )
+    })
+
+    it('should record event types it does not handle as processed', async () => {
+      const receipt = await service.receive(fixture(invoicePaid))
+
+      expect(receipt).toEqual({ status: 'processed' })
+      expect(mockPrisma.auction.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should skip a repeated delivery of a processed event', async () => {
+      vi.mocked(mockPrisma.stripeWebhookEvent.create).mockRejectedValue(uniqueViolation())
+      vi.mocked(mockPrisma.stripeWebhookEvent.updateMany).mockResolvedValue({ count: 0 })
+
+      const receipt = await service.receive(fixture(buyerFeeSucceeded))
+
+      expect(receipt).toEqual({ status: 'duplicate' })
+      expect(mockPrisma.auction.updateMany).not.toHaveBeenCalled()
+      expect(container.payouts.createSellerPayout).not.toHaveBeenCalled()
+    })
+
+    it('should keep the error when the handler fails', async () => {
+      vi.mocked(mockPrisma.auction.updateMany).mockRejectedValue(new Error('Connection lost'))
+
+      const receipt = await service.receive(fixture(buyerFeeSucceeded))
+
+      expect(receipt).toEqual({ status: 'failed', error: 'Connection lost' })
+      expect(mockPrisma.stripeWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 'evt_3QbuyerFee0001' },
+        data: { status: 'FAILED', lastError: 'Connection lost' },
+      })
+    })
+  })
+
+  describe('replay', () => {
+    it('should run a failed event again from its stored payload', async () => {
+      vi.mocked(mockPrisma.stripeWebhookEvent.findUnique).mockResolvedValue({
+        id: 'evt_3QdepositFail0001',
+        status: 'FAILED',
+        payload: fixture(depositFailed),
+      } as any)
+      vi.mocked(mockPrisma.stripeWebhookEvent.updateMany).mockResolvedValue({ count: 1 })
+
+      await service.replay('evt_3QdepositFail0001', 'admin-1')
+
+      expect(mockPrisma.stripeWebhookEvent.updateMany).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 'evt_3QdepositFail0001' }),
+        data: expect.objectContaining({
+          replayedById: 'admin-1',
+          status: 'PROCESSING',
+          attempts: { increment: 1 },
+        }),
+      })
+      expect(mockPrisma.bidDeposit.updateMany).toHaveBeenCalled()
+    })
+
+    it('should not replay an event that was processed', async () => {
+      vi.mocked(mockPrisma.stripeWebhookEvent.findUnique).mockResolvedValue({
+        id: 'evt_3QbuyerFee0001',
+        status: 'PROCESSED',
+        payload: fixture(buyerFeeSucceeded),
+      } as any)
+      vi.mocked(mockPrisma.stripeWebhookEvent.updateMany).mockResolvedValue({ count: 0 })
+
+      await expect(service.replay('evt_3QbuyerFee0001', 'admin-1')).rejects.toThrow(ConflictError)
+      expect(mockPrisma.auction.updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
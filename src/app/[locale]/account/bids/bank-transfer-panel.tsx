@@ -0,0 +1,121 @@
+'use client'
+
+import { useState } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { Button } from '@/components/ui/button'
+import { toast } from 'sonner'
+import { Landmark, Loader2, Copy } from 'lucide-react'
+
+type BankTransferInstructions = {
+  reference: string
+  amount: number
+  currency: string
+  beneficiary: string
+  iban: string
+  bic: string | null
+  expiresAt: string
+}
+
+interface BankTransferPanelProps {
+  auctionId: string
+  awaiting: boolean
+}
+
+export function BankTransferPanel({ auctionId, awaiting }: BankTransferPanelProps) {
+  const t = useTranslations('account')
+  const locale = useLocale()
+  const [instructions, setInstructions] = useState<BankTransferInstructions | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Idempotent: an awaiting transfer comes back with the same reference
+  async function requestTransfer() {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/payments/bank-transfer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ auctionId }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || t('bankTransferError'))
+      }
+
+      setInstructions(data.data.transfer)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('bankTransferError'))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // The buyer must send the exact amount, cents included
+  function formatAmount(amount: number, currency: string) {
+    return new Intl.NumberFormat(locale === 'ro' ? 'ro-RO' : 'en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount)
+  }
+
+  async function copy(value: string) {
+    await navigator.clipboard.writeText(value)
+    toast.success(t('copied'))
+  }
+
+  if (!instructions) {
+    return (
+      <Button variant="outline" size="sm" onClick={requestTransfer} disabled={loading}>
+        {loading ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Landmark className="mr-2 h-4 w-4" />
+        )}
+        {awaiting ? t('bankTransferDetails') : t('payByBankTransfer')}
+      </Button>
+    )
+  }
+
+  const rows = [
+    { label: t('bankTransferBeneficiary'), value: instructions.beneficiary },
+    { label: t('bankTransferIban'), value: instructions.iban, copyable: true },
+    ...(instructions.bic ? [{ label: t('bankTransferBic'), value: instructions.bic }] : []),
+    { label: t('bankTransferReference'), value: instructions.reference, copyable: true },
+    {
+      label: t('bankTransferAmount'),
+      value: formatAmount(instructions.amount, instructions.currency),
+    },
+  ]
+
+  return (
+    <div className="w-full space-y-3 rounded-lg border bg-muted/30 p-3 text-sm">
+      <p className="text-muted-foreground">{t('bankTransferIntro')}</p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5">
+        {rows.map((row) => (
+          <div key={row.label} className="contents">
+            <dt className="text-muted-foreground">{row.label}</dt>
+            <dd className="flex items-center gap-1.5 font-medium">
+              <span className={row.copyable ? 'font-mono' : undefined}>{row.value}</span>
+              {row.copyable && (
+                <button
+                  type="button"
+                  onClick={() => copy(row.value)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label={row.label}
+                >
+                  <Copy className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-xs text-muted-foreground">
+        {t('bankTransferExpires', {
+          date: new Date(instructions.expiresAt).toLocaleDateString(),
+        })}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,293 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useLocale, useTranslations } from 'next-intl'
+import { loadStripe } from '@stripe/stripe-js'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { toast } from 'sonner'
+import { Gauge, Loader2 } from 'lucide-react'
+
+const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!)
+
+type Backing = 'CARD_HOLD' | 'BANK_GUARANTEE'
+
+type BiddingLimitSummary = {
+  limit: {
+    backing: Backing
+    status: 'PENDING' | 'ACTIVE' | 'REJECTED' | 'RELEASED'
+    limitAmount: string
+    currency: string
+    expiresAt: string | null
+    guaranteeIssuer: string | null
+    reviewNote: string | null
+    deposit: { amount: string } | null
+  } | null
+  active: boolean
+  exposure: number
+  remaining: number
+  exposures: Array<{ auctionId: string; title: string; amount: number; currency: string }>
+}
+
+export function BiddingLimitCard() {
+  const t = useTranslations('account.biddingLimit')
+  const locale = useLocale()
+  const [summary, setSummary] = useState<BiddingLimitSummary | null>(null)
+  const [holdPercent, setHoldPercent] = useState(0)
+  const [editing, setEditing] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [backing, setBacking] = useState<Backing>('CARD_HOLD')
+  const [limitAmount, setLimitAmount] = useState('')
+  const [issuer, setIssuer] = useState('')
+  const [reference, setReference] = useState('')
+  const [validUntil, setValidUntil] = useState('')
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch('/api/account/bidding-limit')
+      if (!response.ok) {throw new Error(t('error'))}
+
+      const data = await response.json()
+      setSummary(data.data.summary)
+      setHoldPercent(data.data.holdPercent)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    }
+  }, [t])
+
+  useEffect(() => {
+    fetchSummary()
+  }, [fetchSummary])
+
+  function formatAmount(amount: number, currency = 'EUR') {
+    return new Intl.NumberFormat(locale === 'ro' ? 'ro-RO' : 'en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  async function submit() {
+    const body =
+      backing === 'CARD_HOLD'
+        ? { backing, limitAmount: Number(limitAmount) }
+        : {
+            backing,
+            limitAmount: Number(limitAmount),
+            guaranteeIssuer: issuer,
+            guaranteeReference: reference,
+            expiresAt: validUntil,
+          }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch('/api/account/bidding-limit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || t('error'))
+      }
+
+      // 3D Secure: authenticate the hold, then confirm it like any deposit
+      if (data.data.requiresAction && data.data.clientSecret) {
+        const stripe = await stripePromise
+        const result = await stripe?.confirmCardPayment(data.data.clientSecret)
+        if (!result || result.error) {
+          throw new Error(result?.error?.message || t('error'))
+        }
+        await fetch('/api/payments/deposit', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ depositId: data.data.depositId }),
+        })
+      }
+
+      toast.success(backing === 'CARD_HOLD' ? t('activated') : t('submitted'))
+      setEditing(false)
+      await fetchSummary()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  async function release() {
+    try {
+      setSubmitting(true)
+      const response = await fetch('/api/account/bidding-limit', { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error?.message || t('error'))
+      }
+
+      toast.success(t('released'))
+      await fetchSummary()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (!summary) {
+    return null
+  }
+
+  const { limit } = summary
+  const current = limit && (limit.status === 'ACTIVE' || limit.status === 'PENDING') ? limit : null
+  const limitValue = current ? Number(current.limitAmount) : 0
+  const amount = Number(limitAmount)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Gauge className="h-5 w-5" />
+          {t('title')}
+        </CardTitle>
+        {current && (
+          <Badge variant="secondary">{t(`backing.${current.backing}`)}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {summary.active && current ? (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">{t('limit')}</p>
+                <p className="text-lg font-semibold">{formatAmount(limitValue, current.currency)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">{t('exposure')}</p>
+                <p className="text-lg font-semibold">{formatAmount(summary.exposure, current.currency)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">{t('remaining')}</p>
+                <p className="text-lg font-semibold">{formatAmount(summary.remaining, current.currency)}</p>
+              </div>
+            </div>
+            <Progress value={limitValue ? (summary.exposure / limitValue) * 100 : 0} />
+            {summary.exposures.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {summary.exposures.map((exposure) => (
+                  <li key={exposure.auctionId} className="flex justify-between gap-4">
+                    <span className="truncate text-muted-foreground">{exposure.title}</span>
+                    <span>{formatAmount(exposure.amount, exposure.currency)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {current.backing === 'CARD_HOLD' && current.deposit
+                ? t('cardHoldNote', {
+                    amount: formatAmount(Number(current.deposit.amount), current.currency),
+                    date: current.expiresAt ? new Date(current.expiresAt).toLocaleDateString() : '',
+                  })
+                : t('guaranteeNote', {
+                    issuer: current.guaranteeIssuer ?? '',
+                    date: current.expiresAt ? new Date(current.expiresAt).toLocaleDateString() : '',
+                  })}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {current?.status === 'PENDING'
+              ? t('pending')
+              : current
+                ? t('lapsed')
+                : limit?.status === 'REJECTED'
+                  ? t('rejected', { note: limit.reviewNote ?? '' })
+                  : t('description')}
+          </p>
+        )}
+
+        {editing ? (
+          <div className="space-y-3 rounded-lg border p-3">
+            <div className="flex gap-2">
+              {(['CARD_HOLD', 'BANK_GUARANTEE'] as const).map((option) => (
+                <Button
+                  key={option}
+                  size="sm"
+                  variant={backing === option ? 'default' : 'outline'}
+                  onClick={() => setBacking(option)}
+                >
+                  {t(`backing.${option}`)}
+                </Button>
+              ))}
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="bidding-limit-amount">{t('amountLabel')}</Label>
+              <Input
+                id="bidding-limit-amount"
+                type="number"
+                min={0}
+                value={limitAmount}
+                onChange={(e) => setLimitAmount(e.target.value)}
+                className="max-w-[200px]"
+              />
+              {backing === 'CARD_HOLD' && amount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t('holdPreview', { amount: formatAmount((amount * holdPercent) / 100) })}
+                </p>
+              )}
+            </div>
+            {backing === 'BANK_GUARANTEE' && (
+              <div className="grid gap-3 sm:grid-cols-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="guarantee-issuer">{t('issuer')}</Label>
+                  <Input id="guarantee-issuer" value={issuer} onChange={(e) => setIssuer(e.target.value)} />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="guarantee-reference">{t('reference')}</Label>
+                  <Input
+                    id="guarantee-reference"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="guarantee-valid-until">{t('validUntil')}</Label>
+                  <Input
+                    id="guarantee-valid-until"
+                    type="date"
+                    value={validUntil}
+                    onChange={(e) => setValidUntil(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button size="sm" onClick={submit} disabled={submitting || !(amount > 0)}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('confirm')}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)} disabled={submitting}>
+                {t('cancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setEditing(true)}>
+              {current ? t('change') : t('setUp')}
+            </Button>
+            {current && (
+              <Button size="sm" variant="ghost" onClick={release} disabled={submitting}>
+                {t('release')}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
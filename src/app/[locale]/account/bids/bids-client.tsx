@@ -24,10 +24,12 @@ import {
   Phone,
   Lock,
   CheckCircle,
+  FileText,
 } from 'lucide-react'
 import { formatDistanceToNow } from 'date-fns'
 import { enUS, ro } from 'date-fns/locale'
 import { useLocale } from 'next-intl'
+import { BankTransferPanel } from './bank-transfer-panel'
 
 type BidStatus = 'active' | 'won' | 'lost' | 'outbid'
 type FilterStatus = 'all' | 'active' | 'won' | 'lost'
@@ -47,6 +49,14 @@ interface Bid {
     endTime: string
     paymentStatus: string | null
     paymentDeadline: string | null
+    invoice: { id: string; number: string } | null
+    bankTransfer: {
+      reference: string
+      amount: number
+      currency: string
+      status: 'AWAITING' | 'MATCHED' | 'EXPIRED'
+      expiresAt: string
+    } | null
   }
   listing: {
     id: string
@@ -341,6 +351,26 @@ export default function BidsClient() {
                             {t('paymentComplete')}
                           </span>
                         </div>
+                        {bid.auction.invoice && (
+                          <div className="flex flex-wrap items-center gap-3 text-sm">
+                            <span className="flex items-center gap-1.5">
+                              <FileText className="h-4 w-4 text-muted-foreground" />
+                              {t('invoice', { number: bid.auction.invoice.number })}
+                            </span>
+                            <a
+                              href={`/api/account/invoices/${bid.auction.invoice.id}/download?format=pdf`}
+                              className="text-primary hover:underline"
+                            >
+                              {t('invoicePdf')}
+                            </a>
+                            <a
+                              href={`/api/account/invoices/${bid.auction.invoice.id}/download?format=xml`}
+                              className="text-primary hover:underline"
+                            >
+                              {t('invoiceXml')}
+                            </a>
+                          </div>
+                        )}
                         {bid.seller && (
                           <div className="rounded-lg border bg-muted/30 p-3">
                             <p className="mb-2 text-xs font-medium text-muted-foreground">
@@ -380,7 +410,9 @@ export default function BidsClient() {
                         <div className="flex items-center gap-2 text-sm">
                           <Lock className="h-4 w-4 text-amber-500" />
                           <span className="font-medium text-amber-600">
-                            {t('paymentRequired')}
+                            {bid.auction.bankTransfer?.status === 'AWAITING'
+                              ? t('bankTransferAwaiting')
+                              : t('paymentRequired')}
                           </span>
                         </div>
                         <div className="flex flex-wrap items-center justify-between gap-3">
@@ -398,12 +430,18 @@ export default function BidsClient() {
                               </p>
                             )}
                           </div>
-                          <Button asChild variant="premium" size="sm">
-                            <Link href={`/auctions/${bid.auction.id}/checkout`}>
-                              <CreditCard className="mr-2 h-4 w-4" />
-                              {t('payNow')}
-                            </Link>
-                          </Button>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <BankTransferPanel
+                              auctionId={bid.auction.id}
+                              awaiting={bid.auction.bankTransfer?.status === 'AWAITING'}
+                            />
+                            <Button asChild variant="premium" size="sm">
+                              <Link href={`/auctions/${bid.auction.id}/checkout`}>
+                                <CreditCard className="mr-2 h-4 w-4" />
+                                {t('payNow')}
+                              </Link>
+                            </Button>
+                          </div>
                         </div>
                         <p className="text-xs text-muted-foreground">
                           {t('payToUnlockContact')}
@@ -2,6 +2,7 @@ import { redirect } from 'next/navigation'
 import { auth } from '@/lib/auth'
 import { getTranslations } from 'next-intl/server'
 import BidsClient from './bids-client'
+import { BiddingLimitCard } from './bidding-limit-card'
 
 export async function generateMetadata({ params }: { params: Promise<{ locale: string }> }) {
   const { locale } = await params
@@ -30,7 +31,10 @@ export default async function BidsPage() {
         </p>
       </div>
 
-      <BidsClient />
+      <div className="space-y-6">
+        <BiddingLimitCard />
+        <BidsClient />
+      </div>
     </div>
   )
 }
@@ -10,6 +10,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { formatCurrency } from '@/lib/utils'
 import { Plus, Car, Eye, Edit, Trash2, Clock, CheckCircle, XCircle, AlertCircle, Lightbulb } from 'lucide-react'
 import { RelistButton } from '@/components/listing/relist-button'
+import { LowerReserveButton } from '@/components/listing/lower-reserve-button'
 
 export async function generateMetadata() {
   const t = await getTranslations('sellerDashboard')
@@ -56,6 +57,7 @@ export default async function SellerDashboardPage() {
           id: true,
           status: true,
           currentBid: true,
+          reservePrice: true,
           startTime: true,
           currentEndTime: true,
         },
@@ -245,6 +247,17 @@ export default async function SellerDashboardPage() {
                             } : null}
                           />
                         )}
+                        {status === 'ACTIVE' &&
+                          listing.auction?.reservePrice &&
+                          (listing.auction.status === 'ACTIVE' || listing.auction.status === 'EXTENDED') && (
+                          <LowerReserveButton
+                            auctionId={listing.auction.id}
+                            listingTitle={listing.title || `${listing.year} ${listing.make} ${listing.model}`}
+                            currentReserve={Number(listing.auction.reservePrice)}
+                            currentBid={listing.auction.currentBid ? Number(listing.auction.currentBid) : null}
+                            currency={listing.currency}
+                          />
+                        )}
                         {status === 'ACTIVE' && listing.auction && (
                           <Button asChild size="sm" variant="outline">
                             <Link href={`/auctions/${listing.auction.id}`}>
@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation'
 import { getTranslations } from 'next-intl/server'
 import { auth } from '@/lib/auth'
+import { Link } from '@/i18n/routing'
 import { prisma } from '@/lib/db'
 import { stripe } from '@/lib/stripe'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
@@ -14,7 +15,9 @@ import {
   AlertTriangle,
   DollarSign,
   Wallet,
-  TrendingUp
+  TrendingUp,
+  PauseCircle,
+  ArrowRight
 } from 'lucide-react'
 import { SellerPayoutButton } from '@/components/seller/SellerPayoutButton'
 import { StripeExpressDashboardButton } from '@/components/seller/StripeExpressDashboardButton'
@@ -27,7 +30,7 @@ export async function generateMetadata() {
   }
 }
 
-type PayoutStatus = 'pending' | 'processing' | 'completed' | 'failed'
+type PayoutStatus = 'pending' | 'held' | 'processing' | 'completed' | 'failed'
 
 const PAYOUT_STATUS_CONFIG: Record<PayoutStatus, {
   label: string
@@ -35,6 +38,7 @@ const PAYOUT_STATUS_CONFIG: Record<PayoutStatus, {
   icon: typeof Clock
 }> = {
   pending: { label: 'Pending', variant: 'warning', icon: Clock },
+  held: { label: 'On hold', variant: 'warning', icon: PauseCircle },
   processing: { label: 'Processing', variant: 'default', icon: TrendingUp },
   completed: { label: 'Completed', variant: 'success', icon: CheckCircle },
   failed: { label: 'Failed', variant: 'destructive', icon: XCircle },
@@ -106,7 +110,7 @@ export default async function SellerDashboardPage({
   }, 0)
 
   const pendingPayouts = soldAuctions.filter(a =>
-    a.sellerPayoutStatus === 'pending' || a.sellerPayoutStatus === null
+    a.sellerPayoutStatus === 'pending' || a.sellerPayoutStatus === 'held' || a.sellerPayoutStatus === null
   ).reduce((sum, auction) => {
     return sum + (auction.finalPrice ? Number(auction.finalPrice) : 0)
   }, 0)
@@ -286,6 +290,13 @@ export default async function SellerDashboardPage({
             {t('dashboard.payoutHistory')}
           </CardTitle>
           <CardDescription>{t('dashboard.payoutHistoryDescription')}</CardDescription>
+          <Link
+            href="/account/seller/payouts"
+            className="inline-flex items-center text-sm font-medium text-primary hover:underline"
+          >
+            {t('dashboard.viewLedger')}
+            <ArrowRight className="ml-1 h-4 w-4" />
+          </Link>
         </CardHeader>
         <CardContent>
           {soldAuctions.length === 0 ? (
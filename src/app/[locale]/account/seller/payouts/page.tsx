@@ -0,0 +1,138 @@
+import { redirect } from 'next/navigation'
+import { getTranslations } from 'next-intl/server'
+import { auth } from '@/lib/auth'
+import { Link } from '@/i18n/routing'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatCurrency } from '@/lib/utils'
+import { ArrowLeft, DollarSign } from 'lucide-react'
+import { getPayoutLedger } from '@/services/payout-statement.service'
+import { StatementDownload } from './statement-download'
+
+export async function generateMetadata() {
+  const t = await getTranslations('seller.payouts')
+  return {
+    title: t('title'),
+    description: t('description'),
+  }
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'destructive' | 'success' | 'warning'> = {
+  pending: 'warning',
+  held: 'warning',
+  processing: 'default',
+  completed: 'success',
+  failed: 'destructive',
+}
+
+export default async function SellerPayoutsPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/auth/login?callbackUrl=/account/seller/payouts')
+  }
+
+  const t = await getTranslations('seller')
+  const entries = await getPayoutLedger(session.user.id)
+
+  return (
+    <div className="container space-y-6 py-8">
+      <Link
+        href="/account/seller"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        {t('payouts.back')}
+      </Link>
+
+      <div>
+        <h1 className="text-3xl font-bold">{t('payouts.title')}</h1>
+        <p className="mt-1 text-muted-foreground">{t('payouts.description')}</p>
+      </div>
+
+      <StatementDownload />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            {t('payouts.ledger')}
+          </CardTitle>
+          <CardDescription>{t('dashboard.payoutHistoryDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">{t('payouts.empty')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">{t('payouts.columns.vehicle')}</th>
+                    <th className="py-2 pr-4 font-medium">{t('payouts.columns.buyerPaid')}</th>
+                    <th className="py-2 pr-4 text-right font-medium">{t('payouts.columns.hammerPrice')}</th>
+                    <th className="py-2 pr-4 text-right font-medium">{t('payouts.columns.commission')}</th>
+                    <th className="py-2 pr-4 text-right font-medium">{t('payouts.columns.fees')}</th>
+                    <th className="py-2 pr-4 text-right font-medium">{t('payouts.columns.payout')}</th>
+                    <th className="py-2 pr-4 font-medium">{t('payouts.columns.status')}</th>
+                    <th className="py-2 font-medium">{t('payouts.columns.transfer')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {entries.map((entry) => (
+                    <tr key={entry.auctionId} className="align-top">
+                      <td className="py-3 pr-4">
+                        <Link href={`/auctions/${entry.auctionId}`} className="font-medium hover:underline">
+                          {entry.title}
+                        </Link>
+                        {entry.holds.length > 0 && (
+                          <p className="mt-1 text-xs text-warning">
+                            {t('payouts.heldBy')}{' '}
+                            {entry.holds.map((reason) => t(`payouts.holdReasons.${reason}`)).join(', ')}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-muted-foreground">
+                        {entry.buyerPaidAt ? new Date(entry.buyerPaidAt).toLocaleDateString() : '-'}
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        {formatCurrency(entry.hammerPrice, entry.currency)}
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        {formatCurrency(entry.commission, entry.currency)}
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        {formatCurrency(entry.totalFees, entry.currency)}
+                        {entry.discount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {t('payouts.discount', { amount: formatCurrency(entry.discount, entry.currency) })}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-right font-medium">
+                        {formatCurrency(entry.payoutAmount, entry.currency)}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <Badge variant={STATUS_VARIANTS[entry.status] ?? 'default'}>
+                          {t(`dashboard.payoutStatus.${entry.status}`)}
+                        </Badge>
+                        {entry.paidOutAt && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {new Date(entry.paidOutAt).toLocaleDateString()}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-3 font-mono text-xs text-muted-foreground">
+                        {entry.transferId ?? '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
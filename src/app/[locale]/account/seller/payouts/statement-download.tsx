@@ -0,0 +1,63 @@
+'use client'
+
+import { useState } from 'react'
+import { useTranslations } from 'next-intl'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Download, FileText } from 'lucide-react'
+
+// Statements cover whole months, so default to the last finished one
+function previousMonth(): string {
+  const now = new Date()
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1))
+  return date.toISOString().slice(0, 7)
+}
+
+export function StatementDownload() {
+  const t = useTranslations('seller.payouts')
+  const [month, setMonth] = useState(previousMonth)
+
+  const href = (format: 'csv' | 'pdf') =>
+    `/api/account/payouts/statement?month=${month}&format=${format}`
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          {t('statement')}
+        </CardTitle>
+        <CardDescription>{t('statementDescription')}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="statement-month">{t('month')}</Label>
+            <Input
+              id="statement-month"
+              type="month"
+              value={month}
+              max={new Date().toISOString().slice(0, 7)}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <Button asChild>
+            <a href={href('pdf')} download>
+              <Download className="mr-2 h-4 w-4" />
+              {t('downloadPdf')}
+            </a>
+          </Button>
+          <Button asChild variant="outline">
+            <a href={href('csv')} download>
+              <Download className="mr-2 h-4 w-4" />
+              {t('downloadCsv')}
+            </a>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,361 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import {
+  Loader2,
+  Users,
+  Gavel,
+  CheckCircle,
+  AlertTriangle,
+  ArrowLeft,
+  Radio,
+} from 'lucide-react'
+import { cn, formatCurrency } from '@/lib/utils'
+import { useAuctionUpdates } from '@/hooks/use-pusher'
+import { AUCTIONEER_CALL_LABELS } from '@/hooks/useAuctionRealtime'
+import { canMakeAuctioneerCall, type AuctioneerCall } from '@/domain/auction/rules'
+import type { NewBidEvent, AuctionEndedEvent, AuctioneerCallEvent } from '@/lib/pusher'
+
+// Presence is not pushed by Pusher for public channels, so it is polled
+const PRESENCE_POLL_MS = 15000
+
+const CALLS: AuctioneerCall[] = ['FAIR_WARNING', 'GOING_ONCE', 'GOING_TWICE', 'SOLD']
+
+type ConsoleBid = {
+  id: string
+  amount: number
+  bidderNumber: number
+  bidderCountry: string | null
+  channel?: 'ONLINE' | 'PHONE' | 'ABSENTEE'
+  isProxy?: boolean
+  createdAt: string
+}
+
+type ConsoleEvent = {
+  id: string
+  call: AuctioneerCall
+  currentBid: string | null
+  createdAt: string
+}
+
+type ConsoleState = {
+  auction: {
+    id: string
+    title: string
+    status: string
+    currency: string
+    currentBid: number | null
+    bidCount: number
+    reservePrice: number | null
+    reserveMet: boolean
+    currentEndTime: string
+    liveFinale: boolean
+    liveCall: AuctioneerCall | null
+  }
+  bids: ConsoleBid[]
+  events: ConsoleEvent[]
+  presenceCount: number | null
+}
+
+export function LiveConsoleClient({ auctionId }: { auctionId: string }) {
+  const [state, setState] = useState<ConsoleState | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [calling, setCalling] = useState<AuctioneerCall | null>(null)
+
+  const fetchConsole = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/auctions/${auctionId}/live`)
+      if (!response.ok) {throw new Error('Failed to load live console')}
+
+      const data = await response.json()
+      setState(data.data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load live console')
+    } finally {
+      setLoading(false)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    fetchConsole()
+    const interval = setInterval(fetchConsole, PRESENCE_POLL_MS)
+    return () => clearInterval(interval)
+  }, [fetchConsole])
+
+  const handleNewBid = useCallback((data: NewBidEvent) => {
+    setState((prev) =>
+      prev && {
+        ...prev,
+        auction: {
+          ...prev.auction,
+          currentBid: data.amount,
+          bidCount: data.bidCount,
+          reserveMet: data.isReserveMet,
+          liveCall: null,
+        },
+        bids: [
+          {
+            id: data.bidId,
+            amount: data.amount,
+            bidderNumber: data.bidderNumber,
+            bidderCountry: data.bidderCountry,
+            createdAt: data.timestamp,
+          },
+          ...prev.bids,
+        ],
+      }
+    )
+  }, [])
+
+  const handleAuctioneerCall = useCallback((data: AuctioneerCallEvent) => {
+    setState((prev) => prev && { ...prev, auction: { ...prev.auction, liveCall: data.call } })
+  }, [])
+
+  const handleEnded = useCallback((data: AuctionEndedEvent) => {
+    setState((prev) => prev && { ...prev, auction: { ...prev.auction, status: data.status } })
+  }, [])
+
+  const { isConnected } = useAuctionUpdates(auctionId, {
+    onNewBid: handleNewBid,
+    onAuctioneerCall: handleAuctioneerCall,
+    onEnded: handleEnded,
+  })
+
+  const makeCall = async (call: AuctioneerCall) => {
+    if (call === 'SOLD' && !window.confirm('Bring the hammer down and close this sale?')) {
+      return
+    }
+
+    try {
+      setCalling(call)
+      const response = await fetch(`/api/admin/auctions/${auctionId}/live`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ call }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Call failed')
+      }
+
+      await fetchConsole()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Call failed')
+      await fetchConsole()
+    } finally {
+      setCalling(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!state) {
+    return null
+  }
+
+  const { auction, bids, events, presenceCount } = state
+  const isLive = auction.status === 'ACTIVE' && auction.liveFinale
+  const timerPassed = new Date(auction.currentEndTime).getTime() <= Date.now()
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link
+            href="/admin/auctions"
+            className="mb-2 inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="mr-1 h-4 w-4" />
+            Back to auctions
+          </Link>
+          <h2 className="text-xl font-semibold">{auction.title}</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className={cn(isConnected ? 'text-success' : 'text-muted-foreground')}>
+            <Radio className="mr-1 h-3 w-3" />
+            {isConnected ? 'Connected' : 'Connecting...'}
+          </Badge>
+          <Badge variant="outline">{auction.status}</Badge>
+        </div>
+      </div>
+
+      {!auction.liveFinale && (
+        <div className="rounded-lg border border-warning bg-warning/10 p-4 text-sm text-warning">
+          <AlertTriangle className="mr-1 inline h-4 w-4" />
+          Live finale is not enabled for this auction. Enable it from the auction list first.
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Current Bid</p>
+            <p className="text-2xl font-bold">
+              {auction.currentBid !== null
+                ? formatCurrency(auction.currentBid, auction.currency)
+                : 'No bids'}
+            </p>
+            <p className="text-xs text-muted-foreground">{auction.bidCount} bids</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Reserve</p>
+            <p className={cn('text-2xl font-bold', auction.reserveMet ? 'text-success' : 'text-warning')}>
+              {auction.reservePrice === null
+                ? 'No reserve'
+                : auction.reserveMet
+                  ? 'Met'
+                  : 'Not met'}
+            </p>
+            {auction.reservePrice !== null && (
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(auction.reservePrice, auction.currency)}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Watching Now</p>
+            <p className="flex items-center gap-2 text-2xl font-bold">
+              <Users className="h-5 w-5 text-muted-foreground" />
+              {presenceCount ?? '-'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">Timer</p>
+            <p className="text-2xl font-bold">{timerPassed ? 'Passed' : 'Running'}</p>
+            <p className="text-xs text-muted-foreground">
+              {new Date(auction.currentEndTime).toLocaleTimeString()}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gavel className="h-5 w-5" />
+            Auctioneer
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Last call:{' '}
+            <span className="font-medium text-foreground">
+              {auction.liveCall ? AUCTIONEER_CALL_LABELS[auction.liveCall] : 'None since the last bid'}
+            </span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {CALLS.map((call) => (
+              <Button
+                key={call}
+                size="lg"
+                variant={call === 'SOLD' ? 'destructive' : 'outline'}
+                onClick={() => makeCall(call)}
+                disabled={
+                  !isLive || calling !== null || !canMakeAuctioneerCall(auction.liveCall, call)
+                }
+              >
+                {calling === call && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {AUCTIONEER_CALL_LABELS[call]}
+              </Button>
+            ))}
+          </div>
+          {auction.status === 'SOLD' && (
+            <p className="flex items-center gap-2 text-sm text-success">
+              <CheckCircle className="h-4 w-4" />
+              Sold at {formatCurrency(auction.currentBid ?? 0, auction.currency)}
+            </p>
+          )}
+          {auction.status === 'NO_SALE' && (
+            <p className="text-sm text-warning">Closed without a sale (reserve not met)</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Bid Stream</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {bids.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No bids yet</p>
+            ) : (
+              <ul className="max-h-96 divide-y overflow-y-auto">
+                {bids.map((bid) => (
+                  <li key={bid.id} className="flex items-center justify-between py-2 text-sm">
+                    <span>
+                      Bidder #{bid.bidderNumber}
+                      {bid.bidderCountry && ` (${bid.bidderCountry})`}
+                      {bid.channel && bid.channel !== 'ONLINE' && (
+                        <Badge variant="outline" className="ml-2 text-xs">
+                          {bid.channel === 'PHONE' ? 'Phone' : 'Absentee'}
+                        </Badge>
+                      )}
+                      {bid.isProxy && (
+                        <Badge variant="outline" className="ml-2 text-xs">
+                          Proxy
+                        </Badge>
+                      )}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className="font-medium">{formatCurrency(bid.amount, auction.currency)}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(bid.createdAt).toLocaleTimeString()}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Auction Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No calls made yet</p>
+            ) : (
+              <ul className="max-h-96 divide-y overflow-y-auto">
+                {events.map((event) => (
+                  <li key={event.id} className="flex items-center justify-between py-2 text-sm">
+                    <span className="font-medium">{AUCTIONEER_CALL_LABELS[event.call]}</span>
+                    <span className="flex items-center gap-3">
+                      {event.currentBid !== null && (
+                        <span>{formatCurrency(Number(event.currentBid), auction.currency)}</span>
+                      )}
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(event.createdAt).toLocaleTimeString()}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
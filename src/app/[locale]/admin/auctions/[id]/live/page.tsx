@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { LiveConsoleClient } from './live-console-client'
+
+export const metadata = {
+  title: 'Live Console - Admin',
+}
+
+type PageProps = {
+  params: Promise<{ id: string }>
+}
+
+export default async function AdminLiveConsolePage({ params }: PageProps) {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || !['ADMIN', 'MODERATOR'].includes(user.role)) {
+    redirect('/')
+  }
+
+  const { id } = await params
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Live Console</h1>
+        <p className="mt-2 text-muted-foreground">
+          Call the final minutes of a live finale sale
+        </p>
+      </div>
+
+      <LiveConsoleClient auctionId={id} />
+    </div>
+  )
+}
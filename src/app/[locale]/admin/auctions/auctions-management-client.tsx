@@ -1,6 +1,7 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -42,11 +43,62 @@ import {
   TrendingUp,
   AlertTriangle,
   List,
+  Layers,
+  UserCheck,
+  Pause,
+  Play,
+  Phone,
+  Radio,
+  CalendarClock,
+  EyeOff,
+  Undo2,
+  ShieldCheck,
+  RotateCcw,
+  ShieldAlert,
+  Percent,
+  Tag,
+  FileText,
+  Landmark,
+  Gauge,
+  Webhook,
+  Scale,
+  PauseCircle,
+  Coins,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { formatCurrency } from '@/lib/utils'
 import { BidHistoryDialog } from '@/components/admin/bid-history-dialog'
+import { StaffBidDialog } from '@/components/admin/staff-bid-dialog'
+import { RefundsDialog } from '@/components/admin/refunds-dialog'
 import type { AdminAuctionData, DashboardStats } from '@/types'
+import { BID_INCREMENT_TABLE_NAMES, DEFAULT_BID_INCREMENT_TABLE } from '@/domain/auction/rules'
+
+const INCREMENT_TABLE_LABELS: Record<string, string> = {
+  standard: 'Standard',
+  fine: 'Fine',
+  coarse: 'Coarse',
+}
+
+const FORMAT_LABELS: Record<AdminAuctionData['format'], string> = {
+  OPEN: 'Open (ascending)',
+  SEALED_FIRST_PRICE: 'Sealed, first price',
+  SEALED_SECOND_PRICE: 'Sealed, second price',
+}
+
+// Dialog types whose API action name differs
+const ACTION_NAMES: Record<string, string> = {
+  increments: 'set_increment_table',
+  second_chance: 'offer_second_chance',
+  live_finale: 'set_live_finale',
+  format: 'set_format',
+}
+
+const SECOND_CHANCE_STATUS_LABELS: Record<string, string> = {
+  PENDING: 'Pending',
+  ACCEPTED: 'Accepted',
+  DECLINED: 'Declined',
+  EXPIRED: 'Expired',
+}
 
 export function AuctionsManagementClient() {
   const [auctions, setAuctions] = useState<AdminAuctionData[]>([])
@@ -58,11 +110,26 @@ export function AuctionsManagementClient() {
   const [totalPages, setTotalPages] = useState(1)
 
   const [actionDialog, setActionDialog] = useState<{
-    type: 'cancel' | 'end' | 'extend' | 'view' | null
+    type:
+      | 'cancel'
+      | 'end'
+      | 'extend'
+      | 'pause'
+      | 'resume'
+      | 'increments'
+      | 'second_chance'
+      | 'live_finale'
+      | 'format'
+      | 'view'
+      | null
     auction: AdminAuctionData | null
   }>({ type: null, auction: null })
   const [actionReason, setActionReason] = useState('')
   const [extensionMinutes, setExtensionMinutes] = useState('60')
+  const [minimumRemainingMinutes, setMinimumRemainingMinutes] = useState('0')
+  const [incrementTable, setIncrementTable] = useState<string>(DEFAULT_BID_INCREMENT_TABLE)
+  const [auctionFormat, setAuctionFormat] = useState<AdminAuctionData['format']>('OPEN')
+  const [defaultIncrementTable, setDefaultIncrementTable] = useState<string>(DEFAULT_BID_INCREMENT_TABLE)
   const [processing, setProcessing] = useState(false)
 
   const [bidHistoryDialog, setBidHistoryDialog] = useState<{
@@ -72,6 +139,9 @@ export function AuctionsManagementClient() {
     currency: string
   }>({ open: false, auctionId: null, auctionTitle: '', currency: 'USD' })
 
+  const [staffBidAuction, setStaffBidAuction] = useState<AdminAuctionData | null>(null)
+  const [refundsAuction, setRefundsAuction] = useState<AdminAuctionData | null>(null)
+
   const fetchAuctions = useCallback(async () => {
     try {
       setLoading(true)
@@ -86,6 +156,7 @@ export function AuctionsManagementClient() {
       const data = await response.json()
       setAuctions(data.auctions)
       setStats(data.stats)
+      setDefaultIncrementTable(data.defaultBidIncrementTable)
       setTotalPages(data.pagination.totalPages)
     } catch (error) {
       toast.error('Failed to load auctions')
@@ -107,9 +178,13 @@ export function AuctionsManagementClient() {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          action: actionDialog.type,
+          action: ACTION_NAMES[actionDialog.type] ?? actionDialog.type,
           reason: actionReason,
           extensionMinutes: actionDialog.type === 'extend' ? parseInt(extensionMinutes) : undefined,
+          minimumRemainingMinutes: actionDialog.type === 'resume' ? parseInt(minimumRemainingMinutes) : undefined,
+          bidIncrementTable: actionDialog.type === 'increments' ? incrementTable : undefined,
+          liveFinale: actionDialog.type === 'live_finale' ? !actionDialog.auction.liveFinale : undefined,
+          format: actionDialog.type === 'format' ? auctionFormat : undefined,
         }),
       })
 
@@ -129,11 +204,32 @@ export function AuctionsManagementClient() {
     }
   }
 
+  const handleDefaultIncrementChange = async (table: string) => {
+    try {
+      const response = await fetch('/api/admin/auctions', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ bidIncrementTable: table }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to update default')
+      }
+
+      setDefaultIncrementTable(table)
+      toast.success(`New auctions will use ${INCREMENT_TABLE_LABELS[table] ?? table} increments`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update default')
+    }
+  }
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, { class: string; label: string }> = {
       SCHEDULED: { class: 'bg-primary', label: 'Scheduled' },
       ACTIVE: { class: 'bg-success', label: 'Active' },
       EXTENDED: { class: 'bg-warning', label: 'Extended' },
+      PAUSED: { class: 'bg-warning', label: 'Paused' },
       ENDED: { class: 'bg-muted-foreground', label: 'Ended' },
       SOLD: { class: 'bg-success', label: 'Sold' },
       NO_SALE: { class: 'bg-warning', label: 'No Sale' },
@@ -237,6 +333,7 @@ export function AuctionsManagementClient() {
             <SelectItem value="SCHEDULED">Scheduled</SelectItem>
             <SelectItem value="ACTIVE">Active</SelectItem>
             <SelectItem value="EXTENDED">Extended</SelectItem>
+            <SelectItem value="PAUSED">Paused</SelectItem>
             <SelectItem value="ENDED">Ended</SelectItem>
             <SelectItem value="SOLD">Sold</SelectItem>
             <SelectItem value="NO_SALE">No Sale</SelectItem>
@@ -244,10 +341,122 @@ export function AuctionsManagementClient() {
           </SelectContent>
         </Select>
 
+        <Select value={defaultIncrementTable} onValueChange={handleDefaultIncrementChange}>
+          <SelectTrigger className="w-[200px]" aria-label="Default bid increments">
+            <Layers className="mr-2 h-4 w-4 text-muted-foreground" />
+            <SelectValue placeholder="Default increments" />
+          </SelectTrigger>
+          <SelectContent>
+            {BID_INCREMENT_TABLE_NAMES.map((name) => (
+              <SelectItem key={name} value={name}>
+                Default: {INCREMENT_TABLE_LABELS[name] ?? name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         <Button variant="outline" onClick={fetchAuctions} disabled={loading}>
           <RefreshCw className={cn('mr-2 h-4 w-4', loading && 'animate-spin')} />
           Refresh
         </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/events">
+            <CalendarClock className="mr-2 h-4 w-4" />
+            Sales
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/retractions">
+            <Undo2 className="mr-2 h-4 w-4" />
+            Retractions
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/escrow">
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Escrow
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/refunds">
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Refunds
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/disputes">
+            <ShieldAlert className="mr-2 h-4 w-4" />
+            Disputes
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/fees">
+            <Percent className="mr-2 h-4 w-4" />
+            Fees
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/promo-codes">
+            <Tag className="mr-2 h-4 w-4" />
+            Promo Codes
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/invoices">
+            <FileText className="mr-2 h-4 w-4" />
+            Invoices
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/bank-transfers">
+            <Landmark className="mr-2 h-4 w-4" />
+            Bank Transfers
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/bidding-limits">
+            <Gauge className="mr-2 h-4 w-4" />
+            Bidding Limits
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/webhooks">
+            <Webhook className="mr-2 h-4 w-4" />
+            Webhooks
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/reconciliation">
+            <Scale className="mr-2 h-4 w-4" />
+            Reconciliation
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/payout-holds">
+            <PauseCircle className="mr-2 h-4 w-4" />
+            Payout Holds
+          </Link>
+        </Button>
+
+        <Button variant="outline" asChild>
+          <Link href="/admin/auctions/exchange-rates">
+            <Coins className="mr-2 h-4 w-4" />
+            Exchange Rates
+          </Link>
+        </Button>
       </div>
 
       {/* Auctions Table */}
@@ -298,6 +507,12 @@ export function AuctionsManagementClient() {
                               Reserve Met
                             </Badge>
                           )}
+                          {auction.secondChanceOffers.length > 0 && (
+                            <Badge variant="outline" className="block w-fit text-xs">
+                              2nd Chance #{auction.secondChanceOffers[auction.secondChanceOffers.length - 1].rank}:{' '}
+                              {SECOND_CHANCE_STATUS_LABELS[auction.secondChanceOffers[auction.secondChanceOffers.length - 1].status]}
+                            </Badge>
+                          )}
                         </div>
                       </td>
                       <td className="px-4 py-3">
@@ -317,7 +532,7 @@ export function AuctionsManagementClient() {
                             'text-sm',
                             auction.status === 'ACTIVE' && 'font-medium'
                           )}>
-                            {getTimeRemaining(auction.currentEndTime)}
+                            {auction.status === 'PAUSED' ? 'Paused' : getTimeRemaining(auction.currentEndTime)}
                           </span>
                         </div>
                         {auction.extensionCount > 0 && (
@@ -366,12 +581,22 @@ export function AuctionsManagementClient() {
                             {auction.status === 'ACTIVE' && (
                               <>
                                 <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => setStaffBidAuction(auction)}>
+                                  <Phone className="mr-2 h-4 w-4" />
+                                  Place Phone/Absentee Bid
+                                </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={() => setActionDialog({ type: 'extend', auction })}
                                 >
                                   <Timer className="mr-2 h-4 w-4" />
                                   Extend Time
                                 </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setActionDialog({ type: 'pause', auction })}
+                                >
+                                  <Pause className="mr-2 h-4 w-4" />
+                                  Pause Auction
+                                </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={() => setActionDialog({ type: 'end', auction })}
                                 >
@@ -380,9 +605,81 @@ export function AuctionsManagementClient() {
                                 </DropdownMenuItem>
                               </>
                             )}
+                            {auction.status === 'PAUSED' && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => setActionDialog({ type: 'resume', auction })}
+                                >
+                                  <Play className="mr-2 h-4 w-4" />
+                                  Resume Auction
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            {auction.status === 'SOLD' && auction.paymentStatus === 'FAILED' && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => setActionDialog({ type: 'second_chance', auction })}
+                                >
+                                  <UserCheck className="mr-2 h-4 w-4" />
+                                  Offer to Next Bidder
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            {auction.status === 'SOLD' && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => setRefundsAuction(auction)}>
+                                  <RotateCcw className="mr-2 h-4 w-4" />
+                                  Refunds
+                                </DropdownMenuItem>
+                              </>
+                            )}
                             {['SCHEDULED', 'ACTIVE'].includes(auction.status) && (
+                              <>
+                                <DropdownMenuSeparator />
+                                {auction.liveFinale && (
+                                  <DropdownMenuItem asChild>
+                                    <Link href={`/admin/auctions/${auction.id}/live`}>
+                                      <Radio className="mr-2 h-4 w-4" />
+                                      Live Console
+                                    </Link>
+                                  </DropdownMenuItem>
+                                )}
+                                {auction.format === 'OPEN' && (
+                                  <DropdownMenuItem
+                                    onClick={() => setActionDialog({ type: 'live_finale', auction })}
+                                  >
+                                    <Radio className="mr-2 h-4 w-4" />
+                                    {auction.liveFinale ? 'Disable Live Finale' : 'Enable Live Finale'}
+                                  </DropdownMenuItem>
+                                )}
+                                {auction.bidCount === 0 && !auction.liveFinale && (
+                                  <DropdownMenuItem
+                                    onClick={() => {
+                                      setAuctionFormat(auction.format)
+                                      setActionDialog({ type: 'format', auction })
+                                    }}
+                                  >
+                                    <EyeOff className="mr-2 h-4 w-4" />
+                                    Auction Format
+                                  </DropdownMenuItem>
+                                )}
+                              </>
+                            )}
+                            {['SCHEDULED', 'ACTIVE', 'PAUSED'].includes(auction.status) && (
                               <>
                                 <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setIncrementTable(auction.bidIncrementTable)
+                                    setActionDialog({ type: 'increments', auction })
+                                  }}
+                                >
+                                  <Layers className="mr-2 h-4 w-4" />
+                                  Bid Increments
+                                </DropdownMenuItem>
                                 <DropdownMenuItem
                                   onClick={() => setActionDialog({ type: 'cancel', auction })}
                                   className="text-destructive"
@@ -443,6 +740,13 @@ export function AuctionsManagementClient() {
               {actionDialog.type === 'cancel' && 'Cancel Auction'}
               {actionDialog.type === 'end' && 'End Auction Now'}
               {actionDialog.type === 'extend' && 'Extend Auction'}
+              {actionDialog.type === 'pause' && 'Pause Auction'}
+              {actionDialog.type === 'resume' && 'Resume Auction'}
+              {actionDialog.type === 'increments' && 'Change Bid Increments'}
+              {actionDialog.type === 'second_chance' && 'Second-Chance Offer'}
+              {actionDialog.type === 'live_finale' &&
+                (actionDialog.auction?.liveFinale ? 'Disable Live Finale' : 'Enable Live Finale')}
+              {actionDialog.type === 'format' && 'Change Auction Format'}
             </DialogTitle>
             <DialogDescription>
               {actionDialog.auction?.listing.title}
@@ -468,6 +772,66 @@ export function AuctionsManagementClient() {
               </div>
             )}
 
+            {actionDialog.type === 'resume' && (
+              <div>
+                <label className="text-sm font-medium">Minimum Remaining Time</label>
+                <Select value={minimumRemainingMinutes} onValueChange={setMinimumRemainingMinutes}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select minimum" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">None (add paused time only)</SelectItem>
+                    <SelectItem value="15">15 minutes</SelectItem>
+                    <SelectItem value="60">1 hour</SelectItem>
+                    <SelectItem value="1440">24 hours</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {actionDialog.type === 'increments' && (
+              <div>
+                <label className="text-sm font-medium">Increment Table</label>
+                <Select value={incrementTable} onValueChange={setIncrementTable}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select table" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BID_INCREMENT_TABLE_NAMES.map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {INCREMENT_TABLE_LABELS[name] ?? name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {actionDialog.type === 'format' && (
+              <div>
+                <label className="text-sm font-medium">Format</label>
+                <Select
+                  value={auctionFormat}
+                  onValueChange={(value) => setAuctionFormat(value as AdminAuctionData['format'])}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select format" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FORMAT_LABELS) as AdminAuctionData['format'][]).map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {FORMAT_LABELS[name]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Sealed bids stay hidden until close and bidders may revise their own bid. With
+                  second price the winner pays the runner-up&apos;s bid.
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="text-sm font-medium">Reason</label>
               <Textarea
@@ -479,6 +843,28 @@ export function AuctionsManagementClient() {
               />
             </div>
 
+            {actionDialog.type === 'second_chance' && (
+              <div className="rounded-lg bg-muted p-3 text-sm">
+                The defaulted winner&apos;s deposit will be forfeited and the car offered to the
+                next-highest eligible bidder at their last bid.
+              </div>
+            )}
+
+            {actionDialog.type === 'live_finale' && (
+              <div className="rounded-lg bg-muted p-3 text-sm">
+                {actionDialog.auction?.liveFinale
+                  ? 'The auction returns to timer-based closing with anti-sniping.'
+                  : 'An auctioneer closes this auction from the live console. It will not end on its timer and anti-sniping extensions are turned off.'}
+              </div>
+            )}
+
+            {actionDialog.type === 'pause' && (
+              <div className="rounded-lg bg-muted p-3 text-sm">
+                Bidding is frozen until the auction is resumed. The time spent paused is added
+                back to the end time.
+              </div>
+            )}
+
             {actionDialog.type === 'cancel' && (
               <div className="rounded-lg bg-destructive/10 p-3 text-sm">
                 <AlertTriangle className="mb-1 h-4 w-4" />
@@ -556,12 +942,76 @@ export function AuctionsManagementClient() {
                     {new Date(actionDialog.auction.currentEndTime).toLocaleString()}
                   </p>
                 </div>
+                {actionDialog.auction.pausedAt && (
+                  <div>
+                    <label className="text-sm text-muted-foreground">Paused Since</label>
+                    <p className="font-medium">
+                      {new Date(actionDialog.auction.pausedAt).toLocaleString()}
+                      {actionDialog.auction.pauseReason && ` - ${actionDialog.auction.pauseReason}`}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <label className="text-sm text-muted-foreground">Bid Increments</label>
+                  <p className="font-medium">
+                    {INCREMENT_TABLE_LABELS[actionDialog.auction.bidIncrementTable] ?? actionDialog.auction.bidIncrementTable}
+                  </p>
+                </div>
                 <div>
                   <label className="text-sm text-muted-foreground">Auction ID</label>
                   <p className="font-mono text-xs">{actionDialog.auction.id}</p>
                 </div>
               </div>
 
+              {actionDialog.auction.secondChanceOffers.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm text-muted-foreground">Second-Chance Offers</label>
+                  {actionDialog.auction.secondChanceOffers.map((offer) => (
+                    <div
+                      key={offer.id}
+                      className="flex items-center justify-between rounded-lg border p-2 text-sm"
+                    >
+                      <span>
+                        #{offer.rank} {offer.bidder.email}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatCurrency(Number(offer.amount), actionDialog.auction!.currency)}
+                      </span>
+                      <Badge variant="outline">
+                        {SECOND_CHANCE_STATUS_LABELS[offer.status]}
+                      </Badge>
+                      {offer.status === 'PENDING' && (
+                        <span className="text-xs text-muted-foreground">
+                          until {new Date(offer.expiresAt).toLocaleString()}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {actionDialog.auction.reserveChanges.length > 0 && (
+                <div className="space-y-2">
+                  <label className="text-sm text-muted-foreground">Reserve History</label>
+                  {actionDialog.auction.reserveChanges.map((change) => (
+                    <div
+                      key={change.id}
+                      className="flex items-center justify-between rounded-lg border p-2 text-sm"
+                    >
+                      <span>
+                        {formatCurrency(Number(change.previousReserve), actionDialog.auction!.currency)}
+                        {' → '}
+                        {formatCurrency(Number(change.newReserve), actionDialog.auction!.currency)}
+                      </span>
+                      {change.reserveMet && <Badge variant="outline">Reserve Met</Badge>}
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(change.createdAt).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {actionDialog.auction.bidCount > 0 && (
                 <div className="mt-4 flex items-center gap-2 rounded-lg bg-primary/10 p-3">
                   <TrendingUp className="h-5 w-5 text-primary" />
@@ -616,6 +1066,29 @@ export function AuctionsManagementClient() {
           fetchAuctions()
         }}
       />
+
+      {/* Staff Bid Dialog */}
+      <StaffBidDialog
+        auctionId={staffBidAuction?.id ?? null}
+        auctionTitle={staffBidAuction?.listing.title}
+        currency={staffBidAuction?.currency}
+        currentBid={staffBidAuction?.currentBid ? Number(staffBidAuction.currentBid) : null}
+        open={!!staffBidAuction}
+        onOpenChange={(open) => !open && setStaffBidAuction(null)}
+        onBidPlaced={() => {
+          fetchAuctions()
+        }}
+      />
+
+      <RefundsDialog
+        auctionId={refundsAuction?.id ?? null}
+        auctionTitle={refundsAuction?.listing.title}
+        open={!!refundsAuction}
+        onOpenChange={(open) => !open && setRefundsAuction(null)}
+        onRefunded={() => {
+          fetchAuctions()
+        }}
+      />
     </>
   )
 }
@@ -0,0 +1,322 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Upload, Check, X } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type StatementLineRow = {
+  id: string
+  bookingDate: string
+  amount: string
+  currency: string
+  remittanceInfo: string | null
+  counterparty: string | null
+  counterpartyIban: string | null
+  matchNote: string | null
+  statement: { id: string; filename: string }
+}
+
+type AwaitingTransferRow = {
+  id: string
+  reference: string
+  amount: string
+  currency: string
+  expiresAt: string
+  createdAt: string
+  auction: { id: string; listing: { title: string } }
+  user: { id: string; name: string | null; email: string }
+}
+
+type StatementRow = {
+  id: string
+  filename: string
+  format: 'CAMT053' | 'CSV'
+  lineCount: number
+  matchedCount: number
+  createdAt: string
+  uploadedBy: { id: string; name: string | null; email: string }
+}
+
+type ImportResult = {
+  lineCount: number
+  duplicateCount: number
+  matchedCount: number
+  unmatchedCount: number
+}
+
+export function BankTransfersClient() {
+  const [lines, setLines] = useState<StatementLineRow[]>([])
+  const [transfers, setTransfers] = useState<AwaitingTransferRow[]>([])
+  const [statements, setStatements] = useState<StatementRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const [references, setReferences] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [reviewing, setReviewing] = useState<string | null>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/bank-statements')
+      if (!response.ok) {throw new Error('Failed to load bank transfers')}
+
+      const data = await response.json()
+      setLines(data.data.lines)
+      setTransfers(data.data.transfers)
+      setStatements(data.data.statements)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load bank transfers')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const handleUpload = async (file: File) => {
+    try {
+      setUploading(true)
+      const response = await fetch('/api/admin/bank-statements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, content: await file.text() }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to import statement')
+      }
+
+      const result: ImportResult = data.data.result
+      toast.success(
+        `${result.lineCount} new credits: ${result.matchedCount} matched, ` +
+          `${result.unmatchedCount} to review` +
+          (result.duplicateCount ? `, ${result.duplicateCount} already imported` : '')
+      )
+      await fetchQueue()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import statement')
+    } finally {
+      setUploading(false)
+      if (fileInput.current) {
+        fileInput.current.value = ''
+      }
+    }
+  }
+
+  const handleReview = async (id: string, action: 'match' | 'ignore') => {
+    const note = notes[id]?.trim() || undefined
+    const body =
+      action === 'match'
+        ? { action, reference: references[id]?.trim() ?? '', note }
+        : { action, note: note ?? '' }
+
+    try {
+      setReviewing(id)
+      const response = await fetch(`/api/admin/bank-statements/lines/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to review line')
+      }
+
+      toast.success(action === 'match' ? 'Payment matched and auction marked paid' : 'Line set aside')
+      await fetchQueue()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review line')
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upload statement</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            CAMT.053 XML, or CSV with the columns date, amount, currency, reference,
+            counterparty_name, counterparty_iban, bank_reference. Credits quoting an awaiting
+            reference with the exact amount are marked paid; the rest land in the review queue.
+          </p>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".xml,.csv,text/xml,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) {
+                handleUpload(file)
+              }
+            }}
+          />
+          <Button onClick={() => fileInput.current?.click()} disabled={uploading}>
+            {uploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Choose statement
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Review queue</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No unmatched payments</p>
+          ) : (
+            <ul className="divide-y">
+              {lines.map((line) => (
+                <li key={line.id} className="space-y-3 py-4">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="space-y-1">
+                      <p className="font-medium">
+                        {formatCurrency(Number(line.amount), line.currency)} from{' '}
+                        {line.counterparty || 'unknown sender'}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {line.remittanceInfo || 'No remittance information'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(line.bookingDate).toLocaleDateString()}
+                        {line.counterpartyIban && ` · ${line.counterpartyIban}`} ·{' '}
+                        {line.statement.filename}
+                      </p>
+                    </div>
+                    {line.matchNote && <Badge variant="outline">{line.matchNote}</Badge>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      placeholder="Payment reference (RF...)"
+                      value={references[line.id] ?? ''}
+                      onChange={(e) => setReferences({ ...references, [line.id]: e.target.value })}
+                      className="max-w-[220px] font-mono"
+                    />
+                    <Input
+                      placeholder="Note"
+                      value={notes[line.id] ?? ''}
+                      onChange={(e) => setNotes({ ...notes, [line.id]: e.target.value })}
+                      className="max-w-xs"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleReview(line.id, 'match')}
+                      disabled={reviewing === line.id || !references[line.id]?.trim()}
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Match
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(line.id, 'ignore')}
+                      disabled={reviewing === line.id || !notes[line.id]?.trim()}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Set aside
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Awaiting transfers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? null : transfers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No transfers awaited</p>
+          ) : (
+            <ul className="divide-y">
+              {transfers.map((transfer) => (
+                <li key={transfer.id} className="flex flex-wrap items-start justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      <span className="font-mono">{transfer.reference}</span> ·{' '}
+                      {formatCurrency(Number(transfer.amount), transfer.currency)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {transfer.auction.listing.title} · {transfer.user.name || transfer.user.email}
+                    </p>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Expires {new Date(transfer.expiresAt).toLocaleDateString()}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent statements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? null : statements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No statements uploaded yet</p>
+          ) : (
+            <ul className="divide-y">
+              {statements.map((statement) => (
+                <li key={statement.id} className="flex flex-wrap items-center justify-between gap-4 py-3">
+                  <div>
+                    <p className="font-medium">{statement.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(statement.createdAt).toLocaleString()} ·{' '}
+                      {statement.uploadedBy.name || statement.uploadedBy.email}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">{statement.format === 'CAMT053' ? 'CAMT.053' : 'CSV'}</Badge>
+                    <span className="text-sm text-muted-foreground">
+                      {statement.matchedCount}/{statement.lineCount} matched
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
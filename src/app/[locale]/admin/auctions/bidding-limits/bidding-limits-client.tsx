@@ -0,0 +1,186 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Check, X } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type BiddingLimitRow = {
+  id: string
+  backing: 'CARD_HOLD' | 'BANK_GUARANTEE'
+  status: 'PENDING' | 'ACTIVE'
+  limitAmount: string
+  currency: string
+  expiresAt: string | null
+  guaranteeIssuer: string | null
+  guaranteeReference: string | null
+  createdAt: string
+  exposure: number
+  user: { id: string; name: string | null; email: string }
+}
+
+export function BiddingLimitsClient() {
+  const [limits, setLimits] = useState<BiddingLimitRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  const fetchLimits = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/bidding-limits')
+      if (!response.ok) {throw new Error('Failed to load bidding limits')}
+
+      const data = await response.json()
+      setLimits(data.data.limits)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load bidding limits')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLimits()
+  }, [fetchLimits])
+
+  const handleReview = async (id: string, approve: boolean) => {
+    try {
+      setReviewing(id)
+      const response = await fetch(`/api/admin/bidding-limits/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ approve, note: notes[id]?.trim() || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to review guarantee')
+      }
+
+      toast.success(approve ? 'Bidding limit activated' : 'Guarantee rejected')
+      await fetchLimits()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review guarantee')
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  const pending = limits.filter((limit) => limit.status === 'PENDING')
+  const active = limits.filter((limit) => limit.status === 'ACTIVE')
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Bank guarantees to verify</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : pending.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No guarantees waiting for review</p>
+          ) : (
+            <ul className="divide-y">
+              {pending.map((limit) => (
+                <li key={limit.id} className="space-y-3 py-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {formatCurrency(Number(limit.limitAmount), limit.currency)} for{' '}
+                      {limit.user.name || limit.user.email}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {limit.guaranteeIssuer} · <span className="font-mono">{limit.guaranteeReference}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Submitted {new Date(limit.createdAt).toLocaleDateString()}
+                      {limit.expiresAt &&
+                        ` · valid until ${new Date(limit.expiresAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      placeholder="Note"
+                      value={notes[limit.id] ?? ''}
+                      onChange={(e) => setNotes({ ...notes, [limit.id]: e.target.value })}
+                      className="max-w-xs"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleReview(limit.id, true)}
+                      disabled={reviewing === limit.id}
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Activate
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(limit.id, false)}
+                      disabled={reviewing === limit.id}
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Reject
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active limits</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? null : active.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active bidding limits</p>
+          ) : (
+            <ul className="divide-y">
+              {active.map((limit) => (
+                <li key={limit.id} className="flex flex-wrap items-start justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">{limit.user.name || limit.user.email}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatCurrency(limit.exposure, limit.currency)} of{' '}
+                      {formatCurrency(Number(limit.limitAmount), limit.currency)} in open bids
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary">
+                      {limit.backing === 'CARD_HOLD' ? 'Card hold' : 'Bank guarantee'}
+                    </Badge>
+                    {limit.expiresAt && (
+                      <span className="text-xs text-muted-foreground">
+                        Until {new Date(limit.expiresAt).toLocaleDateString()}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
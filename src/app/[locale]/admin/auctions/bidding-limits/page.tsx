@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { BiddingLimitsClient } from './bidding-limits-client'
+
+export const metadata = {
+  title: 'Bidding Limits - Admin',
+}
+
+export default async function AdminBiddingLimitsPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || user.role !== 'ADMIN') {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Bidding Limits</h1>
+        <p className="mt-2 text-muted-foreground">
+          Verify bank guarantees and follow how much of each bidding limit open bids use
+        </p>
+      </div>
+
+      <BiddingLimitsClient />
+    </div>
+  )
+}
@@ -0,0 +1,372 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Download, ExternalLink, FileText, Send } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type DisputeStatus = 'NEEDS_RESPONSE' | 'UNDER_REVIEW' | 'WON' | 'LOST' | 'INQUIRY_CLOSED'
+
+const STATUS_LABELS: Record<DisputeStatus, string> = {
+  NEEDS_RESPONSE: 'Needs response',
+  UNDER_REVIEW: 'Under review',
+  WON: 'Won',
+  LOST: 'Lost',
+  INQUIRY_CLOSED: 'Inquiry closed',
+}
+
+const TARGET_LABELS = {
+  BUYER_FEE: 'buyer payment',
+  DEPOSIT: 'deposit',
+  ESCROW: 'escrow payment',
+}
+
+type Person = { id: string; name: string | null; email: string }
+
+type DisputeRow = {
+  id: string
+  stripeDisputeId: string
+  target: keyof typeof TARGET_LABELS
+  amount: string
+  currency: string
+  reason: string
+  status: DisputeStatus
+  evidenceDueBy: string | null
+  evidenceSubmittedAt: string | null
+  biddingRestricted: boolean
+  closedAt: string | null
+  createdAt: string
+  auction: { id: string; listing: { title: string } }
+  user: Person
+  events: Array<{
+    id: string
+    type: string
+    status: DisputeStatus
+    note: string | null
+    createdAt: string
+    actor: Person | null
+  }>
+}
+
+type EvidencePack = {
+  customer: Person & { createdAt: string; emailVerified: string | null; termsAcceptedAt: string | null }
+  auction: { finalPrice: string | null; currency: string; endedAt: string; paidAt: string | null; seller: Person }
+  bids: Array<{
+    id: string
+    amount: string
+    createdAt: string
+    ipAddress: string | null
+    userAgent: string | null
+    channel: string
+  }>
+  messages: Array<{ id: string; senderId: string; content: string; createdAt: string }>
+  paymentLog: Array<{ action: string; createdAt: string; actorIp: string | null }>
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : '—'
+}
+
+export function DisputesClient() {
+  const [view, setView] = useState<'open' | 'closed'>('open')
+  const [disputes, setDisputes] = useState<DisputeRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [evidence, setEvidence] = useState<Record<string, EvidencePack>>({})
+  const [loadingEvidence, setLoadingEvidence] = useState<string | null>(null)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [submitting, setSubmitting] = useState<string | null>(null)
+
+  const fetchDisputes = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/disputes?status=${view}`)
+      if (!response.ok) {throw new Error('Failed to load disputes')}
+
+      const data = await response.json()
+      setDisputes(data.data.disputes)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load disputes')
+    } finally {
+      setLoading(false)
+    }
+  }, [view])
+
+  useEffect(() => {
+    fetchDisputes()
+  }, [fetchDisputes])
+
+  const loadEvidence = async (id: string): Promise<EvidencePack | null> => {
+    if (evidence[id]) {return evidence[id]}
+
+    try {
+      setLoadingEvidence(id)
+      const response = await fetch(`/api/admin/disputes/${id}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to assemble evidence')
+      }
+
+      setEvidence((prev) => ({ ...prev, [id]: data.data.evidence }))
+      return data.data.evidence
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to assemble evidence')
+      return null
+    } finally {
+      setLoadingEvidence(null)
+    }
+  }
+
+  const downloadEvidence = async (dispute: DisputeRow) => {
+    const pack = await loadEvidence(dispute.id)
+    if (!pack) {return}
+
+    const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `evidence-${dispute.stripeDisputeId}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const markSubmitted = async (id: string) => {
+    try {
+      setSubmitting(id)
+      const response = await fetch(`/api/admin/disputes/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: notes[id]?.trim() || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to update dispute')
+      }
+
+      toast.success('Evidence submission recorded')
+      await fetchDisputes()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update dispute')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link
+          href="/admin/auctions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to auctions
+        </Link>
+
+        <Select value={view} onValueChange={(value) => setView(value as 'open' | 'closed')}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Disputes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : disputes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No disputes</p>
+          ) : (
+            <ul className="divide-y">
+              {disputes.map((dispute) => {
+                const pack = evidence[dispute.id]
+
+                return (
+                  <li key={dispute.id} className="space-y-3 py-4">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">
+                          {formatCurrency(Number(dispute.amount), dispute.currency)}{' '}
+                          {TARGET_LABELS[dispute.target]} for {dispute.auction.listing.title}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {dispute.user.name || dispute.user.email} · {dispute.reason.replace(/_/g, ' ')}
+                          {dispute.evidenceDueBy &&
+                            !dispute.closedAt &&
+                            ` · evidence due ${formatDate(dispute.evidenceDueBy)}`}
+                          {dispute.biddingRestricted && !dispute.closedAt && ' · bidding restricted'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant={
+                            dispute.status === 'LOST'
+                              ? 'destructive'
+                              : dispute.closedAt
+                                ? 'secondary'
+                                : 'outline'
+                          }
+                        >
+                          {STATUS_LABELS[dispute.status]}
+                        </Badge>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/auctions/${dispute.auction.id}`} target="_blank">
+                            <ExternalLink className="mr-1 h-4 w-4" />
+                            Auction
+                          </Link>
+                        </Button>
+                      </div>
+                    </div>
+
+                    <ol className="space-y-1 border-l pl-4 text-sm">
+                      {dispute.events.map((event) => (
+                        <li key={event.id}>
+                          <span className="text-muted-foreground">{formatDate(event.createdAt)}</span>{' '}
+                          {event.type.replace(/_/g, ' ')} · {STATUS_LABELS[event.status]}
+                          {event.actor && ` · ${event.actor.name || event.actor.email}`}
+                          {event.note && ` · ${event.note}`}
+                        </li>
+                      ))}
+                    </ol>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => loadEvidence(dispute.id)}
+                        disabled={loadingEvidence !== null || !!pack}
+                      >
+                        {loadingEvidence === dispute.id ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <FileText className="mr-1 h-4 w-4" />
+                        )}
+                        Evidence pack
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => downloadEvidence(dispute)}
+                        disabled={loadingEvidence !== null}
+                      >
+                        <Download className="mr-1 h-4 w-4" />
+                        Download
+                      </Button>
+                      {!dispute.closedAt && (
+                        <>
+                          <Input
+                            className="max-w-xs flex-1"
+                            placeholder="Note (optional)"
+                            value={notes[dispute.id] ?? ''}
+                            onChange={(e) =>
+                              setNotes((prev) => ({ ...prev, [dispute.id]: e.target.value }))
+                            }
+                            disabled={submitting === dispute.id}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => markSubmitted(dispute.id)}
+                            disabled={submitting !== null}
+                          >
+                            {submitting === dispute.id ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Send className="mr-1 h-4 w-4" />
+                            )}
+                            Mark submitted
+                          </Button>
+                        </>
+                      )}
+                    </div>
+
+                    {pack && (
+                      <div className="space-y-4 rounded-lg bg-muted/50 p-3 text-sm">
+                        <div>
+                          <p className="font-medium">Customer</p>
+                          <p className="text-muted-foreground">
+                            {pack.customer.name || pack.customer.email} · registered{' '}
+                            {formatDate(pack.customer.createdAt)} · terms accepted{' '}
+                            {formatDate(pack.customer.termsAcceptedAt)}
+                          </p>
+                          <p className="text-muted-foreground">
+                            Sold for{' '}
+                            {pack.auction.finalPrice
+                              ? formatCurrency(Number(pack.auction.finalPrice), pack.auction.currency)
+                              : '—'}{' '}
+                            on {formatDate(pack.auction.endedAt)} · paid {formatDate(pack.auction.paidAt)}
+                          </p>
+                        </div>
+
+                        <div>
+                          <p className="font-medium">Bids ({pack.bids.length})</p>
+                          <ul className="space-y-1 text-muted-foreground">
+                            {pack.bids.map((bid) => (
+                              <li key={bid.id}>
+                                {formatDate(bid.createdAt)} ·{' '}
+                                {formatCurrency(Number(bid.amount), pack.auction.currency)} ·{' '}
+                                {bid.channel.toLowerCase()} · {bid.ipAddress || 'no IP'} ·{' '}
+                                <span className="break-all">{bid.userAgent || 'no user agent'}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+
+                        <div>
+                          <p className="font-medium">Messages ({pack.messages.length})</p>
+                          <ul className="space-y-1 text-muted-foreground">
+                            {pack.messages.map((message) => (
+                              <li key={message.id}>
+                                {formatDate(message.createdAt)} ·{' '}
+                                {message.senderId === pack.customer.id ? 'Buyer' : 'Seller'}:{' '}
+                                {message.content}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+
+                        <div>
+                          <p className="font-medium">Payment log</p>
+                          <ul className="space-y-1 text-muted-foreground">
+                            {pack.paymentLog.map((entry, index) => (
+                              <li key={index}>
+                                {formatDate(entry.createdAt)} · {entry.action}
+                                {entry.actorIp && ` · ${entry.actorIp}`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { DisputesClient } from './disputes-client'
+
+export const metadata = {
+  title: 'Disputes - Admin',
+}
+
+export default async function AdminDisputesPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || user.role !== 'ADMIN') {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Disputes</h1>
+        <p className="mt-2 text-muted-foreground">
+          Card chargebacks reported by Stripe, with the evidence to submit
+        </p>
+      </div>
+
+      <DisputesClient />
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Send, RotateCcw, ExternalLink } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type EscrowStatus =
+  | 'AWAITING_FUNDS'
+  | 'FUNDED'
+  | 'HANDED_OVER'
+  | 'DISPUTED'
+  | 'RELEASED'
+  | 'REFUNDED'
+
+const STATUS_LABELS: Record<EscrowStatus, string> = {
+  AWAITING_FUNDS: 'Awaiting funds',
+  FUNDED: 'Funded',
+  HANDED_OVER: 'Handed over',
+  DISPUTED: 'Disputed',
+  RELEASED: 'Released',
+  REFUNDED: 'Refunded',
+}
+
+// Funds are still held, so an admin may override
+const HELD: EscrowStatus[] = ['FUNDED', 'HANDED_OVER', 'DISPUTED']
+
+type EscrowRow = {
+  id: string
+  status: EscrowStatus
+  amount: string
+  currency: string
+  fundedAt: string | null
+  handedOverAt: string | null
+  handoverNote: string | null
+  inspectionEndsAt: string | null
+  disputedAt: string | null
+  disputeReason: string | null
+  releaseReason: string | null
+  resolutionNote: string | null
+  createdAt: string
+  buyer: { id: string; name: string | null; email: string }
+  auction: {
+    id: string
+    currency: string
+    sellerPayoutStatus: string | null
+    listing: { title: string; seller: { id: string; name: string | null; email: string } }
+  }
+}
+
+export function EscrowsClient({ canOverride }: { canOverride: boolean }) {
+  const [status, setStatus] = useState<EscrowStatus>('DISPUTED')
+  const [escrows, setEscrows] = useState<EscrowRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [overriding, setOverriding] = useState<string | null>(null)
+
+  const fetchEscrows = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/escrows?status=${status}`)
+      if (!response.ok) {throw new Error('Failed to load escrows')}
+
+      const data = await response.json()
+      setEscrows(data.data.escrows)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load escrows')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchEscrows()
+  }, [fetchEscrows])
+
+  const handleOverride = async (id: string, decision: 'RELEASE' | 'REFUND') => {
+    try {
+      setOverriding(id)
+      const response = await fetch(`/api/admin/escrows/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: notes[id]?.trim() ?? '' }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to override escrow')
+      }
+
+      if (decision === 'RELEASE' && data.data.payout && !data.data.payout.success) {
+        toast.warning(`Escrow released, but the payout failed: ${data.data.payout.error}`)
+      } else {
+        toast.success(decision === 'RELEASE' ? 'Escrow released to the seller' : 'Escrow refunded to the buyer')
+      }
+      await fetchEscrows()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to override escrow')
+    } finally {
+      setOverriding(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link
+          href="/admin/auctions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to auctions
+        </Link>
+
+        <Select value={status} onValueChange={(value) => setStatus(value as EscrowStatus)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(STATUS_LABELS) as EscrowStatus[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Escrows</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : escrows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No escrows</p>
+          ) : (
+            <ul className="divide-y">
+              {escrows.map((escrow) => (
+                <li key={escrow.id} className="space-y-3 py-4">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">
+                        {formatCurrency(Number(escrow.amount), escrow.currency)} for{' '}
+                        {escrow.auction.listing.title}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Buyer {escrow.buyer.name || escrow.buyer.email} · seller{' '}
+                        {escrow.auction.listing.seller.name || escrow.auction.listing.seller.email}
+                        {escrow.fundedAt && ` · funded ${new Date(escrow.fundedAt).toLocaleString()}`}
+                        {escrow.handedOverAt &&
+                          ` · handed over ${new Date(escrow.handedOverAt).toLocaleString()}`}
+                        {escrow.inspectionEndsAt &&
+                          escrow.status === 'HANDED_OVER' &&
+                          ` · inspection ends ${new Date(escrow.inspectionEndsAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={escrow.status === 'DISPUTED' ? 'destructive' : 'outline'}>
+                        {STATUS_LABELS[escrow.status]}
+                      </Badge>
+                      {escrow.auction.sellerPayoutStatus && (
+                        <Badge variant="secondary">Payout {escrow.auction.sellerPayoutStatus}</Badge>
+                      )}
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/auctions/${escrow.auction.id}`} target="_blank">
+                          <ExternalLink className="mr-1 h-4 w-4" />
+                          Auction
+                        </Link>
+                      </Button>
+                    </div>
+                  </div>
+
+                  {escrow.handoverNote && (
+                    <p className="text-sm text-muted-foreground">Handover: {escrow.handoverNote}</p>
+                  )}
+
+                  {escrow.disputeReason && (
+                    <p className="rounded-lg bg-muted/50 p-3 text-sm">{escrow.disputeReason}</p>
+                  )}
+
+                  {canOverride && HELD.includes(escrow.status) ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        className="max-w-md flex-1"
+                        placeholder="Reason for the override (required)"
+                        value={notes[escrow.id] ?? ''}
+                        onChange={(e) =>
+                          setNotes((prev) => ({ ...prev, [escrow.id]: e.target.value }))
+                        }
+                        disabled={overriding === escrow.id}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleOverride(escrow.id, 'RELEASE')}
+                        disabled={overriding !== null || (notes[escrow.id]?.trim().length ?? 0) < 5}
+                      >
+                        {overriding === escrow.id ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Send className="mr-1 h-4 w-4" />
+                        )}
+                        Release to seller
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleOverride(escrow.id, 'REFUND')}
+                        disabled={overriding !== null || (notes[escrow.id]?.trim().length ?? 0) < 5}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Refund buyer
+                      </Button>
+                    </div>
+                  ) : (
+                    (escrow.releaseReason || escrow.resolutionNote) && (
+                      <p className="text-sm text-muted-foreground">
+                        {escrow.releaseReason && `Released: ${escrow.releaseReason.replace(/_/g, ' ')}`}
+                        {escrow.resolutionNote && ` · ${escrow.resolutionNote}`}
+                      </p>
+                    )
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
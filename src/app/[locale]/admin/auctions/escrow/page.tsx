@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { EscrowsClient } from './escrows-client'
+
+export const metadata = {
+  title: 'Escrow - Admin',
+}
+
+export default async function AdminEscrowPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || !['ADMIN', 'MODERATOR'].includes(user.role)) {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Escrow</h1>
+        <p className="mt-2 text-muted-foreground">
+          Purchases paid into escrow, with disputes waiting for a decision
+        </p>
+      </div>
+
+      <EscrowsClient canOverride={user.role === 'ADMIN'} />
+    </div>
+  )
+}
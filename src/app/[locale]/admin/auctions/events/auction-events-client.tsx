@@ -0,0 +1,379 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, ArrowUp, ArrowDown, CalendarClock, ExternalLink } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type AvailableListing = {
+  id: string
+  title: string
+  make: string
+  model: string
+  year: number
+  startingPrice: string
+  currency: string
+}
+
+type AuctionEventRow = {
+  id: string
+  title: string
+  slug: string
+  status: 'SCHEDULED' | 'LIVE' | 'ENDED' | 'CANCELLED'
+  startTime: string
+  firstLotEndTime: string
+  lotIntervalMinutes: number
+  _count: { lots: number }
+}
+
+const EMPTY_FORM = {
+  title: '',
+  slug: '',
+  description: '',
+  startTime: '',
+  firstLotEndTime: '',
+  lotIntervalMinutes: '2',
+}
+
+function toSlug(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100)
+}
+
+export function AuctionEventsClient() {
+  const [events, setEvents] = useState<AuctionEventRow[]>([])
+  const [listings, setListings] = useState<AvailableListing[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [slugEdited, setSlugEdited] = useState(false)
+  // Selected listing ids in lot order
+  const [lots, setLots] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/auction-events')
+      if (!response.ok) {throw new Error('Failed to load sales')}
+
+      const data = await response.json()
+      setEvents(data.data.events)
+      setListings(data.data.availableListings)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load sales')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  const toggleLot = (listingId: string) => {
+    setLots((prev) =>
+      prev.includes(listingId) ? prev.filter((id) => id !== listingId) : [...prev, listingId]
+    )
+  }
+
+  const moveLot = (index: number, offset: number) => {
+    setLots((prev) => {
+      const target = index + offset
+      if (target < 0 || target >= prev.length) {return prev}
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const interval = parseInt(form.lotIntervalMinutes, 10)
+  const isValid =
+    form.title.trim().length >= 3 &&
+    form.slug.length >= 3 &&
+    form.startTime !== '' &&
+    form.firstLotEndTime !== '' &&
+    new Date(form.firstLotEndTime) > new Date(form.startTime) &&
+    interval >= 1 &&
+    lots.length > 0
+
+  const lastLotEnd =
+    form.firstLotEndTime && lots.length > 0 && interval >= 1
+      ? new Date(new Date(form.firstLotEndTime).getTime() + (lots.length - 1) * interval * 60 * 1000)
+      : null
+
+  const handleCreate = async () => {
+    if (!isValid) {return}
+
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/auction-events', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: form.title.trim(),
+          slug: form.slug,
+          description: form.description.trim() || undefined,
+          startTime: new Date(form.startTime).toISOString(),
+          firstLotEndTime: new Date(form.firstLotEndTime).toISOString(),
+          lotIntervalMinutes: interval,
+          listingIds: lots,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to create sale')
+      }
+
+      toast.success(`Sale "${data.data.title}" created with ${lots.length} lots`)
+      setForm(EMPTY_FORM)
+      setSlugEdited(false)
+      setLots([])
+      await fetchEvents()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create sale')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sales yet</p>
+          ) : (
+            <ul className="divide-y">
+              {events.map((event) => (
+                <li key={event.id} className="flex flex-wrap items-center justify-between gap-2 py-3">
+                  <div>
+                    <p className="font-medium">{event.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {event._count.lots} lots · opens {new Date(event.startTime).toLocaleString()} ·
+                      first lot closes {new Date(event.firstLotEndTime).toLocaleString()}, then every{' '}
+                      {event.lotIntervalMinutes} min
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{event.status}</Badge>
+                    <Button variant="ghost" size="sm" asChild>
+                      <Link href={`/sales/${event.slug}`} target="_blank">
+                        <ExternalLink className="mr-1 h-4 w-4" />
+                        Catalogue
+                      </Link>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            New Sale
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="event-title">Title *</Label>
+              <Input
+                id="event-title"
+                value={form.title}
+                placeholder="e.g. Dacia & Eastern Bloc weekend"
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    title: e.target.value,
+                    slug: slugEdited ? prev.slug : toSlug(e.target.value),
+                  }))
+                }
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-slug">Catalogue address *</Label>
+              <Input
+                id="event-slug"
+                value={form.slug}
+                onChange={(e) => {
+                  setSlugEdited(true)
+                  setForm((prev) => ({
+                    ...prev,
+                    slug: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-'),
+                  }))
+                }}
+                disabled={saving}
+              />
+              <p className="text-xs text-muted-foreground">/sales/{form.slug || '...'}</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="event-description">Description</Label>
+            <Textarea
+              id="event-description"
+              value={form.description}
+              onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              rows={3}
+              disabled={saving}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="event-start">Opens *</Label>
+              <Input
+                id="event-start"
+                type="datetime-local"
+                value={form.startTime}
+                onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-first-end">First lot closes *</Label>
+              <Input
+                id="event-first-end"
+                type="datetime-local"
+                value={form.firstLotEndTime}
+                onChange={(e) => setForm((prev) => ({ ...prev, firstLotEndTime: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-interval">Minutes between lots *</Label>
+              <Input
+                id="event-interval"
+                type="number"
+                min={1}
+                max={60}
+                value={form.lotIntervalMinutes}
+                onChange={(e) => setForm((prev) => ({ ...prev, lotIntervalMinutes: e.target.value }))}
+                disabled={saving}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Approved listings</Label>
+              {listings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No approved listings are waiting for an auction
+                </p>
+              ) : (
+                <ul className="max-h-96 divide-y overflow-y-auto rounded-lg border">
+                  {listings.map((listing) => (
+                    <li key={listing.id} className="flex items-center gap-3 p-3 text-sm">
+                      <Checkbox
+                        id={`lot-${listing.id}`}
+                        checked={lots.includes(listing.id)}
+                        onCheckedChange={() => toggleLot(listing.id)}
+                        disabled={saving}
+                      />
+                      <label htmlFor={`lot-${listing.id}`} className="flex-1 cursor-pointer">
+                        {listing.year} {listing.make} {listing.model}
+                        <span className="block text-xs text-muted-foreground">{listing.title}</span>
+                      </label>
+                      <span className="text-muted-foreground">
+                        {formatCurrency(Number(listing.startingPrice), listing.currency)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lot order</Label>
+              {lots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Pick listings to add them as lots</p>
+              ) : (
+                <ol className="divide-y rounded-lg border">
+                  {lots.map((listingId, index) => {
+                    const listing = listings.find((l) => l.id === listingId)
+                    return (
+                      <li key={listingId} className="flex items-center gap-3 p-3 text-sm">
+                        <span className="w-12 font-medium">Lot {index + 1}</span>
+                        <span className="flex-1">
+                          {listing ? `${listing.year} ${listing.make} ${listing.model}` : listingId}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveLot(index, -1)}
+                          disabled={saving || index === 0}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => moveLot(index, 1)}
+                          disabled={saving || index === lots.length - 1}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    )
+                  })}
+                </ol>
+              )}
+              {lastLotEnd && (
+                <p className="text-xs text-muted-foreground">
+                  Last lot closes {lastLotEnd.toLocaleString()} (later if earlier lots are extended)
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleCreate} disabled={saving || !isValid}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Sale
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
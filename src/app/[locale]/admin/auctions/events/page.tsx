@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { AuctionEventsClient } from './auction-events-client'
+
+export const metadata = {
+  title: 'Sales - Admin',
+}
+
+export default async function AdminAuctionEventsPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || !['ADMIN', 'MODERATOR'].includes(user.role)) {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Sales</h1>
+        <p className="mt-2 text-muted-foreground">
+          Group approved listings into themed sales with staggered closing
+        </p>
+      </div>
+
+      <AuctionEventsClient />
+    </div>
+  )
+}
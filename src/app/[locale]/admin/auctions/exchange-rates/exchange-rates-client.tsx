@@ -0,0 +1,215 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Upload } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type RateRow = {
+  id: string
+  currency: string
+  rate: string
+  rateDate: string
+  source: string
+}
+
+type SalesRow = {
+  currency: string
+  saleCount: number
+  hammerTotal: number
+  hammerTotalEur: number | null
+  unratedCount: number
+}
+
+type ImportResult = {
+  dayCount: number
+  importedCount: number
+  firstDate: string
+  lastDate: string
+  currencies: string[]
+}
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7)
+}
+
+export function ExchangeRatesClient() {
+  const [month, setMonth] = useState(currentMonth)
+  const [rates, setRates] = useState<RateRow[]>([])
+  const [sales, setSales] = useState<SalesRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [uploading, setUploading] = useState(false)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  const fetchRates = useCallback(async () => {
+    if (!month) {return}
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/exchange-rates?month=${month}`)
+      if (!response.ok) {throw new Error('Failed to load exchange rates')}
+
+      const data = await response.json()
+      setRates(data.data.rates)
+      setSales(data.data.sales)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load exchange rates')
+    } finally {
+      setLoading(false)
+    }
+  }, [month])
+
+  useEffect(() => {
+    fetchRates()
+  }, [fetchRates])
+
+  const handleUpload = async (file: File) => {
+    try {
+      setUploading(true)
+      const response = await fetch('/api/admin/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, content: await file.text() }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to import rates')
+      }
+
+      const result: ImportResult = data.data.result
+      toast.success(
+        `${result.importedCount} new rates for ${result.currencies.join(', ') || 'no supported currency'} ` +
+          `(${result.firstDate} to ${result.lastDate})`
+      )
+      await fetchRates()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import rates')
+    } finally {
+      setUploading(false)
+      if (fileInput.current) {
+        fileInput.current.value = ''
+      }
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import rates</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            ECB euro foreign exchange reference rates as XML: the daily file or the 90-day and
+            historical files. Days already imported are kept as they are.
+          </p>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".xml,text/xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) {
+                handleUpload(file)
+              }
+            }}
+          />
+          <Button onClick={() => fileInput.current?.click()} disabled={uploading}>
+            {uploading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Choose rate file
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Latest rates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rates imported yet</p>
+          ) : (
+            <ul className="divide-y">
+              {rates.map((rate) => (
+                <li key={rate.id} className="flex items-center justify-between gap-4 py-3">
+                  <p className="font-medium">
+                    1 EUR = <span className="font-mono">{Number(rate.rate)}</span> {rate.currency}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(rate.rateDate).toLocaleDateString()} · {rate.source}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sales by currency</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sales-month">Month</Label>
+            <Input
+              id="sales-month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="max-w-[200px]"
+            />
+          </div>
+          {loading ? null : sales.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No paid sales this month</p>
+          ) : (
+            <ul className="divide-y">
+              {sales.map((row) => (
+                <li key={row.currency} className="flex flex-wrap items-start justify-between gap-4 py-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {formatCurrency(row.hammerTotal, row.currency)} · {row.saleCount}{' '}
+                      {row.saleCount === 1 ? 'sale' : 'sales'}
+                    </p>
+                    {row.unratedCount > 0 && (
+                      <p className="text-xs text-amber-600">
+                        {row.unratedCount} without a rate at sale, left out of the EUR total
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {row.hammerTotalEur === null ? 'No EUR total' : formatCurrency(row.hammerTotalEur, 'EUR')}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,483 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Plus, Save, Trash2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import { CATEGORIES, CATEGORY_LABELS } from '@/constants/listing-form'
+import {
+  calculateBuyerFee,
+  calculateSellerFees,
+  resolveFeeTerms,
+  type FeeOverride,
+  type FeeSchedule,
+  type FeeTerms,
+  type FeeTier,
+} from '@/domain/auction/rules'
+
+// Select value for an override that applies to every category
+const ANY_CATEGORY = 'any'
+
+function toPercent(rate: number | undefined): string {
+  return rate === undefined ? '' : String(Math.round(rate * 10000) / 100)
+}
+
+function fromPercent(value: string): number | undefined {
+  return value === '' ? undefined : Number(value) / 100
+}
+
+function fromAmount(value: string): number | undefined {
+  return value === '' ? undefined : Number(value)
+}
+
+type TiersEditorProps = {
+  tiers: FeeTier[]
+  onChange: (tiers: FeeTier[]) => void
+  disabled: boolean
+}
+
+function TiersEditor({ tiers, onChange, disabled }: TiersEditorProps) {
+  const updateTier = (index: number, tier: Partial<FeeTier>) =>
+    onChange(tiers.map((t, i) => (i === index ? { ...t, ...tier } : t)))
+
+  // New tiers are inserted before the open-ended last one
+  const addTier = () => {
+    const last = tiers[tiers.length - 1]
+    const previousLimit = tiers.length > 1 ? tiers[tiers.length - 2].upTo ?? 0 : 0
+    onChange([
+      ...tiers.slice(0, -1),
+      { upTo: previousLimit + 10000, rate: last.rate },
+      last,
+    ])
+  }
+
+  return (
+    <div className="space-y-2">
+      {tiers.map((tier, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          <span className="w-20 text-muted-foreground">
+            {index === tiers.length - 1 ? (index === 0 ? 'All' : 'Above') : 'Up to'}
+          </span>
+          {index < tiers.length - 1 ? (
+            <Input
+              type="number"
+              min="1"
+              className="w-32"
+              value={tier.upTo ?? ''}
+              onChange={(e) => updateTier(index, { upTo: Number(e.target.value) })}
+              disabled={disabled}
+            />
+          ) : (
+            <span className="w-32 text-muted-foreground">
+              {index === 0 ? 'prices' : tiers[index - 1].upTo}
+            </span>
+          )}
+          <Input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            className="w-24"
+            value={toPercent(tier.rate)}
+            onChange={(e) => updateTier(index, { rate: fromPercent(e.target.value) ?? 0 })}
+            disabled={disabled}
+          />
+          <span>%</span>
+          {index < tiers.length - 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={addTier} disabled={disabled}>
+        <Plus className="mr-1 h-4 w-4" />
+        Add tier
+      </Button>
+    </div>
+  )
+}
+
+type TermsEditorProps = {
+  terms: Partial<FeeTerms>
+  onChange: (terms: Partial<FeeTerms>) => void
+  // Overrides leave fields empty to inherit them from the default terms
+  inherit?: FeeTerms
+  disabled: boolean
+}
+
+function TermsEditor({ terms, onChange, inherit, disabled }: TermsEditorProps) {
+  const update = (fields: Partial<FeeTerms>) => onChange({ ...terms, ...fields })
+  const placeholder = (value: string) => (inherit ? `${value} (default)` : undefined)
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-2 md:col-span-2">
+        <Label>Buyer premium</Label>
+        {terms.buyerPremium ? (
+          <>
+            <TiersEditor
+              tiers={terms.buyerPremium}
+              onChange={(buyerPremium) => update({ buyerPremium })}
+              disabled={disabled}
+            />
+            {inherit && (
+              <Button
+                variant="link"
+                size="sm"
+                className="px-0"
+                onClick={() => update({ buyerPremium: undefined })}
+                disabled={disabled}
+              >
+                Use the default premium
+              </Button>
+            )}
+          </>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => update({ buyerPremium: inherit?.buyerPremium.map((tier) => ({ ...tier })) })}
+            disabled={disabled}
+          >
+            Override the default premium
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Minimum buyer fee</Label>
+        <Input
+          type="number"
+          min="0"
+          value={terms.minBuyerFee ?? ''}
+          placeholder={placeholder(String(inherit?.minBuyerFee))}
+          onChange={(e) => update({ minBuyerFee: fromAmount(e.target.value) ?? (inherit ? undefined : 0) })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Maximum buyer fee</Label>
+        <Input
+          type="number"
+          min="1"
+          value={terms.maxBuyerFee ?? ''}
+          placeholder={inherit ? placeholder(String(inherit.maxBuyerFee ?? 'no cap')) : 'No cap'}
+          onChange={(e) => update({ maxBuyerFee: fromAmount(e.target.value) ?? (inherit ? undefined : null) })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Seller commission (%)</Label>
+        <Input
+          type="number"
+          min="0"
+          max="100"
+          step="0.1"
+          value={toPercent(terms.sellerCommissionRate)}
+          placeholder={placeholder(toPercent(inherit?.sellerCommissionRate))}
+          onChange={(e) =>
+            update({ sellerCommissionRate: fromPercent(e.target.value) ?? (inherit ? undefined : 0) })
+          }
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Seller listing fee</Label>
+        <Input
+          type="number"
+          min="0"
+          value={terms.sellerListingFee ?? ''}
+          placeholder={placeholder(String(inherit?.sellerListingFee))}
+          onChange={(e) =>
+            update({ sellerListingFee: fromAmount(e.target.value) ?? (inherit ? undefined : 0) })
+          }
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  )
+}
+
+export function FeesClient() {
+  const [schedule, setSchedule] = useState<FeeSchedule | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [previewPrice, setPreviewPrice] = useState('25000')
+  const [previewCategory, setPreviewCategory] = useState<string>('CLASSIC_CAR')
+  const [previewCountry, setPreviewCountry] = useState('RO')
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch('/api/admin/fees')
+        if (!response.ok) {throw new Error('Failed to load the fee schedule')}
+
+        const data = await response.json()
+        setSchedule(data.data.schedule)
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load the fee schedule')
+      }
+    }
+
+    fetchSchedule()
+  }, [])
+
+  const handleSave = async () => {
+    if (!schedule) {return}
+
+    try {
+      setSaving(true)
+      const response = await fetch('/api/admin/fees', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to save the fee schedule')
+      }
+
+      setSchedule(data.data.schedule)
+      toast.success('Fee schedule saved. It applies to auctions created from now on.')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save the fee schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!schedule) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const updateOverride = (index: number, override: FeeOverride) =>
+    setSchedule({
+      ...schedule,
+      overrides: schedule.overrides.map((o, i) => (i === index ? override : o)),
+    })
+
+  const price = Number(previewPrice) || 0
+  const previewTerms = resolveFeeTerms(schedule, {
+    category: previewCategory,
+    country: previewCountry.toUpperCase(),
+  })
+  const buyerFee = calculateBuyerFee(price, previewTerms)
+  const sellerFees = calculateSellerFees(price, previewTerms)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link
+          href="/admin/auctions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to auctions
+        </Link>
+
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Save schedule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Default terms</CardTitle>
+          <CardDescription>
+            Tier rates apply to the part of the hammer price within each tier
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TermsEditor
+            terms={schedule.default}
+            onChange={(terms) => setSchedule({ ...schedule, default: terms as FeeTerms })}
+            disabled={saving}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Overrides</CardTitle>
+          <CardDescription>
+            An override matching both category and country wins over one matching only one of
+            them. Empty fields keep the default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {schedule.overrides.map((override, index) => (
+            <div key={index} className="space-y-4 rounded-lg border p-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={override.category ?? ANY_CATEGORY}
+                    onValueChange={(value) =>
+                      updateOverride(index, {
+                        ...override,
+                        category: value === ANY_CATEGORY ? undefined : value,
+                      })
+                    }
+                    disabled={saving}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                      {CATEGORIES.map((category) => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Country</Label>
+                  <Input
+                    className="w-24"
+                    maxLength={2}
+                    placeholder="Any"
+                    value={override.country ?? ''}
+                    onChange={(e) =>
+                      updateOverride(index, {
+                        ...override,
+                        country: e.target.value.toUpperCase() || undefined,
+                      })
+                    }
+                    disabled={saving}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setSchedule({
+                      ...schedule,
+                      overrides: schedule.overrides.filter((_, i) => i !== index),
+                    })
+                  }
+                  disabled={saving}
+                >
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+              <TermsEditor
+                terms={override}
+                onChange={(terms) => updateOverride(index, { ...override, ...terms })}
+                inherit={schedule.default}
+                disabled={saving}
+              />
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={() =>
+              setSchedule({ ...schedule, overrides: [...schedule.overrides, { category: 'CLASSIC_CAR' }] })
+            }
+            disabled={saving}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add override
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Preview</CardTitle>
+          <CardDescription>What the unsaved schedule charges on a sale</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            <div className="space-y-2">
+              <Label>Hammer price</Label>
+              <Input
+                type="number"
+                min="0"
+                className="w-40"
+                value={previewPrice}
+                onChange={(e) => setPreviewPrice(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={previewCategory} onValueChange={setPreviewCategory}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CATEGORIES.map((category) => (
+                    <SelectItem key={category.value} value={category.value}>
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Country</Label>
+              <Input
+                className="w-24"
+                maxLength={2}
+                value={previewCountry}
+                onChange={(e) => setPreviewCountry(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <dl className="grid gap-2 text-sm sm:grid-cols-2">
+            <dt className="text-muted-foreground">Buyer fee</dt>
+            <dd>{formatCurrency(buyerFee, 'EUR')}</dd>
+            <dt className="text-muted-foreground">Buyer pays</dt>
+            <dd className="font-medium">{formatCurrency(price + buyerFee, 'EUR')}</dd>
+            <dt className="text-muted-foreground">Seller commission</dt>
+            <dd>{formatCurrency(sellerFees.commission, 'EUR')}</dd>
+            <dt className="text-muted-foreground">Seller listing fee</dt>
+            <dd>{formatCurrency(sellerFees.listingFee, 'EUR')}</dd>
+            <dt className="text-muted-foreground">Seller receives</dt>
+            <dd className="font-medium">{formatCurrency(price - sellerFees.total, 'EUR')}</dd>
+            <dt className="text-muted-foreground">Platform revenue</dt>
+            <dd>{formatCurrency(buyerFee + sellerFees.total, 'EUR')}</dd>
+          </dl>
+          <p className="text-xs text-muted-foreground">
+            {CATEGORY_LABELS[previewCategory]} in {previewCountry.toUpperCase() || 'any country'}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
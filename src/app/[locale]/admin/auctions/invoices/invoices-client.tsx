@@ -0,0 +1,171 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Download } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type VatTreatment = 'STANDARD' | 'REVERSE_CHARGE' | 'OUTSIDE_SCOPE'
+
+const VAT_LABELS: Record<VatTreatment, string> = {
+  STANDARD: 'VAT',
+  REVERSE_CHARGE: 'Reverse charge',
+  OUTSIDE_SCOPE: 'Outside scope',
+}
+
+type InvoiceRow = {
+  id: string
+  number: string
+  auctionId: string
+  currency: string
+  netAmount: string
+  vatTreatment: VatTreatment
+  vatRate: string
+  vatAmount: string
+  totalAmount: string
+  buyerName: string
+  buyerCountry: string
+  buyerVatNumber: string | null
+  issuedAt: string
+}
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7)
+}
+
+export function InvoicesClient() {
+  const [month, setMonth] = useState(currentMonth)
+  const [invoices, setInvoices] = useState<InvoiceRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchInvoices = useCallback(async () => {
+    if (!month) {return}
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/invoices?month=${month}`)
+      if (!response.ok) {throw new Error('Failed to load invoices')}
+
+      const data = await response.json()
+      setInvoices(data.data.invoices)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load invoices')
+    } finally {
+      setLoading(false)
+    }
+  }, [month])
+
+  useEffect(() => {
+    fetchInvoices()
+  }, [fetchInvoices])
+
+  // Totals per currency
+  const totals = invoices.reduce<Record<string, { net: number; vat: number; total: number }>>(
+    (acc, invoice) => {
+      const sum = acc[invoice.currency] ?? { net: 0, vat: 0, total: 0 }
+      sum.net += Number(invoice.netAmount)
+      sum.vat += Number(invoice.vatAmount)
+      sum.total += Number(invoice.totalAmount)
+      acc[invoice.currency] = sum
+      return acc
+    },
+    {}
+  )
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly export</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-month">Month</Label>
+            <Input
+              id="invoice-month"
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" asChild disabled={!month}>
+            <a href={`/api/admin/invoices/export?month=${month}`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download CSV
+            </a>
+          </Button>
+          {Object.entries(totals).map(([currency, sum]) => (
+            <p key={currency} className="text-sm text-muted-foreground">
+              {currency}: net {formatCurrency(sum.net, currency)} · VAT{' '}
+              {formatCurrency(sum.vat, currency)} · total {formatCurrency(sum.total, currency)}
+            </p>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invoices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No invoices issued this month</p>
+          ) : (
+            <ul className="divide-y">
+              {invoices.map((invoice) => (
+                <li key={invoice.id} className="flex flex-wrap items-start justify-between gap-4 py-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      <span className="font-mono">{invoice.number}</span> ·{' '}
+                      {formatCurrency(Number(invoice.totalAmount), invoice.currency)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {invoice.buyerName} · {invoice.buyerCountry}
+                      {invoice.buyerVatNumber && ` · ${invoice.buyerVatNumber}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(invoice.issuedAt).toLocaleDateString()} · net{' '}
+                      {formatCurrency(Number(invoice.netAmount), invoice.currency)} · VAT{' '}
+                      {formatCurrency(Number(invoice.vatAmount), invoice.currency)} · auction{' '}
+                      {invoice.auctionId}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant={invoice.vatTreatment === 'STANDARD' ? 'secondary' : 'outline'}>
+                      {VAT_LABELS[invoice.vatTreatment]}
+                      {invoice.vatTreatment === 'STANDARD' && ` ${Number(invoice.vatRate)}%`}
+                    </Badge>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/account/invoices/${invoice.id}/download?format=pdf`}>PDF</a>
+                    </Button>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/account/invoices/${invoice.id}/download?format=xml`}>XML</a>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
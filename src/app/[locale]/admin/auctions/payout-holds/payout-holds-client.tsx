@@ -0,0 +1,167 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { formatCurrency } from '@/lib/utils'
+import { Loader2, ArrowLeft, Unlock } from 'lucide-react'
+
+const REASON_LABELS: Record<string, string> = {
+  HOLDING_PERIOD: 'Holding period',
+  HANDOVER: 'Awaiting handover',
+  FIRST_SALE: 'First sale',
+  FRAUD_ALERT: 'Fraud alert',
+}
+
+type HoldRow = {
+  id: string
+  reason: string
+  releaseAt: string | null
+  createdAt: string
+}
+
+type HeldPayoutRow = {
+  id: string
+  currency: string
+  finalPrice: string | null
+  paidAt: string | null
+  listing: { title: string; seller: { id: string; name: string | null; email: string } }
+  payoutHolds: HoldRow[]
+}
+
+export function PayoutHoldsClient() {
+  const [payouts, setPayouts] = useState<HeldPayoutRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [releasing, setReleasing] = useState<string | null>(null)
+
+  const fetchPayouts = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/payout-holds')
+      if (!response.ok) {throw new Error('Failed to load held payouts')}
+
+      const data = await response.json()
+      setPayouts(data.data.payouts)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load held payouts')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPayouts()
+  }, [fetchPayouts])
+
+  const handleRelease = async (id: string) => {
+    try {
+      setReleasing(id)
+      const response = await fetch(`/api/admin/payout-holds/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: notes[id]?.trim() || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to release hold')
+      }
+
+      if (data.data.payout.success) {
+        toast.success('Hold released and payout sent')
+      } else {
+        toast.success(`Hold released. ${data.data.payout.error ?? ''}`)
+      }
+      await fetchPayouts()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to release hold')
+    } finally {
+      setReleasing(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Held payouts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : payouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payouts are on hold</p>
+          ) : (
+            <ul className="divide-y">
+              {payouts.map((payout) => (
+                <li key={payout.id} className="space-y-3 py-4">
+                  <div className="space-y-1">
+                    <Link href={`/auctions/${payout.id}`} className="font-medium hover:underline">
+                      {payout.listing.title}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">
+                      {payout.listing.seller.name ?? payout.listing.seller.email}
+                      {payout.finalPrice && ` · ${formatCurrency(Number(payout.finalPrice), payout.currency)}`}
+                      {payout.paidAt && ` · paid ${new Date(payout.paidAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <ul className="space-y-2">
+                    {payout.payoutHolds.map((hold) => (
+                      <li key={hold.id} className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{REASON_LABELS[hold.reason] ?? hold.reason}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {hold.releaseAt
+                            ? `Releases ${new Date(hold.releaseAt).toLocaleString()}`
+                            : `Since ${new Date(hold.createdAt).toLocaleString()}`}
+                        </span>
+                        {hold.reason === 'FRAUD_ALERT' ? (
+                          <Link href="/admin/fraud" className="text-xs hover:underline">
+                            Review fraud alerts
+                          </Link>
+                        ) : (
+                          <>
+                            <Input
+                              placeholder="Note (optional)"
+                              value={notes[hold.id] ?? ''}
+                              onChange={(e) => setNotes({ ...notes, [hold.id]: e.target.value })}
+                              className="h-8 max-w-xs"
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRelease(hold.id)}
+                              disabled={releasing === hold.id}
+                            >
+                              <Unlock className="mr-1 h-4 w-4" />
+                              Release
+                            </Button>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
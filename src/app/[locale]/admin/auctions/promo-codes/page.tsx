@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { PromoCodesClient } from './promo-codes-client'
+
+export const metadata = {
+  title: 'Promo Codes - Admin',
+}
+
+export default async function AdminPromoCodesPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || user.role !== 'ADMIN') {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Promo Codes</h1>
+        <p className="mt-2 text-muted-foreground">
+          Discounts on the buyer fee and seller commission, with redemption stats
+        </p>
+      </div>
+
+      <PromoCodesClient />
+    </div>
+  )
+}
@@ -0,0 +1,390 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Plus } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import { CATEGORIES, CATEGORY_LABELS } from '@/constants/listing-form'
+
+type Target = 'BUYER_FEE' | 'SELLER_COMMISSION'
+type DiscountType = 'PERCENT' | 'FIXED'
+
+const TARGET_LABELS: Record<Target, string> = {
+  BUYER_FEE: 'buyer fee',
+  SELLER_COMMISSION: 'seller commission',
+}
+
+type PromoCodeRow = {
+  id: string
+  code: string
+  description: string | null
+  target: Target
+  discountType: DiscountType
+  discountValue: string
+  startsAt: string | null
+  endsAt: string | null
+  maxRedemptions: number | null
+  perUserLimit: number
+  categories: string[]
+  active: boolean
+  createdAt: string
+  createdBy: { id: string; name: string | null; email: string }
+  stats: { redemptions: number; applied: number; totalDiscount: number }
+}
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  target: 'BUYER_FEE' as Target,
+  discountType: 'PERCENT' as DiscountType,
+  discountValue: '100',
+  startsAt: '',
+  endsAt: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  categories: [] as string[],
+}
+
+function formatDate(value: string | null) {
+  return value ? new Date(value).toLocaleString() : null
+}
+
+export function PromoCodesClient() {
+  const [promoCodes, setPromoCodes] = useState<PromoCodeRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [creating, setCreating] = useState(false)
+  const [toggling, setToggling] = useState<string | null>(null)
+
+  const fetchPromoCodes = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/promo-codes')
+      if (!response.ok) {throw new Error('Failed to load promo codes')}
+
+      const data = await response.json()
+      setPromoCodes(data.data.promoCodes)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load promo codes')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPromoCodes()
+  }, [fetchPromoCodes])
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true)
+      const response = await fetch('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          code: form.code,
+          description: form.description.trim() || undefined,
+          target: form.target,
+          discountType: form.discountType,
+          discountValue: parseFloat(form.discountValue),
+          startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : undefined,
+          endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : undefined,
+          maxRedemptions: form.maxRedemptions ? parseInt(form.maxRedemptions, 10) : undefined,
+          perUserLimit: parseInt(form.perUserLimit, 10) || 1,
+          categories: form.categories,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to create promo code')
+      }
+
+      toast.success(`Promo code ${data.data.promoCode.code} created`)
+      setForm(EMPTY_FORM)
+      await fetchPromoCodes()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create promo code')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const toggleActive = async (promo: PromoCodeRow) => {
+    try {
+      setToggling(promo.id)
+      const response = await fetch(`/api/admin/promo-codes/${promo.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !promo.active }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to update promo code')
+      }
+
+      setPromoCodes((prev) =>
+        prev.map((p) => (p.id === promo.id ? { ...p, active: data.data.promoCode.active } : p))
+      )
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update promo code')
+    } finally {
+      setToggling(null)
+    }
+  }
+
+  const toggleCategory = (category: string, checked: boolean) =>
+    setForm((prev) => ({
+      ...prev,
+      categories: checked
+        ? [...prev.categories, category]
+        : prev.categories.filter((c) => c !== category),
+    }))
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New promo code</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                placeholder="WEEKEND0"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                disabled={creating}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="promo-description">Description</Label>
+              <Input
+                id="promo-description"
+                placeholder="0% buyer fee this weekend"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                disabled={creating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Discount on</Label>
+              <Select
+                value={form.target}
+                onValueChange={(value) => setForm({ ...form, target: value as Target })}
+                disabled={creating}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BUYER_FEE">Buyer fee</SelectItem>
+                  <SelectItem value="SELLER_COMMISSION">Seller commission</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Discount type</Label>
+              <Select
+                value={form.discountType}
+                onValueChange={(value) => setForm({ ...form, discountType: value as DiscountType })}
+                disabled={creating}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENT">Percentage</SelectItem>
+                  <SelectItem value="FIXED">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-value">
+                {form.discountType === 'PERCENT' ? 'Percent off' : 'Amount off (EUR)'}
+              </Label>
+              <Input
+                id="promo-value"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={form.discountType === 'PERCENT' ? 100 : undefined}
+                value={form.discountValue}
+                onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                disabled={creating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="promo-starts">Starts</Label>
+              <Input
+                id="promo-starts"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                disabled={creating}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-ends">Ends</Label>
+              <Input
+                id="promo-ends"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                disabled={creating}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="promo-max">Total uses</Label>
+                <Input
+                  id="promo-max"
+                  type="number"
+                  min="1"
+                  placeholder="No cap"
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                  disabled={creating}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promo-per-user">Per user</Label>
+                <Input
+                  id="promo-per-user"
+                  type="number"
+                  min="1"
+                  value={form.perUserLimit}
+                  onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })}
+                  disabled={creating}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categories (none selected means every category)</Label>
+            <div className="flex flex-wrap gap-4">
+              {CATEGORIES.map((category) => (
+                <label key={category.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.categories.includes(category.value)}
+                    onCheckedChange={(checked) => toggleCategory(category.value, checked === true)}
+                    disabled={creating}
+                  />
+                  {category.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={creating || form.code.trim().length < 3 || !form.discountValue}
+          >
+            {creating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Create Code
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Promo codes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : promoCodes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No promo codes yet</p>
+          ) : (
+            <ul className="divide-y">
+              {promoCodes.map((promo) => {
+                const validity = [formatDate(promo.startsAt), formatDate(promo.endsAt)]
+
+                return (
+                  <li key={promo.id} className="flex flex-wrap items-start justify-between gap-4 py-4">
+                    <div className="space-y-1">
+                      <p className="font-medium">
+                        <span className="font-mono">{promo.code}</span> ·{' '}
+                        {promo.discountType === 'PERCENT'
+                          ? `${Number(promo.discountValue)}%`
+                          : formatCurrency(Number(promo.discountValue), 'EUR')}{' '}
+                        off the {TARGET_LABELS[promo.target]}
+                      </p>
+                      {promo.description && (
+                        <p className="text-sm text-muted-foreground">{promo.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {validity[0] || validity[1]
+                          ? `${validity[0] ?? 'Now'} – ${validity[1] ?? 'no end'}`
+                          : 'No time limit'}
+                        {' · '}
+                        {promo.categories.length > 0
+                          ? promo.categories.map((c) => CATEGORY_LABELS[c]).join(', ')
+                          : 'All categories'}
+                        {' · '}
+                        {promo.perUserLimit} per user · by {promo.createdBy.name || promo.createdBy.email}
+                      </p>
+                      <p className="text-sm">
+                        {promo.stats.redemptions}
+                        {promo.maxRedemptions !== null && ` / ${promo.maxRedemptions}`} redeemed ·{' '}
+                        {promo.stats.applied} applied ·{' '}
+                        {formatCurrency(promo.stats.totalDiscount, 'EUR')} discounted
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={promo.active ? 'secondary' : 'outline'}>
+                        {promo.active ? 'Active' : 'Off'}
+                      </Badge>
+                      <Switch
+                        checked={promo.active}
+                        onCheckedChange={() => toggleActive(promo)}
+                        disabled={toggling !== null}
+                      />
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { ReconciliationClient } from './reconciliation-client'
+
+export const metadata = {
+  title: 'Payment Reconciliation - Admin',
+}
+
+export default async function AdminReconciliationPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || user.role !== 'ADMIN') {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Payment Reconciliation</h1>
+        <p className="mt-2 text-muted-foreground">
+          Mismatches between payment records and Stripe found by the nightly check
+        </p>
+      </div>
+
+      <ReconciliationClient />
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Check } from 'lucide-react'
+
+const KIND_LABELS: Record<string, string> = {
+  PAYMENT_NOT_RECORDED: 'Payment collected, not recorded',
+  PAYMENT_CANCELED: 'Payment cancelled',
+  PAYMENT_NOT_COLLECTED: 'Marked paid, not collected',
+  DEPOSIT_NOT_RECORDED: 'Deposit authorised, not recorded',
+  DEPOSIT_FAILED: 'Deposit authorisation failed',
+  DEPOSIT_HOLD_LAPSED: 'Deposit hold lapsed',
+  DEPOSIT_CAPTURED: 'Held deposit captured',
+  PAYOUT_REVERSED: 'Payout reversed',
+  PAYOUT_STALLED: 'Payout stalled',
+  PROVIDER_RECORD_MISSING: 'Missing at Stripe',
+}
+
+type IssueRow = {
+  id: string
+  kind: string
+  resourceType: 'auction' | 'deposit' | 'payout'
+  resourceId: string
+  externalId: string | null
+  localStatus: string
+  remoteStatus: string | null
+  detail: string | null
+  createdAt: string
+  auction: { id: string; listing: { title: string } } | null
+}
+
+type RunRow = {
+  id: string
+  checkedCount: number
+  autoFixedCount: number
+  openCount: number
+  errorCount: number
+  startedAt: string
+  finishedAt: string | null
+}
+
+function IssueSummary({ issue }: { issue: IssueRow }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <p className="font-medium">{KIND_LABELS[issue.kind] ?? issue.kind}</p>
+        <Badge variant="outline" className="capitalize">
+          {issue.resourceType}
+        </Badge>
+      </div>
+      {issue.auction && (
+        <Link href={`/auctions/${issue.auction.id}`} className="text-sm hover:underline">
+          {issue.auction.listing.title}
+        </Link>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Ours: {issue.localStatus}
+        {issue.remoteStatus && ` · Stripe: ${issue.remoteStatus}`}
+        {issue.externalId && (
+          <>
+            {' · '}
+            <span className="font-mono">{issue.externalId}</span>
+          </>
+        )}
+      </p>
+      {issue.detail && <p className="text-sm text-muted-foreground">{issue.detail}</p>}
+    </div>
+  )
+}
+
+export function ReconciliationClient() {
+  const [runs, setRuns] = useState<RunRow[]>([])
+  const [openIssues, setOpenIssues] = useState<IssueRow[]>([])
+  const [autoFixed, setAutoFixed] = useState<IssueRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [resolving, setResolving] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/reconciliation')
+      if (!response.ok) {throw new Error('Failed to load reconciliation report')}
+
+      const data = await response.json()
+      setRuns(data.data.runs)
+      setOpenIssues(data.data.openIssues)
+      setAutoFixed(data.data.autoFixed)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load reconciliation report')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const handleResolve = async (id: string) => {
+    try {
+      setResolving(id)
+      const response = await fetch(`/api/admin/reconciliation/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ note: notes[id]?.trim() }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to resolve issue')
+      }
+
+      toast.success('Issue resolved')
+      await fetchReport()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve issue')
+    } finally {
+      setResolving(null)
+    }
+  }
+
+  const lastRun = runs[0]
+
+  return (
+    <div className="space-y-6">
+      <Link
+        href="/admin/auctions"
+        className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to auctions
+      </Link>
+
+      {lastRun && (
+        <p className="text-sm text-muted-foreground">
+          Last run {new Date(lastRun.startedAt).toLocaleString()}: checked {lastRun.checkedCount},
+          fixed {lastRun.autoFixedCount}, raised {lastRun.openCount}
+          {lastRun.errorCount > 0 && `, ${lastRun.errorCount} could not be checked`}
+          {!lastRun.finishedAt && ' (did not finish)'}
+        </p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Needs review</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : openIssues.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open issues</p>
+          ) : (
+            <ul className="divide-y">
+              {openIssues.map((issue) => (
+                <li key={issue.id} className="space-y-3 py-4">
+                  <IssueSummary issue={issue} />
+                  <p className="text-xs text-muted-foreground">
+                    Found {new Date(issue.createdAt).toLocaleString()}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      placeholder="What was done"
+                      value={notes[issue.id] ?? ''}
+                      onChange={(e) => setNotes({ ...notes, [issue.id]: e.target.value })}
+                      className="max-w-md"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleResolve(issue.id)}
+                      disabled={resolving === issue.id || !notes[issue.id]?.trim()}
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Resolve
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fixed in the last run</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? null : autoFixed.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing needed fixing</p>
+          ) : (
+            <ul className="divide-y">
+              {autoFixed.map((issue) => (
+                <li key={issue.id} className="py-3">
+                  <IssueSummary issue={issue} />
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { RefundsClient } from './refunds-client'
+
+export const metadata = {
+  title: 'Refunds - Admin',
+}
+
+export default async function AdminRefundsPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || user.role !== 'ADMIN') {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Refunds</h1>
+        <p className="mt-2 text-muted-foreground">
+          Refunds above the approval threshold wait here for a second admin
+        </p>
+      </div>
+
+      <RefundsClient currentUserId={session.user.id} />
+    </div>
+  )
+}
@@ -0,0 +1,220 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Check, X, ExternalLink } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import { REFUND_STATUS_LABELS } from '@/components/admin/refunds-dialog'
+
+type RefundStatus = keyof typeof REFUND_STATUS_LABELS
+
+type RefundRow = {
+  id: string
+  target: 'BUYER_FEE' | 'DEPOSIT'
+  amount: string
+  currency: string
+  reason: string
+  status: RefundStatus
+  failureReason: string | null
+  reviewNote: string | null
+  createdAt: string
+  auction: { id: string; currency: string; listing: { title: string } }
+  requestedBy: { id: string; name: string | null; email: string }
+  reviewedBy: { id: string; name: string | null; email: string } | null
+}
+
+export function RefundsClient({ currentUserId }: { currentUserId: string }) {
+  const [status, setStatus] = useState<RefundStatus>('PENDING_APPROVAL')
+  const [refunds, setRefunds] = useState<RefundRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  const fetchRefunds = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/refunds?status=${status}`)
+      if (!response.ok) {throw new Error('Failed to load refunds')}
+
+      const data = await response.json()
+      setRefunds(data.data.refunds)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load refunds')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchRefunds()
+  }, [fetchRefunds])
+
+  const handleReview = async (id: string, decision: 'APPROVE' | 'REJECT') => {
+    try {
+      setReviewing(id)
+      const response = await fetch(`/api/admin/refunds/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: notes[id]?.trim() || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to review refund')
+      }
+
+      if (data.data.refund.status === 'FAILED') {
+        toast.error(`Refund failed: ${data.data.refund.failureReason}`)
+      } else {
+        toast.success(decision === 'APPROVE' ? 'Refund approved and issued' : 'Refund rejected')
+      }
+      await fetchRefunds()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review refund')
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link
+          href="/admin/auctions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to auctions
+        </Link>
+
+        <Select value={status} onValueChange={(value) => setStatus(value as RefundStatus)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(REFUND_STATUS_LABELS) as RefundStatus[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {REFUND_STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Refunds</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : refunds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No refunds</p>
+          ) : (
+            <ul className="divide-y">
+              {refunds.map((refund) => {
+                const ownRequest = refund.requestedBy.id === currentUserId
+
+                return (
+                  <li key={refund.id} className="space-y-3 py-4">
+                    <div className="flex flex-wrap items-start justify-between gap-2">
+                      <div>
+                        <p className="font-medium">
+                          {formatCurrency(Number(refund.amount), refund.currency)}{' '}
+                          {refund.target === 'DEPOSIT' ? 'deposit' : 'buyer payment'} for{' '}
+                          {refund.auction.listing.title}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          Requested by {refund.requestedBy.name || refund.requestedBy.email} on{' '}
+                          {new Date(refund.createdAt).toLocaleString()}
+                          {refund.reviewedBy &&
+                            ` · reviewed by ${refund.reviewedBy.name || refund.reviewedBy.email}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={refund.status === 'FAILED' ? 'destructive' : 'outline'}>
+                          {REFUND_STATUS_LABELS[refund.status]}
+                        </Badge>
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/auctions/${refund.auction.id}`} target="_blank">
+                            <ExternalLink className="mr-1 h-4 w-4" />
+                            Auction
+                          </Link>
+                        </Button>
+                      </div>
+                    </div>
+
+                    <p className="rounded-lg bg-muted/50 p-3 text-sm">{refund.reason}</p>
+
+                    {(refund.reviewNote || refund.failureReason) && (
+                      <p className="text-sm text-muted-foreground">
+                        {refund.reviewNote}
+                        {refund.reviewNote && refund.failureReason && ' · '}
+                        {refund.failureReason}
+                      </p>
+                    )}
+
+                    {refund.status === 'PENDING_APPROVAL' &&
+                      (ownRequest ? (
+                        <p className="text-sm text-muted-foreground">
+                          You requested this refund; another admin must review it.
+                        </p>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Input
+                            className="max-w-md flex-1"
+                            placeholder="Note (optional)"
+                            value={notes[refund.id] ?? ''}
+                            onChange={(e) =>
+                              setNotes((prev) => ({ ...prev, [refund.id]: e.target.value }))
+                            }
+                            disabled={reviewing === refund.id}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => handleReview(refund.id, 'APPROVE')}
+                            disabled={reviewing !== null}
+                          >
+                            {reviewing === refund.id ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Check className="mr-1 h-4 w-4" />
+                            )}
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReview(refund.id, 'REJECT')}
+                            disabled={reviewing !== null}
+                          >
+                            <X className="mr-1 h-4 w-4" />
+                            Reject
+                          </Button>
+                        </div>
+                      ))}
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, Check, X, ExternalLink } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type RetractionStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+type BidRetractionRow = {
+  id: string
+  status: RetractionStatus
+  reason: string
+  reviewNote: string | null
+  reviewedAt: string | null
+  createdAt: string
+  bid: { id: string; amount: string; createdAt: string; isValid: boolean }
+  bidder: { id: string; name: string | null; email: string }
+  auction: { id: string; status: string; currency: string; listing: { title: string } }
+}
+
+export function BidRetractionsClient() {
+  const [status, setStatus] = useState<RetractionStatus>('PENDING')
+  const [retractions, setRetractions] = useState<BidRetractionRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  const fetchRetractions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/bid-retractions?status=${status}`)
+      if (!response.ok) {throw new Error('Failed to load retraction requests')}
+
+      const data = await response.json()
+      setRetractions(data.data.retractions)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load retraction requests')
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    fetchRetractions()
+  }, [fetchRetractions])
+
+  const handleReview = async (id: string, decision: 'APPROVED' | 'REJECTED') => {
+    try {
+      setReviewing(id)
+      const response = await fetch(`/api/admin/bid-retractions/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, note: notes[id]?.trim() || undefined }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to review retraction')
+      }
+
+      toast.success(decision === 'APPROVED' ? 'Bid retracted' : 'Retraction declined')
+      await fetchRetractions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review retraction')
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link
+          href="/admin/auctions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to auctions
+        </Link>
+
+        <Select value={status} onValueChange={(value) => setStatus(value as RetractionStatus)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="PENDING">Pending</SelectItem>
+            <SelectItem value="APPROVED">Approved</SelectItem>
+            <SelectItem value="REJECTED">Rejected</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Requests</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : retractions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No retraction requests</p>
+          ) : (
+            <ul className="divide-y">
+              {retractions.map((retraction) => (
+                <li key={retraction.id} className="space-y-3 py-4">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium">
+                        {formatCurrency(Number(retraction.bid.amount), retraction.auction.currency)} on{' '}
+                        {retraction.auction.listing.title}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {retraction.bidder.name || retraction.bidder.email} · bid placed{' '}
+                        {new Date(retraction.bid.createdAt).toLocaleString()} · requested{' '}
+                        {new Date(retraction.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{retraction.auction.status}</Badge>
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={`/auctions/${retraction.auction.id}`} target="_blank">
+                          <ExternalLink className="mr-1 h-4 w-4" />
+                          Auction
+                        </Link>
+                      </Button>
+                    </div>
+                  </div>
+
+                  <p className="rounded-lg bg-muted/50 p-3 text-sm">{retraction.reason}</p>
+
+                  {retraction.status === 'PENDING' ? (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Input
+                        className="max-w-md flex-1"
+                        placeholder="Note for the audit log (optional)"
+                        value={notes[retraction.id] ?? ''}
+                        onChange={(e) =>
+                          setNotes((prev) => ({ ...prev, [retraction.id]: e.target.value }))
+                        }
+                        disabled={reviewing === retraction.id}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleReview(retraction.id, 'APPROVED')}
+                        disabled={reviewing !== null}
+                      >
+                        {reviewing === retraction.id ? (
+                          <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Check className="mr-1 h-4 w-4" />
+                        )}
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleReview(retraction.id, 'REJECTED')}
+                        disabled={reviewing !== null}
+                      >
+                        <X className="mr-1 h-4 w-4" />
+                        Reject
+                      </Button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {retraction.status === 'APPROVED' ? 'Approved' : 'Rejected'}
+                      {retraction.reviewedAt && ` ${new Date(retraction.reviewedAt).toLocaleString()}`}
+                      {retraction.reviewNote && ` · ${retraction.reviewNote}`}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { BidRetractionsClient } from './bid-retractions-client'
+
+export const metadata = {
+  title: 'Bid Retractions - Admin',
+}
+
+export default async function AdminBidRetractionsPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || !['ADMIN', 'MODERATOR'].includes(user.role)) {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Bid Retractions</h1>
+        <p className="mt-2 text-muted-foreground">
+          Review bidders&apos; requests to withdraw a bid placed by mistake
+        </p>
+      </div>
+
+      <BidRetractionsClient />
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { WebhookEventsClient } from './webhook-events-client'
+
+export const metadata = {
+  title: 'Stripe Webhooks - Admin',
+}
+
+export default async function AdminWebhookEventsPage() {
+  const session = await auth()
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || user.role !== 'ADMIN') {
+    redirect('/')
+  }
+
+  return (
+    <div className="container py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold">Stripe Webhooks</h1>
+        <p className="mt-2 text-muted-foreground">
+          Inspect Stripe events that failed to process and replay them
+        </p>
+      </div>
+
+      <WebhookEventsClient />
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Loader2, ArrowLeft, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react'
+
+type WebhookEventStatus = 'PROCESSING' | 'PROCESSED' | 'FAILED'
+
+const STATUS_LABELS: Record<WebhookEventStatus | 'ALL', string> = {
+  FAILED: 'Failed',
+  PROCESSING: 'Processing',
+  PROCESSED: 'Processed',
+  ALL: 'All events',
+}
+
+type WebhookEventRow = {
+  id: string
+  type: string
+  livemode: boolean
+  status: WebhookEventStatus
+  attempts: number
+  lastError: string | null
+  processedAt: string | null
+  replayedAt: string | null
+  receivedAt: string
+  replayedBy: { id: string; name: string | null; email: string } | null
+}
+
+export function WebhookEventsClient() {
+  const [status, setStatus] = useState<WebhookEventStatus | 'ALL'>('FAILED')
+  const [type, setType] = useState('')
+  const [events, setEvents] = useState<WebhookEventRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [payloads, setPayloads] = useState<Record<string, unknown>>({})
+  const [replaying, setReplaying] = useState<string | null>(null)
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ status })
+      if (type.trim()) {params.set('type', type.trim())}
+      const response = await fetch(`/api/admin/webhook-events?${params}`)
+      if (!response.ok) {throw new Error('Failed to load webhook events')}
+
+      const data = await response.json()
+      setEvents(data.data.events)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load webhook events')
+    } finally {
+      setLoading(false)
+    }
+  }, [status, type])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  const togglePayload = async (id: string) => {
+    if (expanded === id) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(id)
+    if (payloads[id]) {return}
+
+    try {
+      const response = await fetch(`/api/admin/webhook-events/${id}`)
+      if (!response.ok) {throw new Error('Failed to load event payload')}
+
+      const data = await response.json()
+      setPayloads((current) => ({ ...current, [id]: data.data.event.payload }))
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load event payload')
+    }
+  }
+
+  const handleReplay = async (id: string) => {
+    try {
+      setReplaying(id)
+      const response = await fetch(`/api/admin/webhook-events/${id}`, { method: 'POST' })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to replay event')
+      }
+
+      if (data.data.event.status === 'PROCESSED') {
+        toast.success('Event processed')
+      } else {
+        toast.error(data.data.event.lastError || 'Event failed again')
+      }
+      await fetchEvents()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to replay event')
+    } finally {
+      setReplaying(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Link
+          href="/admin/auctions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to auctions
+        </Link>
+
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Event type, e.g. charge.refunded"
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+            className="w-[260px]"
+          />
+          <Select
+            value={status}
+            onValueChange={(value) => setStatus(value as WebhookEventStatus | 'ALL')}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATUS_LABELS) as Array<WebhookEventStatus | 'ALL'>).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {STATUS_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhook events</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No webhook events</p>
+          ) : (
+            <ul className="divide-y">
+              {events.map((event) => (
+                <li key={event.id} className="space-y-3 py-4">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{event.type}</p>
+                        <Badge variant={event.status === 'FAILED' ? 'destructive' : 'secondary'}>
+                          {STATUS_LABELS[event.status]}
+                        </Badge>
+                        {!event.livemode && <Badge variant="outline">Test mode</Badge>}
+                      </div>
+                      <p className="font-mono text-xs text-muted-foreground">{event.id}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Received {new Date(event.receivedAt).toLocaleString()} · {event.attempts}{' '}
+                        {event.attempts === 1 ? 'attempt' : 'attempts'}
+                        {event.replayedAt &&
+                          ` · replayed ${new Date(event.replayedAt).toLocaleString()} by ${
+                            event.replayedBy?.name || event.replayedBy?.email
+                          }`}
+                      </p>
+                      {event.lastError && (
+                        <p className="text-sm text-destructive">{event.lastError}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => togglePayload(event.id)}>
+                        {expanded === event.id ? (
+                          <ChevronDown className="mr-1 h-4 w-4" />
+                        ) : (
+                          <ChevronRight className="mr-1 h-4 w-4" />
+                        )}
+                        Payload
+                      </Button>
+                      {event.status === 'FAILED' && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleReplay(event.id)}
+                          disabled={replaying === event.id}
+                        >
+                          {replaying === event.id ? (
+                            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-1 h-4 w-4" />
+                          )}
+                          Replay
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {expanded === event.id && (
+                    <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+                      {payloads[event.id] ? JSON.stringify(payloads[event.id], null, 2) : 'Loading…'}
+                    </pre>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
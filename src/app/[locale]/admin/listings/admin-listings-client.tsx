@@ -27,8 +27,10 @@ import {
   MapPin,
   Camera,
   ShieldAlert,
+  History,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { ListingRevisionsDialog } from '@/components/admin/listing-revisions-dialog'
 import type { AdminListing, ListingStatusFilter } from '@/types'
 
 type AdminListingsClientProps = {
@@ -57,6 +59,7 @@ export function AdminListingsClient({
   const [actionType, setActionType] = useState<'approve' | 'reject' | 'request-changes' | null>(null)
   const [reason, setReason] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [revisionsListing, setRevisionsListing] = useState<AdminListing | null>(null)
 
   const fetchListings = async (status: ListingStatusFilter) => {
     setIsLoading(true)
@@ -297,6 +300,18 @@ export function AdminListingsClient({
                         </a>
                       </Button>
 
+                      {/* Resubmissions show what changed since the last review */}
+                      {listing.reviewedAt && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRevisionsListing(listing)}
+                        >
+                          <History className="mr-1 h-4 w-4" />
+                          Changes
+                        </Button>
+                      )}
+
                       {canApprove && listing.status === 'PENDING_REVIEW' && (
                         <Button
                           size="sm"
@@ -337,6 +352,19 @@ export function AdminListingsClient({
         </div>
       )}
 
+      <ListingRevisionsDialog
+        listingId={revisionsListing?.id ?? null}
+        listingTitle={revisionsListing?.title}
+        currency={revisionsListing?.currency}
+        canRevert={canReject}
+        open={!!revisionsListing}
+        onOpenChange={(open) => {
+          if (!open) {
+            setRevisionsListing(null)
+          }
+        }}
+      />
+
       {/* Action Dialog */}
       <Dialog
         open={!!actionType}
@@ -16,6 +16,16 @@ import { ConditionGrid } from '@/components/listing/condition-grid'
 import { PriceEstimate } from '@/components/auction/price-estimate'
 import { WinnerReviewPrompt } from '@/components/seller/winner-review-prompt'
 import { AskSellerButton } from '@/components/listing/ask-seller-button'
+import { SecondChanceOffer } from '@/components/auction/second-chance-offer'
+import { getPendingSecondChanceOffer } from '@/services/second-chance.service'
+import { NegotiationPanel } from '@/components/auction/negotiation-panel'
+import { getNegotiation } from '@/services/negotiation.service'
+import { EscrowPanel } from '@/components/auction/escrow-panel'
+import { getEscrowForParty } from '@/services/escrow.service'
+import { HandoverConfirmation } from '@/components/auction/handover-confirmation'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+import { areBidsHidden } from '@/services/auction.service'
+import { getConversionRate } from '@/services/exchange-rate.service'
 
 type PageProps = {
   params: Promise<{ id: string; locale: string }>
@@ -139,6 +149,39 @@ export default async function AuctionDetailPage({ params }: PageProps) {
   const hasExistingReview = auction.sellerReviews && auction.sellerReviews.length > 0
   const canReview = isWinner && isPaid
 
+  // Runner-up bidders may hold a second-chance offer after the winner defaulted
+  const secondChanceOffer = session?.user?.id && auction.status === 'SOLD' && !isWinner
+    ? await getPendingSecondChanceOffer(auction.id, session.user.id)
+    : null
+
+  // Buyer and seller follow the escrow milestones; an unpaid winner may opt in
+  const isSeller = session?.user?.id === listing.seller.id
+  const escrow = session?.user?.id && auction.status === 'SOLD' && (isWinner || isSeller)
+    ? await getEscrowForParty(auction.id, session.user.id)
+    : null
+  const showEscrow = !!escrow || (isWinner && auction.status === 'SOLD' && !isPaid)
+
+  // Outside escrow the seller's payout may wait for the buyer to confirm the handover
+  const showHandover = AUCTION_CONFIG.payoutHoldUntilHandover && isWinner && isPaid && !escrow
+
+  // Seller and high bidder negotiate after the reserve was not met; others are not a party
+  const negotiation = session?.user?.id && auction.status === 'NO_SALE' && auction.negotiationEndsAt
+    ? await getNegotiation(auction.id, session.user.id).catch(() => null)
+    : null
+
+  // Bidders see amounts converted to their preferred currency as well
+  const viewer = session?.user?.id
+    ? await prisma.user.findUnique({
+        where: { id: session.user.id },
+        select: { preferredCurrency: true },
+      })
+    : null
+  const displayCurrency = viewer?.preferredCurrency ?? auction.currency
+  const displayRate = displayCurrency !== auction.currency
+    ? await getConversionRate(auction.currency, displayCurrency)
+    : null
+  const conversion = displayRate !== null ? { currency: displayCurrency, rate: displayRate } : null
+
   // Vehicle structured data for SEO and ML/LLM friendliness
   const structuredData = {
     '@context': 'https://schema.org',
@@ -421,6 +464,60 @@ export default async function AuctionDetailPage({ params }: PageProps) {
             </div>
           </div>
 
+          {/* Second-Chance Offer */}
+          {secondChanceOffer && (
+            <SecondChanceOffer
+              auctionId={auction.id}
+              offerId={secondChanceOffer.id}
+              amount={Number(secondChanceOffer.amount)}
+              currency={auction.currency}
+              expiresAt={secondChanceOffer.expiresAt.toISOString()}
+            />
+          )}
+
+          {/* Escrow */}
+          {showEscrow && (
+            <EscrowPanel
+              auctionId={auction.id}
+              role={isWinner ? 'BUYER' : 'SELLER'}
+              amountDue={Number(auction.finalPrice || 0) + Number(auction.buyerFeeAmount || 0)}
+              currency={auction.currency}
+              escrow={escrow && {
+                status: escrow.status,
+                fundedAt: escrow.fundedAt?.toISOString() ?? null,
+                handedOverAt: escrow.handedOverAt?.toISOString() ?? null,
+                inspectionEndsAt: escrow.inspectionEndsAt?.toISOString() ?? null,
+              }}
+            />
+          )}
+
+          {/* Handover */}
+          {showHandover && (
+            <HandoverConfirmation
+              auctionId={auction.id}
+              confirmedAt={auction.handoverConfirmedAt?.toISOString() ?? null}
+            />
+          )}
+
+          {/* Post-Auction Negotiation */}
+          {negotiation && (
+            <NegotiationPanel
+              auctionId={auction.id}
+              role={negotiation.role}
+              highBid={negotiation.highBid}
+              currency={negotiation.currency}
+              endsAt={negotiation.endsAt.toISOString()}
+              isOpen={negotiation.isOpen}
+              offers={negotiation.offers.map((offer) => ({
+                id: offer.id,
+                madeBy: offer.madeBy,
+                amount: Number(offer.amount),
+                status: offer.status,
+                createdAt: offer.createdAt.toISOString(),
+              }))}
+            />
+          )}
+
           {/* Winner Review Prompt */}
           {canReview && (
             <WinnerReviewPrompt
@@ -447,7 +544,11 @@ export default async function AuctionDetailPage({ params }: PageProps) {
 
         {/* Sidebar - Bid Panel (Desktop) + Mobile Sticky Bar */}
         <div className="lg:col-span-1">
-          <AuctionDetailClient auction={auction} />
+          {/* Sealed bids stay hidden until the auction closes */}
+          <AuctionDetailClient
+            auction={areBidsHidden(auction) ? { ...auction, bids: [] } : auction}
+            conversion={conversion}
+          />
         </div>
       </div>
 
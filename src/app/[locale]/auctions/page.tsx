@@ -20,6 +20,7 @@ type SearchParams = {
   max_price?: string
   sort?: string
   q?: string
+  event?: string
 }
 
 async function getAuctions(searchParams: SearchParams) {
@@ -30,6 +31,7 @@ async function getAuctions(searchParams: SearchParams) {
   const maxPrice = searchParams.max_price ? parseInt(searchParams.max_price) : undefined
   const country = searchParams.country || undefined
   const searchQuery = searchParams.q || undefined
+  const eventId = searchParams.event || undefined
   const sortBy = (searchParams.sort as 'ending_soon' | 'newly_listed' | 'price_low' | 'price_high' | 'most_bids' | 'relevance') || 'ending_soon'
 
   // Use auction service for consistent logic with API
@@ -44,6 +46,7 @@ async function getAuctions(searchParams: SearchParams) {
     country,
     sortBy,
     searchQuery,
+    eventId,
   })
 
   return result
@@ -128,6 +131,7 @@ export default async function AuctionsPage({
                   bidCount: auction.bidCount,
                   currentEndTime: auction.currentEndTime,
                   reserveMet: auction.reserveMet,
+                  lotNumber: auction.lotNumber,
                   listing: {
                     id: auction.listing.id,
                     title: auction.listing.title,
@@ -157,7 +161,7 @@ export default async function AuctionsPage({
             (page) => (
               <a
                 key={page}
-                href={`?page=${page}${params.category ? `&category=${params.category}` : ''}${params.country ? `&country=${params.country}` : ''}${params.sort ? `&sort=${params.sort}` : ''}`}
+                href={`?page=${page}${params.category ? `&category=${params.category}` : ''}${params.country ? `&country=${params.country}` : ''}${params.sort ? `&sort=${params.sort}` : ''}${params.event ? `&event=${params.event}` : ''}`}
                 className={`rounded-lg px-3 py-1.5 text-sm font-medium transition-all sm:px-4 sm:py-2 sm:text-base ${
                   page === pagination.page
                     ? 'bg-primary text-primary-foreground shadow-md shadow-primary/25'
@@ -0,0 +1,91 @@
+import { notFound } from 'next/navigation'
+import { AuctionCard } from '@/components/auction/auction-card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Link } from '@/i18n/routing'
+import { CalendarClock, Search } from 'lucide-react'
+import { NotFoundError } from '@/lib/errors'
+import { getAuctionEventBySlug } from '@/services/auction-event.service'
+
+type Props = {
+  params: Promise<{ locale: string; slug: string }>
+}
+
+async function getSale(slug: string) {
+  try {
+    return await getAuctionEventBySlug(slug)
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null
+    }
+    throw error
+  }
+}
+
+export async function generateMetadata({ params }: Props) {
+  const { slug } = await params
+  const sale = await getSale(slug)
+
+  if (!sale) {
+    return { title: 'Sale not found - Finds' }
+  }
+
+  return {
+    title: `${sale.title} - Finds`,
+    description: sale.description || `${sale.lots.length} lots closing one after another`,
+  }
+}
+
+const STATUS_LABELS = {
+  SCHEDULED: 'Upcoming',
+  LIVE: 'Live now',
+  ENDED: 'Ended',
+  CANCELLED: 'Cancelled',
+} as const
+
+export default async function SaleCataloguePage({ params }: Props) {
+  const { slug } = await params
+  const sale = await getSale(slug)
+
+  if (!sale) {
+    notFound()
+  }
+
+  return (
+    <div className="container px-4 py-8 sm:px-6 sm:py-12">
+      <div className="mb-6 sm:mb-10">
+        <Badge variant={sale.status === 'LIVE' ? 'success' : 'muted'} className="mb-3">
+          {STATUS_LABELS[sale.status]}
+        </Badge>
+        <h1 className="font-heading text-2xl font-bold tracking-tight sm:text-4xl md:text-5xl">
+          {sale.title}
+        </h1>
+        {sale.description && (
+          <p className="mt-2 max-w-3xl whitespace-pre-line text-sm text-muted-foreground sm:mt-3 sm:text-lg">
+            {sale.description}
+          </p>
+        )}
+        <p className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+          <CalendarClock className="h-4 w-4" />
+          {sale.lots.length} lots · opens {sale.startTime.toLocaleString()} · lot 1 closes{' '}
+          {sale.firstLotEndTime.toLocaleString()}, then one lot every {sale.lotIntervalMinutes}{' '}
+          {sale.lotIntervalMinutes === 1 ? 'minute' : 'minutes'}
+        </p>
+        {sale.status === 'LIVE' && (
+          <Button variant="outline" size="sm" className="mt-4" asChild>
+            <Link href={`/auctions?event=${sale.id}`}>
+              <Search className="mr-2 h-4 w-4" />
+              Search open lots
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 sm:gap-6 lg:grid-cols-3 lg:gap-8 xl:grid-cols-4">
+        {sale.lots.map((lot) => (
+          <AuctionCard key={lot.id} auction={lot} showWatchButton />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { UnauthorizedError } from '@/lib/errors'
+import { biddingLimitRequestSchema } from '@/lib/validation-schemas'
+import {
+  getBiddingLimitSummary,
+  requestBiddingLimit,
+  releaseBiddingLimit,
+} from '@/services/bidding-limit.service'
+
+// GET - The user's bidding limit and how much of it open bids use
+export const GET = withErrorHandler(
+  async () => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view your bidding limit')
+    }
+
+    const summary = await getBiddingLimitSummary(session.user.id)
+
+    // The share of a limit a card hold covers, for the request form
+    return successResponse({ summary, holdPercent: AUCTION_CONFIG.biddingLimitHoldPercent })
+  },
+  {
+    resourceType: 'user',
+    action: 'account.bidding_limit.view',
+  }
+)
+
+// POST - Request a bidding limit backed by a card hold or a bank guarantee
+export const POST = withErrorHandler(
+  async (request: NextRequest) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to request a bidding limit')
+    }
+
+    const body = await request.json()
+    const data = biddingLimitRequestSchema.parse(body)
+
+    const result = await requestBiddingLimit(session.user.id, data)
+
+    return successResponse({
+      limit: result.limit,
+      holdAmount: result.holdAmount,
+      requiresAction: result.requiresAction ?? false,
+      clientSecret: result.clientSecret,
+      depositId: result.limit.depositId,
+    })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'user',
+    action: 'account.bidding_limit.requested',
+  }
+)
+
+// DELETE - Give up the bidding limit and release its card hold
+export const DELETE = withErrorHandler(
+  async () => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to release your bidding limit')
+    }
+
+    const limit = await releaseBiddingLimit(session.user.id)
+
+    return successResponse({ limit })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'user',
+    action: 'account.bidding_limit.released',
+  }
+)
@@ -109,6 +109,23 @@ export async function GET(request: NextRequest) {
               paymentDeadline: true,
               paidAt: true,
               paymentIntentId: true,
+              invoice: {
+                select: {
+                  id: true,
+                  number: true,
+                  userId: true,
+                },
+              },
+              bankTransfer: {
+                select: {
+                  reference: true,
+                  amount: true,
+                  currency: true,
+                  status: true,
+                  expiresAt: true,
+                  userId: true,
+                },
+              },
               listing: {
                 select: {
                   id: true,
@@ -222,6 +239,20 @@ export async function GET(request: NextRequest) {
           // Payment info for winners
           paymentStatus: isWinner ? auction.paymentStatus : null,
           paymentDeadline: isWinner ? auction.paymentDeadline : null,
+          invoice:
+            isWinner && auction.invoice?.userId === session.user.id
+              ? { id: auction.invoice.id, number: auction.invoice.number }
+              : null,
+          bankTransfer:
+            isWinner && auction.bankTransfer?.userId === session.user.id
+              ? {
+                  reference: auction.bankTransfer.reference,
+                  amount: auction.bankTransfer.amount,
+                  currency: auction.bankTransfer.currency,
+                  status: auction.bankTransfer.status,
+                  expiresAt: auction.bankTransfer.expiresAt,
+                }
+              : null,
         },
         listing: {
           id: listing.id,
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { invoiceDownloadSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import { getInvoiceDownloadUrl } from '@/services/invoice.service'
+
+// GET - Redirect to a short-lived link to the invoice PDF or e-Factura XML
+export const GET = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to download invoices')
+    }
+
+    const { id } = await params
+    const { format } = invoiceDownloadSchema.parse({
+      format: request.nextUrl.searchParams.get('format') ?? undefined,
+    })
+
+    const url = await getInvoiceDownloadUrl(id, format, {
+      userId: session.user.id,
+      isAdmin: session.user.role === 'ADMIN',
+    })
+
+    return NextResponse.redirect(url)
+  },
+  {
+    resourceType: 'invoice',
+    action: 'account.invoice.download',
+  }
+)
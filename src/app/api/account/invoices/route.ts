@@ -0,0 +1,23 @@
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { UnauthorizedError } from '@/lib/errors'
+import { listUserInvoices } from '@/services/invoice.service'
+
+// GET - The current user's buyer fee invoices
+export const GET = withErrorHandler(
+  async () => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view invoices')
+    }
+
+    const invoices = await listUserInvoices(session.user.id)
+
+    return successResponse({ invoices })
+  },
+  {
+    resourceType: 'invoice',
+    action: 'account.invoice.list',
+  }
+)
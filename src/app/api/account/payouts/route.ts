@@ -0,0 +1,23 @@
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { UnauthorizedError } from '@/lib/errors'
+import { getPayoutLedger } from '@/services/payout-statement.service'
+
+// GET - The current seller's payout ledger
+export const GET = withErrorHandler(
+  async () => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view payouts')
+    }
+
+    const entries = await getPayoutLedger(session.user.id)
+
+    return successResponse({ entries })
+  },
+  {
+    resourceType: 'payout',
+    action: 'account.payout.list',
+  }
+)
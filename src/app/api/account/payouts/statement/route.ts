@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { payoutStatementSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import {
+  exportPayoutStatementCsv,
+  exportPayoutStatementPdf,
+} from '@/services/payout-statement.service'
+
+// GET - Monthly payout statement as CSV or PDF (?month=YYYY-MM&format=csv|pdf)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to download statements')
+    }
+
+    const { month, format } = payoutStatementSchema.parse({
+      month: request.nextUrl.searchParams.get('month'),
+      format: request.nextUrl.searchParams.get('format') ?? undefined,
+    })
+
+    if (format === 'csv') {
+      const csv = await exportPayoutStatementCsv(session.user.id, month)
+
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="payout-statement-${month}.csv"`,
+        },
+      })
+    }
+
+    const pdf = await exportPayoutStatementPdf(session.user.id, month)
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="payout-statement-${month}.pdf"`,
+      },
+    })
+  },
+  {
+    resourceType: 'payout',
+    action: 'account.payout.statement',
+  }
+)
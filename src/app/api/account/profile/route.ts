@@ -7,6 +7,20 @@ const updateProfileSchema = z.object({
   name: z.string().min(2).max(100).optional(),
   phone: z.string().max(20).optional().nullable(),
   country: z.string().length(2).optional().nullable(),
+  // Currency bid amounts are also shown in
+  preferredCurrency: z.enum(['EUR', 'RON', 'USD', 'GBP', 'PLN', 'CZK', 'HUF']).optional(),
+  // Billing details for invoices; a VAT number marks the buyer as a business
+  billingCompanyName: z.string().max(200).optional().nullable(),
+  billingVatNumber: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{2,15}$/, 'Invalid VAT number')
+    .optional()
+    .nullable(),
+  billingAddress: z.string().max(300).optional().nullable(),
+  billingCity: z.string().max(100).optional().nullable(),
+  billingRegion: z.string().max(50).optional().nullable(),
 })
 
 export async function GET() {
@@ -25,6 +39,12 @@ export async function GET() {
         phone: true,
         phoneVerified: true,
         country: true,
+        preferredCurrency: true,
+        billingCompanyName: true,
+        billingVatNumber: true,
+        billingAddress: true,
+        billingCity: true,
+        billingRegion: true,
         image: true,
         emailVerified: true,
         createdAt: true,
@@ -65,6 +85,12 @@ export async function PATCH(request: NextRequest) {
         phone: true,
         phoneVerified: true,
         country: true,
+        preferredCurrency: true,
+        billingCompanyName: true,
+        billingVatNumber: true,
+        billingAddress: true,
+        billingCity: true,
+        billingRegion: true,
         image: true,
         emailVerified: true,
       },
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { requireAdminOrModerator } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { auctionEventSchema } from '@/lib/validation-schemas'
+import { createAuctionEvent, listAuctionEvents } from '@/services/auction-event.service'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
+
+// GET - List sales and the approved listings that can still become lots
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdminOrModerator(await auth())
+
+    const [events, availableListings] = await Promise.all([
+      listAuctionEvents(),
+      prisma.listing.findMany({
+        where: { status: 'APPROVED', auction: null },
+        orderBy: { updatedAt: 'desc' },
+        select: {
+          id: true,
+          title: true,
+          make: true,
+          model: true,
+          year: true,
+          startingPrice: true,
+          currency: true,
+        },
+      }),
+    ])
+
+    return successResponse({ events, availableListings })
+  },
+  {
+    resourceType: 'auction_event',
+    action: 'admin.auction_event.list',
+  }
+)
+
+// POST - Build a sale from approved listings (lot order = order given)
+export const POST = withErrorHandler(
+  async (request: NextRequest) => {
+    const user = await requireAdminOrModerator(await auth())
+
+    const body = await request.json()
+    const data = auctionEventSchema.parse(body)
+
+    const event = await createAuctionEvent(data, user.id)
+
+    await logAuditEvent({
+      actorId: user.id,
+      action: AUDIT_ACTIONS.AUCTION_EVENT_CREATED,
+      resourceType: 'AUCTION_EVENT',
+      resourceId: event.id,
+      details: {
+        title: event.title,
+        slug: event.slug,
+        startTime: event.startTime,
+        firstLotEndTime: event.firstLotEndTime,
+        lotIntervalMinutes: event.lotIntervalMinutes,
+        listingIds: data.listingIds,
+      },
+      severity: 'MEDIUM',
+    })
+
+    return successResponse(event, 201)
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction_event',
+    action: 'admin.auction_event.create',
+  }
+)
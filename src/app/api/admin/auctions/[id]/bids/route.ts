@@ -0,0 +1,196 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { getContainer } from '@/lib/container'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { staffBidSchema } from '@/lib/validation-schemas'
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  FraudDetectedError,
+  InsufficientDepositError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { roleValidator } from '@/services/validators'
+import { placeBid, getAuctionById } from '@/services/auction.service'
+import { announceBidRound } from '@/services/notification.service'
+import { isSealedFormat } from '@/domain/auction/rules'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
+import { isPhoneVerified } from '@/services/phone-verification.service'
+import { hasActiveBiddingLimit } from '@/services/bidding-limit.service'
+
+// POST - Place a phone or absentee bid on behalf of a registered bidder
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in', ERROR_CODES.AUTH_REQUIRED)
+    }
+
+    const staff = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (!staff || !roleValidator.canManageAuctions(staff.role)) {
+      throw new ForbiddenError(
+        'You do not have permission to place bids for other users',
+        ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS
+      )
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { bidderEmail, amount, maxAmount, channel, reason } = staffBidSchema.parse(body)
+
+    // The bidder must meet the same eligibility rules as an online bid
+    const bidder = await prisma.user.findUnique({
+      where: { email: bidderEmail },
+      select: { id: true, biddingEnabled: true, emailVerified: true, bannedAt: true },
+    })
+
+    if (!bidder) {
+      throw new NotFoundError('Bidder not found', ERROR_CODES.USER_NOT_FOUND)
+    }
+
+    if (bidder.bannedAt) {
+      throw new ForbiddenError('This bidder is suspended', ERROR_CODES.AUTH_ACCOUNT_SUSPENDED)
+    }
+
+    if (!bidder.emailVerified) {
+      throw new ForbiddenError(
+        'This bidder has not verified their email',
+        ERROR_CODES.AUTH_EMAIL_NOT_VERIFIED
+      )
+    }
+
+    if (!(await isPhoneVerified(bidder.id))) {
+      throw new ForbiddenError(
+        'This bidder has not verified their phone number',
+        ERROR_CODES.AUTH_PHONE_NOT_VERIFIED
+      )
+    }
+
+    if (!bidder.biddingEnabled) {
+      throw new ForbiddenError(
+        'Bidding is not enabled for this bidder',
+        ERROR_CODES.AUTH_BIDDING_DISABLED
+      )
+    }
+
+    const container = getContainer()
+
+    // The request comes from the staff member's machine, so IP-based checks
+    // would attribute staff traffic to the bidder; they are skipped here
+    const fraudCheck = await container.fraud.runBidFraudChecks({
+      userId: bidder.id,
+      auctionId: id,
+      bidAmount: amount,
+      ipAddress: null,
+      userAgent: null,
+    })
+
+    if (!fraudCheck.passed) {
+      const criticalAlert = fraudCheck.alerts.find(a => a.severity === 'CRITICAL')
+      throw new FraudDetectedError(
+        criticalAlert?.message || 'Bid blocked due to suspicious activity',
+        ERROR_CODES.FRAUD_DETECTED,
+        {
+          fraudAlerts: fraudCheck.alerts.map(a => ({ type: a.type, severity: a.severity })),
+        }
+      )
+    }
+
+    // The deposit is held on the bidder's own saved payment method, unless
+    // their bidding limit covers the bid
+    const hasDeposit =
+      (await hasActiveBiddingLimit(bidder.id)) ||
+      (await container.deposits.hasValidDeposit(bidder.id, id))
+    if (!hasDeposit) {
+      const depositResult = await container.deposits.createBidDeposit({
+        userId: bidder.id,
+        auctionId: id,
+        bidAmount: maxAmount ?? amount,
+      })
+
+      if (!depositResult.success) {
+        throw new InsufficientDepositError(
+          depositResult.error || 'The bidder needs a deposit before bidding',
+          ERROR_CODES.DEPOSIT_REQUIRED,
+          { requiresDeposit: true, requiresAction: depositResult.requiresAction }
+        )
+      }
+    }
+
+    const auctionBefore = await getAuctionById(id)
+    const previousWinningBid = auctionBefore?.bids.find(b => b.isWinning)
+
+    const { bid, bids, auction, extended, cascadedLots } = await placeBid(id, bidder.id, amount, {
+      maxAmount,
+      channel,
+      placedById: session.user.id,
+      channelReason: reason,
+    })
+
+    // Sealed bids never say who leads until the auction closes
+    const sealed = isSealedFormat(auction.format)
+    const leadingBid = bids[bids.length - 1]
+
+    await announceBidRound({
+      auctionId: id,
+      listingTitle: auctionBefore?.listing.title || '',
+      currency: auction.currency,
+      reservePrice: auctionBefore?.listing.reservePrice
+        ? Number(auctionBefore.listing.reservePrice)
+        : null,
+      previousWinningBid,
+      bids,
+      bidCount: auction.bidCount,
+      currentEndTime: auction.currentEndTime,
+      extensionCount: auction.extensionCount,
+      extended,
+      cascadedLots,
+      sealed,
+    })
+
+    await logAuditEvent({
+      actorId: session.user.id,
+      action: AUDIT_ACTIONS.BID_PLACED_BY_STAFF,
+      resourceType: 'BID',
+      resourceId: bid.id,
+      details: {
+        auctionId: id,
+        bidderId: bidder.id,
+        channel,
+        reason,
+        amount,
+        maxAmount: maxAmount ?? null,
+        proxyBids: bids.filter(b => b.isProxy).length,
+      },
+      severity: 'HIGH',
+    })
+
+    return successResponse(
+      {
+        bid,
+        isLeading: sealed ? null : leadingBid ? leadingBid.bidderId === bidder.id : true,
+        auction: {
+          currentBid: auction.currentBid ? Number(auction.currentBid) : null,
+          bidCount: auction.bidCount,
+          reserveMet: auction.reserveMet,
+          currentEndTime: auction.currentEndTime.toISOString(),
+          extended,
+        },
+      },
+      201
+    )
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'admin.auction.bid.place',
+  }
+)
@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { auctioneerCallSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError, ForbiddenError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { roleValidator } from '@/services/validators'
+import { getLiveConsole, makeAuctioneerCall } from '@/services/live-auction.service'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
+
+async function requireAuctioneer(): Promise<string> {
+  const session = await auth()
+  if (!session?.user?.id) {
+    throw new UnauthorizedError('You must be logged in', ERROR_CODES.AUTH_REQUIRED)
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  })
+
+  if (!user || !roleValidator.canManageAuctions(user.role)) {
+    throw new ForbiddenError(
+      'You do not have permission to run live auctions',
+      ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS
+    )
+  }
+
+  return session.user.id
+}
+
+// GET - Live console state (bid stream, reserve status, presence)
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    await requireAuctioneer()
+
+    const { id } = await params
+    const liveConsole = await getLiveConsole(id)
+
+    return successResponse(liveConsole)
+  },
+  {
+    resourceType: 'auction',
+    action: 'admin.auction.live.get',
+  }
+)
+
+// POST - Make an auctioneer call (fair warning, going once/twice, sold)
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const actorId = await requireAuctioneer()
+
+    const { id } = await params
+    const body = await request.json()
+    const { call } = auctioneerCallSchema.parse(body)
+
+    const { event, auction } = await makeAuctioneerCall(id, actorId, call)
+
+    await logAuditEvent({
+      actorId,
+      action: AUDIT_ACTIONS.AUCTIONEER_CALL,
+      resourceType: 'AUCTION',
+      resourceId: id,
+      details: {
+        call,
+        eventId: event.id,
+        currentBid: event.currentBid ? Number(event.currentBid) : null,
+        status: auction.status,
+      },
+      severity: call === 'SOLD' ? 'HIGH' : 'LOW',
+    })
+
+    return successResponse({ event, auction }, 201)
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'admin.auction.live.call',
+  }
+)
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { refundRequestSchema } from '@/lib/validation-schemas'
+import { getAuctionRefunds, requestRefund } from '@/services/refund.service'
+
+// GET - Refundable balances and refund history for an auction
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    await requireAdmin(await auth())
+
+    const { id } = await params
+    const refunds = await getAuctionRefunds(id)
+
+    return successResponse(refunds)
+  },
+  {
+    resourceType: 'auction',
+    action: 'admin.auction.refunds.list',
+  }
+)
+
+// POST - Refund all or part of the buyer payment or a deposit
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { target, depositId, amount, reason } = refundRequestSchema.parse(body)
+
+    const refund = await requestRefund({ auctionId: id, target, depositId, amount, reason }, user.id)
+
+    return successResponse({ refund }, 201)
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'admin.auction.refund',
+  }
+)
@@ -1,11 +1,20 @@
 import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { prisma } from '@/lib/db'
+import { lockAuctionRow } from '@/lib/db-lock'
 import { z } from 'zod'
-import { logAuditEvent } from '@/services/audit.service'
-import { cancelAuction, endAuction } from '@/services/auction.service'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
+import {
+  cancelAuction,
+  endAuction,
+  pauseAuction,
+  resumeAuction,
+  recalculateAuctionBids,
+} from '@/services/auction.service'
 import { releaseNonWinningDeposits } from '@/services/payment.service'
+import { handleWinnerDefault } from '@/services/second-chance.service'
 import { auctionActionSchema } from '@/lib/validation-schemas'
+import { auctionStatusValidator } from '@/services/validators/auction-status.validator'
 
 type RouteContext = {
   params: Promise<{ id: string }>
@@ -52,6 +61,9 @@ export async function GET(request: Request, context: RouteContext) {
             bidder: {
               select: { id: true, name: true, email: true },
             },
+            placedBy: {
+              select: { id: true, name: true, email: true },
+            },
           },
         },
         _count: {
@@ -100,7 +112,16 @@ export async function PUT(request: Request, context: RouteContext) {
 
     const { id } = await context.params
     const body = await request.json()
-    const { action, reason, bidId, extensionMinutes } = auctionActionSchema.parse(body)
+    const {
+      action,
+      reason,
+      bidId,
+      extensionMinutes,
+      minimumRemainingMinutes,
+      bidIncrementTable,
+      liveFinale,
+      format,
+    } = auctionActionSchema.parse(body)
 
     const auction = await prisma.auction.findUnique({
       where: { id },
@@ -115,7 +136,7 @@ export async function PUT(request: Request, context: RouteContext) {
 
     switch (action) {
       case 'cancel':
-        if (!['SCHEDULED', 'ACTIVE'].includes(auction.status)) {
+        if (!['SCHEDULED', 'ACTIVE', 'PAUSED'].includes(auction.status)) {
           return NextResponse.json(
             { error: 'Cannot cancel auction in current status' },
             { status: 400 }
@@ -186,6 +207,54 @@ export async function PUT(request: Request, context: RouteContext) {
         })
         break
 
+      case 'pause':
+        if (!auctionStatusValidator.canPause(auction.status)) {
+          return NextResponse.json(
+            { error: 'Auction is not active' },
+            { status: 400 }
+          )
+        }
+
+        result = await pauseAuction(id, reason)
+
+        await logAuditEvent({
+          actorId: session.user.id,
+          action: AUDIT_ACTIONS.AUCTION_PAUSED,
+          resourceType: 'AUCTION',
+          resourceId: id,
+          details: { reason, remainingMs: auction.currentEndTime.getTime() - Date.now() },
+          severity: 'HIGH',
+        })
+        break
+
+      case 'resume': {
+        if (!auctionStatusValidator.canResume(auction.status)) {
+          return NextResponse.json(
+            { error: 'Auction is not paused' },
+            { status: 400 }
+          )
+        }
+
+        const resumed = await resumeAuction(id, { minimumRemainingMinutes })
+        result = resumed
+
+        await logAuditEvent({
+          actorId: session.user.id,
+          action: AUDIT_ACTIONS.AUCTION_RESUMED,
+          resourceType: 'AUCTION',
+          resourceId: id,
+          details: {
+            reason,
+            pausedAt: auction.pausedAt,
+            previousEndTime: auction.currentEndTime,
+            newEndTime: resumed.currentEndTime,
+            minimumRemainingMinutes,
+          },
+          severity: 'HIGH',
+        })
+        break
+      }
+
       case 'invalidate_bid':
         if (!bidId) {
           return NextResponse.json(
@@ -205,40 +274,20 @@ export async function PUT(request: Request, context: RouteContext) {
           )
         }
 
-        result = await prisma.bid.update({
-          where: { id: bidId },
-          data: {
-            isValid: false,
-            invalidatedReason: reason || 'Invalidated by admin',
-          },
-        })
-
-        // If this was the winning bid, need to recalculate current bid
-        if (bid.isWinning) {
-          const nextBid = await prisma.bid.findFirst({
-            where: {
-              auctionId: id,
-              isValid: true,
-              id: { not: bidId },
-            },
-            orderBy: { amount: 'desc' },
-          })
-
-          await prisma.auction.update({
-            where: { id },
+        // Recalculate the leading bid, price, reserve and bid count from what remains,
+        // holding the auction lock so no bid lands in between
+        result = await prisma.$transaction(async (tx) => {
+          await lockAuctionRow(tx, id)
+          const invalidated = await tx.bid.update({
+            where: { id: bidId },
             data: {
-              currentBid: nextBid?.amount || null,
-              bidCount: { decrement: 1 },
+              isValid: false,
+              invalidatedReason: reason || 'Invalidated by admin',
             },
           })
-
-          if (nextBid) {
-            await prisma.bid.update({
-              where: { id: nextBid.id },
-              data: { isWinning: true },
-            })
-          }
-        }
+          await recalculateAuctionBids(id, tx)
+          return invalidated
+        })
 
         await logAuditEvent({
           actorId: session.user.id,
@@ -249,6 +298,143 @@ export async function PUT(request: Request, context: RouteContext) {
           severity: 'HIGH',
         })
         break
+
+      case 'set_increment_table':
+        if (!bidIncrementTable) {
+          return NextResponse.json(
+            { error: 'Bid increment table required' },
+            { status: 400 }
+          )
+        }
+
+        if (!['SCHEDULED', 'ACTIVE'].includes(auction.status)) {
+          return NextResponse.json(
+            { error: 'Cannot change increments in current status' },
+            { status: 400 }
+          )
+        }
+
+        result = await prisma.auction.update({
+          where: { id },
+          data: { bidIncrementTable },
+        })
+
+        await logAuditEvent({
+          actorId: session.user.id,
+          action: AUDIT_ACTIONS.AUCTION_INCREMENTS_CHANGED,
+          resourceType: 'AUCTION',
+          resourceId: id,
+          details: {
+            reason,
+            previousTable: auction.bidIncrementTable,
+            bidIncrementTable,
+          },
+          severity: 'MEDIUM',
+        })
+        break
+
+      case 'set_live_finale':
+        if (liveFinale === undefined) {
+          return NextResponse.json(
+            { error: 'Live finale flag required' },
+            { status: 400 }
+          )
+        }
+
+        if (!['SCHEDULED', 'ACTIVE'].includes(auction.status)) {
+          return NextResponse.json(
+            { error: 'Cannot change live finale in current status' },
+            { status: 400 }
+          )
+        }
+
+        // Sealed bids have no running price for an auctioneer to call
+        if (liveFinale && auction.format !== 'OPEN') {
+          return NextResponse.json(
+            { error: 'Sealed-bid auctions cannot run a live finale' },
+            { status: 400 }
+          )
+        }
+
+        result = await prisma.auction.update({
+          where: { id },
+          data: { liveFinale, liveCall: null },
+        })
+
+        await logAuditEvent({
+          actorId: session.user.id,
+          action: AUDIT_ACTIONS.AUCTION_LIVE_FINALE_CHANGED,
+          resourceType: 'AUCTION',
+          resourceId: id,
+          details: { reason, liveFinale },
+          severity: 'MEDIUM',
+        })
+        break
+
+      case 'set_format':
+        if (!format) {
+          return NextResponse.json(
+            { error: 'Auction format required' },
+            { status: 400 }
+          )
+        }
+
+        // Switching between open and sealed bidding mid-auction would expose or strand bids
+        if (!['SCHEDULED', 'ACTIVE'].includes(auction.status) || auction.bidCount > 0) {
+          return NextResponse.json(
+            { error: 'The auction format can only change before the first bid' },
+            { status: 400 }
+          )
+        }
+
+        if (format !== 'OPEN' && auction.liveFinale) {
+          return NextResponse.json(
+            { error: 'Sealed-bid auctions cannot run a live finale' },
+            { status: 400 }
+          )
+        }
+
+        result = await prisma.auction.update({
+          where: { id },
+          data: { format },
+        })
+
+        await logAuditEvent({
+          actorId: session.user.id,
+          action: AUDIT_ACTIONS.AUCTION_FORMAT_CHANGED,
+          resourceType: 'AUCTION',
+          resourceId: id,
+          details: { reason, previousFormat: auction.format, format },
+          severity: 'MEDIUM',
+        })
+        break
+
+      case 'offer_second_chance':
+        if (auction.status !== 'SOLD' || auction.paymentStatus !== 'FAILED') {
+          return NextResponse.json(
+            { error: 'Only auctions whose winner defaulted can be offered again' },
+            { status: 400 }
+          )
+        }
+
+        result = await handleWinnerDefault(id)
+
+        if (!result) {
+          return NextResponse.json(
+            { error: 'No eligible bidder left for a second-chance offer' },
+            { status: 400 }
+          )
+        }
+
+        await logAuditEvent({
+          actorId: session.user.id,
+          action: AUDIT_ACTIONS.SECOND_CHANCE_OFFERED,
+          resourceType: 'AUCTION',
+          resourceId: id,
+          details: { reason, manual: true },
+          severity: 'MEDIUM',
+        })
+        break
     }
 
     return NextResponse.json({ success: true, result })
@@ -5,6 +5,9 @@ import { createAuction } from '@/services/auction.service'
 import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
 import { notifyListingApproved, broadcastAuctionLive } from '@/services/notification.service'
 import { AUCTION_RULES } from '@/domain/auction/rules'
+import { getDefaultBidIncrementTable, setDefaultBidIncrementTable } from '@/services/system-config.service'
+import { auctionDefaultsSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
 
 // GET - List auctions for admin
 export async function GET(request: Request) {
@@ -67,6 +70,30 @@ export async function GET(request: Request) {
           _count: {
             select: { bids: true, watchlist: true },
           },
+          secondChanceOffers: {
+            orderBy: { rank: 'asc' },
+            select: {
+              id: true,
+              rank: true,
+              status: true,
+              amount: true,
+              expiresAt: true,
+              bidder: {
+                select: { email: true },
+              },
+            },
+          },
+          reserveChanges: {
+            orderBy: { createdAt: 'asc' },
+            select: {
+              id: true,
+              previousReserve: true,
+              newReserve: true,
+              currentBid: true,
+              reserveMet: true,
+              createdAt: true,
+            },
+          },
         },
       }),
       prisma.auction.count({ where }),
@@ -78,9 +105,12 @@ export async function GET(request: Request) {
       _count: true,
     })
 
+    const defaultBidIncrementTable = await getDefaultBidIncrementTable()
+
     return NextResponse.json({
       auctions,
       stats: Object.fromEntries(stats.map(s => [s.status, s._count])),
+      defaultBidIncrementTable,
       pagination: {
         page,
         limit,
@@ -259,6 +289,9 @@ export async function POST(request: Request) {
       if (error.message.includes('Duration must be')) {
         return NextResponse.json({ error: error.message }, { status: 400 })
       }
+      if (error.message.includes('exchange rate has been imported')) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
     }
 
     return NextResponse.json(
@@ -267,3 +300,46 @@ export async function POST(request: Request) {
     )
   }
 }
+
+// PATCH - Update auction defaults (ADMIN only)
+export async function PATCH(request: Request) {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const admin = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true },
+    })
+
+    if (!admin || admin.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'Forbidden - Admin only' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { bidIncrementTable } = auctionDefaultsSchema.parse(body)
+
+    // Only affects auctions created from now on
+    await setDefaultBidIncrementTable(bidIncrementTable, session.user.id, {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
+
+    return NextResponse.json({ defaultBidIncrementTable: bidIncrementTable })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data' },
+        { status: 400 }
+      )
+    }
+
+    console.error('Update auction defaults error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update auction defaults' },
+      { status: 500 }
+    )
+  }
+}
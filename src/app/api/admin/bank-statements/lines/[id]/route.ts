@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { statementLineReviewSchema } from '@/lib/validation-schemas'
+import { resolveStatementLine } from '@/services/bank-transfer.service'
+
+// POST - Match an unmatched credit to a transfer by hand, or set it aside
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const review = statementLineReviewSchema.parse(body)
+
+    const line = await resolveStatementLine(id, user.id, review)
+
+    return successResponse({ line })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'bank_statement',
+    action: 'admin.bank_statement.review',
+  }
+)
@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { bankStatementUploadSchema } from '@/lib/validation-schemas'
+import {
+  importBankStatement,
+  listAwaitingBankTransfers,
+  listBankStatements,
+  listStatementReviewQueue,
+} from '@/services/bank-transfer.service'
+
+// GET - Review queue of unmatched credits, awaiting transfers and recent statements
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdmin(await auth())
+
+    const [lines, transfers, statements] = await Promise.all([
+      listStatementReviewQueue(),
+      listAwaitingBankTransfers(),
+      listBankStatements(),
+    ])
+
+    return successResponse({ lines, transfers, statements })
+  },
+  {
+    resourceType: 'bank_statement',
+    action: 'admin.bank_statement.list',
+  }
+)
+
+// POST - Upload a bank statement (CAMT.053 or CSV) and match its credits
+export const POST = withErrorHandler(
+  async (request: NextRequest) => {
+    const user = await requireAdmin(await auth())
+
+    const body = await request.json()
+    const { filename, content } = bankStatementUploadSchema.parse(body)
+
+    const result = await importBankStatement(content, filename, user.id)
+
+    return successResponse({ result })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'bank_statement',
+    action: 'admin.bank_statement.import',
+  }
+)
@@ -0,0 +1,90 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { prisma } from '@/lib/db'
+import { requireAdminOrModerator } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { bidRetractionReviewSchema } from '@/lib/validation-schemas'
+import { reviewBidRetraction } from '@/services/bid-retraction.service'
+import { broadcastBidRetracted, notifyBidRetractionReviewed } from '@/services/notification.service'
+import { getAnalyticsService } from '@/services/analytics.service'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
+import { ActivityType } from '@prisma/client'
+
+// POST - Approve or reject a retraction request
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdminOrModerator(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { decision, note } = bidRetractionReviewSchema.parse(body)
+
+    const { retraction, auction } = await reviewBidRetraction(id, user.id, decision, note)
+    const approved = decision === 'APPROVED'
+
+    const bid = await prisma.bid.findUnique({
+      where: { id: retraction.bidId },
+      select: {
+        amount: true,
+        auction: { select: { currency: true, listing: { select: { title: true } } } },
+      },
+    })
+
+    await logAuditEvent({
+      actorId: user.id,
+      action: approved
+        ? AUDIT_ACTIONS.BID_RETRACTION_APPROVED
+        : AUDIT_ACTIONS.BID_RETRACTION_REJECTED,
+      resourceType: 'BID',
+      resourceId: retraction.bidId,
+      details: {
+        retractionId: retraction.id,
+        auctionId: retraction.auctionId,
+        bidderId: retraction.bidderId,
+        amount: bid ? Number(bid.amount) : null,
+        reason: retraction.reason,
+        note,
+      },
+      severity: approved ? 'HIGH' : 'MEDIUM',
+    })
+
+    if (auction) {
+      await broadcastBidRetracted({
+        auctionId: auction.id,
+        bidId: retraction.bidId,
+        currentBid: auction.currentBid ? Number(auction.currentBid) : null,
+        bidCount: auction.bidCount,
+        reserveMet: auction.reserveMet,
+      })
+
+      getAnalyticsService().trackActivity({
+        userId: retraction.bidderId,
+        activityType: ActivityType.BID_RETRACTED,
+        description: 'Bid retracted after staff approval',
+        resourceType: 'auction',
+        resourceId: auction.id,
+        metadata: { bidId: retraction.bidId },
+      }).catch(() => {})
+    }
+
+    if (bid) {
+      await notifyBidRetractionReviewed(
+        retraction.bidderId,
+        retraction.auctionId,
+        bid.auction.listing.title,
+        Number(bid.amount),
+        bid.auction.currency,
+        approved
+      )
+    }
+
+    return successResponse(retraction)
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'bid_retraction',
+    action: 'admin.bid_retraction.review',
+  }
+)
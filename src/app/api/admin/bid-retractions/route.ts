@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdminOrModerator } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listBidRetractions } from '@/services/bid-retraction.service'
+import { BidRetractionStatus } from '@prisma/client'
+
+const STATUSES: BidRetractionStatus[] = ['PENDING', 'APPROVED', 'REJECTED']
+
+// GET - Retraction queue (pending requests by default)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdminOrModerator(await auth())
+
+    const { searchParams } = new URL(request.url)
+    const requested = searchParams.get('status') as BidRetractionStatus | null
+    const status = requested && STATUSES.includes(requested) ? requested : 'PENDING'
+
+    const retractions = await listBidRetractions({ status })
+
+    return successResponse({ retractions })
+  },
+  {
+    resourceType: 'bid_retraction',
+    action: 'admin.bid_retraction.list',
+  }
+)
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { biddingLimitReviewSchema } from '@/lib/validation-schemas'
+import { reviewBankGuarantee } from '@/services/bidding-limit.service'
+
+// POST - Accept or reject a bank guarantee backing a bidding limit
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const review = biddingLimitReviewSchema.parse(body)
+
+    const limit = await reviewBankGuarantee(id, user.id, review)
+
+    return successResponse({ limit })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'bidding_limit',
+    action: 'admin.bidding_limit.review',
+  }
+)
@@ -0,0 +1,20 @@
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listBiddingLimits } from '@/services/bidding-limit.service'
+
+// GET - Bank guarantees awaiting review and active bidding limits with their usage
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdmin(await auth())
+
+    const limits = await listBiddingLimits()
+
+    return successResponse({ limits })
+  },
+  {
+    resourceType: 'bidding_limit',
+    action: 'admin.bidding_limit.list',
+  }
+)
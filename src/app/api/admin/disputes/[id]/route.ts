@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { disputeEvidenceSchema } from '@/lib/validation-schemas'
+import { getDisputeEvidencePack, markDisputeEvidenceSubmitted } from '@/services/dispute.service'
+
+// GET - Evidence pack for submission to the card issuer
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    await requireAdmin(await auth())
+
+    const { id } = await params
+    const evidence = await getDisputeEvidencePack(id)
+
+    return successResponse({ evidence })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'dispute',
+    action: 'admin.dispute.evidence',
+  }
+)
+
+// POST - Record that the evidence was submitted in the Stripe dashboard
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { note } = disputeEvidenceSchema.parse(body)
+
+    const dispute = await markDisputeEvidenceSubmitted(id, user.id, note)
+
+    return successResponse({ dispute })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'dispute',
+    action: 'admin.dispute.evidence_submitted',
+  }
+)
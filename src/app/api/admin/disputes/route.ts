@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listDisputes } from '@/services/dispute.service'
+
+// GET - Card disputes (open ones by default, ?status=closed for the history)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const { searchParams } = new URL(request.url)
+    const disputes = await listDisputes({ open: searchParams.get('status') !== 'closed' })
+
+    return successResponse({ disputes })
+  },
+  {
+    resourceType: 'dispute',
+    action: 'admin.dispute.list',
+  }
+)
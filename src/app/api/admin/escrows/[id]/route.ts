@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { escrowOverrideSchema } from '@/lib/validation-schemas'
+import { adminReleaseEscrow, adminRefundEscrow } from '@/services/escrow.service'
+
+// POST - Override the milestones: release to the seller or refund the buyer
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    // Moving money is admin-only; moderators can see the queue
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { decision, note } = escrowOverrideSchema.parse(body)
+
+    if (decision === 'REFUND') {
+      const escrow = await adminRefundEscrow(id, user.id, note)
+      return successResponse({ escrow })
+    }
+
+    const { escrow, payout } = await adminReleaseEscrow(id, user.id, note)
+
+    return successResponse({ escrow, payout })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'escrow',
+    action: 'admin.escrow.override',
+  }
+)
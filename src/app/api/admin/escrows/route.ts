@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdminOrModerator } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listEscrows } from '@/services/escrow.service'
+import { EscrowStatus } from '@prisma/client'
+
+const STATUSES: EscrowStatus[] = [
+  'AWAITING_FUNDS',
+  'FUNDED',
+  'HANDED_OVER',
+  'DISPUTED',
+  'RELEASED',
+  'REFUNDED',
+]
+
+// GET - Escrow queue (disputed escrows by default)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdminOrModerator(await auth())
+
+    const { searchParams } = new URL(request.url)
+    const requested = searchParams.get('status') as EscrowStatus | null
+    const status = requested && STATUSES.includes(requested) ? requested : 'DISPUTED'
+
+    const escrows = await listEscrows({ status })
+
+    return successResponse({ escrows })
+  },
+  {
+    resourceType: 'escrow',
+    action: 'admin.escrow.list',
+  }
+)
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { exchangeRateImportSchema, invoiceMonthSchema } from '@/lib/validation-schemas'
+import {
+  getSalesByCurrency,
+  importEcbRates,
+  listLatestExchangeRates,
+} from '@/services/exchange-rate.service'
+
+// GET - Latest rates and a month's sales per currency (?month=YYYY-MM)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const { month } = invoiceMonthSchema.parse({
+      month: request.nextUrl.searchParams.get('month'),
+    })
+    const [year, monthNumber] = month.split('-').map(Number)
+
+    const [rates, sales] = await Promise.all([
+      listLatestExchangeRates(),
+      getSalesByCurrency(year, monthNumber),
+    ])
+
+    return successResponse({ rates, sales })
+  },
+  {
+    resourceType: 'exchange_rate',
+    action: 'admin.exchange_rate.list',
+  }
+)
+
+// POST - Import an ECB reference rate file (daily or historical XML)
+export const POST = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const body = await request.json()
+    const { content } = exchangeRateImportSchema.parse(body)
+
+    const result = await importEcbRates(content)
+
+    return successResponse({ result })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'exchange_rate',
+    action: 'admin.exchange_rate.import',
+  }
+)
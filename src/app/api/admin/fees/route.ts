@@ -0,0 +1,45 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { feeScheduleSchema } from '@/lib/validation-schemas'
+import { getFeeSchedule, setFeeSchedule } from '@/services/system-config.service'
+
+// GET - Current fee schedule
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdmin(await auth())
+
+    const schedule = await getFeeSchedule()
+
+    return successResponse({ schedule })
+  },
+  {
+    resourceType: 'system_config',
+    action: 'admin.fees.view',
+  }
+)
+
+// PUT - Replace the fee schedule; auctions keep the terms they were created with
+export const PUT = withErrorHandler(
+  async (request: NextRequest) => {
+    const user = await requireAdmin(await auth())
+
+    const body = await request.json()
+    const schedule = feeScheduleSchema.parse(body)
+
+    await setFeeSchedule(schedule, user.id, {
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0] || undefined,
+      userAgent: request.headers.get('user-agent') || undefined,
+    })
+
+    return successResponse({ schedule })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'system_config',
+    action: 'admin.fees.update',
+  }
+)
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { invoiceMonthSchema } from '@/lib/validation-schemas'
+import { exportMonthInvoicesCsv } from '@/services/invoice.service'
+
+// GET - Monthly invoice register as CSV (?month=YYYY-MM)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const { month } = invoiceMonthSchema.parse({
+      month: request.nextUrl.searchParams.get('month'),
+    })
+    const [year, monthNumber] = month.split('-').map(Number)
+
+    const csv = await exportMonthInvoicesCsv(year, monthNumber)
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="invoices-${month}.csv"`,
+      },
+    })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'invoice',
+    action: 'admin.invoice.export',
+  }
+)
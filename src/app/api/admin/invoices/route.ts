@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { invoiceMonthSchema } from '@/lib/validation-schemas'
+import { listMonthInvoices } from '@/services/invoice.service'
+
+// GET - Invoices issued in a month (?month=YYYY-MM)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const { month } = invoiceMonthSchema.parse({
+      month: request.nextUrl.searchParams.get('month'),
+    })
+    const [year, monthNumber] = month.split('-').map(Number)
+
+    const invoices = await listMonthInvoices(year, monthNumber)
+
+    return successResponse({ invoices })
+  },
+  {
+    resourceType: 'invoice',
+    action: 'admin.invoice.list',
+  }
+)
@@ -56,7 +56,7 @@ export const POST = withErrorHandler<{ id: string }>(
     })
 
     try {
-      const media = await adminAddMediaByUrl(listingId, parseResult.data.url, {
+      const media = await adminAddMediaByUrl(listingId, parseResult.data.url, user.id, {
         category: parseResult.data.category,
         isPrimary: parseResult.data.isPrimary,
       })
@@ -133,7 +133,7 @@ export const PATCH = withErrorHandler<{ id: string }>(
     })
 
     try {
-      const media = await adminUpdateMedia(mediaId, listingId, updateData)
+      const media = await adminUpdateMedia(mediaId, listingId, updateData, user.id)
 
       const container = getContainer()
       await container.audit.logAuditEvent({
@@ -193,7 +193,8 @@ export const DELETE = withErrorHandler<{ id: string }>(
     try {
       const { deletedPosition, mediaUrl } = await adminDeleteMedia(
         parseResult.data.mediaId,
-        listingId
+        listingId,
+        user.id
       )
 
       const container = getContainer()
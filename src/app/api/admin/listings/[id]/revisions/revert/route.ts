@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdminOrModerator } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { ValidationError, NotFoundError, ForbiddenError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { listingRevisionRevertSchema } from '@/lib/validation-schemas'
+import { adminRevertListingField } from '@/services/listing.service'
+
+// POST - Restore one field of the listing to its value in an earlier revision
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const user = await requireAdminOrModerator(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { revision, field, adminOverride } = listingRevisionRevertSchema.parse(body)
+
+    try {
+      const result = await adminRevertListingField(id, user.id, revision, field, {
+        adminOverride,
+        adminRole: user.role as 'ADMIN' | 'MODERATOR',
+      })
+
+      return successResponse({ listing: result.listing })
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'Listing not found') {
+          throw new NotFoundError('Listing not found', ERROR_CODES.RESOURCE_NOT_FOUND)
+        }
+        if (error.message.includes('without admin override')) {
+          throw new ForbiddenError(error.message, ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS, {
+            requiresOverride: true,
+          })
+        }
+        if (error.message.includes('Only ADMIN can')) {
+          throw new ForbiddenError(error.message, ERROR_CODES.AUTH_INSUFFICIENT_PERMISSIONS)
+        }
+        if (error.message.includes('Reserve price')) {
+          throw new ValidationError(error.message, ERROR_CODES.VALIDATION_INVALID_INPUT)
+        }
+      }
+      throw error
+    }
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'listing',
+    action: 'admin.listing.revert_field',
+  }
+)
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireReviewer } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { z } from 'zod'
+import { getListingReviewDiff } from '@/services/listing-revision.service'
+
+const revisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+})
+
+// GET - Revision history and what changed since this reviewer last reviewed (?from=N for another revision)
+export const GET = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+    const user = await requireReviewer(await auth())
+
+    const { id } = await params
+    const { from } = revisionDiffQuerySchema.parse({
+      from: request.nextUrl.searchParams.get('from') ?? undefined,
+    })
+
+    const review = await getListingReviewDiff(id, user.id, from)
+
+    return successResponse(review)
+  },
+  {
+    requiresAuth: true,
+    resourceType: 'listing',
+    action: 'admin.listing.revisions',
+  }
+)
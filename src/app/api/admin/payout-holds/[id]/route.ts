@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { payoutHoldReleaseSchema } from '@/lib/validation-schemas'
+import { releasePayoutHold } from '@/services/seller-payout.service'
+
+// POST - Release a payout hold; the payout goes out if nothing else holds it
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { note } = payoutHoldReleaseSchema.parse(body)
+
+    const result = await releasePayoutHold(id, user.id, note)
+
+    return successResponse(result)
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'payout_hold',
+    action: 'admin.payout_hold.release',
+  }
+)
@@ -0,0 +1,21 @@
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listHeldPayouts } from '@/services/payout-hold.service'
+
+// GET - Seller payouts waiting on holds
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdmin(await auth())
+
+    const payouts = await listHeldPayouts()
+
+    return successResponse({ payouts })
+  },
+  {
+    requiresAuth: true,
+    resourceType: 'payout_hold',
+    action: 'admin.payout_hold.list',
+  }
+)
@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { promoCodeUpdateSchema } from '@/lib/validation-schemas'
+import { setPromoCodeActive } from '@/services/promo-code.service'
+
+// PATCH - Switch a promo code on or off
+export const PATCH = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { active } = promoCodeUpdateSchema.parse(body)
+
+    const promoCode = await setPromoCodeActive(id, active)
+
+    return successResponse({ promoCode })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'promo_code',
+    action: 'admin.promo_code.update',
+  }
+)
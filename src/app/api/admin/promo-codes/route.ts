@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { promoCodeSchema } from '@/lib/validation-schemas'
+import { createPromoCode, listPromoCodes } from '@/services/promo-code.service'
+
+// GET - Promo codes with redemption stats
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdmin(await auth())
+
+    const promoCodes = await listPromoCodes()
+
+    return successResponse({ promoCodes })
+  },
+  {
+    resourceType: 'promo_code',
+    action: 'admin.promo_code.list',
+  }
+)
+
+// POST - Create a promo code
+export const POST = withErrorHandler(
+  async (request: NextRequest) => {
+    const user = await requireAdmin(await auth())
+
+    const body = await request.json()
+    const data = promoCodeSchema.parse(body)
+
+    const promoCode = await createPromoCode(data, user.id)
+
+    return successResponse({ promoCode })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'promo_code',
+    action: 'admin.promo_code.create',
+  }
+)
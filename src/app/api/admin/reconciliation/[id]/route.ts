@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { reconciliationResolveSchema } from '@/lib/validation-schemas'
+import { resolveReconciliationIssue } from '@/services/reconciliation.service'
+
+// POST - Close a reconciliation issue after dealing with it by hand
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { note } = reconciliationResolveSchema.parse(body)
+
+    const issue = await resolveReconciliationIssue(id, user.id, note)
+
+    return successResponse({ issue })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'reconciliation',
+    action: 'admin.reconciliation.resolve',
+  }
+)
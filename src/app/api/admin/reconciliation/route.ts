@@ -0,0 +1,20 @@
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { getReconciliationReport } from '@/services/reconciliation.service'
+
+// GET - Recent reconciliation runs, open issues and what the last run fixed
+export const GET = withErrorHandler(
+  async () => {
+    await requireAdmin(await auth())
+
+    const report = await getReconciliationReport()
+
+    return successResponse(report)
+  },
+  {
+    resourceType: 'reconciliation',
+    action: 'admin.reconciliation.report',
+  }
+)
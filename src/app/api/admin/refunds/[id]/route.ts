@@ -0,0 +1,28 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { refundReviewSchema } from '@/lib/validation-schemas'
+import { reviewRefund } from '@/services/refund.service'
+
+// POST - Approve or reject a refund above the approval threshold
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const body = await request.json()
+    const { decision, note } = refundReviewSchema.parse(body)
+
+    const refund = await reviewRefund(id, user.id, decision, note)
+
+    return successResponse({ refund })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'refund',
+    action: 'admin.refund.review',
+  }
+)
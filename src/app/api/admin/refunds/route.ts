@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listRefunds } from '@/services/refund.service'
+import { RefundStatus } from '@prisma/client'
+
+const STATUSES: RefundStatus[] = [
+  'PENDING_APPROVAL',
+  'PROCESSING',
+  'SUCCEEDED',
+  'FAILED',
+  'REJECTED',
+]
+
+// GET - Refund queue (refunds waiting for approval by default)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const { searchParams } = new URL(request.url)
+    const requested = searchParams.get('status') as RefundStatus | null
+    const status = requested && STATUSES.includes(requested) ? requested : 'PENDING_APPROVAL'
+
+    const refunds = await listRefunds({ status })
+
+    return successResponse({ refunds })
+  },
+  {
+    resourceType: 'refund',
+    action: 'admin.refund.list',
+  }
+)
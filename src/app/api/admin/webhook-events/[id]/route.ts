@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { getStripeWebhookEvent, replayStripeEvent } from '@/services/stripe-webhook.service'
+
+// GET - One Stripe event with its payload
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    await requireAdmin(await auth())
+
+    const { id } = await params
+    const event = await getStripeWebhookEvent(id)
+
+    return successResponse({ event })
+  },
+  {
+    resourceType: 'webhook_event',
+    action: 'admin.webhook_event.view',
+  }
+)
+
+// POST - Replay a failed event from its stored payload
+export const POST = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    const user = await requireAdmin(await auth())
+
+    const { id } = await params
+    const event = await replayStripeEvent(id, user.id)
+
+    return successResponse({ event })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'webhook_event',
+    action: 'admin.webhook_event.replay',
+  }
+)
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { requireAdmin } from '@/lib/admin-auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { listStripeWebhookEvents } from '@/services/stripe-webhook.service'
+import { WebhookEventStatus } from '@prisma/client'
+
+const STATUSES: WebhookEventStatus[] = ['PROCESSING', 'PROCESSED', 'FAILED']
+
+// GET - Received Stripe events (failed ones by default), optionally of one type
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    await requireAdmin(await auth())
+
+    const { searchParams } = new URL(request.url)
+    const requested = searchParams.get('status') as WebhookEventStatus | 'ALL' | null
+    const status = requested === 'ALL'
+      ? undefined
+      : requested && STATUSES.includes(requested) ? requested : 'FAILED'
+    const type = searchParams.get('type')?.trim() || undefined
+
+    const events = await listStripeWebhookEvents({ status, type })
+
+    return successResponse({ events })
+  },
+  {
+    resourceType: 'webhook_event',
+    action: 'admin.webhook_event.list',
+  }
+)
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { bidRetractionSchema } from '@/lib/validation-schemas'
+import { requestBidRetraction } from '@/services/bid-retraction.service'
+import { logAuditEvent, AUDIT_ACTIONS } from '@/services/audit.service'
+import { UnauthorizedError } from '@/lib/errors'
+
+// POST - Ask staff to retract one of your recent bids
+export const POST = withErrorHandler<{ id: string; bidId: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to retract a bid')
+    }
+
+    const { id, bidId } = await params
+    const body = await request.json()
+    const { reason } = bidRetractionSchema.parse(body)
+
+    const retraction = await requestBidRetraction(id, bidId, session.user.id, reason)
+
+    await logAuditEvent({
+      actorId: session.user.id,
+      action: AUDIT_ACTIONS.BID_RETRACTION_REQUESTED,
+      resourceType: 'BID',
+      resourceId: bidId,
+      details: { auctionId: id, retractionId: retraction.id, reason },
+      severity: 'MEDIUM',
+    })
+
+    return successResponse(retraction, 201)
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'bid',
+    action: 'bid.retraction.request',
+  }
+)
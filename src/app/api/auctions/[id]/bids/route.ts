@@ -2,12 +2,15 @@ import { NextRequest } from 'next/server'
 import { headers } from 'next/headers'
 import { auth } from '@/lib/auth'
 import { getContainer } from '@/lib/container'
-import { placeBid, getAuctionById, getBidHistory } from '@/services/auction.service'
 import {
-  broadcastNewBid,
-  broadcastAuctionExtended,
-  notifyOutbid,
-} from '@/services/notification.service'
+  placeBid,
+  getAuctionById,
+  getBidHistory,
+  getMaxBid,
+  getSealedBid,
+} from '@/services/auction.service'
+import { isSealedFormat } from '@/domain/auction/rules'
+import { announceBidRound } from '@/services/notification.service'
 import { getAnalyticsService } from '@/services/analytics.service'
 import { prisma } from '@/lib/db'
 import { ActivityType } from '@prisma/client'
@@ -32,6 +35,7 @@ import { ERROR_CODES } from '@/lib/error-codes'
 import { checkRateLimit, userRateLimitKey, createRateLimitResponse } from '@/middleware/rate-limit'
 import { BID_RATE_LIMIT } from '@/lib/rate-limit-config'
 import { isPhoneVerified } from '@/services/phone-verification.service'
+import { hasActiveBiddingLimit } from '@/services/bidding-limit.service'
 
 type RouteParams = { params: Promise<{ id: string }> }
 
@@ -44,7 +48,13 @@ export const GET = withErrorHandler<{ id: string }>(
 
     const bids = await getBidHistory(id, limit)
 
-    return successResponse({ bids })
+    // A bidder's own maximum and sealed bid are private and only returned to them
+    const session = await auth()
+    const [maxBid, sealedBid] = session?.user?.id
+      ? await Promise.all([getMaxBid(id, session.user.id), getSealedBid(id, session.user.id)])
+      : [null, null]
+
+    return successResponse({ bids, maxBid, sealedBid })
   },
   {
     resourceType: 'auction',
@@ -107,7 +117,7 @@ export const POST = withErrorHandler<{ id: string }>(
 
     const { id } = await params
     const body = await request.json()
-    const { amount } = placeBidSchema.parse(body)
+    const { amount, maxAmount } = placeBidSchema.parse(body)
 
     // Get service container
     const container = getContainer()
@@ -138,14 +148,17 @@ export const POST = withErrorHandler<{ id: string }>(
       )
     }
 
-    // Check for valid deposit
-    const hasDeposit = await container.deposits.hasValidDeposit(session.user.id, id)
+    // An account-level bidding limit stands in for the per-auction deposit;
+    // placeBid checks the bid against what is left of it
+    const hasLimit = await hasActiveBiddingLimit(session.user.id)
+    const hasDeposit = hasLimit || await container.deposits.hasValidDeposit(session.user.id, id)
     if (!hasDeposit) {
       // Try to create deposit automatically
+      // A maximum commits the bidder up to that amount, so size the deposit on it
       const depositResult = await container.deposits.createBidDeposit({
         userId: session.user.id,
         auctionId: id,
-        bidAmount: amount,
+        bidAmount: maxAmount ?? amount,
       })
 
       if (!depositResult.success) {
@@ -164,60 +177,35 @@ export const POST = withErrorHandler<{ id: string }>(
     // Get current auction state to find previous bidder
     const auctionBefore = await getAuctionById(id)
     const previousWinningBid = auctionBefore?.bids.find(b => b.isWinning)
+    const reservePrice = auctionBefore?.listing.reservePrice
+      ? Number(auctionBefore.listing.reservePrice)
+      : null
 
     // Place the bid - service layer now throws typed errors, so we just need to handle them
-    const { bid, auction, extended } = await placeBid(id, session.user.id, amount, {
+    // Competing maximums may answer with proxy bids, so several bids can come back
+    const { bid, bids, auction, extended, cascadedLots } = await placeBid(id, session.user.id, amount, {
       ipAddress,
       userAgent,
+      maxAmount,
     })
 
-    // Broadcast new bid to all watchers (anonymous - no names)
-    await broadcastNewBid({
-      bidId: bid.id,
+    // Broadcast the round (anonymous - no names) and notify everyone who lost the lead
+    await announceBidRound({
       auctionId: id,
-      amount: Number(bid.amount),
-      bidderNumber: bid.bidderNumber,
-      bidderCountry: bid.bidderCountry,
+      listingTitle: auctionBefore?.listing.title || '',
+      currency: auction.currency,
+      reservePrice,
+      previousWinningBid,
+      bids,
       bidCount: auction.bidCount,
-      timestamp: bid.createdAt.toISOString(),
-      isReserveMet: auction.reserveMet,
+      currentEndTime: auction.currentEndTime,
+      extensionCount: auction.extensionCount,
+      extended,
+      cascadedLots,
+      sealed: isSealedFormat(auction.format),
     })
 
-    // If auction was extended, broadcast that too
-    if (extended) {
-      await broadcastAuctionExtended({
-        auctionId: id,
-        newEndTime: auction.currentEndTime.toISOString(),
-        extensionCount: auction.extensionCount,
-        triggeredByBidId: bid.id,
-      })
-    }
-
-    // Notify previous bidder they've been outbid
-    if (previousWinningBid && previousWinningBid.bidderId !== session.user.id) {
-      await notifyOutbid(previousWinningBid.bidderId, {
-        auctionId: id,
-        listingTitle: auctionBefore?.listing.title || '',
-        newBidAmount: Number(bid.amount),
-        yourBidAmount: Number(previousWinningBid.amount),
-      })
-    }
-
-    // Notify watchers about the new bid (non-blocking, anonymous)
-    // Using dynamic import to avoid circular dependencies
-    import('@/services/notification.service')
-      .then(({ notifyWatchersNewBid }) => {
-        return notifyWatchersNewBid(
-          id,
-          Number(bid.amount),
-          auction.currency,
-          bid.bidderNumber,
-          bid.bidderCountry
-        )
-      })
-      .catch(error => {
-        console.error('Failed to notify watchers about new bid:', error)
-      })
+    const leadingBid = bids[bids.length - 1]
 
     // Track user activity (non-blocking)
     getAnalyticsService().trackActivity({
@@ -231,17 +219,25 @@ export const POST = withErrorHandler<{ id: string }>(
       metadata: {
         bidId: bid.id,
         amount: Number(bid.amount),
+        maxAmount: maxAmount ?? null,
         bidderNumber: bid.bidderNumber,
+        proxyBids: bids.filter(b => b.isProxy).length,
         extended,
       },
     }).catch(() => {
       // Silent fail - activity tracking should not affect bid placement
     })
 
+    // Sealed bids never say who leads until the auction closes
+    const sealed = isSealedFormat(auction.format)
+
     const response = successResponse({
       bid,
+      maxBid: await getMaxBid(id, session.user.id),
+      sealedBid: sealed ? Number(bid.amount) : null,
+      isLeading: sealed ? null : leadingBid ? leadingBid.bidderId === session.user.id : true,
       auction: {
-        currentBid: Number(auction.currentBid),
+        currentBid: auction.currentBid ? Number(auction.currentBid) : null,
         bidCount: auction.bidCount,
         reserveMet: auction.reserveMet,
         currentEndTime: auction.currentEndTime.toISOString(),
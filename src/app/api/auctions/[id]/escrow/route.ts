@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse, actionRequiredResponse } from '@/lib/api-response'
+import { escrowActionSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import {
+  fundEscrow,
+  markEscrowHandedOver,
+  confirmEscrowReceipt,
+  openEscrowDispute,
+  getEscrowForParty,
+} from '@/services/escrow.service'
+
+// GET - The escrow for this auction, if the current user is buyer or seller
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view the escrow')
+    }
+
+    const { id } = await params
+    const escrow = await getEscrowForParty(id, session.user.id)
+
+    return successResponse({ escrow })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.escrow.get',
+  }
+)
+
+// POST - Pay into escrow, report the handover, confirm receipt or report a problem
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to update the escrow')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const data = escrowActionSchema.parse(body)
+    const userId = session.user.id
+
+    // Buyer/seller role and the current milestone are enforced by the service
+    switch (data.action) {
+      case 'fund': {
+        const result = await fundEscrow(id, userId)
+        if (result.requiresAction) {
+          return actionRequiredResponse('Payment requires additional authentication', {
+            clientSecret: result.clientSecret,
+            paymentIntentId: result.escrow.paymentIntentId,
+          })
+        }
+        return successResponse({ escrow: result.escrow })
+      }
+
+      case 'hand_over': {
+        const escrow = await markEscrowHandedOver(id, userId, data.note)
+        return successResponse({ escrow })
+      }
+
+      case 'confirm': {
+        const { escrow, payout } = await confirmEscrowReceipt(id, userId)
+        return successResponse({ escrow, payoutStarted: payout.success })
+      }
+
+      case 'dispute': {
+        const escrow = await openEscrowDispute(id, userId, data.reason)
+        return successResponse({ escrow })
+      }
+    }
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'auction.escrow.update',
+  }
+)
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { UnauthorizedError } from '@/lib/errors'
+import { confirmBuyerHandover } from '@/services/seller-payout.service'
+
+// POST - Buyer confirms the car was handed over, releasing the seller's payout
+export const POST = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to confirm the handover')
+    }
+
+    const { id } = await params
+    const result = await confirmBuyerHandover(id, session.user.id)
+
+    return successResponse(result)
+  },
+  {
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'auction.handover.confirm',
+  }
+)
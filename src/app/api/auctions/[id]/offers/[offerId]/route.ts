@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { negotiationResponseSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import { respondToOffer } from '@/services/negotiation.service'
+
+// POST - Accept or decline the other side's offer
+export const POST = withErrorHandler<{ id: string; offerId: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to respond to offers')
+    }
+
+    const { id, offerId } = await params
+    const body = await request.json()
+    const { action } = negotiationResponseSchema.parse(body)
+
+    // Party, status and window are enforced by the service
+    const offer = await respondToOffer(id, offerId, session.user.id, action)
+
+    return successResponse({ offer })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.negotiation.respond',
+  }
+)
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { negotiationOfferSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import { getNegotiation, makeOffer } from '@/services/negotiation.service'
+
+// GET - Get the post-auction negotiation for the seller or high bidder
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view offers')
+    }
+
+    const { id } = await params
+    const negotiation = await getNegotiation(id, session.user.id)
+
+    return successResponse({ negotiation })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.negotiation.get',
+  }
+)
+
+// POST - Make an offer or counter-offer
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to make an offer')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { amount } = negotiationOfferSchema.parse(body)
+
+    const offer = await makeOffer(id, session.user.id, amount)
+
+    return successResponse({ offer }, 201)
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.negotiation.offer',
+  }
+)
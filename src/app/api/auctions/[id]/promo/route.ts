@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { redeemPromoCodeSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import { getPromoRedemptions, redeemPromoCode } from '@/services/promo-code.service'
+
+// GET - Promo codes the current user has redeemed on this auction
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view promo codes')
+    }
+
+    const { id } = await params
+    const redemptions = await getPromoRedemptions(id, session.user.id)
+
+    return successResponse({ redemptions })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.promo.get',
+  }
+)
+
+// POST - Redeem a promo code against the user's fee on this auction
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to redeem a promo code')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { code } = redeemPromoCodeSchema.parse(body)
+
+    // Validity, caps and eligibility are enforced by the service
+    const redemption = await redeemPromoCode(code, session.user.id, id)
+
+    return successResponse({ redemption })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'auction.promo.redeem',
+  }
+)
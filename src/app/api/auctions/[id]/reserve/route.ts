@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { lowerReserveSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import { lowerReserve } from '@/services/auction.service'
+
+// PATCH - Lower the reserve of a live auction (seller only)
+export const PATCH = withErrorHandler<{ id: string }>(
+  async (request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to change the reserve')
+    }
+
+    const { id } = await params
+    const body = await request.json()
+    const { reservePrice } = lowerReserveSchema.parse(body)
+
+    const auction = await lowerReserve(id, session.user.id, reservePrice)
+
+    return successResponse({
+      auction: {
+        id: auction.id,
+        reservePrice: auction.reservePrice ? Number(auction.reservePrice) : null,
+        reserveMet: auction.reserveMet,
+      },
+    })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.reserve.lower',
+  }
+)
@@ -1,5 +1,5 @@
 import { NextResponse } from 'next/server'
-import { getAuctionById, getBidHistory } from '@/services/auction.service'
+import { getAuctionById, getBidHistory, areBidsHidden } from '@/services/auction.service'
 
 type RouteParams = { params: Promise<{ id: string }> }
 
@@ -20,7 +20,8 @@ export async function GET(request: Request, { params }: RouteParams) {
     const bids = await getBidHistory(id, 20)
 
     return NextResponse.json({
-      auction,
+      // Sealed bids stay hidden until the auction closes
+      auction: areBidsHidden(auction) ? { ...auction, bids: [] } : auction,
       bids,
     })
   } catch (error) {
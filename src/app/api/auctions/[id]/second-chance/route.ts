@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { secondChanceResponseSchema } from '@/lib/validation-schemas'
+import { UnauthorizedError } from '@/lib/errors'
+import {
+  acceptSecondChanceOffer,
+  declineSecondChanceOffer,
+  getPendingSecondChanceOffer,
+} from '@/services/second-chance.service'
+
+// GET - Get the current user's pending second-chance offer
+export const GET = withErrorHandler<{ id: string }>(
+  async (_request: NextRequest, { params }) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view offers')
+    }
+
+    const { id } = await params
+    const offer = await getPendingSecondChanceOffer(id, session.user.id)
+
+    return successResponse({ offer })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.second_chance.get',
+  }
+)
+
+// POST - Accept or decline a second-chance offer
+export const POST = withErrorHandler<{ id: string }>(
+  async (request: NextRequest) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to respond to offers')
+    }
+
+    const body = await request.json()
+    const { offerId, action } = secondChanceResponseSchema.parse(body)
+
+    // Ownership, status and expiry are enforced by the service
+    if (action === 'decline') {
+      const offer = await declineSecondChanceOffer(offerId, session.user.id)
+      return successResponse({ offer })
+    }
+
+    const offer = await acceptSecondChanceOffer(offerId, session.user.id)
+
+    return successResponse({ offer })
+  },
+  {
+    resourceType: 'auction',
+    action: 'auction.second_chance.respond',
+  }
+)
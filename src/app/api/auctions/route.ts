@@ -19,6 +19,7 @@ export async function GET(request: Request) {
     const maxPrice = searchParams.get('max_price') ? parseInt(searchParams.get('max_price')!) : undefined
     const country = searchParams.get('country') || undefined
     const searchQuery = searchParams.get('q') || undefined
+    const eventId = searchParams.get('event') || undefined
     const sortBy = (searchParams.get('sort') as 'ending_soon' | 'newly_listed' | 'price_low' | 'price_high' | 'most_bids' | 'relevance') || 'ending_soon'
 
     const result = await getActiveAuctions({
@@ -30,6 +31,7 @@ export async function GET(request: Request) {
       country,
       sortBy,
       searchQuery,
+      eventId,
     })
 
     return NextResponse.json(result)
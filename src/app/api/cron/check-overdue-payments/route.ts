@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { checkOverduePayments } from '@/services/payment.service'
+import { handleWinnerDefault, expireSecondChanceOffers } from '@/services/second-chance.service'
 import { headers } from 'next/headers'
 
 /**
@@ -36,14 +37,35 @@ export async function GET(request: Request) {
       console.log('[CRON] Overdue auction IDs:', overdueAuctionIds)
     }
 
+    // Forfeit defaulted winners' deposits and offer the car to the next bidder
+    const secondChanceOfferIds: string[] = []
+    for (const auctionId of overdueAuctionIds) {
+      try {
+        const offer = await handleWinnerDefault(auctionId)
+        if (offer) {
+          secondChanceOfferIds.push(offer.id)
+        }
+      } catch (error) {
+        console.error(`[CRON] Second-chance offer failed for auction ${auctionId}:`, error)
+      }
+    }
+
+    // Unanswered offers pass down the chain
+    const expiredOfferIds = await expireSecondChanceOffers()
+
+    console.log(
+      `[CRON] Made ${secondChanceOfferIds.length} second-chance offers, expired ${expiredOfferIds.length}`
+    )
+
     // TODO: Send notifications to winners and sellers about overdue payments
     // TODO: Create fraud alerts for repeated payment failures
-    // TODO: Automatically capture deposits for defaulted payments
 
     return NextResponse.json({
       success: true,
       overdueCount: overdueAuctionIds.length,
       overdueAuctionIds,
+      secondChanceOfferIds,
+      expiredOfferIds,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
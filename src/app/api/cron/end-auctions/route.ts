@@ -2,6 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getContainer } from '@/lib/container'
 import { endAuction } from '@/services/auction.service'
+import { expireNegotiationOffers } from '@/services/negotiation.service'
+import { excludeBlockedLots, syncAuctionEventStatuses } from '@/services/auction-event.service'
 import {
   broadcastAuctionEnded,
   notifyWinner,
@@ -82,12 +84,15 @@ export async function GET(request: NextRequest) {
         })
     }
 
-    // Find expired active auctions
-    const expiredAuctions = await prisma.auction.findMany({
+    // Find expired active auctions (PAUSED auctions are skipped until resumed,
+    // live finales until the auctioneer calls sold). Lots in a sale close in lot order.
+    const expiredAuctions = await excludeBlockedLots(await prisma.auction.findMany({
       where: {
         status: 'ACTIVE',
+        liveFinale: false,
         currentEndTime: { lte: now },
       },
+      orderBy: [{ currentEndTime: 'asc' }, { lotNumber: 'asc' }],
       include: {
         listing: {
           select: {
@@ -96,15 +101,6 @@ export async function GET(request: NextRequest) {
             sellerId: true,
           },
         },
-        bids: {
-          where: { isWinning: true },
-          take: 1,
-          include: {
-            bidder: {
-              select: { id: true, name: true, email: true },
-            },
-          },
-        },
         watchlist: {
           select: {
             userId: true,
@@ -112,7 +108,7 @@ export async function GET(request: NextRequest) {
           },
         },
       },
-    })
+    }))
 
     console.log(`[CRON] Found ${expiredAuctions.length} auctions to end`)
 
@@ -124,7 +120,6 @@ export async function GET(request: NextRequest) {
         // End the auction (determines SOLD/NO_SALE)
         const endedAuction = await endAuction(auction.id)
 
-        const winningBid = auction.bids[0]
         const winnerId = endedAuction.winnerId
         const finalPrice = endedAuction.finalPrice ? Number(endedAuction.finalPrice) : null
 
@@ -138,8 +133,9 @@ export async function GET(request: NextRequest) {
 
         console.log(`[CRON] Broadcast AUCTION_ENDED for auction ${auction.id} - ${endedAuction.status}`)
 
-        // Notify winner via private channel if sold
-        if (winnerId && finalPrice && winningBid) {
+        // Notify winner via private channel if sold. endAuction picks the
+        // winner, so sealed-bid winners are only known from its result
+        if (winnerId && finalPrice) {
           await notifyWinner(winnerId, {
             auctionId: auction.id,
             listingTitle: auction.listing.title,
@@ -211,6 +207,15 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Close out sales whose last lot has now ended
+    await syncAuctionEventStatuses()
+
+    // Close out offers left pending when a negotiation window ended
+    const expiredOffers = await expireNegotiationOffers()
+    if (expiredOffers > 0) {
+      console.log(`[CRON] Expired ${expiredOffers} negotiation offers`)
+    }
+
     const executionTime = Date.now() - startTime
     const successCount = results.filter(r => r.success).length
     const failureCount = results.filter(r => !r.success).length
@@ -225,6 +230,7 @@ export async function GET(request: NextRequest) {
         successCount,
         failureCount,
         results,
+        expiredOffers,
         executionTimeMs: executionTime,
       },
       severity: failureCount > 0 ? 'HIGH' : 'MEDIUM',
@@ -240,6 +246,7 @@ export async function GET(request: NextRequest) {
       successCount,
       failureCount,
       results,
+      expiredOffers,
       executionTimeMs: executionTime,
     })
 
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { reconcilePayments } from '@/services/reconciliation.service'
+
+/**
+ * Cron job that compares buyer payments, deposits and seller payouts with Stripe
+ * Runs every night
+ *
+ * Authorization: Use cron secret or Vercel cron header
+ */
+export async function GET() {
+  try {
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    // Check Vercel cron header (for Vercel deployments)
+    const vercelCronHeader = headersList.get('x-vercel-cron')
+
+    if (vercelCronHeader !== '1' && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[CRON] Reconciling payments with Stripe...')
+
+    const run = await reconcilePayments()
+
+    console.log(
+      `[CRON] Checked ${run.checkedCount} records: ${run.autoFixedCount} fixed, ${run.openCount} raised, ${run.errorCount} errors`
+    )
+
+    return NextResponse.json({
+      success: true,
+      runId: run.id,
+      checkedCount: run.checkedCount,
+      autoFixedCount: run.autoFixedCount,
+      openCount: run.openCount,
+      errorCount: run.errorCount,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] Payment reconciliation failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile payments',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { releaseLapsedEscrows } from '@/services/escrow.service'
+
+/**
+ * Cron job that releases escrows whose inspection window lapsed without a dispute
+ * Runs every hour
+ *
+ * Authorization: Use cron secret or Vercel cron header
+ */
+export async function GET() {
+  try {
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    // Check Vercel cron header (for Vercel deployments)
+    const vercelCronHeader = headersList.get('x-vercel-cron')
+
+    if (vercelCronHeader !== '1' && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[CRON] Releasing lapsed escrows...')
+
+    const releasedAuctionIds = await releaseLapsedEscrows()
+
+    console.log(`[CRON] Released ${releasedAuctionIds.length} escrows`)
+
+    return NextResponse.json({
+      success: true,
+      releasedCount: releasedAuctionIds.length,
+      releasedAuctionIds,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] Escrow release failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to release escrows',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { headers } from 'next/headers'
+import { releaseDuePayouts } from '@/services/seller-payout.service'
+
+/**
+ * Cron job that pays out held seller payouts once their holds have cleared
+ * Runs every hour
+ *
+ * Authorization: Use cron secret or Vercel cron header
+ */
+export async function GET() {
+  try {
+    const headersList = await headers()
+    const authHeader = headersList.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    // Check Vercel cron header (for Vercel deployments)
+    const vercelCronHeader = headersList.get('x-vercel-cron')
+
+    if (vercelCronHeader !== '1' && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('[CRON] Releasing held payouts...')
+
+    const releasedAuctionIds = await releaseDuePayouts()
+
+    console.log(`[CRON] Released ${releasedAuctionIds.length} payouts`)
+
+    return NextResponse.json({
+      success: true,
+      releasedCount: releasedAuctionIds.length,
+      releasedAuctionIds,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error) {
+    console.error('[CRON] Payout release failed:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to release payouts',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -3,6 +3,7 @@ import { auth } from '@/lib/auth'
 import { getContainer } from '@/lib/container'
 import { LISTING_RULES, validateFileType } from '@/domain/listing/rules'
 import { listingStatusValidator } from '@/services/validators/listing-status.validator'
+import { recordListingRevision } from '@/services/listing-revision.service'
 import { z } from 'zod'
 import { MediaType } from '@prisma/client'
 
@@ -88,6 +89,8 @@ export async function POST(request: Request, { params }: RouteParams) {
       },
     })
 
+    await recordListingRevision(id, 'SELLER', session.user.id)
+
     return NextResponse.json({
       uploadUrl,
       key,
@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server'
+import { auth } from '@/lib/auth'
+import { withErrorHandler } from '@/lib/with-error-handler'
+import { successResponse } from '@/lib/api-response'
+import { UnauthorizedError, ValidationError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { bankTransferRequestSchema } from '@/lib/validation-schemas'
+import { getBankTransfer, requestBankTransfer } from '@/services/bank-transfer.service'
+
+// GET - The winner's bank transfer instructions for an auction (?auctionId=)
+export const GET = withErrorHandler(
+  async (request: NextRequest) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to view payment details')
+    }
+
+    const auctionId = request.nextUrl.searchParams.get('auctionId')
+    if (!auctionId) {
+      throw new ValidationError('Auction ID is required', ERROR_CODES.VALIDATION_MISSING_FIELD)
+    }
+
+    const transfer = await getBankTransfer(auctionId, session.user.id)
+
+    return successResponse({ transfer })
+  },
+  {
+    resourceType: 'auction',
+    action: 'payment.bank_transfer.view',
+  }
+)
+
+// POST - Pay by bank transfer: reserve a payment reference and get the IBAN instructions
+export const POST = withErrorHandler(
+  async (request: NextRequest) => {
+    const session = await auth()
+    if (!session?.user?.id) {
+      throw new UnauthorizedError('You must be logged in to pay')
+    }
+
+    const body = await request.json()
+    const { auctionId, promoCode } = bankTransferRequestSchema.parse(body)
+
+    const transfer = await requestBankTransfer(auctionId, session.user.id, promoCode)
+
+    return successResponse({ transfer })
+  },
+  {
+    requiresAuth: true,
+    auditLog: true,
+    resourceType: 'auction',
+    action: 'payment.bank_transfer.requested',
+  }
+)
@@ -10,6 +10,7 @@ import { ERROR_CODES } from '@/lib/error-codes'
 
 const chargeFeeSchema = z.object({
   auctionId: z.string().min(1, 'Auction ID is required'),
+  promoCode: z.string().trim().min(1).max(40).optional(),
 })
 
 export const POST = withSimpleErrorHandler(
@@ -22,7 +23,7 @@ export const POST = withSimpleErrorHandler(
 
     // Parse and validate request body
     const body = await request.json()
-    const { auctionId } = chargeFeeSchema.parse(body)
+    const { auctionId, promoCode } = chargeFeeSchema.parse(body)
     const userId = session.user.id
 
     // Get service container
@@ -39,13 +40,14 @@ export const POST = withSimpleErrorHandler(
         severity: 'MEDIUM',
         status: 'SUCCESS',
         details: {
+          promoCode,
           timestamp: new Date().toISOString(),
         },
       },
     })
 
-    // Charge the buyer fee
-    const result = await container.fees.chargeBuyerFee(auctionId, userId)
+    // Charge the buyer fee, less any promo code given now or redeemed earlier
+    const result = await container.fees.chargeBuyerFee(auctionId, userId, promoCode)
 
     if (!result.success) {
       // Log failed payment attempt
@@ -2,8 +2,9 @@ import { NextResponse } from 'next/server'
 import { auth } from '@/lib/auth'
 import { z } from 'zod'
 import { getContainer } from '@/lib/container'
-import { calculateDepositAmount } from '@/lib/stripe'
 import { createDepositSchema, confirmDepositSchema } from '@/lib/validation-schemas'
+import { AppError } from '@/lib/errors'
+import { redeemPromoCode } from '@/services/promo-code.service'
 
 // GET - Get user's deposits
 export async function GET() {
@@ -36,7 +37,7 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json()
-    const { auctionId, bidAmount } = createDepositSchema.parse(body)
+    const { auctionId, bidAmount, promoCode } = createDepositSchema.parse(body)
 
     const container = getContainer()
 
@@ -53,6 +54,11 @@ export async function POST(request: Request) {
       )
     }
 
+    // A buyer fee promo code can be redeemed when registering to bid
+    const promo = promoCode
+      ? await redeemPromoCode(promoCode, session.user.id, auctionId)
+      : null
+
     // Create deposit
     const result = await container.deposits.createBidDeposit({
       userId: session.user.id,
@@ -75,7 +81,8 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       deposit: result.deposit,
-      depositAmount: calculateDepositAmount(bidAmount) / 100,
+      depositAmount: Number(result.deposit?.amount),
+      promoCode: promo?.promoCode.code,
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -85,6 +92,10 @@ export async function POST(request: Request) {
       )
     }
 
+    if (error instanceof AppError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode })
+    }
+
     console.error('Create deposit error:', error)
 
     return NextResponse.json(
@@ -34,6 +34,7 @@ import {
   Trophy,
   Zap,
   Shield,
+  Phone,
 } from 'lucide-react'
 
 type Bid = {
@@ -44,11 +45,18 @@ type Bid = {
   isWinning: boolean
   triggeredExtension: boolean
   invalidatedReason: string | null
+  channel: 'ONLINE' | 'PHONE' | 'ABSENTEE'
+  channelReason: string | null
   bidder: {
     id: string
     name: string | null
     email: string
   }
+  placedBy: {
+    id: string
+    name: string | null
+    email: string
+  } | null
 }
 
 type FraudAlert = {
@@ -278,6 +286,23 @@ export function BidHistoryDialog({
                                 <p className="text-xs text-muted-foreground">
                                   {bid.bidder.email}
                                 </p>
+                                {bid.channel !== 'ONLINE' && (
+                                  <div className="mt-1 space-y-0.5">
+                                    <Badge variant="outline" className="text-xs">
+                                      <Phone className="mr-1 h-3 w-3" />
+                                      {bid.channel === 'PHONE' ? 'Phone' : 'Absentee'}
+                                    </Badge>
+                                    <p className="text-xs text-muted-foreground">
+                                      Entered by{' '}
+                                      {bid.placedBy?.name || bid.placedBy?.email || 'staff'}
+                                    </p>
+                                    {bid.channelReason && (
+                                      <p className="text-xs text-muted-foreground">
+                                        {bid.channelReason}
+                                      </p>
+                                    )}
+                                  </div>
+                                )}
                               </div>
                             </td>
                             <td className="px-4 py-3">
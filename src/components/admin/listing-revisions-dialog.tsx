@@ -0,0 +1,354 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Image from 'next/image'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { formatCurrency } from '@/lib/utils'
+import { Loader2, Undo2, ArrowRight } from 'lucide-react'
+import type {
+  MediaSnapshot,
+  RevisionDiff,
+  RevisionField,
+  RevisionValue,
+} from '@/domain/listing/revisions'
+
+type RevisionRow = {
+  id: string
+  number: number
+  source: 'SELLER' | 'SUBMISSION' | 'ADMIN' | 'REVERT'
+  changedFields: string[]
+  reviewedAt: string | null
+  createdAt: string
+  author: { id: string; name: string | null; email: string } | null
+}
+
+type ReviewData = {
+  revisions: RevisionRow[]
+  current: number | null
+  baseline: number | null
+  diff: RevisionDiff | null
+}
+
+const SOURCE_LABELS: Record<RevisionRow['source'], string> = {
+  SELLER: 'Seller edit',
+  SUBMISSION: 'Submitted',
+  ADMIN: 'Staff edit',
+  REVERT: 'Reverted',
+}
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  title: 'Title',
+  description: 'Description',
+  category: 'Category',
+  make: 'Make',
+  model: 'Model',
+  year: 'Year',
+  mileage: 'Mileage',
+  mileageUnit: 'Mileage unit',
+  vin: 'VIN',
+  registrationCountry: 'Registration country',
+  conditionRating: 'Condition rating',
+  conditionNotes: 'Condition notes',
+  knownIssues: 'Known issues',
+  isRunning: 'Running',
+  conditionOverall: 'Overall condition',
+  conditionOverallNotes: 'Overall condition notes',
+  conditionPaintBody: 'Paint & body',
+  conditionPaintBodyNotes: 'Paint & body notes',
+  conditionInterior: 'Interior',
+  conditionInteriorNotes: 'Interior notes',
+  conditionFrame: 'Frame',
+  conditionFrameNotes: 'Frame notes',
+  conditionMechanical: 'Mechanical',
+  conditionMechanicalNotes: 'Mechanical notes',
+  locationCountry: 'Country',
+  locationCity: 'City',
+  locationRegion: 'Region',
+  startingPrice: 'Starting price',
+  reservePrice: 'Reserve price',
+  currency: 'Currency',
+}
+
+type ListingRevisionsDialogProps = {
+  listingId: string | null
+  listingTitle?: string
+  currency?: string
+  canRevert: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatValue(field: RevisionField, value: RevisionValue, currency: string): string {
+  if (value === null || value === '') {
+    return '(empty)'
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No'
+  }
+  if ((field === 'startingPrice' || field === 'reservePrice') && typeof value === 'number') {
+    return formatCurrency(value, currency)
+  }
+  return String(value)
+}
+
+function MediaThumb({ media, className }: { media: MediaSnapshot; className?: string }) {
+  return (
+    <div className={className}>
+      <div className="relative aspect-square w-20 overflow-hidden rounded-md bg-muted">
+        {media.type === 'PHOTO' ? (
+          <Image src={media.publicUrl} alt={media.category ?? 'Photo'} fill sizes="80px" className="object-cover" />
+        ) : (
+          <span className="flex h-full items-center justify-center text-xs text-muted-foreground">Video</span>
+        )}
+      </div>
+      <p className="mt-1 w-20 truncate text-xs text-muted-foreground">{media.category ?? 'uncategorised'}</p>
+    </div>
+  )
+}
+
+export function ListingRevisionsDialog({
+  listingId,
+  listingTitle = 'Listing',
+  currency = 'EUR',
+  canRevert,
+  open,
+  onOpenChange,
+}: ListingRevisionsDialogProps) {
+  const [review, setReview] = useState<ReviewData | null>(null)
+  const [from, setFrom] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [reverting, setReverting] = useState<RevisionField | null>(null)
+
+  const fetchRevisions = useCallback(async () => {
+    if (!listingId) {return}
+
+    try {
+      setLoading(true)
+      const query = from !== null ? `?from=${from}` : ''
+      const response = await fetch(`/api/admin/listings/${listingId}/revisions${query}`)
+      if (!response.ok) {throw new Error('Failed to load revisions')}
+
+      const data = await response.json()
+      setReview(data.data)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load revisions')
+    } finally {
+      setLoading(false)
+    }
+  }, [listingId, from])
+
+  useEffect(() => {
+    if (open) {
+      fetchRevisions()
+    }
+  }, [open, fetchRevisions])
+
+  useEffect(() => {
+    if (!open) {
+      setFrom(null)
+      setReview(null)
+    }
+  }, [open])
+
+  const handleRevert = async (field: RevisionField) => {
+    if (!listingId || !review || review.baseline === null) {return}
+
+    try {
+      setReverting(field)
+      const response = await fetch(`/api/admin/listings/${listingId}/revisions/revert`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision: review.baseline, field }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to revert field')
+      }
+
+      toast.success(`${FIELD_LABELS[field]} reverted to revision ${review.baseline}`)
+      await fetchRevisions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revert field')
+    } finally {
+      setReverting(null)
+    }
+  }
+
+  const diff = review?.diff
+  const media = diff?.media
+  const hasMediaChanges =
+    !!media &&
+    media.added.length + media.removed.length + media.reordered.length + media.updated.length > 0
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] max-w-3xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Changes - {listingTitle}</DialogTitle>
+          <DialogDescription>
+            {review && review.baseline !== null
+              ? `Revision ${review.current} compared with revision ${review.baseline}`
+              : 'No earlier review to compare against'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !review ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !review || review.revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded for this listing yet</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Compare with</Label>
+              <Select
+                value={review.baseline !== null ? String(review.baseline) : undefined}
+                onValueChange={(value) => setFrom(Number(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a revision" />
+                </SelectTrigger>
+                <SelectContent>
+                  {review.revisions
+                    .filter((revision) => revision.number !== review.current)
+                    .map((revision) => (
+                      <SelectItem key={revision.id} value={String(revision.number)}>
+                        Revision {revision.number} · {SOURCE_LABELS[revision.source]} ·{' '}
+                        {revision.author?.name || revision.author?.email || 'unknown'} ·{' '}
+                        {new Date(revision.createdAt).toLocaleString()}
+                        {revision.reviewedAt ? ' · reviewed' : ''}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {diff && diff.fields.length === 0 && !hasMediaChanges && (
+              <p className="text-sm text-muted-foreground">Nothing changed between these revisions</p>
+            )}
+
+            {diff && diff.fields.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Fields</h3>
+                <ul className="divide-y rounded-lg border">
+                  {diff.fields.map((change) => (
+                    <li key={change.field} className="space-y-2 p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-sm font-medium">{FIELD_LABELS[change.field]}</p>
+                        {canRevert && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleRevert(change.field)}
+                            disabled={reverting !== null}
+                          >
+                            {reverting === change.field ? (
+                              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                            ) : (
+                              <Undo2 className="mr-1 h-4 w-4" />
+                            )}
+                            Revert
+                          </Button>
+                        )}
+                      </div>
+                      <div className="grid gap-2 text-sm md:grid-cols-2">
+                        <p className="max-h-40 overflow-y-auto whitespace-pre-wrap rounded bg-destructive/10 p-2 line-through decoration-destructive/60">
+                          {formatValue(change.field, change.before, currency)}
+                        </p>
+                        <p className="max-h-40 overflow-y-auto whitespace-pre-wrap rounded bg-success/10 p-2">
+                          {formatValue(change.field, change.after, currency)}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {media && hasMediaChanges && (
+              <div className="space-y-4">
+                <h3 className="font-semibold">Photos and videos</h3>
+
+                {media.added.length > 0 && (
+                  <div className="space-y-2">
+                    <Badge variant="success">{media.added.length} added</Badge>
+                    <div className="flex flex-wrap gap-2">
+                      {media.added.map((m) => (
+                        <MediaThumb key={m.id} media={m} />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {media.removed.length > 0 && (
+                  <div className="space-y-2">
+                    <Badge variant="destructive">{media.removed.length} removed</Badge>
+                    <div className="flex flex-wrap gap-2">
+                      {media.removed.map((m) => (
+                        <MediaThumb key={m.id} media={m} className="opacity-60" />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {media.reordered.length > 0 && (
+                  <div className="space-y-2">
+                    <Badge variant="secondary">{media.reordered.length} moved</Badge>
+                    <ul className="flex flex-wrap gap-4">
+                      {media.reordered.map(({ media: m, from: fromPlace, to }) => (
+                        <li key={m.id} className="flex items-center gap-2 text-sm">
+                          <MediaThumb media={m} />
+                          <span className="flex items-center gap-1 text-muted-foreground">
+                            #{fromPlace} <ArrowRight className="h-3 w-3" /> #{to}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {media.updated.length > 0 && (
+                  <div className="space-y-2">
+                    <Badge variant="outline">{media.updated.length} edited</Badge>
+                    <ul className="flex flex-wrap gap-4">
+                      {media.updated.map(({ media: m, fields }) => (
+                        <li key={m.id} className="flex items-center gap-2 text-sm">
+                          <MediaThumb media={m} />
+                          <span className="text-muted-foreground">
+                            {fields
+                              .map((field) => (field === 'isPrimary' ? 'primary photo' : field))
+                              .join(', ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
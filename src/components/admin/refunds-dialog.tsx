@@ -0,0 +1,310 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { formatCurrency } from '@/lib/utils'
+import { Loader2, RotateCcw } from 'lucide-react'
+
+type RefundStatus = 'PENDING_APPROVAL' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED' | 'REJECTED'
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  PENDING_APPROVAL: 'Awaiting approval',
+  PROCESSING: 'Processing',
+  SUCCEEDED: 'Refunded',
+  FAILED: 'Failed',
+  REJECTED: 'Rejected',
+}
+
+type Balance = {
+  paymentIntentId: string
+  currency: string
+  charged: number
+  refundable: number
+}
+
+type DepositBalance = Balance & {
+  depositId: string
+  status: 'CAPTURED' | 'FORFEITED'
+  user: { id: string; name: string | null; email: string }
+}
+
+type Refund = {
+  id: string
+  target: 'BUYER_FEE' | 'DEPOSIT'
+  depositId: string | null
+  amount: string
+  currency: string
+  reason: string
+  status: RefundStatus
+  failureReason: string | null
+  reviewNote: string | null
+  createdAt: string
+  requestedBy: { id: string; name: string | null; email: string }
+  reviewedBy: { id: string; name: string | null; email: string } | null
+}
+
+type RefundsDialogProps = {
+  auctionId: string | null
+  auctionTitle?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRefunded?: () => void
+}
+
+// Select value for the buyer payment; deposits use their ID
+const PAYMENT = 'payment'
+
+export function RefundsDialog({
+  auctionId,
+  auctionTitle = 'Auction',
+  open,
+  onOpenChange,
+  onRefunded,
+}: RefundsDialogProps) {
+  const [payment, setPayment] = useState<Balance | null>(null)
+  const [deposits, setDeposits] = useState<DepositBalance[]>([])
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [loading, setLoading] = useState(false)
+  const [source, setSource] = useState<string>('')
+  const [amount, setAmount] = useState('')
+  const [reason, setReason] = useState('')
+  const [processing, setProcessing] = useState(false)
+
+  const fetchRefunds = useCallback(async () => {
+    if (!auctionId) {return}
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/admin/auctions/${auctionId}/refunds`)
+      if (!response.ok) {throw new Error('Failed to load refunds')}
+
+      const data = await response.json()
+      setPayment(data.data.payment)
+      setDeposits(data.data.deposits)
+      setRefunds(data.data.refunds)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load refunds')
+    } finally {
+      setLoading(false)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    if (open) {
+      setSource('')
+      setAmount('')
+      setReason('')
+      fetchRefunds()
+    }
+  }, [open, fetchRefunds])
+
+  const selected: Balance | undefined =
+    source === PAYMENT ? payment ?? undefined : deposits.find((d) => d.depositId === source)
+
+  const handleRefund = async () => {
+    if (!auctionId || !selected) {return}
+
+    try {
+      setProcessing(true)
+      const response = await fetch(`/api/admin/auctions/${auctionId}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          target: source === PAYMENT ? 'BUYER_FEE' : 'DEPOSIT',
+          depositId: source === PAYMENT ? undefined : source,
+          amount: amount ? parseFloat(amount) : undefined,
+          reason: reason.trim(),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to issue refund')
+      }
+
+      const refund: Refund = data.data.refund
+      if (refund.status === 'PENDING_APPROVAL') {
+        toast.success('Refund sent to a second admin for approval')
+      } else if (refund.status === 'FAILED') {
+        toast.error(`Refund failed: ${refund.failureReason}`)
+      } else {
+        toast.success('Refund issued')
+      }
+
+      setSource('')
+      setAmount('')
+      setReason('')
+      await fetchRefunds()
+      onRefunded?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to issue refund')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const nothingRefundable =
+    (!payment || payment.refundable === 0) && deposits.every((d) => d.refundable === 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refunds</DialogTitle>
+          <DialogDescription>{auctionTitle}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {nothingRefundable ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing on this auction can be refunded. Escrow purchases are refunded from the
+                escrow queue.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Refund</Label>
+                  <Select value={source} onValueChange={setSource}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a payment" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {payment && payment.refundable > 0 && (
+                        <SelectItem value={PAYMENT}>
+                          Buyer payment - {formatCurrency(payment.refundable, payment.currency)} of{' '}
+                          {formatCurrency(payment.charged, payment.currency)} refundable
+                        </SelectItem>
+                      )}
+                      {deposits
+                        .filter((d) => d.refundable > 0)
+                        .map((deposit) => (
+                          <SelectItem key={deposit.depositId} value={deposit.depositId}>
+                            {deposit.status === 'FORFEITED' ? 'Forfeited' : 'Captured'} deposit of{' '}
+                            {deposit.user.name || deposit.user.email} -{' '}
+                            {formatCurrency(deposit.refundable, deposit.currency)} refundable
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {selected && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="refund-amount">Amount ({selected.currency})</Label>
+                      <Input
+                        id="refund-amount"
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={selected.refundable}
+                        placeholder={`${selected.refundable} (full refund)`}
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        disabled={processing}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty to refund everything still refundable. Large refunds need a
+                        second admin to approve them.
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="refund-reason">Reason</Label>
+                      <Textarea
+                        id="refund-reason"
+                        rows={3}
+                        maxLength={1000}
+                        placeholder="Why is this refund issued? (required)"
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        disabled={processing}
+                      />
+                    </div>
+
+                    <Button
+                      onClick={handleRefund}
+                      disabled={processing || reason.trim().length < 5}
+                    >
+                      {processing ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                      )}
+                      Issue Refund
+                    </Button>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">History</h3>
+              {refunds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No refunds yet</p>
+              ) : (
+                <ul className="divide-y rounded-lg border">
+                  {refunds.map((refund) => (
+                    <li key={refund.id} className="space-y-1 p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">
+                          {formatCurrency(Number(refund.amount), refund.currency)}{' '}
+                          {refund.target === 'DEPOSIT' ? 'deposit' : 'buyer payment'}
+                        </span>
+                        <Badge
+                          variant={
+                            refund.status === 'FAILED' || refund.status === 'REJECTED'
+                              ? 'destructive'
+                              : refund.status === 'SUCCEEDED'
+                                ? 'secondary'
+                                : 'outline'
+                          }
+                        >
+                          {REFUND_STATUS_LABELS[refund.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-muted-foreground">{refund.reason}</p>
+                      <p className="text-xs text-muted-foreground">
+                        By {refund.requestedBy.name || refund.requestedBy.email} on{' '}
+                        {new Date(refund.createdAt).toLocaleString()}
+                        {refund.reviewedBy &&
+                          ` · reviewed by ${refund.reviewedBy.name || refund.reviewedBy.email}`}
+                        {refund.reviewNote && ` · ${refund.reviewNote}`}
+                        {refund.failureReason && ` · ${refund.failureReason}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
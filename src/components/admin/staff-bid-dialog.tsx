@@ -0,0 +1,219 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { toast } from 'sonner'
+import { formatCurrency } from '@/lib/utils'
+import { Loader2, Phone } from 'lucide-react'
+
+type StaffBidChannel = 'PHONE' | 'ABSENTEE'
+
+type StaffBidDialogProps = {
+  auctionId: string | null
+  auctionTitle?: string
+  currency?: string
+  currentBid?: number | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onBidPlaced?: () => void
+}
+
+const EMPTY_FORM = {
+  bidderEmail: '',
+  amount: '',
+  maxAmount: '',
+  channel: 'PHONE' as StaffBidChannel,
+  reason: '',
+}
+
+export function StaffBidDialog({
+  auctionId,
+  auctionTitle = 'Auction',
+  currency = 'USD',
+  currentBid = null,
+  open,
+  onOpenChange,
+  onBidPlaced,
+}: StaffBidDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [processing, setProcessing] = useState(false)
+
+  const amount = parseFloat(form.amount)
+  const maxAmount = form.maxAmount ? parseFloat(form.maxAmount) : undefined
+  const isValid =
+    form.bidderEmail.includes('@') &&
+    !isNaN(amount) &&
+    amount > 0 &&
+    (maxAmount === undefined || maxAmount >= amount) &&
+    form.reason.trim().length >= 10
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {setForm(EMPTY_FORM)}
+    onOpenChange(next)
+  }
+
+  const handlePlaceBid = async () => {
+    if (!auctionId || !isValid) {return}
+
+    try {
+      setProcessing(true)
+      const response = await fetch(`/api/admin/auctions/${auctionId}/bids`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          bidderEmail: form.bidderEmail.trim(),
+          amount,
+          maxAmount,
+          channel: form.channel,
+          reason: form.reason.trim(),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to place bid')
+      }
+
+      const { auction, isLeading } = data.data
+      if (auction.currentBid === null) {
+        toast.success('Sealed bid saved')
+      } else if (isLeading === false) {
+        toast.warning(`Outbid by another maximum. Current bid: ${formatCurrency(auction.currentBid, currency)}`)
+      } else {
+        toast.success(`Bid placed. Current bid: ${formatCurrency(auction.currentBid, currency)}`)
+      }
+      handleOpenChange(false)
+      onBidPlaced?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to place bid')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Place Bid on Behalf of Bidder</DialogTitle>
+          <DialogDescription>{auctionTitle}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Current bid:</span>
+            <span className="font-medium">
+              {currentBid !== null ? formatCurrency(currentBid, currency) : 'No bids yet'}
+            </span>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="staff-bid-email">Bidder email *</Label>
+            <Input
+              id="staff-bid-email"
+              type="email"
+              value={form.bidderEmail}
+              onChange={(e) => setForm((prev) => ({ ...prev, bidderEmail: e.target.value }))}
+              disabled={processing}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Channel *</Label>
+            <Select
+              value={form.channel}
+              onValueChange={(value) =>
+                setForm((prev) => ({ ...prev, channel: value as StaffBidChannel }))
+              }
+              disabled={processing}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="PHONE">Phone</SelectItem>
+                <SelectItem value="ABSENTEE">Absentee</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="staff-bid-amount">Bid amount *</Label>
+              <Input
+                id="staff-bid-amount"
+                type="number"
+                min={1}
+                value={form.amount}
+                onChange={(e) => setForm((prev) => ({ ...prev, amount: e.target.value }))}
+                disabled={processing}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-bid-max">Maximum (optional)</Label>
+              <Input
+                id="staff-bid-max"
+                type="number"
+                min={1}
+                value={form.maxAmount}
+                onChange={(e) => setForm((prev) => ({ ...prev, maxAmount: e.target.value }))}
+                disabled={processing}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="staff-bid-reason">Reason *</Label>
+            <Textarea
+              id="staff-bid-reason"
+              value={form.reason}
+              onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+              placeholder="e.g. Instructed by phone at 14:32, call recorded (minimum 10 characters)"
+              rows={3}
+              disabled={processing}
+            />
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+            <strong>Note:</strong> The bid goes through the same checks as an online bid, including
+            the bidder&apos;s deposit. It appears anonymously in public bid history and is
+            attributed to you in the audit log.
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button onClick={handlePlaceBid} disabled={processing || !isValid}>
+            {processing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Phone className="mr-2 h-4 w-4" />
+            )}
+            Place Bid
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,6 +20,7 @@ type AuctionCardProps = {
     bidCount: number
     currentEndTime: string | Date
     reserveMet: boolean
+    lotNumber?: number | null
     listing: {
       id: string
       title: string
@@ -208,6 +209,13 @@ export function AuctionCard({
 
         {/* Content */}
         <CardContent className="relative p-5">
+          {/* Lot number within a sale */}
+          {typeof auction.lotNumber === 'number' && (
+            <p className="mb-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground/70">
+              Lot {auction.lotNumber}
+            </p>
+          )}
+
           {/* Title */}
           <h3 className="line-clamp-1 font-heading text-lg font-semibold tracking-tight transition-colors duration-300 group-hover:text-primary">
             {auction.listing.title}
@@ -8,7 +8,9 @@ import { FeeBreakdown } from '@/components/auction/fee-breakdown'
 import { PaymentMethods } from '@/components/auction/payment-methods'
 import { useAuctionRealtime } from '@/hooks/useAuctionRealtime'
 import { useParams } from 'next/navigation'
-import type { Prisma } from '@prisma/client'
+import { parseFeeTerms } from '@/domain/auction/rules'
+import type { CurrencyConversion } from '@/components/auction/bid-panel'
+import type { AuctioneerCall, AuctionFormat, Prisma } from '@prisma/client'
 
 type AuctionDetailClientProps = {
   auction: {
@@ -19,7 +21,11 @@ type AuctionDetailClientProps = {
     reserveMet: boolean
     extensionCount: number
     status: string
-    buyerFeeRate: Prisma.Decimal
+    bidIncrementTable: string
+    liveFinale: boolean
+    liveCall: AuctioneerCall | null
+    format: AuctionFormat
+    feeTerms: Prisma.JsonValue
     listing: {
       startingPrice: Prisma.Decimal
       reservePrice: Prisma.Decimal | null
@@ -37,9 +43,10 @@ type AuctionDetailClientProps = {
       bidderId: string
     }>
   }
+  conversion?: CurrencyConversion | null
 }
 
-export function AuctionDetailClient({ auction: serverAuction }: AuctionDetailClientProps) {
+export function AuctionDetailClient({ auction: serverAuction, conversion }: AuctionDetailClientProps) {
   const bidPanelRef = useRef<HTMLDivElement>(null)
   const params = useParams()
   const locale = params?.locale as string || 'en'
@@ -53,6 +60,10 @@ export function AuctionDetailClient({ auction: serverAuction }: AuctionDetailCli
     reserveMet: serverAuction.reserveMet,
     extensionCount: serverAuction.extensionCount,
     status: serverAuction.status,
+    bidIncrementTable: serverAuction.bidIncrementTable,
+    liveFinale: serverAuction.liveFinale,
+    liveCall: serverAuction.liveCall,
+    format: serverAuction.format,
     listing: {
       startingPrice: Number(serverAuction.listing.startingPrice),
       reservePrice: serverAuction.listing.reservePrice
@@ -101,7 +112,7 @@ export function AuctionDetailClient({ auction: serverAuction }: AuctionDetailCli
     }
   }
 
-  const buyerFeeRate = Number(serverAuction.buyerFeeRate)
+  const feeTerms = parseFeeTerms(serverAuction.feeTerms)
   const locationCity = serverAuction.listing.locationCity
   const locationCountry = serverAuction.listing.locationCountry
 
@@ -109,12 +120,14 @@ export function AuctionDetailClient({ auction: serverAuction }: AuctionDetailCli
     <>
       {/* Mobile Bid Panel - Shows above content on mobile */}
       <div ref={bidPanelRef} className="lg:hidden space-y-4">
-        <BidPanel auction={auction} bids={bids} />
+        <BidPanel auction={auction} bids={bids} feeTerms={feeTerms} conversion={conversion} />
         <BuyerProtection locale={locale} />
         <FeeBreakdown
+          auctionId={serverAuction.id}
           locationCity={locationCity}
           locationCountry={locationCountry}
-          buyerFeeRate={buyerFeeRate}
+          feeTerms={feeTerms}
+          currency={serverAuction.listing.currency}
         />
         <PaymentMethods />
       </div>
@@ -122,12 +135,14 @@ export function AuctionDetailClient({ auction: serverAuction }: AuctionDetailCli
       {/* Desktop Bid Panel - Sidebar */}
       <div className="hidden lg:block">
         <div className="sticky top-4 space-y-4">
-          <BidPanel auction={auction} bids={bids} />
+          <BidPanel auction={auction} bids={bids} feeTerms={feeTerms} conversion={conversion} />
           <BuyerProtection locale={locale} />
           <FeeBreakdown
+            auctionId={serverAuction.id}
             locationCity={locationCity}
             locationCountry={locationCountry}
-            buyerFeeRate={buyerFeeRate}
+            feeTerms={feeTerms}
+            currency={serverAuction.listing.currency}
           />
           <PaymentMethods />
         </div>
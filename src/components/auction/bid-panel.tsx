@@ -8,13 +8,17 @@ import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { formatCurrency } from '@/lib/utils'
-import { useAuctionRealtime } from '@/hooks/useAuctionRealtime'
+import { useAuctionRealtime, AUCTIONEER_CALL_LABELS } from '@/hooks/useAuctionRealtime'
 import { useBidding } from '@/hooks/useBidding'
 import {
   calculateMinimumBid,
   calculateSuggestedBid,
   calculateBuyerFee,
   calculateTotalWithFee,
+  parseBidIncrementTable,
+  isWithinRetractionWindow,
+  DEFAULT_FEE_TERMS,
+  type FeeTerms,
 } from '@/domain/auction/rules'
 import {
   Loader2,
@@ -28,8 +32,15 @@ import {
 import { cn } from '@/lib/utils'
 import { formatBidderWithFlag, formatBidderWithFlagMobile } from '@/utils/country-flag'
 import { BidVerificationModal } from './bid-verification-modal'
+import { RetractBidButton } from './retract-bid-button'
 import { getCurrencySymbol } from '@/domain/currency/currency-config'
 
+// Rate to show amounts in the viewer's preferred currency as well
+export type CurrencyConversion = {
+  currency: string
+  rate: number
+}
+
 type BidPanelProps = {
   auction: {
     id: string
@@ -39,6 +50,10 @@ type BidPanelProps = {
     reserveMet: boolean
     extensionCount: number
     status: string
+    bidIncrementTable?: string
+    liveFinale?: boolean
+    liveCall?: 'FAIR_WARNING' | 'GOING_ONCE' | 'GOING_TWICE' | 'SOLD' | null
+    format?: 'OPEN' | 'SEALED_FIRST_PRICE' | 'SEALED_SECOND_PRICE'
     listing: {
       startingPrice: number
       reservePrice: number | null
@@ -54,18 +69,40 @@ type BidPanelProps = {
     bidderCountry: string | null
     bidder: { id: string }
   }>
+  feeTerms?: FeeTerms
+  conversion?: CurrencyConversion | null
 }
 
-export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPanelProps) {
+export function BidPanel({
+  auction: initialAuction,
+  bids: initialBids,
+  feeTerms = DEFAULT_FEE_TERMS,
+  conversion = null,
+}: BidPanelProps) {
   const { data: session } = useSession()
 
+  // Private maximum for proxy bidding (only visible to this bidder)
+  const [maxBidAmount, setMaxBidAmount] = useState('')
+  const [currentMaxBid, setCurrentMaxBid] = useState<number | null>(null)
+
+  // Sealed formats hide every bid but the bidder's own until close
+  const isSealed = !!initialAuction.format && initialAuction.format !== 'OPEN'
+  const [ownSealedBid, setOwnSealedBid] = useState<number | null>(null)
+
+  // Bids this bidder has already asked to retract (pending staff review)
+  const [retractionRequested, setRetractionRequested] = useState<string[]>([])
+
   // Calculate bid values
   const currentBid = initialAuction.currentBid
   const startingPrice = initialAuction.listing.startingPrice
   const currency = initialAuction.listing.currency
+  const formatConverted = (amount: number) =>
+    conversion ? `≈ ${formatCurrency(amount * conversion.rate, conversion.currency)}` : null
+  const incrementTable = parseBidIncrementTable(initialAuction.bidIncrementTable)
 
-  const minimumBid = calculateMinimumBid(currentBid, startingPrice)
-  const suggestedBid = calculateSuggestedBid(currentBid, startingPrice)
+  // Same increment table the bid API enforces
+  const minimumBid = calculateMinimumBid(currentBid, startingPrice, incrementTable)
+  const suggestedBid = calculateSuggestedBid(currentBid, startingPrice, incrementTable)
 
   // Real-time auction state management
   const {
@@ -104,8 +141,15 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
           currentEndTime: result.auction.currentEndTime,
         })
       }
-      // Clear bid input after successful submission
+      if (result.maxBid !== undefined) {
+        setCurrentMaxBid(result.maxBid)
+      }
+      if (result.sealedBid !== undefined) {
+        setOwnSealedBid(result.sealedBid)
+      }
+      // Clear bid inputs after successful submission
       clearBidAmount()
+      setMaxBidAmount('')
     },
   })
 
@@ -121,10 +165,27 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
     }
   }, [suggestedBid, setBidAmount])
 
+  // Load the bidder's existing maximum or sealed bid, if any
+  useEffect(() => {
+    if (!session?.user?.id) {
+      return
+    }
+    fetch(`/api/auctions/${auction.id}/bids?limit=1`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => {
+        setCurrentMaxBid(result?.data?.maxBid ?? null)
+        setOwnSealedBid(result?.data?.sealedBid ?? null)
+      })
+      .catch(() => {
+        // Not critical - the maximum is shown again after the next bid
+      })
+  }, [auction.id, session?.user?.id])
+
   // Handler for bid submission
   const handleBid = async () => {
     const amount = parseFloat(bidAmount)
-    await submitBid(amount)
+    const maxAmount = maxBidAmount && !isSealed ? parseFloat(maxBidAmount) : undefined
+    await submitBid(amount, maxAmount)
   }
 
   return (
@@ -149,7 +210,7 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
             <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-gradient-to-br from-primary to-primary/80 shadow-lg shadow-primary/25 md:h-9 md:w-9 sm:h-10 sm:w-10 sm:rounded-xl">
               <Gavel className="h-4 w-4 text-primary-foreground md:h-4.5 md:w-4.5 sm:h-5 sm:w-5" aria-hidden="true" />
             </div>
-            {isActive ? 'Place Your Bid' : 'Auction Ended'}
+            {isActive ? 'Place Your Bid' : auction.status === 'PAUSED' ? 'Bidding Paused' : 'Auction Ended'}
           </CardTitle>
           {isActive && (
             <div
@@ -166,28 +227,51 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
                 'h-3.5 w-3.5 md:h-4 md:w-4 sm:h-4 sm:w-4',
                 isEndingSoon && 'animate-bounce'
               )} aria-hidden="true" />
-              <span><span className="sr-only">Time remaining: </span>{timeRemaining}</span>
+              {auction.liveFinale && isEnded ? (
+                <span>Live finale</span>
+              ) : (
+                <span><span className="sr-only">Time remaining: </span>{timeRemaining}</span>
+              )}
             </div>
           )}
         </div>
       </CardHeader>
 
       <CardContent className="space-y-4 px-4 md:space-y-4.5 md:px-5 sm:space-y-5 sm:px-6">
+        {/* Auctioneer call during a live finale */}
+        {auction.liveFinale && auction.liveCall && (
+          <div
+            className="animate-pulse-subtle rounded-xl bg-gradient-ending px-4 py-3 text-center text-lg font-bold text-white shadow-lg"
+            role="status"
+            aria-live="assertive"
+          >
+            {AUCTIONEER_CALL_LABELS[auction.liveCall]}
+          </div>
+        )}
+
         {/* Current bid */}
         <div className="rounded-xl bg-gradient-to-br from-muted/80 to-muted/50 p-3.5 backdrop-blur-sm md:p-4 sm:rounded-2xl sm:p-5" aria-live="polite" aria-atomic="true">
           <div className="flex items-start justify-between gap-2">
             <div className="min-w-0 flex-1">
               <p className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground md:text-[11px] sm:text-xs" id="bid-label">
-                {currentBid ? 'Current Bid' : 'Starting Bid'}
+                {auction.currentBid ? (isSealed ? 'Final Price' : 'Current Bid') : 'Starting Bid'}
               </p>
               <p className="font-mono text-3xl font-bold text-primary md:text-3xl sm:text-4xl lg:text-5xl">
-                {formatCurrency(currentBid || startingPrice, currency)}
+                {formatCurrency(auction.currentBid || startingPrice, currency)}
               </p>
+              {conversion && (
+                <p className="text-xs text-muted-foreground sm:text-sm">
+                  {formatConverted(auction.currentBid || startingPrice)}
+                </p>
+              )}
             </div>
             <div className="flex flex-col items-end gap-1.5 text-right">
               <p className="flex items-center gap-1 rounded-full bg-background/50 px-2 py-1 text-xs font-medium text-muted-foreground md:gap-1.5 md:px-2.5 md:py-1 md:text-xs sm:gap-1.5 sm:px-3 sm:py-1.5 sm:text-sm">
                 <TrendingUp className="h-3 w-3 md:h-3.5 md:w-3.5 sm:h-4 sm:w-4" aria-hidden="true" />
-                {auction.bidCount} {auction.bidCount === 1 ? 'bid' : 'bids'}
+                {auction.bidCount}{' '}
+                {isSealed
+                  ? auction.bidCount === 1 ? 'bidder' : 'bidders'
+                  : auction.bidCount === 1 ? 'bid' : 'bids'}
               </p>
               {auction.extensionCount > 0 && (
                 <p className="text-[10px] text-muted-foreground md:text-[11px] sm:text-xs">
@@ -206,10 +290,19 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
               {auction.listing.reservePrice
                 ? auction.reserveMet
                   ? 'Reserve Price Met'
-                  : 'Reserve Not Yet Met'
+                  : isSealed && isActive
+                    ? 'Reserve Applies'
+                    : 'Reserve Not Yet Met'
                 : 'No Reserve'}
             </Badge>
           </div>
+
+          {isSealed && isActive && (
+            <p className="mt-3 text-xs text-muted-foreground md:text-xs sm:text-sm">
+              Sealed bids: amounts stay hidden until the auction closes and the highest bid wins
+              {auction.format === 'SEALED_SECOND_PRICE' && ', paying the second-highest bid'}.
+            </p>
+          )}
         </div>
 
         {/* Winning status */}
@@ -252,7 +345,9 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
         {isActive && !isSeller && session && (
           <>
             <div className="space-y-2">
-              <Label htmlFor="bidAmount" className="text-sm md:text-sm sm:text-sm">Your Bid</Label>
+              <Label htmlFor="bidAmount" className="text-sm md:text-sm sm:text-sm">
+                {isSealed ? 'Your Sealed Bid' : 'Your Bid'}
+              </Label>
               <div className="flex gap-2">
                 <div className="relative flex-1">
                   <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground md:text-sm sm:text-sm" aria-hidden="true">
@@ -285,6 +380,8 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
                 >
                   {isSubmitting ? (
                     <Loader2 className="h-4 w-4 animate-spin md:h-4 md:w-4 sm:h-4 sm:w-4" aria-hidden="true" />
+                  ) : ownSealedBid ? (
+                    'Revise Bid'
                   ) : (
                     'Place Bid'
                   )}
@@ -293,31 +390,72 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
               <p id="minimum-bid-text" className="text-[11px] text-muted-foreground md:text-xs sm:text-xs">
                 Minimum bid: {formatCurrency(minimumBid, currency)}
               </p>
+              {isSealed && ownSealedBid && (
+                <p className="text-[11px] font-medium md:text-xs sm:text-xs">
+                  Your bid: {formatCurrency(ownSealedBid, currency)}. You can revise it until the auction closes.
+                </p>
+              )}
             </div>
 
+            {/* Optional private maximum - we bid for you up to this amount */}
+            {!isSealed && (
+              <div className="space-y-2">
+                <Label htmlFor="maxBidAmount" className="text-sm md:text-sm sm:text-sm">
+                  Maximum bid (optional)
+                </Label>
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground" aria-hidden="true">
+                    {getCurrencySymbol(currency)}
+                  </span>
+                  <Input
+                    id="maxBidAmount"
+                    type="number"
+                    value={maxBidAmount}
+                    onChange={(e) => setMaxBidAmount(e.target.value)}
+                    min={bidAmount || minimumBid}
+                    step={10}
+                    className={cn(
+                      'h-10 pl-8 text-sm',
+                      maxBidAmount && parseFloat(maxBidAmount) < parseFloat(bidAmount || '0') && 'border-destructive focus-visible:ring-destructive'
+                    )}
+                    disabled={isSubmitting}
+                    aria-describedby="max-bid-text"
+                    aria-label={`Enter maximum bid in ${currency}`}
+                  />
+                </div>
+                <p id="max-bid-text" className="text-[11px] text-muted-foreground md:text-xs sm:text-xs">
+                  {currentMaxBid
+                    ? `Your maximum: ${formatCurrency(currentMaxBid, currency)}. We bid for you up to this amount.`
+                    : 'We bid for you, one increment at a time, up to this amount. Kept private.'}
+                </p>
+              </div>
+            )}
+
             {/* Quick bid buttons */}
-            <div className="flex gap-2" role="group" aria-label="Quick bid amounts">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleQuickBid(minimumBid)}
-                disabled={isSubmitting}
-                className="h-10 flex-1 text-xs md:h-10 md:text-xs sm:h-11 sm:text-sm"
-                aria-label={`Set bid to minimum: ${formatCurrency(minimumBid, currency)}`}
-              >
-                Min: {formatCurrency(minimumBid, currency)}
-              </Button>
-              <Button
-                variant="bid"
-                size="sm"
-                onClick={() => handleQuickBid(suggestedBid)}
-                disabled={isSubmitting}
-                className="h-10 flex-1 text-xs md:h-10 md:text-xs sm:h-11 sm:text-sm"
-                aria-label={`Set bid to suggested: ${formatCurrency(suggestedBid, currency)}`}
-              >
-                Suggested: {formatCurrency(suggestedBid, currency)}
-              </Button>
-            </div>
+            {!isSealed && (
+              <div className="flex gap-2" role="group" aria-label="Quick bid amounts">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleQuickBid(minimumBid)}
+                  disabled={isSubmitting}
+                  className="h-10 flex-1 text-xs md:h-10 md:text-xs sm:h-11 sm:text-sm"
+                  aria-label={`Set bid to minimum: ${formatCurrency(minimumBid, currency)}`}
+                >
+                  Min: {formatCurrency(minimumBid, currency)}
+                </Button>
+                <Button
+                  variant="bid"
+                  size="sm"
+                  onClick={() => handleQuickBid(suggestedBid)}
+                  disabled={isSubmitting}
+                  className="h-10 flex-1 text-xs md:h-10 md:text-xs sm:h-11 sm:text-sm"
+                  aria-label={`Set bid to suggested: ${formatCurrency(suggestedBid, currency)}`}
+                >
+                  Suggested: {formatCurrency(suggestedBid, currency)}
+                </Button>
+              </div>
+            )}
 
             {/* Fee breakdown */}
             {bidAmount && parseFloat(bidAmount) >= minimumBid && (
@@ -327,13 +465,18 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
                   <span>{formatCurrency(parseFloat(bidAmount), currency)}</span>
                 </div>
                 <div className="flex justify-between gap-2 text-muted-foreground">
-                  <span>Buyer fee (5%):</span>
-                  <span>+{formatCurrency(calculateBuyerFee(parseFloat(bidAmount)), currency)}</span>
+                  <span>Buyer fee:</span>
+                  <span>+{formatCurrency(calculateBuyerFee(parseFloat(bidAmount), feeTerms), currency)}</span>
                 </div>
                 <div className="mt-1.5 flex justify-between gap-2 border-t pt-1.5 font-medium md:mt-2 md:pt-2 sm:mt-2 sm:pt-2">
                   <span>Total if you win:</span>
-                  <span>{formatCurrency(calculateTotalWithFee(parseFloat(bidAmount)), currency)}</span>
+                  <span>{formatCurrency(calculateTotalWithFee(parseFloat(bidAmount), feeTerms), currency)}</span>
                 </div>
+                {conversion && (
+                  <div className="flex justify-end text-muted-foreground">
+                    {formatConverted(calculateTotalWithFee(parseFloat(bidAmount), feeTerms))}
+                  </div>
+                )}
               </div>
             )}
           </>
@@ -371,6 +514,22 @@ export function BidPanel({ auction: initialAuction, bids: initialBids }: BidPane
                         </Badge>
                       )}
                     </div>
+                    {isActive &&
+                      bid.bidder.id === session?.user?.id &&
+                      isWithinRetractionWindow(new Date(bid.createdAt)) &&
+                      (retractionRequested.includes(bid.id) ? (
+                        <span className="flex-shrink-0 text-[10px] text-muted-foreground md:text-[11px] sm:text-xs">
+                          Retraction pending
+                        </span>
+                      ) : (
+                        <RetractBidButton
+                          auctionId={auction.id}
+                          bidId={bid.id}
+                          amount={Number(bid.amount)}
+                          currency={currency}
+                          onRequested={() => setRetractionRequested((prev) => [...prev, bid.id])}
+                        />
+                      ))}
                     <span className="flex-shrink-0 font-medium">
                       {formatCurrency(Number(bid.amount), currency)}
                     </span>
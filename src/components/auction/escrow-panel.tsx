@@ -0,0 +1,206 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { loadStripe } from '@stripe/stripe-js'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { CheckCircle2, Circle, Loader2, ShieldCheck } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!)
+
+type EscrowStatus =
+  | 'AWAITING_FUNDS'
+  | 'FUNDED'
+  | 'HANDED_OVER'
+  | 'DISPUTED'
+  | 'RELEASED'
+  | 'REFUNDED'
+
+type EscrowPanelProps = {
+  auctionId: string
+  role: 'BUYER' | 'SELLER'
+  amountDue: number
+  currency: string
+  escrow: {
+    status: EscrowStatus
+    fundedAt: string | null
+    handedOverAt: string | null
+    inspectionEndsAt: string | null
+  } | null
+}
+
+type EscrowAction =
+  | { action: 'fund' }
+  | { action: 'hand_over'; note?: string }
+  | { action: 'confirm' }
+  | { action: 'dispute'; reason: string }
+
+export function EscrowPanel({ auctionId, role, amountDue, currency, escrow }: EscrowPanelProps) {
+  const t = useTranslations('auction.escrow')
+  const router = useRouter()
+  const [submitting, setSubmitting] = useState<EscrowAction['action'] | null>(null)
+  const [note, setNote] = useState('')
+  const [reason, setReason] = useState('')
+  const [showDispute, setShowDispute] = useState(false)
+
+  const status = escrow?.status
+  const isFunded = status !== undefined && status !== 'AWAITING_FUNDS'
+  const isHandedOver = !!escrow?.handedOverAt
+  const isSettled = status === 'RELEASED' || status === 'REFUNDED'
+
+  const send = async (payload: EscrowAction) => {
+    try {
+      setSubmitting(payload.action)
+      const response = await fetch(`/api/auctions/${auctionId}/escrow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      const data = await response.json()
+
+      // 3D Secure: authenticate, then ask the server to pick up the succeeded charge
+      if (data.data?.requiresAction && data.data.clientSecret) {
+        const stripe = await stripePromise
+        const result = await stripe?.confirmCardPayment(data.data.clientSecret)
+        if (!result || result.error) {
+          throw new Error(result?.error?.message || t('error'))
+        }
+        await send({ action: 'fund' })
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || t('error'))
+      }
+
+      toast.success(t(`done.${payload.action}`))
+      setShowDispute(false)
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const steps = [
+    { label: t('steps.paid'), done: isFunded },
+    { label: t('steps.handedOver'), done: isHandedOver },
+    { label: t('steps.released'), done: status === 'RELEASED' },
+  ]
+
+  return (
+    <Card className="border-primary bg-primary/5">
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-full bg-primary/10 p-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium">{t('title')}</p>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {status ? t(`status.${status}`) : t('description', { amount: formatCurrency(amountDue, currency) })}
+            </p>
+
+            {isFunded && (
+              <ul className="mt-3 space-y-1 text-sm">
+                {steps.map((step) => (
+                  <li key={step.label} className="flex items-center gap-2">
+                    {step.done ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Circle className="h-4 w-4 text-muted-foreground" />
+                    )}
+                    {step.label}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {status === 'HANDED_OVER' && escrow?.inspectionEndsAt && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {t('inspectionEnds', { date: new Date(escrow.inspectionEndsAt).toLocaleString() })}
+              </p>
+            )}
+
+            {/* Buyer: pay into escrow (or retry a failed charge) */}
+            {role === 'BUYER' && !isFunded && (
+              <Button className="mt-3" onClick={() => send({ action: 'fund' })} disabled={submitting !== null}>
+                {submitting === 'fund' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('fund', { amount: formatCurrency(amountDue, currency) })}
+              </Button>
+            )}
+
+            {/* Seller: report the handover */}
+            {role === 'SELLER' && status === 'FUNDED' && (
+              <div className="mt-3 space-y-2">
+                <Textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={t('handoverPlaceholder')}
+                  rows={2}
+                  maxLength={1000}
+                  disabled={submitting !== null}
+                />
+                <Button
+                  onClick={() => send({ action: 'hand_over', note: note.trim() || undefined })}
+                  disabled={submitting !== null}
+                >
+                  {submitting === 'hand_over' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('handOver')}
+                </Button>
+              </div>
+            )}
+
+            {/* Buyer: accept the car or freeze the escrow */}
+            {role === 'BUYER' && (status === 'FUNDED' || status === 'HANDED_OVER') && !isSettled && (
+              <div className="mt-3 space-y-2">
+                {showDispute ? (
+                  <>
+                    <Textarea
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder={t('disputePlaceholder')}
+                      rows={3}
+                      maxLength={2000}
+                      disabled={submitting !== null}
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        variant="destructive"
+                        onClick={() => send({ action: 'dispute', reason: reason.trim() })}
+                        disabled={submitting !== null || reason.trim().length < 10}
+                      >
+                        {submitting === 'dispute' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        {t('dispute')}
+                      </Button>
+                      <Button variant="outline" onClick={() => setShowDispute(false)} disabled={submitting !== null}>
+                        {t('cancel')}
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button onClick={() => send({ action: 'confirm' })} disabled={submitting !== null}>
+                      {submitting === 'confirm' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      {t('confirm')}
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowDispute(true)} disabled={submitting !== null}>
+                      {t('reportProblem')}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
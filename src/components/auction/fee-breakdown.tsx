@@ -1,21 +1,52 @@
 import { useTranslations } from 'next-intl'
 import { MapPin, Shield } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+import type { FeeTerms } from '@/domain/auction/rules'
+import { PromoCodeField } from './promo-code-field'
 
 type FeeBreakdownProps = {
+  auctionId: string
   locationCity: string
   locationCountry: string
-  buyerFeeRate: number
+  feeTerms: FeeTerms
+  currency: string
   isBusinessSeller?: boolean
 }
 
+function formatPercent(rate: number): string {
+  return String(Math.round(rate * 1000) / 10)
+}
+
 export function FeeBreakdown({
+  auctionId,
   locationCity,
   locationCountry,
-  buyerFeeRate,
+  feeTerms,
+  currency,
   isBusinessSeller = false,
 }: FeeBreakdownProps) {
   const t = useTranslations('auction.feeBreakdown')
-  const buyerFeePercent = Math.round(buyerFeeRate * 100)
+  const tiers = feeTerms.buyerPremium
+
+  // A sliding scale reads "6% up to €50,000, 4% above"
+  const buyerFee =
+    tiers.length === 1
+      ? t('buyerFee', { percent: formatPercent(tiers[0].rate) })
+      : t('buyerFeeTiered', {
+          tiers: tiers
+            .map((tier, index) =>
+              tier.upTo !== null
+                ? t('tierUpTo', {
+                    percent: formatPercent(tier.rate),
+                    amount: formatCurrency(tier.upTo, currency),
+                  })
+                : t('tierAbove', {
+                    percent: formatPercent(tier.rate),
+                    amount: formatCurrency(tiers[index - 1]?.upTo ?? 0, currency),
+                  })
+            )
+            .join(', '),
+        })
 
   return (
     <div className="rounded-lg border p-4">
@@ -40,8 +71,19 @@ export function FeeBreakdown({
             <Shield className="h-4 w-4 text-muted-foreground" />
           </div>
           <div className="min-w-0 flex-1">
-            <h4 className="text-sm font-medium">{t('buyerFee', { percent: buyerFeePercent })}</h4>
+            <h4 className="text-sm font-medium">{buyerFee}</h4>
             <p className="text-xs text-muted-foreground mt-0.5">{t('buyerFeeDescription')}</p>
+            {feeTerms.minBuyerFee > 0 && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {t('buyerFeeMin', { amount: formatCurrency(feeTerms.minBuyerFee, currency) })}
+              </p>
+            )}
+            {feeTerms.maxBuyerFee !== null && (
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {t('buyerFeeMax', { amount: formatCurrency(feeTerms.maxBuyerFee, currency) })}
+              </p>
+            )}
+            <PromoCodeField auctionId={auctionId} currency={currency} />
           </div>
         </div>
 
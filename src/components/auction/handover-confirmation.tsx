@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { CheckCircle2, KeyRound, Loader2 } from 'lucide-react'
+
+type HandoverConfirmationProps = {
+  auctionId: string
+  confirmedAt: string | null
+}
+
+export function HandoverConfirmation({ auctionId, confirmedAt }: HandoverConfirmationProps) {
+  const t = useTranslations('auction.handover')
+  const router = useRouter()
+  const [submitting, setSubmitting] = useState(false)
+
+  const confirm = async () => {
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/auctions/${auctionId}/handover`, { method: 'POST' })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error?.message || t('error'))
+      }
+
+      toast.success(t('confirmed'))
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="border-primary bg-primary/5">
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-full bg-primary/10 p-2">
+            {confirmedAt ? (
+              <CheckCircle2 className="h-5 w-5 text-primary" />
+            ) : (
+              <KeyRound className="h-5 w-5 text-primary" />
+            )}
+          </div>
+          <div className="flex-1">
+            <p className="font-medium">{t('title')}</p>
+            {confirmedAt ? (
+              <p className="mt-1 text-sm text-muted-foreground">
+                {t('confirmedOn', { date: new Date(confirmedAt).toLocaleDateString() })}
+              </p>
+            ) : (
+              <>
+                <p className="mt-1 text-sm text-muted-foreground">{t('description')}</p>
+                <Button className="mt-3" onClick={confirm} disabled={submitting}>
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('confirm')}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
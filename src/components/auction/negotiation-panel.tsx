@@ -0,0 +1,174 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Handshake, Loader2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type NegotiationOffer = {
+  id: string
+  madeBy: 'BUYER' | 'SELLER'
+  amount: number
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'COUNTERED' | 'EXPIRED'
+  createdAt: string
+}
+
+type NegotiationPanelProps = {
+  auctionId: string
+  role: 'BUYER' | 'SELLER'
+  highBid: number
+  currency: string
+  endsAt: string
+  isOpen: boolean
+  offers: NegotiationOffer[]
+}
+
+export function NegotiationPanel({
+  auctionId,
+  role,
+  highBid,
+  currency,
+  endsAt,
+  isOpen,
+  offers,
+}: NegotiationPanelProps) {
+  const t = useTranslations('auction.negotiation')
+  const router = useRouter()
+  const [amount, setAmount] = useState('')
+  const [submitting, setSubmitting] = useState<'offer' | 'accept' | 'decline' | null>(null)
+
+  const pending = offers.find((o) => o.status === 'PENDING')
+  const awaitingMe = pending && pending.madeBy !== role
+  const awaitingThem = pending && pending.madeBy === role
+
+  const request = async (url: string, body: Record<string, unknown>) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error?.message || t('error'))
+    }
+  }
+
+  const submitOffer = async () => {
+    const value = parseFloat(amount)
+    if (!value || value < highBid) {
+      toast.error(t('tooLow', { amount: formatCurrency(highBid, currency) }))
+      return
+    }
+
+    try {
+      setSubmitting('offer')
+      await request(`/api/auctions/${auctionId}/offers`, { amount: value })
+      toast.success(t('sent'))
+      setAmount('')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const respond = async (action: 'accept' | 'decline') => {
+    if (!pending) {return}
+
+    try {
+      setSubmitting(action)
+      await request(`/api/auctions/${auctionId}/offers/${pending.id}`, { action })
+      toast.success(action === 'accept' ? t('accepted') : t('declined'))
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <Card className="border-primary bg-primary/5">
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-full bg-primary/10 p-2">
+            <Handshake className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium">{t('title')}</p>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {t(role === 'SELLER' ? 'descriptionSeller' : 'descriptionBuyer', {
+                amount: formatCurrency(highBid, currency),
+              })}
+            </p>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {isOpen
+                ? t('endsAt', { date: new Date(endsAt).toLocaleString() })
+                : t('closed')}
+            </p>
+
+            {offers.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm">
+                {offers.map((offer) => (
+                  <li key={offer.id} className="flex items-center justify-between gap-2">
+                    <span>
+                      {t(offer.madeBy === role ? 'yourOffer' : 'theirOffer')}:{' '}
+                      <span className="font-medium">{formatCurrency(offer.amount, currency)}</span>
+                    </span>
+                    <Badge variant="outline">{t(`status.${offer.status}`)}</Badge>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {isOpen && awaitingMe && (
+              <div className="mt-3 flex gap-2">
+                <Button onClick={() => respond('accept')} disabled={submitting !== null}>
+                  {submitting === 'accept' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('accept', { amount: formatCurrency(pending.amount, currency) })}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => respond('decline')}
+                  disabled={submitting !== null}
+                >
+                  {submitting === 'decline' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('decline')}
+                </Button>
+              </div>
+            )}
+
+            {isOpen && awaitingThem && (
+              <p className="mt-3 text-sm text-muted-foreground">{t('awaiting')}</p>
+            )}
+
+            {isOpen && !awaitingThem && (
+              <div className="mt-3 flex gap-2">
+                <Input
+                  type="number"
+                  min={highBid}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={t('placeholder')}
+                  disabled={submitting !== null}
+                />
+                <Button variant="secondary" onClick={submitOffer} disabled={submitting !== null}>
+                  {submitting === 'offer' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {awaitingMe ? t('counter') : t('makeOffer')}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Loader2, Tag } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type Redemption = {
+  id: string
+  target: 'BUYER_FEE' | 'SELLER_COMMISSION'
+  discountAmount: string | null
+  appliedAt: string | null
+  promoCode: {
+    code: string
+    description: string | null
+    discountType: 'PERCENT' | 'FIXED'
+    discountValue: string
+  }
+}
+
+type PromoCodeFieldProps = {
+  auctionId: string
+  currency: string
+}
+
+export function PromoCodeField({ auctionId, currency }: PromoCodeFieldProps) {
+  const t = useTranslations('auction.feeBreakdown')
+  const { data: session } = useSession()
+  const [redemptions, setRedemptions] = useState<Redemption[]>([])
+  const [code, setCode] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const fetchRedemptions = useCallback(async () => {
+    const response = await fetch(`/api/auctions/${auctionId}/promo`)
+    if (response.ok) {
+      const data = await response.json()
+      setRedemptions(data.data.redemptions)
+    }
+  }, [auctionId])
+
+  useEffect(() => {
+    if (session?.user?.id) {
+      fetchRedemptions()
+    }
+  }, [session?.user?.id, fetchRedemptions])
+
+  if (!session?.user?.id) {
+    return null
+  }
+
+  const redeem = async () => {
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/auctions/${auctionId}/promo`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || t('promoError'))
+      }
+
+      toast.success(t('promoRedeemed'))
+      setCode('')
+      await fetchRedemptions()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('promoError'))
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const describe = (redemption: Redemption) => {
+    const { promoCode } = redemption
+    const discount = redemption.discountAmount !== null
+      ? formatCurrency(Number(redemption.discountAmount), currency)
+      : promoCode.discountType === 'PERCENT'
+        ? `${Number(promoCode.discountValue)}%`
+        : formatCurrency(Number(promoCode.discountValue), 'EUR') // Converted when applied
+
+    return t(redemption.target === 'BUYER_FEE' ? 'promoBuyerFee' : 'promoCommission', {
+      code: promoCode.code,
+      discount,
+    })
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      {redemptions.map((redemption) => (
+        <p key={redemption.id} className="flex items-center gap-1 text-xs font-medium text-green-700">
+          <Tag className="h-3 w-3" />
+          {describe(redemption)}
+        </p>
+      ))}
+      <div className="flex gap-2">
+        <Input
+          className="h-8 text-xs"
+          placeholder={t('promoPlaceholder')}
+          value={code}
+          maxLength={40}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={submitting}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8"
+          onClick={redeem}
+          disabled={submitting || code.trim().length === 0}
+        >
+          {submitting && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+          {t('promoApply')}
+        </Button>
+      </div>
+    </div>
+  )
+}
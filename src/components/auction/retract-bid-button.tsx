@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Undo2, Loader2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+interface RetractBidButtonProps {
+  auctionId: string
+  bidId: string
+  amount: number
+  currency: string
+  onRequested?: () => void
+}
+
+export function RetractBidButton({
+  auctionId,
+  bidId,
+  amount,
+  currency,
+  onRequested,
+}: RetractBidButtonProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [reason, setReason] = useState('')
+
+  const isValid = reason.trim().length >= 10
+
+  const handleRequest = async () => {
+    if (!isValid) {return}
+
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/auctions/${auctionId}/bids/${bidId}/retraction`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to request retraction')
+      }
+
+      toast.success('Retraction requested. Your bid stands until our team has reviewed it.')
+      setOpen(false)
+      setReason('')
+      onRequested?.()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to request retraction')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost" className="h-6 px-2 text-[11px] md:text-xs">
+          <Undo2 className="mr-1 h-3 w-3" />
+          Retract
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Retract Bid</DialogTitle>
+          <DialogDescription>
+            Ask us to withdraw your bid of {formatCurrency(amount, currency)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="retraction-reason">Reason</Label>
+            <Textarea
+              id="retraction-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. I typed an extra zero"
+              rows={3}
+              maxLength={500}
+              disabled={loading}
+            />
+          </div>
+
+          <div className="rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+            <strong>Note:</strong> Retractions are for genuine mistakes and are reviewed by our
+            team. Your bid remains binding until approved, and repeated retractions may limit
+            your bidding.
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleRequest} disabled={loading || !isValid}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              'Request Retraction'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useTranslations } from 'next-intl'
+import { toast } from 'sonner'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Gavel, Loader2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+type SecondChanceOfferProps = {
+  auctionId: string
+  offerId: string
+  amount: number
+  currency: string
+  expiresAt: string
+}
+
+export function SecondChanceOffer({
+  auctionId,
+  offerId,
+  amount,
+  currency,
+  expiresAt,
+}: SecondChanceOfferProps) {
+  const t = useTranslations('auction.secondChance')
+  const router = useRouter()
+  const [submitting, setSubmitting] = useState<'accept' | 'decline' | null>(null)
+
+  const respond = async (action: 'accept' | 'decline') => {
+    try {
+      setSubmitting(action)
+      const response = await fetch(`/api/auctions/${auctionId}/second-chance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ offerId, action }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        if (error.error?.code === 'DEPOSIT_REQUIRED') {
+          toast.error(t('depositRequired'))
+          return
+        }
+        throw new Error(error.error?.message || t('error'))
+      }
+
+      toast.success(action === 'accept' ? t('accepted') : t('declined'))
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('error'))
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <Card className="border-primary bg-primary/5">
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          <div className="rounded-full bg-primary/10 p-2">
+            <Gavel className="h-5 w-5 text-primary" />
+          </div>
+          <div className="flex-1">
+            <p className="font-medium">{t('title')}</p>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {t('description', { amount: formatCurrency(amount, currency) })}
+            </p>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {t('expires', { date: new Date(expiresAt).toLocaleString() })}
+            </p>
+            <div className="mt-3 flex gap-2">
+              <Button onClick={() => respond('accept')} disabled={submitting !== null}>
+                {submitting === 'accept' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('accept')}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => respond('decline')}
+                disabled={submitting !== null}
+              >
+                {submitting === 'decline' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('decline')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
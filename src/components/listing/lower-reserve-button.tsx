@@ -0,0 +1,153 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { TrendingDown, Loader2 } from 'lucide-react'
+import { formatCurrency } from '@/lib/utils'
+
+interface LowerReserveButtonProps {
+  auctionId: string
+  listingTitle: string
+  currentReserve: number
+  currentBid: number | null
+  currency: string
+}
+
+export function LowerReserveButton({
+  auctionId,
+  listingTitle,
+  currentReserve,
+  currentBid,
+  currency,
+}: LowerReserveButtonProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [reserve, setReserve] = useState('')
+
+  const newReserve = parseFloat(reserve)
+  const isValid = !isNaN(newReserve) && newReserve > 0 && newReserve < currentReserve
+  const willMeetReserve = isValid && currentBid !== null && currentBid >= newReserve
+
+  const handleLower = async () => {
+    if (!isValid) {return}
+
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/auctions/${auctionId}/reserve`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reservePrice: newReserve }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to lower reserve')
+      }
+
+      toast.success(
+        data.data.auction.reserveMet
+          ? 'Reserve lowered. The current bid now meets your reserve.'
+          : 'Reserve lowered'
+      )
+      setOpen(false)
+      setReserve('')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to lower reserve')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <TrendingDown className="mr-1 h-4 w-4" />
+          Lower Reserve
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Lower Reserve</DialogTitle>
+          <DialogDescription>
+            Lower the reserve for &ldquo;{listingTitle}&rdquo; while the auction is live
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-1 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Current reserve:</span>
+              <span className="font-medium">{formatCurrency(currentReserve, currency)}</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Current bid:</span>
+              <span className="font-medium">
+                {currentBid !== null ? formatCurrency(currentBid, currency) : 'No bids yet'}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="new-reserve">New reserve</Label>
+            <Input
+              id="new-reserve"
+              type="number"
+              min={100}
+              max={currentReserve - 1}
+              value={reserve}
+              onChange={(e) => setReserve(e.target.value)}
+              disabled={loading}
+            />
+          </div>
+
+          {willMeetReserve && (
+            <div className="rounded-lg border border-primary/20 bg-primary/5 p-3 text-sm text-primary">
+              The current bid already meets this reserve. The car will sell if the auction ends now.
+            </div>
+          )}
+
+          <div className="rounded-lg bg-muted/50 p-3 text-sm text-muted-foreground">
+            <strong>Note:</strong> A reserve can only be lowered, never raised. Bidders and
+            watchers are notified; the new amount is not shown to them.
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleLower} disabled={loading || !isValid}>
+            {loading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              <>
+                <TrendingDown className="mr-2 h-4 w-4" />
+                Lower Reserve
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
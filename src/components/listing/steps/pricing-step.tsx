@@ -64,8 +64,8 @@ export function PricingStep({ form }: PricingStepProps) {
         <FormSelect
           label="Currency"
           fieldName="currency"
-          value={currency as 'EUR' | 'USD' | 'GBP' | 'RON'}
-          onValueChange={(value) => setValue('currency', value as 'EUR' | 'USD' | 'GBP' | 'RON')}
+          value={currency as ListingFormData['currency']}
+          onValueChange={(value) => setValue('currency', value as ListingFormData['currency'])}
           options={CURRENCIES.map((curr) => ({
             value: curr.code,
             label: `${curr.symbol} ${curr.name}`,
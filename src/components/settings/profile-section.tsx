@@ -16,7 +16,18 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { toast } from 'sonner'
-import { User, Mail, Phone, Globe, CheckCircle, Loader2, AlertTriangle } from 'lucide-react'
+import { CURRENCIES } from '@/constants/listing-form'
+import {
+  User,
+  Mail,
+  Phone,
+  Globe,
+  CheckCircle,
+  Loader2,
+  AlertTriangle,
+  Receipt,
+  Coins,
+} from 'lucide-react'
 
 interface UserProfile {
   id: string
@@ -25,6 +36,12 @@ interface UserProfile {
   phone: string | null
   phoneVerified: string | null
   country: string | null
+  preferredCurrency: string
+  billingCompanyName: string | null
+  billingVatNumber: string | null
+  billingAddress: string | null
+  billingCity: string | null
+  billingRegion: string | null
   image: string | null
   emailVerified: string | null
   createdAt: string
@@ -70,6 +87,12 @@ export function ProfileSection() {
     name: '',
     phone: '',
     country: '',
+    preferredCurrency: 'EUR',
+    billingCompanyName: '',
+    billingVatNumber: '',
+    billingAddress: '',
+    billingCity: '',
+    billingRegion: '',
   })
 
   useEffect(() => {
@@ -86,6 +109,12 @@ export function ProfileSection() {
         name: data.user.name || '',
         phone: data.user.phone || '',
         country: data.user.country || '',
+        preferredCurrency: data.user.preferredCurrency,
+        billingCompanyName: data.user.billingCompanyName || '',
+        billingVatNumber: data.user.billingVatNumber || '',
+        billingAddress: data.user.billingAddress || '',
+        billingCity: data.user.billingCity || '',
+        billingRegion: data.user.billingRegion || '',
       })
     } catch (err) {
       console.error('Error fetching profile:', err)
@@ -108,6 +137,12 @@ export function ProfileSection() {
           name: formData.name || null,
           phone: formData.phone || null,
           country: formData.country || null,
+          preferredCurrency: formData.preferredCurrency,
+          billingCompanyName: formData.billingCompanyName || null,
+          billingVatNumber: formData.billingVatNumber || null,
+          billingAddress: formData.billingAddress || null,
+          billingCity: formData.billingCity || null,
+          billingRegion: formData.billingRegion || null,
         }),
       })
 
@@ -261,6 +296,102 @@ export function ProfileSection() {
             <p className="text-xs text-muted-foreground">{t('countryHelp')}</p>
           </div>
 
+          {/* Preferred currency */}
+          <div className="space-y-2">
+            <Label htmlFor="preferredCurrency" className="flex items-center gap-2">
+              <Coins className="h-4 w-4" />
+              {t('preferredCurrency')}
+            </Label>
+            <Select
+              value={formData.preferredCurrency}
+              onValueChange={(value) =>
+                setFormData((prev) => ({ ...prev, preferredCurrency: value }))
+              }
+            >
+              <SelectTrigger id="preferredCurrency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((currency) => (
+                  <SelectItem key={currency.code} value={currency.code}>
+                    {currency.code} - {currency.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{t('preferredCurrencyHelp')}</p>
+          </div>
+
+          {/* Billing details */}
+          <div className="space-y-4 border-t pt-6">
+            <div>
+              <h3 className="flex items-center gap-2 font-semibold">
+                <Receipt className="h-4 w-4" />
+                {t('billingTitle')}
+              </h3>
+              <p className="text-xs text-muted-foreground">{t('billingDescription')}</p>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="billingCompanyName">{t('billingCompanyName')}</Label>
+                <Input
+                  id="billingCompanyName"
+                  value={formData.billingCompanyName}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, billingCompanyName: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="billingVatNumber">{t('billingVatNumber')}</Label>
+                <Input
+                  id="billingVatNumber"
+                  value={formData.billingVatNumber}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      billingVatNumber: e.target.value.toUpperCase().replace(/\s/g, ''),
+                    }))
+                  }
+                  placeholder="RO12345678"
+                />
+                <p className="text-xs text-muted-foreground">{t('billingVatNumberHelp')}</p>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="billingAddress">{t('billingAddress')}</Label>
+                <Input
+                  id="billingAddress"
+                  value={formData.billingAddress}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, billingAddress: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="billingCity">{t('billingCity')}</Label>
+                <Input
+                  id="billingCity"
+                  value={formData.billingCity}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, billingCity: e.target.value }))
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="billingRegion">{t('billingRegion')}</Label>
+                <Input
+                  id="billingRegion"
+                  value={formData.billingRegion}
+                  onChange={(e) =>
+                    setFormData((prev) => ({ ...prev, billingRegion: e.target.value }))
+                  }
+                  placeholder="RO-CJ"
+                />
+              </div>
+            </div>
+          </div>
+
           <Button type="submit" disabled={saving}>
             {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             {saving ? t('saving') : t('saveChanges')}
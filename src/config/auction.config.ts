@@ -42,6 +42,48 @@ const AUCTION_CONFIG_VALUES = {
 
   // Payment deadlines
   paymentDeadlineDays: parseInt(process.env.PAYMENT_DEADLINE_DAYS || '5', 10),
+
+  // Second-chance offers after a winner defaults
+  secondChanceResponseHours: parseInt(
+    process.env.SECOND_CHANCE_RESPONSE_HOURS || '48',
+    10
+  ),
+  secondChanceMaxOffers: parseInt(process.env.SECOND_CHANCE_MAX_OFFERS || '2', 10),
+
+  // Post-auction negotiation when the reserve is not met
+  negotiationWindowHours: parseInt(process.env.NEGOTIATION_WINDOW_HOURS || '48', 10),
+
+  // How long after placing a bid the bidder may ask to retract it
+  bidRetractionWindowMinutes: parseInt(process.env.BID_RETRACTION_WINDOW_MINUTES || '15', 10),
+
+  // Escrow: days the buyer has to inspect the car after handover before funds release
+  escrowInspectionDays: parseInt(process.env.ESCROW_INSPECTION_DAYS || '3', 10),
+
+  // Admin refunds above this amount need a second admin to approve them
+  refundApprovalThreshold: parseFloat(process.env.REFUND_APPROVAL_THRESHOLD || '1000'),
+
+  // Bank transfers: days past the payment deadline to wait for a transfer to clear
+  bankTransferGraceDays: parseInt(process.env.BANK_TRANSFER_GRACE_DAYS || '3', 10),
+
+  // Bidding limits: the card hold covers this share of the limit; smaller limits
+  // are not worth it over per-auction deposits
+  biddingLimitHoldPercent: parseFloat(process.env.BIDDING_LIMIT_HOLD_PERCENT || '10'),
+  biddingLimitMinimum: parseFloat(process.env.BIDDING_LIMIT_MINIMUM || '20000'),
+
+  // Seller payout holds: days after the buyer paid, waiting for the buyer to
+  // confirm the handover (sales outside escrow), and admin release of a seller's
+  // first payout
+  payoutHoldDays: parseInt(process.env.PAYOUT_HOLD_DAYS || '0', 10),
+  payoutHoldUntilHandover: process.env.PAYOUT_HOLD_UNTIL_HANDOVER === 'true',
+  payoutFirstSaleManualRelease: process.env.PAYOUT_FIRST_SALE_MANUAL_RELEASE !== 'false',
+
+  // Nightly reconciliation: how far back to re-check settled payments and payouts
+  reconciliationLookbackDays: parseInt(process.env.RECONCILIATION_LOOKBACK_DAYS || '30', 10),
+
+  // Bid transactions queue on the auction row lock, so a busy auction needs
+  // more headroom than Prisma's defaults (2s to get a connection, 5s to run)
+  bidTransactionMaxWaitMs: parseInt(process.env.BID_TRANSACTION_MAX_WAIT_MS || '10000', 10),
+  bidTransactionTimeoutMs: parseInt(process.env.BID_TRANSACTION_TIMEOUT_MS || '15000', 10),
 } as const
 
 /**
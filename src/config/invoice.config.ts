@@ -0,0 +1,32 @@
+/**
+ * Invoice Configuration
+ *
+ * Issuer details and VAT settings for buyer fee invoices.
+ * All values can be overridden via environment variables.
+ */
+
+export const INVOICE_CONFIG = {
+  // Numbering: invoices are numbered SERIES-000001, SERIES-000002, ...
+  series: process.env.INVOICE_SERIES || 'FND',
+
+  // Romanian standard VAT rate, in percent
+  vatRate: parseFloat(process.env.INVOICE_VAT_RATE || '21'),
+
+  // Issuer (the platform's legal entity)
+  issuer: {
+    name: process.env.INVOICE_ISSUER_NAME || 'Finds SRL',
+    vatNumber: process.env.INVOICE_ISSUER_VAT_NUMBER || 'RO00000000',
+    registrationNumber: process.env.INVOICE_ISSUER_REG_NUMBER || 'J40/0000/2024',
+    address: process.env.INVOICE_ISSUER_ADDRESS || 'Str. Exemplu 1',
+    // e-Factura wants Bucharest addresses as SECTOR1..SECTOR6 with region RO-B
+    city: process.env.INVOICE_ISSUER_CITY || 'SECTOR1',
+    region: process.env.INVOICE_ISSUER_REGION || 'RO-B',
+    country: 'RO',
+    iban: process.env.INVOICE_ISSUER_IBAN || '',
+    bic: process.env.INVOICE_ISSUER_BIC || '',
+    email: process.env.INVOICE_ISSUER_EMAIL || 'billing@finds.ro',
+  },
+} as const
+
+// Type-safe config export
+export type InvoiceConfig = typeof INVOICE_CONFIG
@@ -16,8 +16,7 @@ export const AUCTION_RULES = {
   MIN_BID_INCREMENT_PERCENT: AUCTION_CONFIG.minBidIncrementPercent,
   MIN_BID_INCREMENT_AMOUNT: AUCTION_CONFIG.minBidIncrementAmount,
 
-  // Bid increments by price tier (for suggested next bid)
-  // These are fixed business rules, not configurable
+  // Bid increments by price tier for the default ('standard') table
   BID_INCREMENTS: [
     { maxPrice: 1000, increment: 50 },
     { maxPrice: 5000, increment: 100 },
@@ -34,21 +33,105 @@ export const AUCTION_RULES = {
 
   // Payment (uses config value)
   PAYMENT_DEADLINE_DAYS: AUCTION_CONFIG.paymentDeadlineDays,
+
+  // Second-chance offers (uses config values)
+  SECOND_CHANCE_RESPONSE_HOURS: AUCTION_CONFIG.secondChanceResponseHours,
+  SECOND_CHANCE_MAX_OFFERS: AUCTION_CONFIG.secondChanceMaxOffers,
+
+  // Post-auction negotiation (uses config values)
+  NEGOTIATION_WINDOW_HOURS: AUCTION_CONFIG.negotiationWindowHours,
+
+  // Bid retraction requests (uses config value)
+  BID_RETRACTION_WINDOW_MINUTES: AUCTION_CONFIG.bidRetractionWindowMinutes,
+
+  // Escrow inspection after handover (uses config value)
+  ESCROW_INSPECTION_DAYS: AUCTION_CONFIG.escrowInspectionDays,
+
+  // Admin refunds (uses config value)
+  REFUND_APPROVAL_THRESHOLD: AUCTION_CONFIG.refundApprovalThreshold,
+} as const
+
+/**
+ * Named bid increment tables. Each auction stores the name of its table;
+ * the platform default lives in SystemConfig.
+ */
+export const BID_INCREMENT_TABLES = {
+  standard: AUCTION_RULES.BID_INCREMENTS,
+  fine: [
+    { maxPrice: 1000, increment: 25 },
+    { maxPrice: 5000, increment: 50 },
+    { maxPrice: 10000, increment: 100 },
+    { maxPrice: 25000, increment: 250 },
+    { maxPrice: 50000, increment: 500 },
+    { maxPrice: 100000, increment: 1000 },
+    { maxPrice: 250000, increment: 2500 },
+    { maxPrice: Infinity, increment: 5000 },
+  ],
+  coarse: [
+    { maxPrice: 1000, increment: 100 },
+    { maxPrice: 5000, increment: 250 },
+    { maxPrice: 10000, increment: 500 },
+    { maxPrice: 25000, increment: 1000 },
+    { maxPrice: 50000, increment: 2500 },
+    { maxPrice: 100000, increment: 5000 },
+    { maxPrice: 250000, increment: 10000 },
+    { maxPrice: Infinity, increment: 25000 },
+  ],
 } as const
 
+export type BidIncrementTableName = keyof typeof BID_INCREMENT_TABLES
+
+export const BID_INCREMENT_TABLE_NAMES = Object.keys(BID_INCREMENT_TABLES) as BidIncrementTableName[]
+
+export const DEFAULT_BID_INCREMENT_TABLE: BidIncrementTableName = 'standard'
+
+/**
+ * Check if a value names a known bid increment table
+ */
+export function isBidIncrementTable(value: unknown): value is BidIncrementTableName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(BID_INCREMENT_TABLES, value)
+}
+
+/**
+ * Resolve a stored table name, falling back to the default for unknown values
+ */
+export function parseBidIncrementTable(value: unknown): BidIncrementTableName {
+  return isBidIncrementTable(value) ? value : DEFAULT_BID_INCREMENT_TABLE
+}
+
+/**
+ * Get the tier increment for a price from the given table
+ */
+export function getBidIncrement(
+  price: number,
+  table: BidIncrementTableName = DEFAULT_BID_INCREMENT_TABLE
+): number {
+  const tiers = BID_INCREMENT_TABLES[parseBidIncrementTable(table)]
+  const tier = tiers.find((t) => price < t.maxPrice)
+  return tier?.increment ?? tiers[tiers.length - 1].increment
+}
+
 export type AuctionStatus = 'SCHEDULED' | 'ACTIVE' | 'ENDED' | 'SOLD' | 'NO_SALE' | 'CANCELLED'
 
 /**
  * Calculate the minimum valid bid amount
  */
-export function calculateMinimumBid(currentBid: number | null, startingPrice: number): number {
+export function calculateMinimumBid(
+  currentBid: number | null,
+  startingPrice: number,
+  incrementTable: BidIncrementTableName = DEFAULT_BID_INCREMENT_TABLE
+): number {
   if (currentBid === null) {
     return startingPrice
   }
 
-  // Minimum increment is 1% or €10, whichever is greater
+  // Minimum increment is the price-tier increment, but never less than 1% or €10
   const percentIncrement = currentBid * (AUCTION_RULES.MIN_BID_INCREMENT_PERCENT / 100)
-  const minIncrement = Math.max(percentIncrement, AUCTION_RULES.MIN_BID_INCREMENT_AMOUNT)
+  const minIncrement = Math.max(
+    getBidIncrement(currentBid, incrementTable),
+    percentIncrement,
+    AUCTION_RULES.MIN_BID_INCREMENT_AMOUNT
+  )
 
   return Math.ceil(currentBid + minIncrement)
 }
@@ -56,19 +139,18 @@ export function calculateMinimumBid(currentBid: number | null, startingPrice: nu
 /**
  * Calculate suggested next bid based on price tier
  */
-export function calculateSuggestedBid(currentBid: number | null, startingPrice: number): number {
-  const baseBid = currentBid ?? startingPrice
-
-  // Find the appropriate increment for this price tier
-  const tier = AUCTION_RULES.BID_INCREMENTS.find((t) => baseBid < t.maxPrice)
-  const increment = tier?.increment ?? 10000
-
+export function calculateSuggestedBid(
+  currentBid: number | null,
+  startingPrice: number,
+  incrementTable: BidIncrementTableName = DEFAULT_BID_INCREMENT_TABLE
+): number {
   // If no current bid, return starting price
   if (currentBid === null) {
     return startingPrice
   }
 
-  return currentBid + increment
+  // Suggest the lowest bid the increment table allows
+  return calculateMinimumBid(currentBid, startingPrice, incrementTable)
 }
 
 /**
@@ -77,9 +159,10 @@ export function calculateSuggestedBid(currentBid: number | null, startingPrice:
 export function validateBidAmount(
   bidAmount: number,
   currentBid: number | null,
-  startingPrice: number
+  startingPrice: number,
+  incrementTable: BidIncrementTableName = DEFAULT_BID_INCREMENT_TABLE
 ): { valid: boolean; error?: string; minimumBid: number } {
-  const minimumBid = calculateMinimumBid(currentBid, startingPrice)
+  const minimumBid = calculateMinimumBid(currentBid, startingPrice, incrementTable)
 
   if (bidAmount < minimumBid) {
     return {
@@ -102,6 +185,88 @@ export function validateBidAmount(
   return { valid: true, minimumBid }
 }
 
+/**
+ * A bidder's private maximum (proxy bid)
+ */
+export type ProxyMaximum = {
+  bidderId: string
+  maxAmount: number
+  setAt: Date // Earlier maximum wins a tie
+}
+
+/**
+ * A single bid produced while resolving proxy bidding
+ */
+export type ProxyBidStep = {
+  bidderId: string
+  amount: number
+  isProxy: boolean
+}
+
+/**
+ * Resolve the bids placed automatically from stored maximums after a new bid.
+ *
+ * Starts from the submitted bid and lets competing maximums respond until no
+ * other bidder can beat the high bid. Returns every bid in order, the submitted
+ * one first; the last step is always the leading bid.
+ */
+export function resolveProxyBids(params: {
+  bid: { bidderId: string; amount: number; placedAt: Date }
+  startingPrice: number
+  maximums: ProxyMaximum[]
+  incrementTable?: BidIncrementTableName
+}): ProxyBidStep[] {
+  const { bid, startingPrice, maximums, incrementTable } = params
+
+  const steps: ProxyBidStep[] = [{ bidderId: bid.bidderId, amount: bid.amount, isProxy: false }]
+  let current = bid.amount
+  let leaderId = bid.bidderId
+
+  // Each round either changes the leader or exhausts a challenger, so this always terminates
+  const maxRounds = maximums.length * 2 + 1
+  for (let round = 0; round < maxRounds; round++) {
+    const leaderMaximum = maximums.find((m) => m.bidderId === leaderId)
+    const leaderCeiling = Math.max(leaderMaximum?.maxAmount ?? current, current)
+    const leaderSetAt = leaderMaximum?.setAt ?? bid.placedAt
+    const minimumNext = calculateMinimumBid(current, startingPrice, incrementTable)
+
+    const winsTie = (m: ProxyMaximum) =>
+      m.maxAmount === leaderCeiling && m.setAt.getTime() < leaderSetAt.getTime()
+
+    const challenger = maximums
+      .filter((m) => m.bidderId !== leaderId)
+      .filter((m) => m.maxAmount >= minimumNext || winsTie(m))
+      .sort((a, b) => b.maxAmount - a.maxAmount || a.setAt.getTime() - b.setAt.getTime())[0]
+
+    if (!challenger) {
+      break
+    }
+
+    if (challenger.maxAmount > leaderCeiling || winsTie(challenger)) {
+      // Leader's maximum is beaten: it bids up to its ceiling, then the challenger takes over
+      if (leaderCeiling > current) {
+        steps.push({ bidderId: leaderId, amount: leaderCeiling, isProxy: true })
+        current = leaderCeiling
+      }
+      const amount = Math.min(challenger.maxAmount, calculateMinimumBid(current, startingPrice, incrementTable))
+      steps.push({ bidderId: challenger.bidderId, amount, isProxy: true })
+      current = amount
+      leaderId = challenger.bidderId
+    } else {
+      // Leader's maximum holds: the challenger bids its ceiling and the leader answers
+      steps.push({ bidderId: challenger.bidderId, amount: challenger.maxAmount, isProxy: true })
+      const counter = Math.max(
+        Math.min(leaderCeiling, calculateMinimumBid(challenger.maxAmount, startingPrice, incrementTable)),
+        challenger.maxAmount
+      )
+      steps.push({ bidderId: leaderId, amount: counter, isProxy: true })
+      current = counter
+    }
+  }
+
+  return steps
+}
+
 /**
  * Check if a bid triggers anti-sniping extension
  */
@@ -131,19 +296,302 @@ export function calculateExtendedEndTime(currentEndTime: Date): Date {
 }
 
 /**
- * Calculate buyer fee (uses config with min/max limits)
+ * Calculate a lot's scheduled end time in a catalogue sale (lot index is zero-based)
+ */
+export function calculateLotEndTime(
+  firstLotEndTime: Date,
+  lotIndex: number,
+  intervalMinutes: number
+): Date {
+  return new Date(firstLotEndTime.getTime() + lotIndex * intervalMinutes * 60 * 1000)
+}
+
+/**
+ * Push back the lots after an extended lot so they keep closing at least
+ * `intervalMinutes` apart. `laterLots` must be in lot order; only lots whose
+ * end time has to move are returned.
+ */
+export function cascadeLotEndTimes<T extends { id: string; currentEndTime: Date }>(
+  extendedEndTime: Date,
+  laterLots: T[],
+  intervalMinutes: number
+): Array<T & { newEndTime: Date }> {
+  const intervalMs = intervalMinutes * 60 * 1000
+  const moved: Array<T & { newEndTime: Date }> = []
+  let previousEnd = extendedEndTime
+
+  for (const lot of laterLots) {
+    const earliestEnd = previousEnd.getTime() + intervalMs
+    if (lot.currentEndTime.getTime() < earliestEnd) {
+      const newEndTime = new Date(earliestEnd)
+      moved.push({ ...lot, newEndTime })
+      previousEnd = newEndTime
+    } else {
+      previousEnd = lot.currentEndTime
+    }
+  }
+
+  return moved
+}
+
+/**
+ * Auctioneer calls during a live finale, in the order they must be made.
+ * Fair warning is optional; a new bid resets the sequence.
  */
-export function calculateBuyerFee(hammerPrice: number): number {
-  // Delegate to config version which handles min/max limits
-  return AUCTION_CONFIG.calculateBuyerFee(hammerPrice)
+export type AuctioneerCall = 'FAIR_WARNING' | 'GOING_ONCE' | 'GOING_TWICE' | 'SOLD'
+
+const AUCTIONEER_CALL_PRECEDENTS: Record<AuctioneerCall, Array<AuctioneerCall | null>> = {
+  FAIR_WARNING: [null],
+  GOING_ONCE: [null, 'FAIR_WARNING'],
+  GOING_TWICE: ['GOING_ONCE'],
+  SOLD: ['GOING_TWICE'],
+}
+
+/**
+ * Check if the auctioneer may make a call given the latest call since the last bid
+ */
+export function canMakeAuctioneerCall(
+  currentCall: AuctioneerCall | null,
+  nextCall: AuctioneerCall
+): boolean {
+  return AUCTIONEER_CALL_PRECEDENTS[nextCall].includes(currentCall)
+}
+
+/**
+ * Auction formats. Sealed formats hide bids until close; second-price (Vickrey)
+ * charges the winner the runner-up's bid instead of their own.
+ */
+export type AuctionFormat = 'OPEN' | 'SEALED_FIRST_PRICE' | 'SEALED_SECOND_PRICE'
+
+// Categories where an open ascending auction with anti-sniping is overkill
+const SEALED_BID_CATEGORIES = ['PARTS', 'MEMORABILIA']
+
+/**
+ * Default format for a new auction of the given vehicle category
+ */
+export function defaultAuctionFormat(category: string): AuctionFormat {
+  return SEALED_BID_CATEGORIES.includes(category) ? 'SEALED_FIRST_PRICE' : 'OPEN'
+}
+
+/**
+ * Check if bids are hidden until the auction closes
+ */
+export function isSealedFormat(format: AuctionFormat): boolean {
+  return format !== 'OPEN'
+}
+
+/**
+ * Pick the winner of a sealed-bid auction and the price they pay.
+ *
+ * The highest bid wins; an earlier bid wins a tie. First-price charges the
+ * winning amount. Second-price charges the runner-up's amount (or the starting
+ * price with a single bidder), raised to the reserve when the winner met it.
+ */
+export function resolveSealedBids<T extends { amount: number; placedAt: Date }>(
+  bids: T[],
+  params: { format: AuctionFormat; startingPrice: number; reservePrice: number | null }
+): { winner: T; price: number } | null {
+  const ranked = [...bids].sort(
+    (a, b) => b.amount - a.amount || a.placedAt.getTime() - b.placedAt.getTime()
+  )
+  const winner = ranked[0]
+
+  if (!winner) {
+    return null
+  }
+
+  if (params.format !== 'SEALED_SECOND_PRICE') {
+    return { winner, price: winner.amount }
+  }
+
+  let price = Math.max(ranked[1]?.amount ?? params.startingPrice, params.startingPrice)
+  if (params.reservePrice !== null && winner.amount >= params.reservePrice) {
+    price = Math.max(price, params.reservePrice)
+  }
+
+  return { winner, price: Math.min(price, winner.amount) }
+}
+
+/**
+ * Check if a bid is still within the window in which its bidder may ask to retract it
+ */
+export function isWithinRetractionWindow(placedAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - placedAt.getTime() <= AUCTION_RULES.BID_RETRACTION_WINDOW_MINUTES * 60 * 1000
+}
+
+/**
+ * Buyer premium bracket. Rates are marginal: each bracket's rate applies to
+ * the part of the hammer price that falls inside it. The last bracket has no
+ * upper bound.
+ */
+export type FeeTier = { upTo: number | null; rate: number }
+
+/**
+ * Fees that apply to one auction, snapshotted onto it at creation
+ */
+export type FeeTerms = {
+  buyerPremium: FeeTier[]
+  minBuyerFee: number
+  maxBuyerFee: number | null
+  sellerCommissionRate: number
+  sellerListingFee: number
+}
+
+/**
+ * Terms for a vehicle category, a location country or both. Fields left out
+ * are inherited from less specific matches and then the default.
+ */
+export type FeeOverride = Partial<FeeTerms> & { category?: string; country?: string }
+
+/**
+ * Platform fee schedule; stored in SystemConfig
+ */
+export type FeeSchedule = { default: FeeTerms; overrides: FeeOverride[] }
+
+/**
+ * Flat buyer premium from the environment, with no seller fees. Used when no
+ * schedule is configured and for auctions created before fee snapshots.
+ */
+export const DEFAULT_FEE_TERMS: FeeTerms = {
+  buyerPremium: [{ upTo: null, rate: AUCTION_CONFIG.buyerFeePercent / 100 }],
+  minBuyerFee: AUCTION_CONFIG.minBuyerFee,
+  maxBuyerFee: AUCTION_CONFIG.maxBuyerFee < 999999 ? AUCTION_CONFIG.maxBuyerFee : null,
+  sellerCommissionRate: 0,
+  sellerListingFee: 0,
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = { default: DEFAULT_FEE_TERMS, overrides: [] }
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Resolve the terms for a listing. An override naming both category and
+ * country beats one naming only one of them.
+ */
+export function resolveFeeTerms(
+  schedule: FeeSchedule,
+  listing: { category: string; country: string }
+): FeeTerms {
+  const matching = schedule.overrides
+    .filter(
+      (override) =>
+        (override.category || override.country) &&
+        (!override.category || override.category === listing.category) &&
+        (!override.country || override.country === listing.country)
+    )
+    .sort((a, b) => Number(!!a.category && !!a.country) - Number(!!b.category && !!b.country))
+
+  return matching.reduce<FeeTerms>(
+    (terms, override) => ({
+      buyerPremium: override.buyerPremium ?? terms.buyerPremium,
+      minBuyerFee: override.minBuyerFee ?? terms.minBuyerFee,
+      maxBuyerFee: override.maxBuyerFee !== undefined ? override.maxBuyerFee : terms.maxBuyerFee,
+      sellerCommissionRate: override.sellerCommissionRate ?? terms.sellerCommissionRate,
+      sellerListingFee: override.sellerListingFee ?? terms.sellerListingFee,
+    }),
+    schedule.default
+  )
+}
+
+/**
+ * Fee schedule amounts are in EUR. Restate them in an auction's currency
+ * using units of that currency per 1 EUR; rates stay as they are.
+ */
+export function convertFeeTerms(terms: FeeTerms, eurRate: number): FeeTerms {
+  if (eurRate === 1) {
+    return terms
+  }
+
+  return {
+    buyerPremium: terms.buyerPremium.map((tier) => ({
+      upTo: tier.upTo === null ? null : roundCents(tier.upTo * eurRate),
+      rate: tier.rate,
+    })),
+    minBuyerFee: roundCents(terms.minBuyerFee * eurRate),
+    maxBuyerFee: terms.maxBuyerFee === null ? null : roundCents(terms.maxBuyerFee * eurRate),
+    sellerCommissionRate: terms.sellerCommissionRate,
+    sellerListingFee: roundCents(terms.sellerListingFee * eurRate),
+  }
+}
+
+/**
+ * Read an auction's fee snapshot, falling back to the default terms
+ */
+export function parseFeeTerms(value: unknown): FeeTerms {
+  const terms = value as FeeTerms | null | undefined
+  if (!terms || !Array.isArray(terms.buyerPremium) || terms.buyerPremium.length === 0) {
+    return DEFAULT_FEE_TERMS
+  }
+  return terms
+}
+
+/**
+ * Calculate the buyer premium on a hammer price, within the min/max limits
+ */
+export function calculateBuyerFee(hammerPrice: number, terms: FeeTerms = DEFAULT_FEE_TERMS): number {
+  let fee = 0
+  let lower = 0
+
+  for (const tier of terms.buyerPremium) {
+    const upper = tier.upTo ?? Infinity
+    if (hammerPrice > lower) {
+      fee += (Math.min(hammerPrice, upper) - lower) * tier.rate
+    }
+    lower = upper
+  }
+
+  fee = roundCents(fee)
+
+  if (terms.minBuyerFee > 0 && fee < terms.minBuyerFee) {
+    return terms.minBuyerFee
+  }
+
+  if (terms.maxBuyerFee !== null && fee > terms.maxBuyerFee) {
+    return terms.maxBuyerFee
+  }
+
+  return fee
 }
 
 /**
  * Calculate total buyer pays (hammer price + fee)
  */
-export function calculateTotalWithFee(hammerPrice: number): number {
-  // Delegate to config version for consistency
-  return AUCTION_CONFIG.calculateTotalWithFee(hammerPrice)
+export function calculateTotalWithFee(hammerPrice: number, terms: FeeTerms = DEFAULT_FEE_TERMS): number {
+  return hammerPrice + calculateBuyerFee(hammerPrice, terms)
+}
+
+/**
+ * Calculate what is deducted from the seller's payout
+ */
+export function calculateSellerFees(
+  hammerPrice: number,
+  terms: FeeTerms
+): { commission: number; listingFee: number; total: number } {
+  const commission = roundCents(hammerPrice * terms.sellerCommissionRate)
+  const listingFee = terms.sellerListingFee
+
+  return { commission, listingFee, total: roundCents(commission + listingFee) }
+}
+
+/**
+ * Promo code discount on a fee (percentage, or a fixed amount)
+ */
+export type PromoDiscount = { discountType: 'PERCENT' | 'FIXED'; discountValue: number }
+
+/**
+ * Calculate the discount a promo code gives on a fee; never more than the fee.
+ * Fixed amounts are in EUR like the fee schedule, restated in the fee's
+ * currency using units of that currency per 1 EUR.
+ */
+export function calculatePromoDiscount(fee: number, promo: PromoDiscount, eurRate = 1): number {
+  const discount =
+    promo.discountType === 'PERCENT'
+      ? roundCents((fee * promo.discountValue) / 100)
+      : roundCents(promo.discountValue * eurRate)
+
+  return Math.min(Math.max(discount, 0), fee)
 }
 
 /**
@@ -228,6 +676,51 @@ export function hasAuctionEnded(endTime: Date): boolean {
   return new Date() >= endTime
 }
 
+/**
+ * Calculate when a second-chance offer lapses if not answered
+ */
+export function calculateSecondChanceExpiry(offeredAt: Date): Date {
+  return new Date(offeredAt.getTime() + AUCTION_RULES.SECOND_CHANCE_RESPONSE_HOURS * 60 * 60 * 1000)
+}
+
+/**
+ * Calculate the end time after an admin pause.
+ * The paused duration is added back; an optional minimum keeps a resumed
+ * auction from closing before bidders can react.
+ */
+export function calculateResumedEndTime(
+  currentEndTime: Date,
+  pausedAt: Date,
+  resumedAt: Date,
+  minimumRemainingMinutes: number = 0
+): Date {
+  const pausedMs = Math.max(0, resumedAt.getTime() - pausedAt.getTime())
+  const shifted = currentEndTime.getTime() + pausedMs
+  const minimum = resumedAt.getTime() + minimumRemainingMinutes * 60 * 1000
+  return new Date(Math.max(shifted, minimum))
+}
+
+/**
+ * Calculate when the buyer's escrow inspection window closes after handover
+ */
+export function calculateInspectionDeadline(handedOverAt: Date): Date {
+  return new Date(handedOverAt.getTime() + AUCTION_RULES.ESCROW_INSPECTION_DAYS * 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Check if a refund is large enough to need a second admin's approval
+ */
+export function requiresRefundApproval(amount: number): boolean {
+  return amount > AUCTION_RULES.REFUND_APPROVAL_THRESHOLD
+}
+
+/**
+ * Calculate when the post-auction negotiation window closes
+ */
+export function calculateNegotiationDeadline(auctionEndTime: Date): Date {
+  return new Date(auctionEndTime.getTime() + AUCTION_RULES.NEGOTIATION_WINDOW_HOURS * 60 * 60 * 1000)
+}
+
 /**
  * Calculate payment deadline
  */
@@ -0,0 +1,68 @@
+/**
+ * Currency Conversion
+ *
+ * Converts amounts between currencies using a table of reference rates quoted
+ * against the euro, as the ECB publishes them.
+ */
+
+import { getCurrencyConfig } from './currency-config';
+
+/**
+ * Units of each currency per 1 EUR. EUR itself may be left out.
+ */
+export type FxRates = Record<string, number>;
+
+/**
+ * Units of one currency per 1 EUR
+ * @param currencyCode - ISO 4217 currency code
+ * @param rates - Reference rates against the euro
+ * @returns Rate, or null if the table has no rate for the currency
+ */
+export function rateToEur(currencyCode: string, rates: FxRates): number | null {
+  const code = currencyCode.toUpperCase();
+  if (code === 'EUR') {
+    return 1;
+  }
+  return rates[code] ?? null;
+}
+
+/**
+ * Units of the target currency per 1 unit of the source currency, crossed via EUR
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param rates - Reference rates against the euro
+ * @returns Cross rate, or null if either rate is missing
+ */
+export function crossRate(from: string, to: string, rates: FxRates): number | null {
+  const fromRate = rateToEur(from, rates);
+  const toRate = rateToEur(to, rates);
+
+  if (fromRate === null || toRate === null) {
+    return null;
+  }
+  return toRate / fromRate;
+}
+
+/**
+ * Round an amount to the minor units of its currency
+ * @param amount - Amount to round
+ * @param currencyCode - ISO 4217 currency code
+ * @returns Rounded amount (e.g. whole forints, euro cents)
+ */
+export function roundToCurrency(amount: number, currencyCode: string): number {
+  const factor = 10 ** (getCurrencyConfig(currencyCode)?.decimalPlaces ?? 2);
+  return Math.round(amount * factor) / factor;
+}
+
+/**
+ * Convert an amount between currencies
+ * @param amount - Amount in the source currency
+ * @param from - Source currency code
+ * @param to - Target currency code
+ * @param rates - Reference rates against the euro
+ * @returns Amount in the target currency, or null if a rate is missing
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: FxRates): number | null {
+  const rate = crossRate(from, to, rates);
+  return rate === null ? null : roundToCurrency(amount * rate, to);
+}
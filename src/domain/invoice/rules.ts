@@ -0,0 +1,76 @@
+// Invoice business rules
+import { VatTreatment } from '@prisma/client'
+
+export const EU_COUNTRY_CODES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+] as const
+
+export type VatBuyer = {
+  country: string | null
+  vatNumber: string | null
+}
+
+export type VatDecision = {
+  treatment: VatTreatment
+  rate: number
+}
+
+export type InvoiceAmounts = {
+  net: number
+  vat: number
+  total: number
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Decide how VAT applies to a buyer fee. Buyers with a VAT number are treated
+ * as businesses: reverse charge inside the EU (outside Romania), out of scope
+ * outside the EU. Everyone else pays Romanian VAT. A missing country counts
+ * as Romania.
+ */
+export function determineVat(buyer: VatBuyer, standardRate: number): VatDecision {
+  const country = (buyer.country || 'RO').toUpperCase()
+  const isBusiness = Boolean(buyer.vatNumber?.trim())
+
+  if (!isBusiness || country === 'RO') {
+    return { treatment: 'STANDARD', rate: standardRate }
+  }
+
+  if ((EU_COUNTRY_CODES as readonly string[]).includes(country)) {
+    return { treatment: 'REVERSE_CHARGE', rate: 0 }
+  }
+
+  return { treatment: 'OUTSIDE_SCOPE', rate: 0 }
+}
+
+/**
+ * Split a charged fee into net and VAT. The fee the buyer paid is the invoice
+ * total, so standard-rated fees have the VAT backed out of it.
+ */
+export function calculateInvoiceAmounts(charged: number, vat: VatDecision): InvoiceAmounts {
+  const total = roundCents(charged)
+  const net = roundCents(total / (1 + vat.rate / 100))
+
+  return { net, vat: roundCents(total - net), total }
+}
+
+/**
+ * Invoice number from its series and sequence, e.g. FND-000042
+ */
+export function formatInvoiceNumber(series: string, sequence: number): string {
+  return `${series}-${String(sequence).padStart(6, '0')}`
+}
+
+/**
+ * First instant of a calendar month and of the one after, in UTC
+ */
+export function getMonthRange(year: number, month: number): { from: Date; to: Date } {
+  return {
+    from: new Date(Date.UTC(year, month - 1, 1)),
+    to: new Date(Date.UTC(year, month, 1)),
+  }
+}
@@ -0,0 +1,183 @@
+// Listing revision snapshots and the diffs reviewers see between them
+
+// Listing columns a seller or staff edit can change
+export const REVISION_FIELDS = [
+  'title',
+  'description',
+  'category',
+  'make',
+  'model',
+  'year',
+  'mileage',
+  'mileageUnit',
+  'vin',
+  'registrationCountry',
+  'conditionRating',
+  'conditionNotes',
+  'knownIssues',
+  'isRunning',
+  'conditionOverall',
+  'conditionOverallNotes',
+  'conditionPaintBody',
+  'conditionPaintBodyNotes',
+  'conditionInterior',
+  'conditionInteriorNotes',
+  'conditionFrame',
+  'conditionFrameNotes',
+  'conditionMechanical',
+  'conditionMechanicalNotes',
+  'locationCountry',
+  'locationCity',
+  'locationRegion',
+  'startingPrice',
+  'reservePrice',
+  'currency',
+] as const
+
+export type RevisionField = (typeof REVISION_FIELDS)[number]
+
+export type RevisionValue = string | number | boolean | null
+
+export type MediaSnapshot = {
+  id: string
+  type: 'PHOTO' | 'VIDEO'
+  publicUrl: string
+  category: string | null
+  caption: string | null
+  position: number
+  isPrimary: boolean
+}
+
+export type ListingSnapshot = {
+  fields: Record<RevisionField, RevisionValue>
+  media: MediaSnapshot[]
+}
+
+export type FieldChange = {
+  field: RevisionField
+  before: RevisionValue
+  after: RevisionValue
+}
+
+export type MediaDiff = {
+  added: MediaSnapshot[]
+  removed: MediaSnapshot[]
+  reordered: { media: MediaSnapshot; from: number; to: number }[] // 1-based places
+  updated: { media: MediaSnapshot; fields: ('category' | 'caption' | 'isPrimary')[] }[]
+}
+
+export type RevisionDiff = {
+  fields: FieldChange[]
+  media: MediaDiff
+}
+
+type SnapshotSource = { [K in RevisionField]: unknown } & {
+  media: (Omit<MediaSnapshot, 'type'> & { type: string })[]
+}
+
+export function isRevisionField(field: string): field is RevisionField {
+  return (REVISION_FIELDS as readonly string[]).includes(field)
+}
+
+function toRevisionValue(value: unknown): RevisionValue {
+  if (value === null || value === undefined) {
+    return null
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value
+  }
+  // Prisma decimals
+  return Number(value)
+}
+
+/**
+ * Snapshot a listing with its media as stored in a revision
+ */
+export function snapshotListing(listing: SnapshotSource): ListingSnapshot {
+  const fields = Object.fromEntries(
+    REVISION_FIELDS.map((field) => [field, toRevisionValue(listing[field])])
+  ) as Record<RevisionField, RevisionValue>
+
+  const media = [...listing.media]
+    .sort((a, b) => a.position - b.position)
+    .map((m) => ({
+      id: m.id,
+      type: m.type === 'VIDEO' ? ('VIDEO' as const) : ('PHOTO' as const),
+      publicUrl: m.publicUrl,
+      category: m.category ?? null,
+      caption: m.caption ?? null,
+      position: m.position,
+      isPrimary: m.isPrimary,
+    }))
+
+  return { fields, media }
+}
+
+function diffMedia(before: MediaSnapshot[], after: MediaSnapshot[]): MediaDiff {
+  const beforeIds = new Set(before.map((m) => m.id))
+  const afterIds = new Set(after.map((m) => m.id))
+  const beforeById = new Map(before.map((m) => [m.id, m]))
+
+  // Order among the media present in both, so additions and removals do not count as moves
+  const keptBefore = before.filter((m) => afterIds.has(m.id)).map((m) => m.id)
+  const keptAfter = after.filter((m) => beforeIds.has(m.id)).map((m) => m.id)
+
+  const reordered: MediaDiff['reordered'] = []
+  const updated: MediaDiff['updated'] = []
+
+  after.forEach((media, index) => {
+    const previous = beforeById.get(media.id)
+    if (!previous) {
+      return
+    }
+
+    if (keptBefore.indexOf(media.id) !== keptAfter.indexOf(media.id)) {
+      reordered.push({ media, from: before.indexOf(previous) + 1, to: index + 1 })
+    }
+
+    const fields = (['category', 'caption', 'isPrimary'] as const).filter(
+      (field) => previous[field] !== media[field]
+    )
+    if (fields.length > 0) {
+      updated.push({ media, fields })
+    }
+  })
+
+  return {
+    added: after.filter((m) => !beforeIds.has(m.id)),
+    removed: before.filter((m) => !afterIds.has(m.id)),
+    reordered,
+    updated,
+  }
+}
+
+/**
+ * Field and media changes from one snapshot to a later one
+ */
+export function diffSnapshots(before: ListingSnapshot, after: ListingSnapshot): RevisionDiff {
+  const fields = REVISION_FIELDS.filter(
+    (field) => (before.fields[field] ?? null) !== (after.fields[field] ?? null)
+  ).map((field) => ({
+    field,
+    before: before.fields[field] ?? null,
+    after: after.fields[field] ?? null,
+  }))
+
+  return { fields, media: diffMedia(before.media, after.media) }
+}
+
+/**
+ * Names of what changed between snapshots: listing fields, plus "media"
+ * when photos or videos were added, removed, moved or edited
+ */
+export function changedFields(before: ListingSnapshot | null, after: ListingSnapshot): string[] {
+  if (!before) {
+    return [...REVISION_FIELDS.filter((field) => after.fields[field] !== null), 'media']
+  }
+
+  const diff = diffSnapshots(before, after)
+  const { added, removed, reordered, updated } = diff.media
+  const mediaChanged = added.length + removed.length + reordered.length + updated.length > 0
+
+  return [...diff.fields.map((change) => change.field), ...(mediaChanged ? ['media'] : [])]
+}
@@ -0,0 +1,70 @@
+// Payment business rules
+import { randomInt } from 'crypto'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+
+// Unambiguous characters only (no 0/O, 1/I/L), as buyers type references by hand
+const REFERENCE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+const REFERENCE_PREFIX = 'FND'
+const REFERENCE_BODY_LENGTH = 8
+
+/**
+ * ISO 7064 mod 97-10 over an alphanumeric string (A=10 ... Z=35)
+ */
+function mod97(value: string): number {
+  let remainder = 0
+  for (const char of value) {
+    const digits = /[0-9]/.test(char) ? char : String(char.charCodeAt(0) - 55)
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder
+}
+
+/**
+ * Wrap a creditor reference body in ISO 11649 form: RF + two check digits + body
+ */
+export function buildRfReference(body: string): string {
+  const normalized = body.toUpperCase()
+  const check = 98 - mod97(`${normalized}RF00`)
+  return `RF${String(check).padStart(2, '0')}${normalized}`
+}
+
+/**
+ * New random transfer reference, e.g. RF47FND7K3M9Q2X
+ */
+export function createRfReference(): string {
+  let body = REFERENCE_PREFIX
+  for (let i = 0; i < REFERENCE_BODY_LENGTH; i++) {
+    body += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)]
+  }
+  return buildRfReference(body)
+}
+
+export function isValidRfReference(value: string): boolean {
+  const reference = value.replace(/\s+/g, '').toUpperCase()
+  if (!/^RF\d{2}[A-Z0-9]{1,21}$/.test(reference)) {
+    return false
+  }
+  return mod97(reference.slice(4) + reference.slice(0, 4)) === 1
+}
+
+/**
+ * Pull our transfer references out of free remittance text. Banks and buyers
+ * split, space and lowercase references freely, so spaces are dropped first.
+ */
+export function findRfReferences(text: string): string[] {
+  const compact = text.replace(/\s+/g, '').toUpperCase()
+  const pattern = new RegExp(`RF\\d{2}${REFERENCE_PREFIX}[A-Z0-9]{${REFERENCE_BODY_LENGTH}}`, 'g')
+  const found = compact.match(pattern) ?? []
+  return Array.from(new Set(found.filter(isValidRfReference)))
+}
+
+/**
+ * A transfer stays open past the payment deadline while it clears
+ */
+export function calculateTransferExpiry(paymentDeadline: Date): Date {
+  const expiry = new Date(paymentDeadline)
+  expiry.setDate(expiry.getDate() + AUCTION_CONFIG.bankTransferGraceDays)
+  return expiry
+}
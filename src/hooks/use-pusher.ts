@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback, useRef, useMemo } from 'react'
 import Pusher, { Channel } from 'pusher-js'
-import { CHANNELS, EVENTS, type NewBidEvent, type AuctionExtendedEvent, type AuctionEndedEvent } from '@/lib/pusher'
+import { CHANNELS, EVENTS, type NewBidEvent, type SealedBidPlacedEvent, type AuctionExtendedEvent, type AuctionEndedEvent, type ReserveMetEvent, type AuctionPausedEvent, type AuctionResumedEvent, type AuctioneerCallEvent, type BidRetractedEvent } from '@/lib/pusher'
 
 // Singleton Pusher instance
 let pusherInstance: Pusher | null = null
@@ -58,8 +58,14 @@ export function useAuctionUpdates(
   auctionId: string | null,
   callbacks: {
     onNewBid?: (data: NewBidEvent) => void
+    onSealedBidPlaced?: (data: SealedBidPlacedEvent) => void
     onExtended?: (data: AuctionExtendedEvent) => void
     onEnded?: (data: AuctionEndedEvent) => void
+    onReserveMet?: (data: ReserveMetEvent) => void
+    onPaused?: (data: AuctionPausedEvent) => void
+    onResumed?: (data: AuctionResumedEvent) => void
+    onAuctioneerCall?: (data: AuctioneerCallEvent) => void
+    onBidRetracted?: (data: BidRetractedEvent) => void
   }
 ) {
   const [isConnected, setIsConnected] = useState(false)
@@ -85,12 +91,30 @@ export function useAuctionUpdates(
     if (callbacks.onNewBid) {
       channel.bind(EVENTS.NEW_BID, callbacks.onNewBid)
     }
+    if (callbacks.onSealedBidPlaced) {
+      channel.bind(EVENTS.SEALED_BID_PLACED, callbacks.onSealedBidPlaced)
+    }
     if (callbacks.onExtended) {
       channel.bind(EVENTS.AUCTION_EXTENDED, callbacks.onExtended)
     }
     if (callbacks.onEnded) {
       channel.bind(EVENTS.AUCTION_ENDED, callbacks.onEnded)
     }
+    if (callbacks.onReserveMet) {
+      channel.bind(EVENTS.RESERVE_MET, callbacks.onReserveMet)
+    }
+    if (callbacks.onPaused) {
+      channel.bind(EVENTS.AUCTION_PAUSED, callbacks.onPaused)
+    }
+    if (callbacks.onResumed) {
+      channel.bind(EVENTS.AUCTION_RESUMED, callbacks.onResumed)
+    }
+    if (callbacks.onAuctioneerCall) {
+      channel.bind(EVENTS.AUCTIONEER_CALL, callbacks.onAuctioneerCall)
+    }
+    if (callbacks.onBidRetracted) {
+      channel.bind(EVENTS.BID_RETRACTED, callbacks.onBidRetracted)
+    }
 
     return () => {
       channel.unbind_all()
@@ -98,7 +122,18 @@ export function useAuctionUpdates(
       channelRef.current = null
       setIsConnected(false)
     }
-  }, [auctionId, callbacks.onNewBid, callbacks.onExtended, callbacks.onEnded])
+  }, [
+    auctionId,
+    callbacks.onNewBid,
+    callbacks.onSealedBidPlaced,
+    callbacks.onExtended,
+    callbacks.onEnded,
+    callbacks.onReserveMet,
+    callbacks.onPaused,
+    callbacks.onResumed,
+    callbacks.onAuctioneerCall,
+    callbacks.onBidRetracted,
+  ])
 
   return { isConnected }
 }
@@ -2,10 +2,29 @@
 
 import { useState, useCallback, useEffect } from 'react'
 import { useAuctionUpdates, useAuctionTimer } from '@/hooks/use-pusher'
-import type { NewBidEvent, AuctionExtendedEvent, AuctionEndedEvent } from '@/lib/pusher'
+import type {
+  NewBidEvent,
+  SealedBidPlacedEvent,
+  AuctionExtendedEvent,
+  AuctionEndedEvent,
+  ReserveMetEvent,
+  AuctionResumedEvent,
+  AuctioneerCallEvent,
+  BidRetractedEvent,
+} from '@/lib/pusher'
 import { toast } from 'sonner'
 import { formatCurrency } from '@/lib/utils'
 
+/**
+ * What viewers see for each auctioneer call
+ */
+export const AUCTIONEER_CALL_LABELS: Record<AuctioneerCallEvent['call'], string> = {
+  FAIR_WARNING: 'Fair warning!',
+  GOING_ONCE: 'Going once...',
+  GOING_TWICE: 'Going twice...',
+  SOLD: 'Sold!',
+}
+
 /**
  * Auction state managed by the hook
  */
@@ -17,6 +36,12 @@ export type AuctionState = {
   reserveMet: boolean
   extensionCount: number
   status: string
+  bidIncrementTable?: string
+  /** Live finale: the auctioneer closes the sale instead of the timer */
+  liveFinale?: boolean
+  liveCall?: AuctioneerCallEvent['call'] | null
+  /** Sealed formats hide bids until close; `bidCount` then counts bidders */
+  format?: 'OPEN' | 'SEALED_FIRST_PRICE' | 'SEALED_SECOND_PRICE'
   listing: {
     startingPrice: number
     reservePrice: number | null
@@ -85,8 +110,11 @@ export function useAuctionRealtime(
   const { timeRemaining, isEnded, seconds, updateEndTime } = useAuctionTimer(
     auction.currentEndTime,
     () => {
-      // Timer expired - mark auction as ended
-      setAuction((prev) => ({ ...prev, status: 'ENDED' }))
+      // Timer expired - mark auction as ended (a paused auction waits for the resume event,
+      // a live finale for the auctioneer's hammer)
+      setAuction((prev) =>
+        prev.status === 'PAUSED' || prev.liveFinale ? prev : { ...prev, status: 'ENDED' }
+      )
       onTimerEnd?.()
     }
   )
@@ -100,6 +128,8 @@ export function useAuctionRealtime(
         currentBid: data.amount,
         bidCount: data.bidCount,
         reserveMet: data.isReserveMet,
+        // A new bid restarts the auctioneer's calls
+        liveCall: null,
       }))
 
       // Add bid to history at the top (anonymous - no names)
@@ -126,6 +156,14 @@ export function useAuctionRealtime(
     [currency, showToasts, onNewBid]
   )
 
+  // Handler for sealed bids - only the number of bidders is public
+  const handleSealedBidPlaced = useCallback(
+    (data: SealedBidPlacedEvent) => {
+      setAuction((prev) => ({ ...prev, bidCount: data.bidCount }))
+    },
+    []
+  )
+
   // Handler for auction extension events
   const handleExtended = useCallback(
     (data: AuctionExtendedEvent) => {
@@ -153,10 +191,14 @@ export function useAuctionRealtime(
   // Handler for auction ended events
   const handleEnded = useCallback(
     (data: AuctionEndedEvent) => {
-      // Update auction status
+      // Update auction status; a sealed auction reveals its price only now
       setAuction((prev) => ({
         ...prev,
         status: data.status,
+        currentBid:
+          prev.format && prev.format !== 'OPEN' && data.finalPrice !== null
+            ? data.finalPrice
+            : prev.currentBid,
       }))
 
       // Call custom callback
@@ -165,11 +207,94 @@ export function useAuctionRealtime(
     [onEnded]
   )
 
+  // Handler for reserve met events (seller lowered the reserve below the high bid)
+  const handleReserveMet = useCallback(
+    (data: ReserveMetEvent) => {
+      setAuction((prev) => ({
+        ...prev,
+        reserveMet: true,
+      }))
+
+      if (showToasts) {
+        toast.success(`Reserve met at ${formatCurrency(data.currentBid, currency)}`)
+      }
+    },
+    [currency, showToasts]
+  )
+
+  // Handler for admin pause events
+  const handlePaused = useCallback(
+    () => {
+      setAuction((prev) => ({ ...prev, status: 'PAUSED' }))
+
+      if (showToasts) {
+        toast.warning('Bidding is paused on this auction')
+      }
+    },
+    [showToasts]
+  )
+
+  // Handler for resume events - the paused time is added back to the end time
+  const handleResumed = useCallback(
+    (data: AuctionResumedEvent) => {
+      updateEndTime(data.newEndTime)
+
+      setAuction((prev) => ({
+        ...prev,
+        status: data.status,
+        currentEndTime: data.newEndTime,
+      }))
+
+      if (showToasts) {
+        toast.info('Bidding has resumed')
+      }
+    },
+    [updateEndTime, showToasts]
+  )
+
+  // Handler for auctioneer calls during a live finale
+  const handleAuctioneerCall = useCallback(
+    (data: AuctioneerCallEvent) => {
+      setAuction((prev) => ({ ...prev, liveCall: data.call }))
+
+      if (showToasts) {
+        toast.warning(AUCTIONEER_CALL_LABELS[data.call])
+      }
+    },
+    [showToasts]
+  )
+
+  // Handler for approved bid retractions - the bid leaves the history and the
+  // auction falls back to the remaining high bid
+  const handleBidRetracted = useCallback(
+    (data: BidRetractedEvent) => {
+      setAuction((prev) => ({
+        ...prev,
+        currentBid: prev.format && prev.format !== 'OPEN' ? prev.currentBid : data.currentBid,
+        bidCount: data.bidCount,
+        reserveMet: data.reserveMet,
+      }))
+
+      setBids((prev) => prev.filter((bid) => bid.id !== data.bidId))
+
+      if (showToasts) {
+        toast.info('A bid was retracted')
+      }
+    },
+    [showToasts]
+  )
+
   // Subscribe to Pusher updates
   useAuctionUpdates(auction.id, {
     onNewBid: handleNewBid,
+    onSealedBidPlaced: handleSealedBidPlaced,
     onExtended: handleExtended,
     onEnded: handleEnded,
+    onReserveMet: handleReserveMet,
+    onPaused: handlePaused,
+    onResumed: handleResumed,
+    onAuctioneerCall: handleAuctioneerCall,
+    onBidRetracted: handleBidRetracted,
   })
 
   // Manual state updater for optimistic updates (e.g., after placing bid)
@@ -203,7 +328,7 @@ export function useAuctionRealtime(
 
     // Computed values
     isEndingSoon: seconds > 0 && seconds < 120, // Last 2 minutes
-    isActive: auction.status === 'ACTIVE' && !isEnded,
+    isActive: auction.status === 'ACTIVE' && (!isEnded || !!auction.liveFinale),
 
     // State updaters
     updateAuctionState,
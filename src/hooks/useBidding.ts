@@ -11,8 +11,14 @@ import type { AuctionState } from '@/hooks/useAuctionRealtime'
  */
 export type BidResult = {
   success: boolean
+  /** Bidder's private maximum after this bid, if one is set */
+  maxBid?: number | null
+  /** Bidder's own hidden bid in a sealed-bid auction */
+  sealedBid?: number | null
+  /** False when a competing maximum immediately outbid this bid; null while bids are sealed */
+  isLeading?: boolean | null
   auction?: {
-    currentBid: number
+    currentBid: number | null
     bidCount: number
     reserveMet: boolean
     currentEndTime: string
@@ -45,6 +51,7 @@ export type UseBiddingOptions = {
  *
  * Handles:
  * - Bid amount state and validation
+ * - Optional private maximum (proxy bidding)
  * - User verification status checking
  * - Bid submission with optimistic updates
  * - Quick bid helpers
@@ -132,7 +139,7 @@ export function useBidding(
    * Handles authentication, verification, validation, and API submission
    */
   const submitBid = useCallback(
-    async (amount: number): Promise<BidResult> => {
+    async (amount: number, maxAmount?: number): Promise<BidResult> => {
       // Check authentication
       if (!session) {
         const error = 'Please log in to place a bid'
@@ -162,7 +169,7 @@ export function useBidding(
         const response = await fetch(`/api/auctions/${auctionId}/bids`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ amount }),
+          body: JSON.stringify({ amount, maxAmount }),
         })
 
         if (!response.ok) {
@@ -170,16 +177,25 @@ export function useBidding(
           throw new Error(errorData.error || 'Failed to place bid')
         }
 
-        const result = await response.json()
+        const { data: result } = await response.json()
 
         if (showToasts) {
-          toast.success('Bid placed successfully!')
+          if (result.isLeading === false) {
+            toast.warning('Another bidder\'s maximum outbid you')
+          } else if (typeof result.sealedBid === 'number') {
+            toast.success('Sealed bid saved')
+          } else {
+            toast.success('Bid placed successfully!')
+          }
         }
 
         onBidSuccess?.(result)
 
         return {
           success: true,
+          maxBid: result.maxBid,
+          sealedBid: result.sealedBid,
+          isLeading: result.isLeading,
           auction: result.auction,
         }
       } catch (error) {
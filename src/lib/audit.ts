@@ -1,6 +1,6 @@
 // Audit logging utilities for payment and auction events
 import { prisma } from '@/lib/db'
-import { AuditSeverity, AuditStatus } from '@prisma/client'
+import { AuditSeverity, AuditStatus, DisputeStatus, EscrowStatus, RefundTarget } from '@prisma/client'
 
 export type AuditLogParams = {
   actorId?: string
@@ -269,6 +269,194 @@ export class PaymentAuditLogger {
       },
     })
   }
+
+  async logEscrowTransition(
+    auctionId: string,
+    escrowId: string,
+    status: EscrowStatus,
+    actorId?: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    const settled = status === 'RELEASED' || status === 'REFUNDED' || status === 'DISPUTED'
+    await createAuditLog({
+      actorId: actorId || this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: `payment.escrow.${status.toLowerCase()}`,
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: settled ? 'HIGH' : 'MEDIUM',
+      status: 'SUCCESS',
+      details: {
+        escrowId,
+        ...details,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logRefundRequested(
+    auctionId: string,
+    refundId: string,
+    target: RefundTarget,
+    amount: number,
+    currency: string,
+    reason: string,
+    requiresApproval: boolean
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: 'payment.refund.requested',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'SUCCESS',
+      details: {
+        refundId,
+        target,
+        amount,
+        currency,
+        reason,
+        requiresApproval,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logRefundReviewed(
+    auctionId: string,
+    refundId: string,
+    approved: boolean,
+    note?: string
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: approved ? 'payment.refund.approved' : 'payment.refund.rejected',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'SUCCESS',
+      details: {
+        refundId,
+        note,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logRefundSucceeded(
+    auctionId: string,
+    refundId: string,
+    stripeRefundId: string,
+    amount: number,
+    currency: string
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: 'payment.refund.succeeded',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'SUCCESS',
+      details: {
+        refundId,
+        stripeRefundId,
+        amount,
+        currency,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logRefundFailed(
+    auctionId: string,
+    refundId: string,
+    error: string,
+    stripeRefundId?: string
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: 'payment.refund.failed',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'FAILURE',
+      errorMessage: error,
+      details: {
+        refundId,
+        stripeRefundId,
+        error,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logBankTransferMatched(
+    auctionId: string,
+    bankTransferId: string,
+    statementLineId: string,
+    amount: number,
+    currency: string,
+    manual: boolean
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: manual ? 'payment.bank_transfer.resolved' : 'payment.bank_transfer.matched',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'SUCCESS',
+      details: {
+        bankTransferId,
+        statementLineId,
+        amount,
+        currency,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logDisputeEvent(
+    auctionId: string,
+    disputeId: string,
+    type: string,
+    status: DisputeStatus,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: `payment.dispute.${type}`,
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: status === 'LOST' ? 'CRITICAL' : 'HIGH',
+      status: 'SUCCESS',
+      details: {
+        disputeId,
+        status,
+        ...details,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
 }
 
 /**
@@ -315,6 +503,32 @@ export class AuctionAuditLogger {
     })
   }
 
+  async logReserveLowered(
+    auctionId: string,
+    sellerId: string,
+    previousReserve: number,
+    newReserve: number,
+    reserveMet: boolean
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: sellerId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: 'auction.reserve_lowered',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'MEDIUM',
+      status: 'SUCCESS',
+      details: {
+        previousReserve,
+        newReserve,
+        reserveMet,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
   async logBidPlaced(
     auctionId: string,
     bidId: string,
@@ -357,6 +571,129 @@ export class AuctionAuditLogger {
       },
     })
   }
+
+  async logWinnerDefaulted(
+    auctionId: string,
+    winnerId: string,
+    depositForfeited: boolean
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      action: 'auction.winner_defaulted',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'FAILURE',
+      details: {
+        winnerId,
+        depositForfeited,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logSecondChanceOffered(
+    auctionId: string,
+    offerId: string,
+    bidderId: string,
+    amount: number,
+    rank: number,
+    expiresAt: Date
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: this.actorId,
+      actorEmail: this.actorEmail,
+      action: 'auction.second_chance.offered',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'MEDIUM',
+      status: 'SUCCESS',
+      details: {
+        offerId,
+        bidderId,
+        amount,
+        rank,
+        expiresAt: expiresAt.toISOString(),
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logSecondChanceResolved(
+    auctionId: string,
+    offerId: string,
+    bidderId: string,
+    outcome: 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: outcome === 'EXPIRED' ? this.actorId : bidderId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: `auction.second_chance.${outcome.toLowerCase()}`,
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: outcome === 'ACCEPTED' ? 'HIGH' : 'MEDIUM',
+      status: 'SUCCESS',
+      details: {
+        offerId,
+        bidderId,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logNegotiationOffer(
+    auctionId: string,
+    offerId: string,
+    userId: string,
+    madeBy: 'BUYER' | 'SELLER',
+    amount: number
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: userId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: 'auction.negotiation.offer',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'LOW',
+      status: 'SUCCESS',
+      details: {
+        offerId,
+        madeBy,
+        amount,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  async logNegotiationResolved(
+    auctionId: string,
+    offerId: string,
+    userId: string,
+    outcome: 'ACCEPTED' | 'DECLINED',
+    amount: number
+  ): Promise<void> {
+    await createAuditLog({
+      actorId: userId,
+      actorEmail: this.actorEmail,
+      actorIp: this.actorIp,
+      actorUserAgent: this.actorUserAgent,
+      action: `auction.negotiation.${outcome.toLowerCase()}`,
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: outcome === 'ACCEPTED' ? 'HIGH' : 'LOW',
+      status: 'SUCCESS',
+      details: {
+        offerId,
+        amount,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
 }
 
 /**
@@ -0,0 +1,277 @@
+/**
+ * Bank statements
+ *
+ * Reads incoming transfers from the statements admins download from the
+ * bank: ISO 20022 CAMT.053 XML, or a CSV export with the columns in
+ * STATEMENT_CSV_COLUMNS. Only credits are kept; outgoing payments are not
+ * ours to reconcile.
+ */
+import { createHash } from 'crypto'
+import type { BankStatementFormat } from '@prisma/client'
+import { ValidationError } from './errors'
+import { ERROR_CODES } from './error-codes'
+
+export type StatementLine = {
+  fingerprint: string
+  bookingDate: Date
+  amount: number
+  currency: string
+  remittanceInfo: string | null
+  counterparty: string | null
+  counterpartyIban: string | null
+  bankReference: string | null
+}
+
+export const STATEMENT_CSV_COLUMNS = [
+  'date',
+  'amount',
+  'currency',
+  'reference',
+  'counterparty_name',
+  'counterparty_iban',
+  'bank_reference',
+] as const
+
+function invalid(message: string): ValidationError {
+  return new ValidationError(message, ERROR_CODES.STATEMENT_INVALID)
+}
+
+/**
+ * The same transfer in two overlapping statements gets the same fingerprint
+ */
+function fingerprint(line: Omit<StatementLine, 'fingerprint'>): string {
+  const key = line.bankReference
+    ? ['ref', line.bankReference]
+    : [
+        line.bookingDate.toISOString().slice(0, 10),
+        line.amount.toFixed(2),
+        line.currency,
+        line.remittanceInfo ?? '',
+        line.counterpartyIban ?? '',
+      ]
+  return createHash('sha256').update(key.join('|')).digest('hex')
+}
+
+function withFingerprint(line: Omit<StatementLine, 'fingerprint'>): StatementLine {
+  return { ...line, fingerprint: fingerprint(line) }
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim()
+}
+
+function firstTag(xml: string, path: string[]): string | null {
+  let scope = xml
+  for (const tag of path) {
+    const match = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(scope)
+    if (!match) {
+      return null
+    }
+    scope = match[1]
+  }
+  return decodeXml(scope)
+}
+
+function allTags(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g')
+  return Array.from(xml.matchAll(pattern), (match) => match[1])
+}
+
+function parseAmount(value: string): number {
+  const compact = value.replace(/\s+/g, '')
+  // 1.234,56 and 1234,56 as well as 1,234.56 and 1234.56
+  const normalized = /,\d{1,2}$/.test(compact)
+    ? compact.replace(/\./g, '').replace(',', '.')
+    : compact.replace(/,/g, '')
+  return Number(normalized)
+}
+
+function parseDate(value: string): Date | null {
+  const dotted = /^(\d{2})[./](\d{2})[./](\d{4})$/.exec(value.trim())
+  const iso = dotted ? `${dotted[3]}-${dotted[2]}-${dotted[1]}` : value.trim().slice(0, 10)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) {
+    return null
+  }
+  const date = new Date(`${iso}T00:00:00Z`)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Credit entries of a CAMT.053 statement. A batched entry with several
+ * transaction details becomes one line per transaction.
+ */
+export function parseCamt053(xml: string): StatementLine[] {
+  // Drop namespace prefixes (<ns2:Ntry> -> <Ntry>)
+  const doc = xml.replace(/<(\/?)[\w-]+:/g, '<$1')
+
+  if (!/<BkToCstmrStmt[\s>]/.test(doc)) {
+    throw invalid('Not a CAMT.053 statement')
+  }
+
+  const lines: StatementLine[] = []
+
+  for (const entry of allTags(doc, 'Ntry')) {
+    if (firstTag(entry, ['CdtDbtInd']) !== 'CRDT') {
+      continue
+    }
+
+    const status = firstTag(entry, ['Sts'])
+    if (status && !/BOOK/.test(status)) {
+      continue
+    }
+
+    const bookingDate = parseDate(
+      firstTag(entry, ['BookgDt', 'Dt']) ?? firstTag(entry, ['BookgDt', 'DtTm']) ?? ''
+    )
+    if (!bookingDate) {
+      throw invalid('Statement entry without a booking date')
+    }
+
+    const entryReference = firstTag(entry, ['AcctSvcrRef'])
+    const transactions = allTags(entry, 'TxDtls')
+    const parts = transactions.length > 0 ? transactions : [entry]
+
+    parts.forEach((part, index) => {
+      // A batch entry's own amount is the sum; each transaction carries its own
+      const amountMatch =
+        (transactions.length > 1 &&
+          (/<TxAmt>\s*<Amt Ccy="([A-Z]{3})">([^<]+)<\/Amt>/.exec(part) ??
+            /<Amt Ccy="([A-Z]{3})">([^<]+)<\/Amt>/.exec(part))) ||
+        /<Amt Ccy="([A-Z]{3})">([^<]+)<\/Amt>/.exec(entry)
+      if (!amountMatch) {
+        throw invalid('Statement entry without an amount')
+      }
+
+      const remittance = [
+        ...allTags(part, 'Ustrd').map(decodeXml),
+        ...allTags(part, 'Ref').map(decodeXml),
+      ].join(' ')
+      const debtor = firstTag(part, ['Dbtr'])
+      const transactionReference =
+        firstTag(part, ['Refs', 'AcctSvcrRef']) ??
+        (entryReference && transactions.length > 1 ? `${entryReference}/${index + 1}` : entryReference)
+
+      lines.push(
+        withFingerprint({
+          bookingDate,
+          amount: parseAmount(amountMatch[2]),
+          currency: amountMatch[1],
+          remittanceInfo: remittance || null,
+          counterparty: debtor ? firstTag(debtor, ['Nm']) : null,
+          counterpartyIban: firstTag(part, ['DbtrAcct', 'IBAN']),
+          bankReference: transactionReference,
+        })
+      )
+    })
+  }
+
+  return lines
+}
+
+function splitCsvRow(row: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell)
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  cells.push(cell)
+  return cells.map((value) => value.trim())
+}
+
+/**
+ * Credit rows of a CSV statement. Columns are found by header name, so
+ * extra columns and any column order are fine.
+ */
+export function parseStatementCsv(csv: string): StatementLine[] {
+  const rows = csv.replace(/^\uFEFF/, '').split(/\r?\n/).filter((row) => row.trim())
+  if (rows.length === 0) {
+    throw invalid('The statement is empty')
+  }
+
+  const header = splitCsvRow(rows[0]).map((name) => name.toLowerCase())
+  const column = Object.fromEntries(
+    STATEMENT_CSV_COLUMNS.map((name) => [name, header.indexOf(name)])
+  ) as Record<(typeof STATEMENT_CSV_COLUMNS)[number], number>
+
+  const missing = (['date', 'amount', 'currency', 'reference'] as const).filter(
+    (name) => column[name] < 0
+  )
+  if (missing.length > 0) {
+    throw invalid(`Statement CSV is missing columns: ${missing.join(', ')}`)
+  }
+
+  const lines: StatementLine[] = []
+
+  rows.slice(1).forEach((row, index) => {
+    const cells = splitCsvRow(row)
+    const cell = (name: (typeof STATEMENT_CSV_COLUMNS)[number]) =>
+      column[name] >= 0 && cells[column[name]] ? cells[column[name]] : null
+
+    const bookingDate = parseDate(cell('date') ?? '')
+    const amount = parseAmount(cell('amount') ?? '')
+    const currency = (cell('currency') ?? '').toUpperCase()
+
+    if (!bookingDate || !Number.isFinite(amount) || !/^[A-Z]{3}$/.test(currency)) {
+      throw invalid(`Statement CSV row ${index + 2} is not valid`)
+    }
+
+    // Debits
+    if (amount <= 0) {
+      return
+    }
+
+    lines.push(
+      withFingerprint({
+        bookingDate,
+        amount,
+        currency,
+        remittanceInfo: cell('reference'),
+        counterparty: cell('counterparty_name'),
+        counterpartyIban: cell('counterparty_iban'),
+        bankReference: cell('bank_reference'),
+      })
+    )
+  })
+
+  return lines
+}
+
+export function detectStatementFormat(content: string): BankStatementFormat {
+  return content.replace(/^\uFEFF/, '').trimStart().startsWith('<') ? 'CAMT053' : 'CSV'
+}
+
+export function parseBankStatement(
+  content: string
+): { format: BankStatementFormat; lines: StatementLine[] } {
+  const format = detectStatementFormat(content)
+  return {
+    format,
+    lines: format === 'CAMT053' ? parseCamt053(content) : parseStatementCsv(content),
+  }
+}
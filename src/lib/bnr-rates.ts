@@ -0,0 +1,68 @@
+/**
+ * BNR exchange rates
+ *
+ * Reads the National Bank of Romania's daily reference rates, which Romanian
+ * invoices in a foreign currency must quote for the VAT amount in RON. These
+ * are kept apart from the ECB rates in the exchange_rates table: the fiscal
+ * code requires the BNR rate for invoices, while the ECB rates restate EUR
+ * fee amounts and deposits for auctions in other currencies. The invoice
+ * stores the rate and its publication date, so it can be reproduced without
+ * fetching again.
+ */
+
+const BNR_RATES_URL = 'https://www.bnr.ro/nbrfxrates.xml'
+
+export type BnrRate = {
+  rate: number // RON per one unit of the currency
+  rateDate: Date // Day BNR published the rate
+}
+
+/**
+ * Fetches the rate an invoice quotes; the invoice service takes it as a
+ * dependency so tests and back-office tools can supply their own
+ */
+export type InvoiceRateSource = (currency: string) => Promise<BnrRate | null>
+
+/**
+ * Parse the BNR XML feed into RON per one unit of each currency
+ */
+export function parseBnrRates(xml: string): Record<string, number> {
+  const rates: Record<string, number> = {}
+  const pattern = /<Rate currency="([A-Z]{3})"(?: multiplier="(\d+)")?>([\d.]+)<\/Rate>/g
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const multiplier = match[2] ? parseInt(match[2], 10) : 1
+    rates[match[1]] = parseFloat(match[3]) / multiplier
+  }
+
+  return rates
+}
+
+/**
+ * Publication date of the BNR XML feed, or null if it has none
+ */
+export function parseBnrRateDate(xml: string): Date | null {
+  const match = /<Cube date="(\d{4}-\d{2}-\d{2})">/.exec(xml)
+  return match ? new Date(`${match[1]}T00:00:00Z`) : null
+}
+
+/**
+ * Latest published rate for a currency in RON, or null if unavailable
+ */
+export async function getBnrRate(currency: string): Promise<BnrRate | null> {
+  if (currency === 'RON') {
+    return { rate: 1, rateDate: new Date() }
+  }
+
+  const response = await fetch(BNR_RATES_URL, { signal: AbortSignal.timeout(5000) })
+  if (!response.ok) {
+    return null
+  }
+
+  const xml = await response.text()
+  const rate = parseBnrRates(xml)[currency.toUpperCase()]
+  const rateDate = parseBnrRateDate(xml)
+
+  return rate !== undefined && rateDate ? { rate, rateDate } : null
+}
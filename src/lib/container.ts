@@ -216,6 +216,7 @@ function createAuctionService(): IAuctionService {
     getActiveAuctions: auctionService.getActiveAuctions,
     getEndingSoonAuctions: auctionService.getEndingSoonAuctions,
     placeBid: auctionService.placeBid,
+    getMaxBid: auctionService.getMaxBid,
     getBidHistory: auctionService.getBidHistory,
     getUserBids: auctionService.getUserBids,
     endAuction: auctionService.endAuction,
@@ -432,6 +433,7 @@ export function createTestContainer(): ServiceContainer {
           capturedAt: null,
           forfeitedAt: null,
           forfeitReason: null,
+          refundedAt: null,
           createdAt: new Date(),
           updatedAt: new Date(),
         },
@@ -452,7 +454,7 @@ export function createTestContainer(): ServiceContainer {
         paidAt: null,
         paymentDeadline: null,
         totalAmount: null,
-        breakdown: { finalPrice: null, buyerFee: null },
+        breakdown: { finalPrice: null, buyerFee: null, promoCode: null, promoDiscount: null },
       }),
       setPaymentDeadline: async (auctionId: string) => ({
         id: auctionId,
@@ -520,6 +522,7 @@ export function createTestContainer(): ServiceContainer {
         totalAlerts: 0,
         criticalAlerts: 0,
         recentAlerts: [],
+        recentRetractions: 0,
         isSuspicious: false,
       }),
     },
@@ -689,6 +692,7 @@ export function createTestContainer(): ServiceContainer {
       }),
       getEndingSoonAuctions: async () => [],
       placeBid: async (auctionId, bidderId, amount) => ({
+        bids: [],
         bid: {
           id: 'mock-bid-id',
           auctionId,
@@ -710,6 +714,7 @@ export function createTestContainer(): ServiceContainer {
         } as any,
         extended: false,
       } as any),
+      getMaxBid: async () => null,
       getBidHistory: async () => [],
       getUserBids: async (userId, options) => ({
         bids: [],
@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client'
+
+/**
+ * Take a row lock on an auction for the rest of the transaction.
+ *
+ * Every write that reads the auction's price or bidder counter and then
+ * updates it (placing a bid, recomputing after an invalidated bid) takes this
+ * lock first, so concurrent bids on the same auction run one after another and
+ * each one validates against the price the previous one committed. Bids on
+ * different auctions do not block each other.
+ *
+ * Postgres releases the lock on commit or rollback; taking it twice in the
+ * same transaction is a no-op.
+ */
+export async function lockAuctionRow(
+  tx: Prisma.TransactionClient,
+  auctionId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM auctions WHERE id = ${auctionId} FOR UPDATE`
+}
+
+/**
+ * Take a row lock on a bidding limit for the rest of the transaction.
+ *
+ * Bids on different auctions draw on the same limit, so the exposure check and
+ * the reservation that follows it must not interleave with another bid by the
+ * same user.
+ */
+export async function lockBiddingLimitRow(
+  tx: Prisma.TransactionClient,
+  limitId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM bidding_limits WHERE id = ${limitId} FOR UPDATE`
+}
+
+/**
+ * Take a row lock on a listing for the rest of the transaction.
+ *
+ * Revisions are numbered per listing, so two edits saved at the same moment
+ * must not read the same latest revision and claim the same number.
+ */
+export async function lockListingRow(
+  tx: Prisma.TransactionClient,
+  listingId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM listings WHERE id = ${listingId} FOR UPDATE`
+}
+
+/**
+ * Take a row lock on a promo code for the rest of the transaction.
+ *
+ * The usage caps are checked by counting redemptions before adding one, so
+ * two redemptions of the same code must not both count below the cap.
+ */
+export async function lockPromoCodeRow(
+  tx: Prisma.TransactionClient,
+  promoCodeId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM promo_codes WHERE id = ${promoCodeId} FOR UPDATE`
+}
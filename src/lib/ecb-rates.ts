@@ -0,0 +1,36 @@
+/**
+ * ECB exchange rates
+ *
+ * Reads the European Central Bank's euro foreign exchange reference rates, as
+ * downloaded from eurofxref-daily.xml or the eurofxref-hist*.xml history files.
+ */
+
+export type EcbRateDay = {
+  date: string // YYYY-MM-DD
+  rates: Record<string, number> // Units per 1 EUR
+}
+
+/**
+ * Parse an ECB reference rate file into one entry per published day
+ */
+export function parseEcbRates(xml: string): EcbRateDay[] {
+  const days: EcbRateDay[] = []
+  const dayPattern = /<Cube\s+time=["'](\d{4}-\d{2}-\d{2})["']\s*>([\s\S]*?)<\/Cube>/g
+  const ratePattern = /<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([\d.]+)["']\s*\/>/g
+  let day: RegExpExecArray | null
+
+  while ((day = dayPattern.exec(xml)) !== null) {
+    const rates: Record<string, number> = {}
+    let rate: RegExpExecArray | null
+
+    while ((rate = ratePattern.exec(day[2])) !== null) {
+      rates[rate[1]] = parseFloat(rate[2])
+    }
+
+    if (Object.keys(rates).length > 0) {
+      days.push({ date: day[1], rates })
+    }
+  }
+
+  return days
+}
@@ -1117,6 +1117,93 @@ The Finds Team`,
   }
 }
 
+/**
+ * Send refund confirmation email to the buyer or bidder
+ * @param to - The recipient's email address
+ * @param name - The recipient's name
+ * @param vehicleTitle - The title of the listing
+ * @param amount - The refunded amount
+ * @param currency - The currency of the refund
+ * @param kind - Whether the auction payment or a bid deposit was refunded
+ */
+export async function sendRefundIssuedEmail(
+  to: string,
+  name: string,
+  vehicleTitle: string,
+  amount: number,
+  currency: string,
+  kind: 'payment' | 'deposit'
+) {
+  const formattedAmount = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: currency,
+  }).format(amount)
+  const what = kind === 'deposit' ? 'bid deposit' : 'payment'
+
+  try {
+    const data = await getResendClient().emails.send({
+      from: getFromEmail(),
+      to,
+      subject: `Refund Issued - ${vehicleTitle} - Finds`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Refund Issued</title>
+          </head>
+          <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+            <div style="background-color: #f8f9fa; padding: 30px; border-radius: 10px;">
+              <h1 style="color: #1a1a1a; margin-bottom: 20px;">Refund Issued</h1>
+
+              <p style="font-size: 16px; margin-bottom: 20px;">
+                Hi ${name},
+              </p>
+
+              <p style="font-size: 16px; margin-bottom: 20px;">
+                We have refunded <strong>${formattedAmount}</strong> of your ${what} for <strong>"${vehicleTitle}"</strong> to your original payment method.
+              </p>
+
+              <p style="font-size: 14px; color: #666; margin-bottom: 20px;">
+                Depending on your bank, it can take 5-10 business days for the refund to appear on your statement.
+              </p>
+
+              <hr style="border: none; border-top: 1px solid #ddd; margin: 30px 0;">
+
+              <p style="font-size: 13px; color: #999;">
+                If you have any questions about this refund, please contact our support team.
+              </p>
+
+              <p style="font-size: 13px; color: #999; margin-top: 20px;">
+                Best regards,<br>
+                The Finds Team
+              </p>
+            </div>
+          </body>
+        </html>
+      `,
+      text: `Refund Issued
+
+Hi ${name},
+
+We have refunded ${formattedAmount} of your ${what} for "${vehicleTitle}" to your original payment method.
+
+Depending on your bank, it can take 5-10 business days for the refund to appear on your statement.
+
+If you have any questions about this refund, please contact our support team.
+
+Best regards,
+The Finds Team`,
+    })
+
+    return { success: true, data }
+  } catch (error) {
+    console.error('Failed to send refund issued email:', error)
+    throw new Error('Failed to send refund issued email')
+  }
+}
+
 /**
  * Send auction expired email to seller (no sale)
  * @param to - The seller's email address
@@ -31,7 +31,9 @@ export const ERROR_CODES = {
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   AUCTION_NOT_FOUND: 'AUCTION_NOT_FOUND',
   LISTING_NOT_FOUND: 'LISTING_NOT_FOUND',
+  LISTING_REVISION_NOT_FOUND: 'LISTING_REVISION_NOT_FOUND',
   BID_NOT_FOUND: 'BID_NOT_FOUND',
+  AUCTION_EVENT_NOT_FOUND: 'AUCTION_EVENT_NOT_FOUND',
 
   // Auction business logic errors (400)
   AUCTION_NOT_ACTIVE: 'AUCTION_NOT_ACTIVE',
@@ -39,12 +41,81 @@ export const ERROR_CODES = {
   AUCTION_NOT_STARTED: 'AUCTION_NOT_STARTED',
   AUCTION_CLOSED: 'AUCTION_CLOSED',
   AUCTION_ALREADY_ACTIVE: 'AUCTION_ALREADY_ACTIVE',
+  AUCTION_PAUSED: 'AUCTION_PAUSED',
+  AUCTION_NOT_PAUSED: 'AUCTION_NOT_PAUSED',
+  LIVE_FINALE_NOT_ENABLED: 'LIVE_FINALE_NOT_ENABLED',
+  AUCTIONEER_CALL_OUT_OF_ORDER: 'AUCTIONEER_CALL_OUT_OF_ORDER',
+  RESERVE_NOT_LOWER: 'RESERVE_NOT_LOWER',
+  AUCTION_EVENT_SLUG_TAKEN: 'AUCTION_EVENT_SLUG_TAKEN',
+  LOT_NOT_AVAILABLE: 'LOT_NOT_AVAILABLE',
 
   // Bidding errors (400)
   BID_TOO_LOW: 'BID_TOO_LOW',
   BID_OWN_AUCTION: 'BID_OWN_AUCTION',
   BID_ALREADY_WINNING: 'BID_ALREADY_WINNING',
   BID_INVALID_INCREMENT: 'BID_INVALID_INCREMENT',
+  BID_INVALID_MAXIMUM: 'BID_INVALID_MAXIMUM',
+  SEALED_BID_NO_MAXIMUM: 'SEALED_BID_NO_MAXIMUM',
+
+  // Second-chance offer errors (400/404)
+  SECOND_CHANCE_NOT_FOUND: 'SECOND_CHANCE_NOT_FOUND',
+  SECOND_CHANCE_NOT_PENDING: 'SECOND_CHANCE_NOT_PENDING',
+  SECOND_CHANCE_EXPIRED: 'SECOND_CHANCE_EXPIRED',
+
+  // Bid retraction errors (400/404/409)
+  BID_RETRACTION_NOT_FOUND: 'BID_RETRACTION_NOT_FOUND',
+  BID_RETRACTION_WINDOW_CLOSED: 'BID_RETRACTION_WINDOW_CLOSED',
+  BID_RETRACTION_EXISTS: 'BID_RETRACTION_EXISTS',
+  BID_RETRACTION_NOT_PENDING: 'BID_RETRACTION_NOT_PENDING',
+
+  // Escrow errors (404/409)
+  ESCROW_NOT_FOUND: 'ESCROW_NOT_FOUND',
+  ESCROW_ALREADY_FUNDED: 'ESCROW_ALREADY_FUNDED',
+  ESCROW_INVALID_STATE: 'ESCROW_INVALID_STATE',
+  ESCROW_FROZEN: 'ESCROW_FROZEN',
+  REFUND_NOT_FOUND: 'REFUND_NOT_FOUND',
+  REFUND_NOT_REFUNDABLE: 'REFUND_NOT_REFUNDABLE',
+  REFUND_EXCEEDS_BALANCE: 'REFUND_EXCEEDS_BALANCE',
+  REFUND_NOT_PENDING: 'REFUND_NOT_PENDING',
+  REFUND_SELF_APPROVAL: 'REFUND_SELF_APPROVAL',
+  DISPUTE_NOT_FOUND: 'DISPUTE_NOT_FOUND',
+  DISPUTE_CLOSED: 'DISPUTE_CLOSED',
+
+  // Promo code errors (400/404/409)
+  PROMO_CODE_NOT_FOUND: 'PROMO_CODE_NOT_FOUND',
+  PROMO_CODE_EXISTS: 'PROMO_CODE_EXISTS',
+  PROMO_CODE_EXPIRED: 'PROMO_CODE_EXPIRED',
+  PROMO_CODE_EXHAUSTED: 'PROMO_CODE_EXHAUSTED',
+  PROMO_CODE_NOT_ELIGIBLE: 'PROMO_CODE_NOT_ELIGIBLE',
+  PROMO_CODE_ALREADY_REDEEMED: 'PROMO_CODE_ALREADY_REDEEMED',
+
+  // Invoice errors (400/404)
+  INVOICE_NOT_FOUND: 'INVOICE_NOT_FOUND',
+  INVOICE_NOT_PAID: 'INVOICE_NOT_PAID',
+
+  // Bank transfer errors (400/404/409)
+  BANK_TRANSFER_NOT_FOUND: 'BANK_TRANSFER_NOT_FOUND',
+  BANK_TRANSFER_NOT_ALLOWED: 'BANK_TRANSFER_NOT_ALLOWED',
+  STATEMENT_INVALID: 'STATEMENT_INVALID',
+  STATEMENT_LINE_NOT_FOUND: 'STATEMENT_LINE_NOT_FOUND',
+  STATEMENT_LINE_RESOLVED: 'STATEMENT_LINE_RESOLVED',
+  WEBHOOK_EVENT_NOT_FOUND: 'WEBHOOK_EVENT_NOT_FOUND',
+  WEBHOOK_EVENT_NOT_REPLAYABLE: 'WEBHOOK_EVENT_NOT_REPLAYABLE',
+  RECONCILIATION_ISSUE_NOT_FOUND: 'RECONCILIATION_ISSUE_NOT_FOUND',
+  RECONCILIATION_ISSUE_CLOSED: 'RECONCILIATION_ISSUE_CLOSED',
+  PAYOUT_HOLD_NOT_FOUND: 'PAYOUT_HOLD_NOT_FOUND',
+  PAYOUT_HOLD_RELEASED: 'PAYOUT_HOLD_RELEASED',
+  PAYOUT_HOLD_FRAUD_ALERT: 'PAYOUT_HOLD_FRAUD_ALERT',
+  HANDOVER_NOT_ALLOWED: 'HANDOVER_NOT_ALLOWED',
+  EXCHANGE_RATE_NOT_FOUND: 'EXCHANGE_RATE_NOT_FOUND',
+  EXCHANGE_RATE_FILE_INVALID: 'EXCHANGE_RATE_FILE_INVALID',
+
+  // Post-auction negotiation errors (400/404/409)
+  OFFER_NOT_FOUND: 'OFFER_NOT_FOUND',
+  OFFER_NOT_PENDING: 'OFFER_NOT_PENDING',
+  OFFER_TOO_LOW: 'OFFER_TOO_LOW',
+  OFFER_AWAITING_RESPONSE: 'OFFER_AWAITING_RESPONSE',
+  NEGOTIATION_CLOSED: 'NEGOTIATION_CLOSED',
 
   // Payment errors (402)
   PAYMENT_REQUIRED: 'PAYMENT_REQUIRED',
@@ -60,6 +131,10 @@ export const ERROR_CODES = {
   DEPOSIT_INSUFFICIENT: 'DEPOSIT_INSUFFICIENT',
   DEPOSIT_FAILED: 'DEPOSIT_FAILED',
   DEPOSIT_ALREADY_HELD: 'DEPOSIT_ALREADY_HELD',
+  BIDDING_LIMIT_EXCEEDED: 'BIDDING_LIMIT_EXCEEDED',
+  BIDDING_LIMIT_NOT_FOUND: 'BIDDING_LIMIT_NOT_FOUND',
+  BIDDING_LIMIT_IN_USE: 'BIDDING_LIMIT_IN_USE',
+  BIDDING_LIMIT_REVIEWED: 'BIDDING_LIMIT_REVIEWED',
 
   // Fraud & Security errors (403)
   FRAUD_DETECTED: 'FRAUD_DETECTED',
@@ -123,7 +198,9 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ERROR_CODES.USER_NOT_FOUND]: 'User not found',
   [ERROR_CODES.AUCTION_NOT_FOUND]: 'Auction not found',
   [ERROR_CODES.LISTING_NOT_FOUND]: 'Listing not found',
+  [ERROR_CODES.LISTING_REVISION_NOT_FOUND]: 'Listing revision not found',
   [ERROR_CODES.BID_NOT_FOUND]: 'Bid not found',
+  [ERROR_CODES.AUCTION_EVENT_NOT_FOUND]: 'Sale not found',
 
   // Auctions
   [ERROR_CODES.AUCTION_NOT_ACTIVE]: 'This auction is not currently active',
@@ -131,12 +208,81 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ERROR_CODES.AUCTION_NOT_STARTED]: 'This auction has not started yet',
   [ERROR_CODES.AUCTION_CLOSED]: 'This auction is closed',
   [ERROR_CODES.AUCTION_ALREADY_ACTIVE]: 'This auction is already active',
+  [ERROR_CODES.AUCTION_PAUSED]: 'Bidding on this auction is paused',
+  [ERROR_CODES.AUCTION_NOT_PAUSED]: 'This auction is not paused',
+  [ERROR_CODES.LIVE_FINALE_NOT_ENABLED]: 'This auction is not run as a live finale',
+  [ERROR_CODES.AUCTIONEER_CALL_OUT_OF_ORDER]: 'Auctioneer calls must follow fair warning, going once, going twice, sold',
+  [ERROR_CODES.RESERVE_NOT_LOWER]: 'The reserve can only be lowered',
+  [ERROR_CODES.AUCTION_EVENT_SLUG_TAKEN]: 'Another sale already uses this address',
+  [ERROR_CODES.LOT_NOT_AVAILABLE]: 'Only approved listings without an auction can be added as lots',
 
   // Bidding
   [ERROR_CODES.BID_TOO_LOW]: 'Bid amount is too low',
   [ERROR_CODES.BID_OWN_AUCTION]: 'You cannot bid on your own auction',
   [ERROR_CODES.BID_ALREADY_WINNING]: 'You are already the highest bidder',
   [ERROR_CODES.BID_INVALID_INCREMENT]: 'Bid increment is invalid',
+  [ERROR_CODES.BID_INVALID_MAXIMUM]: 'Maximum bid is invalid',
+  [ERROR_CODES.SEALED_BID_NO_MAXIMUM]: 'Sealed-bid auctions do not take a maximum bid',
+
+  // Second-chance offers
+  [ERROR_CODES.SECOND_CHANCE_NOT_FOUND]: 'Second-chance offer not found',
+  [ERROR_CODES.SECOND_CHANCE_NOT_PENDING]: 'This offer has already been answered',
+  [ERROR_CODES.SECOND_CHANCE_EXPIRED]: 'This offer has expired',
+
+  // Bid retractions
+  [ERROR_CODES.BID_RETRACTION_NOT_FOUND]: 'Retraction request not found',
+  [ERROR_CODES.BID_RETRACTION_WINDOW_CLOSED]: 'This bid can no longer be retracted',
+  [ERROR_CODES.BID_RETRACTION_EXISTS]: 'A retraction has already been requested for this bid',
+  [ERROR_CODES.BID_RETRACTION_NOT_PENDING]: 'This retraction request has already been reviewed',
+
+  // Escrow
+  [ERROR_CODES.ESCROW_NOT_FOUND]: 'Escrow not found',
+  [ERROR_CODES.ESCROW_ALREADY_FUNDED]: 'This purchase is already paid into escrow',
+  [ERROR_CODES.ESCROW_INVALID_STATE]: 'The escrow is not at the right step for this action',
+  [ERROR_CODES.ESCROW_FROZEN]: 'The escrow is frozen while a dispute is reviewed',
+  [ERROR_CODES.REFUND_NOT_FOUND]: 'Refund not found',
+  [ERROR_CODES.REFUND_NOT_REFUNDABLE]: 'There is no captured payment to refund',
+  [ERROR_CODES.REFUND_EXCEEDS_BALANCE]: 'The refund exceeds the amount still refundable',
+  [ERROR_CODES.REFUND_NOT_PENDING]: 'This refund is not waiting for approval',
+  [ERROR_CODES.REFUND_SELF_APPROVAL]: 'A refund must be approved by a different admin',
+  [ERROR_CODES.DISPUTE_NOT_FOUND]: 'Dispute not found',
+  [ERROR_CODES.DISPUTE_CLOSED]: 'This dispute is already closed',
+
+  // Promo codes
+  [ERROR_CODES.PROMO_CODE_NOT_FOUND]: 'This promo code is not valid',
+  [ERROR_CODES.PROMO_CODE_EXISTS]: 'A promo code with this code already exists',
+  [ERROR_CODES.PROMO_CODE_EXPIRED]: 'This promo code is not valid at the moment',
+  [ERROR_CODES.PROMO_CODE_EXHAUSTED]: 'This promo code has been used up',
+  [ERROR_CODES.PROMO_CODE_NOT_ELIGIBLE]: 'This promo code does not apply to this auction',
+  [ERROR_CODES.PROMO_CODE_ALREADY_REDEEMED]: 'A promo code is already applied to this fee',
+
+  // Invoices
+  [ERROR_CODES.INVOICE_NOT_FOUND]: 'Invoice not found',
+  [ERROR_CODES.INVOICE_NOT_PAID]: 'The buyer fee has not been paid yet',
+
+  // Bank transfers
+  [ERROR_CODES.BANK_TRANSFER_NOT_FOUND]: 'Bank transfer not found',
+  [ERROR_CODES.BANK_TRANSFER_NOT_ALLOWED]: 'This payment cannot be made by bank transfer',
+  [ERROR_CODES.STATEMENT_INVALID]: 'The bank statement could not be read',
+  [ERROR_CODES.STATEMENT_LINE_NOT_FOUND]: 'Statement line not found',
+  [ERROR_CODES.STATEMENT_LINE_RESOLVED]: 'This statement line has already been reviewed',
+  [ERROR_CODES.WEBHOOK_EVENT_NOT_FOUND]: 'Webhook event not found',
+  [ERROR_CODES.WEBHOOK_EVENT_NOT_REPLAYABLE]: 'Only failed webhook events can be replayed',
+  [ERROR_CODES.RECONCILIATION_ISSUE_NOT_FOUND]: 'Reconciliation issue not found',
+  [ERROR_CODES.RECONCILIATION_ISSUE_CLOSED]: 'This reconciliation issue is already closed',
+  [ERROR_CODES.PAYOUT_HOLD_NOT_FOUND]: 'Payout hold not found',
+  [ERROR_CODES.PAYOUT_HOLD_RELEASED]: 'This payout hold has already been released',
+  [ERROR_CODES.PAYOUT_HOLD_FRAUD_ALERT]: 'Resolve the fraud alerts on this auction to release the payout',
+  [ERROR_CODES.HANDOVER_NOT_ALLOWED]: 'Only the buyer of a paid auction can confirm the handover',
+  [ERROR_CODES.EXCHANGE_RATE_NOT_FOUND]: 'No exchange rate is available for this currency',
+  [ERROR_CODES.EXCHANGE_RATE_FILE_INVALID]: 'The file does not contain ECB reference rates',
+
+  // Post-auction negotiation
+  [ERROR_CODES.OFFER_NOT_FOUND]: 'Offer not found',
+  [ERROR_CODES.OFFER_NOT_PENDING]: 'This offer has already been answered',
+  [ERROR_CODES.OFFER_TOO_LOW]: 'Offer must be at least the highest bid',
+  [ERROR_CODES.OFFER_AWAITING_RESPONSE]: 'Your previous offer is still awaiting a response',
+  [ERROR_CODES.NEGOTIATION_CLOSED]: 'The negotiation window for this auction is closed',
 
   // Payments
   [ERROR_CODES.PAYMENT_REQUIRED]: 'Payment is required to complete this action',
@@ -152,6 +298,10 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ERROR_CODES.DEPOSIT_INSUFFICIENT]: 'Insufficient deposit amount',
   [ERROR_CODES.DEPOSIT_FAILED]: 'Failed to process deposit',
   [ERROR_CODES.DEPOSIT_ALREADY_HELD]: 'A deposit is already held for this auction',
+  [ERROR_CODES.BIDDING_LIMIT_EXCEEDED]: 'This bid exceeds your remaining bidding limit',
+  [ERROR_CODES.BIDDING_LIMIT_NOT_FOUND]: 'Bidding limit not found',
+  [ERROR_CODES.BIDDING_LIMIT_IN_USE]: 'Your bidding limit still covers open bids',
+  [ERROR_CODES.BIDDING_LIMIT_REVIEWED]: 'This bank guarantee has already been reviewed',
 
   // Fraud
   [ERROR_CODES.FRAUD_DETECTED]: 'Suspicious activity detected',
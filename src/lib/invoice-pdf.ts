@@ -0,0 +1,127 @@
+/**
+ * Invoice PDF
+ *
+ * Single-page A4 invoice drawn with the minimal PDF writer in ./pdf.
+ */
+import type { Invoice } from '@prisma/client'
+import { INVOICE_CONFIG } from '@/config/invoice.config'
+import { buildPdf, pageContent, Font, TextItem, MARGIN } from './pdf'
+
+const VAT_NOTES: Record<Invoice['vatTreatment'], string | null> = {
+  STANDARD: null,
+  REVERSE_CHARGE: 'Taxare inversa (art. 196 Directiva 2006/112/CE) / Reverse charge',
+  OUTSIDE_SCOPE: 'Neimpozabil in Romania / Not subject to Romanian VAT',
+}
+
+function formatAmount(value: unknown, currency: string): string {
+  return `${Number(value).toFixed(2)} ${currency}`
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + word.length + 1 > maxChars) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+
+  if (line) {
+    lines.push(line)
+  }
+  return lines
+}
+
+/**
+ * Render an issued invoice as a PDF
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const issuer = INVOICE_CONFIG.issuer
+  const currency = invoice.currency
+  const items: TextItem[] = []
+  const rules: number[] = []
+
+  const text = (x: number, y: number, value: string, size = 10, font: Font = 'regular') =>
+    items.push({ x, y, size, font, text: value })
+
+  // Header
+  text(MARGIN, 780, 'FACTURA / INVOICE', 20, 'bold')
+  text(MARGIN, 755, `Nr. / No.: ${invoice.number}`, 11, 'bold')
+  text(MARGIN, 740, `Data emiterii / Issue date: ${invoice.issuedAt.toISOString().slice(0, 10)}`)
+  rules.push(725)
+
+  // Parties
+  const supplier = [
+    issuer.name,
+    `CIF / VAT: ${issuer.vatNumber}`,
+    `Reg. Com.: ${issuer.registrationNumber}`,
+    issuer.address,
+    `${issuer.city}, ${issuer.region}, ${issuer.country}`,
+    issuer.iban ? `IBAN: ${issuer.iban}` : '',
+    issuer.email,
+  ].filter(Boolean)
+
+  const client = [
+    invoice.buyerName,
+    invoice.buyerVatNumber ? `CIF / VAT: ${invoice.buyerVatNumber}` : '',
+    invoice.buyerAddress ?? '',
+    [invoice.buyerCity, invoice.buyerRegion, invoice.buyerCountry].filter(Boolean).join(', '),
+    invoice.buyerEmail,
+  ].filter(Boolean)
+
+  text(MARGIN, 705, 'Furnizor / Supplier', 9, 'bold')
+  supplier.forEach((line, i) => text(MARGIN, 690 - i * 14, line))
+  text(310, 705, 'Cumparator / Client', 9, 'bold')
+  client.forEach((line, i) => text(310, 690 - i * 14, line))
+
+  // Line item
+  const tableTop = 570
+  rules.push(tableTop + 15)
+  text(MARGIN, tableTop, 'Descriere / Description', 9, 'bold')
+  text(300, tableTop, 'Net', 9, 'bold')
+  text(390, tableTop, 'TVA / VAT %', 9, 'bold')
+  text(470, tableTop, 'TVA / VAT', 9, 'bold')
+  rules.push(tableTop - 8)
+
+  const description = wrap(invoice.description, 48)
+  description.forEach((line, i) => text(MARGIN, tableTop - 25 - i * 13, line, 9))
+  text(300, tableTop - 25, formatAmount(invoice.netAmount, currency), 9)
+  text(
+    390,
+    tableTop - 25,
+    invoice.vatTreatment === 'STANDARD' ? `${Number(invoice.vatRate)}%` : '-',
+    9
+  )
+  text(470, tableTop - 25, formatAmount(invoice.vatAmount, currency), 9)
+
+  // Totals
+  const totalsTop = tableTop - 40 - description.length * 13
+  rules.push(totalsTop + 8)
+  text(300, totalsTop - 10, 'Total fara TVA / Net total')
+  text(470, totalsTop - 10, formatAmount(invoice.netAmount, currency))
+  text(300, totalsTop - 25, 'Total TVA / VAT total')
+  text(470, totalsTop - 25, formatAmount(invoice.vatAmount, currency))
+  text(300, totalsTop - 45, 'Total de plata / Total', 11, 'bold')
+  text(470, totalsTop - 45, formatAmount(invoice.totalAmount, currency), 11, 'bold')
+
+  // Notes
+  const notes = [
+    VAT_NOTES[invoice.vatTreatment],
+    invoice.exchangeRate !== null
+      ? `Curs BNR${invoice.exchangeRateDate ? ` ${invoice.exchangeRateDate.toISOString().slice(0, 10)}` : ''} / ` +
+        `BNR rate: 1 ${currency} = ${Number(invoice.exchangeRate).toFixed(4)} RON; ` +
+        `TVA / VAT: ${(Number(invoice.vatAmount) * Number(invoice.exchangeRate)).toFixed(2)} RON`
+      : null,
+    invoice.paymentMeans === 'CREDIT_TRANSFER'
+      ? 'Achitat integral prin transfer bancar / Paid in full by bank transfer'
+      : 'Achitat integral cu cardul / Paid in full by card',
+  ].filter((note): note is string => note !== null)
+
+  notes.forEach((note, i) => text(MARGIN, totalsTop - 90 - i * 14, note, 9))
+
+  return buildPdf([pageContent(items, rules)])
+}
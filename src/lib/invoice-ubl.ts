@@ -0,0 +1,188 @@
+/**
+ * UBL 2.1 invoice XML for RO e-Factura (CIUS-RO 1.0.1)
+ *
+ * Builds the XML by hand: one invoice line (the buyer fee), already paid by
+ * card or bank transfer, so the payable amount is zero. Non-RON invoices carry the VAT total
+ * in RON as well, using the BNR rate stored on the invoice.
+ */
+import type { Invoice, InvoicePaymentMeans, VatTreatment } from '@prisma/client'
+import { INVOICE_CONFIG } from '@/config/invoice.config'
+
+export const CIUS_RO_CUSTOMIZATION_ID =
+  'urn:cen.eu:en16931:2017#compliant#urn:efactura.mfinante.ro:CIUS-RO:1.0.1'
+
+// EN 16931 VAT category codes
+const VAT_CATEGORY: Record<VatTreatment, string> = {
+  STANDARD: 'S',
+  REVERSE_CHARGE: 'AE',
+  OUTSIDE_SCOPE: 'O',
+}
+
+const EXEMPTION_REASON: Partial<Record<VatTreatment, { code: string; text: string }>> = {
+  REVERSE_CHARGE: { code: 'VATEX-EU-AE', text: 'Taxare inversa / Reverse charge' },
+  OUTSIDE_SCOPE: { code: 'VATEX-EU-O', text: 'Neimpozabil in Romania / Not subject to VAT' },
+}
+
+// UNCL 4461 payment means codes: 48 = bank card, 58 = SEPA credit transfer,
+// 30 = credit transfer outside SEPA (RON transfers between Romanian banks)
+function paymentMeansCode(means: InvoicePaymentMeans, currency: string): string {
+  if (means === 'CARD') {
+    return '48'
+  }
+  return currency === 'EUR' ? '58' : '30'
+}
+
+// e-Factura expects a buyer identifier; individuals without one use thirteen zeros
+const ANONYMOUS_BUYER_ID = '0000000000000'
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function amount(value: unknown): string {
+  return Number(value).toFixed(2)
+}
+
+function el(tag: string, value: string, attributes = ''): string {
+  return `<${tag}${attributes}>${escapeXml(value)}</${tag}>`
+}
+
+function money(tag: string, value: unknown, currency: string): string {
+  return el(tag, amount(value), ` currencyID="${currency}"`)
+}
+
+function taxCategory(tag: string, invoice: Invoice, withReason: boolean): string {
+  const category = VAT_CATEGORY[invoice.vatTreatment]
+  const reason = withReason ? EXEMPTION_REASON[invoice.vatTreatment] : undefined
+
+  return [
+    `<${tag}>`,
+    el('cbc:ID', category),
+    // Category O carries no rate
+    invoice.vatTreatment === 'OUTSIDE_SCOPE' ? '' : el('cbc:Percent', amount(invoice.vatRate)),
+    reason ? el('cbc:TaxExemptionReasonCode', reason.code) : '',
+    reason ? el('cbc:TaxExemptionReason', reason.text) : '',
+    '<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme>',
+    `</${tag}>`,
+  ].join('')
+}
+
+function supplierParty(invoice: Invoice): string {
+  const issuer = INVOICE_CONFIG.issuer
+
+  return [
+    '<cac:AccountingSupplierParty><cac:Party>',
+    '<cac:PostalAddress>',
+    el('cbc:StreetName', issuer.address),
+    el('cbc:CityName', issuer.city),
+    el('cbc:CountrySubentity', issuer.region),
+    `<cac:Country>${el('cbc:IdentificationCode', issuer.country)}</cac:Country>`,
+    '</cac:PostalAddress>',
+    // An out-of-scope invoice must not show the seller's VAT identifier
+    invoice.vatTreatment === 'OUTSIDE_SCOPE'
+      ? ''
+      : `<cac:PartyTaxScheme>${el('cbc:CompanyID', issuer.vatNumber)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`,
+    '<cac:PartyLegalEntity>',
+    el('cbc:RegistrationName', issuer.name),
+    el('cbc:CompanyID', issuer.registrationNumber),
+    '</cac:PartyLegalEntity>',
+    `<cac:Contact>${el('cbc:ElectronicMail', issuer.email)}</cac:Contact>`,
+    '</cac:Party></cac:AccountingSupplierParty>',
+  ].join('')
+}
+
+function customerParty(invoice: Invoice): string {
+  const region =
+    invoice.buyerCountry === 'RO' && invoice.buyerRegion ? invoice.buyerRegion : null
+  // Out-of-scope invoices must not carry the buyer's VAT identifier either,
+  // so there it goes in as the legal registration number
+  const vatId = invoice.vatTreatment === 'OUTSIDE_SCOPE' ? null : invoice.buyerVatNumber
+
+  return [
+    '<cac:AccountingCustomerParty><cac:Party>',
+    '<cac:PostalAddress>',
+    el('cbc:StreetName', invoice.buyerAddress || '-'),
+    el('cbc:CityName', invoice.buyerCity || '-'),
+    region ? el('cbc:CountrySubentity', region) : '',
+    `<cac:Country>${el('cbc:IdentificationCode', invoice.buyerCountry)}</cac:Country>`,
+    '</cac:PostalAddress>',
+    vatId
+      ? `<cac:PartyTaxScheme>${el('cbc:CompanyID', vatId)}<cac:TaxScheme><cbc:ID>VAT</cbc:ID></cac:TaxScheme></cac:PartyTaxScheme>`
+      : '',
+    '<cac:PartyLegalEntity>',
+    el('cbc:RegistrationName', invoice.buyerName),
+    vatId ? '' : el('cbc:CompanyID', invoice.buyerVatNumber || ANONYMOUS_BUYER_ID),
+    '</cac:PartyLegalEntity>',
+    `<cac:Contact>${el('cbc:ElectronicMail', invoice.buyerEmail)}</cac:Contact>`,
+    '</cac:Party></cac:AccountingCustomerParty>',
+  ].join('')
+}
+
+/**
+ * Render an issued invoice as UBL 2.1 XML
+ */
+export function renderInvoiceUbl(invoice: Invoice): string {
+  const currency = invoice.currency
+  const reason = EXEMPTION_REASON[invoice.vatTreatment]
+  const needsRonTotal = currency !== 'RON' && invoice.exchangeRate !== null
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"',
+    ' xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"',
+    ' xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">',
+    el('cbc:CustomizationID', CIUS_RO_CUSTOMIZATION_ID),
+    el('cbc:ID', invoice.number),
+    el('cbc:IssueDate', invoice.issuedAt.toISOString().slice(0, 10)),
+    el('cbc:InvoiceTypeCode', '380'),
+    reason ? el('cbc:Note', reason.text) : '',
+    el('cbc:DocumentCurrencyCode', currency),
+    needsRonTotal ? el('cbc:TaxCurrencyCode', 'RON') : '',
+    supplierParty(invoice),
+    customerParty(invoice),
+    '<cac:PaymentMeans>',
+    el('cbc:PaymentMeansCode', paymentMeansCode(invoice.paymentMeans, currency)),
+    el('cbc:PaymentID', invoice.number),
+    '</cac:PaymentMeans>',
+    '<cac:TaxTotal>',
+    money('cbc:TaxAmount', invoice.vatAmount, currency),
+    '<cac:TaxSubtotal>',
+    money('cbc:TaxableAmount', invoice.netAmount, currency),
+    money('cbc:TaxAmount', invoice.vatAmount, currency),
+    taxCategory('cac:TaxCategory', invoice, true),
+    '</cac:TaxSubtotal>',
+    '</cac:TaxTotal>',
+    needsRonTotal
+      ? `<cac:TaxTotal>${money(
+          'cbc:TaxAmount',
+          Number(invoice.vatAmount) * Number(invoice.exchangeRate),
+          'RON'
+        )}</cac:TaxTotal>`
+      : '',
+    '<cac:LegalMonetaryTotal>',
+    money('cbc:LineExtensionAmount', invoice.netAmount, currency),
+    money('cbc:TaxExclusiveAmount', invoice.netAmount, currency),
+    money('cbc:TaxInclusiveAmount', invoice.totalAmount, currency),
+    money('cbc:PrepaidAmount', invoice.totalAmount, currency),
+    money('cbc:PayableAmount', 0, currency),
+    '</cac:LegalMonetaryTotal>',
+    '<cac:InvoiceLine>',
+    el('cbc:ID', '1'),
+    el('cbc:InvoicedQuantity', '1', ' unitCode="C62"'),
+    money('cbc:LineExtensionAmount', invoice.netAmount, currency),
+    '<cac:Item>',
+    el('cbc:Name', invoice.description),
+    taxCategory('cac:ClassifiedTaxCategory', invoice, false),
+    '</cac:Item>',
+    `<cac:Price>${money('cbc:PriceAmount', invoice.netAmount, currency)}</cac:Price>`,
+    '</cac:InvoiceLine>',
+    '</Invoice>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
@@ -0,0 +1,95 @@
+/**
+ * Payout statement PDF
+ *
+ * Monthly seller statement drawn with the minimal PDF writer in ./pdf. Each
+ * sale takes two lines: the figures, then the Stripe transfer ID.
+ */
+import type { PayoutStatement } from '@/services/payout-statement.service'
+import { buildPdf, pageContent, Font, TextItem, MARGIN } from './pdf'
+
+const ROWS_PER_PAGE = 22
+const ROW_HEIGHT = 26
+
+function formatAmount(value: number): string {
+  return value.toFixed(2)
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars - 3)}...` : text
+}
+
+/**
+ * Render a seller's monthly payout statement as a PDF
+ */
+export function renderPayoutStatementPdf(statement: PayoutStatement): Buffer {
+  const pageCount = Math.max(Math.ceil(statement.entries.length / ROWS_PER_PAGE), 1)
+  const pages: string[] = []
+
+  for (let page = 0; page < pageCount; page++) {
+    const items: TextItem[] = []
+    const rules: number[] = []
+    const text = (x: number, y: number, value: string, size = 10, font: Font = 'regular') =>
+      items.push({ x, y, size, font, text: value })
+
+    // Header
+    text(MARGIN, 780, 'PAYOUT STATEMENT', 20, 'bold')
+    text(MARGIN, 755, `Period: ${statement.month}`, 11, 'bold')
+    text(MARGIN, 740, statement.seller.name ?? statement.seller.email)
+    text(MARGIN, 726, statement.seller.email, 9)
+    if (pageCount > 1) {
+      text(480, 755, `Page ${page + 1} / ${pageCount}`, 9)
+    }
+
+    // Sales
+    const tableTop = 690
+    rules.push(tableTop + 15)
+    text(MARGIN, tableTop, 'Paid out', 9, 'bold')
+    text(105, tableTop, 'Vehicle / Transfer', 9, 'bold')
+    text(290, tableTop, 'Hammer', 9, 'bold')
+    text(355, tableTop, 'Commission', 9, 'bold')
+    text(420, tableTop, 'Fees', 9, 'bold')
+    text(475, tableTop, 'Payout', 9, 'bold')
+    rules.push(tableTop - 8)
+
+    const rows = statement.entries.slice(page * ROWS_PER_PAGE, (page + 1) * ROWS_PER_PAGE)
+    rows.forEach((entry, i) => {
+      const y = tableTop - 25 - i * ROW_HEIGHT
+      text(MARGIN, y, entry.paidOutAt?.toISOString().slice(0, 10) ?? '-', 8)
+      text(105, y, truncate(entry.title, 34), 8)
+      text(105, y - 10, entry.transferId ?? '-', 7)
+      text(290, y, formatAmount(entry.hammerPrice), 8)
+      text(355, y, formatAmount(entry.commission), 8)
+      text(420, y, formatAmount(entry.totalFees), 8)
+      text(475, y, `${formatAmount(entry.payoutAmount)} ${entry.currency}`, 8, 'bold')
+    })
+
+    // Totals on the last page
+    if (page === pageCount - 1) {
+      const totalsTop = tableTop - 25 - rows.length * ROW_HEIGHT
+      rules.push(totalsTop + 8)
+
+      if (statement.totals.length === 0) {
+        text(MARGIN, totalsTop - 10, 'No payouts were transferred in this period.', 9)
+      }
+
+      statement.totals.forEach((total, i) => {
+        const y = totalsTop - 15 - i * 16
+        text(MARGIN, y, `Total ${total.currency}`, 10, 'bold')
+        text(290, y, formatAmount(total.hammerPrice), 9)
+        text(420, y, formatAmount(total.totalFees), 9)
+        text(475, y, `${formatAmount(total.payoutAmount)} ${total.currency}`, 10, 'bold')
+      })
+
+      text(
+        MARGIN,
+        60,
+        'Fees are withheld from the hammer price before the transfer to your Stripe account.',
+        8
+      )
+    }
+
+    pages.push(pageContent(items, rules))
+  }
+
+  return buildPdf(pages)
+}
@@ -0,0 +1,73 @@
+/**
+ * Minimal PDF writer
+ *
+ * Writes A4 pages by hand using the built-in Helvetica fonts, so documents can
+ * be rendered anywhere without a browser or PDF library. Text is
+ * WinAnsi-encoded; diacritics are dropped (ș -> s) and anything else outside
+ * Latin-1 becomes '?'.
+ */
+
+export type Font = 'regular' | 'bold'
+
+export type TextItem = { x: number; y: number; size: number; font: Font; text: string }
+
+export const PAGE_WIDTH = 595
+export const PAGE_HEIGHT = 842
+export const MARGIN = 50
+
+function toPdfText(value: string): string {
+  const latin = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\xff]/g, '?')
+
+  return latin.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')
+}
+
+/**
+ * Content stream for one page: horizontal rules at the given heights, then text
+ */
+export function pageContent(items: TextItem[], rules: number[] = []): string {
+  return [
+    '0.5 w',
+    ...rules.map((y) => `${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`),
+    ...items.map(
+      (item) =>
+        `BT /${item.font === 'bold' ? 'F2' : 'F1'} ${item.size} Tf ${item.x} ${item.y} Td (${toPdfText(item.text)}) Tj ET`
+    ),
+  ].join('\n')
+}
+
+/**
+ * Assemble the PDF objects around one content stream per page
+ */
+export function buildPdf(pages: string[]): Buffer {
+  // 1: catalog, 2: page tree, 3-4: fonts, then a page and its content per page
+  const pageIds = pages.map((_, index) => 5 + index * 2)
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    ]),
+  ]
+
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+
+  objects.forEach((body, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'))
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1')
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
@@ -21,6 +21,8 @@ export const CHANNELS = {
 // Event types
 export const EVENTS = {
   NEW_BID: 'new-bid',
+  SEALED_BID_PLACED: 'sealed-bid-placed',
+  BID_RETRACTED: 'bid-retracted',
   AUCTION_EXTENDED: 'auction-extended',
   AUCTION_ENDED: 'auction-ended',
   AUCTION_STARTED: 'auction-started',
@@ -28,6 +30,9 @@ export const EVENTS = {
   WINNING: 'winning',
   AUCTION_STARTING: 'auction-starting',
   RESERVE_MET: 'reserve-met',
+  AUCTION_PAUSED: 'auction-paused',
+  AUCTION_RESUMED: 'auction-resumed',
+  AUCTIONEER_CALL: 'auctioneer-call',
   WATCHLIST_COUNT_UPDATED: 'watchlist-count-updated',
   NEW_COMMENT: 'new-comment',
 }
@@ -44,6 +49,22 @@ export type NewBidEvent = {
   isReserveMet: boolean
 }
 
+// Sealed-bid auctions only announce that a bid came in, never its amount or bidder
+export type SealedBidPlacedEvent = {
+  auctionId: string
+  bidCount: number
+  timestamp: string
+}
+
+// Sent after an approved retraction; the price is recalculated from the remaining bids
+export type BidRetractedEvent = {
+  auctionId: string
+  bidId: string
+  currentBid: number | null
+  bidCount: number
+  reserveMet: boolean
+}
+
 export type AuctionExtendedEvent = {
   auctionId: string
   newEndTime: string
@@ -65,6 +86,31 @@ export type OutbidEvent = {
   yourBidAmount: number
 }
 
+export type AuctionPausedEvent = {
+  auctionId: string
+  pausedAt: string
+  reason: string | null
+}
+
+export type AuctionResumedEvent = {
+  auctionId: string
+  status: 'ACTIVE' | 'EXTENDED'
+  newEndTime: string
+  pausedDurationMs: number
+}
+
+export type AuctioneerCallEvent = {
+  auctionId: string
+  call: 'FAIR_WARNING' | 'GOING_ONCE' | 'GOING_TWICE' | 'SOLD'
+  currentBid: number | null
+  timestamp: string
+}
+
+export type ReserveMetEvent = {
+  auctionId: string
+  currentBid: number
+}
+
 export type WatchlistCountUpdatedEvent = {
   auctionId: string
   watchlistCount: number
@@ -90,6 +136,28 @@ export function getPusherServer() {
   return pusher
 }
 
+/**
+ * Get the number of clients subscribed to a channel
+ * Requires subscription counting to be enabled for the Pusher app; returns null otherwise
+ */
+export async function getChannelSubscriptionCount(channelName: string): Promise<number | null> {
+  try {
+    const response = await pusher.get({
+      path: `/channels/${channelName}`,
+      params: { info: 'subscription_count' },
+    })
+
+    if (!response.ok) {
+      return null
+    }
+
+    const body = (await response.json()) as { subscription_count?: number }
+    return body.subscription_count ?? null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Channel authorization result
  */
@@ -30,13 +30,13 @@ export const stripe = {
 
 // Bid deposit configuration
 export const DEPOSIT_CONFIG = {
-  // Minimum deposit amount in cents
+  // Minimum deposit amount in EUR cents (restated in the auction currency)
   MIN_DEPOSIT_CENTS: 50000, // €500
   // Maximum deposit as percentage of bid
   MAX_DEPOSIT_PERCENT: 5,
-  // Maximum deposit amount in cents
+  // Maximum deposit amount in EUR cents (restated in the auction currency)
   MAX_DEPOSIT_CENTS: 500000, // €5,000
-  // Currency for deposits
+  // Currency of account-level bidding limits
   CURRENCY: 'eur',
   // Hold duration in days
   HOLD_DURATION_DAYS: 30,
@@ -45,15 +45,16 @@ export const DEPOSIT_CONFIG = {
 /**
  * Calculate deposit amount for a bid
  * @param bidAmount - The bid amount in the auction currency (e.g., euros)
- * @returns Deposit amount in cents
+ * @param eurRate - Units of the auction currency per 1 EUR, to restate the limits
+ * @returns Deposit amount in cents of the auction currency
  */
-export function calculateDepositAmount(bidAmount: number): number {
+export function calculateDepositAmount(bidAmount: number, eurRate = 1): number {
   const percentageDeposit = Math.round(bidAmount * (DEPOSIT_CONFIG.MAX_DEPOSIT_PERCENT / 100) * 100)
 
   // Use the higher of minimum deposit or percentage, capped at maximum
   const deposit = Math.max(
-    DEPOSIT_CONFIG.MIN_DEPOSIT_CENTS,
-    Math.min(percentageDeposit, DEPOSIT_CONFIG.MAX_DEPOSIT_CENTS)
+    Math.round(DEPOSIT_CONFIG.MIN_DEPOSIT_CENTS * eurRate),
+    Math.min(percentageDeposit, Math.round(DEPOSIT_CONFIG.MAX_DEPOSIT_CENTS * eurRate))
   )
 
   return deposit
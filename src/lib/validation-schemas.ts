@@ -7,6 +7,8 @@
 
 import { z } from 'zod'
 import { VehicleCategory, ConsentType } from '@prisma/client'
+import { isBidIncrementTable } from '@/domain/auction/rules'
+import { REVISION_FIELDS } from '@/domain/listing/revisions'
 
 // ============================================================================
 // AUTH SCHEMAS
@@ -105,7 +107,7 @@ const listingBaseFields = {
   locationRegion: z.string().max(100, 'Region must be less than 100 characters').optional(),
   startingPrice: z.number().min(100, 'Starting price must be at least 100').max(10000000, 'Starting price must be less than 10,000,000'),
   reservePrice: z.number().min(100, 'Reserve price must be at least 100').max(10000000, 'Reserve price must be less than 10,000,000').optional(),
-  currency: z.enum(['EUR', 'USD', 'GBP', 'RON']).optional(),
+  currency: z.enum(['EUR', 'RON', 'USD', 'GBP', 'PLN', 'CZK', 'HUF']).optional(),
 }
 
 /**
@@ -139,6 +141,15 @@ export const updateListingSchema = z.object({
   currency: listingBaseFields.currency,
 })
 
+/**
+ * Listing field revert schema (ADMIN/MODERATOR only): restore one field from an earlier revision
+ */
+export const listingRevisionRevertSchema = z.object({
+  revision: z.number().int().min(1),
+  field: z.enum(REVISION_FIELDS),
+  adminOverride: z.boolean().optional(),
+})
+
 /**
  * Listing form schema for client-side (with coercion for form inputs)
  */
@@ -179,7 +190,7 @@ export const listingFormSchema = z.object({
   // Pricing
   startingPrice: z.coerce.number().min(100).max(10000000),
   reservePrice: z.coerce.number().min(100).max(10000000).optional(),
-  currency: z.enum(['EUR', 'USD', 'GBP', 'RON']).default('EUR'),
+  currency: z.enum(['EUR', 'RON', 'USD', 'GBP', 'PLN', 'CZK', 'HUF']).default('EUR'),
 
   // Description
   title: z.string().min(10, 'Title must be at least 10 characters').max(100),
@@ -195,6 +206,33 @@ export const listingFormSchema = z.object({
  */
 export const placeBidSchema = z.object({
   amount: z.number().positive('Bid amount must be positive'),
+  maxAmount: z.number().positive('Maximum bid must be positive').optional(),
+})
+
+/**
+ * Lower reserve schema (seller, live auction)
+ */
+export const lowerReserveSchema = z.object({
+  reservePrice: z.number().min(100, 'Reserve price must be at least 100'),
+})
+
+/**
+ * Second-chance offer response schema
+ */
+export const secondChanceResponseSchema = z.object({
+  offerId: z.string().min(1),
+  action: z.enum(['accept', 'decline']),
+})
+
+/**
+ * Post-auction negotiation schemas
+ */
+export const negotiationOfferSchema = z.object({
+  amount: z.number().positive('Offer must be positive'),
+})
+
+export const negotiationResponseSchema = z.object({
+  action: z.enum(['accept', 'decline']),
 })
 
 // ============================================================================
@@ -207,6 +245,7 @@ export const placeBidSchema = z.object({
 export const createDepositSchema = z.object({
   auctionId: z.string().min(1, 'Auction ID is required'),
   bidAmount: z.number().positive('Bid amount must be positive'),
+  promoCode: z.string().trim().min(1).max(40).optional(),
 })
 
 /**
@@ -265,14 +304,328 @@ export const updateUserSchema = z.object({
   reason: z.string().optional(),
 })
 
+/**
+ * Name of a bid increment table
+ */
+export const bidIncrementTableSchema = z
+  .string()
+  .refine(isBidIncrementTable, 'Unknown bid increment table')
+
 /**
  * Admin auction action schema
  */
 export const auctionActionSchema = z.object({
-  action: z.enum(['cancel', 'end', 'extend', 'invalidate_bid']),
+  action: z.enum(['cancel', 'end', 'extend', 'invalidate_bid', 'set_increment_table', 'offer_second_chance', 'pause', 'resume', 'set_live_finale', 'set_format']),
   reason: z.string().optional(),
   bidId: z.string().optional(),
   extensionMinutes: z.number().optional(),
+  minimumRemainingMinutes: z.number().int().min(0).optional(),
+  bidIncrementTable: bidIncrementTableSchema.optional(),
+  liveFinale: z.boolean().optional(),
+  format: z.enum(['OPEN', 'SEALED_FIRST_PRICE', 'SEALED_SECOND_PRICE']).optional(),
+})
+
+/**
+ * Staff bid schema (phone and absentee bids entered on a bidder's behalf)
+ */
+export const staffBidSchema = z.object({
+  bidderEmail: z.string().email('Invalid bidder email'),
+  amount: z.number().positive('Bid amount must be positive'),
+  maxAmount: z.number().positive('Maximum bid must be positive').optional(),
+  channel: z.enum(['PHONE', 'ABSENTEE']),
+  reason: z.string().min(10, 'Reason must be at least 10 characters').max(500),
+})
+
+/**
+ * Auctioneer call schema (live finale console)
+ */
+export const auctioneerCallSchema = z.object({
+  call: z.enum(['FAIR_WARNING', 'GOING_ONCE', 'GOING_TWICE', 'SOLD']),
+})
+
+/**
+ * Auction event schema (catalogue sale built from approved listings, in lot order)
+ */
+export const auctionEventSchema = z
+  .object({
+    title: z.string().min(3, 'Title must be at least 3 characters').max(200),
+    slug: z
+      .string()
+      .min(3)
+      .max(100)
+      .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and dashes'),
+    description: z.string().max(5000).optional(),
+    startTime: z.coerce.date(),
+    firstLotEndTime: z.coerce.date(),
+    lotIntervalMinutes: z.number().int().min(1).max(60).default(2),
+    listingIds: z.array(z.string()).min(1, 'Add at least one lot').max(500),
+  })
+  .refine((data) => data.firstLotEndTime > data.startTime, {
+    message: 'The first lot must close after the sale opens',
+    path: ['firstLotEndTime'],
+  })
+  .refine((data) => new Set(data.listingIds).size === data.listingIds.length, {
+    message: 'A listing can only be one lot',
+    path: ['listingIds'],
+  })
+
+export const auctionDefaultsSchema = z.object({
+  bidIncrementTable: bidIncrementTableSchema,
+})
+
+const feeTiersSchema = z
+  .array(
+    z.object({
+      upTo: z.number().positive().nullable(),
+      rate: z.number().min(0).max(1),
+    })
+  )
+  .min(1, 'At least one tier is required')
+  .refine(
+    (tiers) =>
+      tiers.every((tier, index) =>
+        index === tiers.length - 1
+          ? tier.upTo === null
+          : tier.upTo !== null && (index === 0 || tier.upTo > (tiers[index - 1].upTo as number))
+      ),
+    'Tier limits must increase, with no limit on the last tier'
+  )
+
+const feeTermsFields = {
+  buyerPremium: feeTiersSchema,
+  minBuyerFee: z.number().min(0),
+  maxBuyerFee: z.number().positive().nullable(),
+  sellerCommissionRate: z.number().min(0).max(1),
+  sellerListingFee: z.number().min(0),
+}
+
+/**
+ * Platform fee schedule (ADMIN only); applies to auctions created afterwards
+ */
+export const feeScheduleSchema = z.object({
+  default: z.object(feeTermsFields),
+  overrides: z.array(
+    z
+      .object({
+        category: z.nativeEnum(VehicleCategory).optional(),
+        country: z.string().length(2).toUpperCase().optional(),
+      })
+      .extend(z.object(feeTermsFields).partial().shape)
+      .refine(
+        (override) => override.category || override.country,
+        'An override needs a category or a country'
+      )
+  ),
+})
+
+/**
+ * Promo code creation schema (ADMIN only)
+ */
+export const promoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, 'Code must be at least 3 characters')
+      .max(40)
+      .regex(/^[A-Za-z0-9_-]+$/, 'Use letters, digits, dashes and underscores only'),
+    description: z.string().max(200).optional(),
+    target: z.enum(['BUYER_FEE', 'SELLER_COMMISSION']),
+    discountType: z.enum(['PERCENT', 'FIXED']),
+    discountValue: z.number().positive('Discount must be positive'),
+    startsAt: z.coerce.date().optional(),
+    endsAt: z.coerce.date().optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    perUserLimit: z.number().int().positive().default(1),
+    categories: z.array(z.nativeEnum(VehicleCategory)).default([]),
+  })
+  .refine((data) => data.discountType !== 'PERCENT' || data.discountValue <= 100, {
+    message: 'A percentage discount cannot exceed 100',
+    path: ['discountValue'],
+  })
+  .refine((data) => !data.startsAt || !data.endsAt || data.startsAt < data.endsAt, {
+    message: 'The code must start before it ends',
+    path: ['endsAt'],
+  })
+
+/**
+ * Promo code update schema (ADMIN only)
+ */
+export const promoCodeUpdateSchema = z.object({
+  active: z.boolean(),
+})
+
+/**
+ * Promo code redemption schema
+ */
+export const redeemPromoCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Enter a promo code').max(40),
+})
+
+/**
+ * Invoice file download schema
+ */
+export const invoiceDownloadSchema = z.object({
+  format: z.enum(['pdf', 'xml']).default('pdf'),
+})
+
+/**
+ * Invoice month schema (admin register and export), e.g. 2026-10
+ */
+export const invoiceMonthSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM'),
+})
+
+/**
+ * Bank transfer request schema (winner chooses to pay by SEPA transfer)
+ */
+export const bankTransferRequestSchema = z.object({
+  auctionId: z.string().min(1, 'Auction ID is required'),
+  promoCode: z.string().trim().min(1).max(40).optional(),
+})
+
+/**
+ * Bank statement upload schema (ADMIN only), CAMT.053 XML or CSV as text
+ */
+export const bankStatementUploadSchema = z.object({
+  filename: z.string().trim().min(1).max(200),
+  content: z.string().min(1, 'The statement is empty').max(5_000_000, 'Statement is too large'),
+})
+
+/**
+ * Exchange rate upload schema (ADMIN only), an ECB reference rate XML file as text
+ */
+export const exchangeRateImportSchema = z.object({
+  filename: z.string().trim().min(1).max(200),
+  content: z.string().min(1, 'The file is empty').max(10_000_000, 'File is too large'),
+})
+
+/**
+ * Statement line review schema (ADMIN only)
+ */
+export const statementLineReviewSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('match'),
+    reference: z.string().trim().min(5, 'Enter the payment reference').max(40),
+    note: z.string().trim().max(500).optional(),
+  }),
+  z.object({
+    action: z.literal('ignore'),
+    note: z.string().trim().min(3, 'Explain why this line is set aside').max(500),
+  }),
+])
+
+/**
+ * Bidding limit request schema: one card hold, or a bank guarantee for an admin to verify
+ */
+export const biddingLimitRequestSchema = z.discriminatedUnion('backing', [
+  z.object({
+    backing: z.literal('CARD_HOLD'),
+    limitAmount: z.number().positive().max(10_000_000),
+  }),
+  z.object({
+    backing: z.literal('BANK_GUARANTEE'),
+    limitAmount: z.number().positive().max(10_000_000),
+    guaranteeIssuer: z.string().trim().min(2, 'Enter the issuing bank').max(120),
+    guaranteeReference: z.string().trim().min(3, 'Enter the guarantee reference').max(80),
+    expiresAt: z.coerce.date(),
+  }),
+])
+
+/**
+ * Bank guarantee review schema (ADMIN only)
+ */
+export const biddingLimitReviewSchema = z.object({
+  approve: z.boolean(),
+  note: z.string().trim().max(500).optional(),
+})
+
+/**
+ * Reconciliation issue resolution schema (ADMIN only)
+ */
+export const reconciliationResolveSchema = z.object({
+  note: z.string().trim().min(1, 'Note what was done').max(500),
+})
+
+/**
+ * Payout hold release schema (ADMIN only)
+ */
+export const payoutHoldReleaseSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+})
+
+/**
+ * Seller payout statement download schema
+ */
+export const payoutStatementSchema = invoiceMonthSchema.extend({
+  format: z.enum(['csv', 'pdf']).default('pdf'),
+})
+
+/**
+ * Bid retraction request schema (bidder asks staff to withdraw a recent bid)
+ */
+export const bidRetractionSchema = z.object({
+  reason: z.string().min(10, 'Reason must be at least 10 characters').max(500),
+})
+
+/**
+ * Bid retraction review schema (staff decision on a pending request)
+ */
+export const bidRetractionReviewSchema = z.object({
+  decision: z.enum(['APPROVED', 'REJECTED']),
+  note: z.string().max(500).optional(),
+})
+
+/**
+ * Escrow step taken by the buyer or seller
+ */
+export const escrowActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('fund') }),
+  z.object({ action: z.literal('hand_over'), note: z.string().max(1000).optional() }),
+  z.object({ action: z.literal('confirm') }),
+  z.object({
+    action: z.literal('dispute'),
+    reason: z
+      .string()
+      .min(10, 'Please describe the problem in at least 10 characters')
+      .max(2000),
+  }),
+])
+
+/**
+ * Admin override of escrow milestones
+ */
+export const escrowOverrideSchema = z.object({
+  decision: z.enum(['RELEASE', 'REFUND']),
+  note: z.string().min(5, 'Please record why the milestones are being overridden').max(1000),
+})
+
+/**
+ * Admin refund of a buyer payment or a captured/forfeited deposit
+ * Omit the amount for a full refund of what is left
+ */
+export const refundRequestSchema = z
+  .object({
+    target: z.enum(['BUYER_FEE', 'DEPOSIT']),
+    depositId: z.string().optional(),
+    amount: z.number().positive('Amount must be positive').optional(),
+    reason: z.string().min(5, 'Please record why the refund is issued').max(1000),
+  })
+  .refine((data) => data.target !== 'DEPOSIT' || !!data.depositId, {
+    message: 'Choose the deposit to refund',
+    path: ['depositId'],
+  })
+
+/**
+ * Second-admin review of a refund above the approval threshold
+ */
+export const refundReviewSchema = z.object({
+  decision: z.enum(['APPROVE', 'REJECT']),
+  note: z.string().max(1000).optional(),
+})
+
+export const disputeEvidenceSchema = z.object({
+  note: z.string().max(1000).optional(),
 })
 
 // ============================================================================
@@ -288,9 +641,14 @@ export type ResetPasswordApiData = z.infer<typeof resetPasswordSchema>
 
 export type CreateListingData = z.infer<typeof createListingSchema>
 export type UpdateListingData = z.infer<typeof updateListingSchema>
+export type ListingRevisionRevertData = z.infer<typeof listingRevisionRevertSchema>
 export type ListingFormData = z.infer<typeof listingFormSchema>
 
 export type PlaceBidData = z.infer<typeof placeBidSchema>
+export type LowerReserveData = z.infer<typeof lowerReserveSchema>
+export type SecondChanceResponseData = z.infer<typeof secondChanceResponseSchema>
+export type NegotiationOfferData = z.infer<typeof negotiationOfferSchema>
+export type NegotiationResponseData = z.infer<typeof negotiationResponseSchema>
 
 export type CreateDepositData = z.infer<typeof createDepositSchema>
 export type ConfirmDepositData = z.infer<typeof confirmDepositSchema>
@@ -302,3 +660,29 @@ export type ConsentData = z.infer<typeof consentSchema>
 
 export type UpdateUserData = z.infer<typeof updateUserSchema>
 export type AuctionActionData = z.infer<typeof auctionActionSchema>
+export type StaffBidData = z.infer<typeof staffBidSchema>
+export type AuctioneerCallData = z.infer<typeof auctioneerCallSchema>
+export type AuctionEventData = z.infer<typeof auctionEventSchema>
+export type AuctionDefaultsData = z.infer<typeof auctionDefaultsSchema>
+export type FeeScheduleData = z.infer<typeof feeScheduleSchema>
+export type PromoCodeData = z.infer<typeof promoCodeSchema>
+export type PromoCodeUpdateData = z.infer<typeof promoCodeUpdateSchema>
+export type RedeemPromoCodeData = z.infer<typeof redeemPromoCodeSchema>
+export type InvoiceDownloadData = z.infer<typeof invoiceDownloadSchema>
+export type InvoiceMonthData = z.infer<typeof invoiceMonthSchema>
+export type BankTransferRequestData = z.infer<typeof bankTransferRequestSchema>
+export type BankStatementUploadData = z.infer<typeof bankStatementUploadSchema>
+export type ExchangeRateImportData = z.infer<typeof exchangeRateImportSchema>
+export type StatementLineReviewData = z.infer<typeof statementLineReviewSchema>
+export type BiddingLimitRequestData = z.infer<typeof biddingLimitRequestSchema>
+export type BiddingLimitReviewData = z.infer<typeof biddingLimitReviewSchema>
+export type ReconciliationResolveData = z.infer<typeof reconciliationResolveSchema>
+export type PayoutHoldReleaseData = z.infer<typeof payoutHoldReleaseSchema>
+export type PayoutStatementData = z.infer<typeof payoutStatementSchema>
+export type BidRetractionData = z.infer<typeof bidRetractionSchema>
+export type BidRetractionReviewData = z.infer<typeof bidRetractionReviewSchema>
+export type EscrowActionData = z.infer<typeof escrowActionSchema>
+export type EscrowOverrideData = z.infer<typeof escrowOverrideSchema>
+export type RefundRequestData = z.infer<typeof refundRequestSchema>
+export type RefundReviewData = z.infer<typeof refundReviewSchema>
+export type DisputeEvidenceData = z.infer<typeof disputeEvidenceSchema>
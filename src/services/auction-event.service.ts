@@ -0,0 +1,306 @@
+// Auction Event Service - catalogue sales grouping many lots with staggered closing
+import { prisma } from '@/lib/db'
+import { AuctionEvent, AuctionEventStatus, AuctionStatus } from '@prisma/client'
+import {
+  calculateLotEndTime,
+  convertFeeTerms,
+  defaultAuctionFormat,
+  resolveFeeTerms,
+} from '@/domain/auction/rules'
+import { listingStatusValidator } from '@/services/validators/listing-status.validator'
+import { getDefaultBidIncrementTable, getFeeSchedule } from '@/services/system-config.service'
+import { findEurRate } from '@/services/exchange-rate.service'
+import { auctionLogger } from '@/lib/logger'
+import { NotFoundError, ValidationError, ConflictError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+// Lots that have not closed yet
+const OPEN_LOT_STATUSES: AuctionStatus[] = ['SCHEDULED', 'ACTIVE', 'EXTENDED', 'PAUSED']
+
+export type AuctionEventWithLots = AuctionEvent & {
+  lots: Array<{
+    id: string
+    lotNumber: number | null
+    status: AuctionStatus
+    startTime: Date
+    currentEndTime: Date
+    currentBid: number | null
+    bidCount: number
+    reserveMet: boolean
+    listing: {
+      id: string
+      title: string
+      year: number
+      make: string
+      model: string
+      startingPrice: number
+      currency: string
+      locationCity: string
+      locationCountry: string
+      isRunning: boolean
+      media: Array<{ id: string; publicUrl: string; thumbnailUrl: string | null }>
+    }
+  }>
+}
+
+/**
+ * Create a catalogue sale from approved listings.
+ * Lots are numbered in the order given; all open at `startTime` and close
+ * `lotIntervalMinutes` apart starting from `firstLotEndTime`.
+ */
+export async function createAuctionEvent(
+  data: {
+    title: string
+    slug: string
+    description?: string | null
+    startTime: Date
+    firstLotEndTime: Date
+    lotIntervalMinutes: number
+    listingIds: string[]
+  },
+  createdById: string
+): Promise<AuctionEvent> {
+  if (data.firstLotEndTime <= data.startTime) {
+    throw new ValidationError('The first lot must close after the sale opens')
+  }
+
+  const existing = await prisma.auctionEvent.findUnique({ where: { slug: data.slug } })
+  if (existing) {
+    throw new ConflictError(
+      'Another sale already uses this address',
+      ERROR_CODES.AUCTION_EVENT_SLUG_TAKEN
+    )
+  }
+
+  const listings = await prisma.listing.findMany({
+    where: { id: { in: data.listingIds } },
+    include: { auction: { select: { id: true } } },
+  })
+
+  const unavailable = data.listingIds.filter((id) => {
+    const listing = listings.find((l) => l.id === id)
+    return !listing || !listingStatusValidator.isApproved(listing.status) || listing.auction
+  })
+
+  if (unavailable.length > 0) {
+    throw new ValidationError(
+      'Only approved listings without an auction can be added as lots',
+      ERROR_CODES.LOT_NOT_AVAILABLE,
+      { listingIds: unavailable }
+    )
+  }
+
+  // New lots use the platform default increment table and current fee schedule
+  const bidIncrementTable = await getDefaultBidIncrementTable()
+  const feeSchedule = await getFeeSchedule()
+  const currencies = Array.from(new Set(listings.map((listing) => listing.currency)))
+  const eurRates = new Map(
+    await Promise.all(
+      currencies.map(async (currency) => [currency, (await findEurRate(currency))?.rate] as const)
+    )
+  )
+  const unrated = currencies.filter((currency) => eurRates.get(currency) === undefined)
+
+  if (unrated.length > 0) {
+    throw new ValidationError(
+      `Fees can't be set in ${unrated.join(', ')} until exchange rates have been imported`,
+      ERROR_CODES.EXCHANGE_RATE_NOT_FOUND,
+      { currencies: unrated }
+    )
+  }
+  const status = data.startTime <= new Date() ? 'ACTIVE' : 'SCHEDULED'
+
+  const event = await prisma.$transaction(async (tx) => {
+    const created = await tx.auctionEvent.create({
+      data: {
+        title: data.title,
+        slug: data.slug,
+        description: data.description,
+        startTime: data.startTime,
+        firstLotEndTime: data.firstLotEndTime,
+        lotIntervalMinutes: data.lotIntervalMinutes,
+        status: status === 'ACTIVE' ? 'LIVE' : 'SCHEDULED',
+        createdById,
+      },
+    })
+
+    for (let index = 0; index < data.listingIds.length; index++) {
+      const listing = listings.find((l) => l.id === data.listingIds[index])!
+      const endTime = calculateLotEndTime(data.firstLotEndTime, index, data.lotIntervalMinutes)
+      const feeTerms = convertFeeTerms(
+        resolveFeeTerms(feeSchedule, {
+          category: listing.category,
+          country: listing.locationCountry,
+        }),
+        eurRates.get(listing.currency)!
+      )
+
+      await tx.auction.create({
+        data: {
+          listingId: listing.id,
+          eventId: created.id,
+          lotNumber: index + 1,
+          startTime: data.startTime,
+          originalEndTime: endTime,
+          currentEndTime: endTime,
+          status,
+          antiSnipingEnabled: true,
+          startingPrice: listing.startingPrice,
+          reservePrice: listing.reservePrice,
+          currency: listing.currency,
+          bidIncrementTable,
+          format: defaultAuctionFormat(listing.category),
+          buyerFeeRate: feeTerms.buyerPremium[0].rate,
+          feeTerms,
+        },
+      })
+    }
+
+    await tx.listing.updateMany({
+      where: { id: { in: data.listingIds } },
+      data: { status: 'ACTIVE' },
+    })
+
+    return created
+  })
+
+  auctionLogger.info(
+    { eventId: event.id, slug: event.slug, lotCount: data.listingIds.length },
+    'Auction event created'
+  )
+
+  return event
+}
+
+/**
+ * Get a sale with its lots in lot order (catalogue page)
+ */
+export async function getAuctionEventBySlug(slug: string): Promise<AuctionEventWithLots> {
+  const event = await prisma.auctionEvent.findUnique({
+    where: { slug },
+    include: {
+      lots: {
+        orderBy: { lotNumber: 'asc' },
+        include: {
+          listing: {
+            include: {
+              media: {
+                where: { type: 'PHOTO' },
+                take: 1,
+                orderBy: { position: 'asc' },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+
+  if (!event) {
+    throw new NotFoundError('Sale not found', ERROR_CODES.AUCTION_EVENT_NOT_FOUND)
+  }
+
+  return {
+    ...event,
+    lots: event.lots.map((lot) => ({
+      id: lot.id,
+      lotNumber: lot.lotNumber,
+      status: lot.status,
+      startTime: lot.startTime,
+      currentEndTime: lot.currentEndTime,
+      currentBid: lot.currentBid ? Number(lot.currentBid) : null,
+      bidCount: lot.bidCount,
+      reserveMet: lot.reserveMet,
+      listing: {
+        id: lot.listing.id,
+        title: lot.listing.title,
+        year: lot.listing.year,
+        make: lot.listing.make,
+        model: lot.listing.model,
+        startingPrice: Number(lot.listing.startingPrice),
+        currency: lot.listing.currency,
+        locationCity: lot.listing.locationCity,
+        locationCountry: lot.listing.locationCountry,
+        isRunning: lot.listing.isRunning,
+        media: lot.listing.media.map((m) => ({
+          id: m.id,
+          publicUrl: m.publicUrl,
+          thumbnailUrl: m.thumbnailUrl,
+        })),
+      },
+    })),
+  }
+}
+
+/**
+ * List sales, soonest first
+ */
+export async function listAuctionEvents(options: { status?: AuctionEventStatus[] } = {}) {
+  return prisma.auctionEvent.findMany({
+    where: options.status ? { status: { in: options.status } } : undefined,
+    orderBy: { startTime: 'asc' },
+    include: { _count: { select: { lots: true } } },
+  })
+}
+
+/**
+ * Drop lots that may not close yet because an earlier lot in the same sale is
+ * still open (paused, or held for a live finale). Lots listed together are
+ * expected to close in order, so they don't block each other.
+ */
+export async function excludeBlockedLots<
+  T extends { id: string; eventId: string | null; lotNumber: number | null },
+>(auctions: T[]): Promise<T[]> {
+  const eventIds = Array.from(
+    new Set(auctions.map((a) => a.eventId).filter((id): id is string => id !== null))
+  )
+
+  if (eventIds.length === 0) {
+    return auctions
+  }
+
+  const openLots = await prisma.auction.findMany({
+    where: {
+      eventId: { in: eventIds },
+      status: { in: OPEN_LOT_STATUSES },
+      id: { notIn: auctions.map((a) => a.id) },
+    },
+    select: { eventId: true, lotNumber: true },
+  })
+
+  return auctions.filter(
+    (auction) =>
+      auction.eventId === null ||
+      auction.lotNumber === null ||
+      !openLots.some(
+        (open) =>
+          open.eventId === auction.eventId &&
+          open.lotNumber !== null &&
+          open.lotNumber < auction.lotNumber!
+      )
+  )
+}
+
+/**
+ * Move sales along their schedule: SCHEDULED -> LIVE once open, LIVE -> ENDED
+ * once every lot has closed. Returns how many sales changed.
+ */
+export async function syncAuctionEventStatuses(): Promise<number> {
+  const now = new Date()
+
+  const [started, ended] = await Promise.all([
+    prisma.auctionEvent.updateMany({
+      where: { status: 'SCHEDULED', startTime: { lte: now } },
+      data: { status: 'LIVE' },
+    }),
+    prisma.auctionEvent.updateMany({
+      where: {
+        status: 'LIVE',
+        lots: { none: { status: { in: OPEN_LOT_STATUSES } } },
+      },
+      data: { status: 'ENDED' },
+    }),
+  ])
+
+  return started.count + ended.count
+}
@@ -1,29 +1,54 @@
 // Auction Service - handles auction lifecycle and operations
 import { prisma } from '@/lib/db'
-import { Auction, Bid, Listing } from '@prisma/client'
+import { lockAuctionRow } from '@/lib/db-lock'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+import { Auction, Bid, BidChannel, Listing, Prisma } from '@prisma/client'
 import {
   AUCTION_RULES,
   calculateMinimumBid,
   validateBidAmount,
   shouldExtendAuction,
   calculateExtendedEndTime,
+  cascadeLotEndTimes,
   calculateBuyerFee,
+  parseFeeTerms,
   isReserveMet,
   determineAuctionResult,
   calculatePaymentDeadline,
+  calculateNegotiationDeadline,
+  calculateResumedEndTime,
+  resolveProxyBids,
+  resolveSealedBids,
+  isSealedFormat,
+  defaultAuctionFormat,
+  parseBidIncrementTable,
+  convertFeeTerms,
 } from '@/domain/auction/rules'
 import { auctionLogger, logError } from '@/lib/logger'
 import { auctionStatusValidator } from '@/services/validators/auction-status.validator'
 import { listingStatusValidator } from '@/services/validators/listing-status.validator'
 import { getOrAssignBidderNumber } from '@/services/bidder-number.service'
+import { getDefaultBidIncrementTable, getFeeTermsForListing } from '@/services/system-config.service'
+import { findEurRate, snapshotSaleRate } from '@/services/exchange-rate.service'
+import { excludeBlockedLots, syncAuctionEventStatuses } from '@/services/auction-event.service'
+import {
+  reserveBidExposure,
+  releaseOutbidExposures,
+  releaseAuctionExposures,
+} from '@/services/bidding-limit.service'
 import {
   AuctionNotActiveError,
   AuctionEndedError,
   AuctionNotStartedError,
   BidTooLowError,
   SelfBidError,
+  BidValidationError,
   NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  AuctionStateError,
 } from '@/lib/errors'
+import { AuctionAuditLogger } from '@/lib/audit'
 import { ERROR_CODES } from '@/lib/error-codes'
 
 type AuctionWithRelations = Auction & {
@@ -31,7 +56,17 @@ type AuctionWithRelations = Auction & {
   bids: Bid[]
 }
 
-import { PaginatedAuctions } from '@/services/contracts/auction.interface'
+type BidMetadata = {
+  ipAddress?: string | null
+  userAgent?: string | null
+  maxAmount?: number | null
+  // Phone and absentee bids record the staff member who entered them
+  channel?: BidChannel
+  placedById?: string | null
+  channelReason?: string | null
+}
+
+import { CascadedLot, PaginatedAuctions } from '@/services/contracts/auction.interface'
 
 /**
  * Create an auction for an approved listing
@@ -72,6 +107,18 @@ export async function createAuction(
   const endTime = new Date(startTime)
   endTime.setDate(endTime.getDate() + durationDays)
 
+  // New auctions use the platform default increment table and current fee schedule,
+  // whose EUR amounts are restated in the listing currency
+  const bidIncrementTable = await getDefaultBidIncrementTable()
+  const eurRate = await findEurRate(listing.currency)
+  if (!eurRate) {
+    throw new ValidationError(
+      `Fees can't be set in ${listing.currency} until its exchange rate has been imported`,
+      ERROR_CODES.EXCHANGE_RATE_NOT_FOUND
+    )
+  }
+  const feeTerms = convertFeeTerms(await getFeeTermsForListing(listing), eurRate.rate)
+
   // Create auction with pricing from listing
   const auction = await prisma.auction.create({
     data: {
@@ -84,6 +131,10 @@ export async function createAuction(
       startingPrice: listing.startingPrice,
       reservePrice: listing.reservePrice,
       currency: listing.currency,
+      bidIncrementTable,
+      format: defaultAuctionFormat(listing.category),
+      buyerFeeRate: feeTerms.buyerPremium[0].rate,
+      feeTerms,
     },
   })
 
@@ -137,6 +188,7 @@ export async function getActiveAuctions(options: {
   country?: string
   sortBy?: 'ending_soon' | 'newly_listed' | 'price_low' | 'price_high' | 'most_bids' | 'relevance'
   searchQuery?: string
+  eventId?: string
 }): Promise<PaginatedAuctions> {
   const {
     page = 1,
@@ -147,6 +199,7 @@ export async function getActiveAuctions(options: {
     country,
     sortBy = 'ending_soon',
     searchQuery,
+    eventId,
   } = options
 
   // If searching, use raw SQL for full-text search with ranking
@@ -160,6 +213,7 @@ export async function getActiveAuctions(options: {
       country,
       sortBy: sortBy === 'relevance' ? 'relevance' : sortBy,
       searchQuery: searchQuery.trim(),
+      eventId,
     })
   }
 
@@ -169,6 +223,8 @@ export async function getActiveAuctions(options: {
     currentEndTime: { gt: new Date() },
   }
 
+  if (eventId) {where.eventId = eventId}
+
   // Build listing filters
   const listingWhere: Record<string, unknown> = {}
   if (category) {listingWhere.category = category}
@@ -236,6 +292,7 @@ export async function getActiveAuctions(options: {
     currentBid: a.currentBid ? Number(a.currentBid) : null,
     bidCount: a.bidCount,
     reserveMet: a.reserveMet,
+    lotNumber: a.lotNumber,
     listing: {
       id: a.listing.id,
       title: a.listing.title,
@@ -279,6 +336,7 @@ async function getActiveAuctionsWithSearch(options: {
   country?: string
   sortBy: 'ending_soon' | 'newly_listed' | 'price_low' | 'price_high' | 'most_bids' | 'relevance'
   searchQuery: string
+  eventId?: string
 }): Promise<PaginatedAuctions> {
   const {
     page,
@@ -289,6 +347,7 @@ async function getActiveAuctionsWithSearch(options: {
     country,
     sortBy,
     searchQuery,
+    eventId,
   } = options
 
   // Sanitize search query and convert to tsquery format
@@ -302,7 +361,7 @@ async function getActiveAuctionsWithSearch(options: {
 
   if (!sanitized) {
     // If search query becomes empty after sanitization, return regular results
-    return getActiveAuctions({ page, limit, category, minPrice, maxPrice, country, sortBy })
+    return getActiveAuctions({ page, limit, category, minPrice, maxPrice, country, sortBy, eventId })
   }
 
   // Build WHERE clauses for filters
@@ -334,6 +393,12 @@ async function getActiveAuctionsWithSearch(options: {
     paramIndex++
   }
 
+  if (eventId) {
+    filterConditions.push(`a.event_id = $${paramIndex}`)
+    filterParams.push(eventId)
+    paramIndex++
+  }
+
   // Add search condition
   filterConditions.push(`l.search_vector @@ to_tsquery('english', $${paramIndex})`)
   filterParams.push(sanitized)
@@ -401,6 +466,7 @@ async function getActiveAuctionsWithSearch(options: {
       a.bid_count,
       a.next_bidder_number,
       a.status,
+      a.lot_number,
       a.winner_id,
       a.winning_bid_id,
       a.final_price,
@@ -463,6 +529,7 @@ async function getActiveAuctionsWithSearch(options: {
     current_bid: number | null
     bid_count: number
     reserve_met: boolean
+    lot_number: number | null
     title: string
     year: number
     make: string
@@ -481,6 +548,7 @@ async function getActiveAuctionsWithSearch(options: {
     currentBid: a.current_bid,
     bidCount: a.bid_count,
     reserveMet: a.reserve_met,
+    lotNumber: a.lot_number,
     listing: {
       id: a.listing_id,
       title: a.title,
@@ -546,19 +614,44 @@ export async function getEndingSoonAuctions(limit: number = 6) {
 
 /**
  * Place a bid on an auction
+ *
+ * When `maxAmount` is given it is stored as the bidder's private maximum and the
+ * platform bids on their behalf up to it. Competing maximums respond within the
+ * same transaction, so `bids` can hold several bids; the last one is leading.
+ *
+ * Sealed-bid auctions take a single hidden bid per bidder instead; see placeSealedBid.
+ *
+ * The auction row is locked for the whole transaction, so concurrent bids on one
+ * auction are validated and applied one at a time.
  */
 export async function placeBid(
   auctionId: string,
   bidderId: string,
   amount: number,
-  metadata?: { ipAddress?: string | null; userAgent?: string | null }
-): Promise<{ bid: Bid; auction: Auction; extended: boolean }> {
+  metadata?: BidMetadata
+): Promise<{
+  bid: Bid
+  bids: Bid[]
+  auction: Auction
+  extended: boolean
+  cascadedLots: CascadedLot[]
+}> {
   // Use transaction for atomic operations
   return prisma.$transaction(async (tx) => {
-    // Get auction with lock
+    // Lock first: the price and bidder counter read below must not change until commit
+    await lockAuctionRow(tx, auctionId)
+
     const auction = await tx.auction.findUnique({
       where: { id: auctionId },
-      include: { listing: true },
+      include: {
+        listing: true,
+        bids: {
+          where: { isWinning: true, isValid: true },
+          take: 1,
+        },
+        maxBids: true,
+        event: { select: { lotIntervalMinutes: true } },
+      },
     })
 
     if (!auction) {
@@ -567,13 +660,17 @@ export async function placeBid(
 
     // Validate auction is active
     const now = new Date()
+    if (auctionStatusValidator.isPaused(auction.status)) {
+      throw new AuctionStateError('Bidding on this auction is paused', ERROR_CODES.AUCTION_PAUSED)
+    }
     if (!auctionStatusValidator.canPlaceBid(auction.status)) {
       throw new AuctionNotActiveError('Auction is not accepting bids')
     }
     if (now < auction.startTime) {
       throw new AuctionNotStartedError()
     }
-    if (now >= auction.currentEndTime) {
+    // A live finale closes on the auctioneer's hammer rather than the timer
+    if (auction.liveFinale ? auction.liveCall === 'SOLD' : now >= auction.currentEndTime) {
       throw new AuctionEndedError()
     }
 
@@ -582,80 +679,312 @@ export async function placeBid(
       throw new SelfBidError()
     }
 
-    // Validate bid amount
+    if (isSealedFormat(auction.format)) {
+      return placeSealedBid(tx, auction, bidderId, amount, metadata)
+    }
+
     const currentBid = auction.currentBid ? Number(auction.currentBid) : null
     const startingPrice = Number(auction.listing.startingPrice)
-    const validation = validateBidAmount(amount, currentBid, startingPrice)
+    const incrementTable = parseBidIncrementTable(auction.bidIncrementTable)
+    const maxAmount = metadata?.maxAmount ?? null
+
+    if (maxAmount !== null) {
+      const maxValidation = validateBidAmount(maxAmount, currentBid, startingPrice, incrementTable)
+      if (!maxValidation.valid || maxAmount < amount) {
+        throw new BidValidationError(
+          maxAmount < amount
+            ? 'Maximum bid must be at least your bid amount'
+            : maxValidation.error || 'Invalid maximum bid',
+          ERROR_CODES.BID_INVALID_MAXIMUM,
+          { minimumBid: maxValidation.minimumBid }
+        )
+      }
+    }
+
+    // The leading bidder raising their maximum does not move the price
+    if (maxAmount !== null && auction.bids[0]?.bidderId === bidderId) {
+      await reserveBidExposure(bidderId, auctionId, maxAmount, tx)
+      await tx.maxBid.upsert({
+        where: { auctionId_bidderId: { auctionId, bidderId } },
+        create: { auctionId, bidderId, maxAmount },
+        update: { maxAmount },
+      })
+
+      return { bid: auction.bids[0], bids: [], auction, extended: false, cascadedLots: [] }
+    }
+
+    // Validate bid amount
+    const validation = validateBidAmount(amount, currentBid, startingPrice, incrementTable)
 
     if (!validation.valid) {
       throw new BidTooLowError(validation.minimumBid, validation.error)
     }
 
-    // Check for anti-sniping extension
+    // A bidder on an account-level limit commits up to their maximum, standing or new
+    const standingMaximum = auction.maxBids.find((m) => m.bidderId === bidderId)
+    await reserveBidExposure(
+      bidderId,
+      auctionId,
+      maxAmount ?? Math.max(amount, standingMaximum ? Number(standingMaximum.maxAmount) : 0),
+      tx
+    )
+
+    // Store the bidder's maximum before resolving competing proxies
+    const maximums = auction.maxBids
+      .filter((m) => m.bidderId !== bidderId)
+      .map((m) => ({ bidderId: m.bidderId, maxAmount: Number(m.maxAmount), setAt: m.updatedAt }))
+
+    if (maxAmount !== null) {
+      const ownMaximum = await tx.maxBid.upsert({
+        where: { auctionId_bidderId: { auctionId, bidderId } },
+        create: { auctionId, bidderId, maxAmount },
+        update: { maxAmount },
+      })
+      maximums.push({ bidderId, maxAmount, setAt: ownMaximum.updatedAt })
+    } else if (standingMaximum) {
+      maximums.push({
+        bidderId,
+        maxAmount: Number(standingMaximum.maxAmount),
+        setAt: standingMaximum.updatedAt,
+      })
+    }
+
+    const steps = resolveProxyBids({
+      bid: { bidderId, amount, placedAt: now },
+      startingPrice,
+      maximums,
+      incrementTable,
+    })
+    const finalAmount = steps[steps.length - 1].amount
+
+    // Check for anti-sniping extension (once per bidding round, proxy bids included)
     let extended = false
     let newEndTime = auction.currentEndTime
 
-    if (auction.antiSnipingEnabled && shouldExtendAuction(now, auction.currentEndTime, auction.extensionCount)) {
+    if (
+      !auction.liveFinale &&
+      auction.antiSnipingEnabled &&
+      shouldExtendAuction(now, auction.currentEndTime, auction.extensionCount)
+    ) {
       newEndTime = calculateExtendedEndTime(auction.currentEndTime)
       extended = true
     }
 
     // Check if reserve is met
     const reservePrice = auction.listing.reservePrice ? Number(auction.listing.reservePrice) : null
-    const reserveMet = isReserveMet(amount, reservePrice)
+    const reserveMet = isReserveMet(finalAmount, reservePrice)
 
-    // Get or assign bidder number for anonymity
-    const { bidderNumber, bidderCountry } = await getOrAssignBidderNumber(
-      auctionId,
-      bidderId,
-      tx
-    )
+    // Create bids in order; only the last one is leading
+    const bids: Bid[] = []
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index]
+      const isLast = index === steps.length - 1
 
-    // Create bid
-    const bid = await tx.bid.create({
-      data: {
+      // Get or assign bidder number for anonymity
+      const { bidderNumber, bidderCountry } = await getOrAssignBidderNumber(
         auctionId,
-        bidderId,
-        amount,
-        bidderNumber,
-        bidderCountry,
-        isWinning: true,
-        triggeredExtension: extended,
-        ipAddress: metadata?.ipAddress,
-        userAgent: metadata?.userAgent,
-      },
-    })
+        step.bidderId,
+        tx
+      )
+
+      const placed = await tx.bid.create({
+        data: {
+          auctionId,
+          bidderId: step.bidderId,
+          amount: step.amount,
+          bidderNumber,
+          bidderCountry,
+          isWinning: isLast,
+          isProxy: step.isProxy,
+          triggeredExtension: extended && isLast,
+          ipAddress: step.isProxy ? null : metadata?.ipAddress,
+          userAgent: step.isProxy ? null : metadata?.userAgent,
+          ...(!step.isProxy && metadata?.channel && {
+            channel: metadata.channel,
+            placedById: metadata.placedById,
+            channelReason: metadata.channelReason,
+          }),
+        },
+      })
+      bids.push(placed)
+    }
+
+    const winningBid = bids[bids.length - 1]
 
     // Update previous winning bid
     await tx.bid.updateMany({
       where: {
         auctionId,
         isWinning: true,
-        id: { not: bid.id },
+        id: { not: winningBid.id },
       },
       data: { isWinning: false },
     })
 
+    // Outbid bidders get their limit back
+    await releaseOutbidExposures(auctionId, winningBid.bidderId, tx)
+
     // Update auction
     const updatedAuction = await tx.auction.update({
       where: { id: auctionId },
       data: {
-        currentBid: amount,
-        bidCount: { increment: 1 },
+        currentBid: finalAmount,
+        bidCount: { increment: bids.length },
         reserveMet,
         currentEndTime: newEndTime,
         extensionCount: extended ? { increment: 1 } : undefined,
+        // A new bid restarts the auctioneer's calls
+        liveCall: auction.liveFinale ? null : undefined,
       },
     })
 
-    return { bid, auction: updatedAuction, extended }
+    // In a catalogue sale the lots after this one move back to keep their stagger
+    const cascadedLots: CascadedLot[] = []
+    if (extended && auction.event && auction.lotNumber !== null) {
+      const laterLots = await tx.auction.findMany({
+        where: {
+          eventId: auction.eventId,
+          lotNumber: { gt: auction.lotNumber },
+          status: { in: ['SCHEDULED', 'ACTIVE', 'PAUSED'] },
+        },
+        orderBy: { lotNumber: 'asc' },
+        select: { id: true, currentEndTime: true, extensionCount: true },
+      })
+
+      for (const lot of cascadeLotEndTimes(newEndTime, laterLots, auction.event.lotIntervalMinutes)) {
+        await tx.auction.update({
+          where: { id: lot.id },
+          data: { currentEndTime: lot.newEndTime },
+        })
+        cascadedLots.push({
+          id: lot.id,
+          currentEndTime: lot.newEndTime,
+          extensionCount: lot.extensionCount,
+        })
+      }
+    }
+
+    return { bid: bids[0], bids, auction: updatedAuction, extended, cascadedLots }
+  }, {
+    maxWait: AUCTION_CONFIG.bidTransactionMaxWaitMs,
+    timeout: AUCTION_CONFIG.bidTransactionTimeoutMs,
   })
 }
 
 /**
- * Get bid history for an auction
+ * Place or revise a sealed bid.
+ *
+ * Bids stay hidden until close, so the price, reserve flag and end time never
+ * move here. A bidder's earlier bid is invalidated and replaced by the new one;
+ * `bidCount` counts bidders rather than revisions.
+ */
+async function placeSealedBid(
+  tx: Prisma.TransactionClient,
+  auction: Auction & { listing: Listing },
+  bidderId: string,
+  amount: number,
+  metadata?: BidMetadata
+) {
+  if ((metadata?.maxAmount ?? null) !== null) {
+    throw new BidValidationError(
+      'Sealed-bid auctions do not take a maximum bid',
+      ERROR_CODES.SEALED_BID_NO_MAXIMUM
+    )
+  }
+
+  // Any amount from the starting price up is accepted; there is no running price to beat
+  const validation = validateBidAmount(
+    amount,
+    null,
+    Number(auction.listing.startingPrice),
+    parseBidIncrementTable(auction.bidIncrementTable)
+  )
+
+  if (!validation.valid) {
+    throw new BidTooLowError(validation.minimumBid, validation.error)
+  }
+
+  // Nobody is outbid before close, so every sealed bid holds its limit until then
+  await reserveBidExposure(bidderId, auction.id, amount, tx)
+
+  const revised = await tx.bid.updateMany({
+    where: { auctionId: auction.id, bidderId, isValid: true },
+    data: { isValid: false, invalidatedReason: 'Revised by bidder' },
+  })
+
+  const { bidderNumber, bidderCountry } = await getOrAssignBidderNumber(auction.id, bidderId, tx)
+
+  const bid = await tx.bid.create({
+    data: {
+      auctionId: auction.id,
+      bidderId,
+      amount,
+      bidderNumber,
+      bidderCountry,
+      isWinning: false,
+      ipAddress: metadata?.ipAddress,
+      userAgent: metadata?.userAgent,
+      ...(metadata?.channel && {
+        channel: metadata.channel,
+        placedById: metadata.placedById,
+        channelReason: metadata.channelReason,
+      }),
+    },
+  })
+
+  const updatedAuction = revised.count > 0
+    ? auction
+    : await tx.auction.update({
+        where: { id: auction.id },
+        data: { bidCount: { increment: 1 } },
+      })
+
+  return { bid, bids: [bid], auction: updatedAuction, extended: false, cascadedLots: [] }
+}
+
+/**
+ * Get a bidder's own sealed bid for an auction (only ever shown to that bidder)
+ */
+export async function getSealedBid(auctionId: string, bidderId: string): Promise<number | null> {
+  const bid = await prisma.bid.findFirst({
+    where: { auctionId, bidderId, isValid: true, auction: { format: { not: 'OPEN' } } },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  return bid ? Number(bid.amount) : null
+}
+
+/**
+ * Get a bidder's private maximum for an auction (only ever shown to that bidder)
+ */
+export async function getMaxBid(auctionId: string, bidderId: string): Promise<number | null> {
+  const maxBid = await prisma.maxBid.findUnique({
+    where: { auctionId_bidderId: { auctionId, bidderId } },
+  })
+
+  return maxBid ? Number(maxBid.maxAmount) : null
+}
+
+/**
+ * Check if an auction's bids must stay hidden (sealed and not yet settled)
+ */
+export function areBidsHidden(auction: Pick<Auction, 'format' | 'status'>): boolean {
+  return isSealedFormat(auction.format) && !auctionStatusValidator.isTerminal(auction.status)
+}
+
+/**
+ * Get bid history for an auction. Sealed bids stay hidden until the auction closes.
  */
 export async function getBidHistory(auctionId: string, limit: number = 50) {
+  const auction = await prisma.auction.findUnique({
+    where: { id: auctionId },
+    select: { format: true, status: true },
+  })
+
+  if (auction && areBidsHidden(auction)) {
+    return []
+  }
+
   return prisma.bid.findMany({
     where: { auctionId },
     orderBy: { createdAt: 'desc' },
@@ -705,6 +1034,68 @@ export async function getUserBids(userId: string, options?: { page?: number; lim
   }
 }
 
+/**
+ * Recalculate an auction from its remaining valid bids after one was invalidated.
+ * Callers that change bids first should lock the auction row before doing so.
+ *
+ * The highest valid bid (earliest on a tie) leads again and `currentBid`,
+ * `reserveMet` and `bidCount` follow from it. Sealed auctions keep their price
+ * hidden and only recount bidders.
+ */
+export async function recalculateAuctionBids(
+  auctionId: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<Auction> {
+  await lockAuctionRow(tx, auctionId)
+
+  const auction = await tx.auction.findUnique({
+    where: { id: auctionId },
+    include: { listing: { select: { reservePrice: true } } },
+  })
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+  }
+
+  const validBids = await tx.bid.findMany({
+    where: { auctionId, isValid: true },
+    orderBy: [{ amount: 'desc' }, { createdAt: 'asc' }],
+    select: { id: true, bidderId: true, amount: true },
+  })
+
+  if (isSealedFormat(auction.format)) {
+    return tx.auction.update({
+      where: { id: auctionId },
+      data: { bidCount: new Set(validBids.map((b) => b.bidderId)).size },
+    })
+  }
+
+  const leadingBid = validBids[0]
+  const currentBid = leadingBid ? Number(leadingBid.amount) : null
+  const reservePrice = auction.listing.reservePrice ? Number(auction.listing.reservePrice) : null
+
+  await tx.bid.updateMany({
+    where: { auctionId, isWinning: true, ...(leadingBid && { id: { not: leadingBid.id } }) },
+    data: { isWinning: false },
+  })
+
+  if (leadingBid) {
+    await tx.bid.update({
+      where: { id: leadingBid.id },
+      data: { isWinning: true },
+    })
+  }
+
+  return tx.auction.update({
+    where: { id: auctionId },
+    data: {
+      currentBid,
+      reserveMet: currentBid !== null && isReserveMet(currentBid, reservePrice),
+      bidCount: validBids.length,
+    },
+  })
+}
+
 /**
  * End an auction (called by cron job or manually)
  */
@@ -729,21 +1120,54 @@ export async function endAuction(auctionId: string): Promise<Auction> {
     throw new Error('Auction cannot be ended in current status')
   }
 
-  // Determine result
-  const currentBid = auction.currentBid ? Number(auction.currentBid) : null
   const reservePrice = auction.listing.reservePrice ? Number(auction.listing.reservePrice) : null
-  const result = determineAuctionResult(currentBid, reservePrice)
+  let highBid = auction.currentBid ? Number(auction.currentBid) : null
+  let hammerPrice = highBid
+  let winningBid: Bid | undefined = auction.bids[0]
+
+  // Sealed bids are only ranked now; second-price may charge less than the high bid
+  const sealed = isSealedFormat(auction.format)
+  if (sealed) {
+    const sealedBids = await prisma.bid.findMany({
+      where: { auctionId, isValid: true },
+    })
+    const resolved = resolveSealedBids(
+      sealedBids.map((bid) => ({ bid, amount: Number(bid.amount), placedAt: bid.createdAt })),
+      { format: auction.format, startingPrice: Number(auction.listing.startingPrice), reservePrice }
+    )
+    winningBid = resolved?.winner.bid
+    highBid = resolved ? resolved.winner.amount : null
+    hammerPrice = resolved ? resolved.price : null
+  }
 
-  const winningBid = auction.bids[0]
-  const buyerFee = result === 'SOLD' && currentBid ? calculateBuyerFee(currentBid) : null
+  // Determine result
+  const result = determineAuctionResult(highBid, reservePrice)
+  const currentBid = result === 'SOLD' ? hammerPrice : highBid
+  const buyerFee = result === 'SOLD' && currentBid ? calculateBuyerFee(currentBid, parseFeeTerms(auction.feeTerms)) : null
 
   // Calculate payment deadline if sold
   const paymentDeadline = result === 'SOLD' ? calculatePaymentDeadline(auction.currentEndTime) : null
 
+  // Rate of the day for reporting the sale in EUR
+  const saleRate = result === 'SOLD' ? await snapshotSaleRate(auction.currency, auction.currentEndTime) : null
+
+  // Reserve not met with a high bid: seller and high bidder may negotiate
+  const negotiationEndsAt = result === 'NO_SALE' && winningBid
+    ? calculateNegotiationDeadline(auction.currentEndTime)
+    : null
+
+  if (sealed && winningBid) {
+    await prisma.bid.update({
+      where: { id: winningBid.id },
+      data: { isWinning: true },
+    })
+  }
+
   // Update auction
   const updatedAuction = await prisma.auction.update({
     where: { id: auctionId },
     data: {
+      ...(sealed && { currentBid, reserveMet: isReserveMet(highBid, reservePrice) }),
       status: result,
       winnerId: result === 'SOLD' ? winningBid?.bidderId : null,
       winningBidId: result === 'SOLD' ? winningBid?.id : null,
@@ -751,6 +1175,8 @@ export async function endAuction(auctionId: string): Promise<Auction> {
       buyerFeeAmount: buyerFee,
       paymentDeadline,
       paymentStatus: result === 'SOLD' ? 'UNPAID' : 'UNPAID',
+      negotiationEndsAt,
+      ...saleRate,
     },
   })
 
@@ -760,6 +1186,9 @@ export async function endAuction(auctionId: string): Promise<Auction> {
     data: { status: result === 'SOLD' ? 'SOLD' : 'EXPIRED' },
   })
 
+  // Bidding limits committed here are free for other auctions again
+  await releaseAuctionExposures(auctionId)
+
   // Notify watchers about auction ending (non-blocking)
   import('./notification.service')
     .then(({ notifyWatchersAuctionEnded, notifyAuctionWon, notifyAuctionLost }) => {
@@ -839,6 +1268,28 @@ export async function endAuction(auctionId: string): Promise<Auction> {
         logError(auctionLogger, 'Failed to notify seller of expired auction', error, { auctionId })
       })
 
+    // Invite seller and high bidder to the negotiation window (non-blocking)
+    if (negotiationEndsAt && winningBid && currentBid !== null) {
+      import('./notification.service')
+        .then(({ notifyNegotiationOpened }) =>
+          Promise.allSettled(
+            [auction.listing.sellerId, winningBid.bidderId].map((userId) =>
+              notifyNegotiationOpened(
+                userId,
+                auctionId,
+                auction.listing.title,
+                currentBid,
+                auction.currency,
+                negotiationEndsAt
+              )
+            )
+          )
+        )
+        .catch(error => {
+          logError(auctionLogger, 'Failed to notify negotiation parties', error, { auctionId })
+        })
+    }
+
     // Generate AI improvement suggestions (non-blocking, takes longer)
     // Then send follow-up notification when ready
     import('./ai/listing-improvement.service')
@@ -909,12 +1360,224 @@ export async function cancelAuction(auctionId: string, reason: string): Promise<
     data: { status: 'WITHDRAWN' },
   })
 
+  await releaseAuctionExposures(auctionId)
+
   // TODO: Log cancellation reason in audit log
   // TODO: Notify bidders about cancellation
 
   return updatedAuction
 }
 
+/**
+ * Pause a live auction (admin only)
+ * Bids are rejected and the end-auctions cron skips the auction until it is resumed
+ */
+export async function pauseAuction(auctionId: string, reason?: string): Promise<Auction> {
+  const auction = await prisma.auction.findUnique({
+    where: { id: auctionId },
+  })
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+  }
+
+  const now = new Date()
+  if (!auctionStatusValidator.canPause(auction.status) || now >= auction.currentEndTime) {
+    throw new AuctionNotActiveError('Only live auctions can be paused')
+  }
+
+  const updatedAuction = await prisma.auction.update({
+    where: { id: auctionId },
+    data: {
+      status: 'PAUSED',
+      pausedAt: now,
+      pauseReason: reason || null,
+      pausedFromStatus: auction.status,
+    },
+  })
+
+  auctionLogger.info({ auctionId, reason }, 'Auction paused')
+
+  // Broadcast pause to viewers (non-blocking)
+  import('./notification.service')
+    .then(({ broadcastAuctionPaused }) =>
+      broadcastAuctionPaused({
+        auctionId,
+        pausedAt: now.toISOString(),
+        reason: reason || null,
+      })
+    )
+    .catch(error => {
+      logError(auctionLogger, 'Failed to broadcast auction pause', error, { auctionId })
+    })
+
+  return updatedAuction
+}
+
+/**
+ * Resume a paused auction (admin only), restoring the status it was paused from
+ * The end time is shifted by the paused duration, optionally guaranteeing a minimum remaining time
+ */
+export async function resumeAuction(
+  auctionId: string,
+  options: { minimumRemainingMinutes?: number } = {}
+): Promise<Auction> {
+  const auction = await prisma.auction.findUnique({
+    where: { id: auctionId },
+  })
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+  }
+
+  if (!auctionStatusValidator.canResume(auction.status)) {
+    throw new AuctionStateError('Auction is not paused', ERROR_CODES.AUCTION_NOT_PAUSED)
+  }
+
+  const now = new Date()
+  const pausedAt = auction.pausedAt ?? now
+  const newEndTime = calculateResumedEndTime(
+    auction.currentEndTime,
+    pausedAt,
+    now,
+    options.minimumRemainingMinutes
+  )
+  const pausedDurationMs = now.getTime() - pausedAt.getTime()
+
+  const updatedAuction = await prisma.auction.update({
+    where: { id: auctionId },
+    data: {
+      // An extended auction stays extended
+      status: auction.pausedFromStatus ?? 'ACTIVE',
+      currentEndTime: newEndTime,
+      pausedAt: null,
+      pauseReason: null,
+      pausedFromStatus: null,
+    },
+  })
+
+  auctionLogger.info(
+    { auctionId, pausedDurationMs, newEndTime: newEndTime.toISOString() },
+    'Auction resumed'
+  )
+
+  // Broadcast the new end time so client countdowns resync (non-blocking)
+  import('./notification.service')
+    .then(({ broadcastAuctionResumed }) =>
+      broadcastAuctionResumed({
+        auctionId,
+        status: updatedAuction.status === 'EXTENDED' ? 'EXTENDED' : 'ACTIVE',
+        newEndTime: newEndTime.toISOString(),
+        pausedDurationMs,
+      })
+    )
+    .catch(error => {
+      logError(auctionLogger, 'Failed to broadcast auction resume', error, { auctionId })
+    })
+
+  return updatedAuction
+}
+
+/**
+ * Lower the reserve of a live auction (seller only).
+ * The reserve can never be raised; reserveMet is recomputed against the current bid.
+ */
+export async function lowerReserve(
+  auctionId: string,
+  sellerId: string,
+  newReserve: number
+): Promise<Auction> {
+  // placeBid and endAuction read the listing's reserve, so keep both in sync
+  const { auction, previousReserve, currentBid, reserveMet, updatedAuction } =
+    await prisma.$transaction(async (tx) => {
+      // Lock first: a bid committing between the read and the update would
+      // leave reserveMet computed against a stale current bid
+      await lockAuctionRow(tx, auctionId)
+
+      const auction = await tx.auction.findUnique({
+        where: { id: auctionId },
+        include: { listing: true },
+      })
+
+      if (!auction) {
+        throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+      }
+
+      if (auction.listing.sellerId !== sellerId) {
+        throw new ForbiddenError('Only the seller can change the reserve')
+      }
+
+      if (!auctionStatusValidator.isActive(auction.status)) {
+        throw new AuctionNotActiveError('The reserve can only be changed while the auction is live')
+      }
+
+      const previousReserve = auction.listing.reservePrice
+        ? Number(auction.listing.reservePrice)
+        : null
+      if (previousReserve === null || newReserve >= previousReserve) {
+        throw new ValidationError(
+          'The new reserve must be lower than the current reserve',
+          ERROR_CODES.RESERVE_NOT_LOWER,
+          { previousReserve }
+        )
+      }
+
+      const currentBid = auction.currentBid ? Number(auction.currentBid) : null
+      const reserveMet = isReserveMet(currentBid, newReserve)
+
+      await tx.listing.update({
+        where: { id: auction.listingId },
+        data: { reservePrice: newReserve },
+      })
+
+      await tx.reserveChange.create({
+        data: {
+          auctionId,
+          changedById: sellerId,
+          previousReserve,
+          newReserve,
+          currentBid,
+          reserveMet,
+        },
+      })
+
+      const updatedAuction = await tx.auction.update({
+        where: { id: auctionId },
+        data: { reservePrice: newReserve, reserveMet },
+      })
+
+      return { auction, previousReserve, currentBid, reserveMet, updatedAuction }
+    })
+
+  await new AuctionAuditLogger({ actorId: sellerId }).logReserveLowered(
+    auctionId,
+    sellerId,
+    previousReserve,
+    newReserve,
+    reserveMet
+  )
+
+  auctionLogger.info({ auctionId, previousReserve, newReserve, reserveMet }, 'Reserve lowered')
+
+  // Broadcast and notify (non-blocking)
+  import('./notification.service')
+    .then(({ broadcastReserveMet, notifyReserveLowered }) => {
+      const broadcastPromise = reserveMet && !auction.reserveMet && currentBid !== null
+        ? broadcastReserveMet({ auctionId, currentBid })
+        : Promise.resolve()
+
+      return Promise.allSettled([
+        broadcastPromise,
+        notifyReserveLowered(auctionId, auction.listing.title, reserveMet),
+      ])
+    })
+    .catch(error => {
+      logError(auctionLogger, 'Failed to send reserve change notifications', error, { auctionId })
+    })
+
+  return updatedAuction
+}
+
 /**
  * Check and activate scheduled auctions (called by cron)
  * Returns count of activated auctions
@@ -941,6 +1604,9 @@ export async function activateScheduledAuctions(): Promise<number> {
     },
   })
 
+  // Lots in a sale all open together, so the sale goes live with them
+  await syncAuctionEventStatuses()
+
   if (scheduledAuctions.length === 0) {
     return 0
   }
@@ -1009,14 +1675,19 @@ export async function activateScheduledAuctions(): Promise<number> {
 export async function endExpiredAuctions(): Promise<number> {
   const now = new Date()
 
-  // Find expired active auctions
-  const expiredAuctions = await prisma.auction.findMany({
-    where: {
-      status: 'ACTIVE',
-      currentEndTime: { lte: now },
-    },
-    select: { id: true },
-  })
+  // Find expired active auctions (PAUSED auctions are skipped until resumed,
+  // live finales until the auctioneer calls sold). Lots in a sale close in lot order.
+  const expiredAuctions = await excludeBlockedLots(
+    await prisma.auction.findMany({
+      where: {
+        status: 'ACTIVE',
+        liveFinale: false,
+        currentEndTime: { lte: now },
+      },
+      orderBy: [{ currentEndTime: 'asc' }, { lotNumber: 'asc' }],
+      select: { id: true, eventId: true, lotNumber: true },
+    })
+  )
 
   // End each auction
   for (const auction of expiredAuctions) {
@@ -1033,5 +1704,7 @@ export async function endExpiredAuctions(): Promise<number> {
     }
   }
 
+  await syncAuctionEventStatuses()
+
   return expiredAuctions.length
 }
@@ -242,10 +242,22 @@ export const AUDIT_ACTIONS = {
   AUCTION_ENDED: 'AUCTION_ENDED',
   AUCTION_CANCELLED: 'AUCTION_CANCELLED',
   AUCTION_SOLD: 'AUCTION_SOLD',
+  AUCTION_PAUSED: 'AUCTION_PAUSED',
+  AUCTION_RESUMED: 'AUCTION_RESUMED',
+  AUCTION_INCREMENTS_CHANGED: 'AUCTION_INCREMENTS_CHANGED',
+  AUCTION_LIVE_FINALE_CHANGED: 'AUCTION_LIVE_FINALE_CHANGED',
+  AUCTION_FORMAT_CHANGED: 'AUCTION_FORMAT_CHANGED',
+  AUCTIONEER_CALL: 'AUCTIONEER_CALL',
+  AUCTION_EVENT_CREATED: 'AUCTION_EVENT_CREATED',
+  SECOND_CHANCE_OFFERED: 'SECOND_CHANCE_OFFERED',
 
   // Bid actions
   BID_PLACED: 'BID_PLACED',
+  BID_PLACED_BY_STAFF: 'BID_PLACED_BY_STAFF',
   BID_INVALIDATED: 'BID_INVALIDATED',
+  BID_RETRACTION_REQUESTED: 'BID_RETRACTION_REQUESTED',
+  BID_RETRACTION_APPROVED: 'BID_RETRACTION_APPROVED',
+  BID_RETRACTION_REJECTED: 'BID_RETRACTION_REJECTED',
 
   // Payment actions
   DEPOSIT_CREATED: 'DEPOSIT_CREATED',
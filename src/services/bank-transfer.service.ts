@@ -0,0 +1,592 @@
+// Bank Transfer Service - SEPA transfers of the buyer payment, reconciled from bank statements
+import {
+  PrismaClient,
+  Prisma,
+  BankStatement,
+  BankStatementFormat,
+  BankStatementLine,
+  BankTransfer,
+} from '@prisma/client'
+import { INVOICE_CONFIG } from '@/config/invoice.config'
+import { calculateBuyerFee, parseFeeTerms } from '@/domain/auction/rules'
+import {
+  calculateTransferExpiry,
+  createRfReference,
+  findRfReferences,
+} from '@/domain/payment/rules'
+import { parseBankStatement, StatementLine } from '@/lib/bank-statement'
+import { PaymentAuditLogger } from '@/lib/audit'
+import { NotFoundError, ForbiddenError, ValidationError, ConflictError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { ISellerPayoutService } from './contracts/payment.interface'
+import { PromoCodeService } from './promo-code.service'
+
+export type BankTransferInstructions = {
+  id: string
+  reference: string
+  amount: number
+  currency: string
+  beneficiary: string
+  iban: string
+  bic: string | null
+  status: BankTransfer['status']
+  expiresAt: Date
+}
+
+export type StatementImportResult = {
+  statementId: string
+  format: BankStatementFormat
+  lineCount: number
+  duplicateCount: number
+  matchedCount: number
+  unmatchedCount: number
+}
+
+export type StatementLineReview =
+  | { action: 'match'; reference: string; note?: string }
+  | { action: 'ignore'; note: string }
+
+export type ReviewQueueLine = BankStatementLine & {
+  statement: Pick<BankStatement, 'id' | 'filename'>
+}
+
+export type AwaitingTransfer = BankTransfer & {
+  auction: { id: string; listing: { title: string } }
+  user: { id: string; name: string | null; email: string }
+}
+
+export type StatementSummary = BankStatement & {
+  uploadedBy: { id: string; name: string | null; email: string }
+}
+
+type SettlementTarget = Pick<BankTransfer, 'id' | 'auctionId' | 'amount' | 'currency'>
+
+// Auction payment states a transfer can settle
+const SETTLEABLE_PAYMENT_STATUSES = ['UNPAID', 'PENDING'] as const
+
+function toInstructions(transfer: BankTransfer): BankTransferInstructions {
+  return {
+    id: transfer.id,
+    reference: transfer.reference,
+    amount: Number(transfer.amount),
+    currency: transfer.currency,
+    beneficiary: INVOICE_CONFIG.issuer.name,
+    iban: INVOICE_CONFIG.issuer.iban,
+    bic: INVOICE_CONFIG.issuer.bic || null,
+    status: transfer.status,
+    expiresAt: transfer.expiresAt,
+  }
+}
+
+function normalizeReference(reference: string): string {
+  return reference.replace(/\s+/g, '').toUpperCase()
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
+
+export class BankTransferService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly payouts: ISellerPayoutService,
+    private readonly promoCodes: PromoCodeService = new PromoCodeService(prisma)
+  ) {}
+
+  /**
+   * Let the winner pay by bank transfer: reserve a payment reference for the
+   * full amount and hold the auction in PENDING until the money shows up on
+   * a statement. Asking again returns the same instructions.
+   */
+  async requestBankTransfer(
+    auctionId: string,
+    userId: string,
+    promoCode?: string
+  ): Promise<BankTransferInstructions> {
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      include: {
+        escrow: { select: { id: true } },
+        bankTransfer: true,
+      },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    if (auction.winnerId !== userId) {
+      throw new ForbiddenError('Only the winning bidder can pay for this car')
+    }
+
+    const existing = auction.bankTransfer
+    if (existing?.status === 'AWAITING' && existing.userId === userId) {
+      return toInstructions(existing)
+    }
+
+    if (auction.paymentStatus === 'PAID') {
+      throw new ConflictError('Buyer fee already paid', ERROR_CODES.PAYMENT_ALREADY_PROCESSED)
+    }
+
+    if (auction.escrow) {
+      throw new ValidationError(
+        'This purchase is paid through escrow',
+        ERROR_CODES.BANK_TRANSFER_NOT_ALLOWED
+      )
+    }
+
+    if (auction.status !== 'SOLD' || !auction.finalPrice || !auction.paymentDeadline) {
+      throw new ValidationError('Auction is not awaiting payment', ERROR_CODES.BANK_TRANSFER_NOT_ALLOWED)
+    }
+
+    if (new Date() > auction.paymentDeadline) {
+      throw new ValidationError('Payment deadline has passed', ERROR_CODES.BANK_TRANSFER_NOT_ALLOWED)
+    }
+
+    if (!INVOICE_CONFIG.issuer.iban) {
+      throw new ValidationError(
+        'Bank transfers are not available',
+        ERROR_CODES.BANK_TRANSFER_NOT_ALLOWED
+      )
+    }
+
+    // Same amount a card charge would take: hammer price plus the buyer fee
+    // snapshot, less any promo code
+    const finalPrice = Number(auction.finalPrice)
+    const fullFee = auction.buyerFeeAmount !== null
+      ? Number(auction.buyerFeeAmount)
+      : calculateBuyerFee(finalPrice, parseFeeTerms(auction.feeTerms))
+
+    if (promoCode) {
+      await this.promoCodes.redeem(promoCode, userId, auctionId)
+    }
+    const { buyerFee } = await this.promoCodes.applyToBuyerFee(auctionId, userId, fullFee)
+    const amount = Math.round((finalPrice + buyerFee) * 100) / 100
+
+    const data = {
+      userId,
+      reference: createRfReference(),
+      amount,
+      currency: auction.currency,
+      status: 'AWAITING' as const,
+      expiresAt: calculateTransferExpiry(auction.paymentDeadline),
+      matchedAt: null,
+    }
+
+    // An expired transfer (or a previous winner's) is replaced; a late payment
+    // against the old reference lands in the review queue
+    const transfer = await this.prisma.$transaction(async (tx) => {
+      const saved = await tx.bankTransfer.upsert({
+        where: { auctionId },
+        create: { auctionId, ...data },
+        update: data,
+      })
+
+      await tx.auction.update({
+        where: { id: auctionId },
+        data: { paymentStatus: 'PENDING' },
+      })
+
+      return saved
+    })
+
+    paymentLogger.info(
+      { auctionId, userId, reference: transfer.reference, amount },
+      'Bank transfer requested'
+    )
+
+    return toInstructions(transfer)
+  }
+
+  /**
+   * The winner's open or settled transfer for an auction
+   */
+  async getTransfer(auctionId: string, userId: string): Promise<BankTransferInstructions | null> {
+    const transfer = await this.prisma.bankTransfer.findUnique({ where: { auctionId } })
+    if (!transfer || transfer.userId !== userId) {
+      return null
+    }
+    return toInstructions(transfer)
+  }
+
+  /**
+   * Store a bank statement and settle every transfer it pays. A credit is
+   * matched when it quotes an awaiting reference and has exactly the amount
+   * due; everything else waits in the review queue. Lines already imported
+   * from an overlapping statement are skipped, including ones another import
+   * running at the same time stores first.
+   */
+  async importStatement(
+    content: string,
+    filename: string,
+    adminId: string
+  ): Promise<StatementImportResult> {
+    const { format, lines: parsed } = parseBankStatement(content)
+
+    const unique = Array.from(new Map(parsed.map((line) => [line.fingerprint, line])).values())
+    const known = unique.length
+      ? await this.prisma.bankStatementLine.findMany({
+          where: { fingerprint: { in: unique.map((line) => line.fingerprint) } },
+          select: { fingerprint: true },
+        })
+      : []
+    const knownFingerprints = new Set(known.map((line) => line.fingerprint))
+    const lines = unique.filter((line) => !knownFingerprints.has(line.fingerprint))
+
+    const references = Array.from(
+      new Set(lines.flatMap((line) => findRfReferences(line.remittanceInfo ?? '')))
+    )
+    const transfers = references.length
+      ? await this.prisma.bankTransfer.findMany({ where: { reference: { in: references } } })
+      : []
+    const byReference = new Map(transfers.map((transfer) => [transfer.reference, transfer]))
+
+    const statement = await this.prisma.bankStatement.create({
+      data: {
+        filename,
+        format,
+        uploadedById: adminId,
+        lineCount: lines.length,
+        matchedCount: 0,
+      },
+    })
+
+    const settled: Array<{ transfer: BankTransfer; lineId: string }> = []
+    let racedCount = 0
+
+    for (const line of lines) {
+      const candidates = findRfReferences(line.remittanceInfo ?? '')
+        .map((reference) => byReference.get(reference))
+        .filter((transfer): transfer is BankTransfer => transfer !== undefined)
+
+      let note = this.checkMatch(line, candidates)
+      const transfer = candidates[0]
+
+      if (!note) {
+        try {
+          const lineId = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.bankStatementLine.create({
+              data: { ...line, statementId: statement.id, status: 'MATCHED', bankTransferId: transfer.id },
+            })
+            await this.settle(tx, transfer, line.bookingDate)
+            return created.id
+          })
+          transfer.status = 'MATCHED'
+          settled.push({ transfer, lineId })
+          continue
+        } catch (error) {
+          // The settlement rolled back with the line
+          if (isUniqueViolation(error)) {
+            racedCount++
+            continue
+          }
+          if (!(error instanceof ConflictError)) {
+            throw error
+          }
+          note = error.message
+        }
+      }
+
+      try {
+        await this.prisma.bankStatementLine.create({
+          data: { ...line, statementId: statement.id, status: 'UNMATCHED', matchNote: note },
+        })
+      } catch (error) {
+        if (!isUniqueViolation(error)) {
+          throw error
+        }
+        racedCount++
+      }
+    }
+
+    const importedCount = lines.length - racedCount
+
+    if (settled.length > 0 || racedCount > 0) {
+      await this.prisma.bankStatement.update({
+        where: { id: statement.id },
+        data: { lineCount: importedCount, matchedCount: settled.length },
+      })
+    }
+
+    const audit = new PaymentAuditLogger({ actorId: adminId })
+    for (const { transfer, lineId } of settled) {
+      await audit.logBankTransferMatched(
+        transfer.auctionId,
+        transfer.id,
+        lineId,
+        Number(transfer.amount),
+        transfer.currency,
+        false
+      )
+      await this.afterPayment(transfer.auctionId)
+    }
+
+    paymentLogger.info(
+      { statementId: statement.id, lines: importedCount, matched: settled.length },
+      'Bank statement imported'
+    )
+
+    return {
+      statementId: statement.id,
+      format,
+      lineCount: importedCount,
+      duplicateCount: parsed.length - importedCount,
+      matchedCount: settled.length,
+      unmatchedCount: importedCount - settled.length,
+    }
+  }
+
+  /**
+   * Settle an unmatched line by hand against a reference (short or late
+   * payments the admin accepts), or set it aside with a note (refunded,
+   * unrelated income).
+   */
+  async resolveLine(
+    lineId: string,
+    adminId: string,
+    review: StatementLineReview
+  ): Promise<BankStatementLine> {
+    const line = await this.prisma.bankStatementLine.findUnique({ where: { id: lineId } })
+
+    if (!line) {
+      throw new NotFoundError('Statement line not found', ERROR_CODES.STATEMENT_LINE_NOT_FOUND)
+    }
+
+    if (line.status !== 'UNMATCHED') {
+      throw new ConflictError(
+        'This statement line has already been reviewed',
+        ERROR_CODES.STATEMENT_LINE_RESOLVED
+      )
+    }
+
+    const reviewed = { reviewedById: adminId, reviewedAt: new Date() }
+
+    if (review.action === 'ignore') {
+      return this.prisma.bankStatementLine.update({
+        where: { id: lineId },
+        data: { status: 'IGNORED', matchNote: review.note, ...reviewed },
+      })
+    }
+
+    const transfer = await this.prisma.bankTransfer.findUnique({
+      where: { reference: normalizeReference(review.reference) },
+      include: { auction: { select: { status: true, winnerId: true } } },
+    })
+
+    if (!transfer) {
+      throw new NotFoundError('Bank transfer not found', ERROR_CODES.BANK_TRANSFER_NOT_FOUND)
+    }
+
+    if (transfer.status === 'MATCHED') {
+      throw new ConflictError(
+        'This transfer has already been paid',
+        ERROR_CODES.PAYMENT_ALREADY_PROCESSED
+      )
+    }
+
+    // An expired transfer may still be accepted while its buyer is the winner
+    if (transfer.auction.status !== 'SOLD' || transfer.auction.winnerId !== transfer.userId) {
+      throw new ValidationError(
+        'The auction is no longer awaiting this payment',
+        ERROR_CODES.BANK_TRANSFER_NOT_ALLOWED
+      )
+    }
+
+    const resolved = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.bankStatementLine.updateMany({
+        where: { id: lineId, status: 'UNMATCHED' },
+        data: {
+          status: 'RESOLVED',
+          bankTransferId: transfer.id,
+          matchNote: review.note ?? null,
+          ...reviewed,
+        },
+      })
+      if (count === 0) {
+        throw new ConflictError(
+          'This statement line has already been reviewed',
+          ERROR_CODES.STATEMENT_LINE_RESOLVED
+        )
+      }
+
+      await this.settle(tx, transfer, line.bookingDate, true)
+
+      return tx.bankStatementLine.findUniqueOrThrow({ where: { id: lineId } })
+    })
+
+    await new PaymentAuditLogger({ actorId: adminId }).logBankTransferMatched(
+      transfer.auctionId,
+      transfer.id,
+      lineId,
+      Number(line.amount),
+      line.currency,
+      true
+    )
+    await this.afterPayment(transfer.auctionId)
+
+    return resolved
+  }
+
+  /**
+   * Unmatched credits, oldest first
+   */
+  async listReviewQueue(): Promise<ReviewQueueLine[]> {
+    return this.prisma.bankStatementLine.findMany({
+      where: { status: 'UNMATCHED' },
+      include: { statement: { select: { id: true, filename: true } } },
+      orderBy: { bookingDate: 'asc' },
+    })
+  }
+
+  /**
+   * Transfers buyers have been told to make, soonest to expire first
+   */
+  async listAwaiting(): Promise<AwaitingTransfer[]> {
+    return this.prisma.bankTransfer.findMany({
+      where: { status: 'AWAITING' },
+      include: {
+        auction: { select: { id: true, listing: { select: { title: true } } } },
+        user: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { expiresAt: 'asc' },
+    })
+  }
+
+  async listStatements(limit = 20): Promise<StatementSummary[]> {
+    return this.prisma.bankStatement.findMany({
+      include: { uploadedBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+  }
+
+  /**
+   * Why a credit cannot be matched automatically, or null if it can
+   */
+  private checkMatch(line: StatementLine, candidates: BankTransfer[]): string | null {
+    if (candidates.length === 0) {
+      return findRfReferences(line.remittanceInfo ?? '').length > 0
+        ? 'Unknown payment reference'
+        : 'No payment reference'
+    }
+
+    if (candidates.length > 1) {
+      return `Several payment references: ${candidates.map((t) => t.reference).join(', ')}`
+    }
+
+    const [transfer] = candidates
+    if (transfer.status === 'MATCHED') {
+      return `${transfer.reference} has already been paid`
+    }
+    if (transfer.status === 'EXPIRED') {
+      return `${transfer.reference} expired on ${transfer.expiresAt.toISOString().slice(0, 10)}`
+    }
+    if (line.currency !== transfer.currency) {
+      return `Expected ${transfer.currency}, received ${line.currency}`
+    }
+
+    const due = Number(transfer.amount)
+    if (Math.abs(line.amount - due) >= 0.005) {
+      return `Expected ${due.toFixed(2)} ${transfer.currency}, received ${line.amount.toFixed(2)}`
+    }
+
+    return null
+  }
+
+  /**
+   * Mark the transfer matched and the auction paid. Throws ConflictError when
+   * either already moved on, so the caller's transaction rolls back.
+   */
+  private async settle(
+    tx: Prisma.TransactionClient,
+    transfer: SettlementTarget,
+    paidAt: Date,
+    allowExpired = false
+  ): Promise<void> {
+    const { count: transfers } = await tx.bankTransfer.updateMany({
+      where: {
+        id: transfer.id,
+        status: allowExpired ? { in: ['AWAITING', 'EXPIRED'] } : 'AWAITING',
+      },
+      data: { status: 'MATCHED', matchedAt: new Date() },
+    })
+    if (transfers === 0) {
+      throw new ConflictError('Transfer already settled', ERROR_CODES.PAYMENT_ALREADY_PROCESSED)
+    }
+
+    // A defaulted auction can still be paid when an admin accepts a late transfer
+    const { count: auctions } = await tx.auction.updateMany({
+      where: {
+        id: transfer.auctionId,
+        paymentStatus: {
+          in: allowExpired ? [...SETTLEABLE_PAYMENT_STATUSES, 'FAILED'] : [...SETTLEABLE_PAYMENT_STATUSES],
+        },
+      },
+      data: { paymentStatus: 'PAID', paidAt },
+    })
+    if (auctions === 0) {
+      throw new ConflictError(
+        'Auction is no longer awaiting payment',
+        ERROR_CODES.PAYMENT_ALREADY_PROCESSED
+      )
+    }
+  }
+
+  /**
+   * What a confirmed card payment triggers: contact exchange, invoice, payout
+   */
+  private async afterPayment(auctionId: string): Promise<void> {
+    try {
+      const { notifyPaymentComplete } = await import('./notification.service')
+      await notifyPaymentComplete(auctionId)
+    } catch (notifyError) {
+      logError(paymentLogger, 'Failed to send payment complete notification', notifyError, { auctionId })
+    }
+
+    try {
+      const { issueBuyerFeeInvoice } = await import('./invoice.service')
+      await issueBuyerFeeInvoice(auctionId)
+    } catch (invoiceError) {
+      logError(paymentLogger, 'Failed to issue buyer fee invoice', invoiceError, { auctionId })
+    }
+
+    const payout = await this.payouts.createSellerPayout(auctionId).catch((error) => {
+      logError(paymentLogger, 'Failed to create seller payout', error, { auctionId })
+      return null
+    })
+    if (payout && !payout.success) {
+      paymentLogger.warn({ auctionId, error: payout.error }, 'Seller payout after bank transfer not created')
+    }
+  }
+}
+
+// Factory function for creating bank transfer service with default dependencies
+import { prisma } from '@/lib/db'
+import { createSellerPayoutService } from './seller-payout.service'
+
+export function createBankTransferService(): BankTransferService {
+  return new BankTransferService(prisma, createSellerPayoutService())
+}
+
+// Default instance for backward compatibility
+const bankTransferService = createBankTransferService()
+
+// Export individual functions
+export const requestBankTransfer = (auctionId: string, userId: string, promoCode?: string) =>
+  bankTransferService.requestBankTransfer(auctionId, userId, promoCode)
+
+export const getBankTransfer = (auctionId: string, userId: string) =>
+  bankTransferService.getTransfer(auctionId, userId)
+
+export const importBankStatement = (content: string, filename: string, adminId: string) =>
+  bankTransferService.importStatement(content, filename, adminId)
+
+export const resolveStatementLine = (lineId: string, adminId: string, review: StatementLineReview) =>
+  bankTransferService.resolveLine(lineId, adminId, review)
+
+export const listStatementReviewQueue = () => bankTransferService.listReviewQueue()
+
+export const listAwaitingBankTransfers = () => bankTransferService.listAwaiting()
+
+export const listBankStatements = () => bankTransferService.listStatements()
@@ -0,0 +1,220 @@
+// Bid Retraction Service - bidder-requested retractions reviewed by staff
+import { prisma } from '@/lib/db'
+import { lockAuctionRow } from '@/lib/db-lock'
+import { Prisma, Auction, BidRetraction, BidRetractionStatus } from '@prisma/client'
+import { isWithinRetractionWindow } from '@/domain/auction/rules'
+import { auctionStatusValidator } from '@/services/validators/auction-status.validator'
+import { recalculateAuctionBids } from '@/services/auction.service'
+import { recordBidRetraction } from '@/services/fraud.service'
+import { auctionLogger } from '@/lib/logger'
+import {
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+  ForbiddenError,
+  AuctionStateError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+export type BidRetractionWithDetails = BidRetraction & {
+  bid: { id: string; amount: unknown; createdAt: Date; isValid: boolean }
+  bidder: { id: string; name: string | null; email: string }
+  auction: {
+    id: string
+    status: Auction['status']
+    currency: string
+    listing: { title: string }
+  }
+}
+
+/**
+ * Ask for one of your own bids to be retracted.
+ * Only valid bids on a running auction, within the retraction window, qualify.
+ */
+export async function requestBidRetraction(
+  auctionId: string,
+  bidId: string,
+  bidderId: string,
+  reason: string
+): Promise<BidRetraction> {
+  const bid = await prisma.bid.findUnique({
+    where: { id: bidId },
+    include: {
+      auction: { select: { status: true } },
+      retraction: { select: { id: true } },
+    },
+  })
+
+  if (!bid || bid.auctionId !== auctionId) {
+    throw new NotFoundError('Bid not found', ERROR_CODES.BID_NOT_FOUND)
+  }
+
+  if (bid.bidderId !== bidderId) {
+    throw new ForbiddenError('You can only retract your own bids')
+  }
+
+  if (!bid.isValid) {
+    throw new ValidationError('This bid has already been invalidated')
+  }
+
+  if (auctionStatusValidator.isEnded(bid.auction.status)) {
+    throw new AuctionStateError(
+      'Bids cannot be retracted once the auction has ended',
+      ERROR_CODES.AUCTION_ENDED
+    )
+  }
+
+  if (bid.retraction) {
+    throw new ConflictError(
+      'A retraction has already been requested for this bid',
+      ERROR_CODES.BID_RETRACTION_EXISTS
+    )
+  }
+
+  if (!isWithinRetractionWindow(bid.createdAt)) {
+    throw new ValidationError(
+      'The window for retracting this bid has passed',
+      ERROR_CODES.BID_RETRACTION_WINDOW_CLOSED
+    )
+  }
+
+  const retraction = await prisma.bidRetraction.create({
+    data: {
+      bidId,
+      auctionId,
+      bidderId,
+      reason,
+    },
+  })
+
+  auctionLogger.info(
+    { retractionId: retraction.id, bidId, auctionId },
+    'Bid retraction requested'
+  )
+
+  return retraction
+}
+
+/**
+ * List retraction requests for the admin queue, oldest first
+ */
+export async function listBidRetractions(
+  options: { status?: BidRetractionStatus } = {}
+): Promise<BidRetractionWithDetails[]> {
+  return prisma.bidRetraction.findMany({
+    where: options.status ? { status: options.status } : undefined,
+    orderBy: { createdAt: 'asc' },
+    include: {
+      bid: { select: { id: true, amount: true, createdAt: true, isValid: true } },
+      bidder: { select: { id: true, name: true, email: true } },
+      auction: {
+        select: {
+          id: true,
+          status: true,
+          currency: true,
+          listing: { select: { title: true } },
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Approve or reject a pending retraction.
+ * Approval invalidates the bid, drops the bidder's proxy maximum and recomputes
+ * the leader, current bid, reserve status and bid count from the remaining bids.
+ */
+export async function reviewBidRetraction(
+  retractionId: string,
+  reviewerId: string,
+  decision: Exclude<BidRetractionStatus, 'PENDING'>,
+  reviewNote?: string
+): Promise<{ retraction: BidRetraction; auction: Auction | null }> {
+  const existing = await prisma.bidRetraction.findUnique({
+    where: { id: retractionId },
+    include: { auction: { select: { status: true } } },
+  })
+
+  if (!existing) {
+    throw new NotFoundError('Retraction request not found', ERROR_CODES.BID_RETRACTION_NOT_FOUND)
+  }
+
+  if (existing.status !== 'PENDING') {
+    throw new ConflictError(
+      'This retraction request has already been reviewed',
+      ERROR_CODES.BID_RETRACTION_NOT_PENDING
+    )
+  }
+
+  const review = {
+    status: decision,
+    reviewedById: reviewerId,
+    reviewedAt: new Date(),
+    reviewNote,
+  }
+
+  // A conditional update, so a second reviewer acting at the same moment loses
+  const claimReview = async (client: Prisma.TransactionClient) => {
+    const { count } = await client.bidRetraction.updateMany({
+      where: { id: retractionId, status: 'PENDING' },
+      data: review,
+    })
+    if (count === 0) {
+      throw new ConflictError(
+        'This retraction request has already been reviewed',
+        ERROR_CODES.BID_RETRACTION_NOT_PENDING
+      )
+    }
+    return client.bidRetraction.findUniqueOrThrow({ where: { id: retractionId } })
+  }
+
+  if (decision === 'REJECTED') {
+    const retraction = await claimReview(prisma)
+    return { retraction, auction: null }
+  }
+
+  if (auctionStatusValidator.isEnded(existing.auction.status)) {
+    throw new AuctionStateError(
+      'Bids cannot be retracted once the auction has ended',
+      ERROR_CODES.AUCTION_ENDED
+    )
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    // Same lock order as placeBid (auction first) so the two cannot deadlock
+    await lockAuctionRow(tx, existing.auctionId)
+
+    const retraction = await claimReview(tx)
+
+    await tx.bid.update({
+      where: { id: existing.bidId },
+      data: {
+        isValid: false,
+        isWinning: false,
+        invalidatedReason: `Retracted by bidder: ${existing.reason}`,
+      },
+    })
+
+    // A standing maximum would otherwise bid again for the retracting bidder
+    await tx.maxBid.deleteMany({
+      where: { auctionId: existing.auctionId, bidderId: existing.bidderId },
+    })
+
+    const auction = await recalculateAuctionBids(existing.auctionId, tx)
+
+    return { retraction, auction }
+  })
+
+  auctionLogger.info(
+    { retractionId, bidId: existing.bidId, auctionId: existing.auctionId },
+    'Bid retraction approved'
+  )
+
+  await recordBidRetraction({
+    userId: existing.bidderId,
+    auctionId: existing.auctionId,
+    bidId: existing.bidId,
+  })
+
+  return result
+}
@@ -1,5 +1,6 @@
 // Bidder Number Service - assigns anonymous bidder numbers within auctions
 import { prisma } from '@/lib/db'
+import { lockAuctionRow } from '@/lib/db-lock'
 import { Prisma } from '@prisma/client'
 
 /**
@@ -8,6 +9,10 @@ import { Prisma } from '@prisma/client'
  * Each auction has its own sequence of bidder numbers (1, 2, 3...).
  * Once a user is assigned a number in an auction, they keep it for all their bids.
  *
+ * Inside a transaction the auction row is locked before the lookup, so two first
+ * bids from the same user cannot both be handed a new number. Without a
+ * transaction only the counter increment itself is atomic.
+ *
  * @param auctionId - The auction ID
  * @param userId - The bidder's user ID
  * @param tx - Optional Prisma transaction client
@@ -20,6 +25,10 @@ export async function getOrAssignBidderNumber(
 ): Promise<{ bidderNumber: number; bidderCountry: string | null }> {
   const client = tx || prisma
 
+  if (tx) {
+    await lockAuctionRow(tx, auctionId)
+  }
+
   // First check if user already has a bidder number in this auction
   const existingBid = await client.bid.findFirst({
     where: {
@@ -50,7 +59,7 @@ export async function getOrAssignBidderNumber(
   })
 
   // User doesn't have a number yet - assign the next one atomically
-  // Use raw SQL for atomic increment to avoid race conditions
+  // (the increment is a single UPDATE, so concurrent callers never share a number)
   const auction = await client.auction.update({
     where: { id: auctionId },
     data: {
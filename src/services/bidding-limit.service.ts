@@ -0,0 +1,553 @@
+// Bidding Limit Service - account-level bidding limits backed by one card hold or a bank guarantee
+import { PrismaClient, Prisma, BiddingLimit, BidDeposit, BidExposure } from '@prisma/client'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+import { DEPOSIT_CONFIG } from '@/lib/stripe'
+import { lockBiddingLimitRow } from '@/lib/db-lock'
+import { roundToCurrency } from '@/domain/currency/fx'
+import {
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  PaymentError,
+  InsufficientDepositError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { IBidDepositService } from './contracts/payment.interface'
+import { IPaymentProcessor } from './contracts/payment-processor.interface'
+import { ExchangeRateService } from './exchange-rate.service'
+
+type Client = PrismaClient | Prisma.TransactionClient
+
+export type BiddingLimitRequest =
+  | { backing: 'CARD_HOLD'; limitAmount: number }
+  | {
+      backing: 'BANK_GUARANTEE'
+      limitAmount: number
+      guaranteeIssuer: string
+      guaranteeReference: string
+      expiresAt: Date
+    }
+
+export type BiddingLimitRequestResult = {
+  limit: BiddingLimit
+  holdAmount: number | null
+  // Set when the card hold needs 3D Secure; confirm it like any other deposit
+  requiresAction?: boolean
+  clientSecret?: string
+}
+
+export type BiddingLimitSummary = {
+  limit: (BiddingLimit & { deposit: Pick<BidDeposit, 'id' | 'amount' | 'status'> | null }) | null
+  active: boolean
+  exposure: number
+  remaining: number
+  exposures: Array<{
+    auctionId: string
+    title: string
+    amount: number
+    currency: string
+    endTime: Date
+  }>
+}
+
+export type BiddingLimitWithUsage = BiddingLimit & {
+  user: { id: string; name: string | null; email: string }
+  exposure: number
+}
+
+/**
+ * A limit backs bids while it is ACTIVE, not past its expiry and, for a card
+ * hold, the hold is still in place (the release-deposits cron lets old holds go)
+ */
+function activeLimitWhere(now: Date): Prisma.BiddingLimitWhereInput {
+  return {
+    status: 'ACTIVE',
+    OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    AND: [{ OR: [{ backing: 'BANK_GUARANTEE' }, { deposit: { is: { status: 'HELD' } } }] }],
+  }
+}
+
+export function calculateLimitHoldAmount(limitAmount: number): number {
+  return Math.round(limitAmount * AUCTION_CONFIG.biddingLimitHoldPercent) / 100
+}
+
+export class BiddingLimitService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly paymentProcessor: IPaymentProcessor,
+    private readonly deposits: Pick<IBidDepositService, 'checkBiddingEligibility' | 'releaseBidDeposit'>,
+    private readonly exchangeRates: ExchangeRateService = new ExchangeRateService(prisma)
+  ) {}
+
+  /**
+   * The user's limit if it currently backs bids
+   */
+  async getActiveLimit(userId: string, client: Client = this.prisma): Promise<BiddingLimit | null> {
+    return client.biddingLimit.findFirst({
+      where: { userId, ...activeLimitWhere(new Date()) },
+    })
+  }
+
+  /**
+   * Bidders with an active limit skip per-auction deposits
+   */
+  async hasActiveLimit(userId: string): Promise<boolean> {
+    return (await this.getActiveLimit(userId)) !== null
+  }
+
+  /**
+   * The limit, what open bids have committed of it and what is left
+   */
+  async getSummary(userId: string): Promise<BiddingLimitSummary> {
+    const limit = await this.prisma.biddingLimit.findUnique({
+      where: { userId },
+      include: {
+        deposit: { select: { id: true, amount: true, status: true } },
+        exposures: {
+          where: { releasedAt: null },
+          include: {
+            auction: {
+              select: {
+                id: true,
+                currency: true,
+                currentEndTime: true,
+                listing: { select: { title: true } },
+              },
+            },
+          },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!limit) {
+      return { limit: null, active: false, exposure: 0, remaining: 0, exposures: [] }
+    }
+
+    const { exposures, ...rest } = limit
+    const active = (await this.getActiveLimit(userId)) !== null
+    const exposure = exposures.reduce((sum, e) => sum + Number(e.amount), 0)
+
+    return {
+      limit: rest,
+      active,
+      exposure,
+      remaining: active ? Math.max(0, Number(limit.limitAmount) - exposure) : 0,
+      exposures: exposures.map((e) => ({
+        auctionId: e.auctionId,
+        title: e.auction.listing.title,
+        amount: Number(e.amount),
+        currency: e.auction.currency,
+        endTime: e.auction.currentEndTime,
+      })),
+    }
+  }
+
+  /**
+   * Set up a bidding limit. A card hold for a share of the limit is placed
+   * straight away; a bank guarantee waits for an admin to check it. A limit
+   * with no open bids is replaced, its hold released.
+   */
+  async requestLimit(userId: string, request: BiddingLimitRequest): Promise<BiddingLimitRequestResult> {
+    if (request.limitAmount < AUCTION_CONFIG.biddingLimitMinimum) {
+      throw new ValidationError(
+        `Bidding limits start at €${AUCTION_CONFIG.biddingLimitMinimum.toLocaleString()}; ` +
+          'smaller amounts are covered by per-auction deposits',
+        ERROR_CODES.VALIDATION_INVALID_AMOUNT
+      )
+    }
+
+    const existing = await this.prisma.biddingLimit.findUnique({ where: { userId } })
+    if (existing) {
+      await this.retire(existing)
+    }
+
+    if (request.backing === 'BANK_GUARANTEE') {
+      if (request.expiresAt <= new Date()) {
+        throw new ValidationError(
+          'The guarantee has already expired',
+          ERROR_CODES.VALIDATION_INVALID_INPUT
+        )
+      }
+
+      const data = {
+        backing: 'BANK_GUARANTEE' as const,
+        status: 'PENDING' as const,
+        limitAmount: request.limitAmount,
+        currency: DEPOSIT_CONFIG.CURRENCY.toUpperCase(),
+        expiresAt: request.expiresAt,
+        depositId: null,
+        guaranteeIssuer: request.guaranteeIssuer,
+        guaranteeReference: request.guaranteeReference,
+        reviewedById: null,
+        reviewedAt: null,
+        reviewNote: null,
+        releasedAt: null,
+      }
+
+      const limit = await this.prisma.biddingLimit.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+      })
+
+      paymentLogger.info(
+        { userId, limitId: limit.id, limitAmount: request.limitAmount },
+        'Bank guarantee submitted for bidding limit'
+      )
+
+      return { limit, holdAmount: null }
+    }
+
+    return this.placeCardHold(userId, request.limitAmount)
+  }
+
+  /**
+   * Give up the limit and release its card hold. Open bids must close first.
+   */
+  async releaseLimit(userId: string): Promise<BiddingLimit> {
+    const limit = await this.prisma.biddingLimit.findUnique({ where: { userId } })
+
+    if (!limit || (limit.status !== 'ACTIVE' && limit.status !== 'PENDING')) {
+      throw new NotFoundError('Bidding limit not found', ERROR_CODES.BIDDING_LIMIT_NOT_FOUND)
+    }
+
+    return this.retire(limit)
+  }
+
+  /**
+   * Accept or reject a submitted bank guarantee
+   */
+  async reviewGuarantee(
+    limitId: string,
+    adminId: string,
+    review: { approve: boolean; note?: string }
+  ): Promise<BiddingLimit> {
+    const limit = await this.prisma.biddingLimit.findUnique({ where: { id: limitId } })
+
+    if (!limit || limit.backing !== 'BANK_GUARANTEE') {
+      throw new NotFoundError('Bidding limit not found', ERROR_CODES.BIDDING_LIMIT_NOT_FOUND)
+    }
+
+    if (limit.status !== 'PENDING') {
+      throw new ConflictError(
+        'This bank guarantee has already been reviewed',
+        ERROR_CODES.BIDDING_LIMIT_REVIEWED
+      )
+    }
+
+    if (review.approve && limit.expiresAt && limit.expiresAt <= new Date()) {
+      throw new ValidationError('The guarantee has already expired', ERROR_CODES.VALIDATION_INVALID_INPUT)
+    }
+
+    const { count } = await this.prisma.biddingLimit.updateMany({
+      where: { id: limitId, status: 'PENDING' },
+      data: {
+        status: review.approve ? 'ACTIVE' : 'REJECTED',
+        reviewedById: adminId,
+        reviewedAt: new Date(),
+        reviewNote: review.note ?? null,
+      },
+    })
+
+    if (count === 0) {
+      throw new ConflictError(
+        'This bank guarantee has already been reviewed',
+        ERROR_CODES.BIDDING_LIMIT_REVIEWED
+      )
+    }
+
+    paymentLogger.info(
+      { limitId, adminId, approved: review.approve },
+      'Bank guarantee reviewed'
+    )
+
+    return this.prisma.biddingLimit.findUniqueOrThrow({ where: { id: limitId } })
+  }
+
+  /**
+   * Guarantees waiting for review first, then active limits with their usage
+   */
+  async listLimits(): Promise<BiddingLimitWithUsage[]> {
+    const limits = await this.prisma.biddingLimit.findMany({
+      where: { status: { in: ['PENDING', 'ACTIVE'] } },
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        exposures: { where: { releasedAt: null }, select: { amount: true } },
+      },
+      orderBy: [{ status: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    return limits.map(({ exposures, ...limit }) => ({
+      ...limit,
+      exposure: exposures.reduce((sum, e) => sum + Number(e.amount), 0),
+    }))
+  }
+
+  /**
+   * Commit part of the bidder's limit to an auction: their bid, or their
+   * maximum when they set one. Runs inside the bid transaction; returns null
+   * when the bidder has no active limit and bids on a per-auction deposit.
+   * Limits are kept in the deposit currency, so bids on auctions in another
+   * currency are converted at the latest rate.
+   */
+  async reserveExposure(
+    userId: string,
+    auctionId: string,
+    bidAmount: number,
+    tx: Prisma.TransactionClient
+  ): Promise<BidExposure | null> {
+    const limit = await this.getActiveLimit(userId, tx)
+    if (!limit) {
+      return null
+    }
+
+    const { currency } = await tx.auction.findUniqueOrThrow({
+      where: { id: auctionId },
+      select: { currency: true },
+    })
+    const eurRate = await this.exchangeRates.findEurRate(currency)
+    if (!eurRate) {
+      throw new ValidationError(
+        `Bids in ${currency} can't be checked against your bidding limit until its exchange rate has been imported`,
+        ERROR_CODES.EXCHANGE_RATE_NOT_FOUND
+      )
+    }
+    const amount = roundToCurrency(bidAmount / eurRate.rate, DEPOSIT_CONFIG.CURRENCY)
+
+    await lockBiddingLimitRow(tx, limit.id)
+
+    const { _sum } = await tx.bidExposure.aggregate({
+      where: { limitId: limit.id, releasedAt: null, auctionId: { not: auctionId } },
+      _sum: { amount: true },
+    })
+    const remaining = Number(limit.limitAmount) - Number(_sum.amount ?? 0)
+
+    if (amount > remaining) {
+      throw new InsufficientDepositError(
+        `This bid exceeds your remaining bidding limit of €${Math.max(0, remaining).toLocaleString()}`,
+        ERROR_CODES.BIDDING_LIMIT_EXCEEDED,
+        { remaining: Math.max(0, remaining), limit: Number(limit.limitAmount) }
+      )
+    }
+
+    return tx.bidExposure.upsert({
+      where: { limitId_auctionId: { limitId: limit.id, auctionId } },
+      create: { limitId: limit.id, auctionId, amount },
+      update: { amount, releasedAt: null },
+    })
+  }
+
+  /**
+   * Free the limits of everyone on an auction except the leading bidder
+   */
+  async releaseOutbidExposures(
+    auctionId: string,
+    leaderId: string,
+    client: Client = this.prisma
+  ): Promise<number> {
+    const { count } = await client.bidExposure.updateMany({
+      where: { auctionId, releasedAt: null, limit: { userId: { not: leaderId } } },
+      data: { releasedAt: new Date() },
+    })
+    return count
+  }
+
+  /**
+   * Free every limit committed to an auction once it has ended or been cancelled
+   */
+  async releaseAuctionExposures(auctionId: string, client: Client = this.prisma): Promise<number> {
+    const { count } = await client.bidExposure.updateMany({
+      where: { auctionId, releasedAt: null },
+      data: { releasedAt: new Date() },
+    })
+    return count
+  }
+
+  private async placeCardHold(
+    userId: string,
+    limitAmount: number
+  ): Promise<BiddingLimitRequestResult> {
+    const eligibility = await this.deposits.checkBiddingEligibility(userId)
+    if (!eligibility.eligible) {
+      throw new PaymentError(
+        eligibility.reason || 'No valid payment method',
+        ERROR_CODES.PAYMENT_METHOD_NOT_FOUND
+      )
+    }
+
+    const paymentMethod = await this.paymentProcessor.getDefaultPaymentMethod(
+      eligibility.stripeCustomerId!
+    )
+    if (!paymentMethod) {
+      throw new PaymentError('No valid payment method', ERROR_CODES.PAYMENT_METHOD_NOT_FOUND)
+    }
+
+    const holdAmount = calculateLimitHoldAmount(limitAmount)
+
+    let paymentIntent
+    try {
+      paymentIntent = await this.paymentProcessor.createPaymentIntent({
+        amount: Math.round(holdAmount * 100),
+        currency: DEPOSIT_CONFIG.CURRENCY,
+        customerId: eligibility.stripeCustomerId!,
+        paymentMethodId: paymentMethod.id,
+        captureMethod: 'manual',
+        confirm: true,
+        offSession: true,
+        metadata: { type: 'bidding_limit', userId },
+        returnUrl: `${process.env.NEXT_PUBLIC_APP_URL}/account/bids`,
+      })
+    } catch (error) {
+      logError(paymentLogger, 'Failed to place bidding limit hold', error, { userId, holdAmount })
+      throw new PaymentError(
+        error instanceof Error ? error.message : 'Failed to place the card hold',
+        ERROR_CODES.DEPOSIT_FAILED
+      )
+    }
+
+    const requiresAction =
+      paymentIntent.status === 'requires_action' ||
+      paymentIntent.status === 'requires_confirmation'
+
+    if (!requiresAction && paymentIntent.status !== 'requires_capture') {
+      throw new PaymentError(
+        `Unexpected payment status: ${paymentIntent.status}`,
+        ERROR_CODES.DEPOSIT_FAILED
+      )
+    }
+
+    // The hold is an ordinary deposit with no auction, so confirming 3D Secure,
+    // refunds and disputes work on it as on any other deposit
+    const expiresAt = new Date()
+    expiresAt.setDate(expiresAt.getDate() + DEPOSIT_CONFIG.HOLD_DURATION_DAYS)
+
+    const limit = await this.prisma.$transaction(async (tx) => {
+      const deposit = await tx.bidDeposit.create({
+        data: {
+          userId,
+          amount: holdAmount,
+          currency: DEPOSIT_CONFIG.CURRENCY.toUpperCase(),
+          stripePaymentIntentId: paymentIntent.id,
+          stripePaymentMethodId: paymentMethod.id,
+          status: requiresAction ? 'PENDING' : 'HELD',
+          heldAt: requiresAction ? null : new Date(),
+        },
+      })
+
+      const data = {
+        backing: 'CARD_HOLD' as const,
+        status: 'ACTIVE' as const,
+        limitAmount,
+        currency: DEPOSIT_CONFIG.CURRENCY.toUpperCase(),
+        expiresAt,
+        depositId: deposit.id,
+        guaranteeIssuer: null,
+        guaranteeReference: null,
+        reviewedById: null,
+        reviewedAt: null,
+        reviewNote: null,
+        releasedAt: null,
+      }
+
+      return tx.biddingLimit.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+      })
+    })
+
+    paymentLogger.info(
+      { userId, limitId: limit.id, limitAmount, holdAmount, requiresAction },
+      'Card hold placed for bidding limit'
+    )
+
+    return {
+      limit,
+      holdAmount,
+      ...(requiresAction && { requiresAction, clientSecret: paymentIntent.clientSecret! }),
+    }
+  }
+
+  /**
+   * Release a limit and its card hold, unless bids still rely on it
+   */
+  private async retire(limit: BiddingLimit): Promise<BiddingLimit> {
+    if (limit.status === 'ACTIVE') {
+      const openExposures = await this.prisma.bidExposure.count({
+        where: { limitId: limit.id, releasedAt: null },
+      })
+      if (openExposures > 0) {
+        throw new ConflictError(
+          'Your bidding limit still covers open bids; it can change once they close',
+          ERROR_CODES.BIDDING_LIMIT_IN_USE
+        )
+      }
+    }
+
+    if (limit.depositId) {
+      await this.deposits.releaseBidDeposit(limit.depositId)
+    }
+
+    if (limit.status === 'RELEASED' || limit.status === 'REJECTED') {
+      return limit
+    }
+
+    return this.prisma.biddingLimit.update({
+      where: { id: limit.id },
+      data: { status: 'RELEASED', releasedAt: new Date() },
+    })
+  }
+}
+
+// Factory function for creating bidding limit service with default dependencies
+import { prisma } from '@/lib/db'
+import { getStripe } from '@/lib/stripe'
+import { createStripePaymentProcessor } from './stripe-payment-processor'
+import { createDepositService } from './deposit.service'
+
+export function createBiddingLimitService(paymentProcessor?: IPaymentProcessor): BiddingLimitService {
+  const processor = paymentProcessor || createStripePaymentProcessor(getStripe())
+  return new BiddingLimitService(prisma, processor, createDepositService(processor))
+}
+
+// Default instance for backward compatibility
+const biddingLimitService = createBiddingLimitService()
+
+// Export individual functions
+export const getActiveBiddingLimit = (userId: string) =>
+  biddingLimitService.getActiveLimit(userId)
+
+export const hasActiveBiddingLimit = (userId: string) =>
+  biddingLimitService.hasActiveLimit(userId)
+
+export const getBiddingLimitSummary = (userId: string) =>
+  biddingLimitService.getSummary(userId)
+
+export const requestBiddingLimit = (userId: string, request: BiddingLimitRequest) =>
+  biddingLimitService.requestLimit(userId, request)
+
+export const releaseBiddingLimit = (userId: string) =>
+  biddingLimitService.releaseLimit(userId)
+
+export const reviewBankGuarantee = (
+  limitId: string,
+  adminId: string,
+  review: { approve: boolean; note?: string }
+) => biddingLimitService.reviewGuarantee(limitId, adminId, review)
+
+export const listBiddingLimits = () => biddingLimitService.listLimits()
+
+export const reserveBidExposure = (
+  userId: string,
+  auctionId: string,
+  amount: number,
+  tx: Prisma.TransactionClient
+) => biddingLimitService.reserveExposure(userId, auctionId, amount, tx)
+
+export const releaseOutbidExposures = (auctionId: string, leaderId: string, client?: Client) =>
+  biddingLimitService.releaseOutbidExposures(auctionId, leaderId, client)
+
+export const releaseAuctionExposures = (auctionId: string, client?: Client) =>
+  biddingLimitService.releaseAuctionExposures(auctionId, client)
@@ -2,29 +2,33 @@
 import { PrismaClient, PaymentStatus, Auction } from '@prisma/client'
 import Stripe from 'stripe'
 import { getDefaultPaymentMethod } from '@/lib/stripe'
-import { calculatePaymentDeadline } from '@/domain/auction/rules'
+import { calculateBuyerFee, calculatePaymentDeadline, parseFeeTerms } from '@/domain/auction/rules'
 import {
   IBuyerFeeService,
   PaymentResult,
   PaymentStatusDetails,
 } from './contracts/payment.interface'
 import { paymentLogger, logError } from '@/lib/logger'
+import { AppError } from '@/lib/errors'
+import { PromoCodeService } from './promo-code.service'
 
 export class BuyerFeeService implements IBuyerFeeService {
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly stripe: Stripe
+    private readonly stripe: Stripe,
+    private readonly promoCodes: PromoCodeService = new PromoCodeService(prisma)
   ) {}
 
   /**
-   * Charge buyer fee after auction win
+   * Charge buyer fee after auction win, optionally redeeming a promo code first
    */
-  async chargeBuyerFee(auctionId: string, userId: string): Promise<PaymentResult> {
+  async chargeBuyerFee(auctionId: string, userId: string, promoCode?: string): Promise<PaymentResult> {
     // Get auction with all details
     const auction = await this.prisma.auction.findUnique({
       where: { id: auctionId },
       include: {
         listing: true,
+        escrow: { select: { id: true } },
       },
     })
 
@@ -32,6 +36,11 @@ export class BuyerFeeService implements IBuyerFeeService {
       return { success: false, error: 'Auction not found' }
     }
 
+    // The winner chose escrow; the charge goes through EscrowService instead
+    if (auction.escrow) {
+      return { success: false, error: 'This purchase is paid through escrow' }
+    }
+
     // Verify auction is sold
     if (auction.status !== 'SOLD') {
       return { success: false, error: 'Auction is not sold' }
@@ -47,8 +56,8 @@ export class BuyerFeeService implements IBuyerFeeService {
       return { success: false, error: 'Buyer fee already paid' }
     }
 
-    // Verify finalPrice and buyerFeeAmount exist
-    if (!auction.finalPrice || !auction.buyerFeeAmount) {
+    // Verify finalPrice exists
+    if (!auction.finalPrice) {
       return { success: false, error: 'Auction pricing not finalized' }
     }
 
@@ -73,9 +82,27 @@ export class BuyerFeeService implements IBuyerFeeService {
       return { success: false, error: 'No valid payment method found' }
     }
 
-    // Calculate total amount (finalPrice + buyer fee)
+    // Calculate total amount (finalPrice + buyer fee from the auction's fee
+    // snapshot, less any promo code the winner redeemed)
     const finalPrice = Number(auction.finalPrice)
-    const buyerFee = Number(auction.buyerFeeAmount)
+    const fullFee = auction.buyerFeeAmount !== null
+      ? Number(auction.buyerFeeAmount)
+      : calculateBuyerFee(finalPrice, parseFeeTerms(auction.feeTerms))
+    let fee
+
+    try {
+      if (promoCode) {
+        await this.promoCodes.redeem(promoCode, userId, auctionId)
+      }
+      fee = await this.promoCodes.applyToBuyerFee(auctionId, userId, fullFee)
+    } catch (error) {
+      if (error instanceof AppError) {
+        return { success: false, error: error.message }
+      }
+      throw error
+    }
+
+    const { buyerFee, promo } = fee
     const totalAmount = finalPrice + buyerFee
 
     // Convert to cents
@@ -98,6 +125,7 @@ export class BuyerFeeService implements IBuyerFeeService {
           finalPrice: finalPrice.toString(),
           buyerFee: buyerFee.toString(),
           listingId: auction.listingId,
+          ...(promo ? { promoCode: promo.code, promoDiscount: promo.discount.toString() } : {}),
         },
         return_url: `${process.env.NEXT_PUBLIC_APP_URL}/account/purchases`,
       })
@@ -146,6 +174,8 @@ export class BuyerFeeService implements IBuyerFeeService {
           paymentLogger.error({ auctionId, error: notifyError }, 'Failed to send payment complete notification')
         }
 
+        await this.issueInvoice(auctionId)
+
         return { success: true, paymentIntent }
       }
 
@@ -236,6 +266,8 @@ export class BuyerFeeService implements IBuyerFeeService {
           paymentLogger.error({ auctionId, error: notifyError }, 'Failed to send payment complete notification')
         }
 
+        await this.issueInvoice(auctionId)
+
         return { success: true, paymentIntent }
       }
 
@@ -276,6 +308,8 @@ export class BuyerFeeService implements IBuyerFeeService {
         paymentDeadline: true,
         finalPrice: true,
         buyerFeeAmount: true,
+        feeTerms: true,
+        winnerId: true,
       },
     })
 
@@ -284,8 +318,21 @@ export class BuyerFeeService implements IBuyerFeeService {
     }
 
     const finalPrice = auction.finalPrice ? Number(auction.finalPrice) : null
-    const buyerFee = auction.buyerFeeAmount ? Number(auction.buyerFeeAmount) : null
-    const totalAmount = finalPrice && buyerFee ? finalPrice + buyerFee : null
+    let buyerFee = auction.buyerFeeAmount !== null
+      ? Number(auction.buyerFeeAmount)
+      : finalPrice !== null
+        ? calculateBuyerFee(finalPrice, parseFeeTerms(auction.feeTerms))
+        : null
+
+    // The winner's promo code; a pending one comes off the fee at payment
+    const promo = auction.winnerId && buyerFee !== null
+      ? await this.promoCodes.getFeeDiscount(auctionId, auction.winnerId, 'BUYER_FEE', buyerFee)
+      : null
+    if (promo && !promo.applied && buyerFee !== null) {
+      buyerFee = Math.round((buyerFee - promo.discount) * 100) / 100
+    }
+
+    const totalAmount = finalPrice !== null && buyerFee !== null ? finalPrice + buyerFee : null
 
     return {
       status: auction.paymentStatus,
@@ -295,6 +342,8 @@ export class BuyerFeeService implements IBuyerFeeService {
       breakdown: {
         finalPrice,
         buyerFee,
+        promoCode: promo?.code ?? null,
+        promoDiscount: promo?.discount ?? null,
       },
     }
   }
@@ -326,12 +375,14 @@ export class BuyerFeeService implements IBuyerFeeService {
   async checkOverduePayments(): Promise<string[]> {
     const now = new Date()
 
-    // Find auctions with overdue payments
+    // Find auctions with overdue payments. A bank transfer the buyer set up
+    // in time gets until its own expiry to show up on a statement.
     const overdueAuctions = await this.prisma.auction.findMany({
       where: {
         status: 'SOLD',
         paymentStatus: { in: ['UNPAID', 'PENDING'] },
         paymentDeadline: { lte: now },
+        NOT: { bankTransfer: { is: { status: 'AWAITING', expiresAt: { gt: now } } } },
       },
       select: {
         id: true,
@@ -351,15 +402,34 @@ export class BuyerFeeService implements IBuyerFeeService {
         data: { paymentStatus: 'FAILED' },
       })
 
-      // TODO: Capture winning bidder's deposit as forfeit
+      // Deposit forfeiture and second-chance offers: see SecondChanceService.handleWinnerDefault
       // TODO: Notify seller of default
-      // TODO: Option to re-list or offer to second highest bidder
 
       overdueIds.push(auction.id)
     }
 
+    // Late transfers against these references go to the review queue
+    if (overdueIds.length > 0) {
+      await this.prisma.bankTransfer.updateMany({
+        where: { auctionId: { in: overdueIds }, status: 'AWAITING' },
+        data: { status: 'EXPIRED' },
+      })
+    }
+
     return overdueIds
   }
+
+  /**
+   * Issue the buyer fee invoice without failing the payment
+   */
+  private async issueInvoice(auctionId: string): Promise<void> {
+    try {
+      const { issueBuyerFeeInvoice } = await import('./invoice.service')
+      await issueBuyerFeeInvoice(auctionId)
+    } catch (invoiceError) {
+      logError(paymentLogger, 'Failed to issue buyer fee invoice', invoiceError, { auctionId })
+    }
+  }
 }
 
 // Factory function for creating buyer fee service with default dependencies
@@ -374,8 +444,8 @@ export function createBuyerFeeService(): BuyerFeeService {
 const buyerFeeService = createBuyerFeeService()
 
 // Export individual functions for backward compatibility
-export const chargeBuyerFee = (auctionId: string, userId: string) =>
-  buyerFeeService.chargeBuyerFee(auctionId, userId)
+export const chargeBuyerFee = (auctionId: string, userId: string, promoCode?: string) =>
+  buyerFeeService.chargeBuyerFee(auctionId, userId, promoCode)
 
 export const confirmBuyerFeePayment = (paymentIntentId: string) =>
   buyerFeeService.confirmBuyerFeePayment(paymentIntentId)
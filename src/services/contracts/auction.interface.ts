@@ -20,6 +20,8 @@ export type GetActiveAuctionsOptions = {
   country?: string
   sortBy?: 'ending_soon' | 'newly_listed' | 'price_low' | 'price_high' | 'most_bids' | 'relevance'
   searchQuery?: string
+  /** Only lots in this catalogue sale */
+  eventId?: string
 }
 
 /**
@@ -33,6 +35,7 @@ export interface AuctionListItem {
   currentBid: number | null
   bidCount: number
   reserveMet: boolean
+  lotNumber?: number | null
   listing: {
     id: string
     title: string
@@ -72,9 +75,23 @@ export type PaginatedAuctions = {
  * Bid placement result
  */
 export type PlaceBidResult = {
+  /** The bid submitted by the bidder */
   bid: Bid
+  /** Every bid placed in this round, including automatic proxy bids (last one leads) */
+  bids: Bid[]
   auction: Auction
   extended: boolean
+  /** Later lots in the same sale pushed back by this round's extension */
+  cascadedLots: CascadedLot[]
+}
+
+/**
+ * A lot whose end time moved because an earlier lot in its sale was extended
+ */
+export type CascadedLot = {
+  id: string
+  currentEndTime: Date
+  extensionCount: number
 }
 
 /**
@@ -83,6 +100,8 @@ export type PlaceBidResult = {
 export type BidMetadata = {
   ipAddress?: string | null
   userAgent?: string | null
+  /** Private maximum the platform may bid up to on the bidder's behalf */
+  maxAmount?: number | null
 }
 
 /**
@@ -142,6 +161,11 @@ export interface IAuctionService {
     metadata?: BidMetadata
   ): Promise<PlaceBidResult>
 
+  /**
+   * Get a bidder's private maximum for an auction
+   */
+  getMaxBid(auctionId: string, bidderId: string): Promise<number | null>
+
   /**
    * Get bid history for an auction
    */
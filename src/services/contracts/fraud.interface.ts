@@ -67,6 +67,7 @@ export type UserFraudHistory = {
   totalAlerts: number
   criticalAlerts: number
   recentAlerts: FraudAlert[]
+  recentRetractions: number // Approved bid retractions within the lookback window
   isSuspicious: boolean
 }
 
@@ -31,6 +31,18 @@ export type MockBidConfig = {
   allowAntiSnipe: boolean
 }
 
+/**
+ * Configuration for a burst of simultaneous bids on one auction
+ */
+export type ConcurrentBidConfig = {
+  /** Number of bids fired at once */
+  bidCount: number
+  /** Amounts are picked from this many increments above the current price */
+  spreadIncrements: number
+  /** Probability that a bid also sets a private maximum (0-1) */
+  maxBidProbability: number
+}
+
 /**
  * Configuration for mock comment generation
  */
@@ -82,6 +94,8 @@ export type MockBidResult = {
   amount?: number
   triggeredExtension?: boolean
   error?: string
+  /** Error code when the bid was rejected by placeBid */
+  errorCode?: string
 }
 
 /**
@@ -136,6 +150,19 @@ export interface IMockBidGenerator {
    */
   generateBids(auctionIds: string[], config: MockBidConfig): Promise<MockBidResult[]>
 
+  /**
+   * Fire simultaneous bids at one auction through the real bidding path
+   * @param auctionId - Target auction ID
+   * @param bidders - Users to bid as (cycled through)
+   * @param config - Burst configuration
+   * @returns One result per attempted bid
+   */
+  generateConcurrentBids(
+    auctionId: string,
+    bidders: User[],
+    config: ConcurrentBidConfig
+  ): Promise<MockBidResult[]>
+
   /**
    * Get mock bidder users
    * @returns Array of users that can place mock bids
@@ -85,6 +85,18 @@ export interface Transfer {
   status: 'pending' | 'paid' | 'failed' | 'canceled'
 }
 
+/**
+ * Refund of a captured payment
+ */
+export interface Refund {
+  id: string
+  amount: number
+  currency: string
+  paymentIntentId: string
+  status: 'pending' | 'requires_action' | 'succeeded' | 'failed' | 'canceled'
+  failureReason?: string | null
+}
+
 /**
  * Webhook event from payment provider
  */
@@ -142,6 +154,24 @@ export interface IPaymentProcessor {
    */
   releasePayment(intentId: string): Promise<PaymentIntent>
 
+  /**
+   * Refund a captured payment, in full or in part
+   * @param params - Refund parameters (amount in cents; omit for a full refund)
+   * @returns Created refund
+   */
+  refundPayment(params: {
+    paymentIntentId: string
+    amount?: number
+    metadata?: Record<string, string>
+  }): Promise<Refund>
+
+  /**
+   * Retrieve a refund by ID
+   * @param refundId - Refund ID
+   * @returns Refund with its current status
+   */
+  retrieveRefund(refundId: string): Promise<Refund>
+
   // ===== Setup Intents (for saving payment methods) =====
 
   /**
@@ -241,6 +271,13 @@ export interface IPaymentProcessor {
     metadata?: Record<string, string>
   }): Promise<Transfer>
 
+  /**
+   * Retrieve a transfer by ID
+   * @param transferId - Transfer ID
+   * @returns Transfer with its current status
+   */
+  retrieveTransfer(transferId: string): Promise<Transfer>
+
   // ===== Webhooks =====
 
   /**
@@ -61,7 +61,9 @@ export type PaymentStatusDetails = {
   totalAmount: number | null
   breakdown: {
     finalPrice: number | null
-    buyerFee: number | null
+    buyerFee: number | null // After any promo discount
+    promoCode: string | null
+    promoDiscount: number | null
   }
 }
 
@@ -152,7 +154,7 @@ export interface IBuyerFeeService {
   /**
    * Charge buyer fee after auction win
    */
-  chargeBuyerFee(auctionId: string, userId: string): Promise<PaymentResult>
+  chargeBuyerFee(auctionId: string, userId: string, promoCode?: string): Promise<PaymentResult>
 
   /**
    * Confirm buyer fee payment after 3DS authentication
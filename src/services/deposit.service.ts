@@ -1,6 +1,6 @@
 // Bid Deposit Service - handles bid deposit management
 import { PrismaClient, BidDeposit } from '@prisma/client'
-import { calculateDepositAmount, DEPOSIT_CONFIG } from '@/lib/stripe'
+import { calculateDepositAmount } from '@/lib/stripe'
 import {
   IBidDepositService,
   DepositResult,
@@ -9,11 +9,13 @@ import {
 } from './contracts/payment.interface'
 import { IPaymentProcessor } from './contracts/payment-processor.interface'
 import { paymentLogger, logError } from '@/lib/logger'
+import { ExchangeRateService } from './exchange-rate.service'
 
 export class DepositService implements IBidDepositService {
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly paymentProcessor: IPaymentProcessor
+    private readonly paymentProcessor: IPaymentProcessor,
+    private readonly exchangeRates: ExchangeRateService = new ExchangeRateService(prisma)
   ) {}
 
   /**
@@ -153,8 +155,20 @@ export class DepositService implements IBidDepositService {
       return { success: true, deposit: existingDeposit }
     }
 
-    // Calculate deposit amount
-    const depositAmount = calculateDepositAmount(bidAmount)
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      select: { currency: true },
+    })
+    if (!auction) {
+      return { success: false, error: 'Auction not found' }
+    }
+
+    // Calculate deposit amount in the auction currency
+    const eurRate = await this.exchangeRates.findEurRate(auction.currency)
+    if (!eurRate) {
+      return { success: false, error: `No ${auction.currency} exchange rate to size the deposit` }
+    }
+    const depositAmount = calculateDepositAmount(bidAmount, eurRate.rate)
 
     // Get payment method
     const paymentMethod = await this.paymentProcessor.getDefaultPaymentMethod(eligibility.stripeCustomerId!)
@@ -166,7 +180,7 @@ export class DepositService implements IBidDepositService {
       // Create payment intent with hold
       const paymentIntent = await this.paymentProcessor.createPaymentIntent({
         amount: depositAmount,
-        currency: DEPOSIT_CONFIG.CURRENCY,
+        currency: auction.currency.toLowerCase(),
         customerId: eligibility.stripeCustomerId!,
         paymentMethodId: paymentMethod.id,
         captureMethod: 'manual',
@@ -191,7 +205,7 @@ export class DepositService implements IBidDepositService {
             userId,
             auctionId,
             amount: depositAmount / 100, // Convert cents to currency
-            currency: DEPOSIT_CONFIG.CURRENCY.toUpperCase(),
+            currency: auction.currency,
             stripePaymentIntentId: paymentIntent.id,
             stripePaymentMethodId: paymentMethod.id,
             status: 'PENDING',
@@ -213,7 +227,7 @@ export class DepositService implements IBidDepositService {
             userId,
             auctionId,
             amount: depositAmount / 100,
-            currency: DEPOSIT_CONFIG.CURRENCY.toUpperCase(),
+            currency: auction.currency,
             stripePaymentIntentId: paymentIntent.id,
             stripePaymentMethodId: paymentMethod.id,
             status: 'HELD',
@@ -242,7 +256,7 @@ export class DepositService implements IBidDepositService {
           userId,
           auctionId,
           amount: depositAmount / 100,
-          currency: DEPOSIT_CONFIG.CURRENCY.toUpperCase(),
+          currency: auction.currency,
           stripePaymentIntentId: 'failed',
           status: 'FAILED',
         },
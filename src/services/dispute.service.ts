@@ -0,0 +1,533 @@
+// Dispute Service - card chargebacks mirrored from Stripe charge.dispute.* webhooks
+import {
+  PrismaClient,
+  Prisma,
+  PaymentDispute,
+  PaymentDisputeEvent,
+  DisputeStatus,
+  DisputeTarget,
+} from '@prisma/client'
+import { PaymentAuditLogger } from '@/lib/audit'
+import { NotFoundError, ConflictError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { createFraudAlert } from './fraud.service'
+import { ISellerPayoutService } from './contracts/payment.interface'
+
+const CLOSED_STATUSES: DisputeStatus[] = ['WON', 'LOST', 'INQUIRY_CLOSED']
+
+// Stripe reports inquiries ("warning_*") and chargebacks on the same object
+const STRIPE_STATUSES: Record<string, DisputeStatus> = {
+  warning_needs_response: 'NEEDS_RESPONSE',
+  needs_response: 'NEEDS_RESPONSE',
+  warning_under_review: 'UNDER_REVIEW',
+  under_review: 'UNDER_REVIEW',
+  won: 'WON',
+  lost: 'LOST',
+  warning_closed: 'INQUIRY_CLOSED',
+}
+
+export type DisputeWebhookEvent = {
+  stripeEventId: string
+  type: 'created' | 'updated' | 'closed' | 'funds_withdrawn' | 'funds_reinstated'
+  stripeDisputeId: string
+  chargeId: string
+  paymentIntentId: string
+  /** Disputed amount in currency units */
+  amount: number
+  currency: string
+  reason: string
+  /** Stripe dispute status, e.g. "needs_response" */
+  status: string
+  evidenceDueBy: Date | null
+}
+
+type UserSummary = { id: string; name: string | null; email: string }
+
+export type PaymentDisputeWithDetails = PaymentDispute & {
+  auction: { id: string; listing: { title: string } }
+  user: UserSummary
+  events: Array<PaymentDisputeEvent & { actor: UserSummary | null }>
+}
+
+export type DisputeEvidencePack = {
+  generatedAt: string
+  dispute: PaymentDisputeWithDetails
+  customer: UserSummary & {
+    createdAt: Date
+    emailVerified: Date | null
+    termsAcceptedAt: Date | null
+  }
+  auction: {
+    id: string
+    title: string
+    finalPrice: Prisma.Decimal | null
+    buyerFeeAmount: Prisma.Decimal | null
+    currency: string
+    endedAt: Date
+    paidAt: Date | null
+    seller: UserSummary
+  }
+  bids: Array<{
+    id: string
+    amount: Prisma.Decimal
+    createdAt: Date
+    ipAddress: string | null
+    userAgent: string | null
+    channel: string
+    isWinning: boolean
+  }>
+  messages: Array<{ id: string; senderId: string; content: string; createdAt: Date }>
+  paymentLog: Array<{ action: string; createdAt: Date; actorIp: string | null; details: Prisma.JsonValue }>
+}
+
+type DisputedCharge = {
+  target: DisputeTarget
+  auctionId: string
+  userId: string
+  depositId: string | null
+}
+
+const userSummary = { select: { id: true, name: true, email: true } }
+
+const disputeDetails = {
+  auction: { select: { id: true, listing: { select: { title: true } } } },
+  user: userSummary,
+  events: { orderBy: { createdAt: 'asc' as const }, include: { actor: userSummary } },
+}
+
+export class DisputeService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly payouts: ISellerPayoutService
+  ) {}
+
+  /**
+   * Apply a charge.dispute.* webhook. A new dispute raises a fraud alert,
+   * freezes the seller payout and switches the user's bidding off until it
+   * closes. Returns null for charges that are not ours.
+   */
+  async recordWebhookEvent(event: DisputeWebhookEvent): Promise<PaymentDispute | null> {
+    // Stripe retries deliveries; each event lands on the timeline once
+    const delivered = await this.prisma.paymentDisputeEvent.findUnique({
+      where: { stripeEventId: event.stripeEventId },
+      select: { disputeId: true },
+    })
+    if (delivered) {
+      return this.prisma.paymentDispute.findUnique({ where: { id: delivered.disputeId } })
+    }
+
+    const status = STRIPE_STATUSES[event.status]
+    if (!status) {
+      paymentLogger.warn(
+        { stripeDisputeId: event.stripeDisputeId, status: event.status },
+        'Unknown dispute status'
+      )
+      return null
+    }
+
+    const existing = await this.prisma.paymentDispute.findUnique({
+      where: { stripeDisputeId: event.stripeDisputeId },
+    })
+
+    return existing ? this.update(existing, event, status) : this.open(event, status)
+  }
+
+  /**
+   * Record that an admin sent the evidence pack to Stripe
+   */
+  async markEvidenceSubmitted(
+    disputeId: string,
+    adminId: string,
+    note?: string
+  ): Promise<PaymentDispute> {
+    const dispute = await this.prisma.paymentDispute.findUnique({ where: { id: disputeId } })
+
+    if (!dispute) {
+      throw new NotFoundError('Dispute not found', ERROR_CODES.DISPUTE_NOT_FOUND)
+    }
+
+    if (dispute.closedAt) {
+      throw new ConflictError('This dispute is already closed', ERROR_CODES.DISPUTE_CLOSED)
+    }
+
+    const updated = await this.prisma.paymentDispute.update({
+      where: { id: disputeId },
+      data: {
+        evidenceSubmittedAt: new Date(),
+        events: {
+          create: { type: 'evidence_submitted', status: dispute.status, actorId: adminId, note },
+        },
+      },
+    })
+
+    await new PaymentAuditLogger({ actorId: adminId }).logDisputeEvent(
+      updated.auctionId,
+      updated.id,
+      'evidence_submitted',
+      updated.status,
+      { note }
+    )
+
+    return updated
+  }
+
+  /**
+   * Assemble what the card issuer needs to decide the dispute: the bid log
+   * with IPs and user agents, the terms acceptance, buyer/seller messages
+   * and the payment audit trail.
+   */
+  async getEvidencePack(disputeId: string): Promise<DisputeEvidencePack> {
+    const dispute = await this.prisma.paymentDispute.findUnique({
+      where: { id: disputeId },
+      include: disputeDetails,
+    })
+
+    if (!dispute) {
+      throw new NotFoundError('Dispute not found', ERROR_CODES.DISPUTE_NOT_FOUND)
+    }
+
+    const [customer, auction] = await Promise.all([
+      this.prisma.user.findUniqueOrThrow({
+        where: { id: dispute.userId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          createdAt: true,
+          emailVerified: true,
+          termsAcceptedAt: true,
+        },
+      }),
+      this.prisma.auction.findUniqueOrThrow({
+        where: { id: dispute.auctionId },
+        select: {
+          id: true,
+          finalPrice: true,
+          buyerFeeAmount: true,
+          currency: true,
+          currentEndTime: true,
+          paidAt: true,
+          listing: { select: { id: true, title: true, seller: userSummary } },
+        },
+      }),
+    ])
+
+    const [bids, conversation, paymentLog] = await Promise.all([
+      this.prisma.bid.findMany({
+        where: { auctionId: dispute.auctionId, bidderId: dispute.userId },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          amount: true,
+          createdAt: true,
+          ipAddress: true,
+          userAgent: true,
+          channel: true,
+          isWinning: true,
+        },
+      }),
+      this.prisma.conversation.findUnique({
+        where: { listingId_buyerId: { listingId: auction.listing.id, buyerId: dispute.userId } },
+        select: {
+          messages: {
+            orderBy: { createdAt: 'asc' },
+            select: { id: true, senderId: true, content: true, createdAt: true },
+          },
+        },
+      }),
+      this.prisma.auditLog.findMany({
+        where: {
+          resourceType: 'auction',
+          resourceId: dispute.auctionId,
+          action: { startsWith: 'payment.' },
+        },
+        orderBy: { createdAt: 'asc' },
+        select: { action: true, createdAt: true, actorIp: true, details: true },
+      }),
+    ])
+
+    return {
+      generatedAt: new Date().toISOString(),
+      dispute,
+      customer,
+      auction: {
+        id: auction.id,
+        title: auction.listing.title,
+        finalPrice: auction.finalPrice,
+        buyerFeeAmount: auction.buyerFeeAmount,
+        currency: auction.currency,
+        endedAt: auction.currentEndTime,
+        paidAt: auction.paidAt,
+        seller: auction.listing.seller,
+      },
+      bids,
+      messages: conversation?.messages ?? [],
+      paymentLog,
+    }
+  }
+
+  /**
+   * Disputes for the admin queue, open ones by default
+   */
+  async listDisputes(options: { open?: boolean } = {}): Promise<PaymentDisputeWithDetails[]> {
+    const open = options.open ?? true
+
+    return this.prisma.paymentDispute.findMany({
+      where: { closedAt: open ? null : { not: null } },
+      orderBy: open ? { evidenceDueBy: 'asc' } : { closedAt: 'desc' },
+      include: disputeDetails,
+    })
+  }
+
+  private async open(event: DisputeWebhookEvent, status: DisputeStatus): Promise<PaymentDispute | null> {
+    const charge = await this.findCharge(event.paymentIntentId)
+
+    if (!charge) {
+      paymentLogger.warn(
+        { stripeDisputeId: event.stripeDisputeId, paymentIntentId: event.paymentIntentId },
+        'Dispute on a charge without an auction'
+      )
+      return null
+    }
+
+    const auction = await this.prisma.auction.findUniqueOrThrow({
+      where: { id: charge.auctionId },
+      select: { sellerPayoutStatus: true },
+    })
+
+    // The payout guard refuses while a dispute is open; one already sent has to be recovered by hand
+    const payoutSent =
+      auction.sellerPayoutStatus === 'processing' || auction.sellerPayoutStatus === 'completed'
+
+    const dispute = await this.prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where: { id: charge.userId },
+        select: { biddingEnabled: true },
+      })
+
+      const restrict = !!user?.biddingEnabled
+      if (restrict) {
+        await tx.user.update({ where: { id: charge.userId }, data: { biddingEnabled: false } })
+      }
+
+      return tx.paymentDispute.create({
+        data: {
+          stripeDisputeId: event.stripeDisputeId,
+          chargeId: event.chargeId,
+          paymentIntentId: event.paymentIntentId,
+          target: charge.target,
+          auctionId: charge.auctionId,
+          userId: charge.userId,
+          depositId: charge.depositId,
+          amount: event.amount,
+          currency: event.currency.toUpperCase(),
+          reason: event.reason,
+          status,
+          evidenceDueBy: event.evidenceDueBy,
+          biddingRestricted: restrict,
+          events: {
+            create: {
+              stripeEventId: event.stripeEventId,
+              type: event.type,
+              status,
+              note: payoutSent
+                ? 'Seller payout was already sent before the dispute opened'
+                : 'Seller payout frozen until the dispute closes',
+            },
+          },
+        },
+      })
+    })
+
+    const alert = await createFraudAlert({
+      userId: dispute.userId,
+      auctionId: dispute.auctionId,
+      alertType: 'CHARGEBACK',
+      severity: dispute.reason === 'fraudulent' ? 'CRITICAL' : 'HIGH',
+      details: {
+        disputeId: dispute.id,
+        stripeDisputeId: dispute.stripeDisputeId,
+        target: dispute.target,
+        amount: event.amount,
+        currency: dispute.currency,
+        reason: dispute.reason,
+        payoutSent,
+      },
+    })
+
+    const linked = await this.prisma.paymentDispute.update({
+      where: { id: dispute.id },
+      data: { fraudAlertId: alert.id },
+    })
+
+    await new PaymentAuditLogger({}).logDisputeEvent(dispute.auctionId, dispute.id, event.type, status, {
+      stripeDisputeId: dispute.stripeDisputeId,
+      target: dispute.target,
+      amount: event.amount,
+      currency: dispute.currency,
+      reason: dispute.reason,
+    })
+
+    paymentLogger.warn(
+      { disputeId: dispute.id, auctionId: dispute.auctionId, userId: dispute.userId },
+      'Chargeback opened'
+    )
+
+    return linked
+  }
+
+  private async update(
+    existing: PaymentDispute,
+    event: DisputeWebhookEvent,
+    status: DisputeStatus
+  ): Promise<PaymentDispute> {
+    const closing = CLOSED_STATUSES.includes(status) && !existing.closedAt
+
+    const dispute = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.paymentDispute.update({
+        where: { id: existing.id },
+        data: {
+          status,
+          amount: event.amount,
+          reason: event.reason,
+          evidenceDueBy: event.evidenceDueBy,
+          closedAt: closing ? new Date() : undefined,
+          events: { create: { stripeEventId: event.stripeEventId, type: event.type, status } },
+        },
+      })
+
+      if (closing) {
+        await this.restoreBidding(tx, updated)
+      }
+
+      return updated
+    })
+
+    await new PaymentAuditLogger({}).logDisputeEvent(dispute.auctionId, dispute.id, event.type, status, {
+      stripeDisputeId: dispute.stripeDisputeId,
+      amount: event.amount,
+    })
+
+    if (closing) {
+      await this.settle(dispute)
+    }
+
+    return dispute
+  }
+
+  /**
+   * Give bidding back once the user has no open disputes left. A lost
+   * chargeback keeps it off until an admin reviews the fraud alert.
+   */
+  private async restoreBidding(tx: Prisma.TransactionClient, dispute: PaymentDispute): Promise<void> {
+    if (!dispute.biddingRestricted || dispute.status === 'LOST') {
+      return
+    }
+
+    const stillOpen = await tx.paymentDispute.count({
+      where: { userId: dispute.userId, closedAt: null, id: { not: dispute.id } },
+    })
+
+    if (stillOpen === 0) {
+      await tx.user.update({ where: { id: dispute.userId }, data: { biddingEnabled: true } })
+    }
+  }
+
+  private async settle(dispute: PaymentDispute): Promise<void> {
+    if (dispute.status !== 'LOST' && dispute.fraudAlertId) {
+      await this.prisma.fraudAlert.updateMany({
+        where: { id: dispute.fraudAlertId, status: { in: ['OPEN', 'INVESTIGATING'] } },
+        data: {
+          status: 'RESOLVED',
+          reviewedAt: new Date(),
+          resolutionNotes:
+            dispute.status === 'WON' ? 'Chargeback won' : 'Card issuer closed the inquiry',
+        },
+      })
+    }
+
+    // A lost chargeback on the buyer's payment keeps the payout frozen for good
+    if (dispute.status === 'LOST' && dispute.target !== 'DEPOSIT') {
+      return
+    }
+
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: dispute.auctionId },
+      select: { paymentStatus: true, sellerPayoutStatus: true },
+    })
+
+    if (
+      !auction ||
+      auction.paymentStatus !== 'PAID' ||
+      (auction.sellerPayoutStatus && auction.sellerPayoutStatus !== 'pending')
+    ) {
+      return
+    }
+
+    try {
+      const result = await this.payouts.createSellerPayout(dispute.auctionId)
+      paymentLogger.info(
+        { disputeId: dispute.id, auctionId: dispute.auctionId, payout: result },
+        'Seller payout resumed after dispute'
+      )
+    } catch (error) {
+      logError(paymentLogger, 'Failed to resume seller payout after dispute', error, {
+        disputeId: dispute.id,
+      })
+    }
+  }
+
+  private async findCharge(paymentIntentId: string): Promise<DisputedCharge | null> {
+    // Escrow charges are also recorded on the auction, so check them first
+    const escrow = await this.prisma.escrow.findUnique({
+      where: { paymentIntentId },
+      select: { auctionId: true, buyerId: true },
+    })
+    if (escrow) {
+      return { target: 'ESCROW', auctionId: escrow.auctionId, userId: escrow.buyerId, depositId: null }
+    }
+
+    const auction = await this.prisma.auction.findFirst({
+      where: { paymentIntentId },
+      select: { id: true, winnerId: true },
+    })
+    if (auction?.winnerId) {
+      return { target: 'BUYER_FEE', auctionId: auction.id, userId: auction.winnerId, depositId: null }
+    }
+
+    const deposit = await this.prisma.bidDeposit.findFirst({
+      where: { stripePaymentIntentId: paymentIntentId },
+      select: { id: true, userId: true, auctionId: true },
+    })
+    if (deposit?.auctionId) {
+      return { target: 'DEPOSIT', auctionId: deposit.auctionId, userId: deposit.userId, depositId: deposit.id }
+    }
+
+    return null
+  }
+}
+
+// Factory function for creating dispute service with default dependencies
+import { prisma } from '@/lib/db'
+import { createSellerPayoutService } from './seller-payout.service'
+
+export function createDisputeService(payouts?: ISellerPayoutService): DisputeService {
+  return new DisputeService(prisma, payouts || createSellerPayoutService())
+}
+
+// Default instance for backward compatibility
+const disputeService = createDisputeService()
+
+// Export individual functions
+export const recordDisputeWebhookEvent = (event: DisputeWebhookEvent) =>
+  disputeService.recordWebhookEvent(event)
+
+export const markDisputeEvidenceSubmitted = (disputeId: string, adminId: string, note?: string) =>
+  disputeService.markEvidenceSubmitted(disputeId, adminId, note)
+
+export const getDisputeEvidencePack = (disputeId: string) =>
+  disputeService.getEvidencePack(disputeId)
+
+export const listDisputes = (options: { open?: boolean } = {}) =>
+  disputeService.listDisputes(options)
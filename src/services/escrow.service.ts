@@ -0,0 +1,669 @@
+// Escrow Service - holds the full vehicle price until the buyer accepts the car
+import { PrismaClient, Prisma, Escrow, EscrowStatus } from '@prisma/client'
+import { calculateInspectionDeadline } from '@/domain/auction/rules'
+import { PaymentAuditLogger } from '@/lib/audit'
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  ConflictError,
+  AuctionStateError,
+  PaymentError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { notifyEscrowMilestone, notifyPaymentComplete } from './notification.service'
+import { IPaymentProcessor } from './contracts/payment-processor.interface'
+import { ISellerPayoutService, PayoutResult } from './contracts/payment.interface'
+import { PromoCodeService } from './promo-code.service'
+
+// Funds are still with the platform in these steps, so an admin can release or refund
+const HELD_STATUSES: EscrowStatus[] = ['FUNDED', 'HANDED_OVER', 'DISPUTED']
+
+export type EscrowReleaseReason = 'buyer_confirmed' | 'inspection_lapsed' | 'admin_override'
+
+export type EscrowFundingResult = {
+  escrow: Escrow
+  requiresAction: boolean
+  clientSecret?: string
+}
+
+export type EscrowReleaseResult = {
+  escrow: Escrow
+  payout: PayoutResult
+}
+
+type EscrowWithParties = Escrow & {
+  auction: { listing: { title: string; sellerId: string } }
+}
+
+export type EscrowWithDetails = Escrow & {
+  buyer: { id: string; name: string | null; email: string }
+  auction: {
+    id: string
+    currency: string
+    sellerPayoutStatus: string | null
+    listing: {
+      title: string
+      seller: { id: string; name: string | null; email: string }
+    }
+  }
+}
+
+export class EscrowService {
+  private readonly audit = new PaymentAuditLogger({})
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly paymentProcessor: IPaymentProcessor,
+    private readonly payouts: ISellerPayoutService,
+    private readonly promoCodes: PromoCodeService = new PromoCodeService(prisma)
+  ) {}
+
+  /**
+   * Charge the winner the hammer price plus buyer fee into escrow.
+   * A charge that failed or still needs authentication can be retried.
+   */
+  async fundEscrow(auctionId: string, userId: string): Promise<EscrowFundingResult> {
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      include: { escrow: true },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    if (auction.status !== 'SOLD') {
+      throw new ValidationError('Only sold auctions can be paid into escrow')
+    }
+
+    if (auction.winnerId !== userId) {
+      throw new ForbiddenError('Only the winning bidder can pay for this car')
+    }
+
+    if (
+      auction.paymentStatus === 'PAID' ||
+      (auction.escrow && auction.escrow.status !== 'AWAITING_FUNDS')
+    ) {
+      throw new ConflictError(
+        'This purchase is already paid',
+        ERROR_CODES.ESCROW_ALREADY_FUNDED
+      )
+    }
+
+    if (!auction.finalPrice || !auction.buyerFeeAmount) {
+      throw new ValidationError('Auction pricing not finalized')
+    }
+
+    if (auction.paymentDeadline && new Date() > auction.paymentDeadline) {
+      throw new ValidationError('Payment deadline has passed')
+    }
+
+    // An earlier charge may have succeeded without the webhook arriving yet
+    if (auction.escrow?.paymentIntentId && auction.escrow.buyerId === userId) {
+      const previous = await this.paymentProcessor.retrievePaymentIntent(
+        auction.escrow.paymentIntentId
+      )
+      if (previous.status === 'succeeded') {
+        const escrow = await this.markFunded(auction.escrow.id, previous.id)
+        return { escrow, requiresAction: false }
+      }
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { stripeCustomerId: true },
+    })
+
+    const paymentMethod = user?.stripeCustomerId
+      ? await this.paymentProcessor.getDefaultPaymentMethod(user.stripeCustomerId)
+      : null
+
+    if (!user?.stripeCustomerId || !paymentMethod) {
+      throw new PaymentError('No valid payment method found', ERROR_CODES.PAYMENT_METHOD_NOT_FOUND)
+    }
+
+    const finalPrice = Number(auction.finalPrice)
+    const { buyerFee } = await this.promoCodes.applyToBuyerFee(
+      auctionId,
+      userId,
+      Number(auction.buyerFeeAmount)
+    )
+    const amount = finalPrice + buyerFee
+
+    // After a second-chance offer the escrow may have been started by the defaulted winner
+    const escrow = await this.prisma.escrow.upsert({
+      where: { auctionId },
+      create: { auctionId, buyerId: userId, amount, currency: auction.currency },
+      update: { buyerId: userId, amount, currency: auction.currency, paymentIntentId: null },
+    })
+
+    let intent
+    try {
+      intent = await this.paymentProcessor.createPaymentIntent({
+        amount: Math.round(amount * 100),
+        currency: auction.currency.toLowerCase(),
+        customerId: user.stripeCustomerId,
+        paymentMethodId: paymentMethod.id,
+        confirm: true,
+        offSession: true,
+        metadata: {
+          type: 'escrow',
+          auctionId,
+          userId,
+          escrowId: escrow.id,
+          finalPrice: finalPrice.toString(),
+          buyerFee: buyerFee.toString(),
+        },
+        returnUrl: `${process.env.NEXT_PUBLIC_APP_URL}/auctions/${auctionId}`,
+      })
+    } catch (error) {
+      logError(paymentLogger, 'Failed to charge escrow', error, { auctionId, userId })
+
+      await this.prisma.auction.update({
+        where: { id: auctionId },
+        data: { paymentStatus: 'FAILED' },
+      })
+
+      throw new PaymentError(
+        error instanceof Error ? error.message : 'Failed to process payment',
+        ERROR_CODES.PAYMENT_FAILED
+      )
+    }
+
+    if (intent.status === 'succeeded') {
+      const funded = await this.markFunded(escrow.id, intent.id)
+      return { escrow: funded, requiresAction: false }
+    }
+
+    if (intent.status === 'requires_action' || intent.status === 'requires_confirmation') {
+      const pending = await this.prisma.$transaction(async (tx) => {
+        await tx.auction.update({
+          where: { id: auctionId },
+          data: { paymentStatus: 'PENDING', paymentIntentId: intent.id },
+        })
+
+        return tx.escrow.update({
+          where: { id: escrow.id },
+          data: { paymentIntentId: intent.id },
+        })
+      })
+
+      return {
+        escrow: pending,
+        requiresAction: true,
+        clientSecret: intent.clientSecret ?? undefined,
+      }
+    }
+
+    await this.prisma.auction.update({
+      where: { id: auctionId },
+      data: { paymentStatus: 'FAILED', paymentIntentId: intent.id },
+    })
+
+    throw new PaymentError(`Payment failed: ${intent.status}`, ERROR_CODES.PAYMENT_FAILED)
+  }
+
+  /**
+   * Mark an escrow funded once a charge that needed authentication succeeds.
+   * Safe to call repeatedly (webhook retries, client return).
+   */
+  async confirmFunding(paymentIntentId: string): Promise<Escrow | null> {
+    const escrow = await this.prisma.escrow.findUnique({
+      where: { paymentIntentId },
+    })
+
+    if (!escrow || escrow.status !== 'AWAITING_FUNDS') {
+      return escrow
+    }
+
+    const intent = await this.paymentProcessor.retrievePaymentIntent(paymentIntentId)
+    if (intent.status !== 'succeeded') {
+      return escrow
+    }
+
+    return this.markFunded(escrow.id, paymentIntentId)
+  }
+
+  /**
+   * Seller reports the car handed over; the buyer's inspection window starts
+   */
+  async markHandedOver(auctionId: string, sellerId: string, note?: string): Promise<Escrow> {
+    const escrow = await this.getEscrowWithParties(auctionId)
+
+    if (escrow.auction.listing.sellerId !== sellerId) {
+      throw new ForbiddenError('Only the seller can report the handover')
+    }
+
+    this.assertNotFrozen(escrow)
+
+    const now = new Date()
+    const updated = await this.transition(this.prisma, escrow.id, ['FUNDED'], {
+      status: 'HANDED_OVER',
+      handedOverAt: now,
+      handoverNote: note,
+      inspectionEndsAt: calculateInspectionDeadline(now),
+    })
+
+    await this.audit.logEscrowTransition(auctionId, escrow.id, 'HANDED_OVER', sellerId, {
+      inspectionEndsAt: updated.inspectionEndsAt?.toISOString(),
+    })
+    await this.notify(escrow, 'HANDED_OVER', ['buyer'])
+
+    return updated
+  }
+
+  /**
+   * Buyer accepts the car and releases the funds to the seller.
+   * Allowed before the seller reports the handover (e.g. collected in person).
+   */
+  async confirmReceipt(auctionId: string, buyerId: string): Promise<EscrowReleaseResult> {
+    const escrow = await this.getEscrowWithParties(auctionId)
+
+    if (escrow.buyerId !== buyerId) {
+      throw new ForbiddenError('Only the buyer can confirm receipt')
+    }
+
+    this.assertNotFrozen(escrow)
+
+    return this.release(escrow, ['FUNDED', 'HANDED_OVER'], 'buyer_confirmed', buyerId, {
+      confirmedAt: new Date(),
+    })
+  }
+
+  /**
+   * Buyer reports a problem. The escrow is frozen: nothing is released or
+   * refunded until an admin decides.
+   */
+  async openDispute(auctionId: string, buyerId: string, reason: string): Promise<Escrow> {
+    const escrow = await this.getEscrowWithParties(auctionId)
+
+    if (escrow.buyerId !== buyerId) {
+      throw new ForbiddenError('Only the buyer can report a problem')
+    }
+
+    this.assertNotFrozen(escrow)
+
+    // The cron may not have released a lapsed inspection yet
+    if (
+      escrow.status === 'HANDED_OVER' &&
+      escrow.inspectionEndsAt &&
+      escrow.inspectionEndsAt <= new Date()
+    ) {
+      throw new AuctionStateError(
+        'The inspection window has closed',
+        ERROR_CODES.ESCROW_INVALID_STATE
+      )
+    }
+
+    const disputed = await this.transition(this.prisma, escrow.id, ['FUNDED', 'HANDED_OVER'], {
+      status: 'DISPUTED',
+      disputedAt: new Date(),
+      disputeReason: reason,
+    })
+
+    paymentLogger.warn({ auctionId, escrowId: escrow.id }, 'Escrow disputed and frozen')
+
+    await this.audit.logEscrowTransition(auctionId, escrow.id, 'DISPUTED', buyerId, { reason })
+    await this.notify(escrow, 'DISPUTED', ['seller'])
+
+    return disputed
+  }
+
+  /**
+   * Release escrows whose inspection window passed without a dispute.
+   * Returns the auction IDs released.
+   */
+  async releaseLapsedInspections(): Promise<string[]> {
+    const lapsed = await this.prisma.escrow.findMany({
+      where: {
+        status: 'HANDED_OVER',
+        inspectionEndsAt: { lte: new Date() },
+      },
+      include: { auction: { select: { listing: { select: { title: true, sellerId: true } } } } },
+      take: 100,
+    })
+
+    const released: string[] = []
+
+    for (const escrow of lapsed) {
+      try {
+        await this.release(escrow, ['HANDED_OVER'], 'inspection_lapsed')
+        released.push(escrow.auctionId)
+      } catch (error) {
+        logError(paymentLogger, 'Failed to release lapsed escrow', error, {
+          auctionId: escrow.auctionId,
+          escrowId: escrow.id,
+        })
+      }
+    }
+
+    return released
+  }
+
+  /**
+   * Admin override: pay the seller out now, whatever the milestone,
+   * including a frozen escrow
+   */
+  async adminRelease(escrowId: string, adminId: string, note: string): Promise<EscrowReleaseResult> {
+    const escrow = await this.getEscrowById(escrowId)
+
+    return this.release(escrow, HELD_STATUSES, 'admin_override', adminId, {
+      resolvedById: adminId,
+      resolutionNote: note,
+    })
+  }
+
+  /**
+   * Admin override: return the full charge to the buyer
+   */
+  async adminRefund(escrowId: string, adminId: string, note: string): Promise<Escrow> {
+    const escrow = await this.getEscrowById(escrowId)
+
+    if (!escrow.paymentIntentId) {
+      throw new AuctionStateError(
+        'This escrow was never funded',
+        ERROR_CODES.ESCROW_INVALID_STATE
+      )
+    }
+
+    // Claim the escrow before touching money so a concurrent release cannot also pay out
+    const now = new Date()
+    await this.transition(this.prisma, escrow.id, HELD_STATUSES, {
+      status: 'REFUNDED',
+      refundedAt: now,
+      resolvedById: adminId,
+      resolutionNote: note,
+    })
+
+    let refundId: string
+    try {
+      const refund = await this.paymentProcessor.refundPayment({
+        paymentIntentId: escrow.paymentIntentId,
+        metadata: { type: 'escrow_refund', auctionId: escrow.auctionId, escrowId },
+      })
+      refundId = refund.id
+    } catch (error) {
+      logError(paymentLogger, 'Failed to refund escrow', error, { escrowId })
+
+      await this.prisma.escrow.update({
+        where: { id: escrow.id },
+        data: { status: escrow.status, refundedAt: null, resolvedById: null, resolutionNote: null },
+      })
+
+      throw new PaymentError(
+        error instanceof Error ? error.message : 'Refund failed',
+        ERROR_CODES.PAYMENT_FAILED
+      )
+    }
+
+    const refunded = await this.prisma.$transaction(async (tx) => {
+      await tx.auction.update({
+        where: { id: escrow.auctionId },
+        data: { paymentStatus: 'REFUNDED' },
+      })
+
+      return tx.escrow.update({
+        where: { id: escrow.id },
+        data: { refundId },
+      })
+    })
+
+    await this.audit.logEscrowTransition(escrow.auctionId, escrow.id, 'REFUNDED', adminId, {
+      refundId,
+      amount: Number(escrow.amount),
+      currency: escrow.currency,
+      note,
+    })
+    await this.notify(escrow, 'REFUNDED', ['buyer', 'seller'])
+
+    return refunded
+  }
+
+  /**
+   * Escrow for an auction as seen by buyer or seller; null for anyone else
+   */
+  async getEscrowForParty(auctionId: string, userId: string): Promise<Escrow | null> {
+    const escrow = await this.prisma.escrow.findUnique({
+      where: { auctionId },
+      include: { auction: { select: { listing: { select: { title: true, sellerId: true } } } } },
+    })
+
+    if (!escrow || (escrow.buyerId !== userId && escrow.auction.listing.sellerId !== userId)) {
+      return null
+    }
+
+    const { auction: _auction, ...rest } = escrow
+    return rest
+  }
+
+  /**
+   * List escrows for the admin queue, oldest first
+   */
+  async listEscrows(options: { status?: EscrowStatus } = {}): Promise<EscrowWithDetails[]> {
+    return this.prisma.escrow.findMany({
+      where: options.status ? { status: options.status } : undefined,
+      orderBy: { createdAt: 'asc' },
+      include: {
+        buyer: { select: { id: true, name: true, email: true } },
+        auction: {
+          select: {
+            id: true,
+            currency: true,
+            sellerPayoutStatus: true,
+            listing: {
+              select: {
+                title: true,
+                seller: { select: { id: true, name: true, email: true } },
+              },
+            },
+          },
+        },
+      },
+    })
+  }
+
+  private async markFunded(escrowId: string, paymentIntentId: string): Promise<Escrow> {
+    const now = new Date()
+
+    const escrow = await this.prisma.$transaction(async (tx) => {
+      const funded = await this.transition(tx, escrowId, ['AWAITING_FUNDS'], {
+        status: 'FUNDED',
+        paymentIntentId,
+        fundedAt: now,
+      })
+
+      await tx.auction.update({
+        where: { id: funded.auctionId },
+        data: { paymentStatus: 'PAID', paymentIntentId, paidAt: now },
+      })
+
+      return funded
+    })
+
+    await this.audit.logEscrowTransition(escrow.auctionId, escrow.id, 'FUNDED', escrow.buyerId, {
+      paymentIntentId,
+      amount: Number(escrow.amount),
+      currency: escrow.currency,
+    })
+
+    // Payment unlocks contact details so buyer and seller can arrange the handover
+    await notifyPaymentComplete(escrow.auctionId).catch((error) =>
+      logError(paymentLogger, 'Failed to send payment complete notification', error, {
+        auctionId: escrow.auctionId,
+      })
+    )
+
+    await import('./invoice.service')
+      .then(({ issueBuyerFeeInvoice }) => issueBuyerFeeInvoice(escrow.auctionId))
+      .catch((error) =>
+        logError(paymentLogger, 'Failed to issue buyer fee invoice', error, {
+          auctionId: escrow.auctionId,
+        })
+      )
+
+    const withParties = await this.getEscrowWithParties(escrow.auctionId)
+    await this.notify(withParties, 'FUNDED', ['seller'])
+
+    return escrow
+  }
+
+  /**
+   * Move to RELEASED, then hand over to the payout service. A failed transfer
+   * leaves the payout 'failed' for retrySellerPayout; the escrow stays released.
+   */
+  private async release(
+    escrow: EscrowWithParties,
+    from: EscrowStatus[],
+    reason: EscrowReleaseReason,
+    actorId?: string,
+    data: Prisma.EscrowUncheckedUpdateManyInput = {}
+  ): Promise<EscrowReleaseResult> {
+    const released = await this.transition(this.prisma, escrow.id, from, {
+      ...data,
+      status: 'RELEASED',
+      releasedAt: new Date(),
+      releaseReason: reason,
+    })
+
+    await this.audit.logEscrowTransition(escrow.auctionId, escrow.id, 'RELEASED', actorId, {
+      reason,
+      previousStatus: escrow.status,
+    })
+
+    const payout = await this.payouts.createSellerPayout(escrow.auctionId)
+    if (!payout.success) {
+      paymentLogger.error(
+        { auctionId: escrow.auctionId, escrowId: escrow.id, error: payout.error },
+        'Seller payout after escrow release failed'
+      )
+    }
+
+    await this.notify(escrow, 'RELEASED', ['buyer', 'seller'])
+
+    return { escrow: released, payout }
+  }
+
+  /**
+   * Conditional update so two actors (e.g. cron and buyer) cannot both move the escrow
+   */
+  private async transition(
+    client: PrismaClient | Prisma.TransactionClient,
+    escrowId: string,
+    from: EscrowStatus[],
+    data: Prisma.EscrowUncheckedUpdateManyInput
+  ): Promise<Escrow> {
+    const { count } = await client.escrow.updateMany({
+      where: { id: escrowId, status: { in: from } },
+      data,
+    })
+
+    if (count === 0) {
+      throw new AuctionStateError(
+        'The escrow is not at the right step for this action',
+        ERROR_CODES.ESCROW_INVALID_STATE
+      )
+    }
+
+    return client.escrow.findUniqueOrThrow({ where: { id: escrowId } })
+  }
+
+  private assertNotFrozen(escrow: Escrow): void {
+    if (escrow.status === 'DISPUTED') {
+      throw new ConflictError(
+        'The escrow is frozen while a dispute is reviewed',
+        ERROR_CODES.ESCROW_FROZEN
+      )
+    }
+  }
+
+  private async getEscrowWithParties(auctionId: string): Promise<EscrowWithParties> {
+    const escrow = await this.prisma.escrow.findUnique({
+      where: { auctionId },
+      include: { auction: { select: { listing: { select: { title: true, sellerId: true } } } } },
+    })
+
+    if (!escrow) {
+      throw new NotFoundError('Escrow not found', ERROR_CODES.ESCROW_NOT_FOUND)
+    }
+
+    return escrow
+  }
+
+  private async getEscrowById(escrowId: string): Promise<EscrowWithParties> {
+    const escrow = await this.prisma.escrow.findUnique({
+      where: { id: escrowId },
+      include: { auction: { select: { listing: { select: { title: true, sellerId: true } } } } },
+    })
+
+    if (!escrow) {
+      throw new NotFoundError('Escrow not found', ERROR_CODES.ESCROW_NOT_FOUND)
+    }
+
+    return escrow
+  }
+
+  private async notify(
+    escrow: EscrowWithParties,
+    status: Exclude<EscrowStatus, 'AWAITING_FUNDS'>,
+    recipients: Array<'buyer' | 'seller'>
+  ): Promise<void> {
+    const { title, sellerId } = escrow.auction.listing
+
+    for (const recipient of recipients) {
+      const userId = recipient === 'buyer' ? escrow.buyerId : sellerId
+      await notifyEscrowMilestone(userId, escrow.auctionId, title, status).catch((error) =>
+        logError(paymentLogger, 'Failed to send escrow notification', error, {
+          auctionId: escrow.auctionId,
+          status,
+        })
+      )
+    }
+  }
+}
+
+// Factory function for creating escrow service with default dependencies
+import { prisma } from '@/lib/db'
+import { getStripe } from '@/lib/stripe'
+import { createStripePaymentProcessor } from './stripe-payment-processor'
+import { createSellerPayoutService } from './seller-payout.service'
+
+export function createEscrowService(paymentProcessor?: IPaymentProcessor): EscrowService {
+  const processor = paymentProcessor || createStripePaymentProcessor(getStripe())
+  return new EscrowService(prisma, processor, createSellerPayoutService(processor))
+}
+
+// Default instance for backward compatibility
+const escrowService = createEscrowService()
+
+// Export individual functions
+export const fundEscrow = (auctionId: string, userId: string) =>
+  escrowService.fundEscrow(auctionId, userId)
+
+export const confirmEscrowFunding = (paymentIntentId: string) =>
+  escrowService.confirmFunding(paymentIntentId)
+
+export const markEscrowHandedOver = (auctionId: string, sellerId: string, note?: string) =>
+  escrowService.markHandedOver(auctionId, sellerId, note)
+
+export const confirmEscrowReceipt = (auctionId: string, buyerId: string) =>
+  escrowService.confirmReceipt(auctionId, buyerId)
+
+export const openEscrowDispute = (auctionId: string, buyerId: string, reason: string) =>
+  escrowService.openDispute(auctionId, buyerId, reason)
+
+export const releaseLapsedEscrows = () =>
+  escrowService.releaseLapsedInspections()
+
+export const adminReleaseEscrow = (escrowId: string, adminId: string, note: string) =>
+  escrowService.adminRelease(escrowId, adminId, note)
+
+export const adminRefundEscrow = (escrowId: string, adminId: string, note: string) =>
+  escrowService.adminRefund(escrowId, adminId, note)
+
+export const getEscrowForParty = (auctionId: string, userId: string) =>
+  escrowService.getEscrowForParty(auctionId, userId)
+
+export const listEscrows = (options: { status?: EscrowStatus } = {}) =>
+  escrowService.listEscrows(options)
@@ -0,0 +1,232 @@
+// Exchange Rate Service - daily ECB reference rates for auctions outside EUR
+import { PrismaClient, Prisma, ExchangeRate } from '@prisma/client'
+import { isSupportedCurrency } from '@/domain/currency/currency-config'
+import { FxRates, crossRate, roundToCurrency } from '@/domain/currency/fx'
+import { parseEcbRates } from '@/lib/ecb-rates'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger } from '@/lib/logger'
+
+export type RateImportResult = {
+  dayCount: number
+  importedCount: number // Rates not stored before
+  firstDate: string
+  lastDate: string
+  currencies: string[]
+}
+
+export type EurRate = {
+  rate: number // Units of the currency per 1 EUR
+  rateDate: Date
+}
+
+export type SaleRateSnapshot = {
+  fxRate: number | null
+  fxRateDate: Date | null
+}
+
+export type CurrencySales = {
+  currency: string
+  saleCount: number
+  hammerTotal: number
+  hammerTotalEur: number | null
+  unratedCount: number // Sales without a rate snapshot, left out of the EUR total
+}
+
+export class ExchangeRateService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Store the rates of an ECB reference rate file for the currencies we
+   * support. Published rates are final, so days already stored are kept.
+   */
+  async importEcbRates(xml: string): Promise<RateImportResult> {
+    const days = parseEcbRates(xml)
+
+    if (days.length === 0) {
+      throw new ValidationError(
+        'The file does not contain ECB reference rates',
+        ERROR_CODES.EXCHANGE_RATE_FILE_INVALID
+      )
+    }
+
+    const data: Prisma.ExchangeRateCreateManyInput[] = days.flatMap((day) =>
+      Object.entries(day.rates)
+        .filter(([currency]) => currency !== 'EUR' && isSupportedCurrency(currency))
+        .map(([currency, rate]) => ({
+          currency,
+          rate,
+          rateDate: new Date(`${day.date}T00:00:00Z`),
+          source: 'ECB',
+        }))
+    )
+
+    const { count } = await this.prisma.exchangeRate.createMany({ data, skipDuplicates: true })
+    const dates = days.map((day) => day.date).sort()
+
+    return {
+      dayCount: days.length,
+      importedCount: count,
+      firstDate: dates[0],
+      lastDate: dates[dates.length - 1],
+      currencies: Array.from(new Set(data.map((row) => row.currency))).sort(),
+    }
+  }
+
+  /**
+   * Latest rate for a currency published on or before a day
+   */
+  async getEurRate(currency: string, on = new Date()): Promise<EurRate> {
+    const rate = await this.findEurRate(currency, on)
+
+    if (!rate) {
+      throw new NotFoundError(
+        `No ${currency.toUpperCase()} exchange rate has been imported`,
+        ERROR_CODES.EXCHANGE_RATE_NOT_FOUND
+      )
+    }
+
+    return rate
+  }
+
+  /**
+   * Latest rate for a currency published on or before a day, or null before
+   * any has been imported
+   */
+  async findEurRate(currency: string, on = new Date()): Promise<EurRate | null> {
+    const code = currency.toUpperCase()
+    if (code === 'EUR') {
+      return { rate: 1, rateDate: on }
+    }
+
+    const row = await this.prisma.exchangeRate.findFirst({
+      where: { currency: code, rateDate: { lte: on } },
+      orderBy: { rateDate: 'desc' },
+    })
+
+    return row ? { rate: Number(row.rate), rateDate: row.rateDate } : null
+  }
+
+  /**
+   * Latest stored rate of each currency
+   */
+  async listLatest(on = new Date()): Promise<ExchangeRate[]> {
+    return this.prisma.exchangeRate.findMany({
+      where: { rateDate: { lte: on } },
+      distinct: ['currency'],
+      orderBy: [{ currency: 'asc' }, { rateDate: 'desc' }],
+    })
+  }
+
+  /**
+   * Latest rates as a conversion table
+   */
+  async getRates(on = new Date()): Promise<FxRates> {
+    const rows = await this.listLatest(on)
+    return Object.fromEntries(rows.map((row) => [row.currency, Number(row.rate)]))
+  }
+
+  /**
+   * Units of one currency per unit of another, or null without rates for both
+   */
+  async getConversionRate(from: string, to: string): Promise<number | null> {
+    if (from.toUpperCase() === to.toUpperCase()) {
+      return 1
+    }
+    return crossRate(from, to, await this.getRates())
+  }
+
+  /**
+   * Rate to record on an auction when it sells. A missing rate must not hold
+   * up the sale; it only leaves the sale out of EUR reporting.
+   */
+  async snapshotSaleRate(currency: string, at = new Date()): Promise<SaleRateSnapshot> {
+    try {
+      const { rate, rateDate } = await this.getEurRate(currency, at)
+      return { fxRate: rate, fxRateDate: rateDate }
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error
+      }
+      paymentLogger.warn({ currency }, 'No exchange rate to snapshot on sale')
+      return { fxRate: null, fxRateDate: null }
+    }
+  }
+
+  /**
+   * Paid sales of a month (UTC) per currency, with hammer prices converted at
+   * the rate snapshotted on each sale
+   */
+  async getSalesByCurrency(year: number, month: number): Promise<CurrencySales[]> {
+    const auctions = await this.prisma.auction.findMany({
+      where: {
+        status: 'SOLD',
+        paymentStatus: 'PAID',
+        paidAt: {
+          gte: new Date(Date.UTC(year, month - 1, 1)),
+          lt: new Date(Date.UTC(year, month, 1)),
+        },
+      },
+      select: { currency: true, finalPrice: true, fxRate: true },
+    })
+
+    const totals = new Map<string, CurrencySales>()
+    for (const auction of auctions) {
+      const sales = totals.get(auction.currency) ?? {
+        currency: auction.currency,
+        saleCount: 0,
+        hammerTotal: 0,
+        hammerTotalEur: 0,
+        unratedCount: 0,
+      }
+      const hammerPrice = Number(auction.finalPrice ?? 0)
+
+      sales.saleCount++
+      sales.hammerTotal = roundToCurrency(sales.hammerTotal + hammerPrice, auction.currency)
+      if (auction.fxRate === null) {
+        sales.unratedCount++
+      } else {
+        sales.hammerTotalEur = roundToCurrency(
+          (sales.hammerTotalEur ?? 0) + hammerPrice / Number(auction.fxRate),
+          'EUR'
+        )
+      }
+      totals.set(auction.currency, sales)
+    }
+
+    return Array.from(totals.values())
+      .map((sales) => ({
+        ...sales,
+        hammerTotalEur: sales.unratedCount === sales.saleCount ? null : sales.hammerTotalEur,
+      }))
+      .sort((a, b) => a.currency.localeCompare(b.currency))
+  }
+}
+
+// Factory function for creating exchange rate service with default dependencies
+import { prisma } from '@/lib/db'
+
+export function createExchangeRateService(): ExchangeRateService {
+  return new ExchangeRateService(prisma)
+}
+
+// Default instance for backward compatibility
+const exchangeRateService = createExchangeRateService()
+
+// Export individual functions
+export const importEcbRates = (xml: string) => exchangeRateService.importEcbRates(xml)
+
+export const getEurRate = (currency: string, on?: Date) => exchangeRateService.getEurRate(currency, on)
+
+export const findEurRate = (currency: string, on?: Date) => exchangeRateService.findEurRate(currency, on)
+
+export const listLatestExchangeRates = () => exchangeRateService.listLatest()
+
+export const getConversionRate = (from: string, to: string) =>
+  exchangeRateService.getConversionRate(from, to)
+
+export const snapshotSaleRate = (currency: string, at?: Date) =>
+  exchangeRateService.snapshotSaleRate(currency, at)
+
+export const getSalesByCurrency = (year: number, month: number) =>
+  exchangeRateService.getSalesByCurrency(year, month)
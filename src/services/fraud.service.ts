@@ -19,6 +19,10 @@ export const FRAUD_THRESHOLDS = {
   // New account bidding on high-value items
   NEW_ACCOUNT_DAYS: 7,
   NEW_ACCOUNT_BID_LIMIT: 5000, // €5,000
+  // Approved bid retractions within the lookback window
+  RETRACTION_LOOKBACK_DAYS: 90,
+  RETRACTION_ALERT_COUNT: 2,
+  RETRACTION_HIGH_COUNT: 4,
 }
 
 export type FraudCheckResult = {
@@ -103,6 +107,10 @@ export async function runBidFraudChecks(params: {
   const surgeAlert = checkLastMinuteSurge(auction.bids, auction.currentEndTime)
   if (surgeAlert) {alerts.push(surgeAlert)}
 
+  // 8. Check for a history of retracted bids
+  const retractionAlert = await checkRetractionHistory(userId)
+  if (retractionAlert) {alerts.push(retractionAlert)}
+
   // Create alerts in database
   for (const alert of alerts) {
     await createFraudAlert({
@@ -342,6 +350,66 @@ function checkLastMinuteSurge(
   return null
 }
 
+/**
+ * Count a bidder's approved retractions within the lookback window
+ */
+async function countRecentRetractions(userId: string): Promise<number> {
+  const since = new Date(Date.now() - FRAUD_THRESHOLDS.RETRACTION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+
+  return prisma.bidRetraction.count({
+    where: { bidderId: userId, status: 'APPROVED', reviewedAt: { gte: since } },
+  })
+}
+
+/**
+ * Check if the bidder keeps retracting bids (bids they may not stand behind)
+ */
+async function checkRetractionHistory(
+  userId: string
+): Promise<FraudCheckResult['alerts'][0] | null> {
+  const retractions = await countRecentRetractions(userId)
+
+  if (retractions >= FRAUD_THRESHOLDS.RETRACTION_ALERT_COUNT) {
+    return {
+      type: 'REPEATED_BID_RETRACTION',
+      severity: retractions >= FRAUD_THRESHOLDS.RETRACTION_HIGH_COUNT ? 'HIGH' : 'MEDIUM',
+      message: `Bidder retracted ${retractions} bids in the last ${FRAUD_THRESHOLDS.RETRACTION_LOOKBACK_DAYS} days`,
+      details: {
+        retractions,
+        lookbackDays: FRAUD_THRESHOLDS.RETRACTION_LOOKBACK_DAYS,
+        threshold: FRAUD_THRESHOLDS.RETRACTION_ALERT_COUNT,
+      },
+    }
+  }
+
+  return null
+}
+
+/**
+ * Record an approved bid retraction against the bidder.
+ * Raises an alert once retractions repeat; later bids are checked again by runBidFraudChecks.
+ */
+export async function recordBidRetraction(params: {
+  userId: string
+  auctionId: string
+  bidId: string
+}): Promise<FraudAlert | null> {
+  const alert = await checkRetractionHistory(params.userId)
+
+  if (!alert) {
+    return null
+  }
+
+  return createFraudAlert({
+    userId: params.userId,
+    auctionId: params.auctionId,
+    bidId: params.bidId,
+    alertType: alert.type,
+    severity: alert.severity,
+    details: alert.details,
+  })
+}
+
 /**
  * Create a fraud alert in the database
  */
@@ -459,9 +527,10 @@ export async function getUserFraudHistory(userId: string): Promise<{
   totalAlerts: number
   criticalAlerts: number
   recentAlerts: FraudAlert[]
+  recentRetractions: number
   isSuspicious: boolean
 }> {
-  const [totalAlerts, criticalAlerts, recentAlerts] = await Promise.all([
+  const [totalAlerts, criticalAlerts, recentAlerts, recentRetractions] = await Promise.all([
     prisma.fraudAlert.count({ where: { userId } }),
     prisma.fraudAlert.count({ where: { userId, severity: 'CRITICAL' } }),
     prisma.fraudAlert.findMany({
@@ -469,10 +538,14 @@ export async function getUserFraudHistory(userId: string): Promise<{
       orderBy: { createdAt: 'desc' },
       take: 10,
     }),
+    countRecentRetractions(userId),
   ])
 
-  // User is suspicious if they have critical alerts or many total alerts
-  const isSuspicious = criticalAlerts > 0 || totalAlerts >= 5
+  // User is suspicious if they have critical alerts, many total alerts or keep retracting bids
+  const isSuspicious =
+    criticalAlerts > 0 ||
+    totalAlerts >= 5 ||
+    recentRetractions >= FRAUD_THRESHOLDS.RETRACTION_HIGH_COUNT
 
-  return { totalAlerts, criticalAlerts, recentAlerts, isSuspicious }
+  return { totalAlerts, criticalAlerts, recentAlerts, recentRetractions, isSuspicious }
 }
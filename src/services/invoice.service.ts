@@ -0,0 +1,328 @@
+// Invoice Service - numbered buyer fee invoices with PDF and e-Factura (UBL) copies
+import { PrismaClient, Prisma, Invoice } from '@prisma/client'
+import { INVOICE_CONFIG } from '@/config/invoice.config'
+import {
+  calculateInvoiceAmounts,
+  determineVat,
+  formatInvoiceNumber,
+  getMonthRange,
+} from '@/domain/invoice/rules'
+import { getBnrRate, type BnrRate, type InvoiceRateSource } from '@/lib/bnr-rates'
+import { renderInvoicePdf } from '@/lib/invoice-pdf'
+import { renderInvoiceUbl } from '@/lib/invoice-ubl'
+import { NotFoundError, ValidationError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import type { IStorageService } from './contracts/storage.interface'
+
+export type InvoiceFormat = 'pdf' | 'xml'
+
+export type InvoiceViewer = {
+  userId: string
+  isAdmin: boolean
+}
+
+export type InvoiceSummary = Pick<
+  Invoice,
+  'id' | 'number' | 'auctionId' | 'currency' | 'totalAmount' | 'vatTreatment' | 'issuedAt'
+>
+
+const CSV_COLUMNS = [
+  'number',
+  'issued_at',
+  'buyer_name',
+  'buyer_country',
+  'buyer_vat_number',
+  'vat_treatment',
+  'currency',
+  'net_amount',
+  'vat_rate',
+  'vat_amount',
+  'total_amount',
+  'exchange_rate',
+  'exchange_rate_date',
+  'vat_amount_ron',
+  'auction_id',
+]
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export class InvoiceService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly storage: IStorageService,
+    private readonly getExchangeRate: InvoiceRateSource = getBnrRate
+  ) {}
+
+  /**
+   * Issue the invoice for an auction's paid buyer fee. Safe to call from every
+   * payment path: an auction gets one invoice, and a repeat call returns it.
+   * Fees waived entirely by a promo code are not invoiced.
+   */
+  async issueBuyerFeeInvoice(auctionId: string): Promise<Invoice | null> {
+    const existing = await this.prisma.invoice.findUnique({ where: { auctionId } })
+    if (existing) {
+      return existing
+    }
+
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      select: {
+        currency: true,
+        paymentStatus: true,
+        buyerFeeAmount: true,
+        listing: { select: { title: true } },
+        bankTransfer: { select: { status: true } },
+        winner: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            country: true,
+            billingCompanyName: true,
+            billingVatNumber: true,
+            billingAddress: true,
+            billingCity: true,
+            billingRegion: true,
+          },
+        },
+      },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    if (auction.paymentStatus !== 'PAID' || !auction.winner) {
+      throw new ValidationError(
+        'The buyer fee has not been paid yet',
+        ERROR_CODES.INVOICE_NOT_PAID
+      )
+    }
+
+    const fee = Number(auction.buyerFeeAmount ?? 0)
+    if (fee <= 0) {
+      return null
+    }
+
+    const buyer = auction.winner
+    const buyerVatNumber = buyer.billingVatNumber?.trim() || null
+    const vat = determineVat(
+      { country: buyer.country, vatNumber: buyerVatNumber },
+      INVOICE_CONFIG.vatRate
+    )
+    const amounts = calculateInvoiceAmounts(fee, vat)
+
+    let exchangeRate: BnrRate | null = null
+    if (auction.currency !== 'RON') {
+      exchangeRate = await this.getExchangeRate(auction.currency).catch((error) => {
+        logError(paymentLogger, 'Failed to fetch BNR exchange rate', error, { auctionId })
+        return null
+      })
+    }
+
+    const series = INVOICE_CONFIG.series
+
+    let invoice: Invoice
+    try {
+      // The counter row lock serializes issuers, and a failed insert rolls the
+      // increment back, so numbers have no gaps
+      invoice = await this.prisma.$transaction(async (tx) => {
+        const { lastValue } = await tx.invoiceSequence.upsert({
+          where: { series },
+          create: { series, lastValue: 1 },
+          update: { lastValue: { increment: 1 } },
+        })
+
+        return tx.invoice.create({
+          data: {
+            series,
+            sequence: lastValue,
+            number: formatInvoiceNumber(series, lastValue),
+            auctionId,
+            userId: buyer.id,
+            description: `Comision cumparator / Buyer fee: ${auction.listing.title}`,
+            currency: auction.currency,
+            netAmount: amounts.net,
+            vatTreatment: vat.treatment,
+            vatRate: vat.rate,
+            vatAmount: amounts.vat,
+            totalAmount: amounts.total,
+            exchangeRate: exchangeRate?.rate ?? null,
+            exchangeRateDate: exchangeRate?.rateDate ?? null,
+            paymentMeans: auction.bankTransfer?.status === 'MATCHED' ? 'CREDIT_TRANSFER' : 'CARD',
+            buyerName: buyer.billingCompanyName || buyer.name || buyer.email,
+            buyerEmail: buyer.email,
+            buyerCountry: (buyer.country || 'RO').toUpperCase(),
+            buyerVatNumber,
+            buyerAddress: buyer.billingAddress,
+            buyerCity: buyer.billingCity,
+            buyerRegion: buyer.billingRegion,
+          },
+        })
+      })
+    } catch (error) {
+      // Another payment path issued it first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const issued = await this.prisma.invoice.findUnique({ where: { auctionId } })
+        if (issued) {
+          return issued
+        }
+      }
+      throw error
+    }
+
+    paymentLogger.info({ auctionId, invoiceNumber: invoice.number }, 'Buyer fee invoice issued')
+
+    // The invoice stands even if storage is down; files are rebuilt on download
+    try {
+      return await this.storeFiles(invoice)
+    } catch (error) {
+      logError(paymentLogger, 'Failed to store invoice files', error, { invoiceId: invoice.id })
+      return invoice
+    }
+  }
+
+  /**
+   * Short-lived link to an invoice file, for its buyer or an admin
+   */
+  async getDownloadUrl(
+    invoiceId: string,
+    format: InvoiceFormat,
+    viewer: InvoiceViewer
+  ): Promise<string> {
+    let invoice = await this.prisma.invoice.findUnique({ where: { id: invoiceId } })
+
+    if (!invoice || (!viewer.isAdmin && invoice.userId !== viewer.userId)) {
+      throw new NotFoundError('Invoice not found', ERROR_CODES.INVOICE_NOT_FOUND)
+    }
+
+    if (!invoice.pdfKey || !invoice.xmlKey) {
+      invoice = await this.storeFiles(invoice)
+    }
+
+    return this.storage.getSignedDownloadUrl(
+      (format === 'pdf' ? invoice.pdfKey : invoice.xmlKey)!,
+      300
+    )
+  }
+
+  /**
+   * The buyer's invoices, newest first
+   */
+  async listUserInvoices(userId: string): Promise<InvoiceSummary[]> {
+    return this.prisma.invoice.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        number: true,
+        auctionId: true,
+        currency: true,
+        totalAmount: true,
+        vatTreatment: true,
+        issuedAt: true,
+      },
+      orderBy: { issuedAt: 'desc' },
+    })
+  }
+
+  /**
+   * Invoices issued in a calendar month (UTC), in number order
+   */
+  async listMonth(year: number, month: number): Promise<Invoice[]> {
+    const { from, to } = getMonthRange(year, month)
+
+    return this.prisma.invoice.findMany({
+      where: { issuedAt: { gte: from, lt: to } },
+      orderBy: [{ series: 'asc' }, { sequence: 'asc' }],
+    })
+  }
+
+  /**
+   * Monthly sales register as CSV, for the accountant
+   */
+  async exportMonthCsv(year: number, month: number): Promise<string> {
+    const invoices = await this.listMonth(year, month)
+
+    const rows = invoices.map((invoice) =>
+      [
+        invoice.number,
+        invoice.issuedAt.toISOString().slice(0, 10),
+        invoice.buyerName,
+        invoice.buyerCountry,
+        invoice.buyerVatNumber,
+        invoice.vatTreatment,
+        invoice.currency,
+        Number(invoice.netAmount).toFixed(2),
+        Number(invoice.vatRate).toFixed(2),
+        Number(invoice.vatAmount).toFixed(2),
+        Number(invoice.totalAmount).toFixed(2),
+        invoice.exchangeRate === null ? null : Number(invoice.exchangeRate).toFixed(4),
+        invoice.exchangeRateDate?.toISOString().slice(0, 10),
+        invoice.currency === 'RON'
+          ? Number(invoice.vatAmount).toFixed(2)
+          : invoice.exchangeRate === null
+            ? null
+            : (Number(invoice.vatAmount) * Number(invoice.exchangeRate)).toFixed(2),
+        invoice.auctionId,
+      ]
+        .map(csvCell)
+        .join(',')
+    )
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+  }
+
+  /**
+   * Render both files and upload them under invoices/<year>/<number>
+   */
+  private async storeFiles(invoice: Invoice): Promise<Invoice> {
+    const base = `invoices/${invoice.issuedAt.getUTCFullYear()}/${invoice.number}`
+
+    const [pdf, xml] = await Promise.all([
+      this.storage.uploadToR2(renderInvoicePdf(invoice), `${base}.pdf`, 'application/pdf'),
+      this.storage.uploadToR2(
+        Buffer.from(renderInvoiceUbl(invoice), 'utf8'),
+        `${base}.xml`,
+        'application/xml'
+      ),
+    ])
+
+    return this.prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { pdfKey: pdf.key, xmlKey: xml.key },
+    })
+  }
+}
+
+// Factory function for creating invoice service with default dependencies
+import { prisma } from '@/lib/db'
+import * as r2Service from '@/lib/r2'
+
+export function createInvoiceService(): InvoiceService {
+  return new InvoiceService(prisma, r2Service)
+}
+
+// Default instance for backward compatibility
+const invoiceService = createInvoiceService()
+
+// Export individual functions
+export const issueBuyerFeeInvoice = (auctionId: string) =>
+  invoiceService.issueBuyerFeeInvoice(auctionId)
+
+export const getInvoiceDownloadUrl = (
+  invoiceId: string,
+  format: InvoiceFormat,
+  viewer: InvoiceViewer
+) => invoiceService.getDownloadUrl(invoiceId, format, viewer)
+
+export const listUserInvoices = (userId: string) => invoiceService.listUserInvoices(userId)
+
+export const listMonthInvoices = (year: number, month: number) =>
+  invoiceService.listMonth(year, month)
+
+export const exportMonthInvoicesCsv = (year: number, month: number) =>
+  invoiceService.exportMonthCsv(year, month)
@@ -0,0 +1,190 @@
+// Listing Revision Service - snapshots of every listing edit and the diffs reviewers see
+import { PrismaClient, Prisma, ListingRevision, ListingRevisionSource } from '@prisma/client'
+import { lockListingRow } from '@/lib/db-lock'
+import { NotFoundError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import {
+  ListingSnapshot,
+  RevisionDiff,
+  RevisionField,
+  RevisionValue,
+  changedFields,
+  diffSnapshots,
+  snapshotListing,
+} from '@/domain/listing/revisions'
+
+export type RevisionSummary = Pick<
+  ListingRevision,
+  'id' | 'number' | 'source' | 'changedFields' | 'reviewedById' | 'reviewedAt' | 'createdAt'
+> & {
+  author: { id: string; name: string | null; email: string } | null
+}
+
+export type ReviewDiff = {
+  revisions: RevisionSummary[] // Newest first
+  current: number | null
+  baseline: number | null // Revision the diff starts from
+  diff: RevisionDiff | null
+}
+
+const SUMMARY_SELECT = {
+  id: true,
+  number: true,
+  source: true,
+  changedFields: true,
+  reviewedById: true,
+  reviewedAt: true,
+  createdAt: true,
+  author: { select: { id: true, name: true, email: true } },
+} as const
+
+export class ListingRevisionService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Snapshot the listing as it is now. A save that changed nothing since the
+   * latest revision, such as submitting right after an edit, adds no
+   * revision; the latest one is returned instead. The author defaults to
+   * the seller.
+   */
+  async record(
+    listingId: string,
+    source: ListingRevisionSource,
+    authorId?: string
+  ): Promise<ListingRevision> {
+    return this.prisma.$transaction(async (tx) => {
+      await lockListingRow(tx, listingId)
+
+      const listing = await tx.listing.findUnique({
+        where: { id: listingId },
+        include: { media: true },
+      })
+
+      if (!listing) {
+        throw new NotFoundError('Listing not found', ERROR_CODES.LISTING_NOT_FOUND)
+      }
+
+      const latest = await tx.listingRevision.findFirst({
+        where: { listingId },
+        orderBy: { number: 'desc' },
+      })
+
+      const snapshot = snapshotListing(listing)
+      const changed = changedFields(latest ? (latest.snapshot as ListingSnapshot) : null, snapshot)
+
+      if (latest && changed.length === 0) {
+        return latest
+      }
+
+      return tx.listingRevision.create({
+        data: {
+          listingId,
+          number: (latest?.number ?? 0) + 1,
+          source,
+          authorId: authorId ?? listing.sellerId,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue,
+          changedFields: changed,
+        },
+      })
+    })
+  }
+
+  /**
+   * Note that a reviewer has seen the listing as it is now, so their next
+   * review diffs against this version
+   */
+  async markReviewed(listingId: string, reviewerId: string): Promise<ListingRevision> {
+    // Listings submitted before revisions were kept get their first one here
+    const revision = await this.record(listingId, 'SUBMISSION')
+
+    return this.prisma.listingRevision.update({
+      where: { id: revision.id },
+      data: { reviewedById: reviewerId, reviewedAt: new Date() },
+    })
+  }
+
+  /**
+   * Changes from the revision the reviewer last reviewed (or, if they never
+   * did, the last one anybody reviewed) to the latest. `from` diffs against
+   * a chosen revision instead.
+   */
+  async getReviewDiff(listingId: string, reviewerId: string, from?: number): Promise<ReviewDiff> {
+    const revisions = await this.prisma.listingRevision.findMany({
+      where: { listingId },
+      orderBy: { number: 'desc' },
+      select: { ...SUMMARY_SELECT, snapshot: true },
+    })
+
+    if (revisions.length === 0) {
+      return { revisions: [], current: null, baseline: null, diff: null }
+    }
+
+    const [latest] = revisions
+    const baseline =
+      from !== undefined
+        ? revisions.find((r) => r.number === from)
+        : revisions.find((r) => r.reviewedById === reviewerId) ??
+          revisions.find((r) => r.reviewedAt !== null)
+
+    if (from !== undefined && !baseline) {
+      throw new NotFoundError(
+        `Revision ${from} does not exist`,
+        ERROR_CODES.LISTING_REVISION_NOT_FOUND
+      )
+    }
+
+    return {
+      revisions: revisions.map(({ snapshot: _snapshot, ...summary }) => summary),
+      current: latest.number,
+      baseline: baseline?.number ?? null,
+      diff: baseline
+        ? diffSnapshots(baseline.snapshot as ListingSnapshot, latest.snapshot as ListingSnapshot)
+        : null,
+    }
+  }
+
+  /**
+   * Value a field had in a revision
+   */
+  async getFieldValue(listingId: string, number: number, field: RevisionField): Promise<RevisionValue> {
+    const revision = await this.prisma.listingRevision.findUnique({
+      where: { listingId_number: { listingId, number } },
+      select: { snapshot: true },
+    })
+
+    if (!revision) {
+      throw new NotFoundError(
+        `Revision ${number} does not exist`,
+        ERROR_CODES.LISTING_REVISION_NOT_FOUND
+      )
+    }
+
+    return (revision.snapshot as ListingSnapshot).fields[field] ?? null
+  }
+}
+
+// Factory function for creating listing revision service with default dependencies
+import { prisma } from '@/lib/db'
+
+export function createListingRevisionService(): ListingRevisionService {
+  return new ListingRevisionService(prisma)
+}
+
+// Default instance for backward compatibility
+const listingRevisionService = createListingRevisionService()
+
+// Export individual functions
+export const recordListingRevision = (
+  listingId: string,
+  source: ListingRevisionSource,
+  authorId?: string
+) => listingRevisionService.record(listingId, source, authorId)
+
+export const markListingRevisionReviewed = (listingId: string, reviewerId: string) =>
+  listingRevisionService.markReviewed(listingId, reviewerId)
+
+export const getListingReviewDiff = (listingId: string, reviewerId: string, from?: number) =>
+  listingRevisionService.getReviewDiff(listingId, reviewerId, from)
+
+export const getListingRevisionValue = (listingId: string, number: number, field: RevisionField) =>
+  listingRevisionService.getFieldValue(listingId, number, field)
@@ -2,6 +2,12 @@ import { prisma } from '@/lib/db'
 import { uploadToR2, deleteFromR2, generateMediaKey } from '@/lib/r2'
 import { LISTING_RULES, validatePhotos } from '@/domain/listing/rules'
 import { listingStatusValidator } from '@/services/validators/listing-status.validator'
+import {
+  recordListingRevision,
+  markListingRevisionReviewed,
+  getListingRevisionValue,
+} from '@/services/listing-revision.service'
+import type { RevisionField } from '@/domain/listing/revisions'
 import type {
   Listing,
   ListingMedia,
@@ -99,10 +105,14 @@ export async function updateListing(
     throw new Error('Cannot edit listing in current status')
   }
 
-  return prisma.listing.update({
+  const updated = await prisma.listing.update({
     where: { id },
     data: input,
   })
+
+  await recordListingRevision(id, 'SELLER', sellerId)
+
+  return updated
 }
 
 export async function addMedia(input: AddMediaInput): Promise<ListingMedia> {
@@ -138,7 +148,7 @@ export async function addMedia(input: AddMediaInput): Promise<ListingMedia> {
   const uploadResult = await uploadToR2(input.file, key, input.mimeType)
 
   // Create media record
-  return prisma.listingMedia.create({
+  const media = await prisma.listingMedia.create({
     data: {
       listingId: input.listingId,
       type: input.type,
@@ -152,6 +162,10 @@ export async function addMedia(input: AddMediaInput): Promise<ListingMedia> {
       mimeType: input.mimeType,
     },
   })
+
+  await recordListingRevision(input.listingId, 'SELLER', listing.sellerId)
+
+  return media
 }
 
 export async function updateMedia(
@@ -198,10 +212,14 @@ export async function updateMedia(
   }
 
   // Update the media
-  return prisma.listingMedia.update({
+  const updated = await prisma.listingMedia.update({
     where: { id: mediaId },
     data: updates,
   })
+
+  await recordListingRevision(media.listingId, 'SELLER', sellerId)
+
+  return updated
 }
 
 export async function removeMedia(
@@ -228,6 +246,8 @@ export async function removeMedia(
   await prisma.listingMedia.delete({
     where: { id: mediaId },
   })
+
+  await recordListingRevision(media.listingId, 'SELLER', sellerId)
 }
 
 export async function submitForReview(
@@ -258,13 +278,18 @@ export async function submitForReview(
   }
 
   // Update status
-  return prisma.listing.update({
+  const submitted = await prisma.listing.update({
     where: { id: listingId },
     data: {
       status: 'PENDING_REVIEW',
       submittedAt: new Date(),
     },
   })
+
+  // Reviewers diff this version against the one they last reviewed
+  await recordListingRevision(listingId, 'SUBMISSION', sellerId)
+
+  return submitted
 }
 
 export async function getListingById(id: string): Promise<
@@ -339,7 +364,7 @@ export async function approveListing(
     throw new Error('Listing is not pending review')
   }
 
-  return prisma.listing.update({
+  const approved = await prisma.listing.update({
     where: { id: listingId },
     data: {
       status: 'APPROVED',
@@ -348,6 +373,10 @@ export async function approveListing(
       approvedAt: new Date(),
     },
   })
+
+  await markListingRevisionReviewed(listingId, reviewerId)
+
+  return approved
 }
 
 export async function rejectListing(
@@ -367,7 +396,7 @@ export async function rejectListing(
     throw new Error('Listing is not pending review')
   }
 
-  return prisma.listing.update({
+  const rejected = await prisma.listing.update({
     where: { id: listingId },
     data: {
       status: 'REJECTED',
@@ -376,6 +405,10 @@ export async function rejectListing(
       rejectionReason: reason,
     },
   })
+
+  await markListingRevisionReviewed(listingId, reviewerId)
+
+  return rejected
 }
 
 export async function requestChanges(
@@ -395,7 +428,7 @@ export async function requestChanges(
     throw new Error('Listing is not pending review')
   }
 
-  return prisma.listing.update({
+  const updated = await prisma.listing.update({
     where: { id: listingId },
     data: {
       status: 'CHANGES_REQUESTED',
@@ -404,6 +437,11 @@ export async function requestChanges(
       changeRequests: changes,
     },
   })
+
+  // The seller's resubmission is diffed against what the reviewer saw here
+  await markListingRevisionReviewed(listingId, reviewerId)
+
+  return updated
 }
 
 // ============================================================================
@@ -450,6 +488,7 @@ const BLOCKED_URL_PATTERNS = [
 export type AdminUpdateListingOptions = {
   adminOverride?: boolean
   adminRole: 'ADMIN' | 'MODERATOR'
+  revisionSource?: 'ADMIN' | 'REVERT'
 }
 
 export type AdminUpdateListingResult = {
@@ -571,6 +610,8 @@ export async function adminUpdateListing(
     },
   })
 
+  await recordListingRevision(listingId, options.revisionSource ?? 'ADMIN', adminId)
+
   return {
     listing: updatedListing,
     wasRestricted: isRestrictedStatus,
@@ -610,6 +651,7 @@ export async function adminGetListing(listingId: string) {
 export async function adminAddMediaByUrl(
   listingId: string,
   url: string,
+  adminId: string,
   options?: { category?: string; isPrimary?: boolean }
 ): Promise<ListingMedia> {
   // Validate URL for security
@@ -645,7 +687,7 @@ export async function adminAddMediaByUrl(
   }
 
   // Create media record
-  return prisma.listingMedia.create({
+  const media = await prisma.listingMedia.create({
     data: {
       listingId,
       type: 'PHOTO',
@@ -657,6 +699,10 @@ export async function adminAddMediaByUrl(
       category: options?.category,
     },
   })
+
+  await recordListingRevision(listingId, 'ADMIN', adminId)
+
+  return media
 }
 
 /**
@@ -665,7 +711,8 @@ export async function adminAddMediaByUrl(
 export async function adminUpdateMedia(
   mediaId: string,
   listingId: string,
-  updates: { position?: number; isPrimary?: boolean; category?: string }
+  updates: { position?: number; isPrimary?: boolean; category?: string },
+  adminId: string
 ): Promise<ListingMedia> {
   // Check media exists and belongs to listing
   const existingMedia = await prisma.listingMedia.findFirst({
@@ -684,10 +731,14 @@ export async function adminUpdateMedia(
     })
   }
 
-  return prisma.listingMedia.update({
+  const media = await prisma.listingMedia.update({
     where: { id: mediaId },
     data: updates,
   })
+
+  await recordListingRevision(listingId, 'ADMIN', adminId)
+
+  return media
 }
 
 /**
@@ -695,7 +746,8 @@ export async function adminUpdateMedia(
  */
 export async function adminDeleteMedia(
   mediaId: string,
-  listingId: string
+  listingId: string,
+  adminId: string
 ): Promise<{ deletedPosition: number; mediaUrl: string }> {
   // Check media exists and belongs to listing
   const existingMedia = await prisma.listingMedia.findFirst({
@@ -740,5 +792,25 @@ export async function adminDeleteMedia(
     }
   }
 
+  await recordListingRevision(listingId, 'ADMIN', adminId)
+
   return { deletedPosition, mediaUrl }
 }
+
+/**
+ * Admin revert one field to the value it had in an earlier revision
+ */
+export async function adminRevertListingField(
+  listingId: string,
+  adminId: string,
+  revision: number,
+  field: RevisionField,
+  options: AdminUpdateListingOptions
+): Promise<AdminUpdateListingResult> {
+  const value = await getListingRevisionValue(listingId, revision, field)
+
+  return adminUpdateListing(listingId, adminId, { [field]: value } as UpdateListingInput, {
+    ...options,
+    revisionSource: 'REVERT',
+  })
+}
@@ -0,0 +1,182 @@
+// Live Auction Service - auctioneer console for hosted "live finale" sales
+import { prisma } from '@/lib/db'
+import { Auction, AuctioneerCall, AuctioneerEvent, BidChannel } from '@prisma/client'
+import { canMakeAuctioneerCall } from '@/domain/auction/rules'
+import { CHANNELS, getChannelSubscriptionCount } from '@/lib/pusher'
+import { endAuction } from './auction.service'
+import { broadcastAuctioneerCall, broadcastAuctionEnded } from './notification.service'
+import { auctionLogger } from '@/lib/logger'
+import {
+  NotFoundError,
+  AuctionStateError,
+  AuctionNotActiveError,
+  ConflictError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+export type LiveConsole = {
+  auction: {
+    id: string
+    title: string
+    status: string
+    currency: string
+    currentBid: number | null
+    bidCount: number
+    reservePrice: number | null
+    reserveMet: boolean
+    currentEndTime: Date
+    liveFinale: boolean
+    liveCall: AuctioneerCall | null
+  }
+  bids: Array<{
+    id: string
+    amount: number
+    bidderNumber: number
+    bidderCountry: string | null
+    channel: BidChannel
+    isProxy: boolean
+    createdAt: Date
+  }>
+  events: AuctioneerEvent[]
+  // null when the Pusher app does not report subscription counts
+  presenceCount: number | null
+}
+
+/**
+ * Get everything the auctioneer console shows: bid stream, reserve status and presence
+ */
+export async function getLiveConsole(auctionId: string): Promise<LiveConsole> {
+  const auction = await prisma.auction.findUnique({
+    where: { id: auctionId },
+    include: {
+      listing: { select: { title: true } },
+      bids: {
+        where: { isValid: true },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      },
+      auctioneerEvents: { orderBy: { createdAt: 'desc' }, take: 20 },
+    },
+  })
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+  }
+
+  const presenceCount = await getChannelSubscriptionCount(CHANNELS.auction(auctionId))
+
+  return {
+    auction: {
+      id: auction.id,
+      title: auction.listing.title,
+      status: auction.status,
+      currency: auction.currency,
+      currentBid: auction.currentBid ? Number(auction.currentBid) : null,
+      bidCount: auction.bidCount,
+      reservePrice: auction.reservePrice ? Number(auction.reservePrice) : null,
+      reserveMet: auction.reserveMet,
+      currentEndTime: auction.currentEndTime,
+      liveFinale: auction.liveFinale,
+      liveCall: auction.liveCall,
+    },
+    bids: auction.bids.map((bid) => ({
+      id: bid.id,
+      amount: Number(bid.amount),
+      bidderNumber: bid.bidderNumber,
+      bidderCountry: bid.bidderCountry,
+      channel: bid.channel,
+      isProxy: bid.isProxy,
+      createdAt: bid.createdAt,
+    })),
+    events: auction.auctioneerEvents,
+    presenceCount,
+  }
+}
+
+/**
+ * Make an auctioneer call on a live finale and record it as an auction event.
+ * "Sold" brings the hammer down and ends the auction (SOLD or NO_SALE by reserve).
+ */
+export async function makeAuctioneerCall(
+  auctionId: string,
+  actorId: string,
+  call: AuctioneerCall
+): Promise<{ event: AuctioneerEvent; auction: Auction }> {
+  const auction = await prisma.auction.findUnique({
+    where: { id: auctionId },
+  })
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+  }
+
+  if (!auction.liveFinale) {
+    throw new AuctionStateError(
+      'This auction is not run as a live finale',
+      ERROR_CODES.LIVE_FINALE_NOT_ENABLED
+    )
+  }
+
+  if (auction.status !== 'ACTIVE') {
+    throw new AuctionNotActiveError('Only a live auction can be called')
+  }
+
+  if (!canMakeAuctioneerCall(auction.liveCall, call)) {
+    throw new AuctionStateError(
+      `Cannot call ${call} after ${auction.liveCall ?? 'the last bid'}`,
+      ERROR_CODES.AUCTIONEER_CALL_OUT_OF_ORDER,
+      { currentCall: auction.liveCall }
+    )
+  }
+
+  const event = await prisma.$transaction(async (tx) => {
+    // A bid placed since the console loaded resets the calls; don't overwrite that
+    const updated = await tx.auction.updateMany({
+      where: { id: auctionId, status: 'ACTIVE', liveCall: auction.liveCall },
+      data: { liveCall: call },
+    })
+
+    if (updated.count === 0) {
+      throw new ConflictError(
+        'A new bid arrived before the call; start the calls again',
+        ERROR_CODES.AUCTIONEER_CALL_OUT_OF_ORDER
+      )
+    }
+
+    return tx.auctioneerEvent.create({
+      data: {
+        auctionId,
+        actorId,
+        call,
+        currentBid: auction.currentBid,
+        bidCount: auction.bidCount,
+      },
+    })
+  })
+
+  const currentBid = auction.currentBid ? Number(auction.currentBid) : null
+
+  await broadcastAuctioneerCall({
+    auctionId,
+    call,
+    currentBid,
+    timestamp: event.createdAt.toISOString(),
+  })
+
+  auctionLogger.info({ auctionId, call, currentBid }, 'Auctioneer call made')
+
+  if (call !== 'SOLD') {
+    return { event, auction: { ...auction, liveCall: call } }
+  }
+
+  const ended = await endAuction(auctionId)
+
+  await broadcastAuctionEnded({
+    auctionId,
+    status: ended.status as 'SOLD' | 'NO_SALE',
+    finalPrice: ended.finalPrice ? Number(ended.finalPrice) : null,
+    winnerId: ended.winnerId,
+  })
+
+  return { event, auction: ended }
+}
@@ -8,10 +8,13 @@
 import { prisma } from '@/lib/db'
 import type { Auction, Bid, User } from '@prisma/client'
 import { AuctionStatus } from '@prisma/client'
+import { calculateMinimumBid, parseBidIncrementTable } from '@/domain/auction/rules'
+import { placeBid } from './auction.service'
 import type {
   IMockBidGenerator,
   MockBidConfig,
   MockBidResult,
+  ConcurrentBidConfig,
 } from './contracts/mock-activity.interface'
 
 // =============================================================================
@@ -267,6 +270,70 @@ export class MockBidGenerator implements IMockBidGenerator {
     return results
   }
 
+  /**
+   * Fire a burst of bids at one auction at the same moment, through placeBid.
+   *
+   * Unlike generateBid this goes through the real bidding path (locking,
+   * validation, proxy resolution, bidder numbers), so it is meant for load and
+   * concurrency testing rather than demo activity. Amounts are spread over the
+   * next few increments so most bids compete for the same price.
+   */
+  async generateConcurrentBids(
+    auctionId: string,
+    bidders: User[],
+    config: ConcurrentBidConfig
+  ): Promise<MockBidResult[]> {
+    const auction = await prisma.auction.findUnique({ where: { id: auctionId } })
+
+    if (!auction || bidders.length === 0) {
+      return []
+    }
+
+    const startingPrice = auction.startingPrice.toNumber()
+    const incrementTable = parseBidIncrementTable(auction.bidIncrementTable)
+
+    // The next few valid amounts above the current price
+    const amounts: number[] = []
+    let price = auction.currentBid?.toNumber() ?? null
+    for (let step = 0; step < config.spreadIncrements; step++) {
+      const next = calculateMinimumBid(price, startingPrice, incrementTable)
+      amounts.push(next)
+      price = next
+    }
+
+    const attempts = Array.from({ length: config.bidCount }, (_, index) => {
+      const bidder = bidders[index % bidders.length]
+      const amount = amounts[Math.floor(Math.random() * amounts.length)]
+      // A maximum at the top of the spread makes proxies answer the other bids
+      const maxAmount =
+        Math.random() < config.maxBidProbability ? amounts[amounts.length - 1] : undefined
+
+      return placeBid(auctionId, bidder.id, amount, { maxAmount })
+        .then(
+          ({ bid, extended }): MockBidResult => ({
+            success: true,
+            bid,
+            auctionId,
+            bidderId: bidder.id,
+            amount,
+            triggeredExtension: extended,
+          })
+        )
+        .catch(
+          (error): MockBidResult => ({
+            success: false,
+            auctionId,
+            bidderId: bidder.id,
+            amount,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            errorCode: typeof error?.code === 'string' ? error.code : undefined,
+          })
+        )
+    })
+
+    return Promise.all(attempts)
+  }
+
   /**
    * Reset bid counts (call when starting a new session)
    */
@@ -0,0 +1,293 @@
+// Negotiation Service - post-auction offers between seller and high bidder when the reserve is not met
+import { prisma } from '@/lib/db'
+import { AuctionOffer, OfferParty } from '@prisma/client'
+import {
+  calculateBuyerFee,
+  parseFeeTerms,
+  calculatePaymentDeadline,
+} from '@/domain/auction/rules'
+import { AuctionAuditLogger } from '@/lib/audit'
+import { auctionLogger, logError } from '@/lib/logger'
+import {
+  NotFoundError,
+  ForbiddenError,
+  AuctionStateError,
+  BidValidationError,
+  ConflictError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { snapshotSaleRate } from '@/services/exchange-rate.service'
+
+export type Negotiation = {
+  auctionId: string
+  role: OfferParty
+  highBid: number
+  currency: string
+  endsAt: Date
+  isOpen: boolean
+  offers: AuctionOffer[]
+}
+
+const audit = new AuctionAuditLogger({})
+
+/**
+ * Load a NO_SALE auction's negotiation and work out which side the user is on
+ */
+async function loadNegotiation(auctionId: string, userId: string) {
+  const auction = await prisma.auction.findUnique({
+    where: { id: auctionId },
+    include: {
+      listing: { select: { sellerId: true, title: true } },
+      bids: {
+        where: { isWinning: true, isValid: true },
+        orderBy: { createdAt: 'desc' },
+        take: 1,
+      },
+      offers: { orderBy: { createdAt: 'asc' } },
+    },
+  })
+
+  if (!auction) {
+    throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+  }
+
+  const highBid = auction.bids[0]
+  if (auction.status !== 'NO_SALE' || !auction.negotiationEndsAt || !highBid) {
+    throw new AuctionStateError(
+      'This auction has no post-auction negotiation',
+      ERROR_CODES.NEGOTIATION_CLOSED
+    )
+  }
+
+  let role: OfferParty
+  if (userId === auction.listing.sellerId) {
+    role = 'SELLER'
+  } else if (userId === highBid.bidderId) {
+    role = 'BUYER'
+  } else {
+    throw new ForbiddenError('Only the seller and the high bidder can negotiate')
+  }
+
+  return {
+    auction,
+    highBid,
+    role,
+    endsAt: auction.negotiationEndsAt,
+    isOpen: auction.negotiationEndsAt > new Date(),
+  }
+}
+
+/**
+ * Get the negotiation state for the seller or high bidder
+ */
+export async function getNegotiation(auctionId: string, userId: string): Promise<Negotiation> {
+  const { auction, highBid, role, endsAt, isOpen } = await loadNegotiation(auctionId, userId)
+
+  return {
+    auctionId,
+    role,
+    highBid: Number(highBid.amount),
+    currency: auction.currency,
+    endsAt,
+    isOpen,
+    offers: auction.offers,
+  }
+}
+
+/**
+ * Make an offer, or counter the other side's pending offer
+ */
+export async function makeOffer(
+  auctionId: string,
+  userId: string,
+  amount: number
+): Promise<AuctionOffer> {
+  const { auction, highBid, role, isOpen } = await loadNegotiation(auctionId, userId)
+
+  if (!isOpen) {
+    throw new AuctionStateError(
+      'The negotiation window for this auction is closed',
+      ERROR_CODES.NEGOTIATION_CLOSED
+    )
+  }
+
+  // The high bid is already committed, so no offer may go below it
+  const minimum = Number(highBid.amount)
+  if (amount < minimum) {
+    throw new BidValidationError(
+      `Offer must be at least ${auction.currency} ${minimum.toLocaleString()}`,
+      ERROR_CODES.OFFER_TOO_LOW,
+      { minimum }
+    )
+  }
+
+  const pending = auction.offers.find((o) => o.status === 'PENDING')
+  if (pending && pending.madeBy === role) {
+    throw new ConflictError(
+      'Your previous offer is still awaiting a response',
+      ERROR_CODES.OFFER_AWAITING_RESPONSE
+    )
+  }
+
+  const offer = await prisma.$transaction(async (tx) => {
+    if (pending) {
+      await tx.auctionOffer.update({
+        where: { id: pending.id },
+        data: { status: 'COUNTERED', respondedAt: new Date() },
+      })
+    }
+
+    return tx.auctionOffer.create({
+      data: {
+        auctionId,
+        buyerId: highBid.bidderId,
+        madeBy: role,
+        amount,
+      },
+    })
+  })
+
+  await audit.logNegotiationOffer(auctionId, offer.id, userId, role, amount)
+
+  const recipientId = role === 'SELLER' ? highBid.bidderId : auction.listing.sellerId
+  import('./notification.service')
+    .then(({ notifyNegotiationOffer }) =>
+      notifyNegotiationOffer(
+        recipientId,
+        auctionId,
+        auction.listing.title,
+        amount,
+        auction.currency,
+        pending ? 'counter' : 'offer'
+      )
+    )
+    .catch((error) => {
+      logError(auctionLogger, 'Failed to notify negotiation offer', error, { auctionId })
+    })
+
+  return offer
+}
+
+/**
+ * Accept or decline the other side's pending offer.
+ * Accepting converts the auction to SOLD exactly like a normal win.
+ */
+export async function respondToOffer(
+  auctionId: string,
+  offerId: string,
+  userId: string,
+  action: 'accept' | 'decline'
+): Promise<AuctionOffer> {
+  const offer = await prisma.auctionOffer.findUnique({
+    where: { id: offerId },
+  })
+
+  if (!offer || offer.auctionId !== auctionId) {
+    throw new NotFoundError('Offer not found', ERROR_CODES.OFFER_NOT_FOUND)
+  }
+
+  const { auction, highBid, role, isOpen } = await loadNegotiation(offer.auctionId, userId)
+
+  if (offer.madeBy === role) {
+    throw new ForbiddenError('You cannot respond to your own offer')
+  }
+
+  if (offer.status !== 'PENDING') {
+    throw new AuctionStateError(
+      'This offer has already been answered',
+      ERROR_CODES.OFFER_NOT_PENDING
+    )
+  }
+
+  if (!isOpen) {
+    throw new AuctionStateError(
+      'The negotiation window for this auction is closed',
+      ERROR_CODES.NEGOTIATION_CLOSED
+    )
+  }
+
+  const now = new Date()
+  const amount = Number(offer.amount)
+
+  if (action === 'decline') {
+    const declined = await prisma.auctionOffer.update({
+      where: { id: offer.id },
+      data: { status: 'DECLINED', respondedAt: now },
+    })
+
+    await audit.logNegotiationResolved(offer.auctionId, offer.id, userId, 'DECLINED', amount)
+
+    return declined
+  }
+
+  const saleRate = await snapshotSaleRate(auction.currency, now)
+
+  const accepted = await prisma.$transaction(async (tx) => {
+    // Guard against a concurrent accept converting the auction first
+    const converted = await tx.auction.updateMany({
+      where: { id: offer.auctionId, status: 'NO_SALE' },
+      data: {
+        status: 'SOLD',
+        winnerId: offer.buyerId,
+        winningBidId: highBid.id,
+        finalPrice: amount,
+        buyerFeeAmount: calculateBuyerFee(amount, parseFeeTerms(auction.feeTerms)),
+        paymentDeadline: calculatePaymentDeadline(now),
+        paymentStatus: 'UNPAID',
+        ...saleRate,
+      },
+    })
+
+    if (converted.count === 0) {
+      throw new AuctionStateError(
+        'This auction is no longer open for negotiation',
+        ERROR_CODES.NEGOTIATION_CLOSED
+      )
+    }
+
+    await tx.listing.update({
+      where: { id: auction.listingId },
+      data: { status: 'SOLD' },
+    })
+
+    return tx.auctionOffer.update({
+      where: { id: offer.id },
+      data: { status: 'ACCEPTED', respondedAt: now },
+    })
+  })
+
+  await audit.logNegotiationResolved(offer.auctionId, offer.id, userId, 'ACCEPTED', amount)
+
+  auctionLogger.info(
+    { auctionId: offer.auctionId, offerId: offer.id, amount },
+    'Auction sold through post-auction negotiation'
+  )
+
+  import('./notification.service')
+    .then(({ notifyAuctionWon }) =>
+      notifyAuctionWon(offer.buyerId, offer.auctionId, auction.listing.title, amount, auction.currency)
+    )
+    .catch((error) => {
+      logError(auctionLogger, 'Failed to notify negotiated winner', error, {
+        auctionId: offer.auctionId,
+      })
+    })
+
+  return accepted
+}
+
+/**
+ * Expire offers still pending when their negotiation window closed (called by cron)
+ * Returns count of expired offers
+ */
+export async function expireNegotiationOffers(): Promise<number> {
+  const result = await prisma.auctionOffer.updateMany({
+    where: {
+      status: 'PENDING',
+      auction: { negotiationEndsAt: { lte: new Date() } },
+    },
+    data: { status: 'EXPIRED' },
+  })
+
+  return result.count
+}
@@ -3,7 +3,9 @@ import { INotificationTransport } from './contracts/notification-transport.inter
 import { createNotificationTransport } from './pusher-notification-transport'
 import { EVENTS } from '@/lib/pusher'
 import { prisma } from '@/lib/db'
+import { EscrowStatus, RefundTarget } from '@prisma/client'
 import { formatBidderDisplay } from './bidder-number.service'
+import { isReserveMet } from '@/domain/auction/rules'
 import * as emailService from '@/lib/email'
 import { notificationLogger, logError } from '@/lib/logger'
 
@@ -19,6 +21,13 @@ export type NotificationType =
   | 'WATCHLIST_NEW_BID'
   | 'WATCHLIST_AUCTION_ENDED'
   | 'LICENSE_PLATE_DETECTED'
+  | 'SECOND_CHANCE_OFFER'
+  | 'NEGOTIATION_OPENED'
+  | 'NEGOTIATION_OFFER'
+  | 'RESERVE_LOWERED'
+  | 'BID_RETRACTION_REVIEWED'
+  | 'ESCROW_UPDATE'
+  | 'REFUND_ISSUED'
 
 export type NotificationPayload = {
   type: NotificationType
@@ -385,6 +394,189 @@ export async function notifyAuctionWon(
   }
 }
 
+/**
+ * Notify the next-highest bidder that a defaulted auction is offered to them
+ */
+export async function notifySecondChanceOffer(
+  bidderId: string,
+  auctionId: string,
+  listingTitle: string,
+  amount: number,
+  currency: string,
+  expiresAt: Date
+): Promise<void> {
+  await sendUserNotification(bidderId, {
+    type: 'SECOND_CHANCE_OFFER',
+    title: 'Second-Chance Offer',
+    message: `The winner of "${listingTitle}" did not complete payment. You can buy it for your last bid of ${currency} ${amount.toLocaleString()} until ${expiresAt.toLocaleString()}.`,
+    data: {
+      auctionId,
+      amount,
+      currency,
+      expiresAt: expiresAt.toISOString(),
+    },
+    link: `/auctions/${auctionId}`,
+  })
+}
+
+/**
+ * Tell a bidder whether their bid retraction request was approved
+ */
+export async function notifyBidRetractionReviewed(
+  bidderId: string,
+  auctionId: string,
+  listingTitle: string,
+  amount: number,
+  currency: string,
+  approved: boolean
+): Promise<void> {
+  await sendUserNotification(bidderId, {
+    type: 'BID_RETRACTION_REVIEWED',
+    title: approved ? 'Bid Retracted' : 'Bid Retraction Declined',
+    message: approved
+      ? `Your bid of ${currency} ${amount.toLocaleString()} on "${listingTitle}" has been retracted.`
+      : `Your bid of ${currency} ${amount.toLocaleString()} on "${listingTitle}" stands; the retraction request was declined.`,
+    data: { auctionId, amount, currency, approved },
+    link: `/auctions/${auctionId}`,
+  })
+}
+
+/**
+ * Notify the seller or high bidder that a reserve-not-met auction is open for negotiation
+ */
+export async function notifyNegotiationOpened(
+  userId: string,
+  auctionId: string,
+  listingTitle: string,
+  highBid: number,
+  currency: string,
+  endsAt: Date
+): Promise<void> {
+  await sendUserNotification(userId, {
+    type: 'NEGOTIATION_OPENED',
+    title: 'Reserve Not Met - Make an Offer',
+    message: `"${listingTitle}" ended at ${currency} ${highBid.toLocaleString()}, below the reserve. Seller and high bidder can exchange offers until ${endsAt.toLocaleString()}.`,
+    data: {
+      auctionId,
+      highBid,
+      currency,
+      endsAt: endsAt.toISOString(),
+    },
+    link: `/auctions/${auctionId}`,
+  })
+}
+
+/**
+ * Notify the other side of a new offer or counter-offer
+ */
+export async function notifyNegotiationOffer(
+  recipientId: string,
+  auctionId: string,
+  listingTitle: string,
+  amount: number,
+  currency: string,
+  kind: 'offer' | 'counter'
+): Promise<void> {
+  await sendUserNotification(recipientId, {
+    type: 'NEGOTIATION_OFFER',
+    title: kind === 'counter' ? 'New Counter-Offer' : 'New Offer',
+    message: `You received ${kind === 'counter' ? 'a counter-offer' : 'an offer'} of ${currency} ${amount.toLocaleString()} for "${listingTitle}".`,
+    data: {
+      auctionId,
+      amount,
+      currency,
+    },
+    link: `/auctions/${auctionId}`,
+  })
+}
+
+const ESCROW_MESSAGES: Record<
+  Exclude<EscrowStatus, 'AWAITING_FUNDS'>,
+  { title: string; message: (listingTitle: string) => string }
+> = {
+  FUNDED: {
+    title: 'Payment Held in Escrow',
+    message: (title) => `The buyer's payment for "${title}" is held in escrow. Arrange the handover and mark it done once the car is delivered.`,
+  },
+  HANDED_OVER: {
+    title: 'Car Handed Over',
+    message: (title) => `The seller reports "${title}" handed over. Confirm receipt, or report a problem before the inspection window closes.`,
+  },
+  DISPUTED: {
+    title: 'Escrow Frozen',
+    message: (title) => `A problem was reported with "${title}". The escrow is frozen until our team reviews it.`,
+  },
+  RELEASED: {
+    title: 'Escrow Released',
+    message: (title) => `The escrow for "${title}" has been released and the seller payout is on its way.`,
+  },
+  REFUNDED: {
+    title: 'Escrow Refunded',
+    message: (title) => `The escrow for "${title}" has been refunded to the buyer.`,
+  },
+}
+
+/**
+ * Tell buyer or seller that an escrow reached a new milestone
+ */
+export async function notifyEscrowMilestone(
+  userId: string,
+  auctionId: string,
+  listingTitle: string,
+  status: Exclude<EscrowStatus, 'AWAITING_FUNDS'>
+): Promise<void> {
+  const { title, message } = ESCROW_MESSAGES[status]
+  await sendUserNotification(userId, {
+    type: 'ESCROW_UPDATE',
+    title,
+    message: message(listingTitle),
+    data: { auctionId, status },
+    link: `/auctions/${auctionId}`,
+  })
+}
+
+/**
+ * Tell a buyer or bidder that a refund was issued, in-app and by email
+ */
+export async function notifyRefundIssued(
+  userId: string,
+  auctionId: string,
+  listingTitle: string,
+  amount: number,
+  currency: string,
+  target: RefundTarget
+): Promise<void> {
+  const what = target === 'DEPOSIT' ? 'bid deposit' : 'payment'
+
+  await sendUserNotification(userId, {
+    type: 'REFUND_ISSUED',
+    title: 'Refund Issued',
+    message: `We refunded ${currency} ${amount.toLocaleString()} of your ${what} for "${listingTitle}".`,
+    data: { auctionId, amount, currency, target },
+    link: `/auctions/${auctionId}`,
+  })
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, name: true },
+    })
+
+    if (user?.email) {
+      await emailService.sendRefundIssuedEmail(
+        user.email,
+        user.name || 'there',
+        listingTitle,
+        amount,
+        currency,
+        target === 'DEPOSIT' ? 'deposit' : 'payment'
+      )
+    }
+  } catch (emailError) {
+    logError(notificationLogger, 'Failed to send refund issued email', emailError, { auctionId, userId })
+  }
+}
+
 /**
  * Notify bidders who lost the auction
  */
@@ -521,6 +713,63 @@ export async function notifyWatchersNewBid(
   }
 }
 
+/**
+ * Notify watchers and bidders that the seller lowered the reserve
+ * The new reserve amount is not disclosed
+ */
+export async function notifyReserveLowered(
+  auctionId: string,
+  listingTitle: string,
+  reserveMet: boolean
+): Promise<void> {
+  try {
+    const [watchers, bidders] = await Promise.all([
+      prisma.watchlist.findMany({
+        where: { auctionId },
+        select: { userId: true },
+      }),
+      prisma.bid.findMany({
+        where: { auctionId, isValid: true },
+        select: { bidderId: true },
+        distinct: ['bidderId'],
+      }),
+    ])
+
+    const userIds = Array.from(
+      new Set([...watchers.map((w) => w.userId), ...bidders.map((b) => b.bidderId)])
+    )
+
+    if (userIds.length === 0) {
+      return
+    }
+
+    const message = reserveMet
+      ? `The seller lowered the reserve on "${listingTitle}" and the current bid now meets it`
+      : `The seller lowered the reserve on "${listingTitle}"`
+
+    const notificationPromises = userIds.map(userId =>
+      sendUserNotification(userId, {
+        type: 'RESERVE_LOWERED',
+        title: 'Reserve Lowered',
+        message,
+        data: {
+          auctionId,
+          reserveMet,
+        },
+        link: `/auctions/${auctionId}`,
+      }).catch(error => {
+        console.error(`Failed to notify user ${userId} of reserve change:`, error)
+      })
+    )
+
+    await Promise.allSettled(notificationPromises)
+    console.log(`Notified ${userIds.length} users about reserve change on auction ${auctionId}`)
+  } catch (error) {
+    // Don't throw - this shouldn't block the reserve change
+    console.error(`Failed to notify users of reserve change on auction ${auctionId}:`, error)
+  }
+}
+
 /**
  * Notify watchers about an auction ending (called from endAuction)
  */
@@ -713,6 +962,23 @@ export async function broadcastNewBid(data: {
   }
 }
 
+/**
+ * Broadcast that a sealed bid was placed or revised
+ * Carries no amount or bidder so the bids stay hidden until close
+ */
+export async function broadcastSealedBidPlaced(data: {
+  auctionId: string
+  bidCount: number
+  timestamp: string
+}): Promise<void> {
+  try {
+    await transport.send(`auction-${data.auctionId}`, EVENTS.SEALED_BID_PLACED, data)
+    console.log(`Broadcast sealed bid for auction ${data.auctionId}`)
+  } catch (error) {
+    console.error(`Failed to broadcast sealed bid for auction ${data.auctionId}:`, error)
+  }
+}
+
 /**
  * Broadcast auction time extension
  * Notifies all viewers that the auction end time has been extended
@@ -749,6 +1015,94 @@ export async function broadcastAuctionEnded(data: {
   }
 }
 
+/**
+ * Broadcast auction paused
+ * Notifies all viewers that bidding is frozen
+ */
+export async function broadcastAuctionPaused(data: {
+  auctionId: string
+  pausedAt: string
+  reason: string | null
+}): Promise<void> {
+  try {
+    await transport.send(`auction-${data.auctionId}`, EVENTS.AUCTION_PAUSED, data)
+    console.log(`Broadcast auction paused for auction ${data.auctionId}`)
+  } catch (error) {
+    console.error(`Failed to broadcast auction paused for auction ${data.auctionId}:`, error)
+  }
+}
+
+/**
+ * Broadcast auction resumed
+ * Notifies all viewers of the new end time after a pause
+ */
+export async function broadcastAuctionResumed(data: {
+  auctionId: string
+  status: 'ACTIVE' | 'EXTENDED'
+  newEndTime: string
+  pausedDurationMs: number
+}): Promise<void> {
+  try {
+    await transport.send(`auction-${data.auctionId}`, EVENTS.AUCTION_RESUMED, data)
+    console.log(`Broadcast auction resumed for auction ${data.auctionId}`)
+  } catch (error) {
+    console.error(`Failed to broadcast auction resumed for auction ${data.auctionId}:`, error)
+  }
+}
+
+/**
+ * Broadcast reserve met
+ * Notifies all viewers that the current bid now meets the reserve
+ */
+export async function broadcastReserveMet(data: {
+  auctionId: string
+  currentBid: number
+}): Promise<void> {
+  try {
+    await transport.send(`auction-${data.auctionId}`, EVENTS.RESERVE_MET, data)
+    console.log(`Broadcast reserve met for auction ${data.auctionId}`)
+  } catch (error) {
+    console.error(`Failed to broadcast reserve met for auction ${data.auctionId}:`, error)
+  }
+}
+
+/**
+ * Broadcast a retracted bid
+ * Notifies all viewers to drop the bid and take the recalculated price
+ */
+export async function broadcastBidRetracted(data: {
+  auctionId: string
+  bidId: string
+  currentBid: number | null
+  bidCount: number
+  reserveMet: boolean
+}): Promise<void> {
+  try {
+    await transport.send(`auction-${data.auctionId}`, EVENTS.BID_RETRACTED, data)
+    console.log(`Broadcast bid retracted for auction ${data.auctionId}`)
+  } catch (error) {
+    console.error(`Failed to broadcast bid retracted for auction ${data.auctionId}:`, error)
+  }
+}
+
+/**
+ * Broadcast an auctioneer call during a live finale
+ * Notifies all viewers of fair warning, going once/twice and sold
+ */
+export async function broadcastAuctioneerCall(data: {
+  auctionId: string
+  call: 'FAIR_WARNING' | 'GOING_ONCE' | 'GOING_TWICE' | 'SOLD'
+  currentBid: number | null
+  timestamp: string
+}): Promise<void> {
+  try {
+    await transport.send(`auction-${data.auctionId}`, EVENTS.AUCTIONEER_CALL, data)
+    console.log(`Broadcast auctioneer call ${data.call} for auction ${data.auctionId}`)
+  } catch (error) {
+    console.error(`Failed to broadcast auctioneer call for auction ${data.auctionId}:`, error)
+  }
+}
+
 /**
  * Notify a user they've been outbid
  * Sends a private notification to the outbid user
@@ -784,6 +1138,113 @@ export async function notifyOutbid(
   }
 }
 
+/**
+ * Announce a completed bidding round (one placed bid plus any proxy answers)
+ * Broadcasts every bid anonymously, the extension if one was triggered,
+ * and notifies everyone who lost the lead
+ */
+export async function announceBidRound(data: {
+  auctionId: string
+  listingTitle: string
+  currency: string
+  reservePrice: number | null
+  previousWinningBid?: { bidderId: string; amount: unknown } | null
+  bids: Array<{
+    id: string
+    bidderId: string
+    amount: unknown
+    bidderNumber: number
+    bidderCountry: string | null
+    createdAt: Date
+  }>
+  bidCount: number
+  currentEndTime: Date
+  extensionCount: number
+  extended: boolean
+  // Later lots in the same sale pushed back by the extension
+  cascadedLots?: Array<{ id: string; currentEndTime: Date; extensionCount: number }>
+  // Sealed bids are hidden: nobody is outbid and watchers learn nothing until close
+  sealed?: boolean
+}): Promise<void> {
+  const { auctionId, bids } = data
+
+  if (data.sealed) {
+    await broadcastSealedBidPlaced({
+      auctionId,
+      bidCount: data.bidCount,
+      timestamp: (bids[bids.length - 1]?.createdAt ?? new Date()).toISOString(),
+    })
+    return
+  }
+
+  for (let index = 0; index < bids.length; index++) {
+    const placed = bids[index]
+    await broadcastNewBid({
+      bidId: placed.id,
+      auctionId,
+      amount: Number(placed.amount),
+      bidderNumber: placed.bidderNumber,
+      bidderCountry: placed.bidderCountry,
+      bidCount: data.bidCount - (bids.length - 1 - index),
+      timestamp: placed.createdAt.toISOString(),
+      isReserveMet: isReserveMet(Number(placed.amount), data.reservePrice),
+    })
+  }
+
+  const leadingBid = bids[bids.length - 1]
+  if (!leadingBid) {
+    return
+  }
+
+  if (data.extended) {
+    await broadcastAuctionExtended({
+      auctionId,
+      newEndTime: data.currentEndTime.toISOString(),
+      extensionCount: data.extensionCount,
+      triggeredByBidId: leadingBid.id,
+    })
+  }
+
+  for (const lot of data.cascadedLots ?? []) {
+    await broadcastAuctionExtended({
+      auctionId: lot.id,
+      newEndTime: lot.currentEndTime.toISOString(),
+      extensionCount: lot.extensionCount,
+      triggeredByBidId: leadingBid.id,
+    })
+  }
+
+  // Notify everyone who lost the lead in this round, once each, with their best bid
+  const outbid = new Map<string, number>()
+  if (data.previousWinningBid) {
+    outbid.set(data.previousWinningBid.bidderId, Number(data.previousWinningBid.amount))
+  }
+  for (const placed of bids) {
+    outbid.set(placed.bidderId, Math.max(outbid.get(placed.bidderId) ?? 0, Number(placed.amount)))
+  }
+  outbid.delete(leadingBid.bidderId)
+
+  for (const [bidderId, yourBidAmount] of Array.from(outbid.entries())) {
+    await notifyOutbid(bidderId, {
+      auctionId,
+      listingTitle: data.listingTitle,
+      newBidAmount: Number(leadingBid.amount),
+      yourBidAmount,
+    })
+  }
+
+  // Notify watchers about the new leading bid (non-blocking, anonymous)
+  notifyWatchersNewBid(
+    auctionId,
+    Number(leadingBid.amount),
+    data.currency,
+    leadingBid.bidderNumber,
+    leadingBid.bidderCountry
+  ).catch(error => {
+    console.error('Failed to notify watchers about new bid:', error)
+  })
+}
+
 /**
  * Notify a user they're winning
  * Sends a private notification to the current winning bidder
@@ -0,0 +1,182 @@
+// Payout Hold Service - decides when a seller payout may leave the platform
+import { PrismaClient, Prisma, AlertStatus, PayoutHold } from '@prisma/client'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+import { NotFoundError, ConflictError, ValidationError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+
+export type HoldSubject = {
+  id: string
+  paidAt: Date | null
+  handoverConfirmedAt: Date | null
+  hasEscrow: boolean
+  sellerId: string
+}
+
+export type HeldPayout = {
+  id: string
+  currency: string
+  finalPrice: Prisma.Decimal | null
+  paidAt: Date | null
+  listing: { title: string; seller: { id: string; name: string | null; email: string } }
+  payoutHolds: PayoutHold[]
+}
+
+// Alerts still being looked at keep the payout on hold
+const OPEN_ALERT_STATUSES: AlertStatus[] = ['OPEN', 'INVESTIGATING']
+
+export class PayoutHoldService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Place the holds the payout policy calls for, release the ones whose
+   * condition has cleared, and return those still holding the payout.
+   * Holds are kept once placed, so an admin-released hold stays released.
+   */
+  async evaluate(subject: HoldSubject, now = new Date()): Promise<PayoutHold[]> {
+    const placed: Prisma.PayoutHoldCreateManyInput[] = []
+
+    if (AUCTION_CONFIG.payoutHoldDays > 0) {
+      const paidAt = subject.paidAt ?? now
+      placed.push({
+        auctionId: subject.id,
+        reason: 'HOLDING_PERIOD',
+        releaseAt: new Date(paidAt.getTime() + AUCTION_CONFIG.payoutHoldDays * 24 * 60 * 60 * 1000),
+      })
+    }
+
+    // Escrow already waits for the buyer to confirm receipt
+    if (AUCTION_CONFIG.payoutHoldUntilHandover && !subject.hasEscrow) {
+      placed.push({ auctionId: subject.id, reason: 'HANDOVER' })
+    }
+
+    if (AUCTION_CONFIG.payoutFirstSaleManualRelease && !(await this.hasBeenPaidBefore(subject))) {
+      placed.push({ auctionId: subject.id, reason: 'FIRST_SALE' })
+    }
+
+    if (placed.length > 0) {
+      await this.prisma.payoutHold.createMany({ data: placed, skipDuplicates: true })
+    }
+
+    await this.syncFraudHold(subject.id)
+
+    await this.prisma.payoutHold.updateMany({
+      where: {
+        auctionId: subject.id,
+        releasedAt: null,
+        OR: [
+          { reason: 'HOLDING_PERIOD', releaseAt: { lte: now } },
+          ...(subject.handoverConfirmedAt ? [{ reason: 'HANDOVER' as const }] : []),
+        ],
+      },
+      data: { releasedAt: now },
+    })
+
+    return this.prisma.payoutHold.findMany({
+      where: { auctionId: subject.id, releasedAt: null },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Admin release of one hold. Fraud holds follow the alerts and cannot be
+   * released by hand.
+   */
+  async release(holdId: string, adminId: string, note?: string): Promise<PayoutHold> {
+    const hold = await this.prisma.payoutHold.findUnique({ where: { id: holdId } })
+
+    if (!hold) {
+      throw new NotFoundError('Payout hold not found', ERROR_CODES.PAYOUT_HOLD_NOT_FOUND)
+    }
+
+    if (hold.reason === 'FRAUD_ALERT') {
+      throw new ValidationError(
+        'Resolve the fraud alerts on this auction to release the payout',
+        ERROR_CODES.PAYOUT_HOLD_FRAUD_ALERT
+      )
+    }
+
+    const { count } = await this.prisma.payoutHold.updateMany({
+      where: { id: holdId, releasedAt: null },
+      data: { releasedAt: new Date(), releasedById: adminId, releaseNote: note },
+    })
+    if (count === 0) {
+      throw new ConflictError(
+        'This payout hold has already been released',
+        ERROR_CODES.PAYOUT_HOLD_RELEASED
+      )
+    }
+
+    return this.prisma.payoutHold.findUniqueOrThrow({ where: { id: holdId } })
+  }
+
+  /**
+   * Payouts waiting on holds, oldest payment first
+   */
+  async listHeld(): Promise<HeldPayout[]> {
+    return this.prisma.auction.findMany({
+      where: { sellerPayoutStatus: 'held' },
+      select: {
+        id: true,
+        currency: true,
+        finalPrice: true,
+        paidAt: true,
+        listing: {
+          select: {
+            title: true,
+            seller: { select: { id: true, name: true, email: true } },
+          },
+        },
+        payoutHolds: { where: { releasedAt: null }, orderBy: { createdAt: 'asc' } },
+      },
+      orderBy: { paidAt: 'asc' },
+    })
+  }
+
+  /**
+   * Hold the payout while the auction has open fraud alerts; lift it once
+   * they are all closed. A new alert puts a released hold back.
+   */
+  private async syncFraudHold(auctionId: string): Promise<void> {
+    const openAlerts = await this.prisma.fraudAlert.count({
+      where: { auctionId, status: { in: OPEN_ALERT_STATUSES } },
+    })
+
+    if (openAlerts > 0) {
+      await this.prisma.payoutHold.upsert({
+        where: { auctionId_reason: { auctionId, reason: 'FRAUD_ALERT' } },
+        create: { auctionId, reason: 'FRAUD_ALERT' },
+        update: { releasedAt: null, releasedById: null, releaseNote: null },
+      })
+      return
+    }
+
+    await this.prisma.payoutHold.updateMany({
+      where: { auctionId, reason: 'FRAUD_ALERT', releasedAt: null },
+      data: { releasedAt: new Date() },
+    })
+  }
+
+  private async hasBeenPaidBefore(subject: HoldSubject): Promise<boolean> {
+    const previous = await this.prisma.auction.count({
+      where: {
+        id: { not: subject.id },
+        sellerPayoutStatus: 'completed',
+        listing: { sellerId: subject.sellerId },
+      },
+    })
+    return previous > 0
+  }
+}
+
+// Factory function for creating payout hold service with default dependencies
+import { prisma } from '@/lib/db'
+
+export function createPayoutHoldService(): PayoutHoldService {
+  return new PayoutHoldService(prisma)
+}
+
+// Default instance for backward compatibility
+const payoutHoldService = createPayoutHoldService()
+
+// Export individual functions
+export const listHeldPayouts = () => payoutHoldService.listHeld()
@@ -0,0 +1,235 @@
+// Payout Statement Service - seller payout ledger and monthly statements
+import { PrismaClient, Prisma, PayoutHoldReason } from '@prisma/client'
+import { calculateSellerFees, parseFeeTerms } from '@/domain/auction/rules'
+import { NotFoundError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { renderPayoutStatementPdf } from '@/lib/payout-statement-pdf'
+
+export type PayoutLedgerEntry = {
+  auctionId: string
+  title: string
+  currency: string
+  buyerPaidAt: Date | null
+  hammerPrice: number
+  commission: number
+  listingFee: number
+  discount: number
+  totalFees: number
+  payoutAmount: number
+  status: string
+  transferId: string | null
+  paidOutAt: Date | null
+  holds: PayoutHoldReason[]
+}
+
+export type PayoutStatementTotals = {
+  currency: string
+  hammerPrice: number
+  totalFees: number
+  payoutAmount: number
+}
+
+export type PayoutStatement = {
+  month: string
+  periodStart: Date
+  periodEnd: Date
+  seller: { id: string; name: string | null; email: string }
+  entries: PayoutLedgerEntry[]
+  totals: PayoutStatementTotals[]
+}
+
+const LEDGER_SELECT = {
+  id: true,
+  currency: true,
+  finalPrice: true,
+  feeTerms: true,
+  paidAt: true,
+  sellerFeeAmount: true,
+  sellerPayoutAmount: true,
+  sellerPayoutStatus: true,
+  sellerPayoutId: true,
+  sellerPaidAt: true,
+  listing: { select: { title: true } },
+  payoutHolds: { where: { releasedAt: null }, select: { reason: true } },
+} as const
+
+const CSV_COLUMNS = [
+  'payout_date',
+  'auction_id',
+  'vehicle',
+  'currency',
+  'hammer_price',
+  'commission',
+  'listing_fee',
+  'discount',
+  'total_fees',
+  'payout_amount',
+  'transfer_id',
+]
+
+type LedgerAuction = Prisma.AuctionGetPayload<{ select: typeof LEDGER_SELECT }>
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Break a sale down into what the seller was charged. Once the payout ran the
+ * withheld fee is on the auction, and any shortfall against the fee schedule
+ * is the promo discount.
+ */
+function toLedgerEntry(auction: LedgerAuction): PayoutLedgerEntry {
+  const hammerPrice = Number(auction.finalPrice ?? 0)
+  const fees = calculateSellerFees(hammerPrice, parseFeeTerms(auction.feeTerms))
+  const totalFees = auction.sellerFeeAmount !== null ? Number(auction.sellerFeeAmount) : fees.total
+
+  return {
+    auctionId: auction.id,
+    title: auction.listing.title,
+    currency: auction.currency,
+    buyerPaidAt: auction.paidAt,
+    hammerPrice,
+    commission: fees.commission,
+    listingFee: fees.listingFee,
+    discount: roundCents(Math.max(fees.total - totalFees, 0)),
+    totalFees,
+    payoutAmount: auction.sellerPayoutAmount !== null
+      ? Number(auction.sellerPayoutAmount)
+      : roundCents(hammerPrice - totalFees),
+    status: auction.sellerPayoutStatus ?? 'pending',
+    transferId: auction.sellerPayoutId,
+    paidOutAt: auction.sellerPaidAt,
+    holds: auction.payoutHolds.map((hold) => hold.reason),
+  }
+}
+
+export class PayoutStatementService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /**
+   * Every paid sale of the seller with where its payout stands, newest first
+   */
+  async getLedger(sellerId: string): Promise<PayoutLedgerEntry[]> {
+    const auctions = await this.prisma.auction.findMany({
+      where: { listing: { sellerId }, status: 'SOLD', paymentStatus: 'PAID' },
+      select: LEDGER_SELECT,
+      orderBy: { paidAt: 'desc' },
+    })
+
+    return auctions.map(toLedgerEntry)
+  }
+
+  /**
+   * Payouts transferred to the seller in a calendar month (UTC), with totals
+   * per currency
+   */
+  async getStatement(sellerId: string, month: string): Promise<PayoutStatement> {
+    const seller = await this.prisma.user.findUnique({
+      where: { id: sellerId },
+      select: { id: true, name: true, email: true },
+    })
+
+    if (!seller) {
+      throw new NotFoundError('User not found', ERROR_CODES.USER_NOT_FOUND)
+    }
+
+    const [year, monthIndex] = month.split('-').map(Number)
+    const periodStart = new Date(Date.UTC(year, monthIndex - 1, 1))
+    const periodEnd = new Date(Date.UTC(year, monthIndex, 1))
+
+    const auctions = await this.prisma.auction.findMany({
+      where: {
+        listing: { sellerId },
+        sellerPayoutStatus: 'completed',
+        sellerPaidAt: { gte: periodStart, lt: periodEnd },
+      },
+      select: LEDGER_SELECT,
+      orderBy: { sellerPaidAt: 'asc' },
+    })
+
+    const entries = auctions.map(toLedgerEntry)
+    const totals = new Map<string, PayoutStatementTotals>()
+    for (const entry of entries) {
+      const total = totals.get(entry.currency) ?? {
+        currency: entry.currency,
+        hammerPrice: 0,
+        totalFees: 0,
+        payoutAmount: 0,
+      }
+      total.hammerPrice = roundCents(total.hammerPrice + entry.hammerPrice)
+      total.totalFees = roundCents(total.totalFees + entry.totalFees)
+      total.payoutAmount = roundCents(total.payoutAmount + entry.payoutAmount)
+      totals.set(entry.currency, total)
+    }
+
+    return {
+      month,
+      periodStart,
+      periodEnd,
+      seller,
+      entries,
+      totals: Array.from(totals.values()),
+    }
+  }
+
+  /**
+   * Monthly statement as CSV, one row per transferred payout
+   */
+  async exportStatementCsv(sellerId: string, month: string): Promise<string> {
+    const { entries } = await this.getStatement(sellerId, month)
+
+    const rows = entries.map((entry) =>
+      [
+        entry.paidOutAt?.toISOString().slice(0, 10),
+        entry.auctionId,
+        entry.title,
+        entry.currency,
+        entry.hammerPrice.toFixed(2),
+        entry.commission.toFixed(2),
+        entry.listingFee.toFixed(2),
+        entry.discount.toFixed(2),
+        entry.totalFees.toFixed(2),
+        entry.payoutAmount.toFixed(2),
+        entry.transferId,
+      ]
+        .map(csvCell)
+        .join(',')
+    )
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+  }
+
+  /**
+   * Monthly statement as PDF
+   */
+  async exportStatementPdf(sellerId: string, month: string): Promise<Buffer> {
+    return renderPayoutStatementPdf(await this.getStatement(sellerId, month))
+  }
+}
+
+// Factory function for creating payout statement service with default dependencies
+import { prisma } from '@/lib/db'
+
+export function createPayoutStatementService(): PayoutStatementService {
+  return new PayoutStatementService(prisma)
+}
+
+// Default instance for backward compatibility
+const payoutStatementService = createPayoutStatementService()
+
+// Export individual functions
+export const getPayoutLedger = (sellerId: string) => payoutStatementService.getLedger(sellerId)
+
+export const getPayoutStatement = (sellerId: string, month: string) =>
+  payoutStatementService.getStatement(sellerId, month)
+
+export const exportPayoutStatementCsv = (sellerId: string, month: string) =>
+  payoutStatementService.exportStatementCsv(sellerId, month)
+
+export const exportPayoutStatementPdf = (sellerId: string, month: string) =>
+  payoutStatementService.exportStatementPdf(sellerId, month)
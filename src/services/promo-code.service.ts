@@ -0,0 +1,401 @@
+// Promo Code Service - marketing codes that discount the buyer fee or seller commission
+import {
+  PrismaClient,
+  Prisma,
+  PromoCode,
+  PromoDiscountType,
+  PromoRedemption,
+  PromoTarget,
+  VehicleCategory,
+} from '@prisma/client'
+import { calculatePromoDiscount } from '@/domain/auction/rules'
+import { lockPromoCodeRow } from '@/lib/db-lock'
+import { NotFoundError, ValidationError, ConflictError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger } from '@/lib/logger'
+import { ExchangeRateService } from './exchange-rate.service'
+
+type Client = PrismaClient | Prisma.TransactionClient
+
+// A redemption holds a place under the usage caps until it is applied, or
+// until its auction can no longer produce the fee (not won, or paid out)
+const COUNTED_REDEMPTION: Prisma.PromoRedemptionWhereInput = {
+  OR: [
+    { appliedAt: { not: null } },
+    { auction: { status: { in: ['SCHEDULED', 'ACTIVE', 'EXTENDED', 'PAUSED', 'ENDED'] } } },
+    { auction: { status: 'SOLD', sellerPayoutStatus: null } },
+  ],
+}
+
+export type PromoCodeInput = {
+  code: string
+  description?: string
+  target: PromoTarget
+  discountType: PromoDiscountType
+  discountValue: number
+  startsAt?: Date
+  endsAt?: Date
+  maxRedemptions?: number
+  perUserLimit?: number
+  categories?: VehicleCategory[]
+}
+
+export type PromoCodeWithStats = PromoCode & {
+  createdBy: { id: string; name: string | null; email: string }
+  stats: { redemptions: number; applied: number; totalDiscount: number }
+}
+
+export type RedemptionWithCode = PromoRedemption & {
+  promoCode: Pick<PromoCode, 'code' | 'description' | 'discountType' | 'discountValue'>
+}
+
+export type PromoDiscountResult = {
+  redemptionId: string
+  code: string
+  discount: number
+  applied: boolean
+}
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export class PromoCodeService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly exchangeRates: ExchangeRateService = new ExchangeRateService(prisma)
+  ) {}
+
+  /**
+   * Create a promo code (admin)
+   */
+  async createPromoCode(input: PromoCodeInput, adminId: string): Promise<PromoCode> {
+    const code = normalizeCode(input.code)
+
+    const existing = await this.prisma.promoCode.findUnique({ where: { code } })
+    if (existing) {
+      throw new ConflictError(
+        `Promo code ${code} already exists`,
+        ERROR_CODES.PROMO_CODE_EXISTS
+      )
+    }
+
+    return this.prisma.promoCode.create({
+      data: {
+        code,
+        description: input.description,
+        target: input.target,
+        discountType: input.discountType,
+        discountValue: input.discountValue,
+        startsAt: input.startsAt,
+        endsAt: input.endsAt,
+        maxRedemptions: input.maxRedemptions,
+        perUserLimit: input.perUserLimit ?? 1,
+        categories: input.categories ?? [],
+        createdById: adminId,
+      },
+    })
+  }
+
+  /**
+   * Switch a code on or off; redemptions already made keep their discount
+   */
+  async setActive(promoCodeId: string, active: boolean): Promise<PromoCode> {
+    const promo = await this.prisma.promoCode.findUnique({ where: { id: promoCodeId } })
+    if (!promo) {
+      throw new NotFoundError('Promo code not found', ERROR_CODES.PROMO_CODE_NOT_FOUND)
+    }
+
+    return this.prisma.promoCode.update({
+      where: { id: promoCodeId },
+      data: { active },
+    })
+  }
+
+  /**
+   * All codes with redemption stats, newest first
+   */
+  async listPromoCodes(): Promise<PromoCodeWithStats[]> {
+    const [promos, redeemed, applied] = await Promise.all([
+      this.prisma.promoCode.findMany({
+        include: { createdBy: { select: { id: true, name: true, email: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.promoRedemption.groupBy({
+        by: ['promoCodeId'],
+        _count: { _all: true },
+      }),
+      this.prisma.promoRedemption.groupBy({
+        by: ['promoCodeId'],
+        where: { appliedAt: { not: null } },
+        _count: { _all: true },
+        _sum: { discountAmount: true },
+      }),
+    ])
+
+    return promos.map((promo) => {
+      const redemptions = redeemed.find((row) => row.promoCodeId === promo.id)
+      const applications = applied.find((row) => row.promoCodeId === promo.id)
+
+      return {
+        ...promo,
+        stats: {
+          redemptions: redemptions?._count._all ?? 0,
+          applied: applications?._count._all ?? 0,
+          totalDiscount: Number(applications?._sum.discountAmount ?? 0),
+        },
+      }
+    })
+  }
+
+  /**
+   * Attach a code to the user's fee on an auction. Bidders redeem buyer fee
+   * codes when registering to bid or at payment; sellers redeem commission
+   * codes on their own auctions.
+   */
+  async redeem(code: string, userId: string, auctionId: string): Promise<RedemptionWithCode> {
+    const promo = await this.prisma.promoCode.findUnique({ where: { code: normalizeCode(code) } })
+    if (!promo || !promo.active) {
+      throw new NotFoundError(
+        'This promo code is not valid',
+        ERROR_CODES.PROMO_CODE_NOT_FOUND
+      )
+    }
+
+    const now = new Date()
+    if ((promo.startsAt && promo.startsAt > now) || (promo.endsAt && promo.endsAt < now)) {
+      throw new ValidationError(
+        'This promo code is not valid at the moment',
+        ERROR_CODES.PROMO_CODE_EXPIRED
+      )
+    }
+
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      select: {
+        status: true,
+        winnerId: true,
+        paymentStatus: true,
+        sellerPayoutStatus: true,
+        listing: { select: { sellerId: true, category: true } },
+      },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    if (promo.categories.length > 0 && !promo.categories.includes(auction.listing.category)) {
+      throw new ValidationError(
+        'This promo code does not apply to this category',
+        ERROR_CODES.PROMO_CODE_NOT_ELIGIBLE
+      )
+    }
+
+    const isSeller = auction.listing.sellerId === userId
+    const eligible =
+      promo.target === 'BUYER_FEE'
+        ? !isSeller &&
+          auction.paymentStatus !== 'PAID' &&
+          !['NO_SALE', 'CANCELLED'].includes(auction.status) &&
+          (auction.status !== 'SOLD' || auction.winnerId === userId)
+        : isSeller && auction.sellerPayoutStatus === null && auction.status !== 'CANCELLED'
+
+    if (!eligible) {
+      throw new ValidationError(
+        promo.target === 'BUYER_FEE'
+          ? 'This promo code only applies to an unpaid buyer fee'
+          : 'This promo code only applies to the seller commission before payout',
+        ERROR_CODES.PROMO_CODE_NOT_ELIGIBLE
+      )
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Lock first: the usage counts below must not change until the redemption commits
+      await lockPromoCodeRow(tx, promo.id)
+
+      const existing = await tx.promoRedemption.findUnique({
+        where: { auctionId_userId_target: { auctionId, userId, target: promo.target } },
+      })
+      if (existing) {
+        throw new ConflictError(
+          'A promo code is already applied to this fee',
+          ERROR_CODES.PROMO_CODE_ALREADY_REDEEMED
+        )
+      }
+
+      if (promo.maxRedemptions !== null) {
+        const used = await tx.promoRedemption.count({
+          where: { promoCodeId: promo.id, ...COUNTED_REDEMPTION },
+        })
+        if (used >= promo.maxRedemptions) {
+          throw new ValidationError(
+            'This promo code has been used up',
+            ERROR_CODES.PROMO_CODE_EXHAUSTED
+          )
+        }
+      }
+
+      const usedByUser = await tx.promoRedemption.count({
+        where: { promoCodeId: promo.id, userId, ...COUNTED_REDEMPTION },
+      })
+      if (usedByUser >= promo.perUserLimit) {
+        throw new ValidationError(
+          'You have already used this promo code',
+          ERROR_CODES.PROMO_CODE_EXHAUSTED
+        )
+      }
+
+      return tx.promoRedemption.create({
+        data: { promoCodeId: promo.id, userId, auctionId, target: promo.target },
+        include: {
+          promoCode: {
+            select: { code: true, description: true, discountType: true, discountValue: true },
+          },
+        },
+      })
+    })
+  }
+
+  /**
+   * The user's codes on an auction, for showing the discount before payment
+   */
+  async getRedemptions(auctionId: string, userId: string): Promise<RedemptionWithCode[]> {
+    return this.prisma.promoRedemption.findMany({
+      where: { auctionId, userId },
+      include: {
+        promoCode: {
+          select: { code: true, description: true, discountType: true, discountValue: true },
+        },
+      },
+    })
+  }
+
+  /**
+   * Discount from the user's code on this fee, if any. Applied discounts are
+   * already taken off the fee; pending ones are worked out from the fee given.
+   */
+  async getFeeDiscount(
+    auctionId: string,
+    userId: string,
+    target: PromoTarget,
+    fee: number,
+    client: Client = this.prisma
+  ): Promise<PromoDiscountResult | null> {
+    const redemption = await client.promoRedemption.findUnique({
+      where: { auctionId_userId_target: { auctionId, userId, target } },
+      include: {
+        promoCode: { select: { code: true, discountType: true, discountValue: true } },
+        auction: { select: { currency: true, fxRate: true } },
+      },
+    })
+
+    if (!redemption) {
+      return null
+    }
+
+    // Fixed discounts convert at the sale rate, or today's rate before the sale
+    const { discountType, discountValue } = redemption.promoCode
+    let eurRate = 1
+    if (discountType === 'FIXED' && !redemption.appliedAt) {
+      if (redemption.auction.fxRate !== null) {
+        eurRate = Number(redemption.auction.fxRate)
+      } else {
+        const rate = await this.exchangeRates.findEurRate(redemption.auction.currency)
+        if (!rate) {
+          // Leave the code unapplied rather than hold up the charge or payout
+          paymentLogger.warn(
+            { auctionId, currency: redemption.auction.currency },
+            'No exchange rate to convert a fixed promo discount'
+          )
+          return null
+        }
+        eurRate = rate.rate
+      }
+    }
+
+    return {
+      redemptionId: redemption.id,
+      code: redemption.promoCode.code,
+      applied: redemption.appliedAt !== null,
+      discount: redemption.appliedAt
+        ? Number(redemption.discountAmount ?? 0)
+        : calculatePromoDiscount(fee, { discountType, discountValue: Number(discountValue) }, eurRate),
+    }
+  }
+
+  /**
+   * Take the winner's pending code off the auction's buyer fee. Done once,
+   * before the first charge attempt, so retries and refunds all see the
+   * discounted fee. Returns the fee to charge.
+   */
+  async applyToBuyerFee(
+    auctionId: string,
+    userId: string,
+    buyerFee: number
+  ): Promise<{ buyerFee: number; promo: PromoDiscountResult | null }> {
+    const promo = await this.getFeeDiscount(auctionId, userId, 'BUYER_FEE', buyerFee)
+    if (!promo || promo.applied) {
+      return { buyerFee, promo }
+    }
+
+    const discountedFee = Math.round((buyerFee - promo.discount) * 100) / 100
+
+    await this.prisma.$transaction(async (tx) => {
+      if (!(await this.markApplied(promo.redemptionId, promo.discount, tx))) {
+        throw new ConflictError(
+          'Payment already in progress',
+          ERROR_CODES.PAYMENT_ALREADY_PROCESSED
+        )
+      }
+      await tx.auction.update({
+        where: { id: auctionId },
+        data: { buyerFeeAmount: discountedFee },
+      })
+    })
+
+    return { buyerFee: discountedFee, promo: { ...promo, applied: true } }
+  }
+
+  /**
+   * Record the discount as taken off the fee. Returns false when another
+   * request applied it first.
+   */
+  async markApplied(
+    redemptionId: string,
+    discount: number,
+    client: Client = this.prisma
+  ): Promise<boolean> {
+    const { count } = await client.promoRedemption.updateMany({
+      where: { id: redemptionId, appliedAt: null },
+      data: { appliedAt: new Date(), discountAmount: discount },
+    })
+
+    return count > 0
+  }
+}
+
+// Factory function for creating promo code service with default dependencies
+import { prisma } from '@/lib/db'
+
+export function createPromoCodeService(): PromoCodeService {
+  return new PromoCodeService(prisma)
+}
+
+// Default instance for backward compatibility
+const promoCodeService = createPromoCodeService()
+
+// Export individual functions
+export const createPromoCode = (input: PromoCodeInput, adminId: string) =>
+  promoCodeService.createPromoCode(input, adminId)
+
+export const setPromoCodeActive = (promoCodeId: string, active: boolean) =>
+  promoCodeService.setActive(promoCodeId, active)
+
+export const listPromoCodes = () => promoCodeService.listPromoCodes()
+
+export const redeemPromoCode = (code: string, userId: string, auctionId: string) =>
+  promoCodeService.redeem(code, userId, auctionId)
+
+export const getPromoRedemptions = (auctionId: string, userId: string) =>
+  promoCodeService.getRedemptions(auctionId, userId)
@@ -0,0 +1,414 @@
+// Reconciliation Service - nightly comparison of our payment records with Stripe
+import {
+  PrismaClient,
+  DepositStatus,
+  ReconciliationIssue,
+  ReconciliationIssueKind,
+  ReconciliationRun,
+} from '@prisma/client'
+import { AUCTION_CONFIG } from '@/config/auction.config'
+import { NotFoundError, ConflictError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { IPaymentProcessor, PaymentIntent } from './contracts/payment-processor.interface'
+import { ISellerPayoutService } from './contracts/payment.interface'
+
+type Finding = {
+  kind: ReconciliationIssueKind
+  resourceType: 'auction' | 'deposit' | 'payout'
+  resourceId: string
+  auctionId: string | null
+  externalId: string | null
+  localStatus: string
+  remoteStatus?: string
+  detail?: string
+}
+
+type Tally = {
+  checkedCount: number
+  autoFixedCount: number
+  openCount: number
+  errorCount: number
+}
+
+export type ReconciliationIssueWithDetails = ReconciliationIssue & {
+  auction: { id: string; listing: { title: string } } | null
+  resolvedBy: { id: string; name: string | null; email: string } | null
+}
+
+export type ReconciliationReport = {
+  runs: ReconciliationRun[]
+  openIssues: ReconciliationIssueWithDetails[]
+  autoFixed: ReconciliationIssueWithDetails[]
+}
+
+// Deposit states that still depend on a live Stripe authorisation
+const OPEN_DEPOSIT_STATUSES: DepositStatus[] = ['PENDING', 'HELD']
+
+// Intent states in which Stripe will never collect the money
+const UNCOLLECTABLE_INTENT_STATUSES: PaymentIntent['status'][] = ['requires_payment_method', 'canceled']
+
+// A payout still processing after this long lost its transfer call
+const STALLED_PAYOUT_MS = 24 * 60 * 60 * 1000
+
+const ISSUE_INCLUDE = {
+  auction: { select: { id: true, listing: { select: { title: true } } } },
+  resolvedBy: { select: { id: true, name: true, email: true } },
+} as const
+
+function isMissingRecord(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'resource_missing'
+}
+
+export class ReconciliationService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly paymentProcessor: IPaymentProcessor,
+    private readonly payouts: ISellerPayoutService
+  ) {}
+
+  /**
+   * Walk buyer payments, deposits and seller payouts through the payment
+   * processor. Mismatches the webhooks would have fixed are corrected here;
+   * anything that moved money the wrong way is raised for an admin.
+   */
+  async reconcile(now = new Date()): Promise<ReconciliationRun> {
+    const run = await this.prisma.reconciliationRun.create({ data: { startedAt: now } })
+    const since = new Date(now.getTime() - AUCTION_CONFIG.reconciliationLookbackDays * 24 * 60 * 60 * 1000)
+    const tally: Tally = { checkedCount: 0, autoFixedCount: 0, openCount: 0, errorCount: 0 }
+
+    await this.reconcileAuctionPayments(run.id, since, tally)
+    await this.reconcileDeposits(run.id, tally)
+    await this.reconcilePayouts(run.id, since, now, tally)
+
+    paymentLogger.info({ runId: run.id, ...tally }, 'Payment reconciliation finished')
+
+    return this.prisma.reconciliationRun.update({
+      where: { id: run.id },
+      data: { ...tally, finishedAt: new Date() },
+    })
+  }
+
+  /**
+   * Recent runs, the issues waiting for an admin and what the latest run fixed
+   */
+  async getReport(): Promise<ReconciliationReport> {
+    const runs = await this.prisma.reconciliationRun.findMany({
+      orderBy: { startedAt: 'desc' },
+      take: 10,
+    })
+
+    const openIssues = await this.prisma.reconciliationIssue.findMany({
+      where: { status: 'OPEN' },
+      include: ISSUE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const autoFixed = runs.length
+      ? await this.prisma.reconciliationIssue.findMany({
+          where: { runId: runs[0].id, status: 'AUTO_FIXED' },
+          include: ISSUE_INCLUDE,
+          orderBy: { createdAt: 'desc' },
+        })
+      : []
+
+    return { runs, openIssues, autoFixed }
+  }
+
+  /**
+   * Close an issue once an admin has dealt with it outside the job
+   */
+  async resolveIssue(issueId: string, adminId: string, note: string): Promise<ReconciliationIssue> {
+    const issue = await this.prisma.reconciliationIssue.findUnique({ where: { id: issueId } })
+
+    if (!issue) {
+      throw new NotFoundError('Reconciliation issue not found', ERROR_CODES.RECONCILIATION_ISSUE_NOT_FOUND)
+    }
+
+    const { count } = await this.prisma.reconciliationIssue.updateMany({
+      where: { id: issueId, status: 'OPEN' },
+      data: {
+        status: 'RESOLVED',
+        resolvedById: adminId,
+        resolvedAt: new Date(),
+        resolutionNote: note,
+      },
+    })
+    if (count === 0) {
+      throw new ConflictError(
+        'This reconciliation issue is already closed',
+        ERROR_CODES.RECONCILIATION_ISSUE_CLOSED
+      )
+    }
+
+    return this.prisma.reconciliationIssue.findUniqueOrThrow({ where: { id: issueId } })
+  }
+
+  /**
+   * Buyer payments still waiting on Stripe, plus recently settled ones
+   */
+  private async reconcileAuctionPayments(runId: string, since: Date, tally: Tally): Promise<void> {
+    const auctions = await this.prisma.auction.findMany({
+      where: {
+        paymentIntentId: { not: null },
+        OR: [
+          { paymentStatus: { in: ['UNPAID', 'PENDING', 'FAILED'] } },
+          { paymentStatus: 'PAID', paidAt: { gte: since } },
+        ],
+      },
+      select: { id: true, paymentStatus: true, paymentIntentId: true },
+    })
+
+    for (const auction of auctions) {
+      const intentId = auction.paymentIntentId!
+      const base = {
+        resourceType: 'auction' as const,
+        resourceId: auction.id,
+        auctionId: auction.id,
+        externalId: intentId,
+        localStatus: auction.paymentStatus,
+      }
+
+      await this.check(runId, base, tally, async () => {
+        const intent = await this.paymentProcessor.retrievePaymentIntent(intentId)
+        const remote = { ...base, remoteStatus: intent.status }
+
+        if (intent.status === 'succeeded' && auction.paymentStatus !== 'PAID') {
+          const fixed = await this.recordPayment(auction.id, intent)
+          await this.raise(runId, { ...remote, kind: 'PAYMENT_NOT_RECORDED' }, fixed, tally)
+        } else if (auction.paymentStatus === 'PAID' && UNCOLLECTABLE_INTENT_STATUSES.includes(intent.status)) {
+          await this.raise(runId, {
+            ...remote,
+            kind: 'PAYMENT_NOT_COLLECTED',
+            detail: 'The auction is marked paid but Stripe never collected the payment',
+          }, false, tally)
+        } else if (auction.paymentStatus === 'PENDING' && intent.status === 'canceled') {
+          // Same as a failed-payment webhook: the buyer can pay again before the deadline
+          const { count } = await this.prisma.auction.updateMany({
+            where: { id: auction.id, paymentStatus: 'PENDING', paymentIntentId: intentId },
+            data: { paymentStatus: 'FAILED' },
+          })
+          await this.raise(runId, { ...remote, kind: 'PAYMENT_CANCELED' }, count > 0, tally)
+        }
+      })
+    }
+  }
+
+  /**
+   * Deposits we believe are pending or held, whatever their age
+   */
+  private async reconcileDeposits(runId: string, tally: Tally): Promise<void> {
+    const deposits = await this.prisma.bidDeposit.findMany({
+      where: { status: { in: OPEN_DEPOSIT_STATUSES } },
+      select: { id: true, auctionId: true, status: true, stripePaymentIntentId: true },
+    })
+
+    for (const deposit of deposits) {
+      const base = {
+        resourceType: 'deposit' as const,
+        resourceId: deposit.id,
+        auctionId: deposit.auctionId,
+        externalId: deposit.stripePaymentIntentId,
+        localStatus: deposit.status,
+      }
+
+      await this.check(runId, base, tally, async () => {
+        const intent = await this.paymentProcessor.retrievePaymentIntent(deposit.stripePaymentIntentId)
+        const remote = { ...base, remoteStatus: intent.status }
+
+        if (deposit.status === 'PENDING' && intent.status === 'requires_capture') {
+          const fixed = await this.moveDeposit(deposit.id, 'PENDING', { status: 'HELD', heldAt: new Date() })
+          await this.raise(runId, { ...remote, kind: 'DEPOSIT_NOT_RECORDED' }, fixed, tally)
+        } else if (deposit.status === 'PENDING' && UNCOLLECTABLE_INTENT_STATUSES.includes(intent.status)) {
+          const fixed = await this.moveDeposit(deposit.id, 'PENDING', { status: 'FAILED' })
+          await this.raise(runId, { ...remote, kind: 'DEPOSIT_FAILED' }, fixed, tally)
+        } else if (deposit.status === 'HELD' && intent.status === 'canceled') {
+          // Stripe drops uncaptured holds after 7 days; nothing is left to release
+          const fixed = await this.moveDeposit(deposit.id, 'HELD', { status: 'RELEASED', releasedAt: new Date() })
+          await this.raise(runId, { ...remote, kind: 'DEPOSIT_HOLD_LAPSED' }, fixed, tally)
+        } else if (deposit.status === 'HELD' && intent.status === 'succeeded') {
+          await this.raise(runId, {
+            ...remote,
+            kind: 'DEPOSIT_CAPTURED',
+            detail: 'The deposit was captured at Stripe while we still show it as held',
+          }, false, tally)
+        }
+      })
+    }
+  }
+
+  /**
+   * Recent completed payouts, and payouts that never got a transfer
+   */
+  private async reconcilePayouts(runId: string, since: Date, now: Date, tally: Tally): Promise<void> {
+    const auctions = await this.prisma.auction.findMany({
+      where: {
+        OR: [
+          { sellerPayoutStatus: 'completed', sellerPayoutId: { not: null }, sellerPaidAt: { gte: since } },
+          { sellerPayoutStatus: 'processing', updatedAt: { lt: new Date(now.getTime() - STALLED_PAYOUT_MS) } },
+        ],
+      },
+      select: { id: true, sellerPayoutStatus: true, sellerPayoutId: true },
+    })
+
+    for (const auction of auctions) {
+      const base = {
+        resourceType: 'payout' as const,
+        resourceId: auction.id,
+        auctionId: auction.id,
+        externalId: auction.sellerPayoutId,
+        localStatus: auction.sellerPayoutStatus!,
+      }
+
+      if (auction.sellerPayoutStatus === 'processing') {
+        // The transfer may or may not exist, so retrying could pay the seller twice
+        tally.checkedCount++
+        await this.raise(runId, {
+          ...base,
+          kind: 'PAYOUT_STALLED',
+          detail: 'Check Stripe for a transfer before retrying the payout',
+        }, false, tally)
+        continue
+      }
+
+      await this.check(runId, base, tally, async () => {
+        const transfer = await this.paymentProcessor.retrieveTransfer(auction.sellerPayoutId!)
+
+        if (transfer.status === 'canceled') {
+          // Same as the transfer.reversed webhook: an admin can retry the payout
+          const { count } = await this.prisma.auction.updateMany({
+            where: { id: auction.id, sellerPayoutStatus: 'completed', sellerPayoutId: transfer.id },
+            data: { sellerPayoutStatus: 'failed' },
+          })
+          await this.raise(runId, { ...base, kind: 'PAYOUT_REVERSED', remoteStatus: 'reversed' }, count > 0, tally)
+        }
+      })
+    }
+  }
+
+  /**
+   * Ask Stripe about one record. A record Stripe does not know is raised;
+   * any other failure is counted and retried on the next run.
+   */
+  private async check(
+    runId: string,
+    base: Omit<Finding, 'kind'>,
+    tally: Tally,
+    fn: () => Promise<void>
+  ): Promise<void> {
+    tally.checkedCount++
+
+    try {
+      await fn()
+    } catch (error) {
+      if (isMissingRecord(error)) {
+        await this.raise(runId, { ...base, kind: 'PROVIDER_RECORD_MISSING' }, false, tally)
+        return
+      }
+
+      tally.errorCount++
+      logError(paymentLogger, 'Reconciliation check failed', error, {
+        resourceType: base.resourceType,
+        resourceId: base.resourceId,
+      })
+    }
+  }
+
+  /**
+   * Record a finding. An issue still open from an earlier run is not raised again.
+   */
+  private async raise(runId: string, finding: Finding, fixed: boolean, tally: Tally): Promise<void> {
+    if (!fixed) {
+      const existing = await this.prisma.reconciliationIssue.findFirst({
+        where: {
+          resourceType: finding.resourceType,
+          resourceId: finding.resourceId,
+          kind: finding.kind,
+          status: 'OPEN',
+        },
+      })
+      if (existing) {
+        return
+      }
+    }
+
+    await this.prisma.reconciliationIssue.create({
+      data: { ...finding, runId, status: fixed ? 'AUTO_FIXED' : 'OPEN' },
+    })
+
+    if (fixed) {
+      tally.autoFixedCount++
+    } else {
+      tally.openCount++
+    }
+
+    paymentLogger.warn({ runId, ...finding, fixed }, 'Payment reconciliation mismatch')
+  }
+
+  private async moveDeposit(
+    depositId: string,
+    from: DepositStatus,
+    data: { status: DepositStatus; heldAt?: Date; releasedAt?: Date }
+  ): Promise<boolean> {
+    const { count } = await this.prisma.bidDeposit.updateMany({
+      where: { id: depositId, status: from },
+      data,
+    })
+    return count > 0
+  }
+
+  /**
+   * Settle a payment Stripe collected without us hearing about it, the way
+   * the payment_intent.succeeded webhook would have
+   */
+  private async recordPayment(auctionId: string, intent: PaymentIntent): Promise<boolean> {
+    if (intent.metadata?.type === 'escrow') {
+      const { confirmEscrowFunding } = await import('./escrow.service')
+      const escrow = await confirmEscrowFunding(intent.id)
+      return escrow?.status === 'FUNDED'
+    }
+
+    const { count } = await this.prisma.auction.updateMany({
+      where: { id: auctionId, paymentIntentId: intent.id, paymentStatus: { in: ['UNPAID', 'PENDING', 'FAILED'] } },
+      data: { paymentStatus: 'PAID', paidAt: new Date() },
+    })
+    if (count === 0) {
+      return false
+    }
+
+    try {
+      const { issueBuyerFeeInvoice } = await import('./invoice.service')
+      await issueBuyerFeeInvoice(auctionId)
+    } catch (invoiceError) {
+      logError(paymentLogger, 'Failed to issue buyer fee invoice', invoiceError, { auctionId })
+    }
+
+    await this.payouts.createSellerPayout(auctionId).catch((error) => {
+      logError(paymentLogger, 'Failed to create seller payout', error, { auctionId })
+    })
+
+    return true
+  }
+}
+
+// Factory function for creating reconciliation service with default dependencies
+import { prisma } from '@/lib/db'
+import { getStripe } from '@/lib/stripe'
+import { createStripePaymentProcessor } from './stripe-payment-processor'
+import { createSellerPayoutService } from './seller-payout.service'
+
+export function createReconciliationService(paymentProcessor?: IPaymentProcessor): ReconciliationService {
+  const processor = paymentProcessor || createStripePaymentProcessor(getStripe())
+  return new ReconciliationService(prisma, processor, createSellerPayoutService(processor))
+}
+
+// Default instance for backward compatibility
+const reconciliationService = createReconciliationService()
+
+// Export individual functions
+export const reconcilePayments = () => reconciliationService.reconcile()
+
+export const getReconciliationReport = () => reconciliationService.getReport()
+
+export const resolveReconciliationIssue = (issueId: string, adminId: string, note: string) =>
+  reconciliationService.resolveIssue(issueId, adminId, note)
@@ -0,0 +1,593 @@
+// Refund Service - admin-issued refunds of buyer payments and bid deposits
+import {
+  PrismaClient,
+  Prisma,
+  PaymentRefund,
+  RefundStatus,
+  RefundTarget,
+  DepositStatus,
+} from '@prisma/client'
+import { lockAuctionRow } from '@/lib/db-lock'
+import { requiresRefundApproval } from '@/domain/auction/rules'
+import { PaymentAuditLogger } from '@/lib/audit'
+import {
+  NotFoundError,
+  ForbiddenError,
+  ValidationError,
+  ConflictError,
+  AuctionStateError,
+  PaymentError,
+} from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { notifyRefundIssued } from './notification.service'
+import { IPaymentProcessor } from './contracts/payment-processor.interface'
+
+// A refund waiting for approval or at Stripe already counts against the balance
+const COMMITTED_STATUSES: RefundStatus[] = ['PENDING_APPROVAL', 'PROCESSING', 'SUCCEEDED']
+
+const REFUNDABLE_DEPOSIT_STATUSES: DepositStatus[] = ['CAPTURED', 'FORFEITED']
+
+type Client = PrismaClient | Prisma.TransactionClient
+
+export type RefundRequest = {
+  auctionId: string
+  target: RefundTarget
+  depositId?: string
+  /** Omit to refund everything still refundable */
+  amount?: number
+  reason: string
+}
+
+export type RefundableBalance = {
+  paymentIntentId: string
+  currency: string
+  charged: number
+  refundable: number
+}
+
+export type AuctionRefunds = {
+  payment: RefundableBalance | null
+  deposits: Array<
+    RefundableBalance & {
+      depositId: string
+      status: DepositStatus
+      user: { id: string; name: string | null; email: string }
+    }
+  >
+  refunds: PaymentRefundWithDetails[]
+}
+
+export type PaymentRefundWithDetails = PaymentRefund & {
+  auction: { id: string; currency: string; listing: { title: string } }
+  requestedBy: { id: string; name: string | null; email: string }
+  reviewedBy: { id: string; name: string | null; email: string } | null
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export class RefundService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly paymentProcessor: IPaymentProcessor
+  ) {}
+
+  /**
+   * Refund all or part of a buyer payment or a captured/forfeited deposit.
+   * Amounts above the approval threshold wait for a second admin; smaller
+   * ones go to Stripe straight away.
+   */
+  async requestRefund(request: RefundRequest, adminId: string): Promise<PaymentRefund> {
+    const refund = await this.prisma.$transaction(async (tx) => {
+      // Serialize refunds per auction so two admins cannot spend the same balance
+      await lockAuctionRow(tx, request.auctionId)
+
+      const balance = await this.getBalance(tx, request.auctionId, request.target, request.depositId)
+      const amount = roundMoney(request.amount ?? balance.refundable)
+
+      if (amount <= 0 || amount > balance.refundable) {
+        throw new ValidationError(
+          `At most ${balance.currency} ${balance.refundable.toFixed(2)} can still be refunded`,
+          ERROR_CODES.REFUND_EXCEEDS_BALANCE,
+          { refundable: balance.refundable }
+        )
+      }
+
+      return tx.paymentRefund.create({
+        data: {
+          auctionId: request.auctionId,
+          depositId: request.target === 'DEPOSIT' ? request.depositId : null,
+          target: request.target,
+          amount,
+          currency: balance.currency,
+          reason: request.reason,
+          paymentIntentId: balance.paymentIntentId,
+          requestedById: adminId,
+          status: requiresRefundApproval(amount) ? 'PENDING_APPROVAL' : 'PROCESSING',
+        },
+      })
+    })
+
+    await new PaymentAuditLogger({ actorId: adminId }).logRefundRequested(
+      refund.auctionId,
+      refund.id,
+      refund.target,
+      Number(refund.amount),
+      refund.currency,
+      refund.reason,
+      refund.status === 'PENDING_APPROVAL'
+    )
+
+    if (refund.status === 'PENDING_APPROVAL') {
+      paymentLogger.info({ refundId: refund.id, auctionId: refund.auctionId }, 'Refund awaiting approval')
+      return refund
+    }
+
+    return this.submit(refund)
+  }
+
+  /**
+   * Approve or reject a refund above the threshold. The reviewer must not be
+   * the admin who asked for it.
+   */
+  async reviewRefund(
+    refundId: string,
+    reviewerId: string,
+    decision: 'APPROVE' | 'REJECT',
+    note?: string
+  ): Promise<PaymentRefund> {
+    const refund = await this.prisma.paymentRefund.findUnique({ where: { id: refundId } })
+
+    if (!refund) {
+      throw new NotFoundError('Refund not found', ERROR_CODES.REFUND_NOT_FOUND)
+    }
+
+    if (refund.status !== 'PENDING_APPROVAL') {
+      throw new ConflictError(
+        'This refund is not waiting for approval',
+        ERROR_CODES.REFUND_NOT_PENDING
+      )
+    }
+
+    if (refund.requestedById === reviewerId) {
+      throw new ForbiddenError(
+        'A refund must be approved by a different admin',
+        ERROR_CODES.REFUND_SELF_APPROVAL
+      )
+    }
+
+    const approved = decision === 'APPROVE'
+    const reviewed = await this.transition(refund.id, ['PENDING_APPROVAL'], {
+      status: approved ? 'PROCESSING' : 'REJECTED',
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+      reviewNote: note,
+    })
+
+    await new PaymentAuditLogger({ actorId: reviewerId }).logRefundReviewed(
+      refund.auctionId,
+      refund.id,
+      approved,
+      note
+    )
+
+    return approved ? this.submit(reviewed) : reviewed
+  }
+
+  /**
+   * Settle refunds still at Stripe for a payment (charge.refunded webhook).
+   * Safe to call repeatedly.
+   */
+  async syncRefunds(paymentIntentId: string): Promise<PaymentRefund[]> {
+    const processing = await this.prisma.paymentRefund.findMany({
+      where: { paymentIntentId, status: 'PROCESSING', stripeRefundId: { not: null } },
+    })
+
+    const settled: PaymentRefund[] = []
+
+    for (const refund of processing) {
+      const result = await this.paymentProcessor.retrieveRefund(refund.stripeRefundId!)
+
+      if (result.status === 'succeeded') {
+        settled.push(await this.complete(refund))
+      } else if (result.status === 'failed' || result.status === 'canceled') {
+        settled.push(await this.fail(refund, result.failureReason || `Refund ${result.status}`))
+      }
+    }
+
+    return settled
+  }
+
+  /**
+   * What can still be refunded on an auction, and its refund history
+   */
+  async getAuctionRefunds(auctionId: string): Promise<AuctionRefunds> {
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      include: { escrow: { select: { id: true } } },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    const refundableDeposits = await this.prisma.bidDeposit.findMany({
+      where: { auctionId, status: { in: REFUNDABLE_DEPOSIT_STATUSES } },
+      include: { user: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const paymentCharge = this.paymentCharge(auction)
+    const payment = paymentCharge
+      ? await this.withCommitted(this.prisma, auctionId, 'BUYER_FEE', undefined, paymentCharge)
+      : null
+
+    const deposits: AuctionRefunds['deposits'] = []
+    for (const deposit of refundableDeposits) {
+      const balance = await this.withCommitted(this.prisma, auctionId, 'DEPOSIT', deposit.id, {
+        paymentIntentId: deposit.stripePaymentIntentId,
+        currency: deposit.currency,
+        charged: Number(deposit.amount),
+        ceiling: Number(deposit.amount),
+      })
+      deposits.push({ ...balance, depositId: deposit.id, status: deposit.status, user: deposit.user })
+    }
+
+    const refunds = await this.prisma.paymentRefund.findMany({
+      where: { auctionId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        auction: { select: { id: true, currency: true, listing: { select: { title: true } } } },
+        requestedBy: { select: { id: true, name: true, email: true } },
+        reviewedBy: { select: { id: true, name: true, email: true } },
+      },
+    })
+
+    return { payment, deposits, refunds }
+  }
+
+  /**
+   * List refunds for the admin queue, oldest first
+   */
+  async listRefunds(options: { status?: RefundStatus } = {}): Promise<PaymentRefundWithDetails[]> {
+    return this.prisma.paymentRefund.findMany({
+      where: options.status ? { status: options.status } : undefined,
+      orderBy: { createdAt: 'asc' },
+      include: {
+        auction: { select: { id: true, currency: true, listing: { select: { title: true } } } },
+        requestedBy: { select: { id: true, name: true, email: true } },
+        reviewedBy: { select: { id: true, name: true, email: true } },
+      },
+    })
+  }
+
+  private async submit(refund: PaymentRefund): Promise<PaymentRefund> {
+    let result
+    try {
+      result = await this.paymentProcessor.refundPayment({
+        paymentIntentId: refund.paymentIntentId,
+        amount: Math.round(Number(refund.amount) * 100),
+        metadata: {
+          type: 'admin_refund',
+          refundId: refund.id,
+          auctionId: refund.auctionId,
+          target: refund.target,
+        },
+      })
+    } catch (error) {
+      logError(paymentLogger, 'Failed to create refund', error, { refundId: refund.id })
+
+      const message = error instanceof Error ? error.message : 'Refund failed'
+      await this.fail(refund, message)
+      throw new PaymentError(message, ERROR_CODES.PAYMENT_FAILED)
+    }
+
+    const sent = await this.prisma.paymentRefund.update({
+      where: { id: refund.id },
+      data: { stripeRefundId: result.id },
+    })
+
+    if (result.status === 'succeeded') {
+      return this.complete(sent)
+    }
+
+    if (result.status === 'failed' || result.status === 'canceled') {
+      return this.fail(sent, result.failureReason || `Refund ${result.status}`)
+    }
+
+    // Card refunds usually succeed at once; the rest settle via charge.refunded
+    return sent
+  }
+
+  /**
+   * Mark the refund succeeded and move the auction or deposit to REFUNDED
+   * once nothing is left of the charge
+   */
+  private async complete(refund: PaymentRefund): Promise<PaymentRefund> {
+    const context = await this.prisma.paymentRefund.findUniqueOrThrow({
+      where: { id: refund.id },
+      include: {
+        auction: {
+          select: {
+            winnerId: true,
+            finalPrice: true,
+            buyerFeeAmount: true,
+            listing: { select: { title: true } },
+          },
+        },
+        deposit: { select: { userId: true, amount: true } },
+      },
+    })
+
+    const completed = await this.prisma.$transaction(async (tx) => {
+      // The API response and the webhook can both get here
+      const { count } = await tx.paymentRefund.updateMany({
+        where: { id: refund.id, status: 'PROCESSING' },
+        data: { status: 'SUCCEEDED', processedAt: new Date() },
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      const refunded = await this.sumRefunds(tx, refund.auctionId, refund.target, refund.depositId, [
+        'SUCCEEDED',
+      ])
+
+      if (refund.target === 'BUYER_FEE') {
+        const charged =
+          Number(context.auction.finalPrice ?? 0) + Number(context.auction.buyerFeeAmount ?? 0)
+        if (refunded >= charged) {
+          await tx.auction.update({
+            where: { id: refund.auctionId },
+            data: { paymentStatus: 'REFUNDED' },
+          })
+        }
+      } else if (context.deposit && refunded >= Number(context.deposit.amount)) {
+        await tx.bidDeposit.update({
+          where: { id: refund.depositId! },
+          data: { status: 'REFUNDED', refundedAt: new Date() },
+        })
+      }
+
+      return tx.paymentRefund.findUniqueOrThrow({ where: { id: refund.id } })
+    })
+
+    if (!completed) {
+      return this.prisma.paymentRefund.findUniqueOrThrow({ where: { id: refund.id } })
+    }
+
+    await new PaymentAuditLogger({}).logRefundSucceeded(
+      completed.auctionId,
+      completed.id,
+      completed.stripeRefundId!,
+      Number(completed.amount),
+      completed.currency
+    )
+
+    paymentLogger.info({ refundId: completed.id, auctionId: completed.auctionId }, 'Refund succeeded')
+
+    const recipientId =
+      completed.target === 'DEPOSIT' ? context.deposit?.userId : context.auction.winnerId
+    if (recipientId) {
+      await notifyRefundIssued(
+        recipientId,
+        completed.auctionId,
+        context.auction.listing.title,
+        Number(completed.amount),
+        completed.currency,
+        completed.target
+      ).catch((error) =>
+        logError(paymentLogger, 'Failed to send refund notification', error, {
+          refundId: completed.id,
+        })
+      )
+    }
+
+    return completed
+  }
+
+  private async fail(refund: PaymentRefund, reason: string): Promise<PaymentRefund> {
+    const failed = await this.prisma.paymentRefund.update({
+      where: { id: refund.id },
+      data: { status: 'FAILED', failureReason: reason, processedAt: new Date() },
+    })
+
+    await new PaymentAuditLogger({}).logRefundFailed(
+      refund.auctionId,
+      refund.id,
+      reason,
+      refund.stripeRefundId ?? undefined
+    )
+
+    return failed
+  }
+
+  /**
+   * Conditional update so two reviewers cannot both act on the same refund
+   */
+  private async transition(
+    refundId: string,
+    from: RefundStatus[],
+    data: Prisma.PaymentRefundUncheckedUpdateManyInput
+  ): Promise<PaymentRefund> {
+    const { count } = await this.prisma.paymentRefund.updateMany({
+      where: { id: refundId, status: { in: from } },
+      data,
+    })
+
+    if (count === 0) {
+      throw new ConflictError(
+        'This refund is not waiting for approval',
+        ERROR_CODES.REFUND_NOT_PENDING
+      )
+    }
+
+    return this.prisma.paymentRefund.findUniqueOrThrow({ where: { id: refundId } })
+  }
+
+  private async getBalance(
+    client: Client,
+    auctionId: string,
+    target: RefundTarget,
+    depositId?: string
+  ): Promise<RefundableBalance> {
+    if (target === 'DEPOSIT') {
+      const deposit = depositId
+        ? await client.bidDeposit.findUnique({ where: { id: depositId } })
+        : null
+
+      if (!deposit || deposit.auctionId !== auctionId) {
+        throw new NotFoundError('Deposit not found')
+      }
+
+      if (!REFUNDABLE_DEPOSIT_STATUSES.includes(deposit.status)) {
+        throw new AuctionStateError(
+          'Only captured or forfeited deposits can be refunded',
+          ERROR_CODES.REFUND_NOT_REFUNDABLE
+        )
+      }
+
+      return this.withCommitted(client, auctionId, target, deposit.id, {
+        paymentIntentId: deposit.stripePaymentIntentId,
+        currency: deposit.currency,
+        charged: Number(deposit.amount),
+        ceiling: Number(deposit.amount),
+      })
+    }
+
+    const auction = await client.auction.findUnique({
+      where: { id: auctionId },
+      include: { escrow: { select: { id: true } } },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    if (auction.escrow) {
+      throw new ValidationError(
+        'Escrow purchases are refunded from the escrow queue',
+        ERROR_CODES.REFUND_NOT_REFUNDABLE
+      )
+    }
+
+    const charge = this.paymentCharge(auction)
+    if (!charge) {
+      throw new AuctionStateError(
+        'There is no captured payment to refund',
+        ERROR_CODES.REFUND_NOT_REFUNDABLE
+      )
+    }
+
+    return this.withCommitted(client, auctionId, target, undefined, charge)
+  }
+
+  /**
+   * The winner's charge and how much of it may come back. Once the seller
+   * payout has started, only the platform's buyer fee can be refunded.
+   */
+  private paymentCharge(auction: {
+    paymentStatus: string
+    paymentIntentId: string | null
+    finalPrice: Prisma.Decimal | null
+    buyerFeeAmount: Prisma.Decimal | null
+    currency: string
+    sellerPayoutStatus: string | null
+    escrow: { id: string } | null
+  }): (Omit<RefundableBalance, 'refundable'> & { ceiling: number }) | null {
+    if (
+      auction.escrow ||
+      auction.paymentStatus !== 'PAID' ||
+      !auction.paymentIntentId ||
+      !auction.finalPrice ||
+      !auction.buyerFeeAmount
+    ) {
+      return null
+    }
+
+    const buyerFee = Number(auction.buyerFeeAmount)
+    const charged = Number(auction.finalPrice) + buyerFee
+    const payoutStarted =
+      auction.sellerPayoutStatus === 'processing' || auction.sellerPayoutStatus === 'completed'
+
+    return {
+      paymentIntentId: auction.paymentIntentId,
+      currency: auction.currency,
+      charged,
+      ceiling: payoutStarted ? buyerFee : charged,
+    }
+  }
+
+  private async withCommitted(
+    client: Client,
+    auctionId: string,
+    target: RefundTarget,
+    depositId: string | undefined,
+    charge: Omit<RefundableBalance, 'refundable'> & { ceiling: number }
+  ): Promise<RefundableBalance> {
+    const committed = await this.sumRefunds(client, auctionId, target, depositId ?? null, COMMITTED_STATUSES)
+
+    return {
+      paymentIntentId: charge.paymentIntentId,
+      currency: charge.currency,
+      charged: charge.charged,
+      refundable: Math.max(0, roundMoney(charge.ceiling - committed)),
+    }
+  }
+
+  private async sumRefunds(
+    client: Client,
+    auctionId: string,
+    target: RefundTarget,
+    depositId: string | null,
+    statuses: RefundStatus[]
+  ): Promise<number> {
+    const result = await client.paymentRefund.aggregate({
+      where: {
+        auctionId,
+        target,
+        ...(target === 'DEPOSIT' ? { depositId } : {}),
+        status: { in: statuses },
+      },
+      _sum: { amount: true },
+    })
+
+    return Number(result._sum.amount ?? 0)
+  }
+}
+
+// Factory function for creating refund service with default dependencies
+import { prisma } from '@/lib/db'
+import { getStripe } from '@/lib/stripe'
+import { createStripePaymentProcessor } from './stripe-payment-processor'
+
+export function createRefundService(paymentProcessor?: IPaymentProcessor): RefundService {
+  const processor = paymentProcessor || createStripePaymentProcessor(getStripe())
+  return new RefundService(prisma, processor)
+}
+
+// Default instance for backward compatibility
+const refundService = createRefundService()
+
+// Export individual functions
+export const requestRefund = (request: RefundRequest, adminId: string) =>
+  refundService.requestRefund(request, adminId)
+
+export const reviewRefund = (
+  refundId: string,
+  reviewerId: string,
+  decision: 'APPROVE' | 'REJECT',
+  note?: string
+) => refundService.reviewRefund(refundId, reviewerId, decision, note)
+
+export const syncPaymentRefunds = (paymentIntentId: string) =>
+  refundService.syncRefunds(paymentIntentId)
+
+export const getAuctionRefunds = (auctionId: string) =>
+  refundService.getAuctionRefunds(auctionId)
+
+export const listRefunds = (options: { status?: RefundStatus } = {}) =>
+  refundService.listRefunds(options)
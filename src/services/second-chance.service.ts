@@ -0,0 +1,374 @@
+// Second-Chance Service - offers a defaulted auction to the next-highest bidders
+import { PrismaClient, SecondChanceOffer } from '@prisma/client'
+import {
+  AUCTION_RULES,
+  calculateBuyerFee,
+  parseFeeTerms,
+  calculatePaymentDeadline,
+  calculateSecondChanceExpiry,
+} from '@/domain/auction/rules'
+import { AuctionAuditLogger } from '@/lib/audit'
+import { NotFoundError, ForbiddenError, AuctionStateError, InsufficientDepositError } from '@/lib/errors'
+import { lockAuctionRow } from '@/lib/db-lock'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+import { notifySecondChanceOffer } from './notification.service'
+import { DepositService } from './deposit.service'
+
+export class SecondChanceService {
+  private readonly audit = new AuctionAuditLogger({})
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly deposits: DepositService
+  ) {}
+
+  /**
+   * Handle a winner who missed the payment deadline:
+   * forfeit their deposit and offer the car to the next-highest bidder
+   */
+  async handleWinnerDefault(auctionId: string): Promise<SecondChanceOffer | null> {
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      select: { winnerId: true },
+    })
+
+    if (!auction?.winnerId) {
+      return null
+    }
+
+    const deposit = await this.deposits.getWinnerDeposit(auctionId, auction.winnerId)
+    const forfeit = deposit
+      ? await this.deposits.forfeitDeposit(deposit.id, 'payment_deadline_missed')
+      : { success: false }
+
+    await this.audit.logWinnerDefaulted(auctionId, auction.winnerId, forfeit.success)
+
+    return this.offerToNextBidder(auctionId, auction.winnerId)
+  }
+
+  /**
+   * Offer the auction to the highest valid bidder who has not had an offer yet.
+   * Returns null when the chain is exhausted.
+   */
+  async offerToNextBidder(
+    auctionId: string,
+    defaultedWinnerId: string
+  ): Promise<SecondChanceOffer | null> {
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      include: {
+        listing: { select: { title: true } },
+        secondChanceOffers: true,
+      },
+    })
+
+    if (!auction || auction.status !== 'SOLD') {
+      return null
+    }
+
+    if (auction.secondChanceOffers.some((o) => o.status === 'PENDING')) {
+      return null
+    }
+
+    if (auction.secondChanceOffers.length >= AUCTION_RULES.SECOND_CHANCE_MAX_OFFERS) {
+      paymentLogger.info({ auctionId }, 'Second-chance chain exhausted')
+      return null
+    }
+
+    // Everyone who already won or was offered the car is out of the chain
+    const excluded = new Set<string>([defaultedWinnerId])
+    if (auction.winnerId) {
+      excluded.add(auction.winnerId)
+    }
+    auction.secondChanceOffers.forEach((o) => {
+      excluded.add(o.bidderId)
+      excluded.add(o.defaultedWinnerId)
+    })
+
+    // Only bids that meet the reserve may be offered the car
+    const nextBid = await this.prisma.bid.findFirst({
+      where: {
+        auctionId,
+        isValid: true,
+        bidderId: { notIn: Array.from(excluded) },
+        amount: auction.reservePrice ? { gte: auction.reservePrice } : undefined,
+      },
+      orderBy: [{ amount: 'desc' }, { createdAt: 'asc' }],
+    })
+
+    if (!nextBid) {
+      paymentLogger.info({ auctionId }, 'No remaining bidders for second-chance offer')
+      return null
+    }
+
+    const now = new Date()
+    const amount = Number(nextBid.amount)
+    const offer = await this.prisma.secondChanceOffer.create({
+      data: {
+        auctionId,
+        bidderId: nextBid.bidderId,
+        bidId: nextBid.id,
+        amount,
+        rank: auction.secondChanceOffers.length + 2,
+        defaultedWinnerId,
+        expiresAt: calculateSecondChanceExpiry(now),
+      },
+    })
+
+    await this.audit.logSecondChanceOffered(
+      auctionId,
+      offer.id,
+      offer.bidderId,
+      amount,
+      offer.rank,
+      offer.expiresAt
+    )
+
+    await notifySecondChanceOffer(
+      offer.bidderId,
+      auctionId,
+      auction.listing.title,
+      amount,
+      auction.currency,
+      offer.expiresAt
+    ).catch((error) => logError(paymentLogger, 'Failed to notify second-chance bidder', error, { auctionId }))
+
+    return offer
+  }
+
+  /**
+   * Accept a pending offer: hold a deposit, then make the bidder the winner
+   * with a fresh buyer fee and payment deadline
+   */
+  async acceptOffer(offerId: string, userId: string): Promise<SecondChanceOffer> {
+    const offer = await this.getPendingOffer(offerId, userId)
+
+    const depositResult = await this.deposits.createBidDeposit({
+      userId,
+      auctionId: offer.auctionId,
+      bidAmount: Number(offer.amount),
+    })
+
+    // On 3D Secure the offer stays pending until the deposit is confirmed and accept is retried
+    if (!depositResult.success || !depositResult.deposit) {
+      throw new InsufficientDepositError(
+        depositResult.error || 'Deposit required to accept this offer',
+        ERROR_CODES.DEPOSIT_REQUIRED,
+        {
+          requiresDeposit: true,
+          requiresAction: depositResult.requiresAction,
+          clientSecret: depositResult.clientSecret,
+        }
+      )
+    }
+
+    const amount = Number(offer.amount)
+    const depositId = depositResult.deposit.id
+
+    let accepted: SecondChanceOffer
+    try {
+      accepted = await this.prisma.$transaction(async (tx) => {
+        // Lock first: a repeat accept, a decline or the expiry cron must not
+        // resolve the offer or change the winner until commit
+        await lockAuctionRow(tx, offer.auctionId)
+
+        const now = new Date()
+        const { count } = await tx.secondChanceOffer.updateMany({
+          where: { id: offer.id, status: 'PENDING', expiresAt: { gt: now } },
+          data: { status: 'ACCEPTED', respondedAt: now, depositId },
+        })
+        if (count === 0) {
+          throw new AuctionStateError(
+            'This offer has already been answered or has expired',
+            ERROR_CODES.SECOND_CHANCE_NOT_PENDING
+          )
+        }
+
+        const auction = await tx.auction.findUnique({
+          where: { id: offer.auctionId },
+          select: { feeTerms: true },
+        })
+
+        await tx.bid.updateMany({
+          where: { auctionId: offer.auctionId, isWinning: true },
+          data: { isWinning: false },
+        })
+
+        await tx.bid.update({
+          where: { id: offer.bidId },
+          data: { isWinning: true },
+        })
+
+        await tx.auction.update({
+          where: { id: offer.auctionId },
+          data: {
+            winnerId: userId,
+            winningBidId: offer.bidId,
+            finalPrice: amount,
+            buyerFeeAmount: calculateBuyerFee(amount, parseFeeTerms(auction?.feeTerms)),
+            paymentStatus: 'UNPAID',
+            paymentIntentId: null,
+            paymentDeadline: calculatePaymentDeadline(now),
+          },
+        })
+
+        return tx.secondChanceOffer.findUniqueOrThrow({ where: { id: offer.id } })
+      })
+    } catch (error) {
+      await this.releaseUnusedDeposit(depositId, offer.auctionId)
+      throw error
+    }
+
+    await this.audit.logSecondChanceResolved(offer.auctionId, offer.id, userId, 'ACCEPTED')
+
+    return accepted
+  }
+
+  /**
+   * Release the deposit taken for an accept that did not go through, unless a
+   * repeat accept that did go through holds it
+   */
+  private async releaseUnusedDeposit(depositId: string, auctionId: string): Promise<void> {
+    const holder = await this.prisma.secondChanceOffer.findFirst({
+      where: { depositId, status: 'ACCEPTED' },
+      select: { id: true },
+    })
+    if (holder) {
+      return
+    }
+
+    await this.deposits.releaseBidDeposit(depositId).catch((error) =>
+      logError(paymentLogger, 'Failed to release second-chance deposit', error, { auctionId, depositId })
+    )
+  }
+
+  /**
+   * Decline a pending offer and pass it down the chain
+   */
+  async declineOffer(offerId: string, userId: string): Promise<SecondChanceOffer> {
+    const offer = await this.getPendingOffer(offerId, userId)
+
+    const declined = await this.prisma.secondChanceOffer.update({
+      where: { id: offer.id },
+      data: { status: 'DECLINED', respondedAt: new Date() },
+    })
+
+    await this.audit.logSecondChanceResolved(offer.auctionId, offer.id, userId, 'DECLINED')
+    await this.offerToNextBidder(offer.auctionId, offer.defaultedWinnerId)
+
+    return declined
+  }
+
+  /**
+   * Expire unanswered offers and pass each down the chain
+   */
+  async expireOffers(): Promise<string[]> {
+    const expired = await this.prisma.secondChanceOffer.findMany({
+      where: {
+        status: 'PENDING',
+        expiresAt: { lte: new Date() },
+      },
+    })
+
+    const expiredIds: string[] = []
+
+    for (const offer of expired) {
+      await this.prisma.secondChanceOffer.update({
+        where: { id: offer.id },
+        data: { status: 'EXPIRED' },
+      })
+
+      await this.audit.logSecondChanceResolved(offer.auctionId, offer.id, offer.bidderId, 'EXPIRED')
+      await this.offerToNextBidder(offer.auctionId, offer.defaultedWinnerId)
+
+      expiredIds.push(offer.id)
+    }
+
+    return expiredIds
+  }
+
+  /**
+   * Get a user's pending offer for an auction
+   */
+  async getPendingOfferForUser(auctionId: string, userId: string): Promise<SecondChanceOffer | null> {
+    return this.prisma.secondChanceOffer.findFirst({
+      where: {
+        auctionId,
+        bidderId: userId,
+        status: 'PENDING',
+        expiresAt: { gt: new Date() },
+      },
+    })
+  }
+
+  /**
+   * Get all offers for an auction (admin view)
+   */
+  async getAuctionOffers(auctionId: string): Promise<SecondChanceOffer[]> {
+    return this.prisma.secondChanceOffer.findMany({
+      where: { auctionId },
+      orderBy: { rank: 'asc' },
+    })
+  }
+
+  private async getPendingOffer(offerId: string, userId: string): Promise<SecondChanceOffer> {
+    const offer = await this.prisma.secondChanceOffer.findUnique({
+      where: { id: offerId },
+    })
+
+    if (!offer) {
+      throw new NotFoundError('Second-chance offer not found', ERROR_CODES.SECOND_CHANCE_NOT_FOUND)
+    }
+
+    if (offer.bidderId !== userId) {
+      throw new ForbiddenError('This offer was not made to you')
+    }
+
+    if (offer.status !== 'PENDING') {
+      throw new AuctionStateError(
+        'This offer has already been answered',
+        ERROR_CODES.SECOND_CHANCE_NOT_PENDING
+      )
+    }
+
+    if (offer.expiresAt <= new Date()) {
+      throw new AuctionStateError('This offer has expired', ERROR_CODES.SECOND_CHANCE_EXPIRED)
+    }
+
+    return offer
+  }
+}
+
+// Factory function for creating second-chance service with default dependencies
+import { prisma } from '@/lib/db'
+import { createDepositService } from './deposit.service'
+
+export function createSecondChanceService(): SecondChanceService {
+  return new SecondChanceService(prisma, createDepositService())
+}
+
+// Default instance for backward compatibility
+const secondChanceService = createSecondChanceService()
+
+// Export individual functions
+export const handleWinnerDefault = (auctionId: string) =>
+  secondChanceService.handleWinnerDefault(auctionId)
+
+export const offerToNextBidder = (auctionId: string, defaultedWinnerId: string) =>
+  secondChanceService.offerToNextBidder(auctionId, defaultedWinnerId)
+
+export const acceptSecondChanceOffer = (offerId: string, userId: string) =>
+  secondChanceService.acceptOffer(offerId, userId)
+
+export const declineSecondChanceOffer = (offerId: string, userId: string) =>
+  secondChanceService.declineOffer(offerId, userId)
+
+export const expireSecondChanceOffers = () =>
+  secondChanceService.expireOffers()
+
+export const getPendingSecondChanceOffer = (auctionId: string, userId: string) =>
+  secondChanceService.getPendingOfferForUser(auctionId, userId)
+
+export const getSecondChanceOffers = (auctionId: string) =>
+  secondChanceService.getAuctionOffers(auctionId)
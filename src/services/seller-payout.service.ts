@@ -1,17 +1,34 @@
 // Seller Payout Service - handles seller payouts via Stripe Connect
-import { PrismaClient } from '@prisma/client'
-import Stripe from 'stripe'
+import { PrismaClient, PayoutHold } from '@prisma/client'
 import {
   ISellerPayoutService,
   PayoutResult,
   SellerPayoutStatus,
 } from './contracts/payment.interface'
+import { IPaymentProcessor } from './contracts/payment-processor.interface'
 import { paymentLogger, logError } from '@/lib/logger'
+import { calculateSellerFees, parseFeeTerms } from '@/domain/auction/rules'
+import { NotFoundError, ForbiddenError, ValidationError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { PromoCodeService } from './promo-code.service'
+import { PayoutHoldService } from './payout-hold.service'
+
+export type HoldRelease = {
+  hold: PayoutHold
+  payout: PayoutResult
+}
+
+export type HandoverConfirmation = {
+  handoverConfirmedAt: Date
+  payout: PayoutResult | null
+}
 
 export class SellerPayoutService implements ISellerPayoutService {
   constructor(
     private readonly prisma: PrismaClient,
-    private readonly stripe: Stripe
+    private readonly paymentProcessor: IPaymentProcessor,
+    private readonly promoCodes: PromoCodeService = new PromoCodeService(prisma),
+    private readonly holds: PayoutHoldService = new PayoutHoldService(prisma)
   ) {}
 
   /**
@@ -38,6 +55,14 @@ export class SellerPayoutService implements ISellerPayoutService {
               },
             },
           },
+          escrow: { select: { status: true } },
+          // Open chargebacks, and lost ones that took the buyer's payment back
+          disputes: {
+            where: {
+              OR: [{ closedAt: null }, { status: 'LOST', target: { in: ['BUYER_FEE', 'ESCROW'] } }],
+            },
+            select: { id: true },
+          },
         },
       })
 
@@ -54,6 +79,15 @@ export class SellerPayoutService implements ISellerPayoutService {
         return { success: false, error: 'Buyer payment not confirmed' }
       }
 
+      // Escrowed funds only go to the seller once the escrow is released
+      if (auction.escrow && auction.escrow.status !== 'RELEASED') {
+        return { success: false, error: 'Funds are held in escrow' }
+      }
+
+      if (auction.disputes.length > 0) {
+        return { success: false, error: 'Payout frozen by a card dispute' }
+      }
+
       // Check if payout already exists
       if (
         auction.sellerPayoutStatus === 'completed' ||
@@ -66,6 +100,27 @@ export class SellerPayoutService implements ISellerPayoutService {
         }
       }
 
+      // Policy holds and open fraud alerts keep the money on the platform
+      const holds = await this.holds.evaluate({
+        id: auction.id,
+        paidAt: auction.paidAt,
+        handoverConfirmedAt: auction.handoverConfirmedAt,
+        hasEscrow: !!auction.escrow,
+        sellerId: auction.listing.seller.id,
+      })
+      if (holds.length > 0) {
+        if (auction.sellerPayoutStatus !== 'held') {
+          await this.prisma.auction.update({
+            where: { id: auctionId },
+            data: { sellerPayoutStatus: 'held' },
+          })
+        }
+        return {
+          success: false,
+          error: `Payout on hold: ${holds.map((hold) => hold.reason).join(', ')}`,
+        }
+      }
+
       // Verify seller has Connect account
       if (!auction.listing.seller.stripeConnectAccountId) {
         return { success: false, error: 'Seller has no Connect account' }
@@ -80,13 +135,20 @@ export class SellerPayoutService implements ISellerPayoutService {
         return { success: false, error: 'Auction has no final price' }
       }
 
-      // Calculate seller payout amount
-      // For now, seller receives the full hammer price (finalPrice)
-      // In the future, you might deduct platform commission here
+      // Calculate seller payout amount: hammer price less the commission and
+      // listing fee from the fee schedule snapshotted onto the auction, with
+      // any commission promo code the seller redeemed
       const hammerPrice = Number(auction.finalPrice)
-      const platformFeeRate = 0.0 // 0% for now - adjust as needed
-      const platformFee = hammerPrice * platformFeeRate
-      const sellerPayout = hammerPrice - platformFee
+      const sellerFees = calculateSellerFees(hammerPrice, parseFeeTerms(auction.feeTerms))
+      const promo = await this.promoCodes.getFeeDiscount(
+        auctionId,
+        auction.listing.seller.id,
+        'SELLER_COMMISSION',
+        sellerFees.commission
+      )
+      const commissionDiscount = promo?.discount ?? 0
+      const platformFee = Math.round((sellerFees.total - commissionDiscount) * 100) / 100
+      const sellerPayout = Math.round((hammerPrice - platformFee) * 100) / 100
 
       // Convert to cents
       const payoutAmountCents = Math.round(sellerPayout * 100)
@@ -95,28 +157,46 @@ export class SellerPayoutService implements ISellerPayoutService {
         return { success: false, error: 'Invalid payout amount' }
       }
 
-      // Mark payout as processing
-      await this.prisma.auction.update({
-        where: { id: auctionId },
+      // Claim the payout; a concurrent trigger that got here first has
+      // already moved it to processing
+      const claimed = await this.prisma.auction.updateMany({
+        where: {
+          id: auctionId,
+          OR: [
+            { sellerPayoutStatus: null },
+            { sellerPayoutStatus: { in: ['pending', 'held', 'failed'] } },
+          ],
+        },
         data: {
           sellerPayoutStatus: 'processing',
           sellerPayoutAmount: sellerPayout,
+          sellerFeeAmount: platformFee,
         },
       })
 
+      if (claimed.count === 0) {
+        return { success: false, error: 'Payout already in progress' }
+      }
+
+      if (promo && !promo.applied) {
+        await this.promoCodes.markApplied(promo.redemptionId, commissionDiscount)
+      }
+
       try {
         // Create transfer to seller's Connect account
-        const transfer = await this.stripe.transfers.create({
+        const transfer = await this.paymentProcessor.createTransfer({
           amount: payoutAmountCents,
           currency: auction.currency.toLowerCase(),
-          destination: auction.listing.seller.stripeConnectAccountId,
-          description: `Payout for auction ${auctionId}: ${auction.listing.title}`,
+          destinationAccountId: auction.listing.seller.stripeConnectAccountId,
           metadata: {
             auctionId,
             sellerId: auction.listing.seller.id,
             listingId: auction.listingId,
             hammerPrice: hammerPrice.toString(),
             platformFee: platformFee.toString(),
+            commission: sellerFees.commission.toString(),
+            listingFee: sellerFees.listingFee.toString(),
+            ...(promo ? { promoCode: promo.code, commissionDiscount: commissionDiscount.toString() } : {}),
             sellerPayout: sellerPayout.toString(),
           },
         })
@@ -269,14 +349,93 @@ export class SellerPayoutService implements ISellerPayoutService {
 
     return this.createSellerPayout(auctionId)
   }
+
+  /**
+   * Admin release of one payout hold; the payout goes out if nothing else holds it
+   */
+  async releaseHold(holdId: string, adminId: string, note?: string): Promise<HoldRelease> {
+    const hold = await this.holds.release(holdId, adminId, note)
+
+    const payout = await this.createSellerPayout(hold.auctionId)
+
+    return { hold, payout }
+  }
+
+  /**
+   * Buyer confirms receiving the car on a sale outside escrow, which lifts
+   * the handover hold on the seller's payout
+   */
+  async confirmHandover(auctionId: string, buyerId: string): Promise<HandoverConfirmation> {
+    const auction = await this.prisma.auction.findUnique({
+      where: { id: auctionId },
+      select: {
+        winnerId: true,
+        status: true,
+        paymentStatus: true,
+        handoverConfirmedAt: true,
+        sellerPayoutStatus: true,
+      },
+    })
+
+    if (!auction) {
+      throw new NotFoundError('Auction not found', ERROR_CODES.AUCTION_NOT_FOUND)
+    }
+
+    if (auction.winnerId !== buyerId) {
+      throw new ForbiddenError('Only the buyer can confirm the handover', ERROR_CODES.HANDOVER_NOT_ALLOWED)
+    }
+
+    if (auction.status !== 'SOLD' || auction.paymentStatus !== 'PAID') {
+      throw new ValidationError('The auction has not been paid yet', ERROR_CODES.HANDOVER_NOT_ALLOWED)
+    }
+
+    if (auction.handoverConfirmedAt) {
+      return { handoverConfirmedAt: auction.handoverConfirmedAt, payout: null }
+    }
+
+    const handoverConfirmedAt = new Date()
+    await this.prisma.auction.update({
+      where: { id: auctionId },
+      data: { handoverConfirmedAt },
+    })
+
+    const payout = auction.sellerPayoutStatus === 'held'
+      ? await this.createSellerPayout(auctionId)
+      : null
+
+    return { handoverConfirmedAt, payout }
+  }
+
+  /**
+   * Re-check held payouts; those whose holds have all cleared are paid.
+   * Returns the auctions that were paid out.
+   */
+  async releaseDuePayouts(): Promise<string[]> {
+    const held = await this.prisma.auction.findMany({
+      where: { sellerPayoutStatus: 'held' },
+      select: { id: true },
+    })
+
+    const paid: string[] = []
+    for (const { id } of held) {
+      const result = await this.createSellerPayout(id)
+      if (result.success) {
+        paid.push(id)
+      }
+    }
+
+    return paid
+  }
 }
 
 // Factory function for creating seller payout service with default dependencies
 import { prisma } from '@/lib/db'
 import { getStripe } from '@/lib/stripe'
+import { createStripePaymentProcessor } from './stripe-payment-processor'
 
-export function createSellerPayoutService(): SellerPayoutService {
-  return new SellerPayoutService(prisma, getStripe())
+export function createSellerPayoutService(paymentProcessor?: IPaymentProcessor): SellerPayoutService {
+  const processor = paymentProcessor || createStripePaymentProcessor(getStripe())
+  return new SellerPayoutService(prisma, processor)
 }
 
 // Default instance for backward compatibility
@@ -291,3 +450,11 @@ export const getSellerPayoutStatus = (auctionId: string) =>
 
 export const retrySellerPayout = (auctionId: string) =>
   sellerPayoutService.retrySellerPayout(auctionId)
+
+export const releasePayoutHold = (holdId: string, adminId: string, note?: string) =>
+  sellerPayoutService.releaseHold(holdId, adminId, note)
+
+export const confirmBuyerHandover = (auctionId: string, buyerId: string) =>
+  sellerPayoutService.confirmHandover(auctionId, buyerId)
+
+export const releaseDuePayouts = () => sellerPayoutService.releaseDuePayouts()
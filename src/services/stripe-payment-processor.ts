@@ -15,6 +15,7 @@ import {
   ConnectAccount,
   AccountLink,
   Transfer,
+  Refund,
   WebhookEvent,
 } from './contracts/payment-processor.interface'
 
@@ -67,6 +68,25 @@ export class StripePaymentProcessor implements IPaymentProcessor {
     return this.mapPaymentIntent(intent)
   }
 
+  async refundPayment(params: {
+    paymentIntentId: string
+    amount?: number
+    metadata?: Record<string, string>
+  }): Promise<Refund> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: params.paymentIntentId,
+      amount: params.amount,
+      metadata: params.metadata,
+    })
+
+    return this.mapRefund(refund)
+  }
+
+  async retrieveRefund(refundId: string): Promise<Refund> {
+    const refund = await this.stripe.refunds.retrieve(refundId)
+    return this.mapRefund(refund)
+  }
+
   // ===== Setup Intents =====
 
   async createSetupIntent(customerId: string): Promise<SetupIntent> {
@@ -227,13 +247,12 @@ export class StripePaymentProcessor implements IPaymentProcessor {
       metadata: params.metadata,
     })
 
-    return {
-      id: transfer.id,
-      amount: transfer.amount,
-      currency: transfer.currency,
-      destination: transfer.destination as string,
-      status: transfer.reversed ? 'canceled' : 'paid',
-    }
+    return this.mapTransfer(transfer)
+  }
+
+  async retrieveTransfer(transferId: string): Promise<Transfer> {
+    const transfer = await this.stripe.transfers.retrieve(transferId)
+    return this.mapTransfer(transfer)
   }
 
   // ===== Webhooks =====
@@ -274,6 +293,30 @@ export class StripePaymentProcessor implements IPaymentProcessor {
     }
   }
 
+  private mapRefund(refund: Stripe.Refund): Refund {
+    return {
+      id: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      paymentIntentId:
+        typeof refund.payment_intent === 'string'
+          ? refund.payment_intent
+          : refund.payment_intent?.id || '',
+      status: (refund.status || 'pending') as Refund['status'],
+      failureReason: refund.failure_reason ?? null,
+    }
+  }
+
+  private mapTransfer(transfer: Stripe.Transfer): Transfer {
+    return {
+      id: transfer.id,
+      amount: transfer.amount,
+      currency: transfer.currency,
+      destination: transfer.destination as string,
+      status: transfer.reversed ? 'canceled' : 'paid',
+    }
+  }
+
   private mapCustomer(customer: Stripe.Customer): Customer {
     return {
       id: customer.id,
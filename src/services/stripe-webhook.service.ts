@@ -0,0 +1,746 @@
+// Stripe Webhook Service - records every Stripe event, skips retried deliveries and replays failures
+import { PrismaClient, Prisma, StripeWebhookEvent, WebhookEventStatus } from '@prisma/client'
+import Stripe from 'stripe'
+import { getContainer } from '@/lib/container'
+import { confirmEscrowFunding } from '@/services/escrow.service'
+import { syncPaymentRefunds } from '@/services/refund.service'
+import { recordDisputeWebhookEvent, DisputeWebhookEvent } from '@/services/dispute.service'
+import { issueBuyerFeeInvoice } from '@/services/invoice.service'
+import { NotFoundError, ConflictError } from '@/lib/errors'
+import { ERROR_CODES } from '@/lib/error-codes'
+import { paymentLogger, logError } from '@/lib/logger'
+
+export type WebhookReceipt = {
+  status: 'processed' | 'duplicate' | 'failed'
+  error?: string
+}
+
+export type WebhookEventSummary = Omit<StripeWebhookEvent, 'payload'> & {
+  replayedBy: { id: string; name: string | null; email: string } | null
+}
+
+export type StripeEventHandler = (event: Stripe.Event) => Promise<void>
+
+// A delivery still PROCESSING after this long died mid-way and may be taken over
+const STALE_PROCESSING_MS = 10 * 60 * 1000
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
+
+export class StripeWebhookService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly handle: StripeEventHandler = handleStripeEvent
+  ) {}
+
+  /**
+   * Record a verified event and process it once. Stripe retries an event until
+   * it gets a 2xx, so a delivery for an event that was already processed, or is
+   * being processed right now, is skipped; a retry of a failed event runs again.
+   */
+  async receive(event: Stripe.Event): Promise<WebhookReceipt> {
+    try {
+      await this.prisma.stripeWebhookEvent.create({
+        data: {
+          id: event.id,
+          type: event.type,
+          payload: event as unknown as Prisma.InputJsonValue,
+          livemode: event.livemode,
+        },
+      })
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error
+      }
+
+      const claimed = await this.claim(event.id, ['FAILED'])
+      if (!claimed) {
+        paymentLogger.info({ eventId: event.id, eventType: event.type }, 'Duplicate webhook delivery skipped')
+        return { status: 'duplicate' }
+      }
+    }
+
+    return this.run(event)
+  }
+
+  /**
+   * Run a failed (or stuck) event again from its stored payload
+   */
+  async replay(eventId: string, adminId: string): Promise<StripeWebhookEvent> {
+    const record = await this.prisma.stripeWebhookEvent.findUnique({ where: { id: eventId } })
+
+    if (!record) {
+      throw new NotFoundError('Webhook event not found', ERROR_CODES.WEBHOOK_EVENT_NOT_FOUND)
+    }
+
+    const claimed = await this.claim(eventId, ['FAILED'], {
+      replayedById: adminId,
+      replayedAt: new Date(),
+    })
+    if (!claimed) {
+      throw new ConflictError(
+        record.status === 'PROCESSED'
+          ? 'This event has already been processed'
+          : 'This event is being processed',
+        ERROR_CODES.WEBHOOK_EVENT_NOT_REPLAYABLE
+      )
+    }
+
+    await this.run(record.payload as unknown as Stripe.Event)
+
+    paymentLogger.info({ eventId, adminId }, 'Webhook event replayed')
+
+    return this.prisma.stripeWebhookEvent.findUniqueOrThrow({ where: { id: eventId } })
+  }
+
+  /**
+   * Recent events, newest first, without their payloads
+   */
+  async listEvents(
+    filter: { status?: WebhookEventStatus; type?: string; limit?: number } = {}
+  ): Promise<WebhookEventSummary[]> {
+    return this.prisma.stripeWebhookEvent.findMany({
+      where: {
+        ...(filter.status && { status: filter.status }),
+        ...(filter.type && { type: filter.type }),
+      },
+      select: {
+        id: true,
+        type: true,
+        livemode: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        processedAt: true,
+        replayedById: true,
+        replayedAt: true,
+        receivedAt: true,
+        updatedAt: true,
+        replayedBy: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: filter.limit ?? 50,
+    })
+  }
+
+  /**
+   * One event with its payload, for inspection
+   */
+  async getEvent(eventId: string): Promise<StripeWebhookEvent> {
+    const record = await this.prisma.stripeWebhookEvent.findUnique({ where: { id: eventId } })
+
+    if (!record) {
+      throw new NotFoundError('Webhook event not found', ERROR_CODES.WEBHOOK_EVENT_NOT_FOUND)
+    }
+
+    return record
+  }
+
+  /**
+   * Move an event back to PROCESSING for another attempt. Only one delivery or
+   * replay wins; a PROCESSING event is taken over only once it has gone stale.
+   */
+  private async claim(
+    eventId: string,
+    statuses: WebhookEventStatus[],
+    data: Prisma.StripeWebhookEventUncheckedUpdateManyInput = {}
+  ): Promise<boolean> {
+    const { count } = await this.prisma.stripeWebhookEvent.updateMany({
+      where: {
+        id: eventId,
+        OR: [
+          { status: { in: statuses } },
+          { status: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      data: { ...data, status: 'PROCESSING', attempts: { increment: 1 } },
+    })
+    return count > 0
+  }
+
+  private async run(event: Stripe.Event): Promise<WebhookReceipt> {
+    try {
+      await this.handle(event)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logError(paymentLogger, 'Webhook handler error', error, {
+        eventId: event.id,
+        eventType: event.type,
+      })
+
+      await this.prisma.stripeWebhookEvent.update({
+        where: { id: event.id },
+        data: { status: 'FAILED', lastError: message },
+      })
+
+      return { status: 'failed', error: message }
+    }
+
+    await this.prisma.stripeWebhookEvent.update({
+      where: { id: event.id },
+      data: { status: 'PROCESSED', processedAt: new Date(), lastError: null },
+    })
+
+    return { status: 'processed' }
+  }
+}
+
+/**
+ * Apply a Stripe event to our records. Handlers must tolerate running twice:
+ * a replay after a partial failure repeats the steps that did succeed.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<void> {
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      await handlePaymentIntentSucceeded(paymentIntent)
+      break
+    }
+
+    case 'payment_intent.payment_failed': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      await handlePaymentIntentFailed(paymentIntent)
+      break
+    }
+
+    case 'payment_intent.canceled': {
+      const paymentIntent = event.data.object as Stripe.PaymentIntent
+      await handlePaymentIntentCanceled(paymentIntent)
+      break
+    }
+
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge
+      await handleChargeRefunded(charge)
+      break
+    }
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.updated':
+    case 'charge.dispute.closed':
+    case 'charge.dispute.funds_withdrawn':
+    case 'charge.dispute.funds_reinstated': {
+      const dispute = event.data.object as Stripe.Dispute
+      await handleChargeDispute(event.id, event.type, dispute)
+      break
+    }
+
+    case 'setup_intent.succeeded': {
+      const setupIntent = event.data.object as Stripe.SetupIntent
+      await handleSetupIntentSucceeded(setupIntent)
+      break
+    }
+
+    case 'account.updated': {
+      const account = event.data.object as Stripe.Account
+      await handleAccountUpdated(account)
+      break
+    }
+
+    case 'transfer.created': {
+      const transfer = event.data.object as Stripe.Transfer
+      await handleTransferCreated(transfer)
+      break
+    }
+
+    case 'transfer.updated': {
+      const transfer = event.data.object as Stripe.Transfer
+      // Check if transfer failed or was reversed
+      if (transfer.reversed) {
+        await handleTransferReversed(transfer)
+      }
+      // Note: Stripe doesn't provide a specific failed status for transfers
+      // Failures are typically handled through the transfer.created event
+      break
+    }
+
+    case 'transfer.reversed': {
+      const transfer = event.data.object as Stripe.Transfer
+      await handleTransferReversed(transfer)
+      break
+    }
+
+    case 'customer.subscription.deleted':
+    case 'customer.subscription.updated':
+      // Handle subscription events if needed
+      break
+
+    default:
+      paymentLogger.debug({ eventType: event.type }, 'Unhandled webhook event type')
+  }
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  const { type, auctionId, userId } = paymentIntent.metadata
+  const container = getContainer()
+
+  if (type === 'bid_deposit') {
+    // Update deposit status if it was pending authentication
+    await container.prisma.bidDeposit.updateMany({
+      where: {
+        stripePaymentIntentId: paymentIntent.id,
+        status: 'PENDING',
+      },
+      data: {
+        status: 'HELD',
+        heldAt: new Date(),
+      },
+    })
+
+    paymentLogger.info({ auctionId, userId }, 'Deposit confirmed via webhook')
+
+    // Log to audit log
+    await container.audit.logAuditEvent({
+      actorId: userId,
+      action: 'payment.deposit.webhook_confirmed',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'MEDIUM',
+      status: 'SUCCESS',
+      details: {
+        paymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        timestamp: new Date().toISOString(),
+      },
+    })
+  }
+
+  if (type === 'buyer_fee') {
+    // Update auction payment status
+    await container.prisma.auction.updateMany({
+      where: {
+        id: auctionId,
+        paymentStatus: { in: ['UNPAID', 'PENDING'] },
+      },
+      data: {
+        paymentStatus: 'PAID',
+        paymentIntentId: paymentIntent.id,
+        paidAt: new Date(),
+      },
+    })
+
+    paymentLogger.info({ auctionId, userId }, 'Buyer fee payment confirmed via webhook')
+
+    // Log to audit log
+    await container.audit.logAuditEvent({
+      actorId: userId,
+      action: 'payment.buyer_fee.webhook_confirmed',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'SUCCESS',
+      details: {
+        paymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount,
+        currency: paymentIntent.currency,
+        finalPrice: paymentIntent.metadata.finalPrice,
+        buyerFee: paymentIntent.metadata.buyerFee,
+        timestamp: new Date().toISOString(),
+      },
+    })
+
+    // Issue the invoice here too in case the client never came back to confirm
+    await issueBuyerFeeInvoice(auctionId).catch((error) =>
+      logError(paymentLogger, 'Failed to issue buyer fee invoice', error, { auctionId })
+    )
+
+    // Trigger seller payout process after buyer payment is confirmed
+    try {
+      // Queue payout creation (in production, use a job queue like BullMQ)
+      // For now, execute directly but don't await to avoid blocking webhook response
+      container.payouts.createSellerPayout(auctionId).catch(error => {
+        logError(paymentLogger, 'Failed to create seller payout', error, { auctionId })
+      })
+    } catch (error) {
+      logError(paymentLogger, 'Failed to trigger seller payout', error, { auctionId })
+    }
+  }
+
+  if (type === 'escrow') {
+    // Funds stay held; the payout waits for the escrow milestones
+    await confirmEscrowFunding(paymentIntent.id)
+
+    paymentLogger.info({ auctionId, userId }, 'Escrow payment confirmed via webhook')
+  }
+}
+
+async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
+  const { type, auctionId, userId } = paymentIntent.metadata
+  const container = getContainer()
+
+  if (type === 'bid_deposit') {
+    // Update deposit status to failed
+    await container.prisma.bidDeposit.updateMany({
+      where: {
+        stripePaymentIntentId: paymentIntent.id,
+        status: 'PENDING',
+      },
+      data: {
+        status: 'FAILED',
+      },
+    })
+
+    paymentLogger.warn({ auctionId, userId }, 'Deposit payment failed via webhook')
+
+    // Log to audit log
+    await container.audit.logAuditEvent({
+      actorId: userId,
+      action: 'payment.deposit.webhook_failed',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'HIGH',
+      status: 'FAILURE',
+      errorMessage: paymentIntent.last_payment_error?.message || 'Payment failed',
+      details: {
+        paymentIntentId: paymentIntent.id,
+        error: paymentIntent.last_payment_error ? {
+          type: paymentIntent.last_payment_error.type,
+          code: paymentIntent.last_payment_error.code,
+          message: paymentIntent.last_payment_error.message,
+          decline_code: paymentIntent.last_payment_error.decline_code,
+        } : null,
+        timestamp: new Date().toISOString(),
+      },
+    })
+
+    // TODO: Notify user about failed deposit
+    // TODO: Create fraud alert if repeated failures
+  }
+
+  if (type === 'buyer_fee') {
+    // Update auction payment status to failed
+    await container.prisma.auction.updateMany({
+      where: {
+        id: auctionId,
+        paymentIntentId: paymentIntent.id,
+      },
+      data: {
+        paymentStatus: 'FAILED',
+      },
+    })
+
+    paymentLogger.error({ auctionId, userId }, 'Buyer fee payment failed via webhook')
+
+    // Log to audit log
+    await container.audit.logAuditEvent({
+      actorId: userId,
+      action: 'payment.buyer_fee.webhook_failed',
+      resourceType: 'auction',
+      resourceId: auctionId,
+      severity: 'CRITICAL',
+      status: 'FAILURE',
+      errorMessage: paymentIntent.last_payment_error?.message || 'Payment failed',
+      details: {
+        paymentIntentId: paymentIntent.id,
+        error: paymentIntent.last_payment_error ? {
+          type: paymentIntent.last_payment_error.type,
+          code: paymentIntent.last_payment_error.code,
+          message: paymentIntent.last_payment_error.message,
+          decline_code: paymentIntent.last_payment_error.decline_code,
+        } : null,
+        timestamp: new Date().toISOString(),
+      },
+    })
+
+    // TODO: Notify user and seller about failed payment
+  }
+
+  if (type === 'escrow') {
+    // The escrow stays open so the winner can retry before the payment deadline
+    await container.prisma.auction.updateMany({
+      where: {
+        id: auctionId,
+        paymentIntentId: paymentIntent.id,
+      },
+      data: {
+        paymentStatus: 'FAILED',
+      },
+    })
+
+    paymentLogger.warn({ auctionId, userId }, 'Escrow payment failed via webhook')
+  }
+}
+
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  const { type } = paymentIntent.metadata
+  const container = getContainer()
+
+  if (type === 'bid_deposit') {
+    // Update deposit status to released
+    await container.prisma.bidDeposit.updateMany({
+      where: {
+        stripePaymentIntentId: paymentIntent.id,
+        status: 'HELD',
+      },
+      data: {
+        status: 'RELEASED',
+        releasedAt: new Date(),
+      },
+    })
+  }
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id
+
+  if (!paymentIntentId) {
+    paymentLogger.warn({ chargeId: charge.id }, 'Charge refunded without payment intent')
+    return
+  }
+
+  // Settles admin refunds still processing; escrow refunds are settled when issued
+  const settled = await syncPaymentRefunds(paymentIntentId)
+
+  paymentLogger.info(
+    {
+      chargeId: charge.id,
+      paymentIntentId,
+      amountRefunded: charge.amount_refunded,
+      settledRefunds: settled.map((refund) => refund.id),
+    },
+    'Charge refund processed via webhook'
+  )
+}
+
+async function handleChargeDispute(eventId: string, eventType: string, dispute: Stripe.Dispute) {
+  const chargeId = typeof dispute.charge === 'string' ? dispute.charge : dispute.charge.id
+  const paymentIntentId =
+    typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent?.id
+
+  if (!paymentIntentId) {
+    paymentLogger.warn({ disputeId: dispute.id, chargeId }, 'Dispute without payment intent')
+    return
+  }
+
+  const recorded = await recordDisputeWebhookEvent({
+    stripeEventId: eventId,
+    type: eventType.replace('charge.dispute.', '') as DisputeWebhookEvent['type'],
+    stripeDisputeId: dispute.id,
+    chargeId,
+    paymentIntentId,
+    amount: dispute.amount / 100,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    status: dispute.status,
+    evidenceDueBy: dispute.evidence_details?.due_by
+      ? new Date(dispute.evidence_details.due_by * 1000)
+      : null,
+  })
+
+  paymentLogger.info(
+    { disputeId: recorded?.id, stripeDisputeId: dispute.id, eventType, status: dispute.status },
+    'Charge dispute processed via webhook'
+  )
+}
+
+async function handleSetupIntentSucceeded(setupIntent: Stripe.SetupIntent) {
+  const customerId = setupIntent.customer as string
+  const paymentMethodId = setupIntent.payment_method as string
+  const container = getContainer()
+
+  if (customerId && paymentMethodId) {
+    // Find user by Stripe customer ID and enable bidding
+    const user = await container.prisma.user.findFirst({
+      where: { stripeCustomerId: customerId },
+    })
+
+    if (user) {
+      await container.prisma.user.update({
+        where: { id: user.id },
+        data: { biddingEnabled: true },
+      })
+
+      paymentLogger.info({ userId: user.id }, 'Bidding enabled via webhook')
+    }
+  }
+}
+
+// ============================================================================
+// STRIPE CONNECT WEBHOOK HANDLERS
+// ============================================================================
+
+async function handleAccountUpdated(account: Stripe.Account) {
+  const container = getContainer()
+
+  // Find user by Connect account ID
+  const user = await container.prisma.user.findFirst({
+    where: { stripeConnectAccountId: account.id },
+  })
+
+  if (!user) {
+    paymentLogger.warn({ accountId: account.id }, 'No user found for Connect account')
+    return
+  }
+
+  // Determine account status
+  let status = 'pending'
+  let payoutEnabled = false
+
+  if (account.details_submitted) {
+    if (account.charges_enabled && account.payouts_enabled) {
+      status = 'active'
+      payoutEnabled = true
+    } else if (account.requirements?.disabled_reason) {
+      status = 'restricted'
+    }
+  }
+
+  // Update user record
+  const wasNotActive = user.stripeConnectStatus !== 'active'
+  const isNowActive = status === 'active'
+
+  await container.prisma.user.update({
+    where: { id: user.id },
+    data: {
+      stripeConnectStatus: status,
+      payoutEnabled,
+      stripeConnectOnboardedAt: isNowActive && wasNotActive ? new Date() : user.stripeConnectOnboardedAt,
+    },
+  })
+
+  // Log audit event
+  await container.audit.logAuditEvent({
+    actorId: user.id,
+    action: 'stripe_connect.account_updated',
+    resourceType: 'user',
+    resourceId: user.id,
+    severity: 'MEDIUM',
+    status: 'SUCCESS',
+    details: {
+      accountId: account.id,
+      status,
+      payoutEnabled,
+      detailsSubmitted: account.details_submitted,
+      chargesEnabled: account.charges_enabled,
+      payoutsEnabled: account.payouts_enabled,
+      requirements: account.requirements ? {
+        currently_due: account.requirements.currently_due,
+        eventually_due: account.requirements.eventually_due,
+        past_due: account.requirements.past_due,
+        disabled_reason: account.requirements.disabled_reason,
+      } : null,
+      timestamp: new Date().toISOString(),
+    },
+  })
+
+  paymentLogger.info({ userId: user.id, status, payoutEnabled }, 'Connect account updated')
+}
+
+async function handleTransferCreated(transfer: Stripe.Transfer) {
+  const { auctionId, sellerId } = transfer.metadata
+  const container = getContainer()
+
+  if (!auctionId) {
+    paymentLogger.warn('Transfer created without auction ID')
+    return
+  }
+
+  // Update auction with transfer confirmation
+  await container.prisma.auction.updateMany({
+    where: {
+      id: auctionId,
+      sellerPayoutStatus: 'processing',
+    },
+    data: {
+      sellerPayoutStatus: 'completed',
+      sellerPayoutId: transfer.id,
+      sellerPaidAt: new Date(),
+    },
+  })
+
+  // Log audit event
+  await container.audit.logAuditEvent({
+    actorId: sellerId || 'system',
+    action: 'seller_payout.transfer_created',
+    resourceType: 'auction',
+    resourceId: auctionId,
+    severity: 'MEDIUM',
+    status: 'SUCCESS',
+    details: {
+      transferId: transfer.id,
+      amount: transfer.amount,
+      currency: transfer.currency,
+      destination: typeof transfer.destination === 'string' ? transfer.destination : transfer.destination?.id || null,
+      auctionId: transfer.metadata.auctionId,
+      sellerId: transfer.metadata.sellerId,
+      timestamp: new Date().toISOString(),
+    },
+  })
+
+  paymentLogger.info({ auctionId, transferId: transfer.id }, 'Transfer created')
+}
+
+async function handleTransferReversed(transfer: Stripe.Transfer) {
+  const { auctionId, sellerId } = transfer.metadata
+  const container = getContainer()
+
+  if (!auctionId) {
+    paymentLogger.warn('Transfer reversed without auction ID')
+    return
+  }
+
+  // Update auction payout status to failed
+  await container.prisma.auction.updateMany({
+    where: {
+      id: auctionId,
+      sellerPayoutId: transfer.id,
+    },
+    data: {
+      sellerPayoutStatus: 'failed',
+    },
+  })
+
+  // Log audit event with critical severity
+  await container.audit.logAuditEvent({
+    actorId: sellerId || 'system',
+    action: 'seller_payout.transfer_reversed',
+    resourceType: 'auction',
+    resourceId: auctionId,
+    severity: 'CRITICAL',
+    status: 'FAILURE',
+    errorMessage: 'Transfer was reversed',
+    details: {
+      transferId: transfer.id,
+      amount: transfer.amount,
+      currency: transfer.currency,
+      destination: typeof transfer.destination === 'string' ? transfer.destination : transfer.destination?.id || null,
+      reversed: transfer.reversed,
+      auctionId: transfer.metadata.auctionId,
+      sellerId: transfer.metadata.sellerId,
+      timestamp: new Date().toISOString(),
+    },
+  })
+
+  paymentLogger.error({ auctionId, transferId: transfer.id }, 'Transfer reversed')
+
+  // TODO: Send urgent notification to seller and admin
+  // TODO: Investigate reason for reversal
+  // TODO: Create fraud alert
+}
+
+// Factory function for creating Stripe webhook service with default dependencies
+import { prisma } from '@/lib/db'
+
+export function createStripeWebhookService(): StripeWebhookService {
+  return new StripeWebhookService(prisma)
+}
+
+// Default instance for backward compatibility
+const stripeWebhookService = createStripeWebhookService()
+
+// Export individual functions
+export const receiveStripeEvent = (event: Stripe.Event) => stripeWebhookService.receive(event)
+
+export const replayStripeEvent = (eventId: string, adminId: string) =>
+  stripeWebhookService.replay(eventId, adminId)
+
+export const listStripeWebhookEvents = (filter?: {
+  status?: WebhookEventStatus
+  type?: string
+  limit?: number
+}) => stripeWebhookService.listEvents(filter)
+
+export const getStripeWebhookEvent = (eventId: string) => stripeWebhookService.getEvent(eventId)
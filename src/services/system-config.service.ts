@@ -9,6 +9,14 @@
 import { prisma } from '@/lib/db'
 import { DEFAULT_AI_MODERATION_CONFIG, type AIModerationConfig } from './contracts/ai-moderation.interface'
 import { LICENSE_PLATE_CONFIG } from '@/config/license-plate.config'
+import {
+  parseBidIncrementTable,
+  resolveFeeTerms,
+  DEFAULT_FEE_SCHEDULE,
+  type BidIncrementTableName,
+  type FeeSchedule,
+  type FeeTerms,
+} from '@/domain/auction/rules'
 
 // ============================================================================
 // CONFIGURATION TYPES
@@ -235,6 +243,71 @@ export async function setLicensePlateConfig(
   }, userId, metadata)
 }
 
+// ============================================================================
+// AUCTION BID INCREMENT CONFIG
+// ============================================================================
+
+const BID_INCREMENT_TABLE_KEY = 'auction.bidIncrementTable'
+
+/**
+ * Get the bid increment table assigned to new auctions
+ */
+export async function getDefaultBidIncrementTable(): Promise<BidIncrementTableName> {
+  const dbValue = await getConfig<string>(BID_INCREMENT_TABLE_KEY)
+
+  // Unknown or missing values fall back to the built-in default
+  return parseBidIncrementTable(dbValue)
+}
+
+/**
+ * Update the bid increment table assigned to new auctions
+ */
+export async function setDefaultBidIncrementTable(
+  table: BidIncrementTableName,
+  userId?: string,
+  metadata?: AuditMetadata
+): Promise<void> {
+  await setConfig(BID_INCREMENT_TABLE_KEY, table, userId, metadata)
+}
+
+// ============================================================================
+// AUCTION FEE SCHEDULE
+// ============================================================================
+
+const FEE_SCHEDULE_KEY = 'auction.feeSchedule'
+
+/**
+ * Get the fee schedule applied to new auctions
+ */
+export async function getFeeSchedule(): Promise<FeeSchedule> {
+  const dbValue = await getConfig<FeeSchedule>(FEE_SCHEDULE_KEY)
+
+  return dbValue ?? DEFAULT_FEE_SCHEDULE
+}
+
+/**
+ * Resolve the fee terms to snapshot onto a new auction for a listing
+ */
+export async function getFeeTermsForListing(listing: {
+  category: string
+  locationCountry: string
+}): Promise<FeeTerms> {
+  const schedule = await getFeeSchedule()
+
+  return resolveFeeTerms(schedule, { category: listing.category, country: listing.locationCountry })
+}
+
+/**
+ * Update the fee schedule. Existing auctions keep their snapshot.
+ */
+export async function setFeeSchedule(
+  schedule: FeeSchedule,
+  userId?: string,
+  metadata?: AuditMetadata
+): Promise<void> {
+  await setConfig(FEE_SCHEDULE_KEY, schedule, userId, metadata)
+}
+
 // ============================================================================
 // COMBINED AI SETTINGS
 // ============================================================================
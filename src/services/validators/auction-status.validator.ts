@@ -50,6 +50,14 @@ export class AuctionStatusValidator {
     return status === 'EXTENDED'
   }
 
+  /**
+   * Check if an auction has been paused by an admin.
+   * Paused auctions reject bids and are skipped by the end-auctions cron.
+   */
+  isPaused(status: AuctionStatus): boolean {
+    return status === 'PAUSED'
+  }
+
   /**
    * Check if an auction was successfully sold.
    */
@@ -82,10 +90,26 @@ export class AuctionStatusValidator {
 
   /**
    * Check if an auction can be cancelled.
-   * Only SCHEDULED and ACTIVE auctions can be cancelled.
+   * SCHEDULED, ACTIVE and PAUSED auctions can be cancelled.
    */
   canCancel(status: AuctionStatus): boolean {
-    return status === 'SCHEDULED' || status === 'ACTIVE'
+    return status === 'SCHEDULED' || status === 'ACTIVE' || status === 'PAUSED'
+  }
+
+  /**
+   * Check if an auction can be paused.
+   * Only live (ACTIVE or EXTENDED) auctions can be paused.
+   */
+  canPause(status: AuctionStatus): boolean {
+    return this.isActive(status)
+  }
+
+  /**
+   * Check if an auction can be resumed.
+   * Only PAUSED auctions can be resumed.
+   */
+  canResume(status: AuctionStatus): boolean {
+    return status === 'PAUSED'
   }
 
   /**
@@ -139,6 +163,8 @@ export class AuctionStatusValidator {
         return 'Active - auction is live and accepting bids'
       case 'EXTENDED':
         return 'Extended - auction time extended due to late bid (anti-sniping)'
+      case 'PAUSED':
+        return 'Paused - bidding frozen by an admin, time is added back on resume'
       case 'ENDED':
         return 'Ended - auction completed, awaiting payment confirmation'
       case 'SOLD':
@@ -160,9 +186,11 @@ export class AuctionStatusValidator {
       case 'SCHEDULED':
         return ['ACTIVE', 'CANCELLED']
       case 'ACTIVE':
-        return ['EXTENDED', 'ENDED', 'CANCELLED']
+        return ['EXTENDED', 'PAUSED', 'ENDED', 'CANCELLED']
       case 'EXTENDED':
-        return ['ENDED', 'CANCELLED']
+        return ['PAUSED', 'ENDED', 'CANCELLED']
+      case 'PAUSED':
+        return ['ACTIVE', 'EXTENDED', 'CANCELLED'] // Resume restores the status paused from
       case 'ENDED':
         return ['SOLD', 'NO_SALE']
       case 'SOLD':
@@ -47,6 +47,7 @@ export type AdminListing = {
   isRunning: boolean
   conditionRating: number | null
   knownIssues: string | null
+  reviewedAt: string | Date | null // Set once a reviewer has acted on the listing
   createdAt: string | Date
   seller: {
     id: string
@@ -75,7 +76,7 @@ export type ListingStatusFilter = 'PENDING_REVIEW' | 'CHANGES_REQUESTED' | 'APPR
 /**
  * Admin auction status types (for filtering and display)
  */
-export type AdminAuctionStatus = 'SCHEDULED' | 'ACTIVE' | 'EXTENDED' | 'ENDED' | 'SOLD' | 'NO_SALE' | 'CANCELLED'
+export type AdminAuctionStatus = 'SCHEDULED' | 'ACTIVE' | 'EXTENDED' | 'PAUSED' | 'ENDED' | 'SOLD' | 'NO_SALE' | 'CANCELLED'
 
 /**
  * Auction data for admin management
@@ -90,6 +91,13 @@ export type AdminAuctionData = {
   extensionCount: number
   reserveMet: boolean
   currency: string
+  bidIncrementTable: string
+  paymentStatus: string
+  pausedAt: string | null
+  pauseReason: string | null
+  liveFinale: boolean
+  liveCall: 'FAIR_WARNING' | 'GOING_ONCE' | 'GOING_TWICE' | 'SOLD' | null
+  format: 'OPEN' | 'SEALED_FIRST_PRICE' | 'SEALED_SECOND_PRICE'
   listing: {
     id: string
     title: string
@@ -106,6 +114,34 @@ export type AdminAuctionData = {
     bids: number
     watchlist: number
   }
+  secondChanceOffers: AdminSecondChanceOffer[]
+  reserveChanges: AdminReserveChange[]
+}
+
+/**
+ * Second-chance offer made after a winner defaulted
+ */
+export type AdminSecondChanceOffer = {
+  id: string
+  rank: number
+  status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED'
+  amount: string
+  expiresAt: string
+  bidder: {
+    email: string
+  }
+}
+
+/**
+ * Reserve reduction made by the seller during a live auction
+ */
+export type AdminReserveChange = {
+  id: string
+  previousReserve: string
+  newReserve: string
+  currentBid: string | null
+  reserveMet: boolean
+  createdAt: string
 }
 
 /**
@@ -30,6 +30,8 @@ export type {
   AdminListing,
   ListingStatusFilter,
   AdminAuctionData,
+  AdminSecondChanceOffer,
+  AdminReserveChange,
   AdminAuctionStatus,
   FraudSeverity,
   FraudAlertStatus,